@@ -1,9 +1,19 @@
 import { NextRequest } from 'next/server';
 import { createServiceSupabaseClient } from '@/lib/auth/supabase';
 import { z } from 'zod';
-import { generateObject } from 'ai';
 import { corsJsonResponse, corsErrorResponse, corsOptionsResponse } from '@/lib/api/response';
-import { getAiModel } from '@/lib/ai/config';
+import { generateObjectForTask } from '@/lib/ai/generate';
+import { ITEM_CATEGORIES } from '@/lib/valuation';
+import { checkUsageLimit, recordModelUsage, usageLimitResponse } from '@/lib/usage';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import {
+  describeUpdate,
+  ExistingItem,
+  ItemProvenance,
+  planRemerge,
+  ProposedItem,
+  RemergeDiff,
+} from '@/lib/review';
 
 const logger = {
   info: (message: string, ...args: unknown[]) => console.log(`[Merge API] ${message}`, ...args),
@@ -18,6 +28,9 @@ const ItemSchema = z.object({
   timestamp: z.number().min(0),
   tag_names: z.array(z.string()).optional(),
   room_name: z.string().min(1),
+  detection_ref: z.number().int().nullable().optional(),
+  category: z.enum(ITEM_CATEGORIES).nullable().optional(),
+  confidence: z.number().min(0).max(1).nullable().optional(),
 });
 
 const OutputSchema = z.object({
@@ -37,7 +50,8 @@ export async function POST(req: NextRequest) {
       return corsErrorResponse('Missing required fields: user_id and either asset_id or mux_asset_id', 400);
     }
 
-    const serviceClient = createServiceSupabaseClient();
+    // Items created here are attributed to the AI in the audit log
+    const serviceClient = createServiceSupabaseClient({ actor: 'ai' });
 
     // Get the asset
     let assetQuery = serviceClient.from('assets').select('*').eq('user_id', user_id);
@@ -52,21 +66,28 @@ export async function POST(req: NextRequest) {
       return corsErrorResponse(`Asset not found: ${assetError?.message}`, 404);
     }
 
+    const usage = await checkUsageLimit(serviceClient, user_id, 'llm');
+    if (!usage.allowed) {
+      logger.warn(`LLM ${usage.reason} reached for user ${user_id}`);
+      return usageLimitResponse(usage);
+    }
+
     // Get scratch items
     const { data: scratchItems, error: scratchError } = await serviceClient
       .from('scratch_items')
       .select('*')
       .eq('user_id', user_id)
-      .eq('mux_asset_id', asset.mux_asset_id);
+      .eq('mux_asset_id', asset.mux_asset_id)
+      .order('video_timestamp', { ascending: true });
 
     if (scratchError) {
       logger.warn('Error fetching scratch items:', scratchError);
     }
 
-    // Get user's existing tags and rooms
+    // Get the household's existing tags and the rooms of the property the video was recorded in
     const [tagsResult, roomsResult] = await Promise.all([
-      serviceClient.from('tags').select('name').eq('user_id', user_id),
-      serviceClient.from('rooms').select('name').eq('user_id', user_id)
+      serviceClient.from('tags').select('name').eq('household_id', asset.household_id),
+      serviceClient.from('rooms').select('name').eq('property_id', asset.property_id)
     ]);
 
     const availableTagNames = tagsResult.data?.map(t => t.name) || [];
@@ -76,46 +97,177 @@ export async function POST(req: NextRequest) {
     const prompt = createMergePrompt(transcript, scratchItems || [], availableTagNames, availableRoomNames);
 
     // Generate items using AI
-    const model = getAiModel();
-    const result = await generateObject({
-      model: model,
+    const result = await generateObjectForTask({
+      task: 'merge',
       schema: OutputSchema,
       prompt,
       mode: 'json'
     });
 
+    await recordModelUsage(serviceClient, {
+      userId: user_id,
+      kind: 'llm',
+      operation: 'merge_with_scratch',
+      assetId: asset.id,
+    }, result);
+
     const analyzedItems = result.object.items || [];
-    logger.info(`Generated ${analyzedItems.length} consolidated items`);
-
-    // Insert items into assets table
-    const itemsToInsert = analyzedItems.map(item => ({
-      name: item.name,
-      description: item.description,
-      user_id: user_id,
-      mux_asset_id: asset.mux_asset_id,
-      item_timestamp: Math.round(item.timestamp * 10) / 10,
-      estimated_value: item.estimated_value,
-      media_type: 'item' as const,
-      media_url: '',
-      is_source_video: false,
-      source_video_id: asset.id,
-      mux_playback_id: asset.mux_playback_id,
+    logger.info(`Generated ${analyzedItems.length} consolidated items with ${result.model.provider}:${result.model.modelId}`);
+
+    // Match the proposals to the items already created from this recording, so a re-run
+    // only applies what changed and keeps people's edits
+    const model = `${result.model.provider}:${result.model.modelId}`;
+    const proposals = analyzedItems.map(item => ({
+      item,
+      proposed: toProposedItem(scratchItems || [], item, availableTagNames),
     }));
-
-    const { data: insertedItems, error: insertError } = await serviceClient
+    const { data: existingRows, error: existingError } = await serviceClient
       .from('assets')
-      .insert(itemsToInsert)
-      .select('id, name, estimated_value');
+      .select(`
+        id, name, description, estimated_value, category, item_timestamp, review_status, ai_provenance,
+        asset_rooms(
+          rooms(name)
+        ),
+        asset_tags(
+          tags(name)
+        )
+      `)
+      .eq('source_video_id', asset.id)
+      .eq('media_type', 'item');
+
+    if (existingError) {
+      logger.error('Error loading existing items:', existingError);
+      return corsErrorResponse(`Failed to load existing items: ${existingError.message}`, 500);
+    }
+
+    const existingItems: ExistingItem[] = (existingRows || []).map(({ asset_rooms, asset_tags, ...row }) => ({
+      ...row,
+      room: extractRoomName(asset_rooms),
+      tags: extractTagNames(asset_tags),
+    })) as ExistingItem[];
+    const plan = planRemerge(existingItems, proposals.map(p => p.proposed));
+    const analyzedFor = new Map(proposals.map(p => [p.proposed, p.item]));
+    const remergedAt = new Date().toISOString();
+    const diff: RemergeDiff = { created: [], changed: [], unchanged: [], vanished: [] };
+
+    // Insert new items as proposals for review, carrying over the crop of the detection the model picked
+    const itemsToInsert = plan.created.map(proposed => {
+      const item = analyzedFor.get(proposed)!;
+      return {
+        ...pickDetectionCrop(scratchItems || [], item.detection_ref),
+        name: proposed.name,
+        description: proposed.description,
+        user_id: user_id,
+        household_id: asset.household_id,
+        property_id: asset.property_id,
+        mux_asset_id: asset.mux_asset_id,
+        item_timestamp: proposed.item_timestamp,
+        estimated_value: proposed.estimated_value,
+        value_source: valueSource(item),
+        category: proposed.category,
+        media_type: 'item' as const,
+        media_url: '',
+        is_source_video: false,
+        source_video_id: asset.id,
+        mux_playback_id: asset.mux_playback_id,
+        review_status: 'pending' as const,
+        ai_confidence: item.confidence ?? null,
+        ai_provenance: buildProvenance(proposed, model),
+      };
+    });
+
+    let insertedItems: Array<{ id: string; name: string; estimated_value: number }> = [];
+    if (itemsToInsert.length > 0) {
+      const { data, error: insertError } = await serviceClient
+        .from('assets')
+        .insert(itemsToInsert)
+        .select('id, name, estimated_value');
+
+      if (insertError) {
+        logger.error('Insert error:', insertError);
+        return corsErrorResponse(`Failed to insert items: ${insertError.message}`, 500);
+      }
+      insertedItems = data || [];
+      await linkTagsAndRooms(serviceClient, user_id, asset.household_id, asset.property_id, insertedItems.map((dbItem, i) => ({
+        id: dbItem.id,
+        name: dbItem.name,
+        tag_names: plan.created[i].tags,
+        room_name: plan.created[i].room,
+      })));
+      diff.created = insertedItems.map(({ id, name }) => ({ id, name }));
+    }
+
+    // Apply the model's changes to the fields of pending items nobody edited
+    for (const update of plan.updated) {
+      const { existing, proposed } = update;
+      const item = analyzedFor.get(proposed)!;
+      const change = describeUpdate(update);
+      const { error: updateError } = await serviceClient
+        .from('assets')
+        .update({
+          ...update.updates,
+          ...('estimated_value' in update.updates && { value_source: valueSource(item) }),
+          ai_confidence: item.confidence ?? null,
+          ai_provenance: {
+            ...existing.ai_provenance,
+            ...buildProvenance(proposed, model),
+            remerged: { at: remergedAt, fields: change.fields.map(f => f.field) },
+          },
+        })
+        .eq('id', existing.id);
+
+      if (updateError) {
+        logger.error(`Failed to update item ${existing.id}:`, updateError);
+        return corsErrorResponse(`Failed to update items: ${updateError.message}`, 500);
+      }
+
+      if (update.replaceTags) {
+        await serviceClient.from('asset_tags').delete().eq('asset_id', existing.id);
+      }
+      if (update.replaceRoom) {
+        await serviceClient.from('asset_rooms').delete().eq('asset_id', existing.id);
+      }
+      if (update.replaceTags || update.replaceRoom) {
+        await linkTagsAndRooms(serviceClient, user_id, asset.household_id, asset.property_id, [{
+          id: existing.id,
+          name: change.name ?? proposed.name,
+          tag_names: update.replaceTags ? proposed.tags : undefined,
+          room_name: update.replaceRoom ? proposed.room : undefined,
+        }]);
+      }
+      diff.changed.push(change);
+    }
 
-    if (insertError) {
-      logger.error('Insert error:', insertError);
-      return corsErrorResponse(`Failed to insert items: ${insertError.message}`, 500);
+    // Items with nothing to apply still record the latest proposal, so later edits are detected
+    for (const { existing, proposed } of plan.unchanged) {
+      diff.unchanged.push({ id: existing.id, name: existing.name });
+      if (existing.review_status === 'rejected') continue;
+      await serviceClient
+        .from('assets')
+        .update({ ai_provenance: { ...existing.ai_provenance, ...buildProvenance(proposed, model) } })
+        .eq('id', existing.id);
     }
 
-    // Link tags and rooms
-    if (insertedItems && insertedItems.length > 0) {
-      await linkTagsAndRooms(serviceClient, user_id, insertedItems, analyzedItems);
+    // Proposals nobody has looked at go away with the detection; anything reviewed or edited stays
+    const removedIds = plan.vanished.filter(v => v.remove).map(v => v.existing.id);
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await serviceClient.from('assets').delete().in('id', removedIds);
+      if (deleteError) {
+        logger.error('Failed to remove vanished proposals:', deleteError);
+        return corsErrorResponse(`Failed to remove items: ${deleteError.message}`, 500);
+      }
     }
+    diff.vanished = plan.vanished.map(({ existing, remove }) => ({
+      id: existing.id,
+      name: existing.name,
+      reviewStatus: existing.review_status,
+      removed: remove,
+    }));
+
+    logger.info(
+      `Merge diff for asset ${asset.id}: ${diff.created.length} new, ${diff.changed.length} changed, ` +
+      `${diff.unchanged.length} unchanged, ${diff.vanished.length} vanished (${removedIds.length} removed)`
+    );
 
     // Mark asset as processed
     await serviceClient
@@ -136,7 +288,8 @@ export async function POST(req: NextRequest) {
     return corsJsonResponse({
       success: true,
       items: insertedItems,
-      message: `Successfully created ${insertedItems.length} inventory items`,
+      diff,
+      message: describeDiff(diff),
     });
 
   } catch (error: unknown) {
@@ -148,6 +301,71 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Resolve the crop thumbnail for a merged item from the detection number the model referenced
+ */
+function pickDetectionCrop(
+  scratchItems: Array<{ image_url?: string | null; bounding_box?: unknown }>,
+  detectionRef: number | null | undefined
+): { thumbnail_url?: string; bounding_box?: unknown } {
+  if (detectionRef == null) return {};
+  const detection = scratchItems[detectionRef - 1];
+  if (!detection?.image_url) return {};
+  return { thumbnail_url: detection.image_url, bounding_box: detection.bounding_box ?? null };
+}
+
+/**
+ * The model's proposal in the shape stored on items; tags the household does not have are
+ * never linked, so they are left out
+ */
+function toProposedItem(
+  scratchItems: Array<{ id?: string }>,
+  item: z.infer<typeof ItemSchema>,
+  availableTagNames: string[]
+): ProposedItem {
+  const detection = item.detection_ref != null ? scratchItems[item.detection_ref - 1] : undefined;
+  return {
+    name: item.name,
+    description: item.description,
+    estimated_value: item.estimated_value,
+    category: item.category ?? null,
+    item_timestamp: Math.round(item.timestamp * 10) / 10,
+    room: item.room_name,
+    tags: (item.tag_names ?? []).filter(name => availableTagNames.includes(name)),
+    detection_ids: detection?.id ? [detection.id] : [],
+  };
+}
+
+// Items the model tied to a detection were valued from the video frames
+function valueSource(item: z.infer<typeof ItemSchema>) {
+  return item.detection_ref != null ? 'ai_frame' as const : 'ai_transcript' as const;
+}
+
+/**
+ * Record what the model based a proposed item on, for the review queue, and what it proposed,
+ * so a later re-merge can tell which fields a person edited
+ */
+function buildProvenance(proposed: ProposedItem, model: string): ItemProvenance {
+  const { detection_ids, ...snapshot } = proposed;
+  return {
+    source: 'merge_with_scratch',
+    model,
+    ...(detection_ids.length > 0 && { detection_ids }),
+    suggested_room: proposed.room,
+    suggested_tags: proposed.tags,
+    proposed: snapshot,
+  };
+}
+
+function describeDiff(diff: RemergeDiff): string {
+  if (diff.changed.length === 0 && diff.unchanged.length === 0 && diff.vanished.length === 0) {
+    return `Proposed ${diff.created.length} inventory items for review`;
+  }
+  const removed = diff.vanished.filter(item => item.removed).length;
+  return `Re-merged: ${diff.created.length} new, ${diff.changed.length} updated, ` +
+    `${diff.unchanged.length} unchanged, ${diff.vanished.length} no longer found (${removed} removed)`;
+}
+
 function createMergePrompt(
   transcript: unknown, 
   scratchItems: Array<{
@@ -155,6 +373,7 @@ function createMergePrompt(
     description?: string;
     video_timestamp?: number;
     estimated_value?: number;
+    image_url?: string | null;
   }>, 
   availableTagNames: string[], 
   availableRoomNames: string[]
@@ -163,7 +382,9 @@ function createMergePrompt(
     (typeof transcript === 'string' ? transcript : JSON.stringify(transcript)) : 
     'No transcript available';
 
-  const formattedScratchItems = scratchItems.map(item => ({
+  const formattedScratchItems = scratchItems.map((item, index) => ({
+    ref: index + 1,
+    hasCrop: !!item.image_url,
     name: item.name,
     description: item.description || '',
     timestamp: Number(item.video_timestamp) || 0,
@@ -176,7 +397,7 @@ TRANSCRIPT: ${transcriptText}
 
 DETECTED ITEMS:
 ${formattedScratchItems.map(item => 
-  `- ${item.name}: ${item.description} (${item.timestamp}s, $${item.estimated_value})`
+  `- [#${item.ref}${item.hasCrop ? ', has crop' : ''}] ${item.name}: ${item.description} (${item.timestamp}s, $${item.estimated_value})`
 ).join('\n')}
 
 AVAILABLE TAGS (ONLY USE THESE): ${availableTagNames.join(', ') || 'None'}
@@ -199,7 +420,13 @@ CRITICAL RULES:
 
 7. **TAG RESTRICTION**: ONLY use tags from the "AVAILABLE TAGS" list above. Do not create new tags.
 
-8. **MANDATORY ROOM ASSIGNMENT**: You MUST assign a room_name to EVERY single item. Use transcript context if it exists; otherwise, use logical defaults, but only if the transcript does not mention a room.
+8. **DETECTION REFERENCE**: Set detection_ref to the number (#) of the detected item that best shows this item, preferring detections marked "has crop". Use null if the item only appears in the transcript.
+
+9. **CATEGORY**: Set category to the one that best fits the item: ${ITEM_CATEGORIES.join(', ')}.
+
+10. **CONFIDENCE**: Set confidence between 0 and 1 for how sure you are the item is real, distinct from the other items, and correctly named. Use lower values for items only guessed from a brief detection or that might duplicate another item.
+
+11. **MANDATORY ROOM ASSIGNMENT**: You MUST assign a room_name to EVERY single item. Use transcript context if it exists; otherwise, use logical defaults, but only if the transcript does not mention a room.
 
 **ROOM ASSIGNMENT IS MANDATORY - NEVER LEAVE room_name EMPTY, NULL, OR UNDEFINED**
 
@@ -220,7 +447,10 @@ EXAMPLE OUTPUT (NOTICE EVERY ITEM HAS A ROOM):
       "estimated_value": 800,
       "timestamp": 20.0,
       "tag_names": ["Electronics"],
-      "room_name": "Office"
+      "room_name": "Office",
+      "detection_ref": 3,
+      "category": "electronics",
+      "confidence": 0.95
     },
     {
       "name": "Black Computer Monitor",
@@ -228,7 +458,10 @@ EXAMPLE OUTPUT (NOTICE EVERY ITEM HAS A ROOM):
       "estimated_value": 150,
       "timestamp": 20.0,
       "tag_names": ["Electronics"],
-      "room_name": "Bedroom"
+      "room_name": "Bedroom",
+      "detection_ref": null,
+      "category": "electronics",
+      "confidence": 0.6
     }
   ]
 }
@@ -251,27 +484,27 @@ CRITICAL: Every item in your response MUST have a "room_name" field with a value
 async function linkTagsAndRooms(
   serviceClient: ReturnType<typeof createServiceSupabaseClient>,
   user_id: string,
-  insertedItems: Array<{ id: string; name: string; estimated_value: number }>,
-  analyzedItems: Array<{ tag_names?: string[]; room_name: string }>
+  household_id: string,
+  property_id: string,
+  links: Array<{ id: string; name: string; tag_names?: string[]; room_name?: string | null }>
 ) {
-  for (let i = 0; i < insertedItems.length; i++) {
-    const dbItem = insertedItems[i];
-    const aiItem = analyzedItems[i];
+  for (let i = 0; i < links.length; i++) {
+    const link = links[i];
 
     // Debug logging
-    logger.info(`Processing item ${i + 1}: ${dbItem.name}`);
-    logger.info(`AI suggested tags: ${JSON.stringify(aiItem.tag_names)}`);
-    logger.info(`AI suggested room: ${aiItem.room_name}`);
+    logger.info(`Processing item ${i + 1}: ${link.name}`);
+    logger.info(`AI suggested tags: ${JSON.stringify(link.tag_names)}`);
+    logger.info(`AI suggested room: ${link.room_name}`);
 
     // Handle tags - ONLY use existing tags, don't create new ones
-    if (aiItem.tag_names?.length) {
+    if (link.tag_names?.length) {
       const tagIds: string[] = [];
       
-      for (const tagName of aiItem.tag_names) {
+      for (const tagName of link.tag_names) {
         const { data: existingTag } = await serviceClient
           .from('tags')
           .select('id')
-          .eq('user_id', user_id)
+          .eq('household_id', household_id)
           .eq('name', tagName)
           .single();
 
@@ -287,20 +520,20 @@ async function linkTagsAndRooms(
       if (tagIds.length > 0) {
         await serviceClient
           .from('asset_tags')
-          .insert(tagIds.map(tag_id => ({ asset_id: dbItem.id, tag_id })));
-        logger.info(`Linked ${tagIds.length} tags to asset ${dbItem.id}`);
+          .insert(tagIds.map(tag_id => ({ asset_id: link.id, tag_id })));
+        logger.info(`Linked ${tagIds.length} tags to asset ${link.id}`);
       }
     }
 
     // Handle room assignment with fallbacks
-    const roomNameToUse = aiItem.room_name;
+    const roomNameToUse = link.room_name;
 
     if (roomNameToUse) {
       logger.info(`Looking for room: ${roomNameToUse}`);
       let { data: existingRoom } = await serviceClient
         .from('rooms')
         .select('id')
-        .eq('user_id', user_id)
+        .eq('property_id', property_id)
         .eq('name', roomNameToUse)
         .single();
 
@@ -308,7 +541,7 @@ async function linkTagsAndRooms(
         logger.info(`Room not found, creating: ${roomNameToUse}`);
         const { data: newRoom } = await serviceClient
           .from('rooms')
-          .insert({ user_id, name: roomNameToUse })
+          .insert({ user_id, household_id, property_id, name: roomNameToUse })
           .select('id')
           .single();
         existingRoom = newRoom;
@@ -319,13 +552,13 @@ async function linkTagsAndRooms(
       if (existingRoom?.id) {
         await serviceClient
           .from('asset_rooms')
-          .upsert({ asset_id: dbItem.id, room_id: existingRoom.id });
-        logger.info(`Linked room ${roomNameToUse} to asset ${dbItem.id}`);
+          .upsert({ asset_id: link.id, room_id: existingRoom.id });
+        logger.info(`Linked room ${roomNameToUse} to asset ${link.id}`);
       } else {
         logger.error(`Failed to create or find room: ${roomNameToUse}`);
       }
-    } else {
-      logger.error(`No room could be determined for item: ${dbItem.name}`);
+    } else if (link.room_name !== undefined) {
+      logger.error(`No room could be determined for item: ${link.name}`);
     }
   }
 }
\ No newline at end of file
@@ -2,20 +2,22 @@ import { createClient } from '@/utils/supabase/server';
 // Import the service role client for privileged operations
 import { createServiceSupabaseClient } from '@/lib/auth/supabase';
 import { z } from 'zod';
-import { generateObject } from 'ai';
 import { Database } from '@/lib/db/schema';
-import { getAiModel } from '@/lib/ai/config';
+import { generateObjectForTask } from '@/lib/ai/generate';
+import { ITEM_CATEGORIES } from '@/lib/valuation';
 import { corsJsonResponse, corsErrorResponse } from '@/lib/api/response';
 import { extractParagraphText } from '@/lib/deepgram';
 import { TranscriptData } from '@/types/mux';
 import { withAuth } from '@/lib/api/auth';
+import { checkUsageLimit, recordModelUsage, usageLimitResponse } from '@/lib/usage';
 
 // Define the Zod schema for expected LLM output
 const ItemSchema = z.object({
   name: z.string().describe('The name of the identified item, formatted in Title Case.'),
   timestamp: z.number().nonnegative().describe('The start time (in seconds) marking the earliest moment the item is first clearly shown or initially mentioned.'),
   estimated_value: z.number().nullable().describe('An estimated value of the item in USD. MUST be provided (guess if necessary, null if impossible).'),
-  description: z.string().describe('A concise description of the item based on the transcript context.')
+  description: z.string().describe('A concise description of the item based on the transcript context.'),
+  category: z.enum(ITEM_CATEGORIES).nullable().optional().describe('The category that best fits the item, used to depreciate its value.')
 });
 
 const ItemsListSchema = z.object({
@@ -67,8 +69,17 @@ export const POST = withAuth(async (request: Request) => {
 
     console.log(`[Analyze API] Found source asset: ${sourceAsset.id}, user: ${sourceAsset.user_id}, playbackId: ${sourceAsset.mux_playback_id}, muxAssetId: ${sourceAsset.mux_asset_id}`);
 
-    const model = getAiModel();
+    // Use the SERVICE ROLE CLIENT for metering and database writes (insert/update)
+    const serviceClient = createServiceSupabaseClient();
+
+    const usage = await checkUsageLimit(serviceClient, sourceAsset.user_id, 'llm');
+    if (!usage.allowed) {
+      console.warn(`[Analyze API] LLM ${usage.reason} reached for user ${sourceAsset.user_id}`);
+      return usageLimitResponse(usage);
+    }
+
     let analysisResult: z.infer<typeof ItemsListSchema> | null = null;
+    let model: string | undefined;
     let attempts = 0;
     const maxAttempts = 2;
 
@@ -80,8 +91,8 @@ export const POST = withAuth(async (request: Request) => {
         const wordsWithTimestamps = transcriptData.results.channels[0]?.alternatives[0]?.words || [];
         const detailedTranscriptContext = JSON.stringify(wordsWithTimestamps.map(w => ({ w: w.punctuated_word || w.word, s: w.start, e: w.end })));
 
-        const result = await generateObject({
-          model: model,
+        const result = await generateObjectForTask({
+          task: 'transcript',
           schema: ItemsListSchema,
           prompt: `Analyze the following video transcript data of a home inventory recording. Identify distinct physical items mentioned or described.
 For each item:
@@ -101,8 +112,16 @@ Respond ONLY with the valid JSON object.`,
           mode: 'json'
         });
 
+        await recordModelUsage(serviceClient, {
+          userId: sourceAsset.user_id,
+          kind: 'llm',
+          operation: 'analyze_transcript',
+          assetId: sourceVideoAssetId,
+        }, result);
+
         analysisResult = result.object;
-        console.log(`[Analyze API] Attempt ${attempts} successful. Found ${analysisResult.items.length} items.`);
+        model = `${result.model.provider}:${result.model.modelId}`;
+        console.log(`[Analyze API] Attempt ${attempts} successful with ${result.model.provider}:${result.model.modelId}. Found ${analysisResult.items.length} items.`);
       } catch (error) {
         console.error(`[Analyze API] Attempt ${attempts} failed:`, error);
         if (attempts >= maxAttempts) {
@@ -119,9 +138,6 @@ Respond ONLY with the valid JSON object.`,
 
     const identifiedItems = analysisResult.items;
 
-    // Use the SERVICE ROLE CLIENT for database writes (insert/update)
-    const serviceClient = createServiceSupabaseClient();
-
     if (identifiedItems.length === 0) {
       console.log(`[Analyze API] No items identified in transcript for asset ${sourceVideoAssetId}.`);
       // Update using service client
@@ -155,7 +171,12 @@ Respond ONLY with the valid JSON object.`,
         item_timestamp: item.timestamp,
         mux_playback_id: sourceAsset.mux_playback_id,
         mux_asset_id: sourceAsset.mux_asset_id,
-        estimated_value: item.estimated_value
+        estimated_value: item.estimated_value,
+        value_source: 'ai_transcript' as const,
+        category: item.category ?? null,
+        // Proposals stay out of the inventory until reviewed
+        review_status: 'pending' as const,
+        ai_provenance: { source: 'analyze_transcript', model },
       };
     });
 
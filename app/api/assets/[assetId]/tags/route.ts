@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { z } from 'zod';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
 
 const assetTagSchema = z.object({
   tag_id: z.string().uuid({ message: 'Invalid Tag ID format' }),
@@ -39,32 +40,32 @@ export async function POST(
   const { tag_id } = validationResult.data;
 
   try {
-    // 1. Verify asset exists and belongs to the user
+    // 1. Verify asset exists and the user can edit its household
     const { data: asset, error: assetError } = await supabase
       .from('assets')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', assetId)
       .single();
 
     if (assetError || !asset) {
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
     }
-    if (asset.user_id !== user.id) {
-      return NextResponse.json({ error: 'Forbidden: Asset does not belong to the user' }, { status: 403 });
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, asset.household_id))) {
+      return NextResponse.json({ error: 'Forbidden: You cannot edit items in this household' }, { status: 403 });
     }
 
-    // 2. Verify tag exists and belongs to the user
+    // 2. Verify tag exists in the same household
     const { data: tag, error: tagError } = await supabase
       .from('tags')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', tag_id)
       .single();
 
     if (tagError || !tag) {
       return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
     }
-    if (tag.user_id !== user.id) {
-      return NextResponse.json({ error: 'Forbidden: Tag does not belong to the user' }, { status: 403 });
+    if (tag.household_id !== asset.household_id) {
+      return NextResponse.json({ error: 'Forbidden: Tag belongs to another household' }, { status: 403 });
     }
 
     // 3. Create the association
@@ -125,10 +126,10 @@ export async function DELETE(
 
 
   try {
-    // 1. Verify asset exists and belongs to the user (optional but good practice)
+    // 1. Verify asset exists and the user can edit its household (optional but good practice)
     const { data: asset, error: assetError } = await supabase
       .from('assets')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', assetId)
       .single();
 
@@ -136,8 +137,8 @@ export async function DELETE(
       // If asset not found, the association effectively doesn't exist.
       return new NextResponse(null, { status: 204 });
     }
-    if (asset.user_id !== user.id) {
-      return NextResponse.json({ error: 'Forbidden: Asset does not belong to the user' }, { status: 403 });
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, asset.household_id))) {
+      return NextResponse.json({ error: 'Forbidden: You cannot edit items in this household' }, { status: 403 });
     }
 
     // 2. Delete the association
@@ -0,0 +1,37 @@
+import { errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { buildAuditExport, loadAuditChain } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Downloads the user's full audit log with its verification result as JSON, to hand to an
+ * insurer together with the claim report. The claim report quotes the same head hash.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const auditExport = buildAuditExport(scope.userId, await loadAuditChain(scope.supabase, scope.userId));
+    const fileName = `padlox-audit-log-${auditExport.exportedAt.slice(0, 10)}.json`;
+
+    return new Response(JSON.stringify(auditExport, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Audit API] Error exporting audit log:', error);
+    return errorResponse(
+      'Failed to export audit log',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
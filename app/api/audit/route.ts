@@ -0,0 +1,59 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { listAuditEntries, listItemHistory } from '@/lib/audit';
+import { getHouseholdRole } from '@/lib/households';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Recent audit log entries, newest first:
+ * `GET /api/audit?asset_id=<id>&limit=<n>&before_seq=<seq>`. Page back with `before_seq`.
+ * With the server API key, pass `user_id` to read another user's log.
+ *
+ * With `asset_id` for an item in one of the user's households, returns the item's history
+ * from every member; page back with `before=<created_at>`. A deleted item's history comes
+ * from the user's own log.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined;
+    const beforeSeq = searchParams.get('before_seq') ? parseInt(searchParams.get('before_seq')!, 10) : undefined;
+    if ((limit !== undefined && !(limit > 0)) || (beforeSeq !== undefined && !(beforeSeq > 0))) {
+      return badRequestResponse('limit and before_seq must be positive integers');
+    }
+    const before = searchParams.get('before') ?? undefined;
+    if (before !== undefined && isNaN(new Date(before).getTime())) {
+      return badRequestResponse('before must be a timestamp');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const assetId = searchParams.get('asset_id') ?? undefined;
+    if (assetId) {
+      // With an API key the client is the service role, so membership is checked here
+      const { data: asset, error } = await scope.supabase
+        .from('assets')
+        .select('household_id')
+        .eq('id', assetId)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to load item: ${error.message}`);
+      if (asset && await getHouseholdRole(scope.supabase, scope.userId, asset.household_id)) {
+        return jsonResponse({ entries: await listItemHistory(scope.supabase, assetId, { limit, before }) });
+      }
+    }
+
+    const entries = await listAuditEntries(scope.supabase, scope.userId, { assetId, limit, beforeSeq });
+    return jsonResponse({ entries });
+  } catch (error) {
+    console.error('[Audit API] Error loading audit log:', error);
+    return errorResponse(
+      'Failed to load audit log',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,32 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { loadAuditChain, verifyAuditChain } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Recomputes the user's audit hash chain and reports the first entry that does not check out.
+ * With the server API key, pass `user_id` to verify another user's log.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const entries = await loadAuditChain(scope.supabase, scope.userId);
+    const verification = verifyAuditChain(entries);
+    if (!verification.valid) {
+      console.warn(`[Audit API] Chain for user ${scope.userId} is broken at entry ${verification.firstInvalidSeq}`);
+    }
+    return jsonResponse(verification);
+  } catch (error) {
+    console.error('[Audit API] Error verifying audit log:', error);
+    return errorResponse(
+      'Failed to verify audit log',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
+import { ItemEditError } from '@/lib/items';
+import { compareWalkthroughsInProperty, missingItemRows, RecordingSide, WalkthroughSide } from '@/lib/items/comparison';
+import { toCsv, toXlsx } from '@/lib/inventory/spreadsheet';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+const VideoId = z.string().uuid();
+const AsOf = z.string().datetime({ offset: true });
+
+/**
+ * Reads the before side from `beforeVideo` (a recording id) or `beforeDate` (an ISO timestamp)
+ */
+function parseBefore(searchParams: URLSearchParams): WalkthroughSide | string {
+  const videoId = searchParams.get('beforeVideo');
+  const asOf = searchParams.get('beforeDate');
+  if (videoId && asOf) return 'Pass either beforeVideo or beforeDate, not both';
+  if (videoId) return VideoId.safeParse(videoId).success ? { videoId } : 'beforeVideo must be a UUID';
+  if (asOf) return AsOf.safeParse(asOf).success ? { asOf } : 'beforeDate must be an ISO timestamp';
+  return 'beforeVideo or beforeDate is required';
+}
+
+/**
+ * Reads the after side, which is always a recording
+ */
+function parseAfter(searchParams: URLSearchParams): RecordingSide | string {
+  if (searchParams.has('afterDate')) return 'The after side must be a recording; pass afterVideo';
+  const videoId = searchParams.get('afterVideo');
+  if (!videoId) return 'afterVideo is required';
+  return VideoId.safeParse(videoId).success ? { videoId } : 'afterVideo must be a UUID';
+}
+
+/**
+ * Compares two walkthroughs of the active property:
+ * `GET /api/comparison?beforeDate=<ISO>|beforeVideo=<id>&afterVideo=<id>`.
+ * Returns matched, missing and new items per room; `&format=csv` or `&format=xlsx` downloads
+ * the missing items as an inventory spreadsheet instead.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const before = parseBefore(searchParams);
+    if (typeof before === 'string') return badRequestResponse(before);
+    const after = parseAfter(searchParams);
+    if (typeof after === 'string') return badRequestResponse(after);
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+      return badRequestResponse('Choose two different walkthroughs to compare');
+    }
+    const format = searchParams.get('format') ?? 'json';
+    if (format !== 'json' && format !== 'csv' && format !== 'xlsx') {
+      return badRequestResponse('format must be "json", "csv" or "xlsx"');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return badRequestResponse('No active household');
+    }
+    const { active: property } = await resolveActiveProperty(scope.supabase, scope.userId, household.id);
+    if (!property) {
+      return badRequestResponse('No active property');
+    }
+
+    const comparison = await compareWalkthroughsInProperty(scope.supabase, property.id, before, after);
+    if (format === 'json') {
+      return jsonResponse({ propertyId: property.id, ...comparison });
+    }
+
+    const rows = missingItemRows(comparison);
+    const body = format === 'csv' ? toCsv(rows) : await toXlsx(rows);
+    const fileName = `padlox-missing-items-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    console.log(`[Comparison API] Exported ${rows.length} missing items as ${format} for user ${scope.userId}`);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ItemEditError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Comparison API] Error comparing walkthroughs:', error);
+    return errorResponse(
+      'Failed to compare walkthroughs',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,259 @@
+import { jsonResponse, errorResponse, badRequestResponse, notFoundResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { createPresignedDownloadUrl, deleteFileFromS3, uploadFileToS3 } from '@/lib/aws/s3';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  isAcceptedDocumentType,
+  isDocumentKind,
+  ItemDocument,
+  listItemDocuments,
+  MAX_DOCUMENT_BYTES,
+} from '@/lib/documents';
+import { queueDocumentExtraction } from '@/lib/documents/extract';
+import { canEditHousehold, getHouseholdRole, HouseholdRole } from '@/lib/households';
+import { checkUsageLimit, usageLimitResponse } from '@/lib/usage';
+
+const SCOPE_REQUIRED = 'user_id query parameter is required when using an API key';
+const EDIT_REQUIRED = 'Only household owners and editors can change documents';
+
+/**
+ * The item and the user's role in its household, or null when it is not an item in one of
+ * their households. With an API key the client is the service role, so membership is checked
+ * here rather than left to RLS.
+ */
+async function loadItemAccess(
+  client: SupabaseClient,
+  userId: string,
+  assetId: string
+): Promise<{ asset: { id: string; household_id: string }; role: HouseholdRole } | null> {
+  const { data: asset, error } = await client
+    .from('assets')
+    .select('id, household_id, media_type')
+    .eq('id', assetId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load item: ${error.message}`);
+  if (!asset || asset.media_type !== 'item') return null;
+
+  const role = await getHouseholdRole(client, userId, asset.household_id);
+  return role ? { asset, role } : null;
+}
+
+async function withDownloadUrl(document: ItemDocument) {
+  return { ...document, download_url: await createPresignedDownloadUrl(document.s3_key) };
+}
+
+/**
+ * Lists the documents attached to an item in one of the user's households:
+ * `GET /api/documents?asset_id=<id>`
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const assetId = new URL(request.url).searchParams.get('asset_id');
+    if (!assetId) {
+      return badRequestResponse('asset_id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    if (!(await loadItemAccess(scope.supabase, scope.userId, assetId))) {
+      return notFoundResponse('Item not found');
+    }
+
+    const documents = await listItemDocuments(scope.supabase, assetId);
+    return jsonResponse({ documents: await Promise.all(documents.map(withDownloadUrl)) });
+  } catch (error) {
+    console.error('[Documents API] Error listing documents:', error);
+    return errorResponse(
+      'Failed to list documents',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Attaches a receipt, warranty, appraisal or manual to an item and queues field extraction
+ * (household owners and editors). Multipart form: `file` (PDF, JPEG, PNG or WebP), `asset_id` and `kind`.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const assetId = formData.get('asset_id');
+    const kind = formData.get('kind') ?? 'receipt';
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('No file provided');
+    }
+    if (typeof assetId !== 'string' || !assetId) {
+      return badRequestResponse('asset_id is required');
+    }
+    if (!isDocumentKind(kind)) {
+      return badRequestResponse('kind must be one of receipt, warranty, appraisal, manual or other');
+    }
+    if (!isAcceptedDocumentType(file.type)) {
+      return badRequestResponse(`Unsupported file type ${file.type || 'unknown'}`, { accepted: ACCEPTED_DOCUMENT_TYPES });
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return errorResponse(`File is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`, 413);
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    const access = await loadItemAccess(scope.supabase, scope.userId, assetId);
+    if (!access) {
+      return notFoundResponse('Item not found');
+    }
+    if (!canEditHousehold(access.role)) {
+      return errorResponse(EDIT_REQUIRED, 403);
+    }
+    const { asset } = access;
+
+    // Extraction is an LLM call, so hold back uploads once the user is over their limit
+    const usage = await checkUsageLimit(scope.supabase, scope.userId, 'llm');
+    if (!usage.allowed) {
+      return usageLimitResponse(usage);
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const { key } = await uploadFileToS3(buffer, file.name, file.type, scope.userId, {
+      'asset-id': asset.id,
+      'document-kind': kind,
+    });
+
+    const { data: document, error } = await scope.supabase
+      .from('item_documents')
+      .insert({
+        asset_id: asset.id,
+        user_id: scope.userId,
+        kind,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        s3_key: key,
+      })
+      .select('*')
+      .single();
+    if (error || !document) {
+      await deleteFileFromS3(key).catch(() => undefined);
+      throw new Error(error?.message ?? 'Document insert returned no data');
+    }
+
+    await queueDocumentExtraction(createServiceSupabaseClient(), document as ItemDocument);
+
+    console.log(`[Documents API] Attached ${kind} ${document.id} to item ${asset.id}`);
+    return jsonResponse({ document: await withDownloadUrl(document as ItemDocument) }, { status: 201 });
+  } catch (error) {
+    console.error('[Documents API] Error attaching document:', error);
+    return errorResponse(
+      'Failed to attach document',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Re-runs field extraction for a document (household owners and editors):
+ * `PATCH /api/documents?id=<id>`
+ */
+export const PATCH = withAuth(async (request: Request) => {
+  try {
+    const documentId = new URL(request.url).searchParams.get('id');
+    if (!documentId) {
+      return badRequestResponse('id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    const { data: document, error } = await scope.supabase
+      .from('item_documents')
+      .select('*')
+      .eq('id', documentId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    const access = document && await loadItemAccess(scope.supabase, scope.userId, document.asset_id);
+    if (!document || !access) {
+      return notFoundResponse('Document not found');
+    }
+    if (!canEditHousehold(access.role)) {
+      return errorResponse(EDIT_REQUIRED, 403);
+    }
+
+    await queueDocumentExtraction(createServiceSupabaseClient(), document as ItemDocument);
+    return jsonResponse({ document: { ...document, extraction_status: 'pending' } }, { status: 202 });
+  } catch (error) {
+    console.error('[Documents API] Error queueing extraction:', error);
+    return errorResponse(
+      'Failed to queue extraction',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Removes a document and its file (household owners and editors): `DELETE /api/documents?id=<id>`.
+ * Fields already copied onto the item are kept.
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const documentId = new URL(request.url).searchParams.get('id');
+    if (!documentId) {
+      return badRequestResponse('id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    const { data: existing, error: loadError } = await scope.supabase
+      .from('item_documents')
+      .select('id, asset_id')
+      .eq('id', documentId)
+      .maybeSingle();
+    if (loadError) throw new Error(loadError.message);
+    const access = existing && await loadItemAccess(scope.supabase, scope.userId, existing.asset_id);
+    if (!existing || !access) {
+      return notFoundResponse('Document not found');
+    }
+    if (!canEditHousehold(access.role)) {
+      return errorResponse(EDIT_REQUIRED, 403);
+    }
+
+    const { data: document, error } = await scope.supabase
+      .from('item_documents')
+      .delete()
+      .eq('id', existing.id)
+      .select('id, s3_key')
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!document) {
+      return notFoundResponse('Document not found');
+    }
+
+    await deleteFileFromS3(document.s3_key).catch((s3Error) => {
+      console.warn(`[Documents API] Could not delete S3 object ${document.s3_key}:`, s3Error);
+    });
+    return jsonResponse({ deleted: document.id });
+  } catch (error) {
+    console.error('[Documents API] Error deleting document:', error);
+    return errorResponse(
+      'Failed to delete document',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
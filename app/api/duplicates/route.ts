@@ -0,0 +1,92 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
+import { ItemEditError } from '@/lib/items';
+import { dismissDuplicate, linkDuplicate, listDuplicatePairs } from '@/lib/items/duplicates';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const DuplicateActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('link'),
+    olderId: z.string().uuid(),
+    newerId: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal('dismiss'),
+    itemIds: z.tuple([z.string().uuid(), z.string().uuid()]),
+  }),
+]);
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof ItemEditError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Duplicates API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * Items in the active property that were likely filmed again in a later recording
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return jsonResponse({ pairs: [] });
+    }
+    const { active: property } = await resolveActiveProperty(scope.supabase, scope.userId, household.id);
+    if (!property) {
+      return jsonResponse({ pairs: [] });
+    }
+
+    const pairs = await listDuplicatePairs(scope.supabase, property.id, scope.userId);
+    return jsonResponse({ propertyId: property.id, pairs });
+  } catch (error) {
+    return handleError(error, 'look for duplicates');
+  }
+});
+
+/**
+ * Resolves a likely duplicate. Body is one of:
+ * - `{ action: 'link', olderId, newerId }`: the newer item becomes a sighting of the older one
+ * - `{ action: 'dismiss', itemIds: [a, b] }`: the items are different things
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), DuplicateActionSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    switch (input.action) {
+      case 'link': {
+        const result = await linkDuplicate(scope.supabase, scope.userId, input.olderId, input.newerId);
+        return jsonResponse(result);
+      }
+      case 'dismiss': {
+        await dismissDuplicate(scope.supabase, scope.userId, input.itemIds[0], input.itemIds[1]);
+        return jsonResponse({ dismissed: input.itemIds });
+      }
+    }
+  } catch (error) {
+    return handleError(error, 'resolve duplicate');
+  }
+});
@@ -1,13 +1,27 @@
 /**
  * API route for receiving and processing frames during recording.
  * The route:
- * 1. Receives frames as form data via HTTP POST
- * 2. Processes frame directly with Gemini
- * 3. Stores results in Supabase
+ * 1. Authorizes the frame with the session's frame token (`Authorization: Bearer <token>`)
+ * 2. Receives frames as form data via HTTP POST
+ * 3. Checks the user's vision rate limit and quota, then counts the frame against the
+ *    session's frame and byte limits
+ * 4. Skips frames that are near-duplicates of the last analyzed frame (perceptual hash)
+ * 5. Processes frame directly with the configured vision model
+ * 6. Stores results in Supabase
  */
 
 import { NextRequest } from 'next/server';
 import { processFrame } from '@/utils/frame-processor';
+import { hashFrame, checkDuplicateFrame } from '@/utils/server/frame-dedup';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import {
+  FrameTokenError,
+  getBearerToken,
+  getFrameLimits,
+  recordSessionFrame,
+  verifyFrameToken,
+} from '@/lib/sessions/frame-token';
+import { checkUsageLimit, usageLimitResponse } from '@/lib/usage';
 
 // Configure dynamic response for Vercel serverless function
 export const dynamic = 'force-dynamic';
@@ -18,41 +32,93 @@ export const dynamic = 'force-dynamic';
 export async function POST(req: NextRequest) {
   console.log('📸 [API] Frame endpoint called');
   
-  // Extract parameters from request
-  const { searchParams } = new URL(req.url);
-  const sessionId = searchParams.get('session');
-  const userId = searchParams.get('user_id');
-  const muxAssetId = searchParams.get('mux_asset_id');
+  // The token, not the query string, says whose session this frame belongs to
+  let claims;
+  try {
+    claims = verifyFrameToken(getBearerToken(req));
+  } catch (error) {
+    if (error instanceof FrameTokenError) {
+      console.warn(`📸 [API] Rejected frame: ${error.message}`);
+      return Response.json({ error: 'Invalid or expired frame token' }, { status: 401 });
+    }
+    throw error;
+  }
+  const { sessionId, userId } = claims;
   
   console.log(`📸 [API] Session ID: ${sessionId}`);
   
-  if (!sessionId) {
-    console.error('📸 [API] Missing session ID');
-    return Response.json({ error: 'Missing session ID' }, { status: 400 });
-  }
-  
   try {
     // Get form data from request
     const formData = await req.formData();
-    const frameFile = formData.get('frame') as File;
+    const frameFile = formData.get('frame');
+    
+    if (!(frameFile instanceof File)) {
+      console.error('📸 [API] No frame provided');
+      return Response.json({ error: 'No frame provided' }, { status: 400 });
+    }
     
     // Get timestamp from form data (fallback to 0 if not provided)
     const timestampStr = formData.get('timestamp') as string | null;
     const videoTimestamp = timestampStr ? parseFloat(timestampStr) : 0;
     
     console.log(`📸 [API] Received frame: ${frameFile.name}, size: ${Math.round(frameFile.size/1024)}KB, session: ${sessionId}, timestamp: ${videoTimestamp.toFixed(2)}s`);
-    console.log(`📸 [API] User ID: ${userId || 'not provided'}, MUX Asset ID: ${muxAssetId || 'not provided'}`);
     
-    if (!frameFile) {
-      console.error('📸 [API] No frame provided');
-      return Response.json({ error: 'No frame provided' }, { status: 400 });
+    const limits = getFrameLimits();
+    if (frameFile.size > limits.maxFrameBytes) {
+      return Response.json({ error: `Frame is larger than ${limits.maxFrameBytes} bytes` }, { status: 413 });
     }
     
+    const supabase = createServiceSupabaseClient();
+    const usage = await checkUsageLimit(supabase, userId, 'vision');
+    if (!usage.allowed) {
+      console.warn(`📸 [API] Rejected frame for user ${userId}: vision ${usage.reason}`);
+      return usageLimitResponse(usage);
+    }
+    
+    const accounting = await recordSessionFrame(supabase, claims, frameFile.size, limits);
+    if (!accounting.accepted) {
+      console.warn(`📸 [API] Rejected frame for session ${sessionId}: ${accounting.reason} (${accounting.frameCount} frames, ${accounting.frameBytes} bytes)`);
+      if (accounting.reason === 'frame_limit' || accounting.reason === 'byte_limit') {
+        return Response.json({ error: 'Frame limit reached for this session', reason: accounting.reason }, { status: 429 });
+      }
+      if (accounting.reason === 'not_recording') {
+        return Response.json({ error: 'Session is not recording', reason: accounting.reason }, { status: 409 });
+      }
+      return Response.json({ error: 'Session not found' }, { status: 404 });
+    }
+    
+    // Frames are linked to the video through the session once Mux creates the asset
+    const { data: session } = await supabase
+      .from('sessions')
+      .select('mux_asset_id')
+      .eq('id', sessionId)
+      .single();
+    const muxAssetId = session?.mux_asset_id ?? null;
+    
     // Convert frame to ArrayBuffer
     const frameData = await frameFile.arrayBuffer();
     
+    // Skip frames that look the same as the last one we analyzed for this session
+    try {
+      const hash = await hashFrame(frameData);
+      const { duplicate, distance } = checkDuplicateFrame(sessionId, hash);
+      if (duplicate) {
+        console.log(`📸 [API] Skipping near-duplicate frame (distance ${distance}) at ${videoTimestamp.toFixed(2)}s`);
+        return Response.json({
+          success: true,
+          skipped: true,
+          itemsFound: 0,
+          distance,
+          message: `Frame skipped as a near-duplicate for session ${sessionId} at ${videoTimestamp.toFixed(2)}s`
+        });
+      }
+    } catch (hashError) {
+      // Never drop a frame just because hashing failed
+      console.warn('📸 [API] Could not hash frame, processing anyway:', hashError);
+    }
+    
     // Process the frame directly
-    console.log('📸 [API] Processing frame with Gemini vision API...');
+    console.log('📸 [API] Processing frame with vision model...');
     const result = await processFrame({
       session_id: sessionId,
       frame_data: frameData,
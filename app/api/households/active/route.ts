@@ -0,0 +1,41 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { HouseholdError, setActiveHousehold } from '@/lib/households';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const SetActiveHouseholdSchema = z.object({
+  householdId: z.string().uuid(),
+});
+
+/**
+ * Switches the household shown on the dashboard and used for new items. Body: `{ householdId }`.
+ */
+export const PUT = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), SetActiveHouseholdSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await setActiveHousehold(scope.supabase, scope.userId, input.householdId);
+    return jsonResponse({ activeHouseholdId: input.householdId });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Households API] Error switching household:', error);
+    return errorResponse(
+      'Failed to switch household',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
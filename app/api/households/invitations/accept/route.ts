@@ -0,0 +1,43 @@
+import { User } from '@supabase/supabase-js';
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, isSystemUser } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { acceptInvitation, HouseholdError } from '@/lib/households';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const AcceptInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * Joins the household an invitation is for. Body: `{ token }`. The signed-in user's email must
+ * match the invitation.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const user = (request as Request & { user: User }).user;
+    if (isSystemUser(user)) {
+      return badRequestResponse('Invitations must be accepted by the invited user');
+    }
+
+    const { token } = await validateInput(await parseJsonBody(request), AcceptInvitationSchema);
+    const household = await acceptInvitation(createServiceSupabaseClient(), user, token);
+    return jsonResponse({ household });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Households API] Error accepting invitation:', error);
+    return errorResponse(
+      'Failed to accept invitation',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
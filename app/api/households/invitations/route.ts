@@ -0,0 +1,103 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import {
+  buildInvitationUrl,
+  createInvitation,
+  HouseholdError,
+  INVITABLE_ROLES,
+  InvitableRole,
+  listInvitations,
+  revokeInvitation,
+} from '@/lib/households';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const CreateInvitationSchema = z.object({
+  householdId: z.string().uuid(),
+  email: z.string().email(),
+  role: z.enum(INVITABLE_ROLES as [InvitableRole, ...InvitableRole[]]).default('editor'),
+});
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof HouseholdError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Households API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * Invitations that can still be accepted; owners only:
+ * `GET /api/households/invitations?household_id=<id>`
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const householdId = new URL(request.url).searchParams.get('household_id');
+    if (!householdId) {
+      return badRequestResponse('household_id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    return jsonResponse({ invitations: await listInvitations(scope.supabase, scope.userId, householdId) });
+  } catch (error) {
+    return handleError(error, 'load invitations');
+  }
+});
+
+/**
+ * Invites someone to a household; owners only. Body: `{ householdId, email, role? }`. The
+ * response holds the only copy of the invitation URL, for the owner to send on.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), CreateInvitationSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { invitation, token } = await createInvitation(scope.supabase, scope.userId, input.householdId, input);
+    return jsonResponse({ invitation, url: buildInvitationUrl(new URL(request.url).origin, token) }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'create invitation');
+  }
+});
+
+/**
+ * Revokes an invitation that has not been accepted:
+ * `DELETE /api/households/invitations?household_id=<id>&id=<invitation id>`
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const params = new URL(request.url).searchParams;
+    const householdId = params.get('household_id');
+    const id = params.get('id');
+    if (!householdId || !id) {
+      return badRequestResponse('household_id and id query parameters are required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await revokeInvitation(scope.supabase, scope.userId, householdId, id);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return handleError(error, 'revoke invitation');
+  }
+});
@@ -0,0 +1,94 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { HOUSEHOLD_ROLES, HouseholdError, HouseholdRole, listMembers, removeMember, updateMemberRole } from '@/lib/households';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const UpdateMemberSchema = z.object({
+  householdId: z.string().uuid(),
+  memberId: z.string().uuid(),
+  role: z.enum(HOUSEHOLD_ROLES as [HouseholdRole, ...HouseholdRole[]]),
+});
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof HouseholdError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Households API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * Members of a household: `GET /api/households/members?household_id=<id>`
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const householdId = new URL(request.url).searchParams.get('household_id');
+    if (!householdId) {
+      return badRequestResponse('household_id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    return jsonResponse({ members: await listMembers(scope.supabase, scope.userId, householdId) });
+  } catch (error) {
+    return handleError(error, 'load household members');
+  }
+});
+
+/**
+ * Changes a member's role; owners only. Body: `{ householdId, memberId, role }`. The last
+ * owner cannot be demoted.
+ */
+export const PATCH = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), UpdateMemberSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await updateMemberRole(scope.supabase, scope.userId, input.householdId, input.memberId, input.role);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return handleError(error, 'change member role');
+  }
+});
+
+/**
+ * Removes a member, or leaves the household when `member_id` is the caller:
+ * `DELETE /api/households/members?household_id=<id>&member_id=<user id>`
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const params = new URL(request.url).searchParams;
+    const householdId = params.get('household_id');
+    const memberId = params.get('member_id');
+    if (!householdId || !memberId) {
+      return badRequestResponse('household_id and member_id query parameters are required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await removeMember(scope.supabase, scope.userId, householdId, memberId);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return handleError(error, 'remove household member');
+  }
+});
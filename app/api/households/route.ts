@@ -0,0 +1,98 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { createHousehold, HouseholdError, renameHousehold, resolveActiveHousehold } from '@/lib/households';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const CreateHouseholdSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const RenameHouseholdSchema = z.object({
+  householdId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+});
+
+/**
+ * The user's households with their role in each, and the one they are working in
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active, households } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    return jsonResponse({ households, activeHouseholdId: active?.id ?? null });
+  } catch (error) {
+    console.error('[Households API] Error loading households:', error);
+    return errorResponse(
+      'Failed to load households',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Creates a household owned by the user and switches to it. Body: `{ name }`.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), CreateHouseholdSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const household = await createHousehold(scope.supabase, scope.userId, input.name);
+    return jsonResponse({ household }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Households API] Error creating household:', error);
+    return errorResponse(
+      'Failed to create household',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Renames a household; owners only. Body: `{ householdId, name }`.
+ */
+export const PATCH = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), RenameHouseholdSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await renameHousehold(scope.supabase, scope.userId, input.householdId, input.name);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Households API] Error renaming household:', error);
+    return errorResponse(
+      'Failed to rename household',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
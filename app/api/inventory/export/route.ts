@@ -0,0 +1,53 @@
+import { errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { HouseholdError } from '@/lib/households';
+import { fetchInventorySheetRows } from '@/lib/inventory/transfer';
+import { toCsv, toXlsx } from '@/lib/inventory/spreadsheet';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+/**
+ * Exports the active property's inventory as a spreadsheet: `?format=csv` (default) or `?format=xlsx`.
+ * The same columns are accepted by /api/inventory/import.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      return badRequestResponse('format must be "csv" or "xlsx"');
+    }
+
+    const rows = await fetchInventorySheetRows(scope.supabase, scope.userId);
+    const body = format === 'csv' ? toCsv(rows) : await toXlsx(rows);
+    const fileName = `padlox-inventory-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    console.log(`[Inventory Export] Exported ${rows.length} rows as ${format} for user ${scope.userId}`);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Inventory Export] Error exporting inventory:', error);
+    return errorResponse(
+      'Failed to export inventory',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
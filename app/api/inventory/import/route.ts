@@ -0,0 +1,97 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { HouseholdError } from '@/lib/households';
+import { importInventoryRows } from '@/lib/inventory/transfer';
+import { parseCsv, parseXlsx, RawSheetRow } from '@/lib/inventory/spreadsheet';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_ROWS = 5000;
+
+/**
+ * Reads a text body, giving up (null) once it passes `maxBytes`. A declared Content-Length is
+ * checked first; the stream is capped as well, since the header can be missing or wrong.
+ */
+async function readTextBody(request: Request, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('Content-Length')) > maxBytes) return null;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Imports a CSV or XLSX inventory spreadsheet into the active property (household owners and editors).
+ *
+ * Accepts multipart form data with a `file` field, or a raw `text/csv` body (handy for scripts).
+ * Each row is validated and applied independently; the response lists the outcome of every row.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    let rows: RawSheetRow[];
+    const contentType = request.headers.get('Content-Type') || '';
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+
+      if (!(file instanceof File)) {
+        return badRequestResponse('No file provided');
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return badRequestResponse('File is too large', { maxBytes: MAX_FILE_SIZE });
+      }
+
+      const isXlsx = file.name.toLowerCase().endsWith('.xlsx')
+        || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      rows = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+    } else if (contentType.includes('text/csv')) {
+      const text = await readTextBody(request, MAX_FILE_SIZE);
+      if (text === null) {
+        return badRequestResponse('File is too large', { maxBytes: MAX_FILE_SIZE });
+      }
+      rows = parseCsv(text);
+    } else {
+      return badRequestResponse('Expected multipart/form-data with a file, or a text/csv body');
+    }
+
+    if (rows.length === 0) {
+      return badRequestResponse('The spreadsheet has no data rows');
+    }
+    if (rows.length > MAX_ROWS) {
+      return badRequestResponse(`Too many rows; import at most ${MAX_ROWS} at a time`, { rows: rows.length });
+    }
+
+    console.log(`[Inventory Import] Importing ${rows.length} rows for user ${scope.userId}`);
+    const report = await importInventoryRows(scope.supabase, scope.userId, rows);
+    console.log(`[Inventory Import] Created ${report.created}, updated ${report.updated}, failed ${report.failed}`);
+
+    return jsonResponse(report);
+  } catch (error) {
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Inventory Import] Error importing inventory:', error);
+    return errorResponse(
+      'Failed to import inventory',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,78 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { ItemEditError, mergeInventoryItems, splitItem } from '@/lib/items';
+import { ITEM_CATEGORIES } from '@/lib/valuation';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const SplitPartSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  item_timestamp: z.number().nonnegative(),
+  description: z.string().max(2000).nullish(),
+  estimated_value: z.number().nonnegative().nullish(),
+  category: z.enum(ITEM_CATEGORIES).nullish(),
+});
+
+const ItemActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    targetId: z.string().uuid(),
+    itemIds: z.array(z.string().uuid()).min(1).max(50),
+    name: z.string().trim().min(1).max(255).optional(),
+    description: z.string().max(4000).nullish(),
+    estimated_value: z.number().nonnegative().nullish(),
+  }),
+  z.object({
+    action: z.literal('split'),
+    itemId: z.string().uuid(),
+    parts: z.array(SplitPartSchema).min(1).max(20),
+  }),
+]);
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof ItemEditError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Items API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * Merges or splits inventory items. Body is one of:
+ * - `{ action: 'merge', targetId, itemIds, name?, description?, estimated_value? }`: merges
+ *   duplicates into `targetId`; the description and value are worked out when left out
+ * - `{ action: 'split', itemId, parts: [{ name, item_timestamp, description?, estimated_value?, category? }] }`
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), ItemActionSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    switch (input.action) {
+      case 'merge': {
+        const { targetId, itemIds, ...choices } = input;
+        const result = await mergeInventoryItems(scope.supabase, scope.userId, targetId, itemIds, choices);
+        return jsonResponse(result);
+      }
+      case 'split': {
+        const result = await splitItem(scope.supabase, scope.userId, input.itemId, input.parts);
+        return jsonResponse(result, { status: 201 });
+      }
+    }
+  } catch (error) {
+    return handleError(error, 'update items');
+  }
+});
@@ -0,0 +1,97 @@
+import { jsonResponse, errorResponse, badRequestResponse, notFoundResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { assetJobKey, enqueueJob, kickJobWorker, listAssetJobs } from '@/lib/jobs';
+import { z } from 'zod';
+
+const RerunSchema = z.object({
+  assetId: z.string().uuid({ message: 'assetId must be a UUID' }),
+  // Video pipeline steps; documents are re-extracted through /api/documents
+  type: z.enum(['transcribe', 'analyze_transcript', 'merge']),
+});
+
+async function findOwnedVideo(request: Request, assetId: string) {
+  const scope = await resolveRequestScope(request);
+  if (!scope) return { scope: null, asset: null };
+
+  const { data: asset } = await scope.supabase
+    .from('assets')
+    .select('id, user_id, media_type')
+    .eq('id', assetId)
+    .eq('user_id', scope.userId)
+    .maybeSingle();
+  return { scope, asset };
+}
+
+/**
+ * Lists the background jobs for one of the user's videos: `GET /api/jobs?asset_id=<id>`
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const assetId = new URL(request.url).searchParams.get('asset_id');
+    if (!assetId) {
+      return badRequestResponse('asset_id query parameter is required');
+    }
+
+    const { scope, asset } = await findOwnedVideo(request, assetId);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+    if (!asset) {
+      return notFoundResponse('Asset not found');
+    }
+
+    const jobs = await listAssetJobs(createServiceSupabaseClient(), asset.id);
+    return jsonResponse({ jobs });
+  } catch (error) {
+    console.error('[Jobs API] Error listing jobs:', error);
+    return errorResponse(
+      'Failed to list jobs',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Re-runs a pipeline step for one of the user's videos. Body: `{ assetId, type }`
+ *
+ * Reuses the asset's job for that step, resetting it if it already finished or was dead-lettered.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const { assetId, type } = await validateInput(await parseJsonBody(request), RerunSchema);
+
+    const { scope, asset } = await findOwnedVideo(request, assetId);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+    if (!asset || asset.media_type !== 'video') {
+      return notFoundResponse('Video not found');
+    }
+
+    const job = await enqueueJob(createServiceSupabaseClient(), {
+      type,
+      payload: { asset_id: asset.id },
+      idempotencyKey: assetJobKey(type, asset.id),
+      userId: asset.user_id,
+      assetId: asset.id,
+      requeue: true,
+    });
+    kickJobWorker();
+
+    console.log(`[Jobs API] Queued ${type} job ${job.id} for asset ${asset.id}`);
+    return jsonResponse({ job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    console.error('[Jobs API] Error queueing job:', error);
+    return errorResponse(
+      'Failed to queue job',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
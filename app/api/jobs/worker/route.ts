@@ -0,0 +1,51 @@
+import { User } from '@supabase/supabase-js';
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, isSystemUser } from '@/lib/api/auth';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { JobType, isJobType } from '@/lib/jobs';
+import { runJobWorker } from '@/lib/jobs/worker';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Drains due jobs from the queue. Only callable with the server API key, e.g. by
+ * `scripts/run-job-worker.js`, a scheduler, or the webhook's best-effort kick.
+ *
+ * Query parameters:
+ * - `types`: comma-separated job types to run (default: all)
+ * - `batch`: jobs claimed per round (default 5)
+ */
+export const POST = withAuth(async (request: Request) => {
+  const user = (request as Request & { user: User }).user;
+  if (!isSystemUser(user)) {
+    return errorResponse('The job worker requires the server API key', 403);
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const typesParam = searchParams.get('types');
+    const types = typesParam ? typesParam.split(',').map((type) => type.trim()) : undefined;
+    if (types && !types.every(isJobType)) {
+      return badRequestResponse(`Unknown job type in "${typesParam}"`);
+    }
+    const batchSize = Math.min(Math.max(parseInt(searchParams.get('batch') || '5', 10) || 5, 1), 25);
+
+    // Jobs are pipeline work (merges, document extraction), so the audit log credits the AI
+    const summary = await runJobWorker(createServiceSupabaseClient({ actor: 'ai' }), {
+      batchSize,
+      types: types as JobType[] | undefined,
+    });
+
+    if (summary.processed > 0) {
+      console.log(`[Job Worker] ${summary.workerId} processed ${summary.processed} job(s): ${summary.succeeded} succeeded, ${summary.retried} retrying, ${summary.dead} dead`);
+    }
+    return jsonResponse(summary);
+  } catch (error) {
+    console.error('[Job Worker] Error draining queue:', error);
+    return errorResponse(
+      'Failed to run job worker',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
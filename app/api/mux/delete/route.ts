@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { deleteMuxAsset } from '@/lib/mux';
 import { withAuth } from '@/lib/api/auth';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
 
 export const DELETE = withAuth(async (request: Request) => {
   try {
@@ -23,18 +24,21 @@ export const DELETE = withAuth(async (request: Request) => {
       return NextResponse.json({ error: 'Missing assetId' }, { status: 400 });
     }
 
-    // Verify the user owns this asset
+    // Verify the user can edit this asset's household
     const { data: asset, error: assetError } = await supabase
       .from('assets')
-      .select('id, mux_asset_id')
+      .select('id, mux_asset_id, household_id')
       .eq('id', assetId)
-      .eq('user_id', user.id)
       .single();
 
     if (assetError || !asset) {
       return NextResponse.json({ error: 'Asset not found or access denied' }, { status: 404 });
     }
 
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, asset.household_id))) {
+      return NextResponse.json({ error: 'Asset not found or access denied' }, { status: 404 });
+    }
+
     // If the asset has a Mux ID, delete it from Mux
     if (asset.mux_asset_id) {
       const deleted = await deleteMuxAsset(asset.mux_asset_id);
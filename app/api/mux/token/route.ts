@@ -2,6 +2,7 @@ import { createMuxTokens } from '@/lib/mux';
 import { jsonResponse, errorResponse, notFoundResponse } from '@/lib/api/response';
 import { withAuth } from '@/lib/api/auth';
 import { createClient } from '@/utils/supabase/server';
+import { listHouseholdIds } from '@/lib/households';
 import { User } from '@supabase/supabase-js';
 
 // Helper for controlled logging
@@ -48,7 +49,7 @@ export const GET = withAuth(async (request: Request) => {
       .from('assets')
       .select('id, mux_playback_id')
       .eq('mux_playback_id', playbackId)
-      .eq('user_id', user.id)
+      .in('household_id', await listHouseholdIds(supabase, user.id))
       .limit(1);
 
     if (queryError) {
@@ -133,7 +134,7 @@ export const POST = withAuth(async (request: Request) => {
       .from('assets')
       .select('id, mux_playback_id')
       .eq('mux_playback_id', playbackId)
-      .eq('user_id', user.id)
+      .in('household_id', await listHouseholdIds(supabase, user.id))
       .limit(1);
 
     if (queryError) {
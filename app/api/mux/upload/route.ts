@@ -3,6 +3,8 @@ import { corsJsonResponse, corsErrorResponse } from '@/lib/api/response';
 import { withAuth } from '@/lib/api/auth';
 import { createClient } from '@/utils/supabase/server';
 import { parseJsonBody, ValidationError } from '@/lib/api/validation';
+import { getSession, isSessionId } from '@/lib/sessions';
+import { checkUsageLimit, usageLimitResponse } from '@/lib/usage';
 
 export const POST = withAuth(async (request: Request) => {
   try {
@@ -26,15 +28,35 @@ export const POST = withAuth(async (request: Request) => {
           estimated_value?: number | null;
         };
         correlationId?: string;
+        sessionId?: string; // Recording session from /api/session/create to link this upload to
       }
       
-      const { metadata, correlationId } = await parseJsonBody<UploadRequest>(request);
+      const { metadata, correlationId, sessionId } = await parseJsonBody<UploadRequest>(request);
 
       if (!metadata || !metadata.name) {
         console.error('Invalid metadata:', metadata);
         return corsErrorResponse('Invalid metadata', 400);
       }
 
+      if (sessionId !== undefined) {
+        const session = isSessionId(sessionId) ? await getSession(supabase, sessionId, user.id) : null;
+        if (!session) {
+          return corsErrorResponse('Session not found', 404);
+        }
+        if (session.status !== 'created') {
+          return corsErrorResponse(`Cannot attach an upload to a ${session.status} session`, 409);
+        }
+        if (session.mux_upload_id) {
+          return corsErrorResponse('Session already has an upload', 409);
+        }
+      }
+
+      // Video minutes are metered when Mux reports the asset ready; refuse new uploads past the quota
+      const usage = await checkUsageLimit(supabase, user.id, 'video');
+      if (!usage.allowed) {
+        return usageLimitResponse(usage);
+      }
+
       console.log('Creating Mux upload with metadata:', metadata);
       console.log('Environment:', { 
         NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
@@ -115,6 +137,19 @@ export const POST = withAuth(async (request: Request) => {
         console.log('Verified asset exists:', verifyAsset);
       }
 
+      if (sessionId) {
+        // Link the session so the webhook and merge can find its upload and video
+        const { error: sessionError } = await supabase
+          .from('sessions')
+          .update({ mux_upload_id: uploadData.assetId, asset_id: asset.id })
+          .eq('id', sessionId);
+
+        if (sessionError) {
+          console.error(`Error linking session ${sessionId} to upload:`, sessionError);
+          throw sessionError;
+        }
+      }
+
       return corsJsonResponse({
         uploadUrl: uploadData.uploadUrl,
         assetId: uploadData.assetId,
@@ -122,6 +157,7 @@ export const POST = withAuth(async (request: Request) => {
         correlationId: uploadData.correlationId,
         clientReferenceId: clientReferenceId,
         userId: user.id,
+        sessionId: sessionId ?? null,
         asset: asset
       });
     } catch (innerError) {
@@ -0,0 +1,58 @@
+import { User } from '@supabase/supabase-js';
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, isSystemUser } from '@/lib/api/auth';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { MAX_REPLAY_EVENTS, replayWebhookEvents } from '@/lib/mux/replay';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const ReplaySchema = z.object({
+  assetId: z.string().uuid({ message: 'assetId must be a UUID' }).optional(),
+  muxAssetId: z.string().min(1).optional(),
+  eventType: z.string().min(1).optional(),
+  unprocessedOnly: z.boolean().optional(),
+  includeUnverified: z.boolean().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().min(1).max(MAX_REPLAY_EVENTS).optional(),
+  dryRun: z.boolean().optional(),
+}).refine(
+  (filters) => !filters.from || !filters.to || new Date(filters.from) <= new Date(filters.to),
+  { message: 'from must be before to', path: ['from'] }
+);
+
+/**
+ * Replays stored Mux webhook events through the webhook handler. Only callable with the
+ * server API key, e.g. by `scripts/replay-mux-webhooks.js`.
+ *
+ * Body (all optional): `{ assetId, muxAssetId, eventType, unprocessedOnly, includeUnverified,
+ * from, to, limit, dryRun }`. Events whose signature did not verify are skipped unless
+ * `includeUnverified` is set.
+ */
+export const POST = withAuth(async (request: Request) => {
+  const user = (request as Request & { user: User }).user;
+  if (!isSystemUser(user)) {
+    return errorResponse('Webhook replay requires the server API key', 403);
+  }
+
+  try {
+    const { dryRun, ...filters } = await validateInput(await parseJsonBody(request), ReplaySchema);
+
+    const summary = await replayWebhookEvents(createServiceSupabaseClient(), filters, { dryRun });
+
+    console.log(`[Webhook Replay] ${dryRun ? 'Dry run matched' : 'Replayed'} ${summary.matched} event(s): ${summary.processed} processed, ${summary.failed} failed`);
+    return jsonResponse(summary);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    console.error('[Webhook Replay] Error replaying events:', error);
+    return errorResponse(
+      'Failed to replay webhook events',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
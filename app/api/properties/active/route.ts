@@ -0,0 +1,42 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { PropertyError, setActiveProperty } from '@/lib/properties';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const SetActivePropertySchema = z.object({
+  propertyId: z.string().uuid(),
+});
+
+/**
+ * Switches the property shown on the dashboard and used for new recordings. Body:
+ * `{ propertyId }`.
+ */
+export const PUT = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), SetActivePropertySchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const property = await setActiveProperty(scope.supabase, scope.userId, input.propertyId);
+    return jsonResponse({ activePropertyId: property.id, activeHouseholdId: property.household_id });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof PropertyError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Properties API] Error switching property:', error);
+    return errorResponse(
+      'Failed to switch property',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,130 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { resolveActiveHousehold } from '@/lib/households';
+import {
+  createProperty,
+  deleteProperty,
+  PropertyError,
+  resolveActiveProperty,
+  updateProperty,
+} from '@/lib/properties';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const PropertyDetailsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  address: z.string().max(500).nullish(),
+  insurer: z.string().max(200).nullish(),
+  policy_number: z.string().max(100).nullish(),
+  coverage_limit: z.number().nonnegative().nullish(),
+  policy_renews_on: z.string().date().nullish(),
+});
+
+const UpdatePropertySchema = PropertyDetailsSchema.partial().extend({
+  propertyId: z.string().uuid(),
+});
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof PropertyError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Properties API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * The active household's properties and the one the user is working in
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return jsonResponse({ properties: [], activePropertyId: null });
+    }
+
+    const { active, properties } = await resolveActiveProperty(scope.supabase, scope.userId, household.id);
+    return jsonResponse({ properties, activePropertyId: active?.id ?? null });
+  } catch (error) {
+    return handleError(error, 'load properties');
+  }
+});
+
+/**
+ * Adds a property to the active household. Body: `{ name, address?, insurer?, policy_number?,
+ * coverage_limit?, policy_renews_on? }`.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), PropertyDetailsSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return errorResponse('You are not a member of any household', 404);
+    }
+
+    const property = await createProperty(scope.supabase, scope.userId, household.id, input);
+    return jsonResponse({ property }, { status: 201 });
+  } catch (error) {
+    return handleError(error, 'create property');
+  }
+});
+
+/**
+ * Changes a property's name, address or policy. Body: `{ propertyId, ...fields }`.
+ */
+export const PATCH = withAuth(async (request: Request) => {
+  try {
+    const { propertyId, ...details } = await validateInput(await parseJsonBody(request), UpdatePropertySchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const property = await updateProperty(scope.supabase, scope.userId, propertyId, details);
+    return jsonResponse({ property });
+  } catch (error) {
+    return handleError(error, 'update property');
+  }
+});
+
+/**
+ * Deletes an empty property and its rooms: `DELETE /api/properties?id=<property id>`
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const propertyId = new URL(request.url).searchParams.get('id');
+    if (!propertyId) {
+      return badRequestResponse('id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    await deleteProperty(scope.supabase, scope.userId, propertyId);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return handleError(error, 'delete property');
+  }
+});
@@ -0,0 +1,55 @@
+import { User } from '@supabase/supabase-js';
+import { errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope, isSystemUser } from '@/lib/api/auth';
+import { HouseholdError } from '@/lib/households';
+import { fetchClaimReportData, renderClaimReportPdf } from '@/lib/reports/claim-report';
+
+/**
+ * Generates an insurance claim report PDF for the inventory of the authenticated user's active
+ * property.
+ *
+ * Scripts can call this with the API secret key and a `user_id` query parameter.
+ * Pass `thumbnails=false` to skip fetching Mux thumbnails for a faster, text-only report.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const user = (request as Request & { user: User }).user;
+    const scope = await resolveRequestScope(request);
+
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeThumbnails = searchParams.get('thumbnails') !== 'false';
+
+    console.log(`[Claim Report] Generating report for user ${scope.userId}`);
+
+    const report = await fetchClaimReportData(scope.supabase, scope.userId, {
+      userEmail: isSystemUser(user) ? null : user.email,
+      includeThumbnails,
+    });
+    const pdfBytes = await renderClaimReportPdf(report);
+
+    const fileName = `padlox-claim-report-${report.generatedAt.slice(0, 10)}.pdf`;
+
+    return new Response(Buffer.from(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof HouseholdError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Claim Report] Error generating report:', error);
+    return errorResponse(
+      'Failed to generate claim report',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
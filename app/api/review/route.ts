@@ -0,0 +1,110 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
+import { acceptItems, listPendingItems, mergeItems, rejectItems, ReviewError } from '@/lib/review';
+import { ITEM_CATEGORIES } from '@/lib/valuation';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const ReviewEditsSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(2000).nullish(),
+  estimated_value: z.number().nonnegative().nullish(),
+  category: z.enum(ITEM_CATEGORIES).nullish(),
+  item_timestamp: z.number().nonnegative().nullish(),
+});
+
+const ReviewActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('accept'),
+    items: z.array(ReviewEditsSchema.extend({ id: z.string().uuid() })).min(1).max(200),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    itemIds: z.array(z.string().uuid()).min(1).max(200),
+  }),
+  z.object({
+    action: z.literal('merge'),
+    targetId: z.string().uuid(),
+    itemIds: z.array(z.string().uuid()).min(1).max(50),
+    edits: ReviewEditsSchema.optional(),
+  }),
+]);
+
+function handleError(error: unknown, action: string): Response {
+  if (error instanceof ValidationError) {
+    return badRequestResponse(error.message, error.details);
+  }
+  if (error instanceof ReviewError) {
+    return errorResponse(error.message, error.status);
+  }
+  console.error(`[Review API] Error trying to ${action}:`, error);
+  return errorResponse(
+    `Failed to ${action}`,
+    500,
+    { details: error instanceof Error ? error.message : 'Unknown error' }
+  );
+}
+
+/**
+ * AI-generated items in the active property that are waiting for review
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return jsonResponse({ items: [] });
+    }
+    const { active: property } = await resolveActiveProperty(scope.supabase, scope.userId, household.id);
+    if (!property) {
+      return jsonResponse({ items: [] });
+    }
+
+    const items = await listPendingItems(scope.supabase, property.id);
+    return jsonResponse({ propertyId: property.id, items });
+  } catch (error) {
+    return handleError(error, 'load items awaiting review');
+  }
+});
+
+/**
+ * Records review decisions. Body is one of:
+ * - `{ action: 'accept', items: [{ id, name?, description?, estimated_value?, category?, item_timestamp? }] }`
+ * - `{ action: 'reject', itemIds }`
+ * - `{ action: 'merge', targetId, itemIds, edits? }`: merges duplicates into `targetId`
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), ReviewActionSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    switch (input.action) {
+      case 'accept': {
+        const accepted = await acceptItems(scope.supabase, scope.userId, input.items);
+        return jsonResponse({ accepted });
+      }
+      case 'reject': {
+        const rejected = await rejectItems(scope.supabase, scope.userId, input.itemIds);
+        return jsonResponse({ rejected });
+      }
+      case 'merge': {
+        const result = await mergeItems(scope.supabase, scope.userId, input.targetId, input.itemIds, input.edits);
+        return jsonResponse(result);
+      }
+    }
+  } catch (error) {
+    return handleError(error, 'review items');
+  }
+});
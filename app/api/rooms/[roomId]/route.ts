@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { z } from 'zod';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
 
 const roomNameSchema = z.object({
   name: z.string().min(1, { message: 'Room name cannot be empty' }),
@@ -38,10 +39,10 @@ export async function PUT(
   const { name } = validationResult.data;
 
   try {
-    // Verify the room exists and belongs to the user
+    // Verify the room exists and the user can edit its household
     const { data: existingRoom, error: fetchError } = await supabase
       .from('rooms')
-      .select('id, user_id')
+      .select('id, household_id, property_id')
       .eq('id', roomId)
       .single();
 
@@ -49,15 +50,15 @@ export async function PUT(
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
-    if (existingRoom.user_id !== user.id) {
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, existingRoom.household_id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Check for duplicate room name for the user (excluding the current room being updated)
+    // Check for duplicate room name in the property (excluding the current room being updated)
     const { data: duplicateRoom, error: duplicateCheckError } = await supabase
       .from('rooms')
       .select('id')
-      .eq('user_id', user.id)
+      .eq('property_id', existingRoom.property_id)
       .eq('name', name)
       .neq('id', roomId) // Exclude the current room
       .maybeSingle();
@@ -76,7 +77,6 @@ export async function PUT(
       .from('rooms')
       .update({ name })
       .eq('id', roomId)
-      .eq('user_id', user.id)
       .select()
       .single();
 
@@ -110,10 +110,10 @@ export async function DELETE(
   }
 
   try {
-    // Verify the room exists and belongs to the user
+    // Verify the room exists and the user can edit its household
     const { data: existingRoom, error: fetchError } = await supabase
       .from('rooms')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', roomId)
       .single();
 
@@ -125,7 +125,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Room not found or error fetching it' }, { status: 404 });
     }
 
-    if (existingRoom.user_id !== user.id) {
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, existingRoom.household_id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -146,8 +146,7 @@ export async function DELETE(
     const { error: deleteRoomError } = await supabase
       .from('rooms')
       .delete()
-      .eq('id', roomId)
-      .eq('user_id', user.id);
+      .eq('id', roomId);
 
     if (deleteRoomError) {
       console.error('Error deleting room:', deleteRoomError.message);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { z } from 'zod';
+import { canEditHousehold, resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
 
 const roomNameSchema = z.object({
   name: z.string().min(1, { message: 'Room name cannot be empty' }),
@@ -16,10 +18,19 @@ export async function GET() {
   }
 
   try {
+    const { active: household } = await resolveActiveHousehold(supabase, user.id);
+    const { active: property } = household
+      ? await resolveActiveProperty(supabase, user.id, household.id)
+      : { active: null };
+    if (!property) {
+      return NextResponse.json({ data: [] }, { status: 200 });
+    }
+
+    // Rooms of the property the user is working in
     const { data: rooms, error } = await supabase
       .from('rooms')
       .select('*')
-      .eq('user_id', user.id)
+      .eq('property_id', property.id)
       .order('name', { ascending: true });
 
     if (error) {
@@ -58,11 +69,20 @@ export async function POST(req: NextRequest) {
   const { name } = validationResult.data;
 
   try {
-    // Check for duplicate room name for the user
+    const { active: household } = await resolveActiveHousehold(supabase, user.id);
+    if (!household || !canEditHousehold(household.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    const { active: property } = await resolveActiveProperty(supabase, user.id, household.id);
+    if (!property) {
+      return NextResponse.json({ error: 'Property not found' }, { status: 404 });
+    }
+
+    // Check for duplicate room name in the property
     const { data: existingRoom, error: existingRoomError } = await supabase
       .from('rooms')
       .select('id')
-      .eq('user_id', user.id)
+      .eq('property_id', property.id)
       .eq('name', name)
       .maybeSingle();
 
@@ -78,7 +98,7 @@ export async function POST(req: NextRequest) {
     // Create the new room
     const { data: newRoom, error: createError } = await supabase
       .from('rooms')
-      .insert({ user_id: user.id, name })
+      .insert({ user_id: user.id, household_id: household.id, property_id: property.id, name })
       .select()
       .single();
 
@@ -0,0 +1,56 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
+import { searchInventory, SEARCH_DEFAULT_LIMIT, SEARCH_MAX_LIMIT } from '@/lib/search';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Searches the active property: `GET /api/search?q=<query>&limit=<1-100>`. Results are
+ * ranked, carry highlighted snippets, and recordings whose transcript matched include the
+ * offsets where the query was spoken.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const query = searchParams.get('q')?.trim() ?? '';
+    if (!query) {
+      return badRequestResponse('q query parameter is required');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return badRequestResponse(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? SEARCH_DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_MAX_LIMIT) {
+      return badRequestResponse(`limit must be an integer between 1 and ${SEARCH_MAX_LIMIT}`);
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return jsonResponse({ query, results: [] });
+    }
+    const { active: property } = await resolveActiveProperty(scope.supabase, scope.userId, household.id);
+    if (!property) {
+      return jsonResponse({ query, results: [] });
+    }
+
+    const results = await searchInventory(scope.supabase, property.id, query, limit);
+    return jsonResponse({ query, propertyId: property.id, results });
+  } catch (error) {
+    console.error('[Search API] Error searching inventory:', error);
+    return errorResponse(
+      'Failed to search inventory',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
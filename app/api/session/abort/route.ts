@@ -0,0 +1,17 @@
+import { jsonResponse } from '@/lib/api/response';
+import { transitionSession } from '@/lib/sessions';
+import { withSessionAction } from '@/lib/sessions/api';
+
+/**
+ * Abandons a session that was not recorded to the end. Body: `{ sessionId, reason? }`
+ *
+ * Aborted sessions are never merged.
+ */
+export const POST = withSessionAction('Session Abort', async ({ session, supabase, body }) => {
+  const reason = typeof body.reason === 'string' ? body.reason.slice(0, 500) : null;
+  const aborted = await transitionSession(supabase, session, 'aborted', {
+    aborted_at: new Date().toISOString(),
+    abort_reason: reason,
+  });
+  return jsonResponse({ session: aborted });
+});
@@ -1,42 +1,49 @@
 /**
- * API route for marking a session as complete with scratch item processing
+ * API route for marking a recording session as complete
  */
-
-import { NextRequest } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { Database } from '@/lib/db/schema';
-
-// Configure Supabase client
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+import { jsonResponse } from '@/lib/api/response';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { transitionSession, triggerSessionMerge } from '@/lib/sessions';
+import { withSessionAction } from '@/lib/sessions/api';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(req: NextRequest) {
-  try {
-    const { sessionId, scratchDone } = await req.json();
-    
-    if (!sessionId) {
-      return Response.json({ error: 'Missing session ID' }, { status: 400 });
-    }
-    
-    // Update session
-    const { error } = await supabase
+/**
+ * Completes a recording session. Body: `{ sessionId, scratchDone? }`
+ *
+ * `scratchDone` defaults to true; pass false if frames are still being analyzed and
+ * complete again once they are. If Mux has already finished the video, the merge of
+ * transcript and scratch items is queued right away; otherwise the webhook queues it later.
+ */
+export const POST = withSessionAction('Session Complete', async ({ session, supabase, body }) => {
+  const scratchDone = body.scratchDone !== false;
+  let completed = session;
+
+  if (session.status === 'completed') {
+    // A second call only flips scratch_done once late frames have been analyzed
+    const { data, error } = await supabase
       .from('sessions')
-      .update({ scratch_done: scratchDone === true })
-      .eq('id', sessionId);
-    
-    if (error) {
-      throw new Error(`Failed to update session: ${error.message}`);
-    }
-    
-    return Response.json({ success: true });
-  } catch (error) {
-    console.error('Error completing session:', error);
-    return Response.json(
-      { error: 'Failed to complete session', message: (error as Error).message },
-      { status: 500 }
-    );
+      .update({ scratch_done: scratchDone })
+      .eq('id', session.id)
+      .select('*')
+      .single();
+    if (error) throw new Error(`Failed to update session: ${error.message}`);
+    completed = data;
+  } else {
+    completed = await transitionSession(supabase, session, 'completed', {
+      scratch_done: scratchDone,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  const merge = await triggerSessionMerge(createServiceSupabaseClient(), completed.id);
+  if (!merge.triggered) {
+    console.log(`[Session Complete] Merge for session ${completed.id} deferred: ${merge.reason}`);
   }
-} 
\ No newline at end of file
+
+  return jsonResponse({
+    success: true,
+    session: merge.session ?? completed,
+    merge: { triggered: merge.triggered, jobId: merge.jobId ?? null, reason: merge.reason ?? null },
+  });
+});
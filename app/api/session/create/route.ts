@@ -0,0 +1,44 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { abortStaleSessions } from '@/lib/sessions';
+
+/**
+ * Creates a recording session in the `created` state.
+ *
+ * The client passes the returned session ID to /api/mux/upload so the upload and source
+ * video are linked to it, then moves it through start, heartbeat and complete (or abort).
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    // Clean up recordings the user walked away from before opening a new one
+    const staleCount = await abortStaleSessions(scope.supabase, scope.userId);
+    if (staleCount > 0) {
+      console.log(`[Session Create] Aborted ${staleCount} stale session(s) for user ${scope.userId}`);
+    }
+
+    const { data: session, error } = await scope.supabase
+      .from('sessions')
+      .insert({ user_id: scope.userId })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create session: ${error.message}`);
+    }
+
+    console.log(`[Session Create] Created session ${session.id} for user ${scope.userId}`);
+    return jsonResponse({ session }, { status: 201 });
+  } catch (error) {
+    console.error('[Session Create] Error:', error);
+    return errorResponse(
+      'Failed to create session',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,18 @@
+import { jsonResponse } from '@/lib/api/response';
+import { recordHeartbeat } from '@/lib/sessions';
+import { withSessionAction } from '@/lib/sessions/api';
+import { issueFrameToken } from '@/lib/sessions/frame-token';
+
+/**
+ * Keeps an active session alive while the client records. Body: `{ sessionId }`
+ *
+ * Sessions that stop sending heartbeats are aborted the next time the user creates one.
+ * While recording, each heartbeat also renews the short-lived frame token.
+ */
+export const POST = withSessionAction('Session Heartbeat', async ({ session, supabase, userId }) => {
+  const updated = await recordHeartbeat(supabase, session);
+  const frameToken = updated.status === 'recording'
+    ? issueFrameToken({ userId, sessionId: updated.id })
+    : null;
+  return jsonResponse({ session: updated, frameToken });
+});
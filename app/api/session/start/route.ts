@@ -0,0 +1,19 @@
+import { jsonResponse } from '@/lib/api/response';
+import { transitionSession } from '@/lib/sessions';
+import { withSessionAction } from '@/lib/sessions/api';
+import { issueFrameToken } from '@/lib/sessions/frame-token';
+
+/**
+ * Marks a session as recording. Body: `{ sessionId }`
+ *
+ * Returns the `frameToken` the client must send with each frame to /api/frame.
+ */
+export const POST = withSessionAction('Session Start', async ({ session, supabase, userId }) => {
+  const now = new Date().toISOString();
+  const started = await transitionSession(supabase, session, 'recording', {
+    started_at: now,
+    last_heartbeat_at: now,
+  });
+  const frameToken = issueFrameToken({ userId, sessionId: started.id });
+  return jsonResponse({ session: started, frameToken });
+});
@@ -0,0 +1,61 @@
+import { jsonResponse, errorResponse, badRequestResponse, notFoundResponse } from '@/lib/api/response';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { createSharedPlaybackTokens, describeShareRequester, logShareAccess, resolveShareLink } from '@/lib/share';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Signed Mux tokens for the recording a shared item was found in, for viewers without an
+ * account: `GET /api/share/playback?token=<link token>&asset_id=<item>&time=<seconds>`.
+ * Responds like `/api/mux/token` so the player can use either. Every request is logged
+ * against the link.
+ */
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const token = searchParams.get('token');
+    const assetId = searchParams.get('asset_id');
+    if (!token || !assetId) {
+      return badRequestResponse('token and asset_id query parameters are required');
+    }
+    const timeParam = searchParams.get('time');
+    const time = timeParam !== null && !isNaN(parseFloat(timeParam)) ? parseFloat(timeParam) : undefined;
+
+    const supabase = createServiceSupabaseClient();
+    const resolved = await resolveShareLink(supabase, token);
+    if (!resolved) {
+      return notFoundResponse('Share link not found');
+    }
+
+    const requester = describeShareRequester(request.headers);
+    const { link, status } = resolved;
+    if (status !== 'active') {
+      await logShareAccess(supabase, link, { resource: 'playback', outcome: status, assetId, ...requester });
+      return errorResponse(status === 'revoked' ? 'This share link was revoked' : 'This share link has expired', 410);
+    }
+
+    const playback = await createSharedPlaybackTokens(supabase, link, assetId, time);
+    await logShareAccess(supabase, link, {
+      resource: 'playback',
+      outcome: playback ? 'granted' : 'out_of_scope',
+      assetId,
+      ...requester,
+    });
+    if (!playback) {
+      return notFoundResponse('Video not found or not shared');
+    }
+
+    return jsonResponse({
+      token: playback.tokens.playback,
+      tokens: playback.tokens,
+      playbackId: playback.playbackId,
+    });
+  } catch (error) {
+    console.error('[Share API] Error creating playback tokens:', error);
+    return errorResponse(
+      'Failed to create playback tokens',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { jsonResponse, errorResponse, badRequestResponse, notFoundResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import {
+  buildShareUrl,
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  SHARE_LINK_DEFAULT_DAYS,
+  SHARE_LINK_MAX_DAYS,
+  ShareLinkError,
+} from '@/lib/share';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const CreateShareLinkSchema = z.object({
+  label: z.string().max(200).nullish(),
+  roomId: z.string().uuid().nullish(),
+  tagId: z.string().uuid().nullish(),
+  expiresInDays: z.number().int().min(1).max(SHARE_LINK_MAX_DAYS).default(SHARE_LINK_DEFAULT_DAYS),
+});
+
+/**
+ * The active household's share links, newest first, with their status and how often they were opened
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    return jsonResponse({ links: await listShareLinks(scope.supabase, scope.userId) });
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Share API] Error loading share links:', error);
+    return errorResponse(
+      'Failed to load share links',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Creates a read-only link. Body: `{ label?, roomId?, tagId?, expiresInDays? }`. The response
+ * holds the only copy of the link's URL.
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const input = await validateInput(await parseJsonBody(request), CreateShareLinkSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { link, token } = await createShareLink(scope.supabase, scope.userId, input);
+    return jsonResponse({ link, url: buildShareUrl(new URL(request.url).origin, token) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    if (error instanceof ShareLinkError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Share API] Error creating share link:', error);
+    return errorResponse(
+      'Failed to create share link',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Revokes a link: `DELETE /api/share?id=<link id>`. The link and its access log are kept.
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return badRequestResponse('id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const link = await revokeShareLink(scope.supabase, scope.userId, id);
+    if (!link) {
+      return notFoundResponse('Share link not found');
+    }
+    return jsonResponse({ link });
+  } catch (error) {
+    console.error('[Share API] Error revoking share link:', error);
+    return errorResponse(
+      'Failed to revoke share link',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
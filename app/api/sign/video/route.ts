@@ -0,0 +1,111 @@
+import { jsonResponse, errorResponse, badRequestResponse, notFoundResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { getSession, isSessionId } from '@/lib/sessions';
+import { DeviceInfoSchema, isSignableVideoType, MAX_SIGNED_VIDEO_BYTES } from '@/lib/c2pa/metadata';
+import { getSignedRecording, SignedCopyError, storeSignedRecording } from '@/lib/c2pa/recordings';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const SCOPE_REQUIRED = 'user_id query parameter is required when using an API key';
+
+const CaptureSchema = z.object({
+  captureTime: z.string().datetime({ offset: true }).optional(),
+  deviceInfo: DeviceInfoSchema.optional(),
+});
+
+/**
+ * Returns the signed copy of a video: `GET /api/sign/video?asset_id=<id>`
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const assetId = new URL(request.url).searchParams.get('asset_id');
+    if (!assetId) {
+      return badRequestResponse('asset_id query parameter is required');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    const recording = await getSignedRecording(scope.supabase, assetId, scope.userId);
+    if (!recording) {
+      return notFoundResponse('Video not found');
+    }
+    return jsonResponse(recording);
+  } catch (error) {
+    console.error('[Sign Video API] Error loading signed copy:', error);
+    return errorResponse(
+      'Failed to load signed copy',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Signs the original MP4 of a recording session with C2PA and keeps it as the video's
+ * signed copy. Multipart form: `file`, `sessionId` and optional `capture` JSON
+ * (`{ captureTime, deviceInfo }`).
+ */
+export const POST = withAuth(async (request: Request) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const sessionId = formData.get('sessionId');
+
+    if (!(file instanceof File)) {
+      return badRequestResponse('No file provided');
+    }
+    if (typeof sessionId !== 'string' || !isSessionId(sessionId)) {
+      return badRequestResponse('sessionId is required');
+    }
+    if (!isSignableVideoType(file.type)) {
+      return badRequestResponse(`Only MP4 recordings can be signed, got ${file.type || 'unknown'}`);
+    }
+    if (file.size > MAX_SIGNED_VIDEO_BYTES) {
+      return errorResponse(`Recording is larger than ${MAX_SIGNED_VIDEO_BYTES / (1024 * 1024)} MB`, 413);
+    }
+
+    let capture: z.infer<typeof CaptureSchema>;
+    try {
+      capture = CaptureSchema.parse(JSON.parse((formData.get('capture') as string | null) || '{}'));
+    } catch {
+      return badRequestResponse('capture must be JSON with captureTime and deviceInfo');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse(SCOPE_REQUIRED);
+    }
+
+    const session = await getSession(scope.supabase, sessionId, scope.userId);
+    if (!session) {
+      return notFoundResponse('Session not found');
+    }
+
+    // The session is the user's; only the service role may write signature fields (guard_asset_signature)
+    const recording = await storeSignedRecording(createServiceSupabaseClient(), session, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      mimeType: 'video/mp4',
+      fileName: file.name,
+      captureTime: capture.captureTime,
+      deviceInfo: capture.deviceInfo,
+    });
+
+    console.log(`[Sign Video API] Stored signed copy of session ${session.id} for asset ${recording.assetId} (${recording.size} bytes)`);
+    return jsonResponse(recording, { status: 201 });
+  } catch (error) {
+    if (error instanceof SignedCopyError) {
+      return errorResponse(error.message, error.status);
+    }
+    console.error('[Sign Video API] Error signing recording:', error);
+    return errorResponse(
+      'Failed to sign recording',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { z } from 'zod';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
 
 const tagNameSchema = z.object({
   name: z.string().min(1, { message: 'Tag name cannot be empty' }),
@@ -38,10 +39,10 @@ export async function PUT(
   const { name } = validationResult.data;
 
   try {
-    // Verify the tag exists and belongs to the user
+    // Verify the tag exists and the user can edit its household
     const { data: existingTag, error: fetchError } = await supabase
       .from('tags')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', tagId)
       .single();
 
@@ -49,15 +50,15 @@ export async function PUT(
       return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
     }
 
-    if (existingTag.user_id !== user.id) {
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, existingTag.household_id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Check for duplicate tag name for the user (excluding the current tag being updated)
+    // Check for duplicate tag name in the household (excluding the current tag being updated)
     const { data: duplicateTag, error: duplicateCheckError } = await supabase
       .from('tags')
       .select('id')
-      .eq('user_id', user.id)
+      .eq('household_id', existingTag.household_id)
       .eq('name', name)
       .neq('id', tagId) // Exclude the current tag from the check
       .maybeSingle();
@@ -76,7 +77,6 @@ export async function PUT(
       .from('tags')
       .update({ name })
       .eq('id', tagId)
-      .eq('user_id', user.id) // Ensure RLS is also respected at DB level
       .select()
       .single();
 
@@ -110,10 +110,10 @@ export async function DELETE(
   }
 
   try {
-    // Verify the tag exists and belongs to the user before attempting to delete
+    // Verify the tag exists and the user can edit its household before attempting to delete
     const { data: existingTag, error: fetchError } = await supabase
       .from('tags')
-      .select('id, user_id')
+      .select('id, household_id')
       .eq('id', tagId)
       .single();
 
@@ -127,7 +127,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Tag not found or error fetching it' }, { status: 404 });
     }
 
-    if (existingTag.user_id !== user.id) {
+    if (!canEditHousehold(await getHouseholdRole(supabase, user.id, existingTag.household_id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -150,8 +150,7 @@ export async function DELETE(
     const { error: deleteTagError } = await supabase
       .from('tags')
       .delete()
-      .eq('id', tagId)
-      .eq('user_id', user.id); // Ensure RLS is also respected
+      .eq('id', tagId); // Ensure RLS is also respected
 
     if (deleteTagError) {
       console.error('Error deleting tag:', deleteTagError.message);
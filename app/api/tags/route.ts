@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { z } from 'zod';
+import { canEditHousehold, resolveActiveHousehold } from '@/lib/households';
 
 const tagNameSchema = z.object({
   name: z.string().min(1, { message: 'Tag name cannot be empty' }),
@@ -16,10 +17,15 @@ export async function GET() {
   }
 
   try {
+    const { active: household } = await resolveActiveHousehold(supabase, user.id);
+    if (!household) {
+      return NextResponse.json({ data: [] }, { status: 200 });
+    }
+
     const { data: tags, error } = await supabase
       .from('tags')
       .select('*')
-      .eq('user_id', user.id)
+      .eq('household_id', household.id)
       .order('name', { ascending: true });
 
     if (error) {
@@ -58,11 +64,16 @@ export async function POST(req: NextRequest) {
   const { name } = validationResult.data;
 
   try {
-    // Check for duplicate tag name for the user
+    const { active: household } = await resolveActiveHousehold(supabase, user.id);
+    if (!household || !canEditHousehold(household.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Check for duplicate tag name in the household
     const { data: existingTag, error: existingTagError } = await supabase
       .from('tags')
       .select('id')
-      .eq('user_id', user.id)
+      .eq('household_id', household.id)
       .eq('name', name)
       .maybeSingle();
 
@@ -78,7 +89,7 @@ export async function POST(req: NextRequest) {
     // Create the new tag
     const { data: newTag, error: createError } = await supabase
       .from('tags')
-      .insert({ user_id: user.id, name })
+      .insert({ user_id: user.id, household_id: household.id, name })
       .select()
       .single();
 
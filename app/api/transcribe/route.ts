@@ -3,6 +3,10 @@ import { corsOptionsResponse, corsJsonResponse, corsErrorResponse } from '@/lib/
 import { transcribeAudioUrl, extractParagraphText } from '@/lib/deepgram';
 import { withAuth } from '@/lib/api/auth';
 import { getStaticRenditionDownloadUrl } from '@/lib/mux';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { findSessionForAsset, triggerSessionMerge } from '@/lib/sessions';
+import { assetJobKey, enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { checkUsageLimit, recordUsage, usageLimitResponse } from '@/lib/usage';
 
 // Add support for OPTIONS method (for CORS preflight requests)
 export async function OPTIONS() {
@@ -102,6 +106,13 @@ export const POST = withAuth(async (request: Request) => {
       }
     }
 
+    const serviceClient = createServiceSupabaseClient();
+    const usage = await checkUsageLimit(serviceClient, asset.user_id, 'transcription');
+    if (!usage.allowed) {
+      console.warn(`[Transcribe API] Transcription ${usage.reason} reached for user ${asset.user_id}`);
+      return usageLimitResponse(usage);
+    }
+
     // Update asset to show transcription is processing
     await supabase
       .from('assets')
@@ -116,6 +127,17 @@ export const POST = withAuth(async (request: Request) => {
       // Process the transcription
       const transcriptData = await transcribeAudioUrl(asset.mux_audio_url);
       
+      await recordUsage(serviceClient, {
+        userId: asset.user_id,
+        kind: 'transcription',
+        operation: 'transcribe',
+        provider: 'deepgram',
+        model: 'nova-2',
+        durationSeconds: transcriptData.metadata?.duration,
+        assetId,
+        dedupeKey: transcriptData.metadata?.request_id ? `transcription:${transcriptData.metadata.request_id}` : undefined,
+      });
+      
       // Extract plain text for easier searching/display
       const transcriptText = extractParagraphText(transcriptData);
 
@@ -177,77 +199,30 @@ export const POST = withAuth(async (request: Request) => {
         console.error(`[Transcribe API] Error marking asset ${assetId} as source:`, markSourceError);
       }
 
-      const mergeUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/api/analyze-transcript/merge-with-scratch`;
-      console.log(`[Transcribe] Using analyze URL: ${mergeUrl}`);
-      
-      // Even if the transcript is empty, we still want to try to merge with scratch items
-      // Create a request body with or without transcript text
-      const requestBody: {
-        user_id: string;
-        asset_id: string;
-        mux_asset_id: string;
-        transcript?: unknown;
-      } = {
-        user_id: asset.user_id,
-        asset_id: asset.id,
-        mux_asset_id: asset.mux_asset_id
-      };
-      
-      // Send the full transcriptData object if available
-      if (transcriptData) { 
-        requestBody.transcript = transcriptData; 
-      } else {
-        console.log(`[Transcribe] No transcript data available, will proceed with only scratch items for merge`);
-      }
-      
-      console.log(`[Transcribe] Sending request with body: ${JSON.stringify({
-        user_id: requestBody.user_id,
-        asset_id: requestBody.asset_id,
-        mux_asset_id: requestBody.mux_asset_id,
-        transcript_is_object: typeof requestBody.transcript === 'object' && requestBody.transcript !== null,
-        transcript_text_length: transcriptText?.length || 0 // Keep logging text length for reference
-      })}`);
-      
-      let attemptCount = 0;
-      const maxAttempts = 3;
-      
-      // Try up to 3 times with exponential backoff
-      let success = false;
-      
-      while (attemptCount < maxAttempts && !success) {
-        try {
-          if (attemptCount > 0) {
-            console.log(`[Transcribe] Retry attempt ${attemptCount} for merge-with-scratch API call`);
-            // Exponential backoff: 1s, 2s, 4s, etc.
-            await new Promise(resolve => setTimeout(resolve, Math.pow(2, attemptCount - 1) * 1000));
-          }
-          
-          const analyzeResponse = await fetch(mergeUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(requestBody)
+      // Queue the merge of transcript and scratch items. Recordings with a session only merge
+      // once the client has also completed the session; others merge right away.
+      // Even if the transcript is empty, we still want to merge the scratch items.
+      try {
+        const session = await findSessionForAsset(serviceClient, assetId);
+        if (session) {
+          const merge = await triggerSessionMerge(serviceClient, session.id);
+          console.log(merge.triggered
+            ? `[Transcribe] Queued merge job ${merge.jobId} for session ${session.id}`
+            : `[Transcribe] Merge for session ${session.id} deferred: ${merge.reason}`);
+        } else {
+          const job = await enqueueJob(serviceClient, {
+            type: 'merge',
+            payload: { asset_id: asset.id },
+            idempotencyKey: assetJobKey('merge', asset.id),
+            userId: asset.user_id,
+            assetId: asset.id
           });
-
-          if (!analyzeResponse.ok) {
-            const errorText = await analyzeResponse.text();
-            console.error(`[Transcribe] Error analyzing transcript and scratch items for asset ${assetId}: ${errorText}`);
-            console.error(`[Transcribe] Failed to analyze with status: ${analyzeResponse.status}`);
-            attemptCount++;
-          } else {
-            const analysisResult = await analyzeResponse.json();
-            console.log(`[Transcribe] Successfully merged and analyzed transcript and scratch items for asset ${assetId}. Found ${analysisResult.items?.length || 0} items.`);
-            console.log(`[Transcribe] Analysis result: ${JSON.stringify(analysisResult)}`);
-            success = true;
-          }
-        } catch (error) {
-          console.error(`[Transcribe] Exception during attempt ${attemptCount + 1} to trigger transcript and scratch item analysis for asset ${assetId}:`, error);
-          attemptCount++;
+          console.log(`[Transcribe] Queued merge job ${job.id} (${job.status}) for asset ${assetId}`);
+          kickJobWorker();
         }
-      }
-      
-      if (!success) {
-        console.error(`[Transcribe] Failed to merge transcript with scratch items after ${maxAttempts} attempts. Will rely on webhook fallback mechanism.`);
-        // We don't fail the overall request if analysis fails - just log the error
+      } catch (mergeError) {
+        // The transcript is saved; the merge can be re-run from /api/jobs
+        console.error(`[Transcribe] Error queueing merge for asset ${assetId}:`, mergeError);
       }
       
       // Always return a success response at the end of the try block
@@ -1,7 +1,11 @@
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
-import { signFile } from '@/utils/server/mediaSigningService'
-import { corsJsonResponse, corsErrorResponse, corsOptionsResponse, withAuth } from '@/lib/api'
+import { signMedia } from '@/utils/server/mediaSigningService'
+import { buildSignatureData, SignableMetadata } from '@/lib/c2pa/metadata'
+import { corsJsonResponse, corsErrorResponse, corsOptionsResponse, withAuth, resolveRequestScope } from '@/lib/api'
+import { createServiceSupabaseClient } from '@/lib/auth/supabase'
+import { Json } from '@/lib/db/schema'
 import { User } from '@supabase/supabase-js'
+import { z } from 'zod'
 
 const s3Client = new S3Client({
     region: process.env.AWS_REGION!,
@@ -12,6 +16,12 @@ const s3Client = new S3Client({
     useArnRegion: true
 })
 
+// Where to create the asset for the upload, when the client asks for one
+const AssetPlacementSchema = z.object({
+    household_id: z.string().uuid(),
+    property_id: z.string().uuid(),
+})
+
 export const POST = withAuth(async (request: Request) => {
     // User is available from middleware extension
     const user = (request as Request & { user: User }).user
@@ -20,20 +30,30 @@ export const POST = withAuth(async (request: Request) => {
         const formData = await request.formData()
         const file = formData.get('file') as File
         const metadata = JSON.parse(formData.get('metadata') as string || '{}')
+        const assetField = formData.get('asset') as string | null
+        const placement = assetField ? AssetPlacementSchema.safeParse(JSON.parse(assetField)) : null
 
         if (!file) {
             return corsErrorResponse('No file provided', 400)
         }
+        if (placement && !placement.success) {
+            return corsErrorResponse('asset must have a household_id and property_id', 400)
+        }
 
         // Convert file to buffer
         const buffer = Buffer.from(await file.arrayBuffer())
 
-        // Sign the file (for images only - videos will return the original buffer)
-        const signedBuffer = await signFile(buffer, file.type, file.name, {
+        // Sign the file (images and MP4 videos - other formats keep the original buffer)
+        const signableMetadata: SignableMetadata = {
             name: metadata.name || file.name,
             description: metadata.description || null,
-            estimated_value: metadata.estimated_value || null
-        })
+            estimated_value: metadata.estimated_value || null,
+            capture: metadata.capture
+        }
+        const signed = await signMedia(buffer, file.type, file.name, signableMetadata)
+        const signedBuffer = signed.buffer
+        // Recorded on the asset as signature_data, with the signer's identity
+        const signature = signed.signer ? buildSignatureData(signableMetadata, { ...signed, signer: signed.signer }) : null
 
         // Generate a unique key for the file
         const timestamp = Date.now()
@@ -60,7 +80,7 @@ export const POST = withAuth(async (request: Request) => {
                 'original-filename': file.name,
                 'user-id': user.id,
                 'upload-timestamp': timestamp.toString(),
-                'c2pa-signed': isVideo ? 'false' : 'true',
+                'c2pa-signed': signed.signed ? 'true' : 'false',
                 'original-size': buffer.length.toString(),
                 'signed-size': signedBuffer.length.toString()
             },
@@ -82,7 +102,47 @@ export const POST = withAuth(async (request: Request) => {
             isVideo: isVideo
         })
 
-        return corsJsonResponse({ url, key })
+        if (!placement) {
+            return corsJsonResponse({ url, key, signature })
+        }
+
+        // The asset is created here so the signature comes from the server, never from the client
+        const scope = await resolveRequestScope(request)
+        if (!scope) {
+            return corsErrorResponse('user_id query parameter is required when using an API key', 400)
+        }
+        const { data: asset, error: insertError } = await scope.supabase
+            .from('assets')
+            .insert({
+                user_id: scope.userId,
+                household_id: placement.data.household_id,
+                property_id: placement.data.property_id,
+                name: signableMetadata.name,
+                description: signableMetadata.description,
+                estimated_value: signableMetadata.estimated_value,
+                media_url: key,
+                media_type: isVideo ? 'video' : 'image',
+            })
+            .select()
+            .single()
+        if (insertError || !asset) {
+            throw new Error(`Failed to create asset: ${insertError?.message ?? 'unknown error'}`)
+        }
+        if (!signature) {
+            return corsJsonResponse({ url, key, signature, asset })
+        }
+
+        // Only the service role may write signature fields (guard_asset_signature)
+        const { data: signedAsset, error: signError } = await createServiceSupabaseClient()
+            .from('assets')
+            .update({ is_signed: true, signature_data: signature satisfies Json })
+            .eq('id', asset.id)
+            .select()
+            .single()
+        if (signError || !signedAsset) {
+            throw new Error(`Failed to record signature on ${asset.id}: ${signError?.message ?? 'unknown error'}`)
+        }
+        return corsJsonResponse({ url, key, signature, asset: signedAsset })
     } catch (error: unknown) {
         const err = error as Error & { code?: string }
         console.error('Upload error:', {
@@ -0,0 +1,74 @@
+import { User } from '@supabase/supabase-js';
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, isSystemUser, resolveRequestScope } from '@/lib/api/auth';
+import { createServiceSupabaseClient } from '@/lib/auth/supabase';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { loadUsageLimits, USAGE_KINDS } from '@/lib/usage';
+import { UsageKind } from '@/lib/db/schema';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const LimitSchema = z.object({
+  userId: z.string().uuid({ message: 'userId must be a UUID' }),
+  kind: z.enum(USAGE_KINDS as [UsageKind, ...UsageKind[]]),
+  monthlyQuota: z.number().nonnegative().nullable(),
+  perMinuteLimit: z.number().int().nonnegative().nullable(),
+});
+
+/**
+ * The limits that apply to the user: their overrides on top of the defaults
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+    return jsonResponse({ limits: await loadUsageLimits(scope.supabase, scope.userId) });
+  } catch (error) {
+    console.error('[Usage API] Error loading limits:', error);
+    return errorResponse(
+      'Failed to load usage limits',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Sets one user's limit for one kind. Only callable with the server API key.
+ * Body: `{ userId, kind, monthlyQuota, perMinuteLimit }`; null means unlimited.
+ */
+export const PUT = withAuth(async (request: Request) => {
+  const user = (request as Request & { user: User }).user;
+  if (!isSystemUser(user)) {
+    return errorResponse('Changing usage limits requires the server API key', 403);
+  }
+
+  try {
+    const { userId, kind, monthlyQuota, perMinuteLimit } = await validateInput(await parseJsonBody(request), LimitSchema);
+
+    const supabase = createServiceSupabaseClient();
+    const { error } = await supabase
+      .from('usage_limits')
+      .upsert(
+        { user_id: userId, kind, monthly_quota: monthlyQuota, per_minute_limit: perMinuteLimit },
+        { onConflict: 'user_id,kind' }
+      );
+    if (error) throw new Error(error.message);
+
+    console.log(`[Usage API] Set ${kind} limits for user ${userId}: quota ${monthlyQuota ?? 'none'}, ${perMinuteLimit ?? 'no'} calls/minute`);
+    return jsonResponse({ limits: await loadUsageLimits(supabase, userId) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    console.error('[Usage API] Error setting limits:', error);
+    return errorResponse(
+      'Failed to set usage limits',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,53 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { getMonthStart, loadUsageLimits, loadUsageTotals, summarizeUsage } from '@/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Usage per kind (vision, llm, transcription, video) against the user's quotas:
+ * `GET /api/usage?from=<iso>&to=<iso>`. Defaults to the current calendar month (UTC).
+ * With the server API key, pass `user_id` to read another user's usage.
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    if (from === null || to === null) {
+      return badRequestResponse('from and to must be ISO dates');
+    }
+    if (from && to && from > to) {
+      return badRequestResponse('from must be before to');
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const since = from ?? getMonthStart();
+    const [rows, limits] = await Promise.all([
+      loadUsageTotals(scope.supabase, scope.userId, since, to),
+      loadUsageLimits(scope.supabase, scope.userId),
+    ]);
+
+    return jsonResponse({
+      period: { from: since.toISOString(), to: to?.toISOString() ?? null },
+      usage: summarizeUsage(rows, limits),
+    });
+  } catch (error) {
+    console.error('[Usage API] Error loading usage:', error);
+    return errorResponse(
+      'Failed to load usage',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -0,0 +1,134 @@
+import { jsonResponse, errorResponse, badRequestResponse } from '@/lib/api/response';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { canEditHousehold, resolveActiveHousehold } from '@/lib/households';
+import {
+  DEFAULT_DEPRECIATION_RULES,
+  ITEM_CATEGORIES,
+  isItemCategory,
+  loadDepreciationRules,
+} from '@/lib/valuation';
+import { z } from 'zod';
+
+const RuleSchema = z.object({
+  category: z.enum(ITEM_CATEGORIES),
+  usefulLifeYears: z.number().positive().max(100).nullable(),
+  salvagePercent: z.number().min(0).max(100),
+});
+
+/**
+ * Returns the depreciation rule in effect for each category in the active household, and the
+ * defaults they override
+ */
+export const GET = withAuth(async (request: Request) => {
+  try {
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return errorResponse('You are not a member of any household', 404);
+    }
+
+    const rules = await loadDepreciationRules(scope.supabase, household.id);
+    return jsonResponse({ rules, defaults: DEFAULT_DEPRECIATION_RULES });
+  } catch (error) {
+    console.error('[Depreciation API] Error loading rules:', error);
+    return errorResponse(
+      'Failed to load depreciation rules',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Overrides the active household's depreciation rule for one category (owners and editors). Body: `{ category, usefulLifeYears, salvagePercent }`
+ * (`usefulLifeYears: null` means items in the category do not depreciate)
+ */
+export const PUT = withAuth(async (request: Request) => {
+  try {
+    const rule = await validateInput(await parseJsonBody(request), RuleSchema);
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return errorResponse('You are not a member of any household', 404);
+    }
+    if (!canEditHousehold(household.role)) {
+      return errorResponse('Only household owners and editors can change depreciation rules', 403);
+    }
+
+    const { error } = await scope.supabase
+      .from('depreciation_rules')
+      .upsert({
+        user_id: scope.userId,
+        household_id: household.id,
+        category: rule.category,
+        useful_life_years: rule.usefulLifeYears,
+        salvage_percent: rule.salvagePercent,
+      }, { onConflict: 'household_id,category' });
+    if (error) throw new Error(error.message);
+
+    const rules = await loadDepreciationRules(scope.supabase, household.id);
+    return jsonResponse({ rules, defaults: DEFAULT_DEPRECIATION_RULES });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return badRequestResponse(error.message, error.details);
+    }
+    console.error('[Depreciation API] Error saving rule:', error);
+    return errorResponse(
+      'Failed to save depreciation rule',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
+
+/**
+ * Restores the default rule for a category in the active household (owners and editors): `DELETE /api/valuation/depreciation?category=<category>`
+ */
+export const DELETE = withAuth(async (request: Request) => {
+  try {
+    const category = new URL(request.url).searchParams.get('category');
+    if (!isItemCategory(category)) {
+      return badRequestResponse(`category must be one of: ${ITEM_CATEGORIES.join(', ')}`);
+    }
+
+    const scope = await resolveRequestScope(request);
+    if (!scope) {
+      return badRequestResponse('user_id query parameter is required when using an API key');
+    }
+
+    const { active: household } = await resolveActiveHousehold(scope.supabase, scope.userId);
+    if (!household) {
+      return errorResponse('You are not a member of any household', 404);
+    }
+    if (!canEditHousehold(household.role)) {
+      return errorResponse('Only household owners and editors can change depreciation rules', 403);
+    }
+
+    const { error } = await scope.supabase
+      .from('depreciation_rules')
+      .delete()
+      .eq('household_id', household.id)
+      .eq('category', category);
+    if (error) throw new Error(error.message);
+
+    const rules = await loadDepreciationRules(scope.supabase, household.id);
+    return jsonResponse({ rules, defaults: DEFAULT_DEPRECIATION_RULES });
+  } catch (error) {
+    console.error('[Depreciation API] Error resetting rule:', error);
+    return errorResponse(
+      'Failed to reset depreciation rule',
+      500,
+      { details: error instanceof Error ? error.message : 'Unknown error' }
+    );
+  }
+});
@@ -1,7 +1,57 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/utils/supabase/server'
-import { verifyFile } from '@/utils/server/mediaSigningService'
+import { verifyMedia } from '@/utils/server/mediaSigningService'
+import { verifyAsset } from '@/lib/c2pa/assets'
 
+/**
+ * Verifies the stored file behind an asset: `GET /api/verify?asset_id=<id>`. Videos and items
+ * found in them are checked against the video's signed copy.
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+        const { data: { user }, error } = await supabase.auth.getUser()
+
+        if (error || !user) {
+            console.error('Authentication error in /api/verify:', error);
+            return new NextResponse(
+                JSON.stringify({ error: 'Unauthorized', details: error?.message || 'User not authenticated' }),
+                { status: 401, headers: { 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const assetId = new URL(request.url).searchParams.get('asset_id')
+        if (!assetId) {
+            return new NextResponse(
+                JSON.stringify({ error: 'Bad Request', details: 'asset_id query parameter is required' }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const result = await verifyAsset(supabase, assetId, user.id)
+        if (!result) {
+            return new NextResponse(
+                JSON.stringify({ error: 'Not Found', details: 'Asset not found' }),
+                { status: 404, headers: { 'Content-Type': 'application/json' } }
+            )
+        }
+
+        return NextResponse.json({ verified: result.report.verified, ...result })
+    } catch (error: unknown) {
+        console.error('Asset verification error in /api/verify:', error)
+        return new NextResponse(
+            JSON.stringify({
+                error: 'Verification failed',
+                details: (error as Error)?.message || 'Unknown error during verification process'
+            }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        )
+    }
+}
+
+/**
+ * Verifies an uploaded file (multipart form field `file`) and returns the full report
+ */
 export async function POST(request: Request) {
     try {
         // Verify authentication
@@ -40,19 +90,20 @@ export async function POST(request: Request) {
         });
 
         // Verify the file using the server-side utility
-        const isVerified = await verifyFile(buffer, file.type)
+        const report = await verifyMedia(buffer, file.type)
 
         console.log('File verification result:', {
             name: file.name,
-            verified: isVerified
+            status: report.status
         });
 
-        // Return verification result
+        // Return the verification report
         return NextResponse.json({
-            verified: isVerified,
+            verified: report.verified,
             fileName: file.name,
             mimeType: file.type,
-            size: buffer.length
+            size: buffer.length,
+            report
         })
     } catch (error: unknown) {
         console.error('Verification error in /api/verify:', error)
@@ -6,6 +6,9 @@ import { Suspense } from 'react'
 import { AssetWithMuxData } from '@/types/mux'
 import { SupabaseClient } from '@supabase/supabase-js'
 import { Metadata } from 'next'
+import { calculateTotals, DEFAULT_DEPRECIATION_RULES, loadDepreciationRules } from '@/lib/valuation'
+import { canEditHousehold, HouseholdMembership, listMembers, resolveActiveHousehold } from '@/lib/households'
+import { calculatePropertyTotals, Property, resolveActiveProperty } from '@/lib/properties'
 
 export const metadata: Metadata = {
     title: 'Dashboard | Padlox',
@@ -28,6 +31,24 @@ export default async function Dashboard() {
     // Update DB if user's email is not in the database
     await ensureUserExists(user, supabase)
 
+    // The inventory shown is the active household's, shared with its other members
+    const { active: household, households } = await resolveActiveHousehold(supabase, user.id)
+    if (!household) {
+        return <div>Error loading dashboard data: you are not a member of any household.</div>;
+    }
+    // Within the household, one property (home, rental, storage unit) is shown at a time
+    const { active: property, properties } = await resolveActiveProperty(supabase, user.id, household.id)
+    if (!property) {
+        return <div>Error loading dashboard data: this household has no properties.</div>;
+    }
+    if (canEditHousehold(household.role)) {
+        await ensureHouseholdDefaults(household, property, user.id, supabase)
+    }
+    const members = await listMembers(supabase, user.id, household.id).catch((membersError) => {
+        console.error('Error loading household members:', membersError);
+        return [];
+    });
+
     // Get the user's assets with tags and room
     // Note: Supabase syntax for fetching related data.
     // `tags` via `asset_tags` (many-to-many)
@@ -43,7 +64,7 @@ export default async function Dashboard() {
                 tags(*)
             )
         `)
-        .eq('user_id', user.id)
+        .eq('household_id', household.id)
         .order('created_at', { ascending: false });
 
     if (error) {
@@ -91,16 +112,18 @@ export default async function Dashboard() {
     //     console.log(`  Asset ID: ${a.id}, Name: ${a.name}, Room: ${JSON.stringify(a.room)}`);
     // });
 
-    // Calculate metrics
-    const filteredAssetsForCount = assetsWithProcessedRelations.filter(asset => asset.media_type === 'item' || asset.media_type === 'image');
-    const totalItems = filteredAssetsForCount.length;
-    const totalValue = assetsWithProcessedRelations.reduce((sum: number, asset: AssetWithMuxData) => { // Use 'any' for now, will be AssetWithMuxData
-        const value = typeof asset.estimated_value === 'number' ? asset.estimated_value : 0;
-        return sum + value;
-    }, 0);
+    // Calculate metrics: replacement cost and actual cash value under the household's depreciation rules
+    const depreciationRules = await loadDepreciationRules(supabase, household.id).catch((rulesError) => {
+        console.error('Error loading depreciation rules, using defaults:', rulesError);
+        return DEFAULT_DEPRECIATION_RULES;
+    });
+    // The whole household is loaded so the property switcher can show every property's totals
+    const propertyTotals = calculatePropertyTotals(properties, assetsWithProcessedRelations, depreciationRules);
+    const propertyAssets = assetsWithProcessedRelations.filter(asset => asset.property_id === property.id);
+    const { totalItems, totalValue, totalActualCashValue } = calculateTotals(propertyAssets, depreciationRules);
 
     // Transform assets to include absolute media_url if it's not a Mux video
-    const transformedAssets = assetsWithProcessedRelations.map((asset: AssetWithMuxData) => { // Use 'any' for now
+    const transformedAssets = propertyAssets.map((asset: AssetWithMuxData) => { // Use 'any' for now
         if (asset.mux_asset_id) {
             return asset as AssetWithMuxData;
         }
@@ -118,7 +141,15 @@ export default async function Dashboard() {
                 initialAssets={transformedAssets as AssetWithMuxData[]}
                 initialTotalItems={totalItems}
                 initialTotalValue={totalValue}
+                initialTotalActualCashValue={totalActualCashValue}
+                depreciationRules={depreciationRules}
                 user={user}
+                household={household}
+                households={households}
+                initialMembers={members}
+                property={property}
+                properties={properties}
+                propertyTotals={propertyTotals}
             />
         </Suspense>
     )
@@ -186,7 +217,7 @@ async function ensureUserExists(user: { id: string, email?: string | undefined }
 
         if (createError) {
             console.error('Error creating user:', createError);
-            return; // If user creation fails, we can't proceed with tags/rooms
+            return; // Without the user row there is no household to load
         }
         userExists = true; // User is now created
     }
@@ -194,26 +225,29 @@ async function ensureUserExists(user: { id: string, email?: string | undefined }
     if (!userExists) {
         // Should not happen if user creation was successful or user already existed.
         console.error('User does not exist after check/creation attempt.');
-        return;
     }
+}
 
+// Default tags for a household and rooms for a property that have none yet, e.g. ones just created.
+// Creating the user's row in public.users creates their first household and its property.
+async function ensureHouseholdDefaults(household: HouseholdMembership, property: Property, userId: string, supabase: SupabaseClient) {
     // Check and create default tags if none exist
     try {
         const { data: existingTags, error: tagsError } = await supabase
             .from('tags')
             .select('id')
-            .eq('user_id', user.id)
+            .eq('household_id', household.id)
             .limit(1);
 
         if (tagsError) {
             console.error('Error checking for existing tags:', tagsError);
         } else if (!existingTags || existingTags.length === 0) {
-            const tagsToInsert = DEFAULT_TAG_NAMES.map(name => ({ user_id: user.id, name }));
+            const tagsToInsert = DEFAULT_TAG_NAMES.map(name => ({ user_id: userId, household_id: household.id, name }));
             const { error: insertTagsError } = await supabase.from('tags').insert(tagsToInsert);
             if (insertTagsError) {
                 console.error('Error inserting default tags:', insertTagsError);
             } else {
-                console.log(`Inserted default tags for user ${user.id}`);
+                console.log(`Inserted default tags for household ${household.id}`);
             }
         }
     } catch (e) {
@@ -225,18 +259,18 @@ async function ensureUserExists(user: { id: string, email?: string | undefined }
         const { data: existingRooms, error: roomsError } = await supabase
             .from('rooms')
             .select('id')
-            .eq('user_id', user.id)
+            .eq('property_id', property.id)
             .limit(1);
 
         if (roomsError) {
             console.error('Error checking for existing rooms:', roomsError);
         } else if (!existingRooms || existingRooms.length === 0) {
-            const roomsToInsert = DEFAULT_ROOM_NAMES.map(name => ({ user_id: user.id, name }));
+            const roomsToInsert = DEFAULT_ROOM_NAMES.map(name => ({ user_id: userId, household_id: household.id, property_id: property.id, name }));
             const { error: insertRoomsError } = await supabase.from('rooms').insert(roomsToInsert);
             if (insertRoomsError) {
                 console.error('Error inserting default rooms:', insertRoomsError);
             } else {
-                console.log(`Inserted default rooms for user ${user.id}`);
+                console.log(`Inserted default rooms for property ${property.id}`);
             }
         }
     } catch (e) {
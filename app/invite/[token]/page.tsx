@@ -0,0 +1,62 @@
+// Accepts a household invitation for the signed-in user and opens the household's dashboard
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { Metadata } from 'next'
+import { Button } from '@/components/ui/button'
+import { createClient } from '@/utils/supabase/server'
+import { createServiceSupabaseClient } from '@/lib/auth/supabase'
+import { acceptInvitation, HouseholdError } from '@/lib/households'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+    title: 'Household Invitation | Padlox',
+    robots: { index: false, follow: false },
+}
+
+function InvitationMessage({ title, message, href, action }: { title: string; message: string; href: string; action: string }) {
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen text-center px-4">
+            <h1 className="text-2xl font-semibold mb-4">{title}</h1>
+            <p className="text-muted-foreground max-w-md mb-6">{message}</p>
+            <Button asChild>
+                <Link href={href}>{action}</Link>
+            </Button>
+        </div>
+    )
+}
+
+export default async function InvitationPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+        return (
+            <InvitationMessage
+                title="You've been invited to a household"
+                message="Sign in with the email address the invitation was sent to, then open this link again."
+                href="/login"
+                action="Sign in"
+            />
+        )
+    }
+
+    try {
+        await acceptInvitation(createServiceSupabaseClient(), user, token)
+    } catch (error) {
+        if (error instanceof HouseholdError) {
+            return (
+                <InvitationMessage
+                    title="This invitation can't be used"
+                    message={error.message}
+                    href="/dashboard"
+                    action="Go to Dashboard"
+                />
+            )
+        }
+        throw error
+    }
+
+    return redirect('/dashboard')
+}
@@ -0,0 +1,46 @@
+// Public, read-only view of a share link; no Padlox account is needed
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { Metadata } from 'next'
+import { createServiceSupabaseClient } from '@/lib/auth/supabase'
+import { describeShareRequester, loadSharedInventory, logShareAccess, resolveShareLink } from '@/lib/share'
+import { SharedInventoryView } from '@/components/shared-inventory'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+    title: 'Shared Inventory | Padlox',
+    description: 'A read-only home inventory shared with you.',
+    robots: { index: false, follow: false },
+}
+
+export default async function SharedInventoryPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params
+    const supabase = createServiceSupabaseClient()
+
+    const resolved = await resolveShareLink(supabase, token)
+    if (!resolved) {
+        return notFound()
+    }
+
+    // Every visit is logged against the link, including visits after it stopped working
+    const requester = describeShareRequester(await headers())
+    const { link, scope, status } = resolved
+    await logShareAccess(supabase, link, { resource: 'inventory', outcome: status === 'active' ? 'granted' : status, ...requester })
+
+    if (status !== 'active') {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen text-center px-4">
+                <h1 className="text-2xl font-semibold mb-4">
+                    {status === 'revoked' ? 'This link was revoked' : 'This link has expired'}
+                </h1>
+                <p className="text-muted-foreground max-w-md">
+                    Ask the homeowner who shared it to send you a new link.
+                </p>
+            </div>
+        )
+    }
+
+    const inventory = await loadSharedInventory(supabase, link, scope)
+    return <SharedInventoryView inventory={inventory} token={token} />
+}
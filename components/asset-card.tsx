@@ -50,7 +50,11 @@ export function AssetCard({
     let imageUrl = '';
     let imageKey = asset.id; // Use a base key, modify for items with timestamps
 
-    if (isItemAsset && asset.mux_playback_id && asset.item_timestamp != null) {
+    if (isItemAsset && asset.thumbnail_url) {
+        // Prefer the crop of the detected item over the full Mux frame
+        imageUrl = asset.thumbnail_url;
+        imageKey = `${asset.id}-crop`;
+    } else if (isItemAsset && asset.mux_playback_id && asset.item_timestamp != null) {
         imageUrl = getMuxThumbnailUrl(asset.mux_playback_id, thumbnailToken);
         // Stable key: Based on asset ID and timestamp (if applicable)
         imageKey = `${asset.id}-item-${asset.item_timestamp}`;
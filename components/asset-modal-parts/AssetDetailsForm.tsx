@@ -76,6 +76,7 @@ export function AssetDetailsForm({
             name: string;
             description: string | null;
             estimated_value: number | null;
+            value_source?: 'user_edit';
             item_timestamp?: number | null;
         } = {
             name: editableName.trim(),
@@ -83,6 +84,11 @@ export function AssetDetailsForm({
             estimated_value: valueToSave,
         };
 
+        // Attribute the new value to the user in the valuation history
+        if (valueToSave !== (asset.estimated_value ?? null)) {
+            updates.value_source = 'user_edit';
+        }
+
         // Only include timestamp for item assets
         if (asset.media_type === 'item') {
             updates.item_timestamp = timestampToSave;
@@ -184,7 +190,7 @@ export function AssetDetailsForm({
                 />
             </div>
             <div>
-                <Label htmlFor={`asset-value-${asset.id}`}>Estimated Value ($)</Label>
+                <Label htmlFor={`asset-value-${asset.id}`}>Replacement Cost ($)</Label>
                 <Input
                     id={`asset-value-${asset.id}`}
                     type="number"
@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetWithMuxData } from '@/types/mux';
+import { createClient } from '@/utils/supabase/client';
+import { formatCurrency } from '@/utils/format';
+import { ItemDocumentKind } from '@/lib/db/schema';
+import {
+    ACCEPTED_DOCUMENT_TYPES,
+    DOCUMENT_KINDS,
+    DOCUMENT_KIND_LABELS,
+    ExtractedDocumentFields,
+    ItemDocument,
+    MAX_DOCUMENT_BYTES,
+} from '@/lib/documents';
+
+interface AssetDocumentsProps {
+    asset: AssetWithMuxData;
+    onAssetUpdate: (updatedAsset: AssetWithMuxData) => void;
+}
+
+type DocumentWithUrl = ItemDocument & { download_url: string };
+
+type OwnershipFields = Pick<AssetWithMuxData, 'purchase_merchant' | 'serial_number' | 'model_number'>;
+
+const OWNERSHIP_FIELDS: Array<{ key: keyof OwnershipFields; label: string; placeholder: string }> = [
+    { key: 'purchase_merchant', label: 'Merchant', placeholder: 'e.g., Best Buy' },
+    { key: 'serial_number', label: 'Serial Number', placeholder: 'e.g., C02XK0ABJG5H' },
+    { key: 'model_number', label: 'Model Number', placeholder: 'e.g., A2338' },
+];
+
+const POLL_INTERVAL_MS = 3000;
+
+function isExtracting(document: ItemDocument) {
+    return document.extraction_status === 'pending' || document.extraction_status === 'processing';
+}
+
+function describeExtraction(fields: ExtractedDocumentFields | null): string | null {
+    if (!fields) return null;
+    const parts = [
+        fields.merchant,
+        fields.purchase_date,
+        fields.price != null ? formatCurrency(fields.price) : null,
+        fields.serial_number ? `S/N ${fields.serial_number}` : null,
+        fields.model_number ? `Model ${fields.model_number}` : null,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : 'No details found';
+}
+
+/**
+ * Receipts, warranties, appraisals and manuals attached to an item, and the
+ * proof-of-ownership fields read from them
+ */
+export function AssetDocuments({ asset, onAssetUpdate }: AssetDocumentsProps) {
+    const [documents, setDocuments] = useState<DocumentWithUrl[]>([]);
+    const [kind, setKind] = useState<ItemDocumentKind>('receipt');
+    const [fields, setFields] = useState<Record<keyof OwnershipFields, string>>({
+        purchase_merchant: asset.purchase_merchant ?? '',
+        serial_number: asset.serial_number ?? '',
+        model_number: asset.model_number ?? '',
+    });
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const wasExtractingRef = useRef(false);
+
+    useEffect(() => {
+        setFields({
+            purchase_merchant: asset.purchase_merchant ?? '',
+            serial_number: asset.serial_number ?? '',
+            model_number: asset.model_number ?? '',
+        });
+    }, [asset.purchase_merchant, asset.serial_number, asset.model_number]);
+
+    const loadDocuments = useCallback(async () => {
+        const response = await fetch(`/api/documents?asset_id=${asset.id}`);
+        if (!response.ok) throw new Error(`Failed to load documents: ${response.status}`);
+        const { documents } = await response.json();
+        setDocuments(documents);
+    }, [asset.id]);
+
+    useEffect(() => {
+        loadDocuments().catch((loadError) => console.error('[AssetDocuments] Failed to load documents:', loadError));
+    }, [loadDocuments]);
+
+    // Poll while extraction runs, then pick up the fields it copied onto the item
+    const extracting = documents.some(isExtracting);
+    useEffect(() => {
+        if (!extracting) {
+            if (wasExtractingRef.current) {
+                wasExtractingRef.current = false;
+                createClient()
+                    .from('assets')
+                    .select('purchase_merchant, purchase_date, purchase_price, serial_number, model_number, estimated_value, value_source')
+                    .eq('id', asset.id)
+                    .single()
+                    .then(({ data }) => {
+                        if (data) onAssetUpdate({ ...asset, ...data });
+                    });
+            }
+            return;
+        }
+        wasExtractingRef.current = true;
+        const timer = setInterval(() => {
+            loadDocuments().catch((loadError) => console.error('[AssetDocuments] Failed to refresh documents:', loadError));
+        }, POLL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [extracting, loadDocuments, asset, onAssetUpdate]);
+
+    const handleFileSelected = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        if (!(ACCEPTED_DOCUMENT_TYPES as readonly string[]).includes(file.type)) {
+            setError('Attach a PDF, JPEG, PNG or WebP file.');
+            return;
+        }
+        if (file.size > MAX_DOCUMENT_BYTES) {
+            setError(`Files must be smaller than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`);
+            return;
+        }
+
+        setIsUploading(true);
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('asset_id', asset.id);
+            formData.append('kind', kind);
+            const response = await fetch('/api/documents', { method: 'POST', body: formData });
+            if (!response.ok) {
+                const body = await response.json().catch(() => ({}));
+                throw new Error(body.error || `Upload failed: ${response.status}`);
+            }
+            const { document } = await response.json();
+            setDocuments((current) => [...current, document]);
+        } catch (uploadError: unknown) {
+            console.error('[AssetDocuments] Error attaching document:', uploadError);
+            setError(uploadError instanceof Error ? uploadError.message : 'Upload failed');
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const handleRetry = async (documentId: string) => {
+        setError(null);
+        const response = await fetch(`/api/documents?id=${documentId}`, { method: 'PATCH' });
+        if (!response.ok) {
+            setError('Could not restart extraction.');
+            return;
+        }
+        const { document } = await response.json();
+        setDocuments((current) => current.map((existing) => existing.id === documentId ? { ...existing, ...document } : existing));
+    };
+
+    const handleDelete = async (documentId: string) => {
+        setError(null);
+        const response = await fetch(`/api/documents?id=${documentId}`, { method: 'DELETE' });
+        if (!response.ok) {
+            setError('Could not remove the document.');
+            return;
+        }
+        setDocuments((current) => current.filter((document) => document.id !== documentId));
+    };
+
+    const handleFieldBlur = async (key: keyof OwnershipFields) => {
+        const value = fields[key].trim() || null;
+        if (value === (asset[key] ?? null)) return;
+        const { error: updateError } = await createClient()
+            .from('assets')
+            .update({ [key]: value })
+            .eq('id', asset.id);
+        if (updateError) {
+            console.error('[AssetDocuments] Error saving field:', updateError);
+            setError(`Save failed: ${updateError.message}`);
+            return;
+        }
+        onAssetUpdate({ ...asset, [key]: value });
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm font-medium">Proof of Ownership</p>
+            {OWNERSHIP_FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                    <Label htmlFor={`asset-${key}-${asset.id}`}>{label}</Label>
+                    <Input
+                        id={`asset-${key}-${asset.id}`}
+                        value={fields[key]}
+                        onChange={(e) => setFields((current) => ({ ...current, [key]: e.target.value }))}
+                        onBlur={() => handleFieldBlur(key)}
+                        placeholder={placeholder}
+                        className="mt-1"
+                    />
+                </div>
+            ))}
+
+            {documents.length > 0 && (
+                <ul className="space-y-2 text-sm">
+                    {documents.map(document => (
+                        <li key={document.id} className="rounded border p-2">
+                            <div className="flex justify-between gap-2">
+                                <a href={document.download_url} target="_blank" rel="noopener noreferrer" className="truncate underline">
+                                    {DOCUMENT_KIND_LABELS[document.kind]}: {document.file_name}
+                                </a>
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(document.id)}
+                                    className="text-xs text-muted-foreground hover:text-red-500"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                {isExtracting(document) && 'Reading document...'}
+                                {document.extraction_status === 'completed' &&
+                                    describeExtraction(document.extracted_fields as ExtractedDocumentFields | null)}
+                                {document.extraction_status === 'error' && (
+                                    <>
+                                        Could not read this document.{' '}
+                                        <button type="button" onClick={() => handleRetry(document.id)} className="underline">
+                                            Try again
+                                        </button>
+                                    </>
+                                )}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex gap-2">
+                <Select value={kind} onValueChange={(value) => setKind(value as ItemDocumentKind)} disabled={isUploading}>
+                    <SelectTrigger className="w-36" aria-label="Document type">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {DOCUMENT_KINDS.map(documentKind => (
+                            <SelectItem key={documentKind} value={documentKind}>
+                                {DOCUMENT_KIND_LABELS[documentKind]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                >
+                    {isUploading ? 'Uploading...' : 'Attach Document'}
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+                    className="hidden"
+                    onChange={(e) => handleFileSelected(e.target.files?.[0])}
+                />
+            </div>
+            {error && <p className="text-sm text-red-500">Error: {error}</p>}
+        </div>
+    );
+}
@@ -81,6 +81,18 @@ export function AssetMediaDisplay({
                 />
             )}
 
+            {isItem && asset.thumbnail_url && (
+                <div className="absolute bottom-14 right-2 z-10 w-24 h-24 rounded-md overflow-hidden border-2 border-white/80 shadow-lg bg-black">
+                    <Image
+                        src={asset.thumbnail_url}
+                        alt={`Detected ${asset.name || 'item'}`}
+                        fill
+                        className="object-contain"
+                        sizes="96px"
+                    />
+                </div>
+            )}
+
             {asset.media_type === 'image' && displayThumbnailUrl && (
                 <Image
                     src={displayThumbnailUrl}
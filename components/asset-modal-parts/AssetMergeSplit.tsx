@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetWithMuxData } from '@/types/mux';
+import { createClient } from '@/utils/supabase/client';
+import { formatCurrency, formatTimestamp, parseTimestamp } from '@/utils/format';
+import { toast } from 'sonner';
+import { Merge, Plus, Split, X } from 'lucide-react';
+import type { ItemSighting } from '@/lib/items';
+
+export interface MergeCandidate {
+    id: string;
+    name: string;
+    estimated_value: number | null;
+    source_video_id?: string | null;
+    item_timestamp?: number | null;
+}
+
+interface AssetMergeSplitProps {
+    asset: AssetWithMuxData;
+    mergeCandidates: MergeCandidate[];
+    onItemsChanged: (itemIds: string[]) => void;
+}
+
+interface SplitPartDraft {
+    name: string;
+    timestamp: string;
+    value: string;
+}
+
+const AUTO_VALUE = 'auto';
+const EMPTY_PART: SplitPartDraft = { name: '', timestamp: '', value: '' };
+
+async function postItemAction(body: Record<string, unknown>) {
+    const response = await fetch('/api/items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Request failed (${response.status})`);
+    return data;
+}
+
+/**
+ * Merges duplicates into this item or splits items off it that the AI glued together, and
+ * lists the other moments the item was filmed
+ */
+export function AssetMergeSplit({ asset, mergeCandidates, onItemsChanged }: AssetMergeSplitProps) {
+    const [mode, setMode] = useState<'merge' | 'split' | null>(null);
+    const [query, setQuery] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [valueChoice, setValueChoice] = useState<string>(AUTO_VALUE);
+    const [parts, setParts] = useState<SplitPartDraft[]>([EMPTY_PART]);
+    const [sightings, setSightings] = useState<ItemSighting[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setMode(null);
+        setSelectedIds(new Set());
+        setValueChoice(AUTO_VALUE);
+        setParts([EMPTY_PART]);
+
+        let cancelled = false;
+        createClient()
+            .from('item_sightings')
+            .select('source_video_id, item_timestamp, origin_asset_id')
+            .eq('asset_id', asset.id)
+            .order('created_at', { ascending: true })
+            .then(({ data, error }) => {
+                if (error) {
+                    console.error('[AssetMergeSplit] Failed to load sightings:', error);
+                    return;
+                }
+                if (!cancelled) setSightings((data || []) as ItemSighting[]);
+            });
+        return () => { cancelled = true; };
+    }, [asset.id]);
+
+    const candidates = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return mergeCandidates
+            .filter(candidate => candidate.id !== asset.id)
+            .filter(candidate => !needle || candidate.name.toLowerCase().includes(needle))
+            // Items from the same recording are the likeliest duplicates
+            .sort((a, b) => Number(b.source_video_id === asset.source_video_id) - Number(a.source_video_id === asset.source_video_id));
+    }, [mergeCandidates, query, asset.id, asset.source_video_id]);
+
+    const selected = mergeCandidates.filter(candidate => selectedIds.has(candidate.id));
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const handleMerge = async () => {
+        if (selected.length === 0) return;
+        const names = selected.map(item => `"${item.name}"`).join(', ');
+        if (!window.confirm(`Merge ${names} into "${asset.name || 'Untitled'}"? The merged items leave the inventory.`)) return;
+
+        const chosen = valueChoice === AUTO_VALUE
+            ? undefined
+            : valueChoice === asset.id
+                ? asset.estimated_value ?? null
+                : selected.find(item => item.id === valueChoice)?.estimated_value ?? null;
+
+        setIsSaving(true);
+        try {
+            const result = await postItemAction({
+                action: 'merge',
+                targetId: asset.id,
+                itemIds: selected.map(item => item.id),
+                ...(chosen !== undefined && { estimated_value: chosen }),
+            });
+            toast.success(`Merged ${result.mergedIds.length} item${result.mergedIds.length === 1 ? '' : 's'} into "${asset.name || 'Untitled'}".`);
+            onItemsChanged([asset.id, ...result.mergedIds]);
+            setMode(null);
+            setSelectedIds(new Set());
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Failed to merge items.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const updatePart = (index: number, changes: Partial<SplitPartDraft>) => {
+        setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+    };
+
+    const handleSplit = async () => {
+        setIsSaving(true);
+        try {
+            const payload = parts.map(part => {
+                const timestamp = parseTimestamp(part.timestamp);
+                if (!part.name.trim()) throw new Error('Give each new item a name.');
+                if (timestamp === null) throw new Error(`Enter when "${part.name.trim()}" appears, e.g. 1:23.`);
+                const value = part.value.trim() ? Number(part.value) : null;
+                if (value !== null && (!Number.isFinite(value) || value < 0)) {
+                    throw new Error(`Enter a valid value for "${part.name.trim()}".`);
+                }
+                return { name: part.name.trim(), item_timestamp: timestamp, estimated_value: value };
+            });
+
+            const result = await postItemAction({ action: 'split', itemId: asset.id, parts: payload });
+            toast.success(`Split ${result.createdIds.length} item${result.createdIds.length === 1 ? '' : 's'} off "${asset.name || 'Untitled'}".`);
+            onItemsChanged([asset.id, ...result.createdIds]);
+            setMode(null);
+            setParts([EMPTY_PART]);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Failed to split item.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <Label>Duplicates</Label>
+                <div className="flex gap-2">
+                    <Button type="button" size="sm" variant={mode === 'merge' ? 'secondary' : 'outline'} onClick={() => setMode(mode === 'merge' ? null : 'merge')}>
+                        <Merge className="mr-1 h-4 w-4" /> Merge
+                    </Button>
+                    {asset.source_video_id && (
+                        <Button type="button" size="sm" variant={mode === 'split' ? 'secondary' : 'outline'} onClick={() => setMode(mode === 'split' ? null : 'split')}>
+                            <Split className="mr-1 h-4 w-4" /> Split
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {sightings.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                    Also filmed at{' '}
+                    {sightings.map((sighting, index) => (
+                        <span key={`${sighting.source_video_id}-${sighting.item_timestamp}`}>
+                            {index > 0 && ', '}
+                            {sighting.item_timestamp != null ? formatTimestamp(sighting.item_timestamp) : 'an unknown time'}
+                            {sighting.source_video_id !== asset.source_video_id && ' in another recording'}
+                        </span>
+                    ))}
+                </p>
+            )}
+
+            {asset.last_seen_at && (
+                <p className="text-sm text-muted-foreground">
+                    Last seen in a recording of {new Date(asset.last_seen_at).toLocaleDateString()}
+                </p>
+            )}
+
+            {mode === 'merge' && (
+                <div className="space-y-2 rounded-md border p-3">
+                    <p className="text-sm text-muted-foreground">
+                        Pick the duplicates of this item. Their descriptions, tags and moments in the recordings are kept here.
+                    </p>
+                    <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Find items" />
+                    <div className="max-h-40 space-y-1 overflow-y-auto">
+                        {candidates.length === 0 && <p className="text-sm text-muted-foreground">No other items.</p>}
+                        {candidates.map(candidate => (
+                            <label key={candidate.id} className="flex cursor-pointer items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.has(candidate.id)}
+                                    onChange={() => toggleSelected(candidate.id)}
+                                />
+                                <span className="min-w-0 flex-1 truncate">{candidate.name}</span>
+                                {candidate.estimated_value != null && (
+                                    <span className="text-muted-foreground">{formatCurrency(candidate.estimated_value)}</span>
+                                )}
+                            </label>
+                        ))}
+                    </div>
+                    {selected.length > 0 && (
+                        <div>
+                            <Label htmlFor={`merge-value-${asset.id}`}>Value to keep</Label>
+                            <Select value={valueChoice} onValueChange={setValueChoice}>
+                                <SelectTrigger id={`merge-value-${asset.id}`} className="mt-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={AUTO_VALUE}>This item&apos;s value, or the highest</SelectItem>
+                                    {[{ id: asset.id, name: asset.name || 'Untitled', estimated_value: asset.estimated_value ?? null }, ...selected]
+                                        .filter(item => item.estimated_value != null)
+                                        .map(item => (
+                                            <SelectItem key={item.id} value={item.id}>
+                                                {formatCurrency(item.estimated_value!)} ({item.name})
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <Button type="button" size="sm" onClick={handleMerge} disabled={isSaving || selected.length === 0}>
+                        {isSaving ? 'Merging...' : `Merge ${selected.length || ''} into this item`}
+                    </Button>
+                </div>
+            )}
+
+            {mode === 'split' && (
+                <div className="space-y-2 rounded-md border p-3">
+                    <p className="text-sm text-muted-foreground">
+                        Add each other item this one covers and when it appears in the recording. This item stays as it is.
+                    </p>
+                    {parts.map((part, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <Input
+                                value={part.name}
+                                onChange={(e) => updatePart(index, { name: e.target.value })}
+                                placeholder="Name"
+                                className="min-w-0 flex-1"
+                            />
+                            <Input
+                                value={part.timestamp}
+                                onChange={(e) => updatePart(index, { timestamp: e.target.value })}
+                                placeholder={asset.item_timestamp != null ? formatTimestamp(asset.item_timestamp) : '0:00'}
+                                className="w-20"
+                                aria-label="Time in the recording"
+                            />
+                            <Input
+                                value={part.value}
+                                onChange={(e) => updatePart(index, { value: e.target.value })}
+                                placeholder="Value"
+                                inputMode="decimal"
+                                className="w-24"
+                            />
+                            {parts.length > 1 && (
+                                <Button type="button" size="icon" variant="ghost" onClick={() => setParts(prev => prev.filter((_, i) => i !== index))}>
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setParts(prev => [...prev, EMPTY_PART])}>
+                            <Plus className="mr-1 h-4 w-4" /> Add item
+                        </Button>
+                        <Button type="button" size="sm" onClick={handleSplit} disabled={isSaving}>
+                            {isSaving ? 'Splitting...' : 'Split'}
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -7,7 +7,7 @@ import { DialogTitle, DialogDescription, DialogHeader, DialogClose } from "@/com
 interface AssetModalHeaderProps {
     assetName: string | null | undefined;
     isDeleting: boolean;
-    onDelete: () => void;
+    onDelete?: () => void; // Omitted for viewers, who cannot delete
     onDownload: () => void;
     onClose: () => void;
     hasMuxData: boolean; // To disable download for Mux videos for now
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetWithMuxData } from '@/types/mux';
+import { createClient } from '@/utils/supabase/client';
+import { memberLabel, type HouseholdMember } from '@/lib/households/roles';
+
+interface AssetOwnerSelectorProps {
+    asset: AssetWithMuxData;
+    members: HouseholdMember[];
+    onAssetUpdate: (updatedAsset: AssetWithMuxData) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Which household member an item belongs to, so roommates can keep their belongings apart
+ * for separate policies
+ */
+export function AssetOwnerSelector({
+    asset: initialAsset,
+    members,
+    onAssetUpdate,
+    disabled,
+}: AssetOwnerSelectorProps) {
+    const supabase = createClient();
+    const [ownerId, setOwnerId] = useState<string>(initialAsset.user_id);
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [updateError, setUpdateError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setOwnerId(initialAsset.user_id);
+    }, [initialAsset.user_id]);
+
+    // Items of members who have left keep their owner until someone reassigns them
+    const isFormerMember = !members.some(member => member.user_id === initialAsset.user_id);
+
+    const handleUpdateOwner = async (newOwnerId: string) => {
+        if (newOwnerId === initialAsset.user_id) return;
+
+        setIsUpdating(true);
+        setUpdateError(null);
+        try {
+            const { error } = await supabase
+                .from('assets')
+                .update({ user_id: newOwnerId })
+                .eq('id', initialAsset.id);
+            if (error) throw error;
+
+            setOwnerId(newOwnerId);
+            onAssetUpdate({ ...initialAsset, user_id: newOwnerId });
+        } catch (error: unknown) {
+            console.error('[AssetOwnerSelector] Failed to update owner:', error);
+            setUpdateError(error instanceof Error ? error.message : 'Failed to update owner.');
+            setOwnerId(initialAsset.user_id);
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    return (
+        <div>
+            <Label htmlFor={`owner-select-${initialAsset.id}`}>Owned by</Label>
+            <Select
+                value={ownerId}
+                onValueChange={handleUpdateOwner}
+                disabled={disabled || isUpdating}
+            >
+                <SelectTrigger id={`owner-select-${initialAsset.id}`} className="mt-1">
+                    <SelectValue placeholder="Select a member" />
+                </SelectTrigger>
+                <SelectContent>
+                    {isFormerMember && (
+                        <SelectItem value={initialAsset.user_id} disabled>{memberLabel(null)}</SelectItem>
+                    )}
+                    {members.map(member => (
+                        <SelectItem key={member.user_id} value={member.user_id}>
+                            {memberLabel(member)}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {isUpdating && <p className="text-sm text-muted-foreground mt-1">Updating owner...</p>}
+            {updateError && <p className="text-sm text-red-500 mt-1">Error: {updateError}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssetWithMuxData } from '@/types/mux';
+import { createClient } from '@/utils/supabase/client';
+import { formatCurrency } from '@/utils/format';
+import {
+    DEFAULT_DEPRECIATION_RULES,
+    DepreciationRules,
+    getActualCashValue,
+    getReplacementCost,
+    ITEM_CATEGORIES,
+    ITEM_CATEGORY_LABELS,
+    listValuations,
+    Valuation,
+    VALUATION_SOURCE_LABELS,
+} from '@/lib/valuation';
+
+interface AssetValuationProps {
+    asset: AssetWithMuxData;
+    onAssetUpdate: (updatedAsset: AssetWithMuxData) => void;
+    depreciationRules?: DepreciationRules;
+}
+
+type ValuationFields = {
+    category?: string | null;
+    purchase_date?: string | null;
+    purchase_price?: number | null;
+};
+
+/**
+ * Purchase details, category and the resulting actual cash value of an item, plus the
+ * history of its estimated value
+ */
+export function AssetValuation({
+    asset,
+    onAssetUpdate,
+    depreciationRules = DEFAULT_DEPRECIATION_RULES
+}: AssetValuationProps) {
+    const supabase = createClient();
+
+    const [purchaseDate, setPurchaseDate] = useState(asset.purchase_date ?? '');
+    const [purchasePrice, setPurchasePrice] = useState(asset.purchase_price != null ? String(asset.purchase_price) : '');
+    const [history, setHistory] = useState<Valuation[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setPurchaseDate(asset.purchase_date ?? '');
+        setPurchasePrice(asset.purchase_price != null ? String(asset.purchase_price) : '');
+    }, [asset.purchase_date, asset.purchase_price]);
+
+    // Reload the history whenever the value changes, since the database records each change
+    useEffect(() => {
+        listValuations(createClient(), asset.id)
+            .then(setHistory)
+            .catch((error) => console.error('[AssetValuation] Failed to load valuation history:', error));
+    }, [asset.id, asset.estimated_value]);
+
+    const saveFields = async (fields: ValuationFields) => {
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const { error } = await supabase
+                .from('assets')
+                .update(fields)
+                .eq('id', asset.id);
+            if (error) throw error;
+            onAssetUpdate({ ...asset, ...fields });
+        } catch (error: unknown) {
+            console.error('[AssetValuation] Error saving valuation details:', error);
+            setSaveError(`Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePurchasePriceBlur = () => {
+        const price = purchasePrice.trim() === '' ? null : parseFloat(purchasePrice);
+        if (price !== null && (isNaN(price) || price < 0)) {
+            setSaveError('Invalid purchase price. Must be a non-negative number.');
+            return;
+        }
+        if (price !== (asset.purchase_price ?? null)) {
+            saveFields({ purchase_price: price });
+        }
+    };
+
+    const handlePurchaseDateChange = (value: string) => {
+        setPurchaseDate(value);
+        if ((value || null) !== (asset.purchase_date ?? null)) {
+            saveFields({ purchase_date: value || null });
+        }
+    };
+
+    const replacementCost = getReplacementCost(asset);
+    const actualCashValue = getActualCashValue(asset, depreciationRules);
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <Label htmlFor={`asset-category-${asset.id}`}>Category</Label>
+                <Select
+                    value={asset.category ?? 'none'}
+                    onValueChange={(value) => saveFields({ category: value === 'none' ? null : value })}
+                    disabled={isSaving}
+                >
+                    <SelectTrigger id={`asset-category-${asset.id}`} className="mt-1">
+                        <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="none">Uncategorized</SelectItem>
+                        {ITEM_CATEGORIES.map(category => (
+                            <SelectItem key={category} value={category}>
+                                {ITEM_CATEGORY_LABELS[category]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <Label htmlFor={`asset-purchase-date-${asset.id}`}>Purchase Date</Label>
+                    <Input
+                        id={`asset-purchase-date-${asset.id}`}
+                        type="date"
+                        value={purchaseDate}
+                        onChange={(e) => handlePurchaseDateChange(e.target.value)}
+                        className="mt-1"
+                    />
+                </div>
+                <div>
+                    <Label htmlFor={`asset-purchase-price-${asset.id}`}>Purchase Price ($)</Label>
+                    <Input
+                        id={`asset-purchase-price-${asset.id}`}
+                        type="number"
+                        min="0"
+                        value={purchasePrice}
+                        onChange={(e) => setPurchasePrice(e.target.value)}
+                        onBlur={handlePurchasePriceBlur}
+                        placeholder="e.g., 120.00"
+                        className="mt-1"
+                    />
+                </div>
+            </div>
+            {replacementCost != null && (
+                <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Actual cash value</span>
+                    <span className="font-medium">{actualCashValue != null ? formatCurrency(actualCashValue) : '—'}</span>
+                </div>
+            )}
+            {history.length > 0 && (
+                <div>
+                    <p className="text-sm font-medium mb-1">Value History</p>
+                    <ul className="space-y-1 text-xs text-muted-foreground">
+                        {history.map(entry => (
+                            <li key={entry.id} className="flex justify-between gap-2">
+                                <span>{new Date(entry.created_at).toLocaleDateString()} · {VALUATION_SOURCE_LABELS[entry.source]}</span>
+                                <span>{entry.value != null ? formatCurrency(Number(entry.value)) : 'Cleared'}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {isSaving && <p className="text-sm text-muted-foreground">Saving...</p>}
+            {saveError && <p className="text-sm text-red-500">Error: {saveError}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AssetWithMuxData } from '@/types/mux';
+import { fetchAssetVerification } from '@/utils/c2pa';
+import type { AssetVerification } from '@/lib/c2pa/assets';
+import type {
+    ReportIngredient,
+    ValidationSeverity,
+    ValidationStatusEntry,
+    VerificationStatus,
+} from '@/lib/c2pa/verification';
+
+interface AssetVerificationPanelProps {
+    asset: AssetWithMuxData;
+}
+
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+    valid: 'Valid',
+    untrusted: 'Valid, untrusted signer',
+    invalid: 'Tampered or damaged',
+    unsigned: 'Not signed',
+};
+
+const STATUS_CLASSES: Record<VerificationStatus, string> = {
+    valid: 'border-transparent bg-green-600 text-white',
+    untrusted: 'border-transparent bg-amber-500 text-white',
+    invalid: 'border-transparent bg-destructive text-destructive-foreground',
+    unsigned: 'text-muted-foreground',
+};
+
+const SEVERITY_CLASSES: Record<ValidationSeverity, string> = {
+    success: 'text-green-600',
+    info: 'text-muted-foreground',
+    warning: 'text-amber-600',
+    error: 'text-red-500',
+};
+
+function formatTime(value: unknown): string | null {
+    if (typeof value !== 'string' || !value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function DetailRow({ label, value }: { label: string; value: string | null | undefined }) {
+    if (!value) return null;
+    return (
+        <div className="flex justify-between gap-3 text-xs">
+            <span className="text-muted-foreground shrink-0">{label}</span>
+            <span className="text-right break-all">{value}</span>
+        </div>
+    );
+}
+
+function ValidationCodes({ entries }: { entries: ValidationStatusEntry[] }) {
+    if (entries.length === 0) return null;
+    return (
+        <ul className="space-y-1 text-xs">
+            {entries.map((entry, index) => (
+                <li key={`${entry.code}-${index}`}>
+                    <span className={`font-mono ${SEVERITY_CLASSES[entry.severity]}`}>{entry.code}</span>
+                    {entry.explanation && <span className="text-muted-foreground"> · {entry.explanation}</span>}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+function IngredientTree({ ingredients }: { ingredients: ReportIngredient[] }) {
+    if (ingredients.length === 0) return null;
+    return (
+        <ul className="space-y-1 text-xs border-l pl-3">
+            {ingredients.map((ingredient, index) => (
+                <li key={`${ingredient.manifest_label ?? ingredient.title}-${index}`} className="space-y-1">
+                    <p>
+                        {ingredient.title}
+                        <span className="text-muted-foreground">
+                            {' '}· {ingredient.relationship ?? 'ingredient'}
+                            {ingredient.format ? ` · ${ingredient.format}` : ''}
+                            {ingredient.manifest_label ? '' : ' · no manifest'}
+                        </span>
+                    </p>
+                    <ValidationCodes entries={ingredient.validation_status} />
+                    <IngredientTree ingredients={ingredient.ingredients} />
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/**
+ * C2PA verification of the file behind an asset, with the reasons for the result, who signed
+ * it, the Padlox capture details and every validation check, so an adjuster can see why the
+ * file is or isn't trusted
+ */
+export function AssetVerificationPanel({ asset }: AssetVerificationPanelProps) {
+    const [result, setResult] = useState<AssetVerification | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setResult(null);
+        setError(null);
+    }, [asset.id]);
+
+    const handleVerify = async () => {
+        setIsVerifying(true);
+        setError(null);
+        try {
+            setResult(await fetchAssetVerification(asset.id));
+        } catch (verifyError: unknown) {
+            console.error('[AssetVerificationPanel] Verification failed:', verifyError);
+            setError(verifyError instanceof Error ? verifyError.message : 'Unknown error');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const report = result?.report;
+    const manifest = report?.active_manifest;
+    const padlox = manifest?.padlox_metadata;
+    const device = padlox?.device_info && typeof padlox.device_info === 'object'
+        ? padlox.device_info as Record<string, unknown>
+        : null;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">Authenticity</p>
+                <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+                    {isVerifying ? 'Verifying...' : result ? 'Verify again' : 'Verify'}
+                </Button>
+            </div>
+
+            {!report && !error && (
+                <p className="text-xs text-muted-foreground">
+                    {asset.is_signed || asset.source_video_id
+                        ? 'Check the C2PA signature of the stored file.'
+                        : 'No C2PA signature is recorded for this asset.'}
+                </p>
+            )}
+            {error && <p className="text-sm text-red-500">Error: {error}</p>}
+
+            {report && (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className={STATUS_CLASSES[report.status]}>
+                            {STATUS_LABELS[report.status]}
+                        </Badge>
+                        {report.padlox_signer === true && <Badge variant="secondary">Padlox signer</Badge>}
+                        {report.padlox_signer === false && <Badge variant="outline">Other signer</Badge>}
+                        {result?.source === 'signed_copy' && result.verified_asset_id !== asset.id && (
+                            <span className="text-xs text-muted-foreground">Checked against the source recording</span>
+                        )}
+                    </div>
+
+                    <ul className="list-disc pl-4 space-y-1 text-xs">
+                        {report.reasons.map((reason, index) => <li key={index}>{reason}</li>)}
+                    </ul>
+
+                    {manifest && (
+                        <div className="space-y-1">
+                            <DetailRow label="Claim generator" value={manifest.claim_generator} />
+                            <DetailRow label="Signed by" value={manifest.signer?.common_name ?? manifest.signer?.issuer} />
+                            <DetailRow label="Issuer" value={manifest.signer?.issuer} />
+                            <DetailRow label="Algorithm" value={manifest.signer?.algorithm} />
+                            <DetailRow label="Signing time" value={formatTime(manifest.signer?.time) ?? 'Not timestamped'} />
+                            <DetailRow label="Manifest" value={manifest.label} />
+                            <DetailRow label="File" value={result?.file_name} />
+                        </div>
+                    )}
+
+                    {padlox && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium">Capture details</p>
+                            <DetailRow label="Captured" value={formatTime(padlox.capture_time)} />
+                            <DetailRow label="Session" value={typeof padlox.session_id === 'string' ? padlox.session_id : null} />
+                            <DetailRow label="Camera" value={typeof device?.camera_label === 'string' ? device.camera_label : null} />
+                            <DetailRow
+                                label="Resolution"
+                                value={device?.width && device?.height ? `${device.width}×${device.height}` : null}
+                            />
+                            <DetailRow label="Browser" value={typeof device?.user_agent === 'string' ? device.user_agent : null} />
+                            <DetailRow label="App version" value={typeof padlox.app_version === 'string' ? padlox.app_version : null} />
+                        </div>
+                    )}
+
+                    {manifest && manifest.assertions.length > 0 && (
+                        <details className="text-xs">
+                            <summary className="cursor-pointer font-medium">Assertions ({manifest.assertions.length})</summary>
+                            <ul className="mt-1 space-y-1">
+                                {manifest.assertions.map((assertion, index) => (
+                                    <li key={`${assertion.label}-${index}`}>
+                                        <details>
+                                            <summary className="cursor-pointer font-mono">{assertion.label}</summary>
+                                            <pre className="mt-1 max-h-40 overflow-auto rounded bg-muted p-2 text-[11px]">
+                                                {JSON.stringify(assertion.data, null, 2)}
+                                            </pre>
+                                        </details>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+
+                    {manifest && manifest.ingredients.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium">Ingredients</p>
+                            <IngredientTree ingredients={manifest.ingredients} />
+                        </div>
+                    )}
+
+                    {report.validation_status.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium">Validation checks</p>
+                            <ValidationCodes entries={report.validation_status} />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
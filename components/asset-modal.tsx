@@ -10,6 +10,13 @@ import { AssetMediaDisplay } from './asset-modal-parts/AssetMediaDisplay';
 import { AssetDetailsForm } from './asset-modal-parts/AssetDetailsForm';
 import { AssetRoomSelector } from './asset-modal-parts/AssetRoomSelector';
 import { AssetTagsManager } from './asset-modal-parts/AssetTagsManager';
+import { AssetValuation } from './asset-modal-parts/AssetValuation';
+import { AssetDocuments } from './asset-modal-parts/AssetDocuments';
+import { AssetVerificationPanel } from './asset-modal-parts/AssetVerificationPanel';
+import { AssetOwnerSelector } from './asset-modal-parts/AssetOwnerSelector';
+import { AssetMergeSplit, type MergeCandidate } from './asset-modal-parts/AssetMergeSplit';
+import type { HouseholdMember } from '@/lib/households/roles';
+import { DepreciationRules } from '@/lib/valuation';
 
 // Define Tag and Room types if not imported from a central location
 interface Tag {
@@ -32,6 +39,11 @@ interface AssetModalProps {
     availableRooms: Room[];
     availableTags: Tag[];
     onThumbnailRegenerate?: (assetId: string, newTimestamp: number) => void; // Callback to regenerate thumbnails
+    depreciationRules?: DepreciationRules; // Used to show actual cash value
+    members?: HouseholdMember[]; // Household members the item can belong to
+    canEdit?: boolean; // False for household viewers
+    mergeCandidates?: MergeCandidate[]; // Items this one can be merged with
+    onItemsChanged?: (itemIds: string[]) => void; // After a merge or split
 }
 
 export function AssetModal({
@@ -43,7 +55,12 @@ export function AssetModal({
     fetchAndUpdateAssetState,
     availableRooms,
     availableTags,
-    onThumbnailRegenerate
+    onThumbnailRegenerate,
+    depreciationRules,
+    members = [],
+    canEdit = true,
+    mergeCandidates = [],
+    onItemsChanged
 }: AssetModalProps) {
     const [asset, setAsset] = useState<AssetWithMuxData | null>(initialAsset);
     const [isDeleting, setIsDeleting] = useState(false);
@@ -219,7 +236,7 @@ export function AssetModal({
                 <AssetModalHeader
                     assetName={asset.name}
                     isDeleting={isDeleting}
-                    onDelete={handleDelete}
+                    onDelete={canEdit ? handleDelete : undefined}
                     onDownload={handleDownload}
                     onClose={onClose}
                     hasMuxData={asset.mux_asset_id ? true : false}
@@ -237,13 +254,37 @@ export function AssetModal({
                     </div>
 
                     {/* Right Column: Details, Tags, Room */}
-                    <div className="md:col-span-1 p-4 sm:p-6 space-y-4 sm:space-y-6 overflow-y-auto md:max-h-[calc(100vh-120px)]">
+                    {/* A disabled fieldset makes every control read-only for viewers; RLS enforces it */}
+                    <fieldset disabled={!canEdit} className="md:col-span-1 p-4 sm:p-6 space-y-4 sm:space-y-6 overflow-y-auto md:max-h-[calc(100vh-120px)] min-w-0">
                         <AssetDetailsForm
                             asset={asset}
                             onAssetUpdate={handleInternalAssetUpdate}
                             onTimestampUpdate={handleTimestampUpdate}
                         />
 
+                        {asset.media_type !== 'video' && (
+                            <>
+                                <hr className="my-4" />
+
+                                <AssetValuation
+                                    asset={asset}
+                                    onAssetUpdate={handleInternalAssetUpdate}
+                                    depreciationRules={depreciationRules}
+                                />
+                            </>
+                        )}
+
+                        {asset.media_type === 'item' && (
+                            <>
+                                <hr className="my-4" />
+
+                                <AssetDocuments
+                                    asset={asset}
+                                    onAssetUpdate={handleInternalAssetUpdate}
+                                />
+                            </>
+                        )}
+
                         <hr className="my-4" />
 
                         <AssetRoomSelector
@@ -261,7 +302,36 @@ export function AssetModal({
                             onAssetUpdate={handleInternalAssetUpdate}
                         />
 
-                    </div>
+                        {asset.media_type !== 'video' && members.length > 1 && (
+                            <>
+                                <hr className="my-4" />
+
+                                <AssetOwnerSelector
+                                    asset={asset}
+                                    members={members}
+                                    onAssetUpdate={handleInternalAssetUpdate}
+                                    disabled={!canEdit}
+                                />
+                            </>
+                        )}
+
+                        {asset.media_type === 'item' && canEdit && onItemsChanged && (
+                            <>
+                                <hr className="my-4" />
+
+                                <AssetMergeSplit
+                                    asset={asset}
+                                    mergeCandidates={mergeCandidates}
+                                    onItemsChanged={onItemsChanged}
+                                />
+                            </>
+                        )}
+
+                        <hr className="my-4" />
+
+                        <AssetVerificationPanel asset={asset} />
+
+                    </fieldset>
                 </div>
             </DialogContent>
         </Dialog>
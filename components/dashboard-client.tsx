@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useMemo, useEffect, useCallback } from 'react' // Added useCallback
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react' // Added useCallback
 import { useDashboardLogic } from '@/hooks/use-dashboard-logic'
 import { CameraCaptureWrapper } from './camera-capture-wrapper'
 import { MediaPreview } from './media-preview'
@@ -11,8 +11,9 @@ import { User } from '@supabase/supabase-js'
 import { DashboardHeader } from './dashboard-header'
 import { AssetGrid } from './asset-grid'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { DollarSign, Package, PlusCircle, Settings } from 'lucide-react'; // Added PlusCircle, Settings
+import { ClipboardCheck, DollarSign, Package, PlusCircle, Settings } from 'lucide-react'; // Added PlusCircle, Settings
 import { formatCurrency, formatCurrencyCompact } from '@/utils/format';
+import { DepreciationRules } from '@/lib/valuation';
 import { Button } from '@/components/ui/button'; // Added Button
 import {
     Dialog,
@@ -28,9 +29,22 @@ import { Input } from "@/components/ui/input"; // Added Input
 import { Label } from "@/components/ui/label"; // Added Label
 import { ManageTagsDialog } from './manage-tags-dialog'; // Added
 import { ManageRoomsDialog } from './manage-rooms-dialog'; // Added
+import { ShareLinksDialog } from './share-links-dialog';
+import { HouseholdDialog } from './household-dialog';
+import { PropertyDialog } from './property-dialog';
+import { SearchResults } from './search-results';
+import { ReviewQueueDialog } from './review-queue-dialog';
+import { DuplicatesDialog } from './duplicates-dialog';
+import { WalkthroughComparisonDialog } from './walkthrough-comparison-dialog';
 import { BulkActionsFab } from './bulk-actions-fab'; // Added
 import { BulkTagManagementModal } from './bulk-tag-management-modal'; // Added
 import { BulkRoomManagementModal } from './bulk-room-management-modal'; // Added
+import { toast } from 'sonner';
+import type { ImportReport } from '@/lib/inventory/transfer';
+import { canEditHousehold, memberLabel, type HouseholdMember, type HouseholdMembership } from '@/lib/households/roles';
+import type { Property } from '@/lib/properties';
+import type { InventoryTotals } from '@/lib/valuation';
+import type { SearchResult } from '@/lib/search';
 
 // Basic types for Tag and Room - ideally these would come from a shared types file
 interface Tag {
@@ -50,13 +64,29 @@ type DashboardClientProps = {
     user: User;
     initialTotalItems: number;
     initialTotalValue: number;
+    initialTotalActualCashValue: number;
+    depreciationRules?: DepreciationRules;
+    household: HouseholdMembership;
+    households: HouseholdMembership[];
+    initialMembers: HouseholdMember[];
+    property: Property;
+    properties: Property[];
+    propertyTotals: Record<string, InventoryTotals>;
 }
 
 export function DashboardClient({
     initialAssets,
     user,
     initialTotalItems,
-    initialTotalValue
+    initialTotalValue,
+    initialTotalActualCashValue,
+    depreciationRules,
+    household,
+    households,
+    initialMembers,
+    property,
+    properties: initialProperties,
+    propertyTotals
 }: DashboardClientProps) {
     const {
         showCamera,
@@ -86,6 +116,7 @@ export function DashboardClient({
         handleCloseAssetModal,
         totalItems,
         totalValue,
+        totalActualCashValue,
         handleAssetDeletedFromModal,
         processClientSideAssetUpdate,
         fetchAndUpdateAssetState,
@@ -94,17 +125,28 @@ export function DashboardClient({
     } = useDashboardLogic({
         initialAssets,
         user,
+        householdId: household.id,
+        propertyId: property.id,
         initialTotalItems,
-        initialTotalValue
+        initialTotalValue,
+        initialTotalActualCashValue,
+        depreciationRules
     });
 
     const logicSelectedAsset = selectedAsset; // Assign to a new variable for logging
 
     const [searchTerm, setSearchTerm] = useState('');
+    // Server results for searchTerm; null until they arrive (or if search failed), in which
+    // case the loaded assets are filtered locally
+    const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
     const [userTags, setUserTags] = useState<Tag[]>([]);
     const [userRooms, setUserRooms] = useState<Room[]>([]);
     const [selectedRoomId, setSelectedRoomId] = useState<string>(""); // "" for All Rooms
     const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+    const [selectedOwnerId, setSelectedOwnerId] = useState<string>(""); // "" for everyone
+    const [members, setMembers] = useState<HouseholdMember[]>(initialMembers);
+    const canEdit = canEditHousehold(household.role);
 
     // State for "Create Tag" dialog
     const [isCreateTagDialogOpen, setIsCreateTagDialogOpen] = useState(false);
@@ -121,6 +163,13 @@ export function DashboardClient({
     // State for management dialogs
     const [isManageTagsDialogOpen, setIsManageTagsDialogOpen] = useState(false);
     const [isManageRoomsDialogOpen, setIsManageRoomsDialogOpen] = useState(false);
+    const [isShareLinksDialogOpen, setIsShareLinksDialogOpen] = useState(false);
+    const [isHouseholdDialogOpen, setIsHouseholdDialogOpen] = useState(false);
+    const [isPropertyDialogOpen, setIsPropertyDialogOpen] = useState(false);
+    const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+    const [isDuplicatesDialogOpen, setIsDuplicatesDialogOpen] = useState(false);
+    const [isComparisonDialogOpen, setIsComparisonDialogOpen] = useState(false);
+    const [properties, setProperties] = useState<Property[]>(initialProperties);
 
     // State for bulk management modals
     const [isBulkTagModalOpen, setIsBulkTagModalOpen] = useState(false);
@@ -129,6 +178,13 @@ export function DashboardClient({
     // State for mobile filter toggle
     const [showFilters, setShowFilters] = useState(false);
 
+    // State for claim report generation
+    const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+
+    // State for spreadsheet import
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
     const fetchUserTagsAndRooms = async () => {
         try {
             const [tagsResponse, roomsResponse] = await Promise.all([
@@ -162,6 +218,108 @@ export function DashboardClient({
         fetchUserTagsAndRooms();
     }, []);
 
+    // Downloads a generated file (report or export) from an API route
+    const downloadFromApi = async (url: string, fallbackFileName: string) => {
+        const response = await fetch(url);
+        if (!response.ok) {
+            const result = await response.json().catch(() => ({}));
+            throw new Error(result.error || `Download failed (status: ${response.status})`);
+        }
+
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const fileName = disposition.match(/filename="(.+)"/)?.[1] || fallbackFileName;
+        const blob = await response.blob();
+        const objectUrl = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = objectUrl;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(objectUrl);
+    };
+
+    const handleGenerateClaimReport = async () => {
+        setIsGeneratingReport(true);
+        try {
+            await downloadFromApi('/api/reports/claim', 'padlox-claim-report.pdf');
+        } catch (error: unknown) {
+            console.error('Error generating claim report:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to generate claim report');
+        } finally {
+            setIsGeneratingReport(false);
+        }
+    };
+
+    const handleExportAuditLog = async () => {
+        setIsGeneratingReport(true);
+        try {
+            await downloadFromApi('/api/audit/export', 'padlox-audit-log.json');
+        } catch (error: unknown) {
+            console.error('Error exporting audit log:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to export audit log');
+        } finally {
+            setIsGeneratingReport(false);
+        }
+    };
+
+    const handleExportSpreadsheet = async (format: 'csv' | 'xlsx') => {
+        setIsGeneratingReport(true);
+        try {
+            await downloadFromApi(`/api/inventory/export?format=${format}`, `padlox-inventory.${format}`);
+        } catch (error: unknown) {
+            console.error('Error exporting inventory:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to export inventory');
+        } finally {
+            setIsGeneratingReport(false);
+        }
+    };
+
+    const handleImportFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-selecting the same file after fixing errors
+        if (!file) return;
+
+        setIsImporting(true);
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            const response = await fetch('/api/inventory/import', { method: 'POST', body: formData });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to import spreadsheet (status: ${response.status})`);
+            }
+
+            const report = result as ImportReport;
+            // Pull imported rows (with their rooms and tags) into local state
+            await Promise.all(
+                report.rows
+                    .filter(row => row.asset_id)
+                    .map(row => fetchAndUpdateAssetState(row.asset_id!))
+            );
+            await fetchUserTagsAndRooms();
+
+            if (report.failed > 0) {
+                const firstErrors = report.rows
+                    .filter(row => row.status === 'error')
+                    .slice(0, 3)
+                    .map(row => `Row ${row.row}: ${row.errors?.join(', ')}`)
+                    .join('\n');
+                console.warn('Inventory import row errors:', report.rows.filter(row => row.status === 'error'));
+                toast.warning(`Imported ${report.created + report.updated} of ${report.total} rows; ${report.failed} failed`, {
+                    description: firstErrors,
+                });
+            } else {
+                toast.success(`Imported ${report.total} rows (${report.created} new, ${report.updated} updated)`);
+            }
+        } catch (error: unknown) {
+            console.error('Error importing inventory:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to import spreadsheet');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const handleRoomChange = (roomId: string) => {
         setSelectedRoomId(roomId);
     };
@@ -177,6 +335,7 @@ export function DashboardClient({
     const clearAllFilters = () => {
         setSelectedRoomId("");
         setSelectedTagIds([]);
+        setSelectedOwnerId("");
     };
 
     const handleCreateTag = async () => {
@@ -275,17 +434,111 @@ export function DashboardClient({
         }
     }, [selectedRoomId, setSelectedRoomId]); // Added assets and setSelectedRoomId
 
+    // Search the whole property on the server once typing pauses
+    useEffect(() => {
+        const query = searchTerm.trim();
+        setSearchResults(null);
+        if (query.length < 2) {
+            setIsSearching(false);
+            return;
+        }
+
+        const controller = new AbortController();
+        setIsSearching(true);
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal });
+                const result = await response.json();
+                if (!response.ok) {
+                    throw new Error(result.error || `Search failed (status: ${response.status})`);
+                }
+                setSearchResults(result.results || []);
+            } catch (error: unknown) {
+                if (controller.signal.aborted) return;
+                console.error('[DashboardClient] Search failed, filtering loaded assets instead:', error);
+            } finally {
+                if (!controller.signal.aborted) setIsSearching(false);
+            }
+        }, 300);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [searchTerm]);
+
+    const handleOpenSearchResult = useCallback((result: SearchResult, event: React.MouseEvent) => {
+        const asset = assets.find(a => a.id === result.assetId);
+        if (!asset) {
+            toast.error('This item is no longer in the inventory.');
+            return;
+        }
+        handleAssetClick(asset, event);
+    }, [assets, handleAssetClick]);
+
+    // Opens the recording at the spoken moment; the modal's player starts at item_timestamp
+    const handlePlaySearchHit = useCallback((result: SearchResult, timestamp: number, event: React.MouseEvent) => {
+        const asset = assets.find(a => a.id === result.assetId);
+        if (!asset) {
+            toast.error('This recording is no longer in the inventory.');
+            return;
+        }
+        handleAssetClick({ ...asset, item_timestamp: timestamp }, event);
+    }, [assets, handleAssetClick]);
+
+    // AI proposals wait in the review queue until accepted
+    const pendingReviewCount = useMemo(
+        () => assets.filter(asset => asset.review_status === 'pending').length,
+        [assets]
+    );
+
+    const reviewMergeTargets = useMemo(() => assets
+        .filter(asset => asset.media_type === 'item' && (asset.review_status ?? 'accepted') === 'accepted')
+        .map(asset => ({ id: asset.id, name: asset.name || 'Untitled', source_video_id: asset.source_video_id })),
+    [assets]);
+
+    const itemMergeCandidates = useMemo(() => assets
+        .filter(asset => asset.media_type === 'item' && (asset.review_status ?? 'accepted') === 'accepted')
+        .map(asset => ({
+            id: asset.id,
+            name: asset.name || 'Untitled',
+            estimated_value: asset.estimated_value ?? null,
+            source_video_id: asset.source_video_id,
+            item_timestamp: asset.item_timestamp,
+        })),
+    [assets]);
+
+    const recordingOptions = useMemo(() => assets
+        .filter(asset => asset.media_type === 'video' && asset.is_source_video === true)
+        .map(asset => ({ id: asset.id, name: asset.name || 'Untitled recording', created_at: asset.created_at }))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [assets]);
+
+    const handleItemsChanged = useCallback((itemIds: string[]) => {
+        // Realtime delivers the status change too; refetching keeps the grid and totals in step
+        itemIds.forEach(id => fetchAndUpdateAssetState(id));
+    }, [fetchAndUpdateAssetState]);
+
     const displayedAssets = useMemo(() => {
         let filtered = assets.filter(asset => {
             // Exclude processed source videos
             if (asset.media_type === 'video' && asset.is_source_video === true && asset.is_processed === true) {
                 return false;
             }
+            // Exclude proposals awaiting review and rejected ones
+            if ((asset.review_status ?? 'accepted') !== 'accepted') {
+                return false;
+            }
             return true;
         });
 
-        // Apply search term filter
-        if (searchTerm) {
+        // Apply search: server results in rank order, or a local filter until they arrive
+        if (searchTerm && searchResults) {
+            const ranks = new Map(searchResults.map((result, index) => [result.assetId, index]));
+            filtered = filtered
+                .filter(asset => ranks.has(asset.id))
+                .sort((a, b) => (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0));
+        } else if (searchTerm) {
             const term = searchTerm.toLowerCase();
             filtered = filtered.filter(asset => {
                 const nameMatch = asset.name?.toLowerCase().includes(term);
@@ -308,8 +561,13 @@ export function DashboardClient({
             });
         }
 
+        // Apply owner filter, so roommates can see just their own belongings
+        if (selectedOwnerId) {
+            filtered = filtered.filter(asset => asset.user_id === selectedOwnerId);
+        }
+
         return filtered;
-    }, [assets, searchTerm, selectedRoomId, selectedTagIds]);
+    }, [assets, searchTerm, searchResults, selectedRoomId, selectedTagIds, selectedOwnerId]);
 
     const renderActiveUploads = () => {
         const uploads = Object.values(activeUploads);
@@ -372,6 +630,24 @@ export function DashboardClient({
         }
     }, [assets, fetchThumbnailToken, setThumbnailTokens]);
 
+    // The dashboard loads one property's inventory, so switching reloads the page
+    const handleSwitchProperty = async (propertyId: string) => {
+        try {
+            const response = await fetch('/api/properties/active', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ propertyId }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to switch property (status: ${response.status})`);
+            }
+            window.location.reload();
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not switch property.');
+        }
+    };
+
     return (
         <div className="min-h-screen flex flex-col">
             <NavBar />
@@ -388,6 +664,30 @@ export function DashboardClient({
                     onSearchChange={setSearchTerm}
                     onOpenBulkTagModal={() => setIsBulkTagModalOpen(true)}
                     onOpenBulkRoomModal={() => setIsBulkRoomModalOpen(true)}
+                    onGenerateClaimReport={handleGenerateClaimReport}
+                    onExportAuditLog={handleExportAuditLog}
+                    onOpenShareLinks={() => setIsShareLinksDialogOpen(true)}
+                    isGeneratingReport={isGeneratingReport}
+                    onExportSpreadsheet={handleExportSpreadsheet}
+                    onImportSpreadsheet={() => importInputRef.current?.click()}
+                    isImporting={isImporting}
+                    householdName={household.name}
+                    canEdit={canEdit}
+                    onOpenHousehold={() => setIsHouseholdDialogOpen(true)}
+                    properties={properties}
+                    activePropertyId={property.id}
+                    propertyTotals={{ ...propertyTotals, [property.id]: { totalItems, totalValue, totalActualCashValue } }}
+                    onSwitchProperty={handleSwitchProperty}
+                    onManageProperties={() => setIsPropertyDialogOpen(true)}
+                    onFindDuplicates={() => setIsDuplicatesDialogOpen(true)}
+                    onCompareWalkthroughs={() => setIsComparisonDialogOpen(true)}
+                />
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={handleImportFileSelected}
                 />
 
                 {/* Filter UI Elements */}
@@ -401,8 +701,8 @@ export function DashboardClient({
                         >
                             <span>
                                 Filters
-                                {(selectedRoomId || selectedTagIds.length > 0) &&
-                                    ` (${(selectedRoomId ? 1 : 0) + selectedTagIds.length})`
+                                {(selectedRoomId || selectedTagIds.length > 0 || selectedOwnerId) &&
+                                    ` (${(selectedRoomId ? 1 : 0) + selectedTagIds.length + (selectedOwnerId ? 1 : 0)})`
                                 }
                             </span>
                             <span>{showFilters ? "↑" : "↓"}</span>
@@ -485,8 +785,38 @@ export function DashboardClient({
                             </div>
                         </div>
 
+                        {/* Owner Filter - only shown when the household is shared */}
+                        {members.length > 1 && (
+                            <div>
+                                <h3 className="text-sm font-medium text-muted-foreground mb-2">Owned by</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    <button
+                                        className={`px-3 py-1.5 rounded-full text-sm ${selectedOwnerId === ""
+                                            ? "bg-primary text-primary-foreground"
+                                            : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                                            }`}
+                                        onClick={() => setSelectedOwnerId("")}
+                                    >
+                                        Everyone
+                                    </button>
+                                    {members.map(member => (
+                                        <button
+                                            key={member.user_id}
+                                            className={`px-3 py-1.5 rounded-full text-sm ${selectedOwnerId === member.user_id
+                                                ? "bg-primary text-primary-foreground"
+                                                : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                                                }`}
+                                            onClick={() => setSelectedOwnerId(member.user_id)}
+                                        >
+                                            {member.user_id === user.id ? 'Me' : memberLabel(member)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Active Filters Display */}
-                        {(selectedRoomId !== "" || selectedTagIds.length > 0) && (
+                        {(selectedRoomId !== "" || selectedTagIds.length > 0 || selectedOwnerId !== "") && (
                             <div className="pt-2 border-t border-border">
                                 <div className="flex items-center justify-between mb-2">
                                     <h3 className="text-sm font-medium text-foreground">Active Filters</h3>
@@ -501,6 +831,19 @@ export function DashboardClient({
                                 </div>
 
                                 <div className="flex flex-wrap gap-2">
+                                    {selectedOwnerId !== "" && (
+                                        <div className="flex items-center bg-primary/20 px-2 py-1 rounded-full text-sm">
+                                            <span className="mr-1">Owned by {memberLabel(members.find(m => m.user_id === selectedOwnerId))}</span>
+                                            <button
+                                                className="text-muted-foreground hover:text-foreground"
+                                                onClick={() => setSelectedOwnerId("")}
+                                                aria-label="Remove owner filter"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    )}
+
                                     {selectedRoomId !== "" && (
                                         <div className="flex items-center bg-primary/20 px-2 py-1 rounded-full text-sm">
                                             <span className="mr-1">{userRooms.find(r => r.id === selectedRoomId)?.name}</span>
@@ -534,7 +877,7 @@ export function DashboardClient({
                         )}
 
                         {/* Create New Tag/Room Buttons */}
-                        <div className="flex flex-wrap gap-2 pt-2">
+                        {canEdit && <div className="flex flex-wrap gap-2 pt-2">
                             <Dialog open={isCreateTagDialogOpen} onOpenChange={setIsCreateTagDialogOpen}>
                                 <DialogTrigger asChild>
                                     <Button variant="outline" size="sm" className="flex items-center gap-1">
@@ -612,10 +955,21 @@ export function DashboardClient({
                             <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={() => setIsManageRoomsDialogOpen(true)}>
                                 <Settings className="h-4 w-4" /> Manage Rooms
                             </Button>
-                        </div>
+                        </div>}
                     </div>
                 </div>
 
+                {pendingReviewCount > 0 && (
+                    <div className="mt-6 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-primary/40 bg-primary/5 px-4 py-3 text-sm">
+                        <span className="flex items-center gap-2">
+                            <ClipboardCheck className="h-4 w-4 text-primary" />
+                            {pendingReviewCount} item{pendingReviewCount === 1 ? '' : 's'} found in your recordings {pendingReviewCount === 1 ? 'needs' : 'need'} review
+                            before {pendingReviewCount === 1 ? 'it counts' : 'they count'} in your inventory.
+                        </span>
+                        <Button size="sm" onClick={() => setIsReviewDialogOpen(true)}>Review</Button>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-2 md:grid-cols-2 gap-4 my-6">
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -628,13 +982,16 @@ export function DashboardClient({
                     </Card>
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                            <CardTitle className="text-sm font-medium">Total Est. Value</CardTitle>
+                            <CardTitle className="text-sm font-medium">Replacement Cost</CardTitle>
                             <DollarSign className="h-4 w-4 text-primary" />
                         </CardHeader>
                         <CardContent>
                             <div className="text-2xl font-bold" title={formatCurrency(totalValue)}>
                                 {formatCurrencyCompact(totalValue)}
                             </div>
+                            <p className="text-xs text-muted-foreground" title={formatCurrency(totalActualCashValue)}>
+                                Actual cash value {formatCurrencyCompact(totalActualCashValue)}
+                            </p>
                         </CardContent>
                     </Card>
                 </div>
@@ -656,6 +1013,16 @@ export function DashboardClient({
                     />
                 )}
 
+                {searchTerm.trim().length >= 2 && (isSearching || searchResults) && (
+                    <SearchResults
+                        query={searchTerm.trim()}
+                        results={searchResults ?? []}
+                        isSearching={isSearching}
+                        onOpenResult={handleOpenSearchResult}
+                        onPlayFrom={handlePlaySearchHit}
+                    />
+                )}
+
                 <AssetGrid
                     assets={displayedAssets}
                     selectedAssets={selectedAssets}
@@ -681,6 +1048,11 @@ export function DashboardClient({
                         availableTags={userTags}
                         availableRooms={userRooms}
                         onThumbnailRegenerate={handleThumbnailRegenerate}
+                        depreciationRules={depreciationRules}
+                        members={members}
+                        canEdit={canEdit}
+                        mergeCandidates={itemMergeCandidates}
+                        onItemsChanged={handleItemsChanged}
                     />
                 )}
 
@@ -711,6 +1083,53 @@ export function DashboardClient({
                     onRoomDeleted={handleRoomDeleted}
                 />
 
+                <ShareLinksDialog
+                    isOpen={isShareLinksDialogOpen}
+                    onOpenChange={setIsShareLinksDialogOpen}
+                    rooms={userRooms}
+                    tags={userTags}
+                />
+
+                <HouseholdDialog
+                    isOpen={isHouseholdDialogOpen}
+                    onOpenChange={setIsHouseholdDialogOpen}
+                    household={household}
+                    households={households}
+                    currentUserId={user.id}
+                    onMembersChanged={setMembers}
+                />
+
+                <ReviewQueueDialog
+                    isOpen={isReviewDialogOpen}
+                    onOpenChange={setIsReviewDialogOpen}
+                    inventoryItems={reviewMergeTargets}
+                    canEdit={canEdit}
+                    onItemsReviewed={handleItemsChanged}
+                />
+
+                <DuplicatesDialog
+                    isOpen={isDuplicatesDialogOpen}
+                    onOpenChange={setIsDuplicatesDialogOpen}
+                    canEdit={canEdit}
+                    onItemsChanged={handleItemsChanged}
+                />
+
+                <WalkthroughComparisonDialog
+                    isOpen={isComparisonDialogOpen}
+                    onOpenChange={setIsComparisonDialogOpen}
+                    recordings={recordingOptions}
+                    onDownload={downloadFromApi}
+                />
+
+                <PropertyDialog
+                    isOpen={isPropertyDialogOpen}
+                    onOpenChange={setIsPropertyDialogOpen}
+                    properties={properties}
+                    activePropertyId={property.id}
+                    canEdit={canEdit}
+                    onPropertiesChanged={setProperties}
+                />
+
                 <BulkTagManagementModal
                     isOpen={isBulkTagModalOpen}
                     onOpenChange={setIsBulkTagModalOpen}
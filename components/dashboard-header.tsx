@@ -1,9 +1,19 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import { Plus, ListFilter, Tag, Home } from 'lucide-react';
+import { Plus, ListFilter, Tag, Home, FileText, FileSpreadsheet, Upload, ChevronDown, ShieldCheck, Share2, Users, Building2, Check, Settings, Copy, GitCompare } from 'lucide-react';
 import React from 'react';
 import { Input } from "@/components/ui/input";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Property } from '@/lib/properties';
+import type { InventoryTotals } from '@/lib/valuation';
+import { formatCurrencyCompact } from '@/utils/format';
 
 interface DashboardHeaderProps {
     hasAssets: boolean;
@@ -17,6 +27,23 @@ interface DashboardHeaderProps {
     onSearchChange: (value: string) => void;
     onOpenBulkTagModal: () => void;
     onOpenBulkRoomModal: () => void;
+    onGenerateClaimReport: () => void;
+    onExportAuditLog: () => void;
+    onOpenShareLinks: () => void;
+    isGeneratingReport: boolean;
+    onExportSpreadsheet: (format: 'csv' | 'xlsx') => void;
+    onImportSpreadsheet: () => void;
+    isImporting: boolean;
+    householdName: string;
+    canEdit: boolean; // False for household viewers
+    onOpenHousehold: () => void;
+    properties: Property[];
+    activePropertyId: string;
+    propertyTotals: Record<string, InventoryTotals>;
+    onSwitchProperty: (propertyId: string) => void;
+    onManageProperties: () => void;
+    onFindDuplicates: () => void;
+    onCompareWalkthroughs: () => void;
 }
 
 export function DashboardHeader({
@@ -30,8 +57,27 @@ export function DashboardHeader({
     searchTerm,
     onSearchChange,
     onOpenBulkTagModal,
-    onOpenBulkRoomModal
+    onOpenBulkRoomModal,
+    onGenerateClaimReport,
+    onExportAuditLog,
+    onOpenShareLinks,
+    isGeneratingReport,
+    onExportSpreadsheet,
+    onImportSpreadsheet,
+    isImporting,
+    householdName,
+    canEdit,
+    onOpenHousehold,
+    properties,
+    activePropertyId,
+    propertyTotals,
+    onSwitchProperty,
+    onManageProperties,
+    onFindDuplicates,
+    onCompareWalkthroughs
 }: DashboardHeaderProps) {
+    const activeProperty = properties.find(property => property.id === activePropertyId);
+
     return (
         <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
             <div className="flex items-center gap-4">
@@ -39,6 +85,35 @@ export function DashboardHeader({
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-300">
                     Alpha
                 </span>
+                <Button variant="ghost" size="sm" onClick={onOpenHousehold} title="Household members and switching">
+                    <Users className="mr-2 h-4 w-4" /> {householdName}
+                </Button>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Switch property">
+                            <Building2 className="mr-2 h-4 w-4" /> {activeProperty?.name ?? 'Property'}
+                            <ChevronDown className="ml-1 h-4 w-4" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="min-w-[240px]">
+                        {properties.map(property => {
+                            const totals = propertyTotals[property.id];
+                            return (
+                                <DropdownMenuItem key={property.id} onClick={() => property.id !== activePropertyId && onSwitchProperty(property.id)}>
+                                    <Check className={`mr-2 h-4 w-4 ${property.id === activePropertyId ? 'opacity-100' : 'opacity-0'}`} />
+                                    <span className="flex-1 truncate">{property.name}</span>
+                                    <span className="ml-4 text-xs text-muted-foreground">
+                                        {totals ? `${totals.totalItems} items · ${formatCurrencyCompact(totals.totalValue)}` : ''}
+                                    </span>
+                                </DropdownMenuItem>
+                            );
+                        })}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={onManageProperties}>
+                            <Settings className="mr-2 h-4 w-4" /> Manage properties...
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
             </div>
 
             <div className="flex flex-col md:flex-row items-center gap-2 w-full md:w-auto">
@@ -118,22 +193,72 @@ export function DashboardHeader({
                         </>
                     ) : (
                         <>
-                            <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={onToggleSelectionMode}
-                                disabled={!hasAssets}
-                                className="col-span-1"
-                            >
-                                <ListFilter className="mr-2 h-4 w-4" /> Select
-                            </Button>
-                            <Button
-                                size="sm"
-                                onClick={onAddNewAsset}
-                                className="col-span-1"
-                            >
-                                <Plus className="mr-2 h-4 w-4" /> Add New
-                            </Button>
+                            {canEdit && (
+                                <>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={onToggleSelectionMode}
+                                        disabled={!hasAssets}
+                                        className="col-span-1"
+                                    >
+                                        <ListFilter className="mr-2 h-4 w-4" /> Select
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        onClick={onAddNewAsset}
+                                        className="col-span-1"
+                                    >
+                                        <Plus className="mr-2 h-4 w-4" /> Add New
+                                    </Button>
+                                </>
+                            )}
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={isGeneratingReport || isImporting}
+                                        className="col-span-2"
+                                    >
+                                        <FileText className="mr-2 h-4 w-4" />
+                                        {isGeneratingReport ? "Generating..." : isImporting ? "Importing..." : "Reports"}
+                                        <ChevronDown className="ml-2 h-4 w-4" />
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onClick={onGenerateClaimReport} disabled={!hasAssets}>
+                                        <FileText className="mr-2 h-4 w-4" /> Claim report (PDF)
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={onExportAuditLog} disabled={!hasAssets}>
+                                        <ShieldCheck className="mr-2 h-4 w-4" /> Audit log (JSON)
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={onOpenShareLinks} disabled={!hasAssets || !canEdit}>
+                                        <Share2 className="mr-2 h-4 w-4" /> Share with insurer...
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => onExportSpreadsheet('csv')} disabled={!hasAssets}>
+                                        <FileSpreadsheet className="mr-2 h-4 w-4" /> Export CSV
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => onExportSpreadsheet('xlsx')} disabled={!hasAssets}>
+                                        <FileSpreadsheet className="mr-2 h-4 w-4" /> Export Excel (XLSX)
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={onFindDuplicates} disabled={!hasAssets}>
+                                        <Copy className="mr-2 h-4 w-4" /> Find duplicates across recordings...
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={onCompareWalkthroughs} disabled={!hasAssets}>
+                                        <GitCompare className="mr-2 h-4 w-4" /> Compare walkthroughs...
+                                    </DropdownMenuItem>
+                                    {canEdit && (
+                                        <>
+                                            <DropdownMenuSeparator />
+                                            <DropdownMenuItem onClick={onImportSpreadsheet}>
+                                                <Upload className="mr-2 h-4 w-4" /> Import spreadsheet...
+                                            </DropdownMenuItem>
+                                        </>
+                                    )}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
                         </>
                     )}
                 </div>
@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Link2, X } from 'lucide-react';
+import { formatCurrency, formatTimestamp } from '@/utils/format';
+import type { DuplicateCandidate, DuplicatePair, DuplicateSignals } from '@/lib/items/duplicates';
+
+interface DuplicatesDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    canEdit: boolean;
+    onItemsChanged: (itemIds: string[]) => void;
+}
+
+// Signals strong enough to be worth telling the user about
+const REASONS: Array<{ signal: keyof DuplicateSignals; min: number; label: string }> = [
+    { signal: 'name', min: 0.6, label: 'Similar name' },
+    { signal: 'description', min: 0.5, label: 'Similar description' },
+    { signal: 'room', min: 1, label: 'Same room' },
+    { signal: 'value', min: 0.7, label: 'Similar value' },
+    { signal: 'visual', min: 0.6, label: 'Looks alike' },
+];
+
+function reasons(signals: DuplicateSignals): string[] {
+    return REASONS
+        .filter(({ signal, min }) => (signals[signal] ?? 0) >= min)
+        .map(({ label }) => label);
+}
+
+function ItemSummary({ item, label }: { item: DuplicateCandidate; label: string }) {
+    return (
+        <div className="flex min-w-0 flex-1 gap-3">
+            {item.thumbnail_url && (
+                <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded-md bg-black">
+                    <Image src={item.thumbnail_url} alt={item.name || 'Item'} fill className="object-contain" sizes="64px" />
+                </div>
+            )}
+            <div className="min-w-0 text-sm">
+                <p className="text-xs font-medium uppercase text-muted-foreground">{label}</p>
+                <p className="truncate font-medium">{item.name || 'Untitled'}</p>
+                <p className="text-xs text-muted-foreground">
+                    {[
+                        item.room,
+                        item.estimated_value != null ? formatCurrency(item.estimated_value) : null,
+                        item.review_status === 'pending' ? 'awaiting review' : null,
+                    ].filter(Boolean).join(' · ')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                    {item.recorded_at ? `Recorded ${new Date(item.recorded_at).toLocaleDateString()}` : 'Recording date unknown'}
+                    {item.item_timestamp != null && ` at ${formatTimestamp(item.item_timestamp)}`}
+                </p>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Offers items that look like they were filmed again in a later recording, so owners and
+ * editors can link them as one physical item or say they are different things
+ */
+export function DuplicatesDialog({ isOpen, onOpenChange, canEdit, onItemsChanged }: DuplicatesDialogProps) {
+    const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null); // newer item id of the pair being resolved
+
+    const fetchPairs = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/duplicates');
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to look for duplicates (status: ${response.status})`);
+            }
+            setPairs(result.pairs || []);
+        } catch (error: unknown) {
+            console.error('Error looking for duplicates:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not look for duplicates.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) fetchPairs();
+    }, [isOpen, fetchPairs]);
+
+    const resolve = async (pair: DuplicatePair, link: boolean) => {
+        setBusyId(pair.newer.id);
+        try {
+            const response = await fetch('/api/duplicates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(link
+                    ? { action: 'link', olderId: pair.older.id, newerId: pair.newer.id }
+                    : { action: 'dismiss', itemIds: [pair.older.id, pair.newer.id] }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Request failed (status: ${response.status})`);
+            }
+            setPairs(prev => prev.filter(other => other.newer.id !== pair.newer.id));
+            if (link) {
+                onItemsChanged([pair.older.id, pair.newer.id]);
+                toast.success(`Linked as one item: "${pair.older.name || 'Untitled'}".`);
+            }
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not save your choice.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[720px]">
+                <DialogHeader>
+                    <DialogTitle>Duplicates Across Recordings</DialogTitle>
+                    <DialogDescription>
+                        These items look like they were filmed again in a later recording. Linking keeps the earlier
+                        item and records the later recording as another sighting of it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ScrollArea className="max-h-[60vh] pr-3">
+                    {isLoading ? (
+                        <p className="py-6 text-center text-sm text-muted-foreground">Comparing recordings...</p>
+                    ) : pairs.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-muted-foreground">No likely duplicates found.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {pairs.map(pair => (
+                                <li key={`${pair.older.id}-${pair.newer.id}`} className="rounded-lg border border-border p-3">
+                                    <div className="flex flex-col gap-3 sm:flex-row">
+                                        <ItemSummary item={pair.older} label="Earlier" />
+                                        <ItemSummary item={pair.newer} label="Later" />
+                                    </div>
+                                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                                        <Badge variant="secondary" className="text-[10px] font-normal">
+                                            {Math.round(pair.score * 100)}% match
+                                        </Badge>
+                                        {reasons(pair.signals).map(reason => (
+                                            <Badge key={reason} variant="outline" className="text-[10px] font-normal">{reason}</Badge>
+                                        ))}
+                                        {canEdit && (
+                                            <>
+                                                <div className="flex-1" />
+                                                <Button variant="outline" size="sm" onClick={() => resolve(pair, false)} disabled={busyId !== null}>
+                                                    <X className="mr-1 h-3 w-3" /> Different items
+                                                </Button>
+                                                <Button size="sm" onClick={() => resolve(pair, true)} disabled={busyId !== null}>
+                                                    <Link2 className="mr-1 h-3 w-3" /> Same item
+                                                </Button>
+                                            </>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </ScrollArea>
+
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button variant="outline">Close</Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,395 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Copy, Ban, UserMinus, LogOut } from 'lucide-react';
+import {
+    canManageHousehold,
+    HOUSEHOLD_ROLE_LABELS,
+    HOUSEHOLD_ROLES,
+    memberLabel,
+    type HouseholdMember,
+    type HouseholdMembership,
+    type HouseholdRole,
+} from '@/lib/households/roles';
+import type { InvitationSummary } from '@/lib/households';
+
+interface HouseholdDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    household: HouseholdMembership;
+    households: HouseholdMembership[];
+    currentUserId: string;
+    onMembersChanged: (members: HouseholdMember[]) => void;
+}
+
+const NEW_HOUSEHOLD = 'new';
+
+/**
+ * Switches between households and, for owners, manages members, roles and invitations
+ */
+export function HouseholdDialog({
+    isOpen,
+    onOpenChange,
+    household,
+    households,
+    currentUserId,
+    onMembersChanged,
+}: HouseholdDialogProps) {
+    const isOwner = canManageHousehold(household.role);
+    const [members, setMembers] = useState<HouseholdMember[]>([]);
+    const [invitations, setInvitations] = useState<InvitationSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const [switchTarget, setSwitchTarget] = useState(household.id);
+    const [newHouseholdName, setNewHouseholdName] = useState('');
+    const [isSwitching, setIsSwitching] = useState(false);
+
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<'editor' | 'viewer'>('editor');
+    const [isInviting, setIsInviting] = useState(false);
+    const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+    const fetchMembers = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/households/members?household_id=${household.id}`);
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to load members (status: ${response.status})`);
+            }
+            setMembers(result.members || []);
+            onMembersChanged(result.members || []);
+
+            if (isOwner) {
+                const invitationsResponse = await fetch(`/api/households/invitations?household_id=${household.id}`);
+                const invitationsResult = await invitationsResponse.json();
+                if (!invitationsResponse.ok) {
+                    throw new Error(invitationsResult.error || `Failed to load invitations (status: ${invitationsResponse.status})`);
+                }
+                setInvitations(invitationsResult.invitations || []);
+            }
+        } catch (error: unknown) {
+            console.error('Error loading household members:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not load household members.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [household.id, isOwner, onMembersChanged]);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchMembers();
+        } else {
+            setInviteUrl(null);
+            setInviteEmail('');
+            setSwitchTarget(household.id);
+            setNewHouseholdName('');
+        }
+    }, [isOpen, fetchMembers, household.id]);
+
+    // The dashboard loads one household's inventory, so switching reloads the page
+    const handleSwitch = async () => {
+        setIsSwitching(true);
+        try {
+            const response = switchTarget === NEW_HOUSEHOLD
+                ? await fetch('/api/households', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: newHouseholdName }),
+                })
+                : await fetch('/api/households/active', {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ householdId: switchTarget }),
+                });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to switch household (status: ${response.status})`);
+            }
+            window.location.reload();
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not switch household.');
+            setIsSwitching(false);
+        }
+    };
+
+    const copyUrl = async (url: string) => {
+        try {
+            await navigator.clipboard.writeText(url);
+            toast.success('Invitation link copied.');
+        } catch {
+            toast.error('Could not copy the link; select it and copy it manually.');
+        }
+    };
+
+    const handleInvite = async () => {
+        setIsInviting(true);
+        try {
+            const response = await fetch('/api/households/invitations', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ householdId: household.id, email: inviteEmail.trim(), role: inviteRole }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to create invitation (status: ${response.status})`);
+            }
+            setInvitations(prev => [result.invitation, ...prev]);
+            setInviteUrl(result.url);
+            setInviteEmail('');
+            await copyUrl(result.url);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not create invitation.');
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRevokeInvitation = async (invitation: InvitationSummary) => {
+        setBusyId(invitation.id);
+        try {
+            const response = await fetch(`/api/households/invitations?household_id=${household.id}&id=${invitation.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to revoke invitation (status: ${response.status})`);
+            }
+            setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not revoke invitation.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRoleChange = async (member: HouseholdMember, role: HouseholdRole) => {
+        setBusyId(member.user_id);
+        try {
+            const response = await fetch('/api/households/members', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ householdId: household.id, memberId: member.user_id, role }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to change role (status: ${response.status})`);
+            }
+            if (member.user_id === currentUserId) {
+                // Our own permissions changed; reload so the dashboard reflects them
+                window.location.reload();
+                return;
+            }
+            await fetchMembers();
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not change role.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRemove = async (member: HouseholdMember) => {
+        const isSelf = member.user_id === currentUserId;
+        const prompt = isSelf
+            ? `Leave "${household.name}"? You will lose access to its inventory; your items stay in it.`
+            : `Remove ${memberLabel(member)} from "${household.name}"? Their items stay in the household.`;
+        if (!window.confirm(prompt)) return;
+
+        setBusyId(member.user_id);
+        try {
+            const response = await fetch(`/api/households/members?household_id=${household.id}&member_id=${member.user_id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to remove member (status: ${response.status})`);
+            }
+            if (isSelf) {
+                window.location.reload();
+                return;
+            }
+            await fetchMembers();
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not remove member.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px]">
+                <DialogHeader>
+                    <DialogTitle>{household.name}</DialogTitle>
+                    <DialogDescription>
+                        Everyone in a household shares its inventory. Owners manage members, editors can add and
+                        change items, and viewers can only look.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-1.5">
+                    <Label>Household</Label>
+                    <div className="flex gap-2">
+                        <Select value={switchTarget} onValueChange={setSwitchTarget} disabled={isSwitching}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {households.map(h => (
+                                    <SelectItem key={h.id} value={h.id}>{h.name} ({HOUSEHOLD_ROLE_LABELS[h.role]})</SelectItem>
+                                ))}
+                                <SelectItem value={NEW_HOUSEHOLD}>New household...</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            variant="outline"
+                            onClick={handleSwitch}
+                            disabled={isSwitching || switchTarget === household.id || (switchTarget === NEW_HOUSEHOLD && !newHouseholdName.trim())}
+                        >
+                            {switchTarget === NEW_HOUSEHOLD ? 'Create' : 'Switch'}
+                        </Button>
+                    </div>
+                    {switchTarget === NEW_HOUSEHOLD && (
+                        <Input
+                            value={newHouseholdName}
+                            onChange={(e) => setNewHouseholdName(e.target.value)}
+                            placeholder="e.g. Lake House"
+                            disabled={isSwitching}
+                        />
+                    )}
+                </div>
+
+                {isLoading ? (
+                    <div className="text-center text-muted-foreground py-4">Loading members...</div>
+                ) : (
+                    <ScrollArea className="max-h-[240px] pr-3">
+                        <div className="space-y-2 py-1">
+                            {members.map(member => {
+                                const isSelf = member.user_id === currentUserId;
+                                return (
+                                    <div key={member.user_id} className="flex items-center justify-between gap-2 p-2.5 border rounded-lg">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium truncate">
+                                                {memberLabel(member)}{isSelf ? ' (you)' : ''}
+                                            </p>
+                                            {member.display_name && member.email && (
+                                                <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            {isOwner ? (
+                                                <Select
+                                                    value={member.role}
+                                                    onValueChange={(role) => handleRoleChange(member, role as HouseholdRole)}
+                                                    disabled={busyId === member.user_id}
+                                                >
+                                                    <SelectTrigger className="h-8 w-[110px]"><SelectValue /></SelectTrigger>
+                                                    <SelectContent>
+                                                        {HOUSEHOLD_ROLES.map(role => (
+                                                            <SelectItem key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            ) : (
+                                                <Badge variant="secondary">{HOUSEHOLD_ROLE_LABELS[member.role]}</Badge>
+                                            )}
+                                            {(isOwner || isSelf) && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8 text-destructive hover:text-destructive"
+                                                    onClick={() => handleRemove(member)}
+                                                    disabled={busyId === member.user_id}
+                                                    title={isSelf ? 'Leave household' : 'Remove member'}
+                                                >
+                                                    {isSelf ? <LogOut className="h-4 w-4" /> : <UserMinus className="h-4 w-4" />}
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            {invitations.map(invitation => (
+                                <div key={invitation.id} className="flex items-center justify-between gap-2 p-2.5 border border-dashed rounded-lg">
+                                    <div className="min-w-0">
+                                        <p className="text-sm truncate">{invitation.email}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            Invited as {HOUSEHOLD_ROLE_LABELS[invitation.role].toLowerCase()} · expires{' '}
+                                            {new Date(invitation.expires_at).toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                                        onClick={() => handleRevokeInvitation(invitation)}
+                                        disabled={busyId === invitation.id}
+                                        title="Revoke invitation"
+                                    >
+                                        <Ban className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+
+                {isOwner && (
+                    <div className="grid gap-2">
+                        <Label htmlFor="invite-email">Invite someone</Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="invite-email"
+                                type="email"
+                                value={inviteEmail}
+                                onChange={(e) => setInviteEmail(e.target.value)}
+                                placeholder="roommate@example.com"
+                                disabled={isInviting}
+                            />
+                            <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as 'editor' | 'viewer')} disabled={isInviting}>
+                                <SelectTrigger className="w-[110px]"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="editor">Editor</SelectItem>
+                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button onClick={handleInvite} disabled={isInviting || !inviteEmail.trim()}>
+                                {isInviting ? 'Inviting...' : 'Invite'}
+                            </Button>
+                        </div>
+                        {inviteUrl && (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <Input value={inviteUrl} readOnly onFocus={(e) => e.target.select()} className="h-9 text-xs" />
+                                    <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => copyUrl(inviteUrl)} title="Copy link">
+                                        <Copy className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Send this link to them; it is not shown again. They must sign in with the invited email address.
+                                </p>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter className="mt-2">
+                    <DialogClose asChild>
+                        <Button variant="outline">Close</Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
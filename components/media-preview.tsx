@@ -8,6 +8,7 @@ import { Textarea } from './ui/textarea'
 import { Label } from './ui/label'
 import { CrossIcon } from './icons'
 import { signMediaFile } from '@/utils/c2pa'
+import { describeDevice, isSignableMimeType } from '@/lib/c2pa/metadata'
 
 interface MediaPreviewProps {
     file: File
@@ -48,13 +49,16 @@ export function MediaPreview({ file, onSave, onRetry, onCancel }: MediaPreviewPr
         try {
             let fileToUpload = file;
 
-            // Only sign photos, not videos
-            if (!isVideo) {
-                // Sign the file with C2PA
+            // Photos and MP4 videos carry a C2PA manifest; WebM cannot
+            if (isSignableMimeType(file.type)) {
                 fileToUpload = await signMediaFile(file, {
                     name: name.trim(),
                     description: description.trim() || null,
-                    estimated_value: estimatedValue ? parseFloat(estimatedValue) : null
+                    estimated_value: estimatedValue ? parseFloat(estimatedValue) : null,
+                    capture: {
+                        capture_time: new Date(file.lastModified).toISOString(),
+                        device_info: describeDevice(null, file.type)
+                    }
                 });
             }
 
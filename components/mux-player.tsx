@@ -36,9 +36,11 @@ interface MuxPlayerProps {
     title?: string;
     startTime?: number;
     itemTimestamp?: number;
+    // Token endpoint; share links use /api/share/playback, which responds the same way
+    tokenUrl?: string;
 }
 
-export function MuxPlayer({ playbackId, aspectRatio = '16/9', title, startTime, itemTimestamp }: MuxPlayerProps) {
+export function MuxPlayer({ playbackId, aspectRatio = '16/9', title, startTime, itemTimestamp, tokenUrl }: MuxPlayerProps) {
     const [tokens, setTokens] = useState<{
         playback: string | undefined;
         thumbnail: string | undefined;
@@ -68,7 +70,9 @@ export function MuxPlayer({ playbackId, aspectRatio = '16/9', title, startTime,
             setError(null);
 
             // Construct the URL, adding the itemTimestamp only if provided
-            let apiUrl = `/api/mux/token?playbackId=${playbackId}&_=${Date.now()}`;
+            let apiUrl = tokenUrl
+                ? `${tokenUrl}${tokenUrl.includes('?') ? '&' : '?'}_=${Date.now()}`
+                : `/api/mux/token?playbackId=${playbackId}&_=${Date.now()}`;
             if (itemTimestamp !== undefined && itemTimestamp !== null) {
                 apiUrl += `&time=${itemTimestamp}`;
             }
@@ -122,7 +126,7 @@ export function MuxPlayer({ playbackId, aspectRatio = '16/9', title, startTime,
         } finally {
             setLoading(false);
         }
-    }, [playbackId, retryCount, lastTokenFetchTime, itemTimestamp]);
+    }, [playbackId, retryCount, lastTokenFetchTime, itemTimestamp, tokenUrl]);
 
     // Initial fetch on mount and when retry is triggered
     useEffect(() => {
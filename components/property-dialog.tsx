@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Trash2 } from 'lucide-react';
+import type { Property } from '@/lib/properties';
+
+interface PropertyDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    properties: Property[];
+    activePropertyId: string;
+    canEdit: boolean; // False for household viewers
+    onPropertiesChanged: (properties: Property[]) => void;
+}
+
+const NEW_PROPERTY = 'new';
+
+interface PropertyForm {
+    name: string;
+    address: string;
+    insurer: string;
+    policy_number: string;
+    coverage_limit: string;
+    policy_renews_on: string;
+}
+
+function toForm(property: Property | undefined): PropertyForm {
+    return {
+        name: property?.name ?? '',
+        address: property?.address ?? '',
+        insurer: property?.insurer ?? '',
+        policy_number: property?.policy_number ?? '',
+        coverage_limit: property?.coverage_limit != null ? String(property.coverage_limit) : '',
+        policy_renews_on: property?.policy_renews_on ?? '',
+    };
+}
+
+/**
+ * Adds, edits and removes the household's properties: address and the policy covering
+ * their contents
+ */
+export function PropertyDialog({
+    isOpen,
+    onOpenChange,
+    properties,
+    activePropertyId,
+    canEdit,
+    onPropertiesChanged,
+}: PropertyDialogProps) {
+    const [selectedId, setSelectedId] = useState(activePropertyId);
+    const [form, setForm] = useState<PropertyForm>(() => toForm(properties.find(p => p.id === activePropertyId)));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedId(activePropertyId);
+        }
+    }, [isOpen, activePropertyId]);
+
+    useEffect(() => {
+        setForm(toForm(properties.find(p => p.id === selectedId)));
+    }, [selectedId, properties]);
+
+    const setField = (field: keyof PropertyForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        setForm(prev => ({ ...prev, [field]: e.target.value }));
+    };
+
+    const handleSave = async () => {
+        const coverageLimit = form.coverage_limit.trim() ? Number(form.coverage_limit) : null;
+        if (coverageLimit !== null && (!Number.isFinite(coverageLimit) || coverageLimit < 0)) {
+            toast.error('Coverage limit must be a positive amount.');
+            return;
+        }
+        const details = {
+            name: form.name.trim(),
+            address: form.address.trim() || null,
+            insurer: form.insurer.trim() || null,
+            policy_number: form.policy_number.trim() || null,
+            coverage_limit: coverageLimit,
+            policy_renews_on: form.policy_renews_on || null,
+        };
+
+        setIsSaving(true);
+        try {
+            const isNew = selectedId === NEW_PROPERTY;
+            const response = await fetch('/api/properties', {
+                method: isNew ? 'POST' : 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(isNew ? details : { propertyId: selectedId, ...details }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to save property (status: ${response.status})`);
+            }
+            const saved: Property = result.property;
+            const next = isNew
+                ? [...properties, saved]
+                : properties.map(p => p.id === saved.id ? saved : p);
+            onPropertiesChanged(next.sort((a, b) => a.name.localeCompare(b.name)));
+            setSelectedId(saved.id);
+            toast.success(isNew ? `Added "${saved.name}".` : 'Property saved.');
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not save property.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        const property = properties.find(p => p.id === selectedId);
+        if (!property) return;
+        if (!window.confirm(`Delete "${property.name}" and its rooms? It must not have any items left.`)) return;
+
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/properties?id=${property.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to delete property (status: ${response.status})`);
+            }
+            if (property.id === activePropertyId) {
+                // The dashboard was showing it; reload into another property
+                window.location.reload();
+                return;
+            }
+            onPropertiesChanged(properties.filter(p => p.id !== property.id));
+            setSelectedId(activePropertyId);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not delete property.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>Properties</DialogTitle>
+                    <DialogDescription>
+                        Keep a home, a rental and a storage unit apart. Each property has its own rooms and can
+                        record the policy covering its contents.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-1.5">
+                    <Label>Property</Label>
+                    <Select value={selectedId} onValueChange={setSelectedId} disabled={isSaving}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {properties.map(p => (
+                                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                            ))}
+                            {canEdit && <SelectItem value={NEW_PROPERTY}>New property...</SelectItem>}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <fieldset disabled={!canEdit || isSaving} className="grid gap-3 min-w-0">
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="property-name">Name</Label>
+                        <Input id="property-name" value={form.name} onChange={setField('name')} placeholder="e.g. Storage Unit" />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="property-address">Address</Label>
+                        <Input id="property-address" value={form.address} onChange={setField('address')} placeholder="Street, city, postal code" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="property-insurer">Insurer</Label>
+                            <Input id="property-insurer" value={form.insurer} onChange={setField('insurer')} />
+                        </div>
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="property-policy-number">Policy number</Label>
+                            <Input id="property-policy-number" value={form.policy_number} onChange={setField('policy_number')} />
+                        </div>
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="property-coverage-limit">Contents coverage</Label>
+                            <Input
+                                id="property-coverage-limit"
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={form.coverage_limit}
+                                onChange={setField('coverage_limit')}
+                            />
+                        </div>
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="property-renews-on">Policy renews on</Label>
+                            <Input id="property-renews-on" type="date" value={form.policy_renews_on} onChange={setField('policy_renews_on')} />
+                        </div>
+                    </div>
+                </fieldset>
+
+                <DialogFooter className="mt-2 sm:justify-between">
+                    {canEdit && selectedId !== NEW_PROPERTY && properties.length > 1 ? (
+                        <Button variant="ghost" className="text-destructive hover:text-destructive" onClick={handleDelete} disabled={isSaving}>
+                            <Trash2 className="mr-2 h-4 w-4" /> Delete
+                        </Button>
+                    ) : <span />}
+                    <div className="flex gap-2">
+                        <DialogClose asChild>
+                            <Button variant="outline">Close</Button>
+                        </DialogClose>
+                        {canEdit && (
+                            <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                                {isSaving ? 'Saving...' : selectedId === NEW_PROPERTY ? 'Add' : 'Save'}
+                            </Button>
+                        )}
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MuxPlayer } from '@/components/mux-player';
+import { toast } from 'sonner';
+import { Check, Play, X } from 'lucide-react';
+import { formatCurrency, formatTimestamp } from '@/utils/format';
+import type { PendingItem, RemergeField } from '@/lib/review';
+
+interface MergeTarget {
+    id: string;
+    name: string;
+    source_video_id?: string | null;
+}
+
+interface ReviewQueueDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    inventoryItems: MergeTarget[]; // Accepted items a proposal can be merged into
+    canEdit: boolean;
+    onItemsReviewed: (itemIds: string[]) => void;
+}
+
+interface ItemEdits {
+    name: string;
+    description: string;
+    estimated_value: string;
+}
+
+const LOW_CONFIDENCE = 0.5;
+
+const REMERGE_FIELD_LABELS: Record<RemergeField | 'room' | 'tags', string> = {
+    name: 'name',
+    description: 'description',
+    estimated_value: 'value',
+    category: 'category',
+    item_timestamp: 'timestamp',
+    room: 'room',
+    tags: 'tags',
+};
+
+function toEdits(item: PendingItem): ItemEdits {
+    return {
+        name: item.name ?? '',
+        description: item.description ?? '',
+        estimated_value: item.estimated_value != null ? String(item.estimated_value) : '',
+    };
+}
+
+function editsToUpdate(item: PendingItem, edits: ItemEdits) {
+    const value = edits.estimated_value.trim() ? Number(edits.estimated_value) : null;
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`Enter a valid value for "${edits.name || 'this item'}".`);
+    }
+    return {
+        id: item.id,
+        name: edits.name.trim(),
+        description: edits.description.trim() || null,
+        estimated_value: value,
+    };
+}
+
+function describeProvenance(item: PendingItem): string {
+    const provenance = item.ai_provenance;
+    const parts: string[] = [];
+    if (provenance?.detection_ids?.length) {
+        parts.push('seen in the video');
+    } else if (provenance) {
+        parts.push('mentioned in the narration');
+    }
+    if (provenance?.suggested_room) parts.push(`room: ${provenance.suggested_room}`);
+    if (provenance?.suggested_tags?.length) parts.push(`tags: ${provenance.suggested_tags.join(', ')}`);
+    if (provenance?.model) parts.push(provenance.model);
+    if (provenance?.remerged?.fields.length) {
+        parts.push(`updated on re-analysis: ${provenance.remerged.fields.map((field) => REMERGE_FIELD_LABELS[field]).join(', ')}`);
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Lets owners and editors accept, correct, merge or reject the items the AI proposed from a
+ * recording before they count in the inventory
+ */
+export function ReviewQueueDialog({ isOpen, onOpenChange, inventoryItems, canEdit, onItemsReviewed }: ReviewQueueDialogProps) {
+    const [items, setItems] = useState<PendingItem[]>([]);
+    const [edits, setEdits] = useState<Record<string, ItemEdits>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null); // item id, or 'all'
+    const [previewId, setPreviewId] = useState<string | null>(null);
+
+    const fetchItems = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/review');
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to load items to review (status: ${response.status})`);
+            }
+            const pending: PendingItem[] = result.items || [];
+            setItems(pending);
+            setEdits(Object.fromEntries(pending.map(item => [item.id, toEdits(item)])));
+        } catch (error: unknown) {
+            console.error('Error loading review queue:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not load items to review.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchItems();
+        } else {
+            setPreviewId(null);
+        }
+    }, [isOpen, fetchItems]);
+
+    // Proposals grouped by the recording they came from
+    const groups = useMemo(() => {
+        const byVideo = new Map<string, PendingItem[]>();
+        for (const item of items) {
+            const key = item.source_video_id ?? '';
+            byVideo.set(key, [...(byVideo.get(key) ?? []), item]);
+        }
+        return Array.from(byVideo.entries());
+    }, [items]);
+
+    const setField = (itemId: string, field: keyof ItemEdits) =>
+        (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+            setEdits(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: e.target.value } }));
+        };
+
+    const submit = async (busy: string, body: Record<string, unknown>, reviewedIds: string[], message: string) => {
+        setBusyId(busy);
+        try {
+            const response = await fetch('/api/review', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Review failed (status: ${response.status})`);
+            }
+            setItems(prev => prev.filter(item => !reviewedIds.includes(item.id)));
+            if (previewId && reviewedIds.includes(previewId)) setPreviewId(null);
+            onItemsReviewed(body.action === 'merge' ? Array.from(new Set([String(body.targetId), ...reviewedIds])) : reviewedIds);
+            toast.success(message);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not save the review.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleAccept = (item: PendingItem) => {
+        try {
+            const update = editsToUpdate(item, edits[item.id] ?? toEdits(item));
+            submit(item.id, { action: 'accept', items: [update] }, [item.id], `Added "${update.name}" to the inventory.`);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Check the item details.');
+        }
+    };
+
+    const handleAcceptAll = () => {
+        try {
+            const updates = items.map(item => editsToUpdate(item, edits[item.id] ?? toEdits(item)));
+            submit('all', { action: 'accept', items: updates }, items.map(item => item.id), `Added ${updates.length} items to the inventory.`);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Check the item details.');
+        }
+    };
+
+    const handleReject = (item: PendingItem) => {
+        submit(item.id, { action: 'reject', itemIds: [item.id] }, [item.id], `Rejected "${item.name || 'item'}".`);
+    };
+
+    const handleMerge = (item: PendingItem, targetId: string) => {
+        const pendingTarget = items.find(i => i.id === targetId);
+        const targetName = pendingTarget
+            ? edits[targetId]?.name || pendingTarget.name
+            : inventoryItems.find(i => i.id === targetId)?.name;
+        try {
+            // A pending target is accepted by the merge with its edits, so it leaves the queue too
+            const targetEdits = pendingTarget ? editsToUpdate(pendingTarget, edits[targetId] ?? toEdits(pendingTarget)) : null;
+            submit(
+                item.id,
+                {
+                    action: 'merge',
+                    targetId,
+                    itemIds: [item.id],
+                    ...(targetEdits && { edits: { name: targetEdits.name, description: targetEdits.description, estimated_value: targetEdits.estimated_value } }),
+                },
+                pendingTarget ? [item.id, targetId] : [item.id],
+                `Merged into "${targetName || 'item'}".`
+            );
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Check the item details.');
+        }
+    };
+
+    const mergeTargets = (item: PendingItem): MergeTarget[] => [
+        ...items.filter(other => other.id !== item.id).map(other => ({ id: other.id, name: edits[other.id]?.name || other.name || 'Untitled' })),
+        // Items already in the inventory from the same recording are the likeliest duplicates
+        ...inventoryItems.filter(existing => existing.source_video_id === item.source_video_id),
+    ];
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[720px]">
+                <DialogHeader>
+                    <DialogTitle>Review Items</DialogTitle>
+                    <DialogDescription>
+                        These items were found by the AI in your recordings. They are not counted in your inventory
+                        until you accept them. Correct anything it got wrong, merge duplicates and reject what is not yours.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ScrollArea className="max-h-[60vh] pr-3">
+                    {isLoading ? (
+                        <p className="py-6 text-center text-sm text-muted-foreground">Loading...</p>
+                    ) : items.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-muted-foreground">Nothing to review.</p>
+                    ) : groups.map(([videoId, groupItems]) => (
+                        <div key={videoId || 'none'} className="mb-4">
+                            <p className="mb-2 text-xs font-medium uppercase text-muted-foreground">
+                                Recording of {new Date(groupItems[0].created_at).toLocaleDateString()} · {groupItems.length} proposed
+                            </p>
+                            <ul className="space-y-3">
+                                {groupItems.map(item => {
+                                    const itemEdits = edits[item.id] ?? toEdits(item);
+                                    const isBusy = busyId === item.id || busyId === 'all';
+                                    const targets = mergeTargets(item);
+                                    return (
+                                        <li key={item.id} className="rounded-lg border border-border p-3">
+                                            <div className="flex gap-3">
+                                                {item.thumbnail_url && (
+                                                    <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded-md bg-black">
+                                                        <Image src={item.thumbnail_url} alt={item.name || 'Detected item'} fill className="object-contain" sizes="64px" />
+                                                    </div>
+                                                )}
+                                                <fieldset disabled={!canEdit || isBusy} className="grid min-w-0 flex-1 gap-2">
+                                                    <div className="flex gap-2">
+                                                        <Input value={itemEdits.name} onChange={setField(item.id, 'name')} aria-label="Name" className="h-8" />
+                                                        <Input
+                                                            type="number"
+                                                            min="0"
+                                                            step="any"
+                                                            value={itemEdits.estimated_value}
+                                                            onChange={setField(item.id, 'estimated_value')}
+                                                            aria-label="Estimated value"
+                                                            className="h-8 w-28"
+                                                        />
+                                                    </div>
+                                                    <Textarea
+                                                        value={itemEdits.description}
+                                                        onChange={setField(item.id, 'description')}
+                                                        aria-label="Description"
+                                                        rows={2}
+                                                        className="text-sm"
+                                                    />
+                                                </fieldset>
+                                            </div>
+
+                                            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                                {item.ai_confidence != null && (
+                                                    <Badge variant={item.ai_confidence < LOW_CONFIDENCE ? 'destructive' : 'secondary'} className="text-[10px] font-normal">
+                                                        {Math.round(item.ai_confidence * 100)}% confident
+                                                    </Badge>
+                                                )}
+                                                {item.estimated_value != null && itemEdits.estimated_value !== String(item.estimated_value) && (
+                                                    <span>AI estimate {formatCurrency(item.estimated_value)}</span>
+                                                )}
+                                                <span>{describeProvenance(item)}</span>
+                                            </div>
+
+                                            {previewId === item.id && item.mux_playback_id && (
+                                                <div className="mt-2 aspect-video w-full overflow-hidden rounded-md bg-black">
+                                                    <MuxPlayer
+                                                        playbackId={item.mux_playback_id}
+                                                        startTime={item.item_timestamp ?? undefined}
+                                                        itemTimestamp={item.item_timestamp ?? undefined}
+                                                    />
+                                                </div>
+                                            )}
+
+                                            <div className="mt-2 flex flex-wrap items-center gap-2">
+                                                {item.mux_playback_id && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => setPreviewId(previewId === item.id ? null : item.id)}
+                                                    >
+                                                        <Play className="mr-1 h-3 w-3" />
+                                                        {previewId === item.id ? 'Hide video' : `Preview at ${formatTimestamp(item.item_timestamp ?? 0)}`}
+                                                    </Button>
+                                                )}
+                                                {canEdit && (
+                                                    <>
+                                                        <div className="flex-1" />
+                                                        {targets.length > 0 && (
+                                                            <Select value="" onValueChange={(targetId) => handleMerge(item, targetId)} disabled={isBusy}>
+                                                                <SelectTrigger className="h-8 w-[170px] text-xs">
+                                                                    <SelectValue placeholder="Merge into..." />
+                                                                </SelectTrigger>
+                                                                <SelectContent>
+                                                                    {targets.map(target => (
+                                                                        <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+                                                                    ))}
+                                                                </SelectContent>
+                                                            </Select>
+                                                        )}
+                                                        <Button variant="outline" size="sm" onClick={() => handleReject(item)} disabled={isBusy}>
+                                                            <X className="mr-1 h-3 w-3" /> Reject
+                                                        </Button>
+                                                        <Button size="sm" onClick={() => handleAccept(item)} disabled={isBusy || !itemEdits.name.trim()}>
+                                                            <Check className="mr-1 h-3 w-3" /> Accept
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </div>
+                    ))}
+                </ScrollArea>
+
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button variant="outline">Close</Button>
+                    </DialogClose>
+                    {canEdit && items.length > 1 && (
+                        <Button onClick={handleAcceptAll} disabled={busyId !== null || items.some(item => !(edits[item.id]?.name ?? item.name ?? '').trim())}>
+                            Accept all ({items.length})
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
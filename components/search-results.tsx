@@ -0,0 +1,112 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Mic, Play } from 'lucide-react';
+import { formatTimestamp } from '@/utils/format';
+import { snippetParts, type SearchSnippet } from '@/lib/search/snippets';
+import type { SearchResult } from '@/lib/search';
+
+interface SearchResultsProps {
+    query: string;
+    results: SearchResult[];
+    isSearching: boolean;
+    onOpenResult: (result: SearchResult, event: React.MouseEvent) => void;
+    onPlayFrom: (result: SearchResult, timestamp: number, event: React.MouseEvent) => void;
+}
+
+const FIELD_LABELS: Record<SearchResult['matchedFields'][number], string> = {
+    name: 'Name',
+    description: 'Description',
+    tag: 'Tag',
+    room: 'Room',
+    transcript: 'Spoken',
+};
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+    return (
+        <>
+            {snippetParts(snippet).map((part, index) => part.highlight
+                ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                : <span key={index}>{part.text}</span>
+            )}
+        </>
+    );
+}
+
+/**
+ * Ranked server search results with highlighted snippets. Spoken mentions play the recording
+ * from the moment they were said.
+ */
+export function SearchResults({ query, results, isSearching, onOpenResult, onPlayFrom }: SearchResultsProps) {
+    if (!isSearching && results.length === 0) {
+        return (
+            <p className="mb-4 text-sm text-muted-foreground">No matches for &ldquo;{query}&rdquo;.</p>
+        );
+    }
+
+    return (
+        <div className="mb-6 rounded-lg border border-border">
+            <div className="flex items-center justify-between border-b border-border px-4 py-2 text-sm">
+                <span className="font-medium">
+                    {isSearching && results.length === 0 ? 'Searching...' : `${results.length} match${results.length === 1 ? '' : 'es'}`}
+                </span>
+                {isSearching && results.length > 0 && <span className="text-xs text-muted-foreground">Updating...</span>}
+            </div>
+            <ul className="max-h-80 divide-y divide-border overflow-y-auto">
+                {results.map(result => (
+                    <li key={result.assetId} className="px-4 py-3">
+                        <button
+                            type="button"
+                            className="w-full text-left"
+                            onClick={(event) => onOpenResult(result, event)}
+                        >
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">
+                                    {result.title ? <Highlighted snippet={result.title} /> : (result.name || (result.mediaType === 'video' ? 'Recording' : 'Untitled'))}
+                                </span>
+                                {result.matchedFields.map(field => (
+                                    <Badge key={field} variant="secondary" className="text-[10px] font-normal">
+                                        {FIELD_LABELS[field]}
+                                    </Badge>
+                                ))}
+                                {result.matchedLabels.map(label => (
+                                    <Badge key={label} variant="outline" className="text-[10px] font-normal">{label}</Badge>
+                                ))}
+                            </div>
+                            {result.snippet && (
+                                <p className="mt-1 text-sm text-muted-foreground">
+                                    <Highlighted snippet={result.snippet} />
+                                </p>
+                            )}
+                        </button>
+                        {result.transcriptHits.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                                {result.transcriptHits.map(({ timestamp, snippet }, index) => (
+                                    <li key={index} className="flex items-start gap-2 text-sm">
+                                        {timestamp !== null ? (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-6 shrink-0 px-2 text-xs"
+                                                onClick={(event) => onPlayFrom(result, timestamp, event)}
+                                                aria-label={`Play from ${formatTimestamp(timestamp)}`}
+                                            >
+                                                <Play className="mr-1 h-3 w-3" /> {formatTimestamp(timestamp)}
+                                            </Button>
+                                        ) : (
+                                            <Mic className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                                        )}
+                                        <span className="text-muted-foreground">
+                                            <Highlighted snippet={snippet} />
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
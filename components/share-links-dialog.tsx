@@ -0,0 +1,253 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Copy, Ban } from 'lucide-react';
+import type { ShareLinkStatus, ShareLinkSummary } from '@/lib/share';
+
+interface ScopeOption {
+    id: string;
+    name: string;
+}
+
+interface ShareLinksDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    rooms: ScopeOption[];
+    tags: ScopeOption[];
+}
+
+const EXPIRY_OPTIONS = [1, 7, 14, 30, 90];
+
+const STATUS_VARIANTS: Record<ShareLinkStatus, 'default' | 'secondary' | 'outline'> = {
+    active: 'default',
+    expired: 'secondary',
+    revoked: 'outline',
+};
+
+/**
+ * Creates and revokes read-only links to the inventory for insurers and adjusters
+ */
+export function ShareLinksDialog({ isOpen, onOpenChange, rooms, tags }: ShareLinksDialogProps) {
+    const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [label, setLabel] = useState('');
+    const [scope, setScope] = useState('all'); // 'all', 'room:<id>' or 'tag:<id>'
+    const [expiresInDays, setExpiresInDays] = useState('14');
+    const [isCreating, setIsCreating] = useState(false);
+    const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const fetchLinks = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/share');
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to load share links (status: ${response.status})`);
+            }
+            setLinks(result.links || []);
+        } catch (error: unknown) {
+            console.error('Error loading share links:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not load share links.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchLinks();
+        } else {
+            setCreatedUrl(null);
+            setLabel('');
+            setScope('all');
+        }
+    }, [isOpen, fetchLinks]);
+
+    const copyUrl = async (url: string) => {
+        try {
+            await navigator.clipboard.writeText(url);
+            toast.success('Link copied.');
+        } catch {
+            toast.error('Could not copy the link; select it and copy it manually.');
+        }
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const [scopeType, scopeId] = scope.split(':');
+            const response = await fetch('/api/share', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    label: label.trim() || null,
+                    roomId: scopeType === 'room' ? scopeId : null,
+                    tagId: scopeType === 'tag' ? scopeId : null,
+                    expiresInDays: Number(expiresInDays),
+                }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to create share link (status: ${response.status})`);
+            }
+            setLinks(prev => [result.link, ...prev]);
+            setCreatedUrl(result.url);
+            setLabel('');
+            await copyUrl(result.url);
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not create share link.');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (link: ShareLinkSummary) => {
+        setRevokingId(link.id);
+        try {
+            const response = await fetch(`/api/share?id=${link.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to revoke share link (status: ${response.status})`);
+            }
+            setLinks(prev => prev.map(l => l.id === link.id ? result.link : l));
+            toast.success('Link revoked.');
+        } catch (error: unknown) {
+            toast.error(error instanceof Error ? error.message : 'Could not revoke share link.');
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px]">
+                <DialogHeader>
+                    <DialogTitle>Share with Insurer</DialogTitle>
+                    <DialogDescription>
+                        Anyone with the link can view the items, values and videos you share, without an account,
+                        until it expires or you revoke it. Every visit is recorded.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-3 py-2">
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="share-label">For</Label>
+                        <Input
+                            id="share-label"
+                            value={label}
+                            onChange={(e) => setLabel(e.target.value)}
+                            placeholder="e.g. Adjuster, claim #12345"
+                            disabled={isCreating}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="grid gap-1.5">
+                            <Label>Items</Label>
+                            <Select value={scope} onValueChange={setScope} disabled={isCreating}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">Whole inventory</SelectItem>
+                                    {rooms.map(room => (
+                                        <SelectItem key={room.id} value={`room:${room.id}`}>Room: {room.name}</SelectItem>
+                                    ))}
+                                    {tags.map(tag => (
+                                        <SelectItem key={tag.id} value={`tag:${tag.id}`}>Tag: {tag.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-1.5">
+                            <Label>Expires after</Label>
+                            <Select value={expiresInDays} onValueChange={setExpiresInDays} disabled={isCreating}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {EXPIRY_OPTIONS.map(days => (
+                                        <SelectItem key={days} value={String(days)}>{days === 1 ? '1 day' : `${days} days`}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating ? 'Creating...' : 'Create link'}
+                    </Button>
+                    {createdUrl && (
+                        <div className="flex items-center gap-2">
+                            <Input value={createdUrl} readOnly onFocus={(e) => e.target.select()} className="h-9 text-xs" />
+                            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => copyUrl(createdUrl)} title="Copy link">
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    )}
+                    {createdUrl && (
+                        <p className="text-xs text-muted-foreground">Copy the link now; it is not shown again.</p>
+                    )}
+                </div>
+
+                {isLoading ? (
+                    <div className="text-center text-muted-foreground py-4">Loading links...</div>
+                ) : links.length > 0 && (
+                    <ScrollArea className="max-h-[240px] pr-3">
+                        <div className="space-y-2 py-1">
+                            {links.map(link => (
+                                <div key={link.id} className="flex items-center justify-between gap-2 p-2.5 border rounded-lg">
+                                    <div className="min-w-0 space-y-0.5">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-medium truncate">{link.label || 'Untitled link'}</span>
+                                            <Badge variant={STATUS_VARIANTS[link.status]} className="capitalize">{link.status}</Badge>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            {link.scope ? `${link.scope.type === 'room' ? 'Room' : 'Tag'}: ${link.scope.name}` : 'Whole inventory'}
+                                            {' · '}
+                                            {link.status === 'revoked' && link.revoked_at
+                                                ? `Revoked ${new Date(link.revoked_at).toLocaleDateString()}`
+                                                : `Expires ${new Date(link.expires_at).toLocaleDateString()}`}
+                                            {' · '}
+                                            {link.access_count} {link.access_count === 1 ? 'visit' : 'visits'}
+                                            {link.last_accessed_at ? `, last ${new Date(link.last_accessed_at).toLocaleString()}` : ''}
+                                        </p>
+                                    </div>
+                                    {link.status === 'active' && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                                            onClick={() => handleRevoke(link)}
+                                            disabled={revokingId === link.id}
+                                            title="Revoke link"
+                                        >
+                                            <Ban className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+
+                <DialogFooter className="mt-2">
+                    <DialogClose asChild>
+                        <Button variant="outline">Close</Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Package, DollarSign, Video, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MuxPlayer } from '@/components/mux-player';
+import { formatCurrency } from '@/utils/format';
+import type { SharedInventory, SharedItem } from '@/lib/share';
+
+interface SharedInventoryViewProps {
+    inventory: SharedInventory;
+    token: string;
+}
+
+const UNASSIGNED_ROOM = 'Unassigned';
+
+function formatDate(value: string | null): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+}
+
+function DetailRow({ label, value }: { label: string; value: string | null | undefined }) {
+    if (!value) return null;
+    return (
+        <div className="flex justify-between gap-3 text-sm">
+            <span className="text-muted-foreground shrink-0">{label}</span>
+            <span className="text-right break-all">{value}</span>
+        </div>
+    );
+}
+
+/**
+ * Read-only inventory behind a share link, for insurers and adjusters: items grouped by
+ * room with their values, and the recording each item was found in
+ */
+export function SharedInventoryView({ inventory, token }: SharedInventoryViewProps) {
+    const [selectedItem, setSelectedItem] = useState<SharedItem | null>(null);
+
+    // Alphabetical rooms, with unassigned items last, as in the claim report
+    const rooms = useMemo(() => {
+        const byRoom = new Map<string, SharedItem[]>();
+        for (const item of inventory.items) {
+            const room = item.room ?? UNASSIGNED_ROOM;
+            byRoom.set(room, [...(byRoom.get(room) ?? []), item]);
+        }
+        return Array.from(byRoom.entries()).sort(([a], [b]) => {
+            if (a === UNASSIGNED_ROOM) return 1;
+            if (b === UNASSIGNED_ROOM) return -1;
+            return a.localeCompare(b);
+        });
+    }, [inventory.items]);
+
+    const playbackUrl = (item: SharedItem) =>
+        `/api/share/playback?token=${encodeURIComponent(token)}&asset_id=${item.id}&time=${item.item_timestamp ?? 0}`;
+
+    return (
+        <div className="min-h-screen flex flex-col">
+            <div className="container mx-auto p-4 sm:p-6">
+                <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-3">
+                            <h1 className="text-2xl font-semibold tracking-tight">Shared Inventory</h1>
+                            <Badge variant="secondary">
+                                <ShieldCheck className="mr-1 h-3 w-3" /> Read-only
+                            </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                            {inventory.label ? `${inventory.label} · ` : ''}
+                            {inventory.scope
+                                ? `${inventory.scope.type === 'room' ? 'Room' : 'Tag'}: ${inventory.scope.name}`
+                                : 'Whole inventory'}
+                            {' · '}Link expires {new Date(inventory.expires_at).toLocaleString()}
+                        </p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Shared from Padlox. Each visit is recorded for the homeowner.</p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 my-6">
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">Total Items</CardTitle>
+                            <Package className="h-4 w-4 text-primary" />
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{inventory.totals.totalItems}</div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">Replacement Cost</CardTitle>
+                            <DollarSign className="h-4 w-4 text-primary" />
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{formatCurrency(inventory.totals.totalValue)}</div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">Actual Cash Value</CardTitle>
+                            <DollarSign className="h-4 w-4 text-primary" />
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">{formatCurrency(inventory.totals.totalActualCashValue)}</div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {rooms.length === 0 && (
+                    <div className="text-center text-muted-foreground py-12">No items have been shared.</div>
+                )}
+
+                {rooms.map(([room, items]) => (
+                    <section key={room} className="mb-8">
+                        <div className="flex items-baseline justify-between mb-3">
+                            <h2 className="text-lg font-semibold">{room}</h2>
+                            <span className="text-sm text-muted-foreground">
+                                {items.length} {items.length === 1 ? 'item' : 'items'} ·{' '}
+                                {formatCurrency(items.reduce((sum, item) => sum + (item.replacement_cost ?? 0), 0))}
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {items.map((item) => (
+                                <button
+                                    key={item.id}
+                                    type="button"
+                                    onClick={() => setSelectedItem(item)}
+                                    className="group relative aspect-square overflow-hidden rounded-lg border bg-muted text-left"
+                                >
+                                    {item.thumbnail_url ? (
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img
+                                            src={item.thumbnail_url}
+                                            alt={item.name}
+                                            className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform"
+                                        />
+                                    ) : (
+                                        <div className="w-full h-full flex items-center justify-center text-muted-foreground text-sm">
+                                            Image Unavailable
+                                        </div>
+                                    )}
+                                    {item.mux_playback_id && (
+                                        <Video className="absolute top-2 right-2 h-4 w-4 text-white drop-shadow" />
+                                    )}
+                                    <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/60 to-transparent p-3">
+                                        <h3 className="text-white font-medium truncate text-sm">{item.name}</h3>
+                                        {item.replacement_cost != null && (
+                                            <p className="text-white/90 text-xs">{formatCurrency(item.replacement_cost)}</p>
+                                        )}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </section>
+                ))}
+            </div>
+
+            <Dialog open={!!selectedItem} onOpenChange={(open) => !open && setSelectedItem(null)}>
+                <DialogContent className="sm:max-w-[640px]">
+                    {selectedItem && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle>{selectedItem.name}</DialogTitle>
+                                {selectedItem.description && (
+                                    <DialogDescription>{selectedItem.description}</DialogDescription>
+                                )}
+                            </DialogHeader>
+
+                            {selectedItem.mux_playback_id ? (
+                                <div className="aspect-video w-full">
+                                    <MuxPlayer
+                                        playbackId={selectedItem.mux_playback_id}
+                                        startTime={selectedItem.item_timestamp ?? undefined}
+                                        itemTimestamp={selectedItem.item_timestamp ?? undefined}
+                                        tokenUrl={playbackUrl(selectedItem)}
+                                        title={selectedItem.name}
+                                    />
+                                </div>
+                            ) : selectedItem.thumbnail_url && (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                    src={selectedItem.thumbnail_url}
+                                    alt={selectedItem.name}
+                                    className="w-full max-h-[360px] object-contain rounded-lg bg-muted"
+                                />
+                            )}
+
+                            <div className="space-y-1">
+                                <DetailRow
+                                    label="Replacement cost"
+                                    value={selectedItem.replacement_cost != null ? formatCurrency(selectedItem.replacement_cost) : 'Not valued'}
+                                />
+                                <DetailRow
+                                    label="Actual cash value"
+                                    value={selectedItem.actual_cash_value != null ? formatCurrency(selectedItem.actual_cash_value) : null}
+                                />
+                                <DetailRow
+                                    label="Purchase price"
+                                    value={selectedItem.purchase_price != null ? formatCurrency(selectedItem.purchase_price) : null}
+                                />
+                                <DetailRow label="Purchased" value={formatDate(selectedItem.purchase_date)} />
+                                <DetailRow label="Room" value={selectedItem.room} />
+                                <DetailRow label="Tags" value={selectedItem.tags.join(', ')} />
+                                <DetailRow label="Serial number" value={selectedItem.serial_number} />
+                                <DetailRow label="Model number" value={selectedItem.model_number} />
+                                <DetailRow label="Added" value={formatDate(selectedItem.created_at)} />
+                            </div>
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { FileSpreadsheet } from 'lucide-react';
+import { formatCurrency, formatTimestamp } from '@/utils/format';
+import type { WalkthroughComparison, WalkthroughItem } from '@/lib/items/comparison';
+
+export interface RecordingOption {
+    id: string;
+    name: string;
+    created_at: string;
+}
+
+interface WalkthroughComparisonDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    recordings: RecordingOption[]; // Oldest first
+    onDownload: (url: string, fallbackFileName: string) => Promise<void>;
+}
+
+interface SideDraft {
+    source: string; // A recording id, or SNAPSHOT (before side only)
+    date: string;
+}
+
+const SNAPSHOT = 'snapshot';
+
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function sideParams(prefix: 'before' | 'after', side: SideDraft): string {
+    if (side.source !== SNAPSHOT) return `${prefix}Video=${side.source}`;
+    // The whole day, in the user's time zone
+    return `${prefix}Date=${encodeURIComponent(new Date(`${side.date}T23:59:59.999`).toISOString())}`;
+}
+
+function describeItem(item: WalkthroughItem): string {
+    return [
+        item.estimated_value != null ? formatCurrency(item.estimated_value) : null,
+        item.item_timestamp != null ? `at ${formatTimestamp(item.item_timestamp)}` : null,
+        item.review_status === 'pending' ? 'awaiting review' : null,
+    ].filter(Boolean).join(' · ');
+}
+
+function SidePicker({ id, label, side, recordings, allowSnapshot, onChange }: {
+    id: string;
+    label: string;
+    side: SideDraft;
+    recordings: RecordingOption[];
+    allowSnapshot: boolean;
+    onChange: (side: SideDraft) => void;
+}) {
+    return (
+        <div className="min-w-0 flex-1 space-y-1">
+            <Label htmlFor={id}>{label}</Label>
+            <Select value={side.source} onValueChange={(source) => onChange({ ...side, source })}>
+                <SelectTrigger id={id}>
+                    <SelectValue placeholder="Choose a recording" />
+                </SelectTrigger>
+                <SelectContent>
+                    {allowSnapshot && <SelectItem value={SNAPSHOT}>Inventory as of a date</SelectItem>}
+                    {recordings.map(recording => (
+                        <SelectItem key={recording.id} value={recording.id}>
+                            {recording.name} ({new Date(recording.created_at).toLocaleDateString()})
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {side.source === SNAPSHOT && (
+                <Input
+                    type="date"
+                    value={side.date}
+                    max={today()}
+                    onChange={(e) => onChange({ ...side, date: e.target.value })}
+                    aria-label={`${label} date`}
+                />
+            )}
+        </div>
+    );
+}
+
+/**
+ * Compares a walkthrough recorded after a loss against an earlier one, or against the
+ * inventory as it stood, and lists what is missing room by room
+ */
+export function WalkthroughComparisonDialog({ isOpen, onOpenChange, recordings, onDownload }: WalkthroughComparisonDialogProps) {
+    const [before, setBefore] = useState<SideDraft>({ source: SNAPSHOT, date: today() });
+    const [after, setAfter] = useState<SideDraft>({ source: '', date: today() });
+    const [comparison, setComparison] = useState<WalkthroughComparison | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setComparison(null);
+        // Most often: the inventory until the loss against the newest recording
+        const latest = recordings[recordings.length - 1];
+        setBefore({ source: SNAPSHOT, date: latest ? new Date(new Date(latest.created_at).getTime() - 86_400_000).toISOString().slice(0, 10) : today() });
+        setAfter({ source: latest?.id ?? '', date: today() });
+    }, [isOpen, recordings]);
+
+    const query = `${sideParams('before', before)}&${sideParams('after', after)}`;
+    const isComplete = (side: SideDraft) => side.source !== SNAPSHOT ? Boolean(side.source) : Boolean(side.date);
+
+    const handleCompare = async () => {
+        setIsComparing(true);
+        try {
+            const response = await fetch(`/api/comparison?${query}`);
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to compare walkthroughs (status: ${response.status})`);
+            }
+            setComparison(result as WalkthroughComparison);
+        } catch (error: unknown) {
+            console.error('Error comparing walkthroughs:', error);
+            toast.error(error instanceof Error ? error.message : 'Could not compare the walkthroughs.');
+        } finally {
+            setIsComparing(false);
+        }
+    };
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        setIsExporting(true);
+        try {
+            await onDownload(`/api/comparison?${query}&format=${format}`, `padlox-missing-items.${format}`);
+        } catch (error: unknown) {
+            console.error('Error exporting missing items:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to export missing items');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[720px]">
+                <DialogHeader>
+                    <DialogTitle>Compare Walkthroughs</DialogTitle>
+                    <DialogDescription>
+                        Record the house again after a loss and compare it with your inventory from before. Items
+                        that were not found again are listed as missing, and can be exported to start a claim.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col gap-3 sm:flex-row">
+                    <SidePicker id="comparison-before" label="Before" side={before} recordings={recordings} allowSnapshot onChange={(side) => { setBefore(side); setComparison(null); }} />
+                    <SidePicker id="comparison-after" label="After" side={after} recordings={recordings} allowSnapshot={false} onChange={(side) => { setAfter(side); setComparison(null); }} />
+                </div>
+
+                {comparison && (
+                    <ScrollArea className="max-h-[50vh] pr-3">
+                        <p className="mb-3 text-sm">
+                            {comparison.totals.matched} still there · <span className="font-medium text-destructive">{comparison.totals.missing} missing</span>
+                            {comparison.totals.missingValue > 0 && ` (${formatCurrency(comparison.totals.missingValue)})`} · {comparison.totals.added} new
+                        </p>
+                        {comparison.rooms.length === 0 && (
+                            <p className="py-6 text-center text-sm text-muted-foreground">Neither walkthrough has any items.</p>
+                        )}
+                        <div className="space-y-3">
+                            {comparison.rooms.map(room => (
+                                <div key={room.room ?? 'none'} className="rounded-lg border border-border p-3 text-sm">
+                                    <p className="mb-2 font-medium">{room.room ?? 'No room'}</p>
+                                    {room.missing.length > 0 && (
+                                        <ul className="mb-2 space-y-1">
+                                            {room.missing.map(item => (
+                                                <li key={item.id} className="flex items-center gap-2">
+                                                    <Badge variant="destructive" className="text-[10px] font-normal">Missing</Badge>
+                                                    <span className="min-w-0 flex-1 truncate">{item.name || 'Untitled'}</span>
+                                                    <span className="text-xs text-muted-foreground">{describeItem(item)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {room.added.length > 0 && (
+                                        <ul className="mb-2 space-y-1">
+                                            {room.added.map(item => (
+                                                <li key={item.id} className="flex items-center gap-2">
+                                                    <Badge variant="secondary" className="text-[10px] font-normal">New</Badge>
+                                                    <span className="min-w-0 flex-1 truncate">{item.name || 'Untitled'}</span>
+                                                    <span className="text-xs text-muted-foreground">{describeItem(item)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {room.matched.length > 0 && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Still there:{' '}
+                                            {room.matched.map(match => match.before.name === match.after.name
+                                                ? match.before.name || 'Untitled'
+                                                : `${match.before.name || 'Untitled'} (now "${match.after.name || 'Untitled'}")`
+                                            ).join(', ')}
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <DialogClose asChild>
+                        <Button variant="outline">Close</Button>
+                    </DialogClose>
+                    {comparison && comparison.totals.missing > 0 && (
+                        <>
+                            <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting}>
+                                <FileSpreadsheet className="mr-2 h-4 w-4" /> Missing (CSV)
+                            </Button>
+                            <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={isExporting}>
+                                <FileSpreadsheet className="mr-2 h-4 w-4" /> Missing (Excel)
+                            </Button>
+                        </>
+                    )}
+                    <Button onClick={handleCompare} disabled={isComparing || !isComplete(before) || !isComplete(after)}>
+                        {isComparing ? 'Comparing...' : 'Compare'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { MediaRecorderHelper } from '@/utils/media-recorder-helper'; // Adjust path as needed
 import { FrameSender } from '@/utils/frame-sender';
+import { uploadSignedRecording } from '@/utils/c2pa';
+import { describeDevice, isSignableVideoType } from '@/lib/c2pa/metadata';
 
 // Define preferred and fallback MIME types (can be constants)
 const PREFERRED_MIME_TYPE = 'video/mp4; codecs="avc1.42E01E, mp4a.40.2"';
@@ -50,9 +52,16 @@ export function useCameraCore({
     const CHUNK_SIZE = 8 * 1024 * 1024;
     const maxRetries = 3;
     const lockName = 'mux-upload-lock';
+    // The full original recording, kept for the C2PA-signed copy (MP4 only)
+    const recordingPartsRef = useRef<Blob[]>([]);
+    const captureStartedAtRef = useRef<string | null>(null);
 
     // --- Session state ---
     const sessionIdRef = useRef<string | null>(null);
+    const sessionActiveRef = useRef(false); // Server session is open (not yet completed or aborted)
+    const frameTokenRef = useRef<string | null>(null); // Authorizes /api/frame; renewed by heartbeats
+    const heartbeatTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const SESSION_HEARTBEAT_MS = 30_000;
 
     const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
@@ -69,6 +78,11 @@ export function useCameraCore({
             frameSenderRef.current = null;
         }
 
+        // A session still open at cleanup was never completed
+        if (sessionActiveRef.current) {
+            void endSession('abort', { reason: `cleanup: ${source}` });
+        }
+
         try {
             // Continue with original cleanup
             if (nativeRecorderRef.current) {
@@ -102,13 +116,70 @@ export function useCameraCore({
         }
     }, [videoRef]);
 
+    async function createRecordingSession(): Promise<string | null> {
+        try {
+            const res = await fetch('/api/session/create', { method: 'POST' });
+            if (!res.ok) throw new Error(`Session create failed: ${res.status}`);
+            const data = await res.json();
+            return data.session?.id ?? null;
+        } catch (error) {
+            // Recording still works without a session; the webhook falls back to the legacy merge
+            console.warn('useCameraCore: Could not create recording session:', error);
+            return null;
+        }
+    }
+
+    async function postSessionAction(action: 'start' | 'heartbeat' | 'complete' | 'abort', extra: Record<string, unknown> = {}) {
+        const sessionId = sessionIdRef.current;
+        if (!sessionId || !sessionActiveRef.current) return;
+        try {
+            const res = await fetch(`/api/session/${action}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sessionId, ...extra }),
+                keepalive: action === 'abort' // Let the abort go out even if the page is unloading
+            });
+            if (!res.ok) {
+                console.warn(`useCameraCore: Session ${action} failed: ${res.status}`);
+                return;
+            }
+            if (action === 'start' || action === 'heartbeat') {
+                const data = await res.json().catch(() => null);
+                if (data?.frameToken?.token) frameTokenRef.current = data.frameToken.token;
+            }
+        } catch (error) {
+            console.warn(`useCameraCore: Session ${action} request error:`, error);
+        }
+    }
+
+    function stopSessionHeartbeat() {
+        if (heartbeatTimerRef.current) {
+            clearInterval(heartbeatTimerRef.current);
+            heartbeatTimerRef.current = null;
+        }
+    }
+
+    function startSessionHeartbeat() {
+        stopSessionHeartbeat();
+        heartbeatTimerRef.current = setInterval(() => {
+            void postSessionAction('heartbeat');
+        }, SESSION_HEARTBEAT_MS);
+    }
+
+    async function endSession(action: 'complete' | 'abort', extra: Record<string, unknown> = {}) {
+        stopSessionHeartbeat();
+        await postSessionAction(action, extra);
+        sessionActiveRef.current = false;
+        frameTokenRef.current = null;
+    }
+
     async function requestUploadUrl() {
         const metadata = { name: `Video - ${new Date().toISOString()}` };
         const correlationId = `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const res = await fetch('/api/mux/upload', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ metadata, correlationId })
+            body: JSON.stringify({ metadata, correlationId, sessionId: sessionIdRef.current ?? undefined })
         });
         if (!res.ok) throw new Error(`Mux upload init failed: ${res.status}`);
         const data = await res.json();
@@ -117,6 +188,25 @@ export function useCameraCore({
         return data;
     }
 
+    // Mux re-encodes the streamed upload, so the original is signed and kept separately
+    async function uploadSignedCopy() {
+        const parts = recordingPartsRef.current;
+        recordingPartsRef.current = [];
+        if (!sessionIdRef.current || parts.length === 0) return;
+        try {
+            const file = new File(parts, `recording-${sessionIdRef.current}.mp4`, { type: 'video/mp4' });
+            const signed = await uploadSignedRecording(file, {
+                sessionId: sessionIdRef.current,
+                captureTime: captureStartedAtRef.current,
+                deviceInfo: describeDevice(streamRef.current?.getVideoTracks()[0], actualMimeType)
+            });
+            console.log('useCameraCore: Stored signed copy of recording', signed);
+        } catch (error) {
+            // The recording itself is safe with Mux; only the signed copy is missing
+            console.error('useCameraCore: Failed to store signed copy of recording:', error);
+        }
+    }
+
     async function uploadChunk(chunk: Blob, isFinal: boolean) {
         // wait final in-flight uploads if final chunk
         if (isFinal) {
@@ -343,7 +433,9 @@ export function useCameraCore({
         // Setup streaming upload if requested
         if (streamingUpload) {
             try {
-                // 1) Initialize direct upload URL and DB record
+                // 1) Open a recording session, then initialize direct upload URL and DB record linked to it
+                sessionIdRef.current = await createRecordingSession();
+                sessionActiveRef.current = !!sessionIdRef.current;
                 console.log('useCameraCore: Requesting upload URL for streaming...');
                 const uploadData = await requestUploadUrl();
                 console.log('useCameraCore: Received upload data:', { 
@@ -355,6 +447,9 @@ export function useCameraCore({
                 bufferRef.current = new Blob([], { type: actualMimeType });
                 nextByteStartRef.current = 0;
                 activeUploadsRef.current = 0;
+                recordingPartsRef.current = [];
+                captureStartedAtRef.current = new Date().toISOString();
+                const keepForSigning = isSignableVideoType(actualMimeType);
                 
                 // Store session ID for real-time analysis
                 sessionIdRef.current = uploadData.sessionId || null;
@@ -369,6 +464,7 @@ export function useCameraCore({
                 // 4) Handle incoming chunks
                 recorder.ondataavailable = async (e: BlobEvent) => {
                     if (e.data.size > 0) {
+                        if (keepForSigning) recordingPartsRef.current.push(e.data);
                         bufferRef.current = new Blob([bufferRef.current, e.data], { type: actualMimeType });
                         while (bufferRef.current.size >= CHUNK_SIZE) {
                             const chunk = bufferRef.current.slice(0, CHUNK_SIZE);
@@ -383,7 +479,12 @@ export function useCameraCore({
                     if (bufferRef.current.size > 0) {
                         await uploadChunk(bufferRef.current, true);
                     }
+                    // Read the camera settings for the signed copy before the tracks stop
+                    const signedCopy = uploadSignedCopy();
                     streamRef.current?.getTracks().forEach(t => t.stop());
+                    // Frames have stopped and the video is fully uploaded; the server merges once Mux is ready
+                    await endSession('complete', { scratchDone: true });
+                    await signedCopy;
                     setRecorderStatus('idle');
                     console.log('useCameraCore: Streaming upload complete');
                     onStreamComplete?.();
@@ -391,40 +492,29 @@ export function useCameraCore({
                 
                 // 6) Begin recording with 500ms timeslice
                 recorder.start(500);
+                frameTokenRef.current = null;
+                // Frames can only be sent with the token issued when the session starts
+                await postSessionAction('start');
+                startSessionHeartbeat();
                 
                 // 7) If real-time analysis is enabled, start frame sender
-                if (realTimeAnalysis) {
+                if (realTimeAnalysis && frameTokenRef.current && sessionIdRef.current) {
                     console.log('useCameraCore: Preparing real-time frame analysis', {
                         realTimeAnalysis, 
                         sessionId: sessionIdRef.current,
                         apiUrl: process.env.NEXT_PUBLIC_FRAME_API_URL || '/api/frame'
                     });
                     
-                    if (!sessionIdRef.current) {
-                        console.warn('useCameraCore: Missing sessionId for real-time analysis. Using recording timestamp as fallback.');
-                        sessionIdRef.current = `manual_${Date.now()}`;
-                    }
-                    
-                    // Get MUX asset ID if available
-                    const muxAssetId = uploadData.muxAssetId || null;
-                    
-                    // Get user ID if available
-                    const userId = uploadData.userId || null;
-                    
-                    console.log('useCameraCore: Frame analysis data:', {
-                        sessionId: sessionIdRef.current,
-                        userId: userId || 'not available',
-                        muxAssetId: muxAssetId || 'not available'
-                    });
-                    
                     // Create and start frame sender
                     const apiUrl = process.env.NEXT_PUBLIC_FRAME_API_URL || '/api/frame';
+                    // Unset keeps the FrameSender default; a negative value disables duplicate skipping
+                    const skipThreshold = parseInt(process.env.NEXT_PUBLIC_FRAME_SKIP_THRESHOLD ?? '', 10);
                     frameSenderRef.current = new FrameSender(videoRef.current!, {
                         apiUrl,
                         sessionId: sessionIdRef.current,
-                        userId: userId,
-                        muxAssetId: muxAssetId,
+                        getFrameToken: () => frameTokenRef.current,
                         frameRateSec: parseInt(process.env.NEXT_PUBLIC_FRAME_RATE_SEC || '2', 10),
+                        skipThreshold: Number.isNaN(skipThreshold) ? undefined : skipThreshold < 0 ? false : skipThreshold,
                         onError: (error) => {
                             console.warn('Frame sender error:', error);
                             // We don't stop recording on frame sender error, just log it
@@ -436,11 +526,13 @@ export function useCameraCore({
                 } else {
                     console.log('useCameraCore: Real-time frame analysis NOT enabled', { 
                         realTimeAnalysis, 
-                        hasSessionId: !!sessionIdRef.current
+                        hasSessionId: !!sessionIdRef.current,
+                        hasFrameToken: !!frameTokenRef.current
                     });
                 }
             } catch (error) {
                 console.error('useCameraCore: Error setting up streaming recording:', error);
+                await endSession('abort', { reason: 'streaming setup failed' });
                 setRecorderStatus('error');
                 setErrorMessage('Failed to start streaming recording.');
             }
@@ -530,6 +622,9 @@ export function useCameraCore({
                 frameSenderRef.current.stop();
                 frameSenderRef.current = null;
             }
+            if (sessionActiveRef.current) {
+                void endSession('abort', { reason: 'camera closed while recording' });
+            }
         };
     }, []);
 
@@ -1,24 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { createClient } from '@/lib/supabase';
 import { uploadToS3 } from '@/utils/s3';
 import { AssetWithMuxData } from '@/types/mux';
 import { User } from '@supabase/supabase-js';
-
-// Define the calculation function separately for clarity
-const calculateTotals = (assets: AssetWithMuxData[]) => {
-    // Filter assets to include only 'item' and 'image' types for the count
-    const countableAssets = assets.filter(asset => 
-        asset.media_type === 'item' || asset.media_type === 'image'
-    );
-    const totalItems = countableAssets.length;
-    const totalValue = assets.reduce((sum: number, asset: AssetWithMuxData) => {
-        const value = typeof asset.estimated_value === 'number' ? asset.estimated_value : 0;
-        return sum + value;
-    }, 0);
-    return { totalItems, totalValue };
-};
+import { calculateTotals, DEFAULT_DEPRECIATION_RULES, DepreciationRules } from '@/lib/valuation';
 
 // Re-declare the ActiveUpload type here or import if moved to a shared types file
 type ActiveUpload = {
@@ -31,21 +18,32 @@ type ActiveUpload = {
 type UseDashboardLogicProps = {
     initialAssets: AssetWithMuxData[];
     user: User;
+    householdId: string; // Household whose inventory is shown
+    propertyId: string; // Property of the household shown; new items go here
     initialTotalItems: number;
     initialTotalValue: number;
+    initialTotalActualCashValue: number;
+    depreciationRules?: DepreciationRules;
 }
 
 export function useDashboardLogic({ 
     initialAssets, 
     user, 
+    householdId,
+    propertyId,
     initialTotalItems,
-    initialTotalValue 
+    initialTotalValue,
+    initialTotalActualCashValue,
+    depreciationRules = DEFAULT_DEPRECIATION_RULES
 }: UseDashboardLogicProps) {
     const [showCamera, setShowCamera] = useState(false);
     const [capturedFile, setCapturedFile] = useState<File | null>(null);
     const [assets, setAssets] = useState<AssetWithMuxData[]>(initialAssets);
     const [totalItems, setTotalItems] = useState<number>(initialTotalItems);
     const [totalValue, setTotalValue] = useState<number>(initialTotalValue);
+    const [totalActualCashValue, setTotalActualCashValue] = useState<number>(initialTotalActualCashValue);
+    // Rules only change on a full page load, so callbacks read them without re-subscribing
+    const depreciationRulesRef = useRef(depreciationRules);
     const [selectedAsset, setSelectedAsset] = useState<AssetWithMuxData | null>(null);
     const [selectedAssets, setSelectedAssets] = useState<Set<string>>(new Set());
     const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -71,7 +69,7 @@ export function useDashboardLogic({
                     )
                 `)
                 .eq('id', assetId)
-                .eq('user_id', user.id)
+                .eq('property_id', propertyId)
                 .single();
 
             if (error) {
@@ -131,9 +129,10 @@ export function useDashboardLogic({
                     newAssetsList = [processedAsset, ...prevAssets];
                     console.warn(`[FETCH & UPDATE] Asset ${processedAsset.id} was not in local state but re-fetched and added. This might indicate a sync issue or stale state elsewhere.`);
                 }
-                const { totalItems: newTotalItems, totalValue: newTotalValue } = calculateTotals(newAssetsList);
+                const { totalItems: newTotalItems, totalValue: newTotalValue, totalActualCashValue: newTotalActualCashValue } = calculateTotals(newAssetsList, depreciationRulesRef.current);
                 setTotalItems(newTotalItems);
                 setTotalValue(newTotalValue);
+                setTotalActualCashValue(newTotalActualCashValue);
                 return newAssetsList.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
             });
 
@@ -148,7 +147,7 @@ export function useDashboardLogic({
         } catch (fetchError) {
             console.error(`[FETCH & UPDATE] Unexpected error fetching asset ${assetId}:`, fetchError);
         }
-    }, [supabase, user?.id, setAssets, setSelectedAsset, setTotalItems, setTotalValue]);
+    }, [supabase, propertyId, setAssets, setSelectedAsset, setTotalItems, setTotalValue]);
 
     // Fetch thumbnail token for Mux videos
     const fetchThumbnailToken = useCallback(async (playbackId: string, timestamp?: number) => {
@@ -192,6 +191,8 @@ export function useDashboardLogic({
                 .from('assets')
                 .insert([{
                     user_id: user.id,
+                    household_id: householdId,
+                    property_id: propertyId,
                     name: 'TEST_REALTIME_DELETE',
                     description: 'Test asset for realtime debugging',
                     estimated_value: 1,
@@ -226,7 +227,7 @@ export function useDashboardLogic({
         } catch (error) {
             console.error('[TEST REALTIME] Test failed:', error);
         }
-    }, [supabase, user.id]);
+    }, [supabase, user.id, householdId, propertyId]);
 
     // Expose test function globally for debugging
     useEffect(() => {
@@ -245,7 +246,7 @@ export function useDashboardLogic({
                     event: '*',
                     schema: 'public',
                     table: 'assets',
-                    filter: `user_id=eq.${user.id}`
+                    filter: `property_id=eq.${propertyId}`
                 },
                 (payload) => {
                     console.log('[REALTIME HANDLER] Received payload:', payload);
@@ -261,9 +262,10 @@ export function useDashboardLogic({
                             const updatedAssets = updater(prevAssets)
                                 .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
                             // Recalculate and set totals based on the final updated assets
-                            const { totalItems: newTotalItems, totalValue: newTotalValue } = calculateTotals(updatedAssets);
+                            const { totalItems: newTotalItems, totalValue: newTotalValue, totalActualCashValue: newTotalActualCashValue } = calculateTotals(updatedAssets, depreciationRulesRef.current);
                             setTotalItems(newTotalItems);
                             setTotalValue(newTotalValue);
+                            setTotalActualCashValue(newTotalActualCashValue);
                             console.log(`[REALTIME HANDLER] State updated. New count: ${updatedAssets.length}, New Total Value: ${newTotalValue}`);
                             return updatedAssets;
                         });
@@ -470,7 +472,7 @@ export function useDashboardLogic({
                 }
                 if (status === 'SUBSCRIBED') {
                     console.log('[REALTIME SUBSCRIBE] Successfully subscribed to asset changes!');
-                    console.log(`[REALTIME SUBSCRIBE] Listening for changes to assets for user: ${user.id}`);
+                    console.log(`[REALTIME SUBSCRIBE] Listening for changes to assets in property: ${propertyId}`);
                 }
                 if (status === 'CHANNEL_ERROR') {
                     console.error('[REALTIME SUBSCRIBE] Channel error - subscription may not be working');
@@ -538,7 +540,7 @@ export function useDashboardLogic({
                     event: 'UPDATE',
                     schema: 'public',
                     table: 'tags',
-                    filter: `user_id=eq.${user.id}` // Assuming tags are user-specific
+                    filter: `household_id=eq.${householdId}` // Tags are shared by the household
                 },
                 (payload) => {
                     console.log('[TAGS TABLE CHANNEL] Received UPDATE payload:', payload);
@@ -600,7 +602,7 @@ export function useDashboardLogic({
             supabase.removeChannel(assetRoomsChannel);
             supabase.removeChannel(tagsChannel); // Unsubscribe from the new channel
         };
-    }, [user.id, supabase, fetchAndUpdateAssetState, fetchThumbnailToken]);
+    }, [householdId, propertyId, supabase, fetchAndUpdateAssetState, fetchThumbnailToken]);
 
     // Handle captured media files
     const handleCapture = useCallback(async (file: File) => {
@@ -677,7 +679,7 @@ export function useDashboardLogic({
                 if (timeSinceUpload < 3600000) {
                     const existingAsset = assets.find(a => 'client_reference_id' in a && a.client_reference_id === lastUploadReference);
                     if (!existingAsset) {
-                        supabase.from('assets').select('*').eq('client_reference_id', lastUploadReference).eq('user_id', user.id).single()
+                        supabase.from('assets').select('*').eq('client_reference_id', lastUploadReference).eq('household_id', householdId).single()
                             .then(({ data, error }) => {
                                 if (data && !error) {
                                     setAssets(prev => {
@@ -696,17 +698,15 @@ export function useDashboardLogic({
                 }
             }
         } catch (e) { console.warn('Error checking for upload recovery:', e); }
-    }, [assets, supabase, user.id]);
+    }, [assets, supabase, householdId]);
 
     // Handle saving images uploaded via the camera
     const handleSave = useCallback(async (url: string, metadata: { name: string; description: string | null; estimated_value: number | null }) => {
         try {
             if (!capturedFile) { console.error('No file captured'); return; }
-            const response = await uploadToS3(capturedFile, metadata);
-            const { key } = response;
-            const { data: asset, error } = await supabase
-                .from('assets').insert([{ user_id: user.id, name: metadata.name, description: metadata.description, estimated_value: metadata.estimated_value, media_url: key, media_type: capturedFile.type.startsWith('video/') ? 'video' : 'image' }]).select().single();
-            if (error) throw error;
+            // The server creates the asset, so its signature cannot be forged here
+            const { asset } = await uploadToS3(capturedFile, metadata, { household_id: householdId, property_id: propertyId });
+            if (!asset) throw new Error('Upload did not create an asset');
             const transformedAsset = { ...asset, media_url: `https://${process.env.NEXT_PUBLIC_AWS_BUCKET_NAME}.s3.${process.env.NEXT_PUBLIC_AWS_REGION}.amazonaws.com/${asset.media_url}` } as AssetWithMuxData;
             setCapturedFile(null);
         } catch (error: unknown) {
@@ -714,7 +714,7 @@ export function useDashboardLogic({
             console.error('Error saving asset:', { message: err?.message, details: err?.details, stack: err?.stack, name: err?.name });
             alert('Failed to save asset. Please try again.');
         }
-    }, [capturedFile, setCapturedFile, supabase, user.id]);
+    }, [capturedFile, setCapturedFile, householdId, propertyId]);
 
     const processClientSideAssetUpdate = useCallback((updatedAsset: AssetWithMuxData) => {
         // This function is called when a client component (e.g., AssetModal via AssetRoomSelector)
@@ -728,9 +728,10 @@ export function useDashboardLogic({
                 a.id === updatedAsset.id ? { ...a, ...updatedAsset } : a // Merge changes
             );
             // Recalculate totals with the optimistically updated list
-            const { totalItems: newTotalItems, totalValue: newTotalValue } = calculateTotals(newAssetsList);
+            const { totalItems: newTotalItems, totalValue: newTotalValue, totalActualCashValue: newTotalActualCashValue } = calculateTotals(newAssetsList, depreciationRulesRef.current);
             setTotalItems(newTotalItems);
             setTotalValue(newTotalValue);
+            setTotalActualCashValue(newTotalActualCashValue);
             console.log(`[CLIENT UPDATE] Optimistically updated asset ${updatedAsset.id} in main assets list.`);
             // Re-sort, as created_at might not be the only sort factor in user's mind,
             // but primary sort is by created_at descending.
@@ -1129,6 +1130,7 @@ export function useDashboardLogic({
         assets,
         totalItems,
         totalValue,
+        totalActualCashValue,
         selectedAsset,
         selectedAssets,
         isSelectionMode,
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts (Next.js instrumentation hook)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on a misconfigured C2PA signer instead of on the first upload
+    const { validateC2paSigner } = await import('@/lib/c2pa/server')
+    await validateC2paSigner()
+  }
+}
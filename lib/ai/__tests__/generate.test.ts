@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { generateObjectForTask } from '../generate';
+import { getTaskModelChain, parseModelChain } from '../config';
+import { setMockResponse, clearMockResponses } from '../mock-provider';
+
+const schema = z.object({ items: z.array(z.object({ name: z.string() })) });
+
+describe('AI model registry', () => {
+    afterEach(() => {
+        clearMockResponses();
+        delete process.env.AI_PROVIDER;
+        delete process.env.AI_MERGE_MODELS;
+    });
+
+    it('parses provider:model chains', () => {
+        expect(parseModelChain('google:gemini-2.0-flash-lite, openai:gpt-4o')).toEqual([
+            { provider: 'google', modelId: 'gemini-2.0-flash-lite' },
+            { provider: 'openai', modelId: 'gpt-4o' },
+        ]);
+        expect(() => parseModelChain('acme:model')).toThrow('Unsupported AI provider');
+    });
+
+    it('routes every task to the mock provider when AI_PROVIDER=mock', async () => {
+        process.env.AI_PROVIDER = 'mock';
+        setMockResponse('vision', { items: [{ name: 'Brown Leather Sofa' }] });
+
+        expect(getTaskModelChain('vision')).toEqual([{ provider: 'mock', modelId: 'vision' }]);
+        const result = await generateObjectForTask({ task: 'vision', schema, prompt: 'Analyze' });
+        expect(result.object.items[0].name).toBe('Brown Leather Sofa');
+    });
+
+    it('falls back to the next model when a provider errors', async () => {
+        process.env.AI_MERGE_MODELS = 'mock:broken, mock:healthy';
+        setMockResponse('broken', new Error('provider unavailable'));
+        setMockResponse('healthy', { items: [{ name: 'Floor Lamp' }] });
+
+        const result = await generateObjectForTask({ task: 'merge', schema, prompt: 'Merge' });
+        expect(result.model).toEqual({ provider: 'mock', modelId: 'healthy' });
+        expect(result.object.items).toHaveLength(1);
+    });
+
+    it('throws the last error when every model fails', async () => {
+        process.env.AI_MERGE_MODELS = 'mock:broken';
+        setMockResponse('broken', new Error('provider unavailable'));
+
+        await expect(generateObjectForTask({ task: 'merge', schema, prompt: 'Merge' })).rejects.toThrow();
+    });
+});
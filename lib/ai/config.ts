@@ -1,6 +1,7 @@
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
+import { mockProvider } from './mock-provider';
 
 // Define available model IDs
 export const MODEL_IDS = {
@@ -17,16 +18,25 @@ export const MODEL_IDS = {
     claude_3_7_sonnet_extended: 'claude-3.7-sonnet-extended-thinking-20250219', // Placeholder
     claude_3_5_haiku: 'claude-3.5-haiku-20241022', // Placeholder
   },
+  local: {
+    llava: 'llava', // Any model served by the local OpenAI-compatible endpoint
+  },
 } as const;
 
 export type GoogleModelId = typeof MODEL_IDS.google[keyof typeof MODEL_IDS.google];
 export type OpenAIModelId = typeof MODEL_IDS.openai[keyof typeof MODEL_IDS.openai];
 export type AnthropicModelId = typeof MODEL_IDS.anthropic[keyof typeof MODEL_IDS.anthropic];
 
+export type AiProviderName = 'google' | 'openai' | 'anthropic' | 'local' | 'mock';
+
 // Initialize providers (using environment variables for API keys)
 export const google = process.env.GOOGLE_GENERATIVE_AI_API_KEY ? createGoogleGenerativeAI() : null;
 export const openai = process.env.OPENAI_API_KEY ? createOpenAI() : null;
 export const anthropic = process.env.ANTHROPIC_API_KEY ? createAnthropic() : null;
+// Local OpenAI-compatible server (e.g. Ollama at http://localhost:11434/v1) for offline development
+export const local = process.env.LOCAL_AI_BASE_URL
+  ? createOpenAI({ baseURL: process.env.LOCAL_AI_BASE_URL, apiKey: process.env.LOCAL_AI_API_KEY || 'local', compatibility: 'compatible' })
+  : null;
 
 // --- Default Model Configuration ---
 const DEFAULT_PROVIDER = 'google';
@@ -47,10 +57,102 @@ export function getAiModel(providerName: string = DEFAULT_PROVIDER, modelId?: st
       if (!anthropic) throw new Error('Anthropic provider not configured. Check ANTHROPIC_API_KEY.');
       // Ensure a default model ID if none provided for Anthropic
       return anthropic(modelId || MODEL_IDS.anthropic.claude_3_5_haiku);
+    case 'local':
+      if (!local) throw new Error('Local AI provider not configured. Check LOCAL_AI_BASE_URL.');
+      return local(modelId || MODEL_IDS.local.llava);
+    case 'mock':
+      return mockProvider(modelId || 'default');
     default:
       throw new Error(`Unsupported AI provider: ${providerName}`);
   }
 }
 
-// Default model instance
-export const defaultModel = getAiModel(); 
\ No newline at end of file
+export function isProviderConfigured(providerName: AiProviderName): boolean {
+  switch (providerName) {
+    case 'google': return !!google;
+    case 'openai': return !!openai;
+    case 'anthropic': return !!anthropic;
+    case 'local': return !!local;
+    case 'mock': return true;
+  }
+}
+
+// --- Per-task model registry ---
+
+/**
+ * Pipeline steps that call a model. `vision` needs an image-capable model and
+ * `document` one that also reads PDFs; the others are text-only.
+ */
+export type AiTask = 'vision' | 'transcript' | 'merge' | 'document';
+
+export interface ModelSpec {
+  provider: AiProviderName;
+  modelId: string;
+}
+
+/**
+ * Default fallback chains, tried in order. Providers without credentials are skipped.
+ */
+const DEFAULT_TASK_MODELS: Record<AiTask, ModelSpec[]> = {
+  vision: [
+    { provider: 'google', modelId: MODEL_IDS.google.gemini_flash },
+    { provider: 'openai', modelId: MODEL_IDS.openai.gpt_4o },
+  ],
+  transcript: [
+    { provider: 'google', modelId: MODEL_IDS.google.gemini_flash },
+    { provider: 'openai', modelId: MODEL_IDS.openai.gpt_4o },
+    { provider: 'anthropic', modelId: MODEL_IDS.anthropic.claude_3_5_haiku },
+  ],
+  merge: [
+    { provider: 'google', modelId: MODEL_IDS.google.gemini_flash },
+    { provider: 'openai', modelId: MODEL_IDS.openai.gpt_4o },
+    { provider: 'anthropic', modelId: MODEL_IDS.anthropic.claude_3_5_haiku },
+  ],
+  document: [
+    { provider: 'google', modelId: MODEL_IDS.google.gemini_flash },
+    { provider: 'anthropic', modelId: MODEL_IDS.anthropic.claude_3_7_sonnet },
+  ],
+};
+
+const TASK_ENV_VARS: Record<AiTask, string> = {
+  vision: 'AI_VISION_MODELS',
+  transcript: 'AI_TRANSCRIPT_MODELS',
+  merge: 'AI_MERGE_MODELS',
+  document: 'AI_DOCUMENT_MODELS',
+};
+
+const PROVIDER_NAMES: AiProviderName[] = ['google', 'openai', 'anthropic', 'local', 'mock'];
+
+/**
+ * Parses a chain such as "google:gemini-2.0-flash-lite, openai:gpt-4o"
+ */
+export function parseModelChain(value: string): ModelSpec[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const provider = (separator === -1 ? entry : entry.slice(0, separator)) as AiProviderName;
+      if (!PROVIDER_NAMES.includes(provider)) {
+        throw new Error(`Unsupported AI provider in model chain: ${provider}`);
+      }
+      return { provider, modelId: separator === -1 ? '' : entry.slice(separator + 1) };
+    });
+}
+
+/**
+ * Resolves the ordered model chain for a task.
+ *
+ * - `AI_PROVIDER=mock` routes every task to the mock provider (offline tests).
+ * - `AI_VISION_MODELS`, `AI_TRANSCRIPT_MODELS`, `AI_MERGE_MODELS`, `AI_DOCUMENT_MODELS` override the defaults.
+ */
+export function getTaskModelChain(task: AiTask): ModelSpec[] {
+  if (process.env.AI_PROVIDER === 'mock') {
+    return [{ provider: 'mock', modelId: task }];
+  }
+
+  const override = process.env[TASK_ENV_VARS[task]];
+  const chain = override ? parseModelChain(override) : DEFAULT_TASK_MODELS[task];
+  return chain.filter((spec) => isProviderConfigured(spec.provider));
+}
@@ -0,0 +1,56 @@
+import { generateObject, CoreMessage, LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { AiTask, ModelSpec, getAiModel, getTaskModelChain } from './config';
+
+interface GenerateForTaskOptions<T> {
+  task: AiTask;
+  schema: z.Schema<T>;
+  prompt?: string;
+  messages?: CoreMessage[];
+  mode?: 'auto' | 'json' | 'tool';
+}
+
+export interface GenerateForTaskResult<T> {
+  object: T;
+  model: ModelSpec;
+  usage: LanguageModelUsage;
+}
+
+/**
+ * Generates a structured object with the model chain configured for a task.
+ * Each model is tried in order; an error from one provider falls through to the next.
+ */
+export async function generateObjectForTask<T>({
+  task,
+  schema,
+  prompt,
+  messages,
+  mode,
+}: GenerateForTaskOptions<T>): Promise<GenerateForTaskResult<T>> {
+  const chain = getTaskModelChain(task);
+  if (chain.length === 0) {
+    throw new Error(`No AI provider configured for task "${task}". Set provider API keys or AI_PROVIDER=mock.`);
+  }
+
+  let lastError: unknown;
+  for (const spec of chain) {
+    try {
+      const result = await generateObject({
+        model: getAiModel(spec.provider, spec.modelId || undefined),
+        schema,
+        prompt,
+        messages,
+        mode,
+      });
+      return { object: result.object, model: spec, usage: result.usage };
+    } catch (error) {
+      lastError = error;
+      console.warn(
+        `[AI] ${task} call failed on ${spec.provider}:${spec.modelId || 'default'}`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`All models failed for task "${task}"`);
+}
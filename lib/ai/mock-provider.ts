@@ -0,0 +1,43 @@
+import type { LanguageModel } from 'ai';
+
+/**
+ * Offline provider that answers every call with a canned JSON object.
+ *
+ * Responses are keyed by model ID (the registry uses the task name, e.g. `vision`),
+ * so tests can script each pipeline step. Registering an Error makes the model throw,
+ * which is useful for exercising fallback chains.
+ */
+const mockResponses = new Map<string, unknown>();
+
+const DEFAULT_MOCK_RESPONSE = { items: [] };
+
+export function setMockResponse(modelId: string, response: unknown | Error) {
+  mockResponses.set(modelId, response);
+}
+
+export function clearMockResponses() {
+  mockResponses.clear();
+}
+
+export function mockProvider(modelId: string): LanguageModel {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const response = mockResponses.has(modelId) ? mockResponses.get(modelId) : DEFAULT_MOCK_RESPONSE;
+      if (response instanceof Error) throw response;
+
+      return {
+        text: JSON.stringify(response),
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    async doStream() {
+      throw new Error('Streaming is not supported by the mock AI provider');
+    },
+  };
+}
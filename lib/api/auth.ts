@@ -8,7 +8,8 @@ import { unauthorizedResponse } from './response'
  * Middleware to enforce authentication on API routes
  * Returns a function that takes the handler function
  */
-import { User } from '@supabase/supabase-js'
+import { SupabaseClient, User } from '@supabase/supabase-js'
+import { createServiceSupabaseClient } from '@/lib/auth/supabase'
 
 export function withAuth<T extends (req: Request, ...rest: unknown[]) => Promise<Response>>(
   handler: T
@@ -97,4 +98,30 @@ export async function requireUser(): Promise<User> {
         // Re-throw the error to be handled upstream, potentially resulting in a 401
         throw error 
     }
-}
\ No newline at end of file
+}
+/**
+ * Whether a user was authenticated with the server API key rather than a session cookie
+ */
+export function isSystemUser(user: User): boolean {
+    return user.id === 'system';
+}
+
+/**
+ * Resolve which user's data an authenticated request acts on, along with a matching client.
+ * Cookie users always act on themselves through the RLS-scoped client. API-key (system)
+ * callers such as scripts must name the target user with a `user_id` query parameter and
+ * get the service-role client.
+ */
+export async function resolveRequestScope(
+    request: Request
+): Promise<{ userId: string; supabase: SupabaseClient } | null> {
+    const user = (request as Request & { user: User }).user;
+
+    if (isSystemUser(user)) {
+        const targetUserId = new URL(request.url).searchParams.get('user_id');
+        if (!targetUserId) return null;
+        return { userId: targetUserId, supabase: createServiceSupabaseClient() };
+    }
+
+    return { userId: user.id, supabase: await createClient() };
+}
@@ -115,6 +115,31 @@ export function badRequestResponse(message = 'Bad Request', details?: Record<str
   return errorResponse(message, 400, details)
 }
 
+/**
+ * Creates a too many requests response (429). `retryAfterSeconds` is sent as `Retry-After`.
+ */
+export function tooManyRequestsResponse(
+  message = 'Too Many Requests',
+  retryAfterSeconds?: number,
+  details?: Record<string, unknown>
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: message,
+      ...(retryAfterSeconds != null ? { retryAfterSeconds } : {}),
+      ...(details ? { details } : {}),
+    },
+    {
+      status: 429,
+      headers: {
+        ...defaultHeaders,
+        ...corsHeaders,
+        ...(retryAfterSeconds != null ? { 'Retry-After': String(retryAfterSeconds) } : {}),
+      },
+    }
+  )
+}
+
 /**
  * Creates an options response for CORS preflight requests
  */
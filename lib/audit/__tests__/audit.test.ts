@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { AUDIT_GENESIS_HASH, AuditEntry, buildAuditExport, computeAuditHash, verifyAuditChain } from '../index';
+
+const userId = '00000000-0000-0000-0000-000000000001';
+const assetId = '00000000-0000-0000-0000-0000000000aa';
+
+/** Builds entries the way append_audit_entry does, with jsonb-style payload text */
+function buildChain(changes: Array<{ action: AuditEntry['action']; actor: AuditEntry['actor']; changes: Record<string, unknown> }>): AuditEntry[] {
+  let prevHash = AUDIT_GENESIS_HASH;
+  return changes.map((change, index) => {
+    const seq = index + 1;
+    const createdAt = `2025-06-0${seq}T12:00:00.000000Z`;
+    const actorId = change.actor === 'user' ? userId : null;
+    const payload = JSON.stringify({
+      seq,
+      actor: change.actor,
+      action: change.action,
+      changes: change.changes,
+      user_id: userId,
+      actor_id: actorId,
+      asset_id: assetId,
+      created_at: createdAt,
+    });
+    const entry: AuditEntry = {
+      id: `entry-${seq}`,
+      user_id: userId,
+      seq,
+      asset_id: assetId,
+      action: change.action,
+      actor: change.actor,
+      actor_id: actorId,
+      changes: change.changes as AuditEntry['changes'],
+      payload,
+      prev_hash: prevHash,
+      hash: computeAuditHash(prevHash, payload),
+      created_at: createdAt,
+    };
+    prevHash = entry.hash;
+    return entry;
+  });
+}
+
+const chain = buildChain([
+  { action: 'create', actor: 'ai', changes: { name: { before: null, after: 'Television' }, estimated_value: { before: null, after: 800 } } },
+  { action: 'tags', actor: 'user', changes: { tags: { before: [], after: ['Electronics'], added: ['Electronics'] } } },
+  { action: 'update', actor: 'user', changes: { estimated_value: { before: 800, after: 950 } } },
+]);
+
+describe('verifyAuditChain', () => {
+  it('accepts an intact chain and reports its head', () => {
+    const result = verifyAuditChain(chain);
+    expect(result.valid).toBe(true);
+    expect(result.entryCount).toBe(3);
+    expect(result.headSeq).toBe(3);
+    expect(result.headHash).toBe(chain[2].hash);
+    expect(result.firstInvalidSeq).toBeNull();
+  });
+
+  it('detects a value edited after the fact', () => {
+    const inflatedPayload = chain[2].payload.replace('"after":950', '"after":1950');
+    const tampered = chain.map((entry) => entry.seq === 3
+      ? { ...entry, payload: inflatedPayload, changes: { estimated_value: { before: 800, after: 1950 } } }
+      : entry);
+
+    const result = verifyAuditChain(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.firstInvalidSeq).toBe(3);
+    expect(result.problems.map((p) => p.problem)).toContain('hash does not match the payload');
+  });
+
+  it('detects a rewritten column that no longer matches the hashed payload', () => {
+    const tampered = chain.map((entry) => entry.seq === 1 ? { ...entry, actor: 'user' as const } : entry);
+    const result = verifyAuditChain(tampered);
+    expect(result.firstInvalidSeq).toBe(1);
+    expect(result.problems[0].problem).toContain('actor');
+  });
+
+  it('detects removed entries and a rehashed tail', () => {
+    const removed = verifyAuditChain([chain[0], chain[2]]);
+    expect(removed.valid).toBe(false);
+    expect(removed.firstInvalidSeq).toBe(3);
+
+    // Recomputing the hash of an edited entry still breaks the link to the next one
+    const payload = chain[1].payload.replace('Electronics', 'Jewelry');
+    const rehashed = [chain[0], { ...chain[1], payload, hash: computeAuditHash(chain[1].prev_hash, payload) }, chain[2]];
+    const result = verifyAuditChain(rehashed);
+    expect(result.valid).toBe(false);
+    expect(result.problems.some((p) => p.seq === 3 && p.problem.includes('prev_hash'))).toBe(true);
+  });
+});
+
+describe('buildAuditExport', () => {
+  it('bundles the entries with their verification', () => {
+    const exported = buildAuditExport(userId, chain, new Date('2025-06-10T00:00:00Z'));
+    expect(exported.format).toBe('padlox-audit-log');
+    expect(exported.genesisHash).toBe(AUDIT_GENESIS_HASH);
+    expect(exported.verification.valid).toBe(true);
+    expect(exported.entries).toHaveLength(3);
+  });
+});
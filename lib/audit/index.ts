@@ -0,0 +1,225 @@
+/**
+ * Tamper-evident audit log of inventory changes
+ *
+ * Database triggers append an entry to `audit_log` for every change to an item's name,
+ * description, value, purchase details, room or tags, and for deletions. Entries are
+ * chained per user: each `hash` is the sha256 of the previous entry's hash followed by the
+ * entry's `payload` (canonical JSON written by the database). Anyone holding an export can
+ * recompute the chain with `verifyAuditChain`; an edited, removed or reordered entry breaks
+ * it from that point on.
+ */
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AuditAction, AuditActor, AuditLogTable } from '@/lib/db/schema';
+
+export type AuditEntry = AuditLogTable['Row'];
+
+/** `prev_hash` of a user's first entry */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Header a service-role client sends so its changes are attributed to the AI pipeline
+ * instead of the system (see `createServiceSupabaseClient`)
+ */
+export const AUDIT_ACTOR_HEADER = 'x-padlox-actor';
+
+export const AUDIT_ACTOR_LABELS: Record<AuditActor, string> = {
+  user: 'You',
+  ai: 'AI',
+  system: 'System',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Added',
+  update: 'Edited',
+  delete: 'Deleted',
+  room: 'Moved',
+  tags: 'Retagged',
+};
+
+/** PostgREST returns at most this many rows per request */
+const PAGE_SIZE = 1000;
+
+export function computeAuditHash(prevHash: string, payload: string): string {
+  return createHash('sha256').update(prevHash + payload, 'utf8').digest('hex');
+}
+
+export interface AuditChainProblem {
+  seq: number;
+  problem: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entryCount: number;
+  /** Hash of the latest entry; quote it to pin the ledger at this point */
+  headHash: string;
+  headSeq: number;
+  /** First entry that does not check out, or null when the chain is intact */
+  firstInvalidSeq: number | null;
+  problems: AuditChainProblem[];
+  verifiedAt: string;
+}
+
+/** Order-insensitive comparison for values that went through jsonb */
+function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every((key) => sameJson((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function checkPayload(entry: AuditEntry): string | null {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(entry.payload);
+  } catch {
+    return 'payload is not valid JSON';
+  }
+  const columns: Array<[string, unknown]> = [
+    ['seq', entry.seq],
+    ['user_id', entry.user_id],
+    ['asset_id', entry.asset_id],
+    ['action', entry.action],
+    ['actor', entry.actor],
+    ['actor_id', entry.actor_id],
+    ['changes', entry.changes],
+  ];
+  const mismatched = columns.filter(([key, value]) => !sameJson(payload[key], value)).map(([key]) => key);
+  return mismatched.length > 0 ? `${mismatched.join(', ')} differ from the hashed payload` : null;
+}
+
+/**
+ * Recomputes a user's chain. `entries` must be the user's full log; they are checked in
+ * `seq` order.
+ */
+export function verifyAuditChain(entries: AuditEntry[], now = new Date()): AuditChainVerification {
+  const sorted = [...entries].sort((a, b) => Number(a.seq) - Number(b.seq));
+  const problems: AuditChainProblem[] = [];
+  let prevHash = AUDIT_GENESIS_HASH;
+
+  sorted.forEach((entry, index) => {
+    const seq = Number(entry.seq);
+    const expectedSeq = index + 1;
+    if (seq !== expectedSeq) {
+      problems.push({ seq, problem: `expected entry ${expectedSeq}; entries are missing or out of order` });
+    }
+    if (entry.prev_hash !== prevHash) {
+      problems.push({ seq, problem: 'prev_hash does not match the previous entry' });
+    }
+    if (computeAuditHash(entry.prev_hash, entry.payload) !== entry.hash) {
+      problems.push({ seq, problem: 'hash does not match the payload' });
+    }
+    const payloadProblem = checkPayload(entry);
+    if (payloadProblem) {
+      problems.push({ seq, problem: payloadProblem });
+    }
+    prevHash = entry.hash;
+  });
+
+  const head = sorted[sorted.length - 1];
+  return {
+    valid: problems.length === 0,
+    entryCount: sorted.length,
+    headHash: head?.hash ?? AUDIT_GENESIS_HASH,
+    headSeq: head ? Number(head.seq) : 0,
+    firstInvalidSeq: problems.length > 0 ? Math.min(...problems.map((p) => p.seq)) : null,
+    problems,
+    verifiedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Loads a user's whole log in `seq` order, page by page
+ */
+export async function loadAuditChain(client: SupabaseClient, userId: string): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('audit_log')
+      .select('*')
+      .eq('user_id', userId)
+      .order('seq', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load audit log: ${error.message}`);
+    entries.push(...((data || []) as AuditEntry[]));
+    if (!data || data.length < PAGE_SIZE) return entries;
+  }
+}
+
+/**
+ * The most recent entries, newest first, optionally for one asset
+ */
+export async function listAuditEntries(
+  client: SupabaseClient,
+  userId: string,
+  options: { assetId?: string; limit?: number; beforeSeq?: number } = {}
+): Promise<AuditEntry[]> {
+  let query = client
+    .from('audit_log')
+    .select('*')
+    .eq('user_id', userId)
+    .order('seq', { ascending: false })
+    .limit(Math.min(options.limit ?? 100, PAGE_SIZE));
+  if (options.assetId) query = query.eq('asset_id', options.assetId);
+  if (options.beforeSeq) query = query.lt('seq', options.beforeSeq);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load audit log: ${error.message}`);
+  return (data || []) as AuditEntry[];
+}
+
+/**
+ * One item's history from every member of its household, newest first. Each member's entries
+ * sit in their own chain, so this orders by time rather than `seq`; page back with `before`
+ * (the `created_at` of the last entry returned).
+ */
+export async function listItemHistory(
+  client: SupabaseClient,
+  assetId: string,
+  options: { limit?: number; before?: string } = {}
+): Promise<AuditEntry[]> {
+  let query = client
+    .from('audit_log')
+    .select('*')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: false })
+    .order('seq', { ascending: false })
+    .limit(Math.min(options.limit ?? 100, PAGE_SIZE));
+  if (options.before) query = query.lt('created_at', options.before);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load item history: ${error.message}`);
+  return (data || []) as AuditEntry[];
+}
+
+export interface AuditExport {
+  format: 'padlox-audit-log';
+  version: 1;
+  userId: string;
+  exportedAt: string;
+  /** How to recompute the chain without Padlox */
+  hashing: string;
+  genesisHash: string;
+  verification: AuditChainVerification;
+  entries: AuditEntry[];
+}
+
+/**
+ * The ledger as exported next to the claim report
+ */
+export function buildAuditExport(userId: string, entries: AuditEntry[], now = new Date()): AuditExport {
+  return {
+    format: 'padlox-audit-log',
+    version: 1,
+    userId,
+    exportedAt: now.toISOString(),
+    hashing: 'hash = hex(sha256(utf8(prev_hash + payload))), entries in seq order starting from genesisHash',
+    genesisHash: AUDIT_GENESIS_HASH,
+    verification: verifyAuditChain(entries, now),
+    entries,
+  };
+}
@@ -2,12 +2,17 @@
  * Supabase authentication clients for various contexts
  */
 import { createClient } from '@supabase/supabase-js'
+import { AuditActor } from '@/lib/db/schema'
+import { AUDIT_ACTOR_HEADER } from '@/lib/audit'
 
 /**
  * Creates a Supabase client with service role for admin operations
  * Used only within secure server contexts (API routes, webhooks)
+ *
+ * Pass `actor: 'ai'` from the AI pipeline so the audit log attributes its changes to the AI
+ * rather than the system.
  */
-export function createServiceSupabaseClient() {
+export function createServiceSupabaseClient(options: { actor?: Exclude<AuditActor, 'user'> } = {}) {
   if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
     throw new Error('SUPABASE_SERVICE_ROLE_KEY is required for service client')
   }
@@ -18,5 +23,6 @@ export function createServiceSupabaseClient() {
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.SUPABASE_SERVICE_ROLE_KEY,
     // No 'cookies' option needed here for the standard client
+    options.actor ? { global: { headers: { [AUDIT_ACTOR_HEADER]: options.actor } } } : undefined
   )
 }
\ No newline at end of file
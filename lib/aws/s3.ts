@@ -111,6 +111,23 @@ export async function deleteFileFromS3(key: string) {
   await s3Client.send(command)
 }
 
+/**
+ * Reads a file from S3 into memory
+ * Server-side only
+ */
+export async function downloadFileFromS3(key: string): Promise<Buffer> {
+  const command = new GetObjectCommand({
+    Bucket: process.env.AWS_BUCKET_NAME!,
+    Key: key
+  })
+
+  const response = await s3Client.send(command)
+  if (!response.Body) {
+    throw new Error(`S3 object ${key} has no body`)
+  }
+  return Buffer.from(await response.Body.transformToByteArray())
+}
+
 /**
  * Creates a pre-signed URL for downloading a file from S3
  * Server-side only
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildPadloxAssertion, describeDevice, isSignableMimeType, isSignableVideoType } from '../metadata';
+
+describe('isSignableMimeType', () => {
+  it('accepts images and MP4 but not WebM', () => {
+    expect(isSignableMimeType('image/jpeg')).toBe(true);
+    expect(isSignableMimeType('video/mp4; codecs="avc1.42E01E, mp4a.40.2"')).toBe(true);
+    expect(isSignableVideoType('video/mp4')).toBe(true);
+    expect(isSignableMimeType('video/webm')).toBe(false);
+  });
+});
+
+describe('buildPadloxAssertion', () => {
+  it('includes capture time, device and session', () => {
+    const assertion = buildPadloxAssertion({
+      name: 'Living room walkthrough',
+      description: null,
+      estimated_value: null,
+      capture: {
+        capture_time: '2025-06-01T10:00:00.000Z',
+        device_info: { camera_label: 'Back Camera', width: 1920, height: 1080 },
+        session_id: '6f1c1f6e-8a55-4a5f-9d9b-4f2b0a3c1d2e',
+      },
+    }, '2025-06-01T10:05:00.000Z');
+
+    expect(assertion).toMatchObject({
+      capture_time: '2025-06-01T10:00:00.000Z',
+      session_id: '6f1c1f6e-8a55-4a5f-9d9b-4f2b0a3c1d2e',
+      device_info: { software: 'Padlox Web App', camera_label: 'Back Camera', width: 1920, height: 1080 },
+    });
+  });
+
+  it('falls back to the signing time and omits a missing session', () => {
+    const assertion = buildPadloxAssertion({ name: 'Lamp', description: 'Brass', estimated_value: 80 }, '2025-06-01T10:05:00.000Z');
+    expect(assertion.capture_time).toBe('2025-06-01T10:05:00.000Z');
+    expect(assertion).not.toHaveProperty('session_id');
+    expect(assertion.estimated_value).toBe(80);
+  });
+});
+
+describe('describeDevice', () => {
+  it('reads the camera track settings', () => {
+    const track = {
+      label: 'FaceTime HD Camera',
+      getSettings: () => ({ facingMode: 'user', width: 1280, height: 720, frameRate: 30 }),
+    } as unknown as MediaStreamTrack;
+
+    expect(describeDevice(track, 'video/mp4')).toMatchObject({
+      camera_label: 'FaceTime HD Camera',
+      facing_mode: 'user',
+      width: 1280,
+      height: 720,
+      frame_rate: 30,
+      mime_type: 'video/mp4',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  createRemoteSigner,
+  describeSigner,
+  parseCertificateChain,
+  resolveSignerKind,
+  SignerConfigError,
+  validateCertificateChain,
+} from '../signer';
+
+const chainPem = readFileSync(path.join(process.cwd(), 'c2pa-test-certs/es256.pub'), 'utf8');
+const validAt = new Date('2026-01-01T00:00:00Z');
+
+describe('parseCertificateChain', () => {
+  it('reads the chain leaf first and describes the signer', () => {
+    const chain = parseCertificateChain(chainPem);
+    expect(chain).toHaveLength(2);
+
+    const identity = describeSigner('test', chain, 'es256');
+    expect(identity.subject).toBe('C2PA Signer');
+    expect(identity.issuer).toBe('Intermediate CA');
+    expect(identity.fingerprint_sha256).toMatch(/^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    expect(identity.key_id).toBeUndefined();
+  });
+
+  it('rejects text without certificates', () => {
+    expect(() => parseCertificateChain('not a certificate')).toThrow(SignerConfigError);
+  });
+});
+
+describe('validateCertificateChain', () => {
+  const chain = parseCertificateChain(chainPem);
+
+  it('accepts the test chain', () => {
+    expect(() => validateCertificateChain(chain, { algorithm: 'es256', now: validAt })).not.toThrow();
+  });
+
+  it('rejects expired certificates', () => {
+    expect(() => validateCertificateChain(chain, { algorithm: 'es256', now: new Date('2031-01-01T00:00:00Z') }))
+      .toThrow(/expired/);
+  });
+
+  it('rejects a chain that is not leaf first', () => {
+    expect(() => validateCertificateChain([...chain].reverse(), { algorithm: 'es256', now: validAt }))
+      .toThrow(SignerConfigError);
+  });
+
+  it('rejects an algorithm that does not match the key', () => {
+    expect(() => validateCertificateChain(chain, { algorithm: 'es384', now: validAt })).toThrow(/does not match/);
+  });
+
+  it('rejects a private key for another certificate', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    expect(() => validateCertificateChain(chain, { algorithm: 'es256', privateKey, now: validAt }))
+      .toThrow(/does not belong/);
+  });
+});
+
+describe('resolveSignerKind', () => {
+  it('uses C2PA_SIGNER when set and rejects unknown values', () => {
+    expect(resolveSignerKind({ NODE_ENV: 'production', C2PA_SIGNER: 'none' })).toBe('none');
+    expect(() => resolveSignerKind({ NODE_ENV: 'test', C2PA_SIGNER: 'hsm' })).toThrow(SignerConfigError);
+  });
+
+  it('infers the signer from the configured credentials', () => {
+    expect(resolveSignerKind({ NODE_ENV: 'production', C2PA_PRIVATE_KEY_PATH: '/keys/c2pa.pem' })).toBe('local');
+    expect(resolveSignerKind({ NODE_ENV: 'production', C2PA_KMS_SIGNER_URL: 'https://signer.internal' })).toBe('kms');
+    expect(resolveSignerKind({ NODE_ENV: 'development' })).toBe('test');
+  });
+
+  it('requires a signer in production', () => {
+    expect(() => resolveSignerKind({ NODE_ENV: 'production' })).toThrow(/No C2PA signer/);
+  });
+});
+
+describe('createRemoteSigner', () => {
+  it('records the key of the signing service', async () => {
+    const signed: Buffer[] = [];
+    const { identity, signer } = createRemoteSigner({
+      keyId: 'arn:aws:kms:us-east-2:123456789012:key/test',
+      certificateChainPem: chainPem,
+      reserveSize: async () => 10000,
+      sign: async (toBeSigned) => {
+        signed.push(toBeSigned);
+        return Buffer.from('cose');
+      },
+    }, 'es256', validAt);
+
+    expect(identity.kind).toBe('kms');
+    expect(identity.key_id).toBe('arn:aws:kms:us-east-2:123456789012:key/test');
+    expect(signer.type).toBe('remote');
+    if (signer.type !== 'remote') return;
+    expect(await signer.reserveSize()).toBe(10000);
+    expect(await signer.sign({ reserveSize: 10000, toBeSigned: Buffer.from('claim') })).toEqual(Buffer.from('cose'));
+    expect(signed).toHaveLength(1);
+  });
+});
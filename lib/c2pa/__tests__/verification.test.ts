@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { ResolvedManifestStore } from 'c2pa-node';
+import { buildVerificationReport, classifyValidationCode } from '../verification';
+import type { SignerIdentity } from '../metadata';
+
+const signer: SignerIdentity = {
+  kind: 'test',
+  algorithm: 'es256',
+  subject: 'C2PA Signer',
+  issuer: 'Intermediate CA',
+  serial_number: '1F',
+  fingerprint_sha256: 'AA',
+  not_before: '2024-01-01T00:00:00.000Z',
+  not_after: '2030-01-01T00:00:00.000Z',
+};
+
+function store(overrides: Partial<ResolvedManifestStore> = {}): ResolvedManifestStore {
+  const parent = {
+    label: 'urn:uuid:parent',
+    title: 'original.jpg',
+    claim_generator: 'Camera/2.0',
+    ingredients: [],
+    thumbnail: null,
+  };
+  const active = {
+    label: 'urn:uuid:active',
+    title: 'photo.jpg',
+    format: 'image/jpeg',
+    claim_generator: 'Padlox/1.0.0',
+    signature_info: { issuer: 'Padlox', cert_serial_number: '31', alg: 'Es256', time: '2025-06-01T10:00:00+00:00' },
+    assertions: [
+      { label: 'c2pa.actions', data: { actions: [{ action: 'c2pa.created' }] } },
+      { label: 'com.padlox.metadata', data: { capture_time: '2025-06-01T09:59:00.000Z', session_id: 's1' } },
+    ],
+    ingredients: [
+      { title: 'original.jpg', format: 'image/jpeg', relationship: 'parentOf', active_manifest: 'urn:uuid:parent', manifest: null, thumbnail: null },
+    ],
+    thumbnail: null,
+  };
+  return {
+    active_manifest: active,
+    manifests: { 'urn:uuid:active': active, 'urn:uuid:parent': parent },
+    validation_status: [],
+    ...overrides,
+  } as unknown as ResolvedManifestStore;
+}
+
+describe('classifyValidationCode', () => {
+  it('separates passed checks, trust warnings and failures', () => {
+    expect(classifyValidationCode('claimSignature.validated')).toBe('success');
+    expect(classifyValidationCode('signingCredential.untrusted')).toBe('warning');
+    expect(classifyValidationCode('signingCredential.ocsp.skipped')).toBe('info');
+    expect(classifyValidationCode('assertion.dataHash.mismatch')).toBe('error');
+  });
+});
+
+describe('buildVerificationReport', () => {
+  it('reports files without a manifest as unsigned', () => {
+    const report = buildVerificationReport(null, signer);
+    expect(report.status).toBe('unsigned');
+    expect(report.verified).toBe(false);
+    expect(report.active_manifest).toBeNull();
+  });
+
+  it('describes the active manifest, its signer and ingredient chain', () => {
+    const report = buildVerificationReport(store(), signer);
+
+    expect(report.status).toBe('valid');
+    expect(report.trusted).toBe(true);
+    // 0x1F == 31: c2pa reports serial numbers in decimal
+    expect(report.padlox_signer).toBe(true);
+    expect(report.manifest_count).toBe(2);
+    expect(report.active_manifest?.claim_generator).toBe('Padlox/1.0.0');
+    expect(report.active_manifest?.signer).toEqual({
+      issuer: 'Padlox',
+      common_name: null,
+      serial_number: '31',
+      algorithm: 'Es256',
+      time: '2025-06-01T10:00:00+00:00',
+    });
+    expect(report.active_manifest?.padlox_metadata).toEqual({ capture_time: '2025-06-01T09:59:00.000Z', session_id: 's1' });
+    expect(report.active_manifest?.ingredients).toEqual([
+      {
+        title: 'original.jpg',
+        format: 'image/jpeg',
+        relationship: 'parentOf',
+        manifest_label: 'urn:uuid:parent',
+        validation_status: [],
+        ingredients: [],
+      },
+    ]);
+  });
+
+  it('explains failed checks and untrusted certificates', () => {
+    const tampered = buildVerificationReport(store({
+      validation_status: [
+        { code: 'assertion.dataHash.mismatch', explanation: 'asset hash does not match', url: 'self#jumbf=c2pa.assertions/c2pa.hash.data' },
+        { code: 'signingCredential.untrusted', explanation: 'signing certificate untrusted' },
+      ],
+    }), signer);
+    expect(tampered.status).toBe('invalid');
+    expect(tampered.verified).toBe(false);
+    expect(tampered.reasons[0]).toContain('assertion.dataHash.mismatch');
+
+    const untrusted = buildVerificationReport(store({
+      validation_status: [{ code: 'signingCredential.untrusted' }],
+    }), { ...signer, serial_number: '20' });
+    expect(untrusted.status).toBe('untrusted');
+    expect(untrusted.verified).toBe(true);
+    expect(untrusted.trusted).toBe(false);
+    expect(untrusted.padlox_signer).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Verification of stored assets (server-side)
+ *
+ * Photos are verified from their uploaded file. Videos are verified from their signed copy,
+ * since the Mux playback version never carries a manifest, and items found in a video from
+ * that video's signed copy.
+ */
+import { SupabaseClient } from '@supabase/supabase-js'
+import { downloadFileFromS3 } from '@/lib/aws/s3'
+import { listHouseholdIds } from '@/lib/households'
+import { verifyMedia } from '@/utils/server/mediaSigningService'
+import { buildVerificationReport, VerificationReport } from './verification'
+
+export interface AssetVerification {
+  asset_id: string
+  /** The asset whose file was checked: the asset itself, or the video an item came from */
+  verified_asset_id: string | null
+  /** `media` for an uploaded photo, `signed_copy` for a video's signed copy */
+  source: 'media' | 'signed_copy' | null
+  file_name: string | null
+  mime_type: string | null
+  size: number | null
+  report: VerificationReport
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  avif: 'image/avif',
+}
+
+/** `media_url` holds an S3 key, or a full S3 URL for older uploads */
+function mediaKey(mediaUrl: string): string {
+  return mediaUrl.startsWith('http') ? decodeURIComponent(new URL(mediaUrl).pathname.slice(1)) : mediaUrl
+}
+
+function imageType(key: string): string | null {
+  const extension = key.split('.').pop()?.toLowerCase() ?? ''
+  return IMAGE_TYPES[extension] ?? null
+}
+
+function unsignedResult(assetId: string, verifiedAssetId: string | null, reason: string): AssetVerification {
+  const report = buildVerificationReport(null)
+  return {
+    asset_id: assetId,
+    verified_asset_id: verifiedAssetId,
+    source: null,
+    file_name: null,
+    mime_type: null,
+    size: null,
+    report: { ...report, reasons: [reason] },
+  }
+}
+
+/**
+ * Verifies the stored file behind an asset, or returns null when the asset does not exist in
+ * any of the user's households
+ */
+export async function verifyAsset(client: SupabaseClient, assetId: string, userId: string): Promise<AssetVerification | null> {
+  const householdIds = await listHouseholdIds(client, userId)
+  const { data: asset, error } = await client
+    .from('assets')
+    .select('id, media_type, media_url, source_video_id, signed_copy_key')
+    .eq('id', assetId)
+    .in('household_id', householdIds)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load asset ${assetId}: ${error.message}`)
+  if (!asset) return null
+
+  let video: { id: string; signed_copy_key: string | null } | null = asset.media_type === 'video' ? asset : null
+  if (asset.media_type === 'item') {
+    if (!asset.source_video_id) {
+      return unsignedResult(asset.id, null, 'This item was not found in a recording, so there is no signed file to check.')
+    }
+    const { data: source, error: sourceError } = await client
+      .from('assets')
+      .select('id, signed_copy_key')
+      .eq('id', asset.source_video_id)
+      .in('household_id', householdIds)
+      .maybeSingle()
+    if (sourceError) throw new Error(`Failed to load source video ${asset.source_video_id}: ${sourceError.message}`)
+    if (!source) {
+      return unsignedResult(asset.id, null, 'The recording this item was found in no longer exists.')
+    }
+    video = source
+  }
+
+  if (video) {
+    if (!video.signed_copy_key) {
+      return unsignedResult(asset.id, video.id, 'The recording has no signed copy (it was not recorded as MP4, or signing failed).')
+    }
+    const buffer = await downloadFileFromS3(video.signed_copy_key)
+    return {
+      asset_id: asset.id,
+      verified_asset_id: video.id,
+      source: 'signed_copy',
+      file_name: video.signed_copy_key.split('/').pop() ?? null,
+      mime_type: 'video/mp4',
+      size: buffer.length,
+      report: await verifyMedia(buffer, 'video/mp4'),
+    }
+  }
+
+  if (!asset.media_url) {
+    return unsignedResult(asset.id, asset.id, 'The asset has no uploaded file.')
+  }
+  const key = mediaKey(asset.media_url)
+  const mimeType = imageType(key)
+  if (!mimeType) {
+    return unsignedResult(asset.id, asset.id, 'The photo is in a format that cannot carry a C2PA manifest.')
+  }
+  const buffer = await downloadFileFromS3(key)
+  return {
+    asset_id: asset.id,
+    verified_asset_id: asset.id,
+    source: 'media',
+    file_name: key.split('/').pop() ?? null,
+    mime_type: mimeType,
+    size: buffer.length,
+    report: await verifyMedia(buffer, mimeType),
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * The `com.padlox.metadata` assertion and which media types can carry a C2PA manifest.
+ * Shared by the signing service and the clients that collect capture details.
+ */
+import { z } from 'zod'
+
+export const PADLOX_ASSERTION_LABEL = 'com.padlox.metadata'
+export const PADLOX_APP_VERSION = '1.0.0'
+
+/** c2pa supports BMFF video; WebM recordings (Firefox) cannot carry a manifest */
+export const SIGNABLE_VIDEO_TYPES = ['video/mp4'] as const
+
+/** Largest recording accepted for a signed copy */
+export const MAX_SIGNED_VIDEO_BYTES = 1024 * 1024 * 1024
+
+export function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase()
+}
+
+export function isSignableVideoType(mimeType: string): boolean {
+  return (SIGNABLE_VIDEO_TYPES as readonly string[]).includes(baseMimeType(mimeType))
+}
+
+export function isSignableMimeType(mimeType: string): boolean {
+  return baseMimeType(mimeType).startsWith('image/') || isSignableVideoType(mimeType)
+}
+
+export const DeviceInfoSchema = z.object({
+  user_agent: z.string().max(512).optional(),
+  platform: z.string().max(128).optional(),
+  camera_label: z.string().max(256).optional(),
+  facing_mode: z.string().max(32).optional(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  frame_rate: z.number().positive().optional(),
+  mime_type: z.string().max(128).optional(),
+})
+
+export type DeviceInfo = z.infer<typeof DeviceInfoSchema>
+
+/** Details about the recording itself, added to `com.padlox.metadata` */
+export interface CaptureMetadata {
+  capture_time?: string | null
+  device_info?: DeviceInfo | null
+  session_id?: string | null
+}
+
+export interface SignableMetadata {
+  name: string
+  description: string | null
+  estimated_value: number | null
+  capture?: CaptureMetadata
+}
+
+/**
+ * The payload of the `com.padlox.metadata` assertion. Capture time falls back to the signing
+ * time when the client did not report one.
+ */
+export function buildPadloxAssertion(metadata: SignableMetadata, signedAt = new Date().toISOString()) {
+  const capture = metadata.capture ?? {}
+  return {
+    description: metadata.description || '',
+    estimated_value: metadata.estimated_value || 0,
+    capture_time: capture.capture_time || signedAt,
+    app_version: PADLOX_APP_VERSION,
+    device_info: {
+      software: 'Padlox Web App',
+      version: PADLOX_APP_VERSION,
+      ...(capture.device_info ?? {}),
+    },
+    ...(capture.session_id ? { session_id: capture.session_id } : {}),
+  }
+}
+
+/**
+ * Reads the device details available to the browser for the camera track being recorded
+ */
+export function describeDevice(track?: MediaStreamTrack | null, mimeType?: string): DeviceInfo {
+  const settings = track?.getSettings?.() ?? {}
+  const info: DeviceInfo = {
+    user_agent: typeof navigator !== 'undefined' ? navigator.userAgent.slice(0, 512) : undefined,
+    platform: typeof navigator !== 'undefined' ? navigator.platform?.slice(0, 128) || undefined : undefined,
+    camera_label: track?.label ? track.label.slice(0, 256) : undefined,
+    facing_mode: typeof settings.facingMode === 'string' ? settings.facingMode : undefined,
+    width: settings.width || undefined,
+    height: settings.height || undefined,
+    frame_rate: settings.frameRate || undefined,
+    mime_type: mimeType,
+  }
+  return Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)) as DeviceInfo
+}
+
+export type SignerKind = 'local' | 'kms' | 'test'
+
+/** Who signed a manifest: the leaf certificate of the active signer */
+export type SignerIdentity = {
+  kind: SignerKind
+  algorithm: string
+  subject: string
+  issuer: string
+  serial_number: string
+  fingerprint_sha256: string
+  not_before: string
+  not_after: string
+  /** Remote (KMS-style) signers only: the key the signing service used */
+  key_id?: string
+}
+
+/** What is stored in `assets.signature_data` for signed media; a type, so it is assignable to `Json` */
+export type SignatureData = {
+  standard: 'c2pa'
+  manifest_label: string | null
+  signed_at: string
+  signer: SignerIdentity
+  assertions: { [PADLOX_ASSERTION_LABEL]: ReturnType<typeof buildPadloxAssertion> }
+}
+
+export function buildSignatureData(
+  metadata: SignableMetadata,
+  signed: { signedAt: string; manifestLabel: string | null; signer: SignerIdentity }
+): SignatureData {
+  return {
+    standard: 'c2pa',
+    manifest_label: signed.manifestLabel,
+    signed_at: signed.signedAt,
+    signer: signed.signer,
+    assertions: { [PADLOX_ASSERTION_LABEL]: buildPadloxAssertion(metadata, signed.signedAt) },
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Signed copies of recorded videos (server-side)
+ *
+ * Streaming recordings go to Mux chunk by chunk while the camera is still running, and Mux
+ * re-encodes them for playback, so the playback version can never carry a manifest. Once a
+ * recording finishes, the client sends the original MP4 here: it is signed with C2PA, stored
+ * in S3 and linked from the source video asset for later verification.
+ */
+import { createHash } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Json } from '@/lib/db/schema'
+import { createPresignedDownloadUrl, uploadFileToS3 } from '@/lib/aws/s3'
+import { RecordingSession } from '@/lib/sessions'
+import { signMedia } from '@/utils/server/mediaSigningService'
+import { buildSignatureData, DeviceInfo, SignableMetadata, SignatureData } from './metadata'
+
+export interface SignedRecording {
+  assetId: string
+  key: string
+  sha256: string
+  size: number
+  signature: SignatureData
+}
+
+/**
+ * Raised when a recording cannot be signed: the format cannot carry a manifest, signing is
+ * disabled, or the session has no video yet
+ */
+export class SignedCopyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'SignedCopyError'
+  }
+}
+
+export function sha256Hex(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+/**
+ * Signs the original recording of a session and stores it as the source video's signed copy.
+ * The capture time is the session's start as recorded by the server, falling back to the
+ * client's clock for sessions that were never started.
+ */
+export async function storeSignedRecording(
+  client: SupabaseClient,
+  session: RecordingSession,
+  recording: { buffer: Buffer; mimeType: string; fileName: string; captureTime?: string | null; deviceInfo?: DeviceInfo | null }
+): Promise<SignedRecording> {
+  if (!session.asset_id) {
+    throw new SignedCopyError('Session has no video asset yet', 409)
+  }
+
+  const { data: asset, error } = await client
+    .from('assets')
+    .select('id, name, description, estimated_value, signed_copy_key')
+    .eq('id', session.asset_id)
+    .eq('user_id', session.user_id)
+    .single()
+  if (error || !asset) {
+    throw new SignedCopyError('Video asset not found', 404)
+  }
+  if (asset.signed_copy_key) {
+    throw new SignedCopyError('Video already has a signed copy', 409)
+  }
+
+  const metadata: SignableMetadata = {
+    name: asset.name,
+    description: asset.description,
+    estimated_value: asset.estimated_value,
+    capture: {
+      capture_time: session.started_at ?? recording.captureTime ?? null,
+      device_info: recording.deviceInfo ?? null,
+      session_id: session.id,
+    },
+  }
+
+  const signed = await signMedia(recording.buffer, recording.mimeType, recording.fileName, metadata)
+  if (!signed.signed || !signed.signer) {
+    throw new SignedCopyError('C2PA signing is not available for this recording', 422)
+  }
+
+  const sha256 = sha256Hex(signed.buffer)
+  const { key } = await uploadFileToS3(signed.buffer, `session-${session.id}.mp4`, 'video/mp4', session.user_id, {
+    'asset-id': asset.id,
+    'session-id': session.id,
+    'c2pa-signed': 'true',
+    'sha256': sha256,
+  })
+
+  const signature = buildSignatureData(metadata, { ...signed, signer: signed.signer })
+
+  const { error: updateError } = await client
+    .from('assets')
+    .update({
+      is_signed: true,
+      signature_data: signature satisfies Json,
+      signed_copy_key: key,
+      signed_copy_sha256: sha256,
+      signed_copy_size: signed.buffer.length,
+    })
+    .eq('id', asset.id)
+  if (updateError) {
+    throw new Error(`Failed to record signed copy on ${asset.id}: ${updateError.message}`)
+  }
+
+  return { assetId: asset.id, key, sha256, size: signed.buffer.length, signature }
+}
+
+/**
+ * The signed copy of a video with a short-lived download URL, or null if it has none
+ */
+export async function getSignedRecording(client: SupabaseClient, assetId: string, userId: string) {
+  const { data: asset, error } = await client
+    .from('assets')
+    .select('id, signed_copy_key, signed_copy_sha256, signed_copy_size, signature_data')
+    .eq('id', assetId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load asset ${assetId}: ${error.message}`)
+  if (!asset) return null
+
+  return {
+    assetId: asset.id,
+    signed: !!asset.signed_copy_key,
+    sha256: asset.signed_copy_sha256,
+    size: asset.signed_copy_size,
+    signature: asset.signature_data,
+    downloadUrl: asset.signed_copy_key ? await createPresignedDownloadUrl(asset.signed_copy_key) : null,
+  }
+}
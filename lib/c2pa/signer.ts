@@ -0,0 +1,365 @@
+/**
+ * C2PA signers (server-side)
+ *
+ * `C2PA_SIGNER` picks how manifests are signed:
+ * - `local`: a PEM certificate chain and private key from configuration
+ * - `kms`: a remote signing service that holds the key, e.g. in a KMS; this server only
+ *   has the public certificate chain
+ * - `test`: the c2pa test certificates in `c2pa-test-certs/` (never in production)
+ * - `none`: signing disabled
+ *
+ * Unset, it is `local` when a private key is configured, `kms` when a signing service URL is,
+ * and `test` outside production. Every signer's certificate chain is validated when it is
+ * created, and its leaf certificate becomes the identity recorded on signed assets.
+ */
+import { createPrivateKey, KeyObject, X509Certificate } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type { LocalSigner, RemoteSigner, Signer, SigningAlgorithm } from 'c2pa-node'
+import { SignerIdentity, SignerKind } from './metadata'
+
+export const SIGNING_ALGORITHMS = ['es256', 'es384', 'es512', 'ps256', 'ps384', 'ps512', 'ed25519'] as const
+export type SignerAlgorithm = (typeof SIGNING_ALGORITHMS)[number]
+
+/** Extended key usages C2PA accepts for claim signing certificates */
+const C2PA_SIGNING_EKUS = [
+  '1.3.6.1.5.5.7.3.4', // emailProtection
+  '1.3.6.1.5.5.7.3.36', // documentSigning
+  '1.3.6.1.4.1.311.76.59.1.9', // Microsoft C2PA signing
+  '1.3.6.1.4.1.62558.2.1', // c2pa-kp-claimSigning
+]
+
+export interface PadloxSigner {
+  identity: SignerIdentity
+  /** Handed to c2pa-node */
+  signer: Signer
+}
+
+/**
+ * Raised when the signer configuration or its certificate chain is unusable
+ */
+export class SignerConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SignerConfigError'
+  }
+}
+
+export function isSigningAlgorithm(value: unknown): value is SignerAlgorithm {
+  return typeof value === 'string' && (SIGNING_ALGORITHMS as readonly string[]).includes(value)
+}
+
+/**
+ * Splits a PEM bundle into certificates, leaf first
+ */
+export function parseCertificateChain(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? []
+  if (blocks.length === 0) {
+    throw new SignerConfigError('Certificate chain contains no PEM certificates')
+  }
+  return blocks.map((block, index) => {
+    try {
+      return new X509Certificate(block)
+    } catch (error) {
+      throw new SignerConfigError(`Certificate ${index + 1} in the chain is not valid: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+}
+
+function keyMatchesAlgorithm(key: KeyObject, algorithm: SignerAlgorithm): boolean {
+  const curve = key.asymmetricKeyDetails?.namedCurve
+  switch (algorithm) {
+    case 'es256':
+      return key.asymmetricKeyType === 'ec' && curve === 'prime256v1'
+    case 'es384':
+      return key.asymmetricKeyType === 'ec' && curve === 'secp384r1'
+    case 'es512':
+      return key.asymmetricKeyType === 'ec' && curve === 'secp521r1'
+    case 'ps256':
+    case 'ps384':
+    case 'ps512':
+      return key.asymmetricKeyType === 'rsa' || key.asymmetricKeyType === 'rsa-pss'
+    case 'ed25519':
+      return key.asymmetricKeyType === 'ed25519'
+  }
+}
+
+/**
+ * Checks that the chain can sign C2PA claims: every certificate is in its validity period,
+ * each one is issued and signed by the next, the leaf is an end-entity certificate with a
+ * C2PA signing usage and a key for the algorithm, and (for local signers) the private key
+ * belongs to the leaf.
+ */
+export function validateCertificateChain(
+  chain: X509Certificate[],
+  options: { algorithm: SignerAlgorithm; privateKey?: KeyObject; now?: Date }
+): void {
+  const now = options.now ?? new Date()
+  const [leaf] = chain
+
+  chain.forEach((certificate, index) => {
+    const label = index === 0 ? 'Signing certificate' : `Chain certificate ${index + 1}`
+    if (new Date(certificate.validFrom) > now) {
+      throw new SignerConfigError(`${label} is not valid until ${certificate.validFrom}`)
+    }
+    if (new Date(certificate.validTo) < now) {
+      throw new SignerConfigError(`${label} expired on ${certificate.validTo}`)
+    }
+
+    const issuer = chain[index + 1]
+    if (issuer && !(certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey))) {
+      throw new SignerConfigError(`${label} is not issued by the next certificate in the chain; list the chain leaf first`)
+    }
+    if (index > 0 && !certificate.ca) {
+      throw new SignerConfigError(`${label} is not a CA certificate`)
+    }
+  })
+
+  if (leaf.ca) {
+    throw new SignerConfigError('Signing certificate must not be a CA certificate')
+  }
+  if (leaf.keyUsage && !leaf.keyUsage.some((usage) => C2PA_SIGNING_EKUS.includes(usage))) {
+    throw new SignerConfigError(`Signing certificate has no extended key usage accepted by C2PA (has ${leaf.keyUsage.join(', ')})`)
+  }
+  if (!keyMatchesAlgorithm(leaf.publicKey, options.algorithm)) {
+    throw new SignerConfigError(`Signing certificate key (${leaf.publicKey.asymmetricKeyType}) does not match algorithm ${options.algorithm}`)
+  }
+  if (options.privateKey && !leaf.checkPrivateKey(options.privateKey)) {
+    throw new SignerConfigError('Private key does not belong to the signing certificate')
+  }
+}
+
+function commonName(distinguishedName: string): string {
+  const match = distinguishedName.match(/(?:^|\n)CN=([^\n]+)/)
+  return match ? match[1] : distinguishedName.replace(/\n/g, ', ')
+}
+
+export function describeSigner(
+  kind: SignerKind,
+  chain: X509Certificate[],
+  algorithm: SignerAlgorithm,
+  keyId?: string
+): SignerIdentity {
+  const [leaf] = chain
+  return {
+    kind,
+    algorithm,
+    subject: commonName(leaf.subject),
+    issuer: commonName(leaf.issuer),
+    serial_number: leaf.serialNumber,
+    fingerprint_sha256: leaf.fingerprint256,
+    not_before: new Date(leaf.validFrom).toISOString(),
+    not_after: new Date(leaf.validTo).toISOString(),
+    ...(keyId ? { key_id: keyId } : {}),
+  }
+}
+
+export interface LocalSignerConfig {
+  certificateChainPem: string
+  privateKeyPem: string
+  algorithm: SignerAlgorithm
+  tsaUrl?: string
+}
+
+/**
+ * Signs in-process with a PEM key. Also used for the test certificates.
+ */
+export function createLocalSigner(config: LocalSignerConfig, kind: 'local' | 'test' = 'local', now?: Date): PadloxSigner {
+  const chain = parseCertificateChain(config.certificateChainPem)
+  let privateKey: KeyObject
+  try {
+    privateKey = createPrivateKey(config.privateKeyPem)
+  } catch (error) {
+    throw new SignerConfigError(`Private key is not valid: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  validateCertificateChain(chain, { algorithm: config.algorithm, privateKey, now })
+
+  const signer: LocalSigner = {
+    type: 'local',
+    certificate: Buffer.from(config.certificateChainPem),
+    privateKey: Buffer.from(config.privateKeyPem),
+    algorithm: config.algorithm as SigningAlgorithm,
+    ...(config.tsaUrl ? { tsaUrl: config.tsaUrl } : {}),
+  }
+  return { identity: describeSigner(kind, chain, config.algorithm), signer }
+}
+
+/**
+ * A service that holds the signing key and returns the COSE_Sign1 signature for a claim
+ */
+export interface RemoteSigningService {
+  /** Identifies the key, e.g. a KMS key ARN */
+  keyId: string
+  /** The public chain of the service's key, leaf first */
+  certificateChainPem: string
+  reserveSize(): Promise<number>
+  sign(toBeSigned: Buffer, reserveSize: number): Promise<Buffer>
+}
+
+/**
+ * Signs through a remote signing service. The chain is validated here too, since it is what
+ * verifiers will see; only the key check is left to the service.
+ */
+export function createRemoteSigner(service: RemoteSigningService, algorithm: SignerAlgorithm, now?: Date): PadloxSigner {
+  const chain = parseCertificateChain(service.certificateChainPem)
+  validateCertificateChain(chain, { algorithm, now })
+
+  const signer: RemoteSigner = {
+    type: 'remote',
+    reserveSize: () => service.reserveSize(),
+    sign: ({ toBeSigned, reserveSize }) => service.sign(toBeSigned, reserveSize),
+  }
+  return { identity: describeSigner('kms', chain, algorithm, service.keyId), signer }
+}
+
+/**
+ * A signing service reached over HTTP: `GET <url>/box-size` and `POST <url>/sign?boxSize=`
+ */
+export function createHttpSigningService(config: {
+  url: string
+  token?: string
+  keyId: string
+  certificateChainPem: string
+}): RemoteSigningService {
+  const headers: Record<string, string> = config.token ? { Authorization: `Bearer ${config.token}` } : {}
+  const baseUrl = config.url.replace(/\/+$/, '')
+
+  return {
+    keyId: config.keyId,
+    certificateChainPem: config.certificateChainPem,
+    async reserveSize() {
+      const response = await fetch(`${baseUrl}/box-size`, { headers })
+      if (!response.ok) throw new Error(`Signing service box-size failed: ${response.status}`)
+      const { boxSize } = (await response.json()) as { boxSize: number }
+      return boxSize
+    },
+    async sign(toBeSigned, reserveSize) {
+      const response = await fetch(`${baseUrl}/sign?boxSize=${reserveSize}`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+        body: toBeSigned,
+      })
+      if (!response.ok) throw new Error(`Signing service sign failed: ${response.status}`)
+      return Buffer.from(await response.arrayBuffer())
+    },
+  }
+}
+
+export type SignClaimBytes = (props: { claim: Buffer; reserveSize: number; signer: LocalSigner }) => Promise<Buffer>
+
+/**
+ * Stand-in for a KMS-backed signing service that keeps the key in-process. Lets tests and
+ * local setups exercise the remote signing path without a signing service.
+ */
+export function createLocalSigningService(
+  config: LocalSignerConfig & { keyId?: string },
+  signClaimBytes: SignClaimBytes
+): RemoteSigningService {
+  const { signer } = createLocalSigner(config)
+  const chainBytes = parseCertificateChain(config.certificateChainPem).reduce((sum, certificate) => sum + certificate.raw.length, 0)
+
+  return {
+    keyId: config.keyId ?? 'local-stand-in',
+    certificateChainPem: config.certificateChainPem,
+    // Room for the chain, the signature and COSE headers, plus a timestamp if one is requested
+    reserveSize: async () => chainBytes + 2048 + (config.tsaUrl ? 10240 : 0),
+    sign: (claim, reserveSize) => signClaimBytes({ claim, reserveSize, signer: signer as LocalSigner }),
+  }
+}
+
+function readPemFile(file: string, label: string): string {
+  try {
+    return fs.readFileSync(path.resolve(process.cwd(), file), 'utf8')
+  } catch (error) {
+    throw new SignerConfigError(`Could not read ${label} (${file}): ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/** PEM from `<NAME>` (newlines may be escaped as \n) or from the file at `<NAME>_PATH` */
+function readPem(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  if (env[name]) return env[name]!.replace(/\\n/g, '\n')
+  const file = env[`${name}_PATH`]
+  return file ? readPemFile(file, `${name}_PATH`) : undefined
+}
+
+export type SignerChoice = SignerKind | 'none'
+
+export function resolveSignerKind(env: NodeJS.ProcessEnv = process.env): SignerChoice {
+  const configured = env.C2PA_SIGNER
+  if (configured) {
+    if (!['local', 'kms', 'test', 'none'].includes(configured)) {
+      throw new SignerConfigError(`C2PA_SIGNER must be local, kms, test or none (got ${configured})`)
+    }
+    return configured as SignerChoice
+  }
+  if (env.C2PA_PRIVATE_KEY || env.C2PA_PRIVATE_KEY_PATH) return 'local'
+  if (env.C2PA_KMS_SIGNER_URL) return 'kms'
+  if (env.NODE_ENV !== 'production') return 'test'
+  throw new SignerConfigError('No C2PA signer is configured: set C2PA_SIGNER (local, kms or none) and its certificate chain')
+}
+
+/**
+ * Builds the signer described by the environment, or null when signing is disabled
+ */
+export function createSignerFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  deps: { signClaimBytes?: SignClaimBytes } = {}
+): PadloxSigner | null {
+  const kind = resolveSignerKind(env)
+  if (kind === 'none') return null
+  if (kind === 'test' && env.NODE_ENV === 'production') {
+    throw new SignerConfigError('The test signer cannot be used in production')
+  }
+
+  const algorithm = env.C2PA_SIGNING_ALGORITHM ?? 'es256'
+  if (!isSigningAlgorithm(algorithm)) {
+    throw new SignerConfigError(`C2PA_SIGNING_ALGORITHM must be one of ${SIGNING_ALGORITHMS.join(', ')}`)
+  }
+
+  if (kind === 'test') {
+    return createLocalSigner({
+      certificateChainPem: readPemFile('c2pa-test-certs/es256.pub', 'the test certificate chain'),
+      privateKeyPem: readPemFile('c2pa-test-certs/es256.pem', 'the test signing key'),
+      algorithm: 'es256',
+      tsaUrl: 'http://timestamp.digicert.com',
+    }, 'test')
+  }
+
+  const certificateChainPem = readPem(env, 'C2PA_CERTIFICATE_CHAIN')
+  if (!certificateChainPem) {
+    throw new SignerConfigError(`C2PA_CERTIFICATE_CHAIN (or C2PA_CERTIFICATE_CHAIN_PATH) is required for the ${kind} signer`)
+  }
+
+  if (kind === 'local') {
+    const privateKeyPem = readPem(env, 'C2PA_PRIVATE_KEY')
+    if (!privateKeyPem) {
+      throw new SignerConfigError('C2PA_PRIVATE_KEY (or C2PA_PRIVATE_KEY_PATH) is required for the local signer')
+    }
+    return createLocalSigner({ certificateChainPem, privateKeyPem, algorithm, tsaUrl: env.C2PA_TSA_URL })
+  }
+
+  // kms: a signing service, or the in-process stand-in when C2PA_KMS_STANDIN is set
+  if (env.C2PA_KMS_STANDIN === 'true') {
+    const privateKeyPem = readPem(env, 'C2PA_PRIVATE_KEY')
+    if (!privateKeyPem || !deps.signClaimBytes) {
+      throw new SignerConfigError('The KMS stand-in needs C2PA_PRIVATE_KEY')
+    }
+    return createRemoteSigner(
+      createLocalSigningService({ certificateChainPem, privateKeyPem, algorithm, keyId: env.C2PA_KMS_KEY_ID }, deps.signClaimBytes),
+      algorithm
+    )
+  }
+
+  if (!env.C2PA_KMS_SIGNER_URL || !env.C2PA_KMS_KEY_ID) {
+    throw new SignerConfigError('C2PA_KMS_SIGNER_URL and C2PA_KMS_KEY_ID are required for the kms signer')
+  }
+  return createRemoteSigner(
+    createHttpSigningService({
+      url: env.C2PA_KMS_SIGNER_URL,
+      token: env.C2PA_KMS_SIGNER_TOKEN,
+      keyId: env.C2PA_KMS_KEY_ID,
+      certificateChainPem,
+    }),
+    algorithm
+  )
+}
@@ -0,0 +1,254 @@
+/**
+ * C2PA verification reports
+ *
+ * Turns the manifest store c2pa reads from a file into the report returned by `/api/verify`
+ * and shown in the asset modal: the active manifest, who signed it and when, its assertions,
+ * the ingredient chain and every validation status code with an explanation. Browser-safe.
+ */
+import type { ResolvedManifest, ResolvedManifestStore, types } from 'c2pa-node'
+import { PADLOX_ASSERTION_LABEL, SignerIdentity } from './metadata'
+
+type ManifestAssertion = types.ManifestAssertion
+
+/** Deepest ingredient nesting included in a report */
+const MAX_INGREDIENT_DEPTH = 8
+
+export type ValidationSeverity = 'success' | 'info' | 'warning' | 'error'
+
+/**
+ * - `valid`: signature and hashes check out
+ * - `untrusted`: intact, but the signing certificate is not on the trust list
+ * - `invalid`: a signature or hash check failed, so the file or manifest was changed
+ * - `unsigned`: the file has no C2PA manifest
+ */
+export type VerificationStatus = 'valid' | 'untrusted' | 'invalid' | 'unsigned'
+
+export interface ValidationStatusEntry {
+  code: string
+  severity: ValidationSeverity
+  explanation: string | null
+  /** The part of the manifest the code is about */
+  url: string | null
+}
+
+export interface ManifestSigner {
+  issuer: string | null
+  common_name: string | null
+  serial_number: string | null
+  algorithm: string | null
+  /** Signing time from the timestamp authority, if the signature was timestamped */
+  time: string | null
+}
+
+export interface ReportAssertion {
+  label: string
+  kind: string | null
+  instance: number | null
+  data: unknown
+}
+
+export interface ReportIngredient {
+  title: string
+  format: string | null
+  relationship: string | null
+  manifest_label: string | null
+  validation_status: ValidationStatusEntry[]
+  ingredients: ReportIngredient[]
+}
+
+export interface ReportManifest {
+  label: string | null
+  title: string | null
+  format: string | null
+  claim_generator: string | null
+  signer: ManifestSigner | null
+  assertions: ReportAssertion[]
+  /** The `com.padlox.metadata` payload, if the manifest has one */
+  padlox_metadata: Record<string, unknown> | null
+  ingredients: ReportIngredient[]
+}
+
+export interface VerificationReport {
+  status: VerificationStatus
+  /** A manifest is present and no signature or hash check failed */
+  verified: boolean
+  /** Verified, and the certificate is trusted */
+  trusted: boolean
+  /**
+   * Whether the certificate is the one Padlox signs with now; null when signing is disabled
+   * or the report has no signer
+   */
+  padlox_signer: boolean | null
+  /** Plain-language reasons for the status, most serious first */
+  reasons: string[]
+  active_manifest: ReportManifest | null
+  manifest_count: number
+  validation_status: ValidationStatusEntry[]
+}
+
+const SUCCESS_CODE = /\.(validated|trusted|match|insideValidity|accessible|notRevoked)$/
+const TRUST_CODES = ['signingCredential.untrusted', 'timeStamp.untrusted']
+const INFO_CODE = /\.(skipped|unknownProvenance)$/
+
+export function classifyValidationCode(code: string): ValidationSeverity {
+  if (TRUST_CODES.includes(code)) return 'warning'
+  if (SUCCESS_CODE.test(code)) return 'success'
+  if (INFO_CODE.test(code)) return 'info'
+  return 'error'
+}
+
+function toEntries(statuses: { code: string; explanation?: string | null; url?: string | null }[] | null | undefined) {
+  return (statuses ?? []).map((status): ValidationStatusEntry => ({
+    code: status.code,
+    severity: classifyValidationCode(status.code),
+    explanation: status.explanation ?? null,
+    url: status.url ?? null,
+  }))
+}
+
+/** c2pa reports serial numbers in decimal, Node's X509Certificate in hex */
+function sameSerialNumber(reported: string, hex: string): boolean {
+  try {
+    const expected = BigInt(`0x${hex}`)
+    return BigInt(/^\d+$/.test(reported) ? reported : `0x${reported}`) === expected
+  } catch {
+    return false
+  }
+}
+
+function describeManifestSigner(manifest: ResolvedManifest): ManifestSigner | null {
+  const info = manifest.signature_info
+  if (!info) return null
+  return {
+    issuer: info.issuer ?? null,
+    common_name: info.common_name ?? null,
+    serial_number: info.cert_serial_number ?? null,
+    algorithm: info.alg ?? null,
+    time: info.time ?? null,
+  }
+}
+
+function describeIngredients(
+  store: ResolvedManifestStore,
+  manifest: ResolvedManifest,
+  depth: number,
+  seen: Set<string>
+): ReportIngredient[] {
+  if (depth >= MAX_INGREDIENT_DEPTH) return []
+  return (manifest.ingredients ?? []).map((ingredient) => {
+    const label = ingredient.active_manifest ?? null
+    // An ingredient's manifest can itself list ingredients; follow each label once
+    const parent = label && !seen.has(label) ? store.manifests[label] : undefined
+    if (label) seen.add(label)
+    return {
+      title: ingredient.title,
+      format: ingredient.format ?? null,
+      relationship: ingredient.relationship ?? null,
+      manifest_label: label,
+      validation_status: toEntries(ingredient.validation_status),
+      ingredients: parent ? describeIngredients(store, parent, depth + 1, seen) : [],
+    }
+  })
+}
+
+function describeManifest(store: ResolvedManifestStore, manifest: ResolvedManifest): ReportManifest {
+  const assertions = ((manifest.assertions ?? []) as ManifestAssertion[]).map((assertion): ReportAssertion => ({
+    label: assertion.label,
+    kind: assertion.kind ?? null,
+    instance: assertion.instance ?? null,
+    data: assertion.data,
+  }))
+  const padlox = assertions.find((assertion) => assertion.label === PADLOX_ASSERTION_LABEL)
+
+  return {
+    label: manifest.label ?? null,
+    title: manifest.title ?? null,
+    format: manifest.format ?? null,
+    claim_generator: manifest.claim_generator ?? null,
+    signer: describeManifestSigner(manifest),
+    assertions,
+    padlox_metadata: padlox && padlox.data && typeof padlox.data === 'object' ? (padlox.data as Record<string, unknown>) : null,
+    ingredients: describeIngredients(store, manifest, 0, new Set(manifest.label ? [manifest.label] : [])),
+  }
+}
+
+/**
+ * Builds the report for a manifest store as read by c2pa (null when the file has none).
+ * `signer` is the active Padlox signer, used to tell whether the file was signed by us.
+ */
+export function buildVerificationReport(
+  store: ResolvedManifestStore | null,
+  signer: SignerIdentity | null = null
+): VerificationReport {
+  const validation = toEntries(store?.validation_status)
+  const active = store?.active_manifest ?? null
+
+  if (!store || !active) {
+    return {
+      status: 'unsigned',
+      verified: false,
+      trusted: false,
+      padlox_signer: null,
+      reasons: ['The file has no C2PA manifest, so its origin and history cannot be checked.'],
+      active_manifest: null,
+      manifest_count: 0,
+      validation_status: validation,
+    }
+  }
+
+  const manifest = describeManifest(store, active)
+  const errors = validation.filter((entry) => entry.severity === 'error')
+  const warnings = validation.filter((entry) => entry.severity === 'warning')
+  const status: VerificationStatus = errors.length > 0 ? 'invalid' : warnings.length > 0 ? 'untrusted' : 'valid'
+
+  const serial = manifest.signer?.serial_number
+  const padloxSigner = signer && serial ? sameSerialNumber(serial, signer.serial_number) : null
+
+  const reasons = [
+    ...errors.map((entry) => `Check failed (${entry.code})${entry.explanation ? `: ${entry.explanation}` : ''}`),
+    ...warnings.map((entry) =>
+      entry.code === 'timeStamp.untrusted'
+        ? 'The signing time comes from a timestamp authority that is not trusted.'
+        : 'The signing certificate does not chain to a trusted C2PA certificate authority.'
+    ),
+  ]
+  if (status === 'valid') {
+    reasons.push('The signature is valid and the content matches what was signed.')
+  }
+  if (padloxSigner === false) {
+    reasons.push(`Signed by ${manifest.signer?.issuer ?? 'an unknown issuer'}, not by the certificate Padlox signs with.`)
+  }
+  if (!manifest.padlox_metadata) {
+    reasons.push(`The manifest has no ${PADLOX_ASSERTION_LABEL} assertion, so it was not created by Padlox.`)
+  }
+  if (!manifest.signer?.time) {
+    reasons.push('The signature has no trusted timestamp; the signing time is only as reliable as the certificate.')
+  }
+
+  return {
+    status,
+    verified: status !== 'invalid',
+    trusted: status === 'valid',
+    padlox_signer: padloxSigner,
+    reasons,
+    active_manifest: manifest,
+    manifest_count: Object.keys(store.manifests ?? {}).length,
+    validation_status: validation,
+  }
+}
+
+/**
+ * The report for a manifest c2pa could not parse: it is present but damaged
+ */
+export function buildUnreadableReport(message: string): VerificationReport {
+  return {
+    status: 'invalid',
+    verified: false,
+    trusted: false,
+    padlox_signer: null,
+    reasons: [`The C2PA manifest could not be read: ${message}`],
+    active_manifest: null,
+    manifest_count: 0,
+    validation_status: [{ code: 'manifest.unreadable', severity: 'error', explanation: message, url: null }],
+  }
+}
@@ -6,48 +6,769 @@ export type Json =
     | { [key: string]: Json | undefined }
     | Json[]
 
+/**
+ * Normalized bounding box of a detection within a frame (all values 0-1)
+ */
+export interface BoundingBox {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
 /**
  * scratch_items: Table for storing frame-by-frame analysis data
  */
 export interface ScratchItemsTable {
     Row: {
         id: string
-        session_id: string
-        captured_at: string
-        caption: string | null
+        name: string
         description: string | null
-        category: string | null
         estimated_value: number | null
-        image_url: string
-        confidence: number | null
-        bounding_box: Json | null
-        sequence_order: number | null
+        video_timestamp: number | null // Seconds from the start of the recording
+        user_id: string | null // references auth.users
+        mux_asset_id: string | null
+        bounding_box: Json | null // BoundingBox
+        image_url: string | null // Cropped detection thumbnail
+        session_id: string | null // references sessions
+        household_id: string | null // references households; set from the writer when omitted
+        updated_at: string | null
     }
     Insert: {
         id?: string
-        session_id: string
-        captured_at?: string
-        caption?: string | null
+        name: string
         description?: string | null
-        category?: string | null
         estimated_value?: number | null
-        image_url: string
-        confidence?: number | null
+        video_timestamp?: number | null
+        user_id?: string | null
+        mux_asset_id?: string | null
         bounding_box?: Json | null
-        sequence_order?: number | null
+        image_url?: string | null
+        session_id?: string | null
+        household_id?: string | null
+        updated_at?: string | null
     }
     Update: {
         id?: string
-        session_id?: string
-        captured_at?: string
-        caption?: string | null
+        name?: string
         description?: string | null
-        category?: string | null
         estimated_value?: number | null
-        image_url?: string
-        confidence?: number | null
+        video_timestamp?: number | null
+        user_id?: string | null
+        mux_asset_id?: string | null
         bounding_box?: Json | null
-        sequence_order?: number | null
+        image_url?: string | null
+        session_id?: string | null
+        household_id?: string | null
+        updated_at?: string | null
+    }
+}
+
+/**
+ * Lifecycle of a recording session, see lib/sessions for the allowed transitions
+ */
+export type SessionStatus = 'created' | 'recording' | 'completed' | 'merging' | 'merged' | 'aborted' | 'failed'
+
+/**
+ * sessions: One row per streaming recording, linking the Mux upload, the source video asset
+ * and the scratch items produced by frame analysis
+ */
+export interface SessionsTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users
+        status: SessionStatus
+        mux_upload_id: string | null
+        mux_asset_id: string | null // Set once Mux creates the asset from the upload
+        asset_id: string | null // references assets (the source video)
+        scratch_done: boolean // Client has stopped sending frames
+        started_at: string | null
+        last_heartbeat_at: string | null
+        completed_at: string | null
+        aborted_at: string | null
+        abort_reason: string | null
+        merge_started_at: string | null
+        merged_at: string | null
+        merge_error: string | null
+        frame_count: number // Frames accepted by /api/frame
+        frame_bytes: number // Total bytes of accepted frames
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        user_id: string
+        status?: SessionStatus
+        mux_upload_id?: string | null
+        mux_asset_id?: string | null
+        asset_id?: string | null
+        scratch_done?: boolean
+        started_at?: string | null
+        last_heartbeat_at?: string | null
+        completed_at?: string | null
+        aborted_at?: string | null
+        abort_reason?: string | null
+        merge_started_at?: string | null
+        merged_at?: string | null
+        merge_error?: string | null
+        frame_count?: number
+        frame_bytes?: number
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        status?: SessionStatus
+        mux_upload_id?: string | null
+        mux_asset_id?: string | null
+        asset_id?: string | null
+        scratch_done?: boolean
+        started_at?: string | null
+        last_heartbeat_at?: string | null
+        completed_at?: string | null
+        aborted_at?: string | null
+        abort_reason?: string | null
+        merge_started_at?: string | null
+        merged_at?: string | null
+        merge_error?: string | null
+        frame_count?: number
+        frame_bytes?: number
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead'
+
+/**
+ * jobs: Durable background work (transcription, transcript analysis, merge), see lib/jobs
+ */
+export interface JobsTable {
+    Row: {
+        id: string
+        type: string // JobType in lib/jobs
+        payload: Json
+        status: JobStatus
+        idempotency_key: string | null
+        user_id: string | null // references auth.users
+        asset_id: string | null // references assets
+        attempts: number // Incremented when a worker claims the job
+        max_attempts: number
+        run_at: string // Earliest time the next attempt may run
+        locked_at: string | null
+        locked_by: string | null // Worker ID holding the job
+        last_error: string | null
+        result: Json | null
+        completed_at: string | null
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        type: string
+        payload?: Json
+        status?: JobStatus
+        idempotency_key?: string | null
+        user_id?: string | null
+        asset_id?: string | null
+        attempts?: number
+        max_attempts?: number
+        run_at?: string
+        locked_at?: string | null
+        locked_by?: string | null
+        last_error?: string | null
+        result?: Json | null
+        completed_at?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        type?: string
+        payload?: Json
+        status?: JobStatus
+        idempotency_key?: string | null
+        user_id?: string | null
+        asset_id?: string | null
+        attempts?: number
+        max_attempts?: number
+        run_at?: string
+        locked_at?: string | null
+        locked_by?: string | null
+        last_error?: string | null
+        result?: Json | null
+        completed_at?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+/**
+ * Where an item's estimated value (replacement cost) came from
+ */
+export type ValuationSource = 'ai_frame' | 'ai_transcript' | 'user_edit' | 'receipt'
+
+/**
+ * Whether an item is part of the inventory. AI-generated items start as pending until a
+ * household owner or editor accepts or rejects them.
+ */
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * valuations: Append-only history of assets.estimated_value, written by a database trigger
+ */
+export interface ValuationsTable {
+    Row: {
+        id: string
+        asset_id: string // references assets
+        user_id: string // references auth.users
+        source: ValuationSource
+        value: number | null
+        previous_value: number | null
+        created_at: string
+    }
+    Insert: {
+        id?: string
+        asset_id: string
+        user_id: string
+        source: ValuationSource
+        value?: number | null
+        previous_value?: number | null
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        asset_id?: string
+        user_id?: string
+        source?: ValuationSource
+        value?: number | null
+        previous_value?: number | null
+        created_at?: string
+    }
+}
+
+/**
+ * depreciation_rules: Per-user overrides of the default depreciation schedule, see lib/valuation
+ */
+export interface DepreciationRulesTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users; the member who last set the rule
+        household_id: string // references households
+        category: string // ItemCategory in lib/valuation
+        useful_life_years: number | null // null: does not depreciate
+        salvage_percent: number // Floor for actual cash value, 0-100
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        user_id: string
+        household_id: string
+        category: string
+        useful_life_years?: number | null
+        salvage_percent?: number
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        household_id?: string
+        category?: string
+        useful_life_years?: number | null
+        salvage_percent?: number
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+export type ItemDocumentKind = 'receipt' | 'warranty' | 'appraisal' | 'manual' | 'other'
+
+export type DocumentExtractionStatus = 'pending' | 'processing' | 'completed' | 'error'
+
+/**
+ * item_documents: Receipts, warranties, appraisals and manuals attached to items, see lib/documents
+ */
+export interface ItemDocumentsTable {
+    Row: {
+        id: string
+        asset_id: string // references assets (media_type 'item')
+        user_id: string // references auth.users
+        kind: ItemDocumentKind
+        file_name: string
+        content_type: string
+        size_bytes: number
+        s3_key: string // Under the owner's user ID prefix
+        extraction_status: DocumentExtractionStatus
+        extracted_fields: Json | null // ExtractedDocumentFields in lib/documents
+        extraction_error: string | null
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        asset_id: string
+        user_id: string
+        kind: ItemDocumentKind
+        file_name: string
+        content_type: string
+        size_bytes: number
+        s3_key: string
+        extraction_status?: DocumentExtractionStatus
+        extracted_fields?: Json | null
+        extraction_error?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        asset_id?: string
+        user_id?: string
+        kind?: ItemDocumentKind
+        file_name?: string
+        content_type?: string
+        size_bytes?: number
+        s3_key?: string
+        extraction_status?: DocumentExtractionStatus
+        extracted_fields?: Json | null
+        extraction_error?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+/**
+ * What a usage event meters: vision frames, LLM tokens, Deepgram audio or Mux video
+ */
+export type UsageKind = 'vision' | 'llm' | 'transcription' | 'video'
+
+/**
+ * usage_events: One row per billable provider call, see lib/usage
+ */
+export interface UsageEventsTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users
+        kind: UsageKind
+        operation: string // Pipeline step, e.g. process_frame
+        provider: string | null
+        model: string | null
+        input_tokens: number
+        output_tokens: number
+        bytes: number
+        duration_seconds: number
+        asset_id: string | null // references assets
+        dedupe_key: string | null // Counts retried or replayed work once
+        created_at: string
+    }
+    Insert: {
+        id?: string
+        user_id: string
+        kind: UsageKind
+        operation: string
+        provider?: string | null
+        model?: string | null
+        input_tokens?: number
+        output_tokens?: number
+        bytes?: number
+        duration_seconds?: number
+        asset_id?: string | null
+        dedupe_key?: string | null
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        kind?: UsageKind
+        operation?: string
+        provider?: string | null
+        model?: string | null
+        input_tokens?: number
+        output_tokens?: number
+        bytes?: number
+        duration_seconds?: number
+        asset_id?: string | null
+        dedupe_key?: string | null
+        created_at?: string
+    }
+}
+
+/**
+ * usage_limits: Per-user overrides of the default quotas and rate limits (null: unlimited)
+ */
+export interface UsageLimitsTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users
+        kind: UsageKind
+        monthly_quota: number | null // Units per calendar month, see lib/usage
+        per_minute_limit: number | null
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        user_id: string
+        kind: UsageKind
+        monthly_quota?: number | null
+        per_minute_limit?: number | null
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        kind?: UsageKind
+        monthly_quota?: number | null
+        per_minute_limit?: number | null
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'room' | 'tags'
+
+/**
+ * Who made a change: the user, the AI pipeline, or another server process
+ */
+export type AuditActor = 'user' | 'ai' | 'system'
+
+/**
+ * audit_log: Append-only, hash-chained log of inventory changes, written by database triggers
+ */
+export interface AuditLogTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users
+        seq: number
+        asset_id: string | null // no foreign key, entries outlive deleted assets
+        action: AuditAction
+        actor: AuditActor
+        actor_id: string | null
+        changes: Json
+        payload: string
+        prev_hash: string
+        hash: string
+        created_at: string
+    }
+    // Rows are only ever written by the triggers; the table rejects updates
+    Insert: {
+        id?: string
+        user_id: string
+        seq: number
+        asset_id?: string | null
+        action: AuditAction
+        actor: AuditActor
+        actor_id?: string | null
+        changes: Json
+        payload: string
+        prev_hash: string
+        hash: string
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        seq?: number
+        asset_id?: string | null
+        action?: AuditAction
+        actor?: AuditActor
+        actor_id?: string | null
+        changes?: Json
+        payload?: string
+        prev_hash?: string
+        hash?: string
+        created_at?: string
+    }
+}
+
+/**
+ * share_links: Read-only links to a user's inventory for insurers and adjusters, see lib/share
+ */
+export interface ShareLinksTable {
+    Row: {
+        id: string
+        user_id: string // references auth.users
+        household_id: string // references households; set from the creator when omitted
+        token_hash: string // sha256 of the token, which is never stored
+        label: string | null
+        room_id: string | null // references rooms; limits the link to one room
+        tag_id: string | null // references tags; limits the link to one tag
+        expires_at: string
+        revoked_at: string | null
+        last_accessed_at: string | null
+        created_at: string
+    }
+    Insert: {
+        id?: string
+        user_id: string
+        household_id?: string
+        token_hash: string
+        label?: string | null
+        room_id?: string | null
+        tag_id?: string | null
+        expires_at: string
+        revoked_at?: string | null
+        last_accessed_at?: string | null
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        user_id?: string
+        household_id?: string
+        token_hash?: string
+        label?: string | null
+        room_id?: string | null
+        tag_id?: string | null
+        expires_at?: string
+        revoked_at?: string | null
+        last_accessed_at?: string | null
+        created_at?: string
+    }
+}
+
+export type ShareLinkResource = 'inventory' | 'playback'
+
+export type ShareLinkAccessOutcome = 'granted' | 'expired' | 'revoked' | 'out_of_scope'
+
+/**
+ * share_link_access_log: One row per use of a share link, written by the server
+ */
+export interface ShareLinkAccessLogTable {
+    Row: {
+        id: string
+        share_link_id: string // references share_links
+        user_id: string // owner of the link
+        resource: ShareLinkResource
+        asset_id: string | null // no foreign key, the log outlives deleted assets
+        outcome: ShareLinkAccessOutcome
+        ip_address: string | null
+        user_agent: string | null
+        accessed_at: string
+    }
+    Insert: {
+        id?: string
+        share_link_id: string
+        user_id: string
+        resource: ShareLinkResource
+        asset_id?: string | null
+        outcome: ShareLinkAccessOutcome
+        ip_address?: string | null
+        user_agent?: string | null
+        accessed_at?: string
+    }
+    Update: {
+        id?: string
+        share_link_id?: string
+        user_id?: string
+        resource?: ShareLinkResource
+        asset_id?: string | null
+        outcome?: ShareLinkAccessOutcome
+        ip_address?: string | null
+        user_agent?: string | null
+        accessed_at?: string
+    }
+}
+
+export type HouseholdRole = 'owner' | 'editor' | 'viewer'
+
+/**
+ * households: A shared inventory; assets, tags and rooms belong to one household, see lib/households
+ */
+export interface HouseholdsTable {
+    Row: {
+        id: string
+        name: string
+        created_by: string | null // references auth.users; made owner on insert
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        name: string
+        created_by?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        name?: string
+        created_by?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+/**
+ * household_members: Who belongs to a household and with which role
+ */
+export interface HouseholdMembersTable {
+    Row: {
+        household_id: string // references households
+        user_id: string // references auth.users
+        role: HouseholdRole
+        created_at: string
+    }
+    Insert: {
+        household_id: string
+        user_id: string
+        role: HouseholdRole
+        created_at?: string
+    }
+    Update: {
+        household_id?: string
+        user_id?: string
+        role?: HouseholdRole
+        created_at?: string
+    }
+}
+
+/**
+ * household_invitations: Invitations to join a household, accepted through a one-time token
+ */
+export interface HouseholdInvitationsTable {
+    Row: {
+        id: string
+        household_id: string // references households
+        email: string
+        role: Exclude<HouseholdRole, 'owner'>
+        token_hash: string // sha256 of the token, which is never stored
+        invited_by: string | null // references auth.users
+        expires_at: string
+        accepted_at: string | null
+        accepted_by: string | null // references auth.users
+        revoked_at: string | null
+        created_at: string
+    }
+    Insert: {
+        id?: string
+        household_id: string
+        email: string
+        role: Exclude<HouseholdRole, 'owner'>
+        token_hash: string
+        invited_by?: string | null
+        expires_at: string
+        accepted_at?: string | null
+        accepted_by?: string | null
+        revoked_at?: string | null
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        household_id?: string
+        email?: string
+        role?: Exclude<HouseholdRole, 'owner'>
+        token_hash?: string
+        invited_by?: string | null
+        expires_at?: string
+        accepted_at?: string | null
+        accepted_by?: string | null
+        revoked_at?: string | null
+        created_at?: string
+    }
+}
+
+/**
+ * properties: A home, rental or storage unit in a household, with its contents policy, see lib/properties
+ */
+export interface PropertiesTable {
+    Row: {
+        id: string
+        household_id: string // references households
+        name: string // unique per household
+        address: string | null
+        insurer: string | null
+        policy_number: string | null
+        coverage_limit: number | null
+        policy_renews_on: string | null
+        created_by: string | null // references auth.users
+        created_at: string
+        updated_at: string
+    }
+    Insert: {
+        id?: string
+        household_id: string
+        name: string
+        address?: string | null
+        insurer?: string | null
+        policy_number?: string | null
+        coverage_limit?: number | null
+        policy_renews_on?: string | null
+        created_by?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+    Update: {
+        id?: string
+        household_id?: string
+        name?: string
+        address?: string | null
+        insurer?: string | null
+        policy_number?: string | null
+        coverage_limit?: number | null
+        policy_renews_on?: string | null
+        created_by?: string | null
+        created_at?: string
+        updated_at?: string
+    }
+}
+
+/**
+ * item_sightings: Further appearances of an item in recordings, kept when duplicates are merged, see lib/items
+ */
+export interface ItemSightingsTable {
+    Row: {
+        id: string
+        asset_id: string // references assets
+        source_video_id: string // references assets (the recording)
+        item_timestamp: number | null
+        origin_asset_id: string | null // the merged item it came from
+        created_by: string | null // references auth.users
+        created_at: string
+    }
+    Insert: {
+        id?: string
+        asset_id: string
+        source_video_id: string
+        item_timestamp?: number | null
+        origin_asset_id?: string | null
+        created_by?: string | null
+        created_at?: string
+    }
+    Update: {
+        id?: string
+        asset_id?: string
+        source_video_id?: string
+        item_timestamp?: number | null
+        origin_asset_id?: string | null
+        created_by?: string | null
+        created_at?: string
+    }
+}
+
+/**
+ * item_duplicate_dismissals: Item pairs a user said are different things, see lib/items/duplicates
+ */
+export interface ItemDuplicateDismissalsTable {
+    Row: {
+        asset_id: string // references assets; the lower id of the pair
+        other_asset_id: string // references assets
+        dismissed_by: string | null // references auth.users
+        created_at: string
+    }
+    Insert: {
+        asset_id: string
+        other_asset_id: string
+        dismissed_by?: string | null
+        created_at?: string
+    }
+    Update: {
+        asset_id?: string
+        other_asset_id?: string
+        dismissed_by?: string | null
+        created_at?: string
     }
 }
 
@@ -63,6 +784,8 @@ export interface Database {
                     avatar_url: string | null
                     phone_number: string | null
                     address: string | null
+                    active_household_id: string | null // references households
+                    active_property_id: string | null // references properties
                     updated_at: string
                 }
                 Insert: {
@@ -73,6 +796,8 @@ export interface Database {
                     avatar_url?: string | null
                     phone_number?: string | null
                     address?: string | null
+                    active_household_id?: string | null
+                    active_property_id?: string | null
                     updated_at?: string
                 }
                 Update: {
@@ -83,6 +808,8 @@ export interface Database {
                     avatar_url?: string | null
                     phone_number?: string | null
                     address?: string | null
+                    active_household_id?: string | null
+                    active_property_id?: string | null
                     updated_at?: string
                 }
             }
@@ -90,7 +817,9 @@ export interface Database {
                 Row: {
                     id: string
                     created_at: string
-                    user_id: string // references auth.users
+                    user_id: string // references auth.users; the member the item belongs to ("owned by")
+                    household_id: string // references households; decides who can see and edit it
+                    property_id: string // references properties; follows the item's room
                     name: string
                     description: string | null
                     estimated_value: number | null
@@ -115,12 +844,38 @@ export interface Database {
                     is_source_video: boolean // Added flag for source video vs item
                     source_video_id: string | null // Added link to source video asset
                     item_timestamp: number | null // Added timestamp for items
+                    thumbnail_url: string | null // Cropped detection thumbnail for items
+                    bounding_box: Json | null // BoundingBox within the frame at item_timestamp
                     is_processed: boolean // Added flag for overall processing status
+                    // Valuation fields (estimated_value is the replacement cost)
+                    category: string | null // ItemCategory in lib/valuation
+                    purchase_date: string | null
+                    purchase_price: number | null
+                    value_source: ValuationSource | null
+                    // Proof-of-ownership fields, usually read from an attached receipt
+                    purchase_merchant: string | null
+                    serial_number: string | null
+                    model_number: string | null
+                    // C2PA-signed copy of the original recording (source videos only)
+                    signed_copy_key: string | null
+                    signed_copy_sha256: string | null
+                    signed_copy_size: number | null
+                    // Review of AI-generated items (see lib/review)
+                    review_status: ReviewStatus
+                    ai_confidence: number | null
+                    ai_provenance: Json | null // ItemProvenance in lib/review
+                    reviewed_by: string | null
+                    reviewed_at: string | null
+                    // Duplicate detection across recordings (see lib/items/duplicates)
+                    thumbnail_hash: string | null // dHash of the thumbnail
+                    last_seen_at: string | null // Latest recording the item appears in
                 }
                 Insert: {
                     id?: string
                     created_at?: string
                     user_id: string // references auth.users
+                    household_id?: string // Defaults to the source video's or the writer's household
+                    property_id?: string // Defaults to the source video's or the writer's property
                     name: string
                     description?: string | null
                     estimated_value?: number | null
@@ -145,12 +900,33 @@ export interface Database {
                     is_source_video?: boolean // Default should be handled by DB or logic
                     source_video_id?: string | null
                     item_timestamp?: number | null
+                    thumbnail_url?: string | null
+                    bounding_box?: Json | null
                     is_processed?: boolean // Added flag for overall processing status
+                    category?: string | null
+                    purchase_date?: string | null
+                    purchase_price?: number | null
+                    value_source?: ValuationSource | null
+                    purchase_merchant?: string | null
+                    serial_number?: string | null
+                    model_number?: string | null
+                    signed_copy_key?: string | null
+                    signed_copy_sha256?: string | null
+                    signed_copy_size?: number | null
+                    review_status?: ReviewStatus
+                    ai_confidence?: number | null
+                    ai_provenance?: Json | null
+                    reviewed_by?: string | null
+                    reviewed_at?: string | null
+                    thumbnail_hash?: string | null
+                    last_seen_at?: string | null
                 }
                 Update: {
                     id?: string
                     created_at?: string
                     user_id?: string // references auth.users
+                    household_id?: string
+                    property_id?: string
                     name?: string
                     description?: string | null
                     estimated_value?: number | null
@@ -175,7 +951,26 @@ export interface Database {
                     is_source_video?: boolean
                     source_video_id?: string | null
                     item_timestamp?: number | null
+                    thumbnail_url?: string | null
+                    bounding_box?: Json | null
                     is_processed?: boolean // Added flag for overall processing status
+                    category?: string | null
+                    purchase_date?: string | null
+                    purchase_price?: number | null
+                    value_source?: ValuationSource | null
+                    purchase_merchant?: string | null
+                    serial_number?: string | null
+                    model_number?: string | null
+                    signed_copy_key?: string | null
+                    signed_copy_sha256?: string | null
+                    signed_copy_size?: number | null
+                    review_status?: ReviewStatus
+                    ai_confidence?: number | null
+                    ai_provenance?: Json | null
+                    reviewed_by?: string | null
+                    reviewed_at?: string | null
+                    thumbnail_hash?: string | null
+                    last_seen_at?: string | null
                 }
             }
             webhook_events: {
@@ -191,6 +986,10 @@ export interface Database {
                     mux_upload_id: string | null
                     mux_correlation_id: string | null
                     asset_id: string | null // Link to our assets table
+                    processing_error: string | null
+                    signature_verified: boolean
+                    replay_count: number
+                    last_replayed_at: string | null
                 }
                 Insert: {
                     id?: number
@@ -204,6 +1003,10 @@ export interface Database {
                     mux_upload_id?: string | null
                     mux_correlation_id?: string | null
                     asset_id?: string | null
+                    processing_error?: string | null
+                    signature_verified?: boolean
+                    replay_count?: number
+                    last_replayed_at?: string | null
                 }
                 Update: {
                     id?: number
@@ -217,6 +1020,10 @@ export interface Database {
                     mux_upload_id?: string | null
                     mux_correlation_id?: string | null
                     asset_id?: string | null
+                    processing_error?: string | null
+                    signature_verified?: boolean
+                    replay_count?: number
+                    last_replayed_at?: string | null
                 }
             }
             broadcast: {
@@ -243,22 +1050,41 @@ export interface Database {
                 }
             }
             scratch_items: ScratchItemsTable
+            sessions: SessionsTable
+            jobs: JobsTable
+            valuations: ValuationsTable
+            depreciation_rules: DepreciationRulesTable
+            item_documents: ItemDocumentsTable
+            usage_events: UsageEventsTable
+            usage_limits: UsageLimitsTable
+            audit_log: AuditLogTable
+            share_links: ShareLinksTable
+            share_link_access_log: ShareLinkAccessLogTable
+            households: HouseholdsTable
+            household_members: HouseholdMembersTable
+            household_invitations: HouseholdInvitationsTable
+            properties: PropertiesTable
+            item_sightings: ItemSightingsTable
+            item_duplicate_dismissals: ItemDuplicateDismissalsTable
             tags: {
                 Row: {
                     id: string
-                    user_id: string
+                    user_id: string // Member who created it
+                    household_id: string // references households; names are unique per household
                     name: string
                     created_at: string
                 }
                 Insert: {
                     id?: string
                     user_id: string
+                    household_id?: string
                     name: string
                     created_at?: string
                 }
                 Update: {
                     id?: string
                     user_id?: string
+                    household_id?: string
                     name?: string
                     created_at?: string
                 }
@@ -266,19 +1092,25 @@ export interface Database {
             rooms: {
                 Row: {
                     id: string
-                    user_id: string
+                    user_id: string // Member who created it
+                    household_id: string // references households
+                    property_id: string // references properties; names are unique per property
                     name: string
                     created_at: string
                 }
                 Insert: {
                     id?: string
                     user_id: string
+                    household_id?: string
+                    property_id?: string
                     name: string
                     created_at?: string
                 }
                 Update: {
                     id?: string
                     user_id?: string
+                    household_id?: string
+                    property_id?: string
                     name?: string
                     created_at?: string
                 }
@@ -322,6 +1154,58 @@ export interface Database {
                     message: string
                 }
             }
+            claim_jobs: {
+                Args: {
+                    p_worker: string
+                    p_limit?: number
+                    p_types?: string[] | null
+                    p_lock_timeout_seconds?: number
+                }
+                Returns: JobsTable['Row'][]
+            }
+            record_session_frame: {
+                Args: {
+                    p_session_id: string
+                    p_user_id: string
+                    p_bytes: number
+                    p_max_frames: number
+                    p_max_bytes: number
+                }
+                Returns: {
+                    accepted: boolean
+                    reason: 'session_not_found' | 'not_recording' | 'frame_limit' | 'byte_limit' | null
+                    frame_count: number
+                    frame_bytes: number
+                }[]
+            }
+            usage_totals: {
+                Args: {
+                    p_user_id: string
+                    p_since: string
+                    p_until?: string | null
+                }
+                Returns: {
+                    kind: UsageKind
+                    operation: string
+                    events: number
+                    input_tokens: number
+                    output_tokens: number
+                    bytes: number
+                    duration_seconds: number
+                }[]
+            }
+            search_inventory: {
+                Args: {
+                    p_property_id: string
+                    p_query: string
+                    p_limit?: number
+                }
+                Returns: {
+                    asset_id: string
+                    rank: number
+                    matched_fields: string[]
+                }[]
+            }
             process_static_rendition_webhooks: {
                 Args: Record<string, never> // No arguments expected
                 Returns: void // Or define return type if needed
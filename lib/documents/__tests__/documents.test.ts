@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DocumentTargetAsset,
+  ExtractedDocumentFields,
+  isAcceptedDocumentType,
+  itemUpdatesFromExtraction,
+  normalizeExtractedFields,
+} from '../index';
+
+const EMPTY_ITEM: DocumentTargetAsset = {
+  purchase_merchant: null,
+  purchase_date: null,
+  purchase_price: null,
+  serial_number: null,
+  model_number: null,
+  estimated_value: 900,
+  value_source: 'ai_frame',
+};
+
+const RECEIPT: ExtractedDocumentFields = {
+  merchant: 'Best Buy',
+  purchase_date: '2024-11-29',
+  price: 1199.99,
+  serial_number: 'C02XK0ABJG5H',
+  model_number: 'A2338',
+};
+
+describe('normalizeExtractedFields', () => {
+  it('drops malformed dates and negative prices and trims text', () => {
+    expect(normalizeExtractedFields({
+      merchant: '  Best Buy ',
+      purchase_date: 'Nov 29, 2024',
+      price: -5,
+      serial_number: '',
+      model_number: 'A2338',
+    })).toEqual({
+      merchant: 'Best Buy',
+      purchase_date: null,
+      price: null,
+      serial_number: null,
+      model_number: 'A2338',
+    });
+  });
+
+  it('rounds prices to cents', () => {
+    expect(normalizeExtractedFields({ price: 19.999 }).price).toBe(20);
+  });
+});
+
+describe('itemUpdatesFromExtraction', () => {
+  it('fills purchase details from a receipt without touching the estimated value', () => {
+    expect(itemUpdatesFromExtraction(EMPTY_ITEM, 'receipt', RECEIPT)).toEqual({
+      purchase_merchant: 'Best Buy',
+      purchase_date: '2024-11-29',
+      purchase_price: 1199.99,
+      serial_number: 'C02XK0ABJG5H',
+      model_number: 'A2338',
+    });
+  });
+
+  it('never overwrites fields the item already has', () => {
+    const item = { ...EMPTY_ITEM, purchase_price: 1000, serial_number: 'TYPED-BY-USER' };
+    const updates = itemUpdatesFromExtraction(item, 'receipt', RECEIPT);
+    expect(updates.purchase_price).toBeUndefined();
+    expect(updates.serial_number).toBeUndefined();
+  });
+
+  it('takes the replacement cost from an appraisal unless the user set one', () => {
+    const appraisal = { ...RECEIPT, price: 4500 };
+    expect(itemUpdatesFromExtraction(EMPTY_ITEM, 'appraisal', appraisal)).toMatchObject({
+      estimated_value: 4500,
+      value_source: 'receipt',
+    });
+    const edited = { ...EMPTY_ITEM, value_source: 'user_edit' as const };
+    expect(itemUpdatesFromExtraction(edited, 'appraisal', appraisal).estimated_value).toBeUndefined();
+  });
+
+  it('only uses serial and model numbers from warranties and manuals', () => {
+    expect(itemUpdatesFromExtraction(EMPTY_ITEM, 'warranty', RECEIPT)).toEqual({
+      serial_number: 'C02XK0ABJG5H',
+      model_number: 'A2338',
+    });
+  });
+});
+
+describe('isAcceptedDocumentType', () => {
+  it('accepts PDFs and common image types', () => {
+    expect(isAcceptedDocumentType('application/pdf')).toBe(true);
+    expect(isAcceptedDocumentType('image/webp')).toBe(true);
+    expect(isAcceptedDocumentType('video/mp4')).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Server-side document extraction: reads an attached file with the `document` model task
+ * and applies the result to the item. Runs in the `extract_document` job.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentExtractionStatus, ItemDocumentKind, ItemDocumentsTable, Json } from '@/lib/db/schema';
+import { generateObjectForTask } from '@/lib/ai/generate';
+import { downloadFileFromS3 } from '@/lib/aws/s3';
+import { enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { recordModelUsage } from '@/lib/usage';
+import {
+  DocumentTargetAsset,
+  ExtractedDocumentFields,
+  ExtractedDocumentFieldsSchema,
+  ItemDocument,
+  itemUpdatesFromExtraction,
+  normalizeExtractedFields,
+} from './index';
+
+function extractionPrompt(kind: ItemDocumentKind, itemName: string): string {
+  return `You are reading a ${kind} attached as proof of ownership for a household item named "${itemName}".
+Extract these fields for that item. Use null for anything the document does not show clearly; do not guess.
+- merchant: the store, seller or appraiser
+- purchase_date: the purchase date (or appraisal date) as YYYY-MM-DD
+- price: the amount paid for this item (not the order total if it lists several items), or the appraised value, as a number in US dollars
+- serial_number: the item's serial number
+- model_number: the item's model or part number`;
+}
+
+/**
+ * Asks the document model to read the file. PDFs go in as file parts, images as image parts.
+ * Returns the model call alongside the fields so the caller can meter it.
+ */
+export async function extractDocumentFields(
+  file: Buffer,
+  contentType: string,
+  kind: ItemDocumentKind,
+  itemName: string
+) {
+  const filePart = contentType === 'application/pdf'
+    ? { type: 'file' as const, data: file, mimeType: contentType }
+    : { type: 'image' as const, image: file, mimeType: contentType };
+
+  const result = await generateObjectForTask({
+    task: 'document',
+    schema: ExtractedDocumentFieldsSchema,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: extractionPrompt(kind, itemName) },
+          filePart,
+        ],
+      },
+    ],
+  });
+
+  console.log(`[Documents] Extracted fields with ${result.model.provider}:${result.model.modelId}`);
+  return { fields: normalizeExtractedFields(result.object), model: result.model, usage: result.usage };
+}
+
+async function setExtractionStatus(
+  client: SupabaseClient,
+  documentId: string,
+  status: DocumentExtractionStatus,
+  extra: ItemDocumentsTable['Update'] = {}
+): Promise<void> {
+  const { error } = await client
+    .from('item_documents')
+    .update({ extraction_status: status, ...extra })
+    .eq('id', documentId);
+  if (error) throw new Error(`Failed to update document ${documentId}: ${error.message}`);
+}
+
+/**
+ * Runs extraction for one document and applies the result to its item. Used by the
+ * `extract_document` job; errors are recorded on the document and rethrown for a retry.
+ */
+export async function processItemDocument(
+  client: SupabaseClient,
+  documentId: string
+): Promise<{ fields: ExtractedDocumentFields; updatedFields: string[] }> {
+  const { data: document, error } = await client
+    .from('item_documents')
+    .select('*')
+    .eq('id', documentId)
+    .single();
+  if (error || !document) throw new Error(`Document ${documentId} not found: ${error?.message ?? 'no data'}`);
+
+  const doc = document as ItemDocument;
+  await setExtractionStatus(client, doc.id, 'processing', { extraction_error: null });
+
+  try {
+    const { data: asset, error: assetError } = await client
+      .from('assets')
+      .select('id, name, purchase_merchant, purchase_date, purchase_price, serial_number, model_number, estimated_value, value_source')
+      .eq('id', doc.asset_id)
+      .single();
+    if (assetError || !asset) throw new Error(`Item ${doc.asset_id} not found: ${assetError?.message ?? 'no data'}`);
+
+    const file = await downloadFileFromS3(doc.s3_key);
+    const { fields, ...call } = await extractDocumentFields(file, doc.content_type, doc.kind, asset.name);
+    await recordModelUsage(client, {
+      userId: doc.user_id,
+      kind: 'llm',
+      operation: 'extract_document',
+      assetId: doc.asset_id,
+    }, call);
+
+    const updates = itemUpdatesFromExtraction(asset as DocumentTargetAsset, doc.kind, fields);
+    if (Object.keys(updates).length > 0) {
+      const { error: updateError } = await client.from('assets').update(updates).eq('id', asset.id);
+      if (updateError) throw new Error(`Failed to update item ${asset.id}: ${updateError.message}`);
+    }
+
+    await setExtractionStatus(client, doc.id, 'completed', {
+      extracted_fields: fields as unknown as Json,
+      extraction_error: null,
+    });
+    return { fields, updatedFields: Object.keys(updates) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await setExtractionStatus(client, doc.id, 'error', { extraction_error: message }).catch((statusError) => {
+      console.error(`[Documents] Could not record extraction error for ${doc.id}:`, statusError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Queues extraction for a document. Re-queuing an extracted document runs it again.
+ */
+export async function queueDocumentExtraction(client: SupabaseClient, document: ItemDocument): Promise<void> {
+  await enqueueJob(client, {
+    type: 'extract_document',
+    payload: { document_id: document.id },
+    idempotencyKey: `extract_document:document:${document.id}`,
+    userId: document.user_id,
+    assetId: document.asset_id,
+    requeue: true,
+  });
+  kickJobWorker();
+}
@@ -0,0 +1,120 @@
+/**
+ * Proof-of-ownership documents attached to items
+ *
+ * Receipts, warranties, appraisals and manuals are uploaded to S3 under the owner's prefix
+ * and recorded in `item_documents`. An `extract_document` job then has a model read each
+ * file and copies what it finds (merchant, purchase date, price, serial and model number)
+ * onto the item. Extraction only fills fields the item does not have yet, so it never
+ * overwrites what the user typed.
+ *
+ * This module is safe to import from the browser; the extraction itself is in ./extract.ts.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { Database, ItemDocumentKind, ItemDocumentsTable } from '@/lib/db/schema';
+
+export type ItemDocument = ItemDocumentsTable['Row'];
+
+export const DOCUMENT_KINDS: readonly ItemDocumentKind[] = ['receipt', 'warranty', 'appraisal', 'manual', 'other'];
+
+export const DOCUMENT_KIND_LABELS: Record<ItemDocumentKind, string> = {
+  receipt: 'Receipt',
+  warranty: 'Warranty',
+  appraisal: 'Appraisal',
+  manual: 'Manual',
+  other: 'Other',
+};
+
+export const ACCEPTED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'] as const;
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+export function isDocumentKind(value: unknown): value is ItemDocumentKind {
+  return typeof value === 'string' && (DOCUMENT_KINDS as readonly string[]).includes(value);
+}
+
+export function isAcceptedDocumentType(contentType: string): boolean {
+  return (ACCEPTED_DOCUMENT_TYPES as readonly string[]).includes(contentType);
+}
+
+export const ExtractedDocumentFieldsSchema = z.object({
+  merchant: z.string().nullable().describe('Store, seller or appraiser name'),
+  purchase_date: z.string().nullable().describe('Purchase or appraisal date as YYYY-MM-DD'),
+  price: z.number().nullable().describe('Price paid for this item, or the appraised value, in US dollars'),
+  serial_number: z.string().nullable(),
+  model_number: z.string().nullable(),
+});
+
+export type ExtractedDocumentFields = z.infer<typeof ExtractedDocumentFieldsSchema>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function cleanText(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, 200) : null;
+}
+
+/**
+ * Drops values the model was not sure enough to format correctly (bad dates, negative prices)
+ */
+export function normalizeExtractedFields(fields: Partial<ExtractedDocumentFields>): ExtractedDocumentFields {
+  const date = cleanText(fields.purchase_date);
+  const price = typeof fields.price === 'number' && Number.isFinite(fields.price) && fields.price >= 0
+    ? Math.round(fields.price * 100) / 100
+    : null;
+
+  return {
+    merchant: cleanText(fields.merchant),
+    purchase_date: date && ISO_DATE.test(date) && !isNaN(new Date(date).getTime()) ? date : null,
+    price,
+    serial_number: cleanText(fields.serial_number),
+    model_number: cleanText(fields.model_number),
+  };
+}
+
+type AssetRow = Database['public']['Tables']['assets']['Row'];
+type AssetUpdate = Database['public']['Tables']['assets']['Update'];
+
+export type DocumentTargetAsset = Pick<
+  AssetRow,
+  'purchase_merchant' | 'purchase_date' | 'purchase_price' | 'serial_number' | 'model_number' | 'estimated_value' | 'value_source'
+>;
+
+/**
+ * The item fields an extraction fills in. Only empty fields are set. A receipt's price is the
+ * purchase price; an appraisal's is the replacement cost, unless the user has set one.
+ */
+export function itemUpdatesFromExtraction(
+  asset: DocumentTargetAsset,
+  kind: ItemDocumentKind,
+  fields: ExtractedDocumentFields
+): AssetUpdate {
+  const updates: AssetUpdate = {};
+
+  if (fields.merchant && !asset.purchase_merchant && kind === 'receipt') updates.purchase_merchant = fields.merchant;
+  if (fields.purchase_date && !asset.purchase_date && kind === 'receipt') updates.purchase_date = fields.purchase_date;
+  if (fields.serial_number && !asset.serial_number) updates.serial_number = fields.serial_number;
+  if (fields.model_number && !asset.model_number) updates.model_number = fields.model_number;
+
+  if (fields.price != null) {
+    if (kind === 'receipt' && asset.purchase_price == null) {
+      updates.purchase_price = fields.price;
+    }
+    if (kind === 'appraisal' && asset.value_source !== 'user_edit' && asset.estimated_value !== fields.price) {
+      updates.estimated_value = fields.price;
+      updates.value_source = 'receipt';
+    }
+  }
+
+  return updates;
+}
+
+export async function listItemDocuments(client: SupabaseClient, assetId: string): Promise<ItemDocument[]> {
+  const { data, error } = await client
+    .from('item_documents')
+    .select('*')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load documents: ${error.message}`);
+  return (data || []) as ItemDocument[];
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  acceptInvitation,
+  buildInvitationUrl,
+  canEditHousehold,
+  canManageHousehold,
+  createInvitation,
+  generateInvitationToken,
+  getInvitationStatus,
+  hashInvitationToken,
+  HouseholdError,
+  HouseholdMembership,
+  InvitableRole,
+  memberLabel,
+  pickActiveHousehold,
+} from '../index';
+
+const now = new Date('2025-06-13T12:00:00.000Z');
+
+describe('invitation tokens', () => {
+  it('generates unguessable tokens and stores only their hash', () => {
+    const first = generateInvitationToken();
+    const second = generateInvitationToken();
+    expect(first.token).not.toBe(second.token);
+    expect(first.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first.tokenHash).toBe(hashInvitationToken(first.token));
+    expect(first.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('builds the invite URL from the request origin', () => {
+    expect(buildInvitationUrl('https://padlox.io/', 'abc')).toBe('https://padlox.io/invite/abc');
+  });
+});
+
+describe('getInvitationStatus', () => {
+  const pending = { accepted_at: null, revoked_at: null, expires_at: '2025-06-20T00:00:00.000Z' };
+
+  it('treats acceptance and revocation as final and expiry as exclusive', () => {
+    expect(getInvitationStatus(pending, now)).toBe('pending');
+    expect(getInvitationStatus({ ...pending, expires_at: now.toISOString() }, now)).toBe('expired');
+    expect(getInvitationStatus({ ...pending, revoked_at: '2025-06-12T00:00:00.000Z' }, now)).toBe('revoked');
+    expect(getInvitationStatus({ ...pending, accepted_at: '2025-06-12T00:00:00.000Z', expires_at: '2025-06-01T00:00:00.000Z' }, now)).toBe('accepted');
+  });
+});
+
+describe('pickActiveHousehold', () => {
+  const households: HouseholdMembership[] = [
+    { id: 'shared', name: 'Shared flat', role: 'editor', created_at: '2025-01-01T00:00:00.000Z' },
+    { id: 'home', name: 'My Home', role: 'owner', created_at: '2025-03-01T00:00:00.000Z' },
+    { id: 'cabin', name: 'Cabin', role: 'owner', created_at: '2025-05-01T00:00:00.000Z' },
+  ];
+
+  it('keeps the stored household while the user is a member', () => {
+    expect(pickActiveHousehold(households, 'cabin')?.id).toBe('cabin');
+  });
+
+  it('falls back to the oldest owned household, then the oldest membership', () => {
+    expect(pickActiveHousehold(households, 'gone')?.id).toBe('home');
+    expect(pickActiveHousehold(households.slice(0, 1), null)?.id).toBe('shared');
+    expect(pickActiveHousehold([], null)).toBeNull();
+  });
+});
+
+describe('roles', () => {
+  it('lets owners and editors change the inventory and only owners manage members', () => {
+    expect([canEditHousehold('owner'), canEditHousehold('editor'), canEditHousehold('viewer'), canEditHousehold(null)])
+      .toEqual([true, true, false, false]);
+    expect([canManageHousehold('owner'), canManageHousehold('editor'), canManageHousehold('viewer')])
+      .toEqual([true, false, false]);
+  });
+
+  it('labels members by name, then email', () => {
+    expect(memberLabel({ display_name: 'Sam', email: 'sam@example.com' })).toBe('Sam');
+    expect(memberLabel({ display_name: null, email: 'sam@example.com' })).toBe('sam@example.com');
+    expect(memberLabel(undefined)).toBe('Former member');
+  });
+});
+
+describe('createInvitation', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('does not invite people straight in as owners', async () => {
+    await expect(createInvitation(client, 'user-1', 'household-1', { email: 'sam@example.com', role: 'owner' as InvitableRole }, now))
+      .rejects.toBeInstanceOf(HouseholdError);
+  });
+
+  it('requires an email address', async () => {
+    await expect(createInvitation(client, 'user-1', 'household-1', { email: '  ', role: 'viewer' }, now))
+      .rejects.toThrow(/valid email/);
+  });
+});
+
+describe('acceptInvitation', () => {
+  const invitation = {
+    id: 'invitation-1',
+    household_id: 'household-1',
+    email: 'sam@example.com',
+    role: 'editor',
+    token_hash: hashInvitationToken('token'),
+    invited_by: 'owner-1',
+    accepted_at: '2025-06-10T00:00:00.000Z',
+    accepted_by: 'sam',
+    revoked_at: null,
+    expires_at: '2025-06-20T00:00:00.000Z',
+    created_at: '2025-06-06T00:00:00.000Z',
+    households: { id: 'household-1', name: 'Home', created_at: '2025-01-01T00:00:00.000Z' },
+  };
+
+  // Answers each table's single-row lookup; any write fails the test
+  function fakeClient(rows: Record<string, unknown>): SupabaseClient {
+    return {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          maybeSingle: async () => ({ data: rows[table] ?? null, error: null }),
+        };
+        return query;
+      },
+    } as unknown as SupabaseClient;
+  }
+
+  it('does not let a removed member rejoin through their old invite link', async () => {
+    const client = fakeClient({ household_invitations: invitation, household_members: null });
+    await expect(acceptInvitation(client, { id: 'sam', email: 'sam@example.com' }, 'token', now))
+      .rejects.toMatchObject({ status: 410 });
+  });
+
+  it('refuses expired links before anything else', async () => {
+    const client = fakeClient({
+      household_invitations: { ...invitation, expires_at: '2025-06-12T00:00:00.000Z' },
+      household_members: { role: 'editor' },
+    });
+    await expect(acceptInvitation(client, { id: 'sam', email: 'sam@example.com' }, 'token', now))
+      .rejects.toThrow(/expired/);
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Households: shared inventories with several members
+ *
+ * Assets, tags and rooms belong to a household rather than to a single user, and RLS lets
+ * each member act on them according to their role: owners manage the household, its members
+ * and invitations; editors add and change items, tags and rooms; viewers only read. Each
+ * item keeps `user_id` as the member it belongs to ("owned by"), so roommates sharing a
+ * household can still report their belongings separately for their own policies.
+ *
+ * Every user starts with a personal household (created by a trigger on `public.users`) and
+ * works in one household at a time, stored as `users.active_household_id`. Invitations work
+ * like share links: a random token whose sha256 is stored, accepted at `/invite/<token>` by
+ * a signed-in user with the invited email address.
+ *
+ * API-key callers get a service client, so the functions here check membership explicitly
+ * instead of relying on RLS alone.
+ */
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HouseholdInvitationsTable, HouseholdRole, HouseholdsTable } from '@/lib/db/schema';
+import { HOUSEHOLD_ROLE_LABELS, HOUSEHOLD_ROLES, HouseholdMember, HouseholdMembership } from './roles';
+
+export * from './roles';
+
+export type Household = HouseholdsTable['Row'];
+export type HouseholdInvitation = HouseholdInvitationsTable['Row'];
+export type InvitableRole = HouseholdInvitation['role'];
+
+export const INVITABLE_ROLES: InvitableRole[] = ['editor', 'viewer'];
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+/** An invitation as listed to the household's owners; the token cannot be recovered */
+export interface InvitationSummary {
+  id: string;
+  email: string;
+  role: InvitableRole;
+  status: InvitationStatus;
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * Raised when a household request is not allowed or makes no sense; `status` is the HTTP
+ * status to return
+ */
+export class HouseholdError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'HouseholdError';
+  }
+}
+
+/** Postgres raises check_violation from the last-owner trigger */
+const CHECK_VIOLATION = '23514';
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function buildInvitationUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/$/, '')}/invite/${token}`;
+}
+
+export function getInvitationStatus(
+  invitation: Pick<HouseholdInvitation, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now = new Date()
+): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'pending';
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * The household to work in: the stored active household while the user is still a member,
+ * otherwise the oldest one they own, otherwise the oldest they belong to. Mirrors
+ * `public.default_household_id`, which the database uses for rows written without one.
+ */
+export function pickActiveHousehold(
+  households: HouseholdMembership[],
+  activeHouseholdId: string | null | undefined
+): HouseholdMembership | null {
+  const active = households.find((household) => household.id === activeHouseholdId);
+  if (active) return active;
+  const byAge = [...households].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return byAge.find((household) => household.role === 'owner') ?? byAge[0] ?? null;
+}
+
+interface MembershipRow {
+  role: HouseholdRole;
+  households: { id: string; name: string; created_at: string } | null;
+}
+
+/**
+ * The households a user belongs to, with their role in each
+ */
+export async function listHouseholds(client: SupabaseClient, userId: string): Promise<HouseholdMembership[]> {
+  const { data, error } = await client
+    .from('household_members')
+    .select('role, households(id, name, created_at)')
+    .eq('user_id', userId);
+  if (error) throw new Error(`Failed to load households: ${error.message}`);
+  return ((data || []) as unknown as MembershipRow[])
+    .filter((row) => row.households)
+    .map((row) => ({ ...row.households!, role: row.role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The household the user is working in, with the others they could switch to
+ */
+export async function resolveActiveHousehold(
+  client: SupabaseClient,
+  userId: string
+): Promise<{ active: HouseholdMembership | null; households: HouseholdMembership[] }> {
+  const [households, { data: profile, error }] = await Promise.all([
+    listHouseholds(client, userId),
+    client.from('users').select('active_household_id').eq('id', userId).maybeSingle(),
+  ]);
+  if (error) throw new Error(`Failed to load user profile: ${error.message}`);
+  return { active: pickActiveHousehold(households, profile?.active_household_id), households };
+}
+
+/**
+ * The user's role in a household, or null when they are not a member
+ */
+export async function getHouseholdRole(client: SupabaseClient, userId: string, householdId: string): Promise<HouseholdRole | null> {
+  const { data, error } = await client
+    .from('household_members')
+    .select('role')
+    .eq('household_id', householdId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load household membership: ${error.message}`);
+  return (data?.role as HouseholdRole | undefined) ?? null;
+}
+
+/**
+ * The user's role in a household; throws a 404 HouseholdError when they are not a member and
+ * a 403 when their role is not one of `allowed`
+ */
+export async function requireHouseholdRole(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  allowed: HouseholdRole[] = HOUSEHOLD_ROLES
+): Promise<HouseholdRole> {
+  const role = await getHouseholdRole(client, userId, householdId);
+  if (!role) throw new HouseholdError('Household not found', 404);
+  if (!allowed.includes(role)) {
+    throw new HouseholdError(`This requires the ${allowed.map((r) => HOUSEHOLD_ROLE_LABELS[r].toLowerCase()).join(' or ')} role`, 403);
+  }
+  return role;
+}
+
+/**
+ * IDs of every household the user belongs to, for filtering service-client queries
+ */
+export async function listHouseholdIds(client: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await client.from('household_members').select('household_id').eq('user_id', userId);
+  if (error) throw new Error(`Failed to load households: ${error.message}`);
+  return (data || []).map((row) => row.household_id as string);
+}
+
+export async function setActiveHousehold(client: SupabaseClient, userId: string, householdId: string): Promise<void> {
+  await requireHouseholdRole(client, userId, householdId);
+  const { error } = await client.from('users').update({ active_household_id: householdId }).eq('id', userId);
+  if (error) throw new Error(`Failed to switch household: ${error.message}`);
+}
+
+/**
+ * Creates a household owned by the user and switches to it
+ */
+export async function createHousehold(client: SupabaseClient, userId: string, name: string): Promise<HouseholdMembership> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new HouseholdError('Household name is required');
+
+  // The id is generated here because the creator can only read the row back once the
+  // trigger has made them its owner
+  const id = randomUUID();
+  const { error } = await client.from('households').insert({ id, name: trimmed, created_by: userId });
+  if (error) throw new Error(`Failed to create household: ${error.message}`);
+
+  await setActiveHousehold(client, userId, id);
+  const { data, error: loadError } = await client.from('households').select('*').eq('id', id).single();
+  if (loadError) throw new Error(`Failed to load household: ${loadError.message}`);
+  const household = data as Household;
+  return { id: household.id, name: household.name, role: 'owner', created_at: household.created_at };
+}
+
+export async function renameHousehold(client: SupabaseClient, userId: string, householdId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new HouseholdError('Household name is required');
+  await requireHouseholdRole(client, userId, householdId, ['owner']);
+  const { error } = await client.from('households').update({ name: trimmed }).eq('id', householdId);
+  if (error) throw new Error(`Failed to rename household: ${error.message}`);
+}
+
+/**
+ * Members with their profile details, owners first
+ */
+export async function listMembers(client: SupabaseClient, userId: string, householdId: string): Promise<HouseholdMember[]> {
+  await requireHouseholdRole(client, userId, householdId);
+
+  const { data, error } = await client
+    .from('household_members')
+    .select('user_id, role, created_at')
+    .eq('household_id', householdId);
+  if (error) throw new Error(`Failed to load household members: ${error.message}`);
+  const rows = (data || []) as Array<{ user_id: string; role: HouseholdRole; created_at: string }>;
+
+  // household_members references auth.users, so profiles are loaded separately
+  const { data: profiles, error: profileError } = await client
+    .from('users')
+    .select('id, email, display_name, avatar_url')
+    .in('id', rows.map((row) => row.user_id));
+  if (profileError) throw new Error(`Failed to load member profiles: ${profileError.message}`);
+  const profileById = new Map((profiles || []).map((profile) => [profile.id as string, profile]));
+
+  return rows
+    .map((row) => {
+      const profile = profileById.get(row.user_id);
+      return {
+        user_id: row.user_id,
+        role: row.role,
+        joined_at: row.created_at,
+        email: profile?.email ?? null,
+        display_name: profile?.display_name ?? null,
+        avatar_url: profile?.avatar_url ?? null,
+      };
+    })
+    .sort((a, b) => HOUSEHOLD_ROLES.indexOf(a.role) - HOUSEHOLD_ROLES.indexOf(b.role) || a.joined_at.localeCompare(b.joined_at));
+}
+
+function ownerConstraintError(error: { code?: string; message: string }, fallback: string): Error {
+  if (error.code === CHECK_VIOLATION) {
+    return new HouseholdError('A household must keep at least one owner; make someone else an owner first', 409);
+  }
+  return new Error(`${fallback}: ${error.message}`);
+}
+
+export async function updateMemberRole(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  memberId: string,
+  role: HouseholdRole
+): Promise<void> {
+  await requireHouseholdRole(client, userId, householdId, ['owner']);
+  const { data, error } = await client
+    .from('household_members')
+    .update({ role })
+    .eq('household_id', householdId)
+    .eq('user_id', memberId)
+    .select('user_id');
+  if (error) throw ownerConstraintError(error, 'Failed to change role');
+  if (!data?.length) throw new HouseholdError('Member not found', 404);
+}
+
+/**
+ * Removes a member; any member can remove themselves. Their items stay in the household
+ * under their name. The share links they made there are revoked by the
+ * `revoke_member_share_links` trigger, which also covers members who leave as viewers.
+ */
+export async function removeMember(client: SupabaseClient, userId: string, householdId: string, memberId: string): Promise<void> {
+  await requireHouseholdRole(client, userId, householdId, memberId === userId ? HOUSEHOLD_ROLES : ['owner']);
+  const { data, error } = await client
+    .from('household_members')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('user_id', memberId)
+    .select('user_id');
+  if (error) throw ownerConstraintError(error, 'Failed to remove member');
+  if (!data?.length) throw new HouseholdError('Member not found', 404);
+}
+
+function toInvitationSummary(invitation: HouseholdInvitation, now = new Date()): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: getInvitationStatus(invitation, now),
+    expires_at: invitation.expires_at,
+    created_at: invitation.created_at,
+  };
+}
+
+/**
+ * Invitations that can still be accepted, newest first
+ */
+export async function listInvitations(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  now = new Date()
+): Promise<InvitationSummary[]> {
+  await requireHouseholdRole(client, userId, householdId, ['owner']);
+  const { data, error } = await client
+    .from('household_invitations')
+    .select('*')
+    .eq('household_id', householdId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', now.toISOString())
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load invitations: ${error.message}`);
+  return ((data || []) as HouseholdInvitation[]).map((invitation) => toInvitationSummary(invitation, now));
+}
+
+/**
+ * Invites someone by email and returns the invitation with its token. The token is not
+ * stored and cannot be shown again.
+ */
+export async function createInvitation(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  options: { email: string; role: InvitableRole },
+  now = new Date()
+): Promise<{ invitation: InvitationSummary; token: string }> {
+  if (!INVITABLE_ROLES.includes(options.role)) {
+    throw new HouseholdError('Invite people as editors or viewers, then make them owners once they have joined');
+  }
+  const email = normalizeEmail(options.email);
+  if (!email.includes('@')) throw new HouseholdError('A valid email address is required');
+
+  const members = await listMembers(client, userId, householdId);
+  if (members.find((member) => member.user_id === userId)?.role !== 'owner') {
+    throw new HouseholdError('Only owners can invite people', 403);
+  }
+  if (members.some((member) => member.email && normalizeEmail(member.email) === email)) {
+    throw new HouseholdError(`${email} is already a member`, 409);
+  }
+
+  const { token, tokenHash } = generateInvitationToken();
+  const { data, error } = await client
+    .from('household_invitations')
+    .insert({
+      household_id: householdId,
+      email,
+      role: options.role,
+      token_hash: tokenHash,
+      invited_by: userId,
+      expires_at: new Date(now.getTime() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to create invitation: ${error.message}`);
+  return { invitation: toInvitationSummary(data as HouseholdInvitation, now), token };
+}
+
+export async function revokeInvitation(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  invitationId: string,
+  now = new Date()
+): Promise<void> {
+  await requireHouseholdRole(client, userId, householdId, ['owner']);
+  const { data, error } = await client
+    .from('household_invitations')
+    .update({ revoked_at: now.toISOString() })
+    .eq('id', invitationId)
+    .eq('household_id', householdId)
+    .is('accepted_at', null)
+    .select('id');
+  if (error) throw new Error(`Failed to revoke invitation: ${error.message}`);
+  if (!data?.length) throw new HouseholdError('Invitation not found', 404);
+}
+
+/**
+ * Adds the user to the invitation's household and switches them to it. Needs a service
+ * client: the invitee cannot see the invitation or the household under RLS until they join.
+ * Someone who is already a member keeps their current role. A used invitation only switches
+ * its acceptor back to the household while they are still a member.
+ */
+export async function acceptInvitation(
+  serviceClient: SupabaseClient,
+  user: { id: string; email?: string | null },
+  token: string,
+  now = new Date()
+): Promise<HouseholdMembership> {
+  const { data, error } = await serviceClient
+    .from('household_invitations')
+    .select('*, households(id, name, created_at)')
+    .eq('token_hash', hashInvitationToken(token))
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load invitation: ${error.message}`);
+  if (!data) throw new HouseholdError('Invitation not found', 404);
+
+  const invitation = data as HouseholdInvitation & { households: { id: string; name: string; created_at: string } | null };
+  // Expiry first: an old link stops working whatever happened to it since
+  if (new Date(invitation.expires_at).getTime() <= now.getTime()) {
+    throw new HouseholdError('This invitation has expired', 410);
+  }
+  if (invitation.revoked_at) throw new HouseholdError('This invitation was revoked', 410);
+  if (invitation.accepted_at) {
+    // Opening the link again only works while the acceptor is still a member; someone
+    // who was removed cannot use it to rejoin
+    const role = invitation.accepted_by === user.id
+      ? await getHouseholdRole(serviceClient, user.id, invitation.household_id)
+      : null;
+    if (!role || !invitation.households) throw new HouseholdError('This invitation has already been used', 410);
+    await setActiveHousehold(serviceClient, user.id, invitation.household_id);
+    return { ...invitation.households, role };
+  }
+  if (!user.email || normalizeEmail(user.email) !== normalizeEmail(invitation.email)) {
+    throw new HouseholdError(`This invitation is for ${invitation.email}; sign in with that address to accept it`, 403);
+  }
+  if (!invitation.households) throw new HouseholdError('Household not found', 404);
+
+  const { error: memberError } = await serviceClient
+    .from('household_members')
+    .upsert(
+      { household_id: invitation.household_id, user_id: user.id, role: invitation.role },
+      { onConflict: 'household_id,user_id', ignoreDuplicates: true }
+    );
+  if (memberError) throw new Error(`Failed to join household: ${memberError.message}`);
+
+  const { error: acceptError } = await serviceClient
+    .from('household_invitations')
+    .update({ accepted_at: now.toISOString(), accepted_by: user.id })
+    .eq('id', invitation.id)
+    .is('accepted_at', null);
+  if (acceptError) throw new Error(`Failed to accept invitation: ${acceptError.message}`);
+
+  await setActiveHousehold(serviceClient, user.id, invitation.household_id);
+  const role = await requireHouseholdRole(serviceClient, user.id, invitation.household_id);
+  return { ...invitation.households, role };
+}
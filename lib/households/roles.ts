@@ -0,0 +1,47 @@
+/**
+ * Household roles and the member shapes shown in the dashboard. Kept free of server-only
+ * imports so client components can use them; lib/households re-exports everything here.
+ */
+import { HouseholdRole } from '@/lib/db/schema';
+
+export type { HouseholdRole };
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ['owner', 'editor', 'viewer'];
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+/** Editors and owners can change the inventory */
+export function canEditHousehold(role: HouseholdRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/** Only owners manage members, invitations and the household itself */
+export function canManageHousehold(role: HouseholdRole | null | undefined): boolean {
+  return role === 'owner';
+}
+
+/** A household as seen by one of its members */
+export interface HouseholdMembership {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+  created_at: string;
+}
+
+export interface HouseholdMember {
+  user_id: string;
+  role: HouseholdRole;
+  joined_at: string;
+  email: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+/** Name to show for a member: display name, then email, then a placeholder */
+export function memberLabel(member: Pick<HouseholdMember, 'display_name' | 'email'> | undefined | null): string {
+  return member?.display_name || member?.email || 'Former member';
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+    InventoryRowSchema,
+    InventorySheetRow,
+    parseCsv,
+    parseXlsx,
+    toCsv,
+    toXlsx,
+} from '../spreadsheet';
+
+const row: InventorySheetRow = {
+    id: '6f1c1f0e-8d4b-4a57-9b1e-2f4c9a8f0b11',
+    name: 'Sofa, "sectional"',
+    description: 'Grey fabric\nthree seats',
+    estimated_value: '1299.5',
+    media_type: 'item',
+    room: 'Living Room',
+    tags: 'Furniture; Fabric',
+    item_timestamp: '12.4',
+    source_video_id: '',
+    created_at: '2025-06-01T00:00:00.000Z',
+};
+
+describe('inventory spreadsheet', () => {
+    it('round-trips quoted CSV fields', () => {
+        const [parsed] = parseCsv(toCsv([row]));
+        expect(parsed.rowNumber).toBe(2);
+        expect(parsed.values.name).toBe(row.name);
+        expect(parsed.values.description).toBe(row.description);
+        expect(parsed.values.tags).toBe(row.tags);
+    });
+
+    it('neutralises formulas on export and restores them on import', () => {
+        const csv = toCsv([{ ...row, name: '=HYPERLINK("x")' }]);
+        expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+        expect(parseCsv(csv)[0].values.name).toBe('=HYPERLINK("x")');
+    });
+
+    it('round-trips XLSX with numeric cells', async () => {
+        const buffer = await toXlsx([row]);
+        const [parsed] = await parseXlsx(new Uint8Array(buffer).buffer);
+        expect(parsed.values.name).toBe(row.name);
+        expect(parsed.values.estimated_value).toBe('1299.5');
+    });
+
+    it('validates rows with friendly coercion', () => {
+        const result = InventoryRowSchema.parse({ name: ' Lamp ', estimated_value: '$1,200.00', tags: 'Lighting, Brass', media_type: '' });
+        expect(result).toMatchObject({ name: 'Lamp', estimated_value: 1200, tags: ['Lighting', 'Brass'], media_type: 'item' });
+
+        const invalid = InventoryRowSchema.safeParse({ name: '', estimated_value: 'lots' });
+        expect(invalid.success).toBe(false);
+    });
+});
@@ -0,0 +1,259 @@
+/**
+ * Inventory spreadsheet format
+ *
+ * Defines the column layout shared by CSV and XLSX exports and imports, plus the
+ * serializers/parsers for both file types. Database access lives in ./transfer.ts.
+ */
+import ExcelJS from 'exceljs';
+import { z } from 'zod';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const INVENTORY_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'estimated_value',
+  'media_type',
+  'room',
+  'tags',
+  'item_timestamp',
+  'source_video_id',
+  'created_at',
+] as const;
+
+export type InventoryColumn = typeof INVENTORY_COLUMNS[number];
+
+/** One spreadsheet row as exported, with every cell as a string */
+export type InventorySheetRow = Record<InventoryColumn, string>;
+
+/** A raw row read from a file, before validation. Keys are normalised header names. */
+export interface RawSheetRow {
+  rowNumber: number; // 1-based, counting the header row
+  values: Partial<Record<string, string>>;
+}
+
+// Tags are a single cell, separated by semicolons (commas are accepted on import)
+const TAG_SEPARATOR = '; ';
+
+const blankToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+/**
+ * Validation schema for an imported row
+ */
+export const InventoryRowSchema = z.object({
+  id: z.preprocess(blankToUndefined, z.string().uuid({ message: 'id must be a UUID' }).optional()),
+  name: z.string({ required_error: 'name is required' }).trim().min(1, { message: 'name is required' }),
+  description: z.preprocess(blankToUndefined, z.string().trim().optional()),
+  estimated_value: z.preprocess(
+    (value) => {
+      const blank = blankToUndefined(value);
+      // Tolerate currency formatting such as "$1,299.00"
+      return typeof blank === 'string' ? Number(blank.replace(/[$,\s]/g, '')) : blank;
+    },
+    z.number({ invalid_type_error: 'estimated_value must be a number' })
+      .nonnegative({ message: 'estimated_value cannot be negative' })
+      .optional()
+  ),
+  media_type: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() || undefined : value),
+    z.enum(['item', 'image', 'video']).default('item')
+  ),
+  room: z.preprocess(blankToUndefined, z.string().trim().optional()),
+  tags: z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(/[;,]/).map((tag) => tag.trim()).filter(Boolean) : []),
+    z.array(z.string())
+  ),
+  item_timestamp: z.preprocess(
+    (value) => {
+      const blank = blankToUndefined(value);
+      return typeof blank === 'string' ? Number(blank) : blank;
+    },
+    z.number({ invalid_type_error: 'item_timestamp must be a number of seconds' })
+      .nonnegative({ message: 'item_timestamp cannot be negative' })
+      .optional()
+  ),
+  source_video_id: z.preprocess(blankToUndefined, z.string().uuid({ message: 'source_video_id must be a UUID' }).optional()),
+});
+
+export type InventoryRowInput = z.infer<typeof InventoryRowSchema>;
+
+export function formatTags(tags: string[]): string {
+  return tags.join(TAG_SEPARATOR);
+}
+
+/**
+ * Spreadsheet apps execute cells starting with these characters as formulas.
+ * Exported text is prefixed with a quote, which is stripped again on import.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+const TEXT_COLUMNS: InventoryColumn[] = ['name', 'description', 'room', 'tags'];
+
+function toExportCells(row: InventorySheetRow): string[] {
+  return INVENTORY_COLUMNS.map((column) =>
+    TEXT_COLUMNS.includes(column) ? escapeFormula(row[column]) : row[column]
+  );
+}
+
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function toRawRows(header: string[], records: string[][]): RawSheetRow[] {
+  const keys = header.map(normaliseHeader);
+  const rows: RawSheetRow[] = [];
+
+  records.forEach((record, index) => {
+    if (!record.some((cell) => cell.trim() !== '')) return;
+    const values: RawSheetRow['values'] = {};
+    keys.forEach((key, column) => {
+      values[key] = unescapeFormula(record[column] ?? '');
+    });
+    rows.push({ rowNumber: index + 2, values });
+  });
+
+  return rows;
+}
+
+// --- CSV ---
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: InventorySheetRow[]): string {
+  const lines = [INVENTORY_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(toExportCells(row).map(escapeCsvCell).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses RFC 4180 CSV, including quoted fields with embedded commas, quotes and newlines
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 BOM written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+export function parseCsv(text: string): RawSheetRow[] {
+  const [header, ...records] = parseCsvRecords(text);
+  return header ? toRawRows(header, records) : [];
+}
+
+// --- XLSX ---
+
+export async function toXlsx(rows: InventorySheetRow[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Padlox';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Inventory');
+  sheet.columns = INVENTORY_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'description' ? 60 : column === 'id' || column === 'source_video_id' ? 38 : 18,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  for (const row of rows) {
+    const cells = toExportCells(row);
+    // Keep numbers numeric so insurers can sum the value column
+    sheet.addRow(INVENTORY_COLUMNS.map((column, index) => {
+      if ((column === 'estimated_value' || column === 'item_timestamp') && cells[index] !== '') {
+        return Number(cells[index]);
+      }
+      return cells[index];
+    }));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return value.result === undefined ? '' : String(value.result);
+    return '';
+  }
+  return String(value);
+}
+
+export async function parseXlsx(data: ArrayBuffer): Promise<RawSheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const records: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(cellToString(row.getCell(col).value));
+    }
+    records.push(cells);
+  });
+
+  const [header, ...rest] = records;
+  return header ? toRawRows(header, rest) : [];
+}
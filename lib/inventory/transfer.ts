@@ -0,0 +1,351 @@
+/**
+ * Inventory export/import against the database
+ *
+ * Export flattens assets with their room and tags into spreadsheet rows. Import validates
+ * each row independently and creates or updates assets, rooms, tags, asset_tags and
+ * asset_rooms, collecting per-row errors instead of failing the whole file. Both work on the
+ * property the user is working in, whoever in the household added its items.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { validateInput, ValidationError } from '@/lib/api/validation';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import { canEditHousehold, HouseholdError, HouseholdMembership, resolveActiveHousehold } from '@/lib/households';
+import { resolveActiveProperty } from '@/lib/properties';
+import {
+  InventoryRowSchema,
+  InventoryRowInput,
+  InventorySheetRow,
+  RawSheetRow,
+  formatTags,
+} from './spreadsheet';
+
+export interface ImportRowResult {
+  row: number;
+  status: 'created' | 'updated' | 'error';
+  asset_id?: string;
+  name?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+/** The household and property a spreadsheet is read from or written to */
+interface InventoryTarget {
+  household: HouseholdMembership;
+  propertyId: string;
+}
+
+interface ExistingAsset {
+  id: string;
+  media_type: 'image' | 'video' | 'item';
+  estimated_value?: number | null;
+}
+
+/**
+ * The user's active household and property; throws a 404 HouseholdError when they have none
+ */
+async function resolveInventoryTarget(client: SupabaseClient, userId: string): Promise<InventoryTarget> {
+  const { active: household } = await resolveActiveHousehold(client, userId);
+  const { active: property } = household ? await resolveActiveProperty(client, userId, household.id) : { active: null };
+  if (!household || !property) {
+    throw new HouseholdError('You are not a member of any household', 404);
+  }
+  return { household, propertyId: property.id };
+}
+
+/**
+ * Loads the active property's inventory as spreadsheet rows, oldest first
+ */
+export async function fetchInventorySheetRows(
+  client: SupabaseClient,
+  userId: string
+): Promise<InventorySheetRow[]> {
+  const { propertyId } = await resolveInventoryTarget(client, userId);
+  const { data, error } = await client
+    .from('assets')
+    .select(`
+      id, name, description, estimated_value, media_type, item_timestamp, source_video_id, created_at,
+      asset_rooms(
+        rooms(*)
+      ),
+      asset_tags(
+        tags(*)
+      )
+    `)
+    .eq('property_id', propertyId)
+    .eq('review_status', 'accepted')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load inventory: ${error.message}`);
+  }
+
+  return (data || []).map((asset) => ({
+    id: asset.id,
+    name: asset.name ?? '',
+    description: asset.description ?? '',
+    estimated_value: asset.estimated_value != null ? String(asset.estimated_value) : '',
+    media_type: asset.media_type,
+    room: extractRoomName(asset.asset_rooms) ?? '',
+    tags: formatTags(extractTagNames(asset.asset_tags)),
+    item_timestamp: asset.item_timestamp != null ? String(asset.item_timestamp) : '',
+    source_video_id: asset.source_video_id ?? '',
+    created_at: asset.created_at ?? '',
+  }));
+}
+
+/**
+ * Flattens zod issues (as wrapped by validateInput) into readable messages
+ */
+function describeValidationError(error: ValidationError): string[] {
+  const issues = (error.details?.errors || []) as Array<{ path?: (string | number)[]; message?: string }>;
+  if (issues.length === 0) return [error.message];
+  return issues.map((issue) => {
+    const field = issue.path?.join('.');
+    return field && !issue.message?.startsWith(field) ? `${field}: ${issue.message}` : String(issue.message);
+  });
+}
+
+/**
+ * Caches rooms or tags by case-insensitive name, creating missing ones on demand. `scope`
+ * holds the columns that place them: the household for tags, the property for rooms.
+ */
+class NameRegistry {
+  private ids = new Map<string, string>();
+
+  constructor(
+    private client: SupabaseClient,
+    private table: 'rooms' | 'tags',
+    private userId: string,
+    private scope: Record<string, string>
+  ) {}
+
+  async load() {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('id, name')
+      .match(this.scope);
+    if (error) throw new Error(`Failed to load ${this.table}: ${error.message}`);
+    for (const entry of data || []) {
+      this.ids.set(entry.name.toLowerCase(), entry.id);
+    }
+  }
+
+  async resolve(name: string): Promise<string> {
+    const key = name.toLowerCase();
+    const existing = this.ids.get(key);
+    if (existing) return existing;
+
+    const { data, error } = await this.client
+      .from(this.table)
+      .insert({ ...this.scope, user_id: this.userId, name })
+      .select('id')
+      .single();
+    if (error || !data) {
+      throw new Error(`Could not create ${this.table === 'rooms' ? 'room' : 'tag'} "${name}": ${error?.message ?? 'unknown error'}`);
+    }
+    this.ids.set(key, data.id);
+    return data.id;
+  }
+}
+
+/**
+ * Imports spreadsheet rows into the user's active property (household owners and editors).
+ *
+ * - Rows whose `id` matches an asset in the property update that asset, whoever added it; other
+ *   rows create a new `item` there.
+ * - Updates only write `description` and `estimated_value` when the sheet has the column, so a
+ *   file with fewer columns than the export keeps the rest.
+ * - A non-empty `room` replaces the asset's room and non-empty `tags` replace its tags; missing
+ *   rooms and tags are created. Blank cells leave existing links untouched.
+ * - `created_at` is export-only and ignored.
+ */
+export async function importInventoryRows(
+  client: SupabaseClient,
+  userId: string,
+  rawRows: RawSheetRow[]
+): Promise<ImportReport> {
+  const target = await resolveInventoryTarget(client, userId);
+  if (!canEditHousehold(target.household.role)) {
+    throw new HouseholdError('Only household owners and editors can import inventory', 403);
+  }
+
+  const { data: assets, error: assetsError } = await client
+    .from('assets')
+    .select('id, media_type, estimated_value')
+    .eq('property_id', target.propertyId);
+
+  if (assetsError) {
+    throw new Error(`Failed to load existing assets: ${assetsError.message}`);
+  }
+
+  const existingAssets = new Map<string, ExistingAsset>(
+    (assets || []).map((asset: ExistingAsset) => [asset.id, asset])
+  );
+  // Rooms and tags are shared: look them up in the property and its household
+  const householdId = target.household.id;
+  const rooms = new NameRegistry(client, 'rooms', userId, { household_id: householdId, property_id: target.propertyId });
+  const tags = new NameRegistry(client, 'tags', userId, { household_id: householdId });
+  await Promise.all([rooms.load(), tags.load()]);
+
+  const results: ImportRowResult[] = [];
+
+  for (const rawRow of rawRows) {
+    let input: InventoryRowInput;
+    try {
+      input = await validateInput(rawRow.values, InventoryRowSchema);
+    } catch (error) {
+      results.push({
+        row: rawRow.rowNumber,
+        status: 'error',
+        name: rawRow.values.name,
+        errors: error instanceof ValidationError ? describeValidationError(error) : ['Invalid row'],
+      });
+      continue;
+    }
+
+    try {
+      const columns = new Set(Object.keys(rawRow.values));
+      results.push(await importRow(client, userId, target, rawRow.rowNumber, input, columns, existingAssets, rooms, tags));
+    } catch (error) {
+      results.push({
+        row: rawRow.rowNumber,
+        status: 'error',
+        name: input.name,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      });
+    }
+  }
+
+  return {
+    total: results.length,
+    created: results.filter((result) => result.status === 'created').length,
+    updated: results.filter((result) => result.status === 'updated').length,
+    failed: results.filter((result) => result.status === 'error').length,
+    rows: results,
+  };
+}
+
+async function importRow(
+  client: SupabaseClient,
+  userId: string,
+  target: InventoryTarget,
+  rowNumber: number,
+  input: InventoryRowInput,
+  columns: Set<string>,
+  existingAssets: Map<string, ExistingAsset>,
+  rooms: NameRegistry,
+  tags: NameRegistry
+): Promise<ImportRowResult> {
+  if (input.source_video_id && existingAssets.get(input.source_video_id)?.media_type !== 'video') {
+    return {
+      row: rowNumber,
+      status: 'error',
+      name: input.name,
+      errors: ['source_video_id does not match a video in this property'],
+    };
+  }
+
+  const existing = input.id ? existingAssets.get(input.id) : undefined;
+  let assetId: string;
+  let status: 'created' | 'updated';
+
+  if (existing) {
+    const { error } = await client
+      .from('assets')
+      .update({
+        name: input.name,
+        // A sheet without the column leaves the field alone; an empty cell clears it
+        ...(columns.has('description') && { description: input.description ?? null }),
+        ...(columns.has('estimated_value') && {
+          estimated_value: input.estimated_value ?? null,
+          // A changed value in the sheet is the user's own estimate
+          ...((input.estimated_value ?? null) !== (existing.estimated_value ?? null) && { value_source: 'user_edit' }),
+        }),
+        ...(input.item_timestamp !== undefined && { item_timestamp: input.item_timestamp }),
+        ...(input.source_video_id && { source_video_id: input.source_video_id }),
+      })
+      .eq('id', existing.id)
+      .eq('property_id', target.propertyId);
+
+    if (error) throw new Error(`Failed to update asset: ${error.message}`);
+    assetId = existing.id;
+    status = 'updated';
+  } else {
+    // Photos and videos need real media, so only items can be created from a spreadsheet
+    if (input.media_type !== 'item') {
+      return {
+        row: rowNumber,
+        status: 'error',
+        name: input.name,
+        errors: [`Cannot create a new ${input.media_type} from a spreadsheet; only items can be imported`],
+      };
+    }
+
+    // Reuse the playback ID so imported items can still show their source frame
+    let muxFields: { mux_asset_id: string | null; mux_playback_id: string | null } = {
+      mux_asset_id: null,
+      mux_playback_id: null,
+    };
+    if (input.source_video_id) {
+      const { data: video } = await client
+        .from('assets')
+        .select('mux_asset_id, mux_playback_id')
+        .eq('id', input.source_video_id)
+        .single();
+      if (video) muxFields = video;
+    }
+
+    const { data: inserted, error } = await client
+      .from('assets')
+      .insert({
+        user_id: userId,
+        household_id: target.household.id,
+        property_id: target.propertyId,
+        name: input.name,
+        description: input.description ?? null,
+        estimated_value: input.estimated_value ?? null,
+        media_type: 'item',
+        media_url: '',
+        is_source_video: false,
+        source_video_id: input.source_video_id ?? null,
+        item_timestamp: input.item_timestamp ?? null,
+        ...muxFields,
+      })
+      .select('id')
+      .single();
+
+    if (error || !inserted) throw new Error(`Failed to create asset: ${error?.message ?? 'unknown error'}`);
+    assetId = inserted.id;
+    status = 'created';
+    existingAssets.set(assetId, { id: assetId, media_type: 'item' });
+  }
+
+  if (input.room) {
+    const roomId = await rooms.resolve(input.room);
+    // asset_rooms is unique per asset, so replace rather than upsert
+    await client.from('asset_rooms').delete().eq('asset_id', assetId);
+    const { error } = await client.from('asset_rooms').insert({ asset_id: assetId, room_id: roomId });
+    if (error) throw new Error(`Failed to assign room: ${error.message}`);
+  }
+
+  if (input.tags.length > 0) {
+    const tagIds = new Set<string>();
+    for (const name of input.tags) {
+      tagIds.add(await tags.resolve(name));
+    }
+    await client.from('asset_tags').delete().eq('asset_id', assetId);
+    const { error } = await client
+      .from('asset_tags')
+      .insert(Array.from(tagIds).map((tag_id) => ({ asset_id: assetId, tag_id })));
+    if (error) throw new Error(`Failed to assign tags: ${error.message}`);
+  }
+
+  return { row: rowNumber, status, asset_id: assetId, name: input.name };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { compareWalkthroughs, missingItemRows, WalkthroughItem } from '../comparison';
+
+function item(overrides: Partial<WalkthroughItem> & { id: string; name: string }): WalkthroughItem {
+  return {
+    description: null,
+    estimated_value: null,
+    category: null,
+    media_type: 'item',
+    review_status: 'accepted',
+    room: null,
+    tags: [],
+    source_video_id: 'v1',
+    item_timestamp: null,
+    thumbnail_url: null,
+    thumbnail_hash: null,
+    created_at: '2024-01-10T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const before = [
+  item({ id: 'tv', name: 'Samsung 65" television', room: 'Living Room', estimated_value: 900, category: 'electronics' }),
+  item({ id: 'sofa', name: 'Grey sectional sofa', room: 'Living Room', estimated_value: 1200 }),
+  item({ id: 'laptop', name: 'MacBook Pro laptop', room: 'Office', estimated_value: 2000, tags: ['work'] }),
+  item({ id: 'ring', name: 'Diamond engagement ring', estimated_value: 4000 }),
+];
+
+const after = [
+  item({ id: 'sofa-2', name: 'Gray sectional sofa', room: 'living room', source_video_id: 'v2', review_status: 'pending' }),
+  item({ id: 'plant', name: 'Fiddle leaf fig plant', room: 'Office', source_video_id: 'v2' }),
+];
+
+describe('compareWalkthroughs', () => {
+  it('sorts items into matched, missing and new per room', () => {
+    const comparison = compareWalkthroughs(before, after);
+
+    const living = comparison.rooms.find((room) => room.room === 'Living Room')!;
+    expect(living.matched.map((match) => [match.before.id, match.after.id])).toEqual([['sofa', 'sofa-2']]);
+    expect(living.missing.map((entry) => entry.id)).toEqual(['tv']);
+
+    const office = comparison.rooms.find((room) => room.room === 'Office')!;
+    expect(office.missing.map((entry) => entry.id)).toEqual(['laptop']);
+    expect(office.added.map((entry) => entry.id)).toEqual(['plant']);
+
+    // Items without a room come last
+    expect(comparison.rooms[comparison.rooms.length - 1]).toMatchObject({ room: null, missing: [before[3]] });
+    expect(comparison.totals).toEqual({ matched: 1, missing: 3, added: 1, missingValue: 6900 });
+  });
+
+  it('matches an item linked to the later recording as itself', () => {
+    const comparison = compareWalkthroughs([before[2]], [{ ...before[2], room: null }]);
+    expect(comparison.totals).toMatchObject({ matched: 1, missing: 0, added: 0 });
+    expect(comparison.rooms[0].matched[0].score).toBe(1);
+  });
+});
+
+describe('missingItemRows', () => {
+  it('exports the missing items in the inventory spreadsheet layout', () => {
+    const rows = missingItemRows(compareWalkthroughs(before, after));
+    expect(rows.map((row) => row.name)).toEqual(['Samsung 65" television', 'MacBook Pro laptop', 'Diamond engagement ring']);
+    expect(rows[1]).toMatchObject({ id: 'laptop', room: 'Office', tags: 'work', estimated_value: '2000' });
+  });
+});
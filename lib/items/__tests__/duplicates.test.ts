@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DuplicateCandidate,
+  dismissDuplicate,
+  duplicateScore,
+  duplicateSignals,
+  findDuplicatePairs,
+  linkDuplicate,
+  pairKey,
+} from '../duplicates';
+import { ItemEditError } from '../index';
+
+function item(overrides: Partial<DuplicateCandidate> & { id: string }): DuplicateCandidate {
+  return {
+    name: null,
+    description: null,
+    estimated_value: null,
+    category: null,
+    review_status: 'accepted',
+    room: null,
+    source_video_id: 'v1',
+    item_timestamp: null,
+    recorded_at: null,
+    last_seen_at: null,
+    thumbnail_url: null,
+    thumbnail_hash: null,
+    ...overrides,
+  };
+}
+
+const sofa2024 = item({
+  id: 'sofa-old',
+  name: 'Grey sectional sofa',
+  description: 'Three-seat grey fabric sectional',
+  estimated_value: 1200,
+  category: 'furniture',
+  room: 'Living Room',
+  source_video_id: 'v1',
+  recorded_at: '2024-01-10T00:00:00Z',
+});
+const sofa2025 = item({
+  id: 'sofa-new',
+  name: 'Gray sectional sofa',
+  description: 'Grey fabric sectional, three seats',
+  estimated_value: 1000,
+  category: 'furniture',
+  room: 'living room',
+  source_video_id: 'v2',
+  recorded_at: '2024-07-02T00:00:00Z',
+});
+
+describe('duplicateSignals', () => {
+  it('compares the details both items have', () => {
+    const signals = duplicateSignals(sofa2024, sofa2025);
+    expect(signals.name).toBeGreaterThan(0.6);
+    expect(signals.room).toBe(1);
+    expect(signals.value).toBeCloseTo(1000 / 1200);
+    expect(signals.visual).toBeNull();
+  });
+
+  it('scores identical thumbnails as fully alike', () => {
+    const signals = duplicateSignals(
+      { ...sofa2024, thumbnail_hash: 'ffff0000ffff0000' },
+      { ...sofa2025, thumbnail_hash: 'ffff0000ffff0000' }
+    );
+    expect(signals.visual).toBe(1);
+  });
+});
+
+describe('duplicateScore', () => {
+  it('averages only the signals that are present', () => {
+    expect(duplicateScore({ name: 1, description: null, room: null, value: null, visual: null })).toBe(1);
+    expect(duplicateScore({ name: 1, description: null, room: 0, value: null, visual: null })).toBeCloseTo(0.4 / 0.55);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs the same item across recordings, older first', () => {
+    const pairs = findDuplicatePairs([sofa2025, sofa2024]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].older.id).toBe('sofa-old');
+    expect(pairs[0].newer.id).toBe('sofa-new');
+  });
+
+  it('ignores items from the same recording', () => {
+    expect(findDuplicatePairs([sofa2024, { ...sofa2025, source_video_id: 'v1' }])).toEqual([]);
+  });
+
+  it('skips dismissed pairs and different categories', () => {
+    expect(findDuplicatePairs([sofa2024, sofa2025], new Set([pairKey('sofa-new', 'sofa-old')]))).toEqual([]);
+    expect(findDuplicatePairs([sofa2024, { ...sofa2025, category: 'electronics' }])).toEqual([]);
+  });
+
+  it('puts each item in one pair at most', () => {
+    const third = { ...sofa2025, id: 'sofa-third', source_video_id: 'v3', recorded_at: '2025-01-05T00:00:00Z' };
+    const pairs = findDuplicatePairs([sofa2024, sofa2025, third]);
+    const ids = pairs.flatMap((pair) => [pair.older.id, pair.newer.id]);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('guards', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('needs two different items to link', async () => {
+    await expect(linkDuplicate(client, 'user-1', 'item-1', 'item-1')).rejects.toBeInstanceOf(ItemEditError);
+  });
+
+  it('needs two different items to dismiss', async () => {
+    await expect(dismissDuplicate(client, 'user-1', 'item-1', 'item-1')).rejects.toBeInstanceOf(ItemEditError);
+  });
+});
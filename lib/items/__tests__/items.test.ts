@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { collectSightings, combineDescriptions, ItemEditError, mergeInventoryItems, pickMergedValue, splitItem } from '../index';
+
+describe('combineDescriptions', () => {
+  it('keeps each distinct description once', () => {
+    expect(combineDescriptions([
+      'Grey three-seat sofa',
+      'grey three-seat sofa',
+      'Grey three-seat sofa with chaise',
+      null,
+      'Bought in 2021',
+    ])).toBe('Grey three-seat sofa with chaise\n\nBought in 2021');
+  });
+
+  it('is empty when no item has a description', () => {
+    expect(combineDescriptions([null, '  '])).toBeNull();
+  });
+});
+
+describe('pickMergedValue', () => {
+  it("keeps the target's value and never adds values up", () => {
+    expect(pickMergedValue({ estimated_value: 800 }, [{ estimated_value: 1200 }])).toBe(800);
+    expect(pickMergedValue({ estimated_value: null }, [{ estimated_value: 300 }, { estimated_value: 450 }])).toBe(450);
+    expect(pickMergedValue({ estimated_value: null }, [{ estimated_value: null }])).toBeNull();
+  });
+});
+
+describe('collectSightings', () => {
+  it("gathers the merged items' moments without repeating the target's", () => {
+    const target = { id: 't', source_video_id: 'v1', item_timestamp: 12 };
+    const sources = [
+      { id: 'a', source_video_id: 'v1', item_timestamp: 12 },
+      { id: 'b', source_video_id: 'v1', item_timestamp: 40 },
+    ];
+    const sightings = collectSightings(target, sources, [
+      { asset_id: 'b', source_video_id: 'v2', item_timestamp: 5, origin_asset_id: null },
+      { asset_id: 'b', source_video_id: 'v1', item_timestamp: 40, origin_asset_id: 'b' },
+    ]);
+    expect(sightings).toEqual([
+      { source_video_id: 'v1', item_timestamp: 40, origin_asset_id: 'b' },
+      { source_video_id: 'v2', item_timestamp: 5, origin_asset_id: 'b' },
+    ]);
+  });
+});
+
+describe('guards', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('needs something to merge other than the target', async () => {
+    await expect(mergeInventoryItems(client, 'user-1', 'item-1', ['item-1'])).rejects.toBeInstanceOf(ItemEditError);
+  });
+
+  it('needs at least one item to split off', async () => {
+    await expect(splitItem(client, 'user-1', 'item-1', [])).rejects.toBeInstanceOf(ItemEditError);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Walkthrough comparison
+ *
+ * After a loss, users record the house again and compare it against the inventory from
+ * before. Each side of a comparison is a recording (the items found in it, including the
+ * ones linked to it as sightings). The before side can also be the accepted inventory as of a
+ * date. Items are
+ * paired across the sides with the same scoring as duplicate detection, then grouped by
+ * room into matched, missing (only before) and new (only after).
+ *
+ * The missing items export in the inventory spreadsheet format, as the start of a claim.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReviewStatus } from '@/lib/db/schema';
+import { formatTags, InventorySheetRow } from '@/lib/inventory/spreadsheet';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import { compareItems } from './duplicates';
+import { ItemEditError } from './index';
+
+/** A recording */
+export type RecordingSide = { videoId: string };
+
+/**
+ * A recording, or the accepted inventory added up to a moment. Items deleted since are not in
+ * it, so a snapshot only serves as the before side: compared with a later snapshot, nothing
+ * could ever be missing.
+ */
+export type WalkthroughSide = RecordingSide | { asOf: string };
+
+export interface WalkthroughItem {
+  id: string;
+  name: string | null;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  media_type: string;
+  review_status: ReviewStatus;
+  room: string | null;
+  tags: string[];
+  source_video_id: string | null;
+  item_timestamp: number | null;
+  thumbnail_url: string | null;
+  thumbnail_hash: string | null;
+  created_at: string;
+}
+
+export interface WalkthroughMatch {
+  before: WalkthroughItem;
+  after: WalkthroughItem;
+  /** 1 when both sides hold the same item */
+  score: number;
+}
+
+export interface RoomComparison {
+  /** Null for items without a room */
+  room: string | null;
+  matched: WalkthroughMatch[];
+  missing: WalkthroughItem[];
+  added: WalkthroughItem[];
+}
+
+export interface WalkthroughComparison {
+  rooms: RoomComparison[];
+  totals: {
+    matched: number;
+    missing: number;
+    added: number;
+    missingValue: number;
+  };
+}
+
+/** Minimum score to count an item as still there; a little looser than duplicate detection */
+export const COMPARISON_THRESHOLD = 0.55;
+
+function roomKey(room: string | null): string {
+  return room?.trim().toLowerCase() ?? '';
+}
+
+/**
+ * Pairs the items of two walkthroughs and groups them by room. Matched items are filed under
+ * the room they were in before; new items under the room they were found in.
+ */
+export function compareWalkthroughs(
+  before: WalkthroughItem[],
+  after: WalkthroughItem[],
+  threshold = COMPARISON_THRESHOLD
+): WalkthroughComparison {
+  const matches: WalkthroughMatch[] = [];
+  const afterIds = new Set(after.map((item) => item.id));
+  const matchedIds = new Set<string>();
+
+  // The same item on both sides, e.g. linked to the later recording as a sighting
+  for (const item of before) {
+    if (!afterIds.has(item.id)) continue;
+    matches.push({ before: item, after: after.find((other) => other.id === item.id)!, score: 1 });
+    matchedIds.add(item.id);
+  }
+
+  const candidates: WalkthroughMatch[] = [];
+  for (const a of before) {
+    if (matchedIds.has(a.id)) continue;
+    for (const b of after) {
+      if (matchedIds.has(b.id)) continue;
+      const match = compareItems(a, b);
+      if (match && match.score >= threshold) candidates.push({ before: a, after: b, score: match.score });
+    }
+  }
+  candidates.sort((x, y) => y.score - x.score);
+  const pairedBefore = new Set<string>();
+  const pairedAfter = new Set<string>();
+  for (const candidate of candidates) {
+    if (pairedBefore.has(candidate.before.id) || pairedAfter.has(candidate.after.id)) continue;
+    pairedBefore.add(candidate.before.id);
+    pairedAfter.add(candidate.after.id);
+    matches.push(candidate);
+  }
+
+  const rooms = new Map<string, RoomComparison>();
+  const roomFor = (room: string | null): RoomComparison => {
+    const key = roomKey(room);
+    let entry = rooms.get(key);
+    if (!entry) {
+      entry = { room: key ? room!.trim() : null, matched: [], missing: [], added: [] };
+      rooms.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const match of matches) roomFor(match.before.room ?? match.after.room).matched.push(match);
+  for (const item of before) {
+    if (!matchedIds.has(item.id) && !pairedBefore.has(item.id)) roomFor(item.room).missing.push(item);
+  }
+  for (const item of after) {
+    if (!matchedIds.has(item.id) && !pairedAfter.has(item.id)) roomFor(item.room).added.push(item);
+  }
+
+  const sorted = Array.from(rooms.values()).sort((a, b) => {
+    if (a.room === null) return 1;
+    if (b.room === null) return -1;
+    return a.room.localeCompare(b.room);
+  });
+  const missing = sorted.flatMap((room) => room.missing);
+  return {
+    rooms: sorted,
+    totals: {
+      matched: matches.length,
+      missing: missing.length,
+      added: sorted.reduce((sum, room) => sum + room.added.length, 0),
+      missingValue: missing.reduce((sum, item) => sum + (Number(item.estimated_value) || 0), 0),
+    },
+  };
+}
+
+const WALKTHROUGH_ITEM_COLUMNS = `
+  id, name, description, estimated_value, category, media_type, review_status, source_video_id,
+  item_timestamp, thumbnail_url, thumbnail_hash, created_at,
+  asset_rooms(
+    rooms(name)
+  ),
+  asset_tags(
+    tags(name)
+  )
+`;
+
+type WalkthroughItemRow = Omit<WalkthroughItem, 'room' | 'tags'> & { asset_rooms: unknown; asset_tags: unknown };
+
+function toWalkthroughItem({ asset_rooms, asset_tags, ...row }: WalkthroughItemRow): WalkthroughItem {
+  return { ...row, room: extractRoomName(asset_rooms), tags: extractTagNames(asset_tags) };
+}
+
+/**
+ * Loads one side of a comparison. A recording's side holds the items found in it, pending
+ * ones included, and the items it was linked to as a sighting. A snapshot holds the accepted
+ * inventory added up to `asOf`.
+ */
+export async function loadWalkthrough(
+  client: SupabaseClient,
+  propertyId: string,
+  side: WalkthroughSide
+): Promise<WalkthroughItem[]> {
+  if ('asOf' in side) {
+    const { data, error } = await client
+      .from('assets')
+      .select(WALKTHROUGH_ITEM_COLUMNS)
+      .eq('property_id', propertyId)
+      .neq('media_type', 'video')
+      .eq('review_status', 'accepted')
+      .lte('created_at', side.asOf)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`Failed to load inventory: ${error.message}`);
+    return ((data || []) as WalkthroughItemRow[]).map(toWalkthroughItem);
+  }
+
+  const { data: video, error: videoError } = await client
+    .from('assets')
+    .select('id')
+    .eq('id', side.videoId)
+    .eq('property_id', propertyId)
+    .eq('media_type', 'video')
+    .maybeSingle();
+  if (videoError) throw new Error(`Failed to load recording: ${videoError.message}`);
+  if (!video) throw new ItemEditError('Recording not found', 404);
+
+  const { data: sightings, error: sightingsError } = await client
+    .from('item_sightings')
+    .select('asset_id')
+    .eq('source_video_id', side.videoId);
+  if (sightingsError) throw new Error(`Failed to load sightings: ${sightingsError.message}`);
+  const sightedIds = Array.from(new Set((sightings || []).map((sighting) => sighting.asset_id)));
+
+  const filter = sightedIds.length > 0
+    ? `source_video_id.eq.${side.videoId},id.in.(${sightedIds.join(',')})`
+    : `source_video_id.eq.${side.videoId}`;
+  const { data, error } = await client
+    .from('assets')
+    .select(WALKTHROUGH_ITEM_COLUMNS)
+    .eq('property_id', propertyId)
+    .eq('media_type', 'item')
+    .in('review_status', ['pending', 'accepted'])
+    .or(filter)
+    .order('item_timestamp', { ascending: true });
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+  return ((data || []) as WalkthroughItemRow[]).map(toWalkthroughItem);
+}
+
+/**
+ * Compares two walkthroughs of a property
+ */
+export async function compareWalkthroughsInProperty(
+  client: SupabaseClient,
+  propertyId: string,
+  before: WalkthroughSide,
+  after: RecordingSide
+): Promise<WalkthroughComparison> {
+  const [beforeItems, afterItems] = await Promise.all([
+    loadWalkthrough(client, propertyId, before),
+    loadWalkthrough(client, propertyId, after),
+  ]);
+  return compareWalkthroughs(beforeItems, afterItems);
+}
+
+/**
+ * The missing items as inventory spreadsheet rows, room by room
+ */
+export function missingItemRows(comparison: WalkthroughComparison): InventorySheetRow[] {
+  return comparison.rooms.flatMap((room) => room.missing.map((item) => ({
+    id: item.id,
+    name: item.name ?? '',
+    description: item.description ?? '',
+    estimated_value: item.estimated_value != null ? String(item.estimated_value) : '',
+    media_type: item.media_type,
+    room: item.room ?? '',
+    tags: formatTags(item.tags),
+    item_timestamp: item.item_timestamp != null ? String(item.item_timestamp) : '',
+    source_video_id: item.source_video_id ?? '',
+    created_at: item.created_at,
+  })));
+}
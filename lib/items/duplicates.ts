@@ -0,0 +1,318 @@
+/**
+ * Duplicate detection across recordings
+ *
+ * Recording a room again months later proposes every sofa and TV again, under a new
+ * `source_video_id`. Items from different recordings of a property are compared by name,
+ * description, room, value and how alike their thumbnails look (a dHash of each thumbnail,
+ * computed the first time it is needed and stored in `assets.thumbnail_hash`). Likely pairs
+ * are offered to the user, who can link them as one physical item or dismiss them.
+ *
+ * Linking merges the newer item into the older one, which keeps its details: the newer
+ * recording becomes a sighting of it and moves its `last_seen_at` forward.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReviewStatus } from '@/lib/db/schema';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
+import { createMuxPlaybackJWT, getMuxThumbnailUrl } from '@/lib/mux';
+import { extractRoomName } from '@/lib/reports/claim-report';
+import { trigramSimilarity } from '@/lib/search/snippets';
+import { hammingDistance } from '@/utils/perceptual-hash';
+import { hashFrame } from '@/utils/server/frame-dedup';
+import { fetchMedia } from '@/utils/server/fetch-media';
+import { ItemEditError, mergeInventoryItems } from './index';
+
+export interface DuplicateCandidate {
+  id: string;
+  name: string | null;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  review_status: ReviewStatus;
+  room: string | null;
+  source_video_id: string;
+  item_timestamp: number | null;
+  /** When the item's recording was made */
+  recorded_at: string | null;
+  last_seen_at: string | null;
+  thumbnail_url: string | null;
+  thumbnail_hash: string | null;
+}
+
+/** How alike two items are on each signal, 0 to 1; null when either item lacks it */
+export interface DuplicateSignals {
+  name: number;
+  description: number | null;
+  room: number | null;
+  value: number | null;
+  visual: number | null;
+}
+
+/** The details items are compared on, so other comparisons can reuse the scoring */
+export type ComparableItem = Pick<DuplicateCandidate, 'name' | 'description' | 'estimated_value' | 'category' | 'room' | 'thumbnail_hash'>;
+
+export interface DuplicatePair {
+  /** The item from the earlier recording, which is kept when the pair is linked */
+  older: DuplicateCandidate;
+  newer: DuplicateCandidate;
+  score: number;
+  signals: DuplicateSignals;
+}
+
+const SIGNAL_WEIGHTS: Record<keyof DuplicateSignals, number> = {
+  name: 0.4,
+  description: 0.15,
+  room: 0.15,
+  value: 0.1,
+  visual: 0.2,
+};
+
+/** Minimum score for a pair to be offered */
+export const DUPLICATE_THRESHOLD = 0.6;
+/** Thumbnails this many bits apart (of 64) or more count as not alike at all */
+const VISUAL_ZERO_DISTANCE = 24;
+/** Thumbnails hashed per request, so looking for duplicates stays quick */
+const HASH_BATCH_SIZE = 24;
+/** Thumbnails are small; a slow or oversized one is skipped rather than holding up the list */
+const THUMBNAIL_TIMEOUT_MS = 5_000;
+const THUMBNAIL_MAX_BYTES = 2 * 1024 * 1024;
+/** Ids per `.in()` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 100;
+
+function textSimilarity(a: string | null, b: string | null): number | null {
+  if (!a?.trim() || !b?.trim()) return null;
+  return trigramSimilarity(a.trim().toLowerCase(), b.trim().toLowerCase());
+}
+
+export function duplicateSignals(a: ComparableItem, b: ComparableItem): DuplicateSignals {
+  const values = [a.estimated_value, b.estimated_value].map((value) => (value != null ? Number(value) : null));
+  return {
+    name: textSimilarity(a.name, b.name) ?? 0,
+    description: textSimilarity(a.description, b.description),
+    room: a.room && b.room ? Number(a.room.toLowerCase() === b.room.toLowerCase()) : null,
+    value: values[0] && values[1] ? Math.min(values[0], values[1]) / Math.max(values[0], values[1]) : null,
+    visual: a.thumbnail_hash && b.thumbnail_hash
+      ? Math.max(0, 1 - hammingDistance(a.thumbnail_hash, b.thumbnail_hash) / VISUAL_ZERO_DISTANCE)
+      : null,
+  };
+}
+
+/**
+ * Weighted average of the signals both items have
+ */
+export function duplicateScore(signals: DuplicateSignals): number {
+  let total = 0;
+  let weight = 0;
+  for (const key of Object.keys(SIGNAL_WEIGHTS) as Array<keyof DuplicateSignals>) {
+    const value = signals[key];
+    if (value === null) continue;
+    total += value * SIGNAL_WEIGHTS[key];
+    weight += SIGNAL_WEIGHTS[key];
+  }
+  return weight === 0 ? 0 : total / weight;
+}
+
+/**
+ * Scores two items as possibly the same thing. Null when they cannot be: different
+ * categories, or nothing alike but the room and value.
+ */
+export function compareItems(a: ComparableItem, b: ComparableItem): { score: number; signals: DuplicateSignals } | null {
+  if (a.category && b.category && a.category !== b.category) return null;
+  const signals = duplicateSignals(a, b);
+  if (signals.name < 0.3 && (signals.visual ?? 0) < 0.75) return null;
+  return { score: duplicateScore(signals), signals };
+}
+
+/** Key of a pair regardless of order, as stored in `item_duplicate_dismissals` */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function isOlder(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  if (a.recorded_at && b.recorded_at && a.recorded_at !== b.recorded_at) return a.recorded_at < b.recorded_at;
+  // Accepted items are the established ones when the recordings cannot be ordered
+  return a.review_status === 'accepted' && b.review_status !== 'accepted';
+}
+
+/**
+ * Likely duplicates among items from different recordings, best first. Each item appears in
+ * at most one pair; dismissed pairs and items of different categories are never paired.
+ */
+export function findDuplicatePairs(
+  items: DuplicateCandidate[],
+  dismissed: Set<string> = new Set(),
+  threshold = DUPLICATE_THRESHOLD
+): DuplicatePair[] {
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i];
+      const b = items[j];
+      if (a.source_video_id === b.source_video_id) continue;
+      if (dismissed.has(pairKey(a.id, b.id))) continue;
+
+      const match = compareItems(a, b);
+      if (!match || match.score < threshold) continue;
+      const [older, newer] = isOlder(b, a) ? [b, a] : [a, b];
+      pairs.push({ older, newer, ...match });
+    }
+  }
+
+  pairs.sort((x, y) => y.score - x.score);
+  const paired = new Set<string>();
+  return pairs.filter((pair) => {
+    if (paired.has(pair.older.id) || paired.has(pair.newer.id)) return false;
+    paired.add(pair.older.id);
+    paired.add(pair.newer.id);
+    return true;
+  });
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) chunks.push(values.slice(i, i + size));
+  return chunks;
+}
+
+interface CandidateRow extends Omit<DuplicateCandidate, 'room' | 'recorded_at'> {
+  mux_playback_id: string | null;
+  asset_rooms: unknown;
+}
+
+async function thumbnailHash(row: CandidateRow, viewerId: string): Promise<string | null> {
+  try {
+    let url = row.thumbnail_url;
+    if (!url && row.mux_playback_id) {
+      const token = await createMuxPlaybackJWT(row.mux_playback_id, viewerId, 't', row.item_timestamp ?? 0);
+      url = getMuxThumbnailUrl(row.mux_playback_id, token);
+    }
+    if (!url) return null;
+    const image = await fetchMedia(url, { timeoutMs: THUMBNAIL_TIMEOUT_MS, maxBytes: THUMBNAIL_MAX_BYTES });
+    return await hashFrame(new Uint8Array(image).buffer);
+  } catch (error) {
+    console.warn(`[Duplicates] Could not hash the thumbnail of item ${row.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Likely duplicates across the recordings of a property. Thumbnails of items in close pairs
+ * are hashed (a batch at a time) and the hashes stored, so visual similarity firms up the
+ * scores; `viewerId` signs the Mux thumbnail requests.
+ */
+export async function listDuplicatePairs(
+  client: SupabaseClient,
+  propertyId: string,
+  viewerId: string
+): Promise<DuplicatePair[]> {
+  const { data, error } = await client
+    .from('assets')
+    .select(`
+      id, name, description, estimated_value, category, review_status, source_video_id, item_timestamp,
+      last_seen_at, thumbnail_url, thumbnail_hash, mux_playback_id,
+      asset_rooms(
+        rooms(name)
+      )
+    `)
+    .eq('property_id', propertyId)
+    .eq('media_type', 'item')
+    .in('review_status', ['pending', 'accepted'])
+    .not('source_video_id', 'is', null);
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+  const rows = (data || []) as CandidateRow[];
+
+  const videoIds = Array.from(new Set(rows.map((row) => row.source_video_id)));
+  if (videoIds.length < 2) return [];
+
+  const recordedAt = new Map<string, string>();
+  const dismissed = new Set<string>();
+  for (const ids of chunk(videoIds, ID_CHUNK_SIZE)) {
+    const { data: videos, error: videosError } = await client.from('assets').select('id, created_at').in('id', ids);
+    if (videosError) throw new Error(`Failed to load recordings: ${videosError.message}`);
+    for (const video of videos || []) recordedAt.set(video.id, video.created_at);
+  }
+  for (const ids of chunk(rows.map((row) => row.id), ID_CHUNK_SIZE)) {
+    const { data: dismissals, error: dismissalsError } = await client
+      .from('item_duplicate_dismissals')
+      .select('asset_id, other_asset_id')
+      .in('asset_id', ids);
+    if (dismissalsError) throw new Error(`Failed to load dismissed duplicates: ${dismissalsError.message}`);
+    for (const row of dismissals || []) dismissed.add(pairKey(row.asset_id, row.other_asset_id));
+  }
+
+  const candidates: DuplicateCandidate[] = rows.map(({ asset_rooms, ...row }) => ({
+    ...row,
+    room: extractRoomName(asset_rooms),
+    recorded_at: recordedAt.get(row.source_video_id) ?? null,
+  }));
+
+  // Pairs that could reach the threshold once their thumbnails are compared
+  const close = findDuplicatePairs(candidates, dismissed, DUPLICATE_THRESHOLD - SIGNAL_WEIGHTS.visual);
+  const toHash = rows
+    .filter((row) => !row.thumbnail_hash && close.some((pair) => pair.older.id === row.id || pair.newer.id === row.id))
+    .slice(0, HASH_BATCH_SIZE);
+  // In parallel, so the slowest thumbnail bounds the wait rather than the sum of them
+  await Promise.all(toHash.map(async (row) => {
+    const hash = await thumbnailHash(row, viewerId);
+    if (!hash) return;
+    candidates.find((candidate) => candidate.id === row.id)!.thumbnail_hash = hash;
+    // Viewers cannot write; the hash is simply computed again next time
+    await client.from('assets').update({ thumbnail_hash: hash }).eq('id', row.id);
+  }));
+
+  return findDuplicatePairs(candidates, dismissed);
+}
+
+async function checkCanEdit(client: SupabaseClient, userId: string, itemIds: string[]): Promise<void> {
+  const { data, error } = await client
+    .from('assets')
+    .select('id, household_id')
+    .in('id', itemIds)
+    .eq('media_type', 'item');
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+  const rows = data || [];
+  if (rows.length !== new Set(itemIds).size) throw new ItemEditError('Item not found', 404);
+  if (new Set(rows.map((row) => row.household_id)).size > 1) {
+    throw new ItemEditError('Items can only be compared within a household');
+  }
+  const role = await getHouseholdRole(client, userId, rows[0].household_id);
+  if (!role) throw new ItemEditError('Item not found', 404);
+  if (!canEditHousehold(role)) throw new ItemEditError('Only household owners and editors can link duplicates', 403);
+}
+
+/**
+ * Records the newer item as another sighting of the older one. The older item keeps its
+ * name, description and value; it gains the newer one's tags and moments in the recordings.
+ */
+export async function linkDuplicate(
+  client: SupabaseClient,
+  userId: string,
+  olderId: string,
+  newerId: string
+): Promise<{ targetId: string; mergedIds: string[]; sightingsAdded: number }> {
+  if (olderId === newerId) throw new ItemEditError('Choose two different items');
+  const { data: older, error } = await client
+    .from('assets')
+    .select('description, estimated_value')
+    .eq('id', olderId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load item: ${error.message}`);
+  if (!older) throw new ItemEditError('Item not found', 404);
+
+  return mergeInventoryItems(client, userId, olderId, [newerId], {
+    description: older.description,
+    estimated_value: older.estimated_value,
+  });
+}
+
+/**
+ * Remembers that two items are different things, so they are not offered as duplicates again
+ */
+export async function dismissDuplicate(client: SupabaseClient, userId: string, itemId: string, otherId: string): Promise<void> {
+  if (itemId === otherId) throw new ItemEditError('Choose two different items');
+  await checkCanEdit(client, userId, [itemId, otherId]);
+  const [asset_id, other_asset_id] = [itemId, otherId].sort();
+  const { error } = await client
+    .from('item_duplicate_dismissals')
+    .upsert({ asset_id, other_asset_id, dismissed_by: userId }, { onConflict: 'asset_id,other_asset_id', ignoreDuplicates: true });
+  if (error) throw new Error(`Failed to dismiss duplicate: ${error.message}`);
+}
@@ -0,0 +1,226 @@
+/**
+ * Merging and splitting inventory items by hand
+ *
+ * The merge prompt deduplicates detections, but it still leaves the odd duplicate and now
+ * and then glues two things into one item. Owners and editors can merge items into one, or
+ * split an item into new ones at moments they pick in the recording.
+ *
+ * A merge keeps the chosen item: the descriptions are combined, one value is kept, the tags
+ * are unioned and every moment the merged items were filmed becomes a sighting of it. The
+ * merged items are kept out of the inventory as rejected and point at it, as when duplicates
+ * are merged in the review queue. Both operations are recorded in `ai_provenance`.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReviewStatus } from '@/lib/db/schema';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
+import { ItemProvenance, mergeProvenance } from '@/lib/review';
+import { loadCarriedSightings } from './sightings';
+
+export * from './sightings';
+
+/** Choices for the merged item; anything left out is worked out from the items */
+export interface MergeChoices {
+  name?: string;
+  description?: string | null;
+  estimated_value?: number | null;
+}
+
+/** A new item to split off, found at `item_timestamp` in the same recording */
+export interface SplitPart {
+  name: string;
+  item_timestamp: number;
+  description?: string | null;
+  estimated_value?: number | null;
+  category?: string | null;
+}
+
+/**
+ * Raised when a merge or split is not allowed; `status` is the HTTP status to return
+ */
+export class ItemEditError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'ItemEditError';
+  }
+}
+
+interface EditableItemRow {
+  id: string;
+  name: string | null;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  household_id: string;
+  review_status: ReviewStatus;
+  source_video_id: string | null;
+  item_timestamp: number | null;
+  ai_provenance: ItemProvenance | null;
+}
+
+/**
+ * One description for the merged item: each distinct description once, leaving out any
+ * that another one already contains
+ */
+export function combineDescriptions(descriptions: Array<string | null | undefined>): string | null {
+  const distinct: string[] = [];
+  for (const description of descriptions) {
+    const text = description?.trim();
+    if (!text || distinct.some((kept) => kept.toLowerCase() === text.toLowerCase())) continue;
+    distinct.push(text);
+  }
+  const combined = distinct.filter((text) =>
+    !distinct.some((other) => other !== text && other.toLowerCase().includes(text.toLowerCase()))
+  );
+  return combined.length > 0 ? combined.join('\n\n') : null;
+}
+
+/**
+ * The merged item's value when the user did not pick one: the kept item's, or else the
+ * highest of the others. Duplicates are one item, so values are never added up.
+ */
+export function pickMergedValue(
+  target: Pick<EditableItemRow, 'estimated_value'>,
+  sources: Array<Pick<EditableItemRow, 'estimated_value'>>
+): number | null {
+  if (target.estimated_value != null) return Number(target.estimated_value);
+  const values = sources
+    .map((source) => source.estimated_value)
+    .filter((value): value is number => value != null)
+    .map(Number);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Loads the items and checks the user can edit every household they are in
+ */
+async function loadEditableItems(client: SupabaseClient, userId: string, itemIds: string[]): Promise<EditableItemRow[]> {
+  const ids = Array.from(new Set(itemIds));
+  const { data, error } = await client
+    .from('assets')
+    .select(`
+      id, name, description, estimated_value, category, household_id, review_status, source_video_id,
+      item_timestamp, ai_provenance
+    `)
+    .in('id', ids)
+    .eq('media_type', 'item');
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+  const rows = (data || []) as EditableItemRow[];
+  if (rows.length !== ids.length) throw new ItemEditError('Item not found', 404);
+
+  for (const householdId of new Set(rows.map((row) => row.household_id))) {
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) throw new ItemEditError('Item not found', 404);
+    if (!canEditHousehold(role)) throw new ItemEditError('Only household owners and editors can merge or split items', 403);
+  }
+  return rows;
+}
+
+const CHECK_VIOLATION = '23514';
+const NO_DATA_FOUND = 'P0002';
+
+/**
+ * Maps the errors merge_inventory_items and split_item raise to ItemEditError
+ */
+function itemRpcError(error: { code?: string; message: string }, fallback: string): Error {
+  if (error.code === NO_DATA_FOUND) return new ItemEditError('Item not found', 404);
+  if (error.code === CHECK_VIOLATION) return new ItemEditError(error.message, 409);
+  return new Error(`${fallback}: ${error.message}`);
+}
+
+/**
+ * Merges duplicates into `targetId`. The target is accepted into the inventory if it was
+ * still awaiting review; the duplicates are rejected and point at it. The writes happen in
+ * one transaction (`public.merge_inventory_items`).
+ */
+export async function mergeInventoryItems(
+  client: SupabaseClient,
+  userId: string,
+  targetId: string,
+  itemIds: string[],
+  choices: MergeChoices = {}
+): Promise<{ targetId: string; mergedIds: string[]; sightingsAdded: number }> {
+  const sourceIds = Array.from(new Set(itemIds)).filter((id) => id !== targetId);
+  if (sourceIds.length === 0) throw new ItemEditError('Choose at least one item to merge');
+
+  const rows = await loadEditableItems(client, userId, [targetId, ...sourceIds]);
+  const target = rows.find((row) => row.id === targetId)!;
+  const sources = rows.filter((row) => row.id !== targetId);
+  if (rows.some((row) => row.review_status === 'rejected')) {
+    throw new ItemEditError('Rejected items cannot be merged', 409);
+  }
+  if (sources.some((row) => row.household_id !== target.household_id)) {
+    throw new ItemEditError('Items can only be merged within a household');
+  }
+
+  const name = choices.name?.trim();
+  if (choices.name !== undefined && !name) throw new ItemEditError('Item name is required');
+  const value = choices.estimated_value !== undefined ? choices.estimated_value : pickMergedValue(target, sources);
+  const sightings = await loadCarriedSightings(client, target, sources);
+
+  const { data: sightingsAdded, error } = await client.rpc('merge_inventory_items', {
+    // Only read for service clients; a user's session always acts as auth.uid()
+    p_user_id: userId,
+    p_target_id: targetId,
+    p_source_ids: sourceIds,
+    p_name: name || null,
+    p_description: choices.description !== undefined
+      ? choices.description?.trim() || null
+      : combineDescriptions([target.description, ...sources.map((source) => source.description)]),
+    p_estimated_value: value,
+    p_value_edited: value !== (target.estimated_value != null ? Number(target.estimated_value) : null),
+    p_target_provenance: mergeProvenance(target.ai_provenance, sources),
+    p_source_provenance: Object.fromEntries(sources.map((source) => [
+      source.id,
+      { ...(source.ai_provenance ?? { source: 'merge_with_scratch' }), merged_into: targetId },
+    ])),
+    p_sightings: sightings,
+  });
+  if (error) throw itemRpcError(error, 'Failed to merge items');
+
+  return { targetId, mergedIds: sourceIds, sightingsAdded: Number(sightingsAdded) || 0 };
+}
+
+/**
+ * Splits new items off an item that covers more than one thing. The new items are found in
+ * the same recording at the given moments and start in the same room, with the same tags and
+ * review status; the original item stays as it is. The writes happen in one transaction
+ * (`public.split_item`).
+ */
+export async function splitItem(
+  client: SupabaseClient,
+  userId: string,
+  itemId: string,
+  parts: SplitPart[]
+): Promise<{ itemId: string; createdIds: string[] }> {
+  if (parts.length === 0) throw new ItemEditError('Add at least one item to split off');
+  const [item] = await loadEditableItems(client, userId, [itemId]);
+  if (item.review_status === 'rejected') throw new ItemEditError('Rejected items cannot be split', 409);
+  if (!item.source_video_id) throw new ItemEditError('Only items found in a recording can be split');
+
+  const newParts = parts.map((part) => {
+    const name = part.name.trim();
+    if (!name) throw new ItemEditError('Item name is required');
+    return {
+      name,
+      description: part.description?.trim() || null,
+      estimated_value: part.estimated_value ?? null,
+      category: part.category !== undefined ? part.category : item.category,
+      item_timestamp: part.item_timestamp,
+    };
+  });
+
+  const { data, error } = await client.rpc('split_item', {
+    // Only read for service clients, as with merge_inventory_items
+    p_user_id: userId,
+    p_item_id: item.id,
+    p_parts: newParts,
+    p_provenance: {
+      source: item.ai_provenance?.source ?? 'merge_with_scratch',
+      ...(item.ai_provenance?.model && { model: item.ai_provenance.model }),
+      split_from: { id: item.id, name: item.name },
+    } satisfies ItemProvenance,
+  });
+  if (error) throw itemRpcError(error, 'Failed to split item');
+
+  return { itemId: item.id, createdIds: (data || []) as string[] };
+}
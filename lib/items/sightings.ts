@@ -0,0 +1,99 @@
+/**
+ * Sightings: the moments in recordings where an item appears
+ *
+ * An item's own `source_video_id` and `item_timestamp` are its first sighting; the rest are
+ * rows in `item_sightings`. When items are merged, the survivor takes over every sighting of
+ * the items merged into it.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface ItemSighting {
+  source_video_id: string;
+  item_timestamp: number | null;
+  /** The merged item the sighting came from */
+  origin_asset_id: string | null;
+}
+
+/** The fields of an item that locate it in a recording */
+export interface SightedItem {
+  id: string;
+  source_video_id: string | null;
+  item_timestamp: number | null;
+}
+
+function sightingKey(sighting: { source_video_id: string; item_timestamp: number | null }): string {
+  return `${sighting.source_video_id}@${sighting.item_timestamp ?? ''}`;
+}
+
+/**
+ * The sightings `target` gains when `sources` are merged into it: each source's own moment
+ * and the sightings it already had, without repeating one the target already has
+ */
+export function collectSightings(
+  target: SightedItem,
+  sources: SightedItem[],
+  sourceSightings: Array<ItemSighting & { asset_id: string }>,
+  targetSightings: ItemSighting[] = []
+): ItemSighting[] {
+  const seen = new Set(targetSightings.map(sightingKey));
+  if (target.source_video_id) {
+    seen.add(sightingKey({ source_video_id: target.source_video_id, item_timestamp: target.item_timestamp }));
+  }
+
+  const collected: ItemSighting[] = [];
+  const add = (sighting: ItemSighting) => {
+    const key = sightingKey(sighting);
+    if (seen.has(key)) return;
+    seen.add(key);
+    collected.push(sighting);
+  };
+  for (const source of sources) {
+    if (source.source_video_id) {
+      add({ source_video_id: source.source_video_id, item_timestamp: source.item_timestamp, origin_asset_id: source.id });
+    }
+    for (const sighting of sourceSightings.filter((row) => row.asset_id === source.id)) {
+      add({
+        source_video_id: sighting.source_video_id,
+        item_timestamp: sighting.item_timestamp,
+        origin_asset_id: sighting.origin_asset_id ?? source.id,
+      });
+    }
+  }
+  return collected;
+}
+
+/**
+ * Sightings of an item besides its own, in the order they were recorded
+ */
+export async function listSightings(client: SupabaseClient, assetId: string): Promise<ItemSighting[]> {
+  const { data, error } = await client
+    .from('item_sightings')
+    .select('source_video_id, item_timestamp, origin_asset_id')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load sightings: ${error.message}`);
+  return (data || []) as ItemSighting[];
+}
+
+/**
+ * The sightings `target` gains when `sources` are merged into it, given the ones stored now
+ */
+export async function loadCarriedSightings(
+  client: SupabaseClient,
+  target: SightedItem,
+  sources: SightedItem[]
+): Promise<ItemSighting[]> {
+  const { data, error } = await client
+    .from('item_sightings')
+    .select('asset_id, source_video_id, item_timestamp, origin_asset_id')
+    .in('asset_id', [target.id, ...sources.map((source) => source.id)]);
+  if (error) throw new Error(`Failed to load sightings: ${error.message}`);
+  const rows = (data || []) as Array<ItemSighting & { asset_id: string }>;
+
+  return collectSightings(
+    target,
+    sources,
+    rows.filter((row) => row.asset_id !== target.id),
+    rows.filter((row) => row.asset_id === target.id)
+  );
+}
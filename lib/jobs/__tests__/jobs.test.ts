@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assetJobKey,
+  BACKOFF_BASE_MS,
+  BACKOFF_MAX_MS,
+  computeBackoffMs,
+  failureUpdate,
+  isJobType,
+} from '../index';
+
+describe('computeBackoffMs', () => {
+  it('doubles the delay with each failed attempt', () => {
+    expect(computeBackoffMs(1)).toBe(BACKOFF_BASE_MS);
+    expect(computeBackoffMs(2)).toBe(BACKOFF_BASE_MS * 2);
+    expect(computeBackoffMs(3)).toBe(BACKOFF_BASE_MS * 4);
+  });
+
+  it('caps the delay', () => {
+    expect(computeBackoffMs(20)).toBe(BACKOFF_MAX_MS);
+  });
+});
+
+describe('failureUpdate', () => {
+  const now = Date.parse('2025-06-04T12:00:00.000Z');
+
+  it('requeues with backoff while attempts remain', () => {
+    const update = failureUpdate({ attempts: 2, max_attempts: 5 }, 'boom', now);
+    expect(update.status).toBe('queued');
+    expect(update.last_error).toBe('boom');
+    expect(update.locked_by).toBeNull();
+    expect(update.run_at).toBe(new Date(now + BACKOFF_BASE_MS * 2).toISOString());
+  });
+
+  it('dead-letters once the last attempt fails', () => {
+    const update = failureUpdate({ attempts: 5, max_attempts: 5 }, 'boom', now);
+    expect(update.status).toBe('dead');
+    expect(update.completed_at).toBe(new Date(now).toISOString());
+    expect(update.run_at).toBeUndefined();
+  });
+});
+
+describe('job helpers', () => {
+  it('recognises known job types', () => {
+    expect(isJobType('merge')).toBe(true);
+    expect(isJobType('transcribe')).toBe(true);
+    expect(isJobType('render')).toBe(false);
+    expect(isJobType(undefined)).toBe(false);
+  });
+
+  it('builds per-asset idempotency keys', () => {
+    expect(assetJobKey('transcribe', 'asset-1')).toBe('transcribe:asset:asset-1');
+  });
+});
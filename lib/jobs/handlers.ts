@@ -0,0 +1,140 @@
+/**
+ * Job handlers
+ *
+ * Each handler runs one attempt of a job. Throwing marks the attempt as failed so the
+ * worker retries it with backoff; `onDead` runs once when retries are exhausted.
+ * Transcription and the LLM steps still run in their API routes, which handlers call
+ * with the server API key so the work gets the route's full function timeout. Document
+ * extraction is a single model call and runs in the worker itself.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Json } from '@/lib/db/schema';
+import {
+  completeSessionMerge,
+  failSessionMerge,
+  findSessionForAsset,
+  triggerSessionMerge,
+} from '@/lib/sessions';
+import { processItemDocument } from '@/lib/documents/extract';
+import type { RemergeDiff } from '@/lib/review';
+import { Job, JobType } from './index';
+
+export interface JobHandler {
+  run(job: Job, client: SupabaseClient): Promise<Json | null>;
+  /** Called once when the job is dead-lettered */
+  onDead?(job: Job, client: SupabaseClient, error: string): Promise<void>;
+}
+
+/** Upper bound for one internal route call, so a hung request fails the attempt */
+const JOB_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+function payloadString(job: Job, key: string): string | null {
+  const payload = job.payload as Record<string, Json | undefined> | null;
+  const value = payload?.[key];
+  return typeof value === 'string' && value ? value : null;
+}
+
+function requirePayloadString(job: Job, key: string): string {
+  const value = payloadString(job, key);
+  if (!value) throw new Error(`Job ${job.id} payload is missing ${key}`);
+  return value;
+}
+
+async function callInternalRoute(path: string, body: Record<string, unknown>): Promise<Json> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_SITE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.API_SECRET_KEY || ''}`,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(JOB_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`${path} responded ${response.status}: ${errorText.slice(0, 500)}`);
+  }
+  return response.json();
+}
+
+async function loadTranscriptAsset(client: SupabaseClient, assetId: string) {
+  const { data, error } = await client
+    .from('assets')
+    .select('id, user_id, mux_asset_id, transcript, transcript_text')
+    .eq('id', assetId)
+    .single();
+  if (error || !data) throw new Error(`Asset ${assetId} not found: ${error?.message ?? 'no data'}`);
+  return data;
+}
+
+const transcribe: JobHandler = {
+  async run(job) {
+    const assetId = requirePayloadString(job, 'asset_id');
+    const result = await callInternalRoute('/api/transcribe', { assetId }) as { hasTranscript?: boolean };
+    return { hasTranscript: !!result?.hasTranscript };
+  },
+  // Without a transcript the session can still merge its scratch items
+  async onDead(job, client) {
+    const assetId = payloadString(job, 'asset_id');
+    if (!assetId) return;
+    const session = await findSessionForAsset(client, assetId);
+    if (session) await triggerSessionMerge(client, session.id);
+  },
+};
+
+const analyzeTranscript: JobHandler = {
+  async run(job, client) {
+    const asset = await loadTranscriptAsset(client, requirePayloadString(job, 'asset_id'));
+    if (!asset.transcript) throw new Error(`Asset ${asset.id} has no transcript to analyze`);
+    const result = await callInternalRoute('/api/analyze-transcript', {
+      videoAssetId: asset.id,
+      transcript: asset.transcript,
+    }) as { items?: unknown[] };
+    return { itemCount: result?.items?.length ?? 0 };
+  },
+};
+
+const merge: JobHandler = {
+  async run(job, client) {
+    const asset = await loadTranscriptAsset(client, requirePayloadString(job, 'asset_id'));
+    const result = await callInternalRoute('/api/analyze-transcript/merge-with-scratch', {
+      user_id: asset.user_id,
+      asset_id: asset.id,
+      mux_asset_id: asset.mux_asset_id,
+      transcript: asset.transcript ?? asset.transcript_text ?? undefined,
+    }) as { items?: unknown[]; diff?: RemergeDiff };
+
+    const sessionId = payloadString(job, 'session_id');
+    if (sessionId) await completeSessionMerge(client, sessionId);
+    // A re-run reports what it changed on the items it created the first time
+    const diff = result?.diff;
+    return {
+      itemCount: result?.items?.length ?? 0,
+      ...(diff && {
+        changedCount: diff.changed.length,
+        unchangedCount: diff.unchanged.length,
+        vanishedCount: diff.vanished.length,
+        removedCount: diff.vanished.filter((item) => item.removed).length,
+      }),
+    };
+  },
+  async onDead(job, client, error) {
+    const sessionId = payloadString(job, 'session_id');
+    if (sessionId) await failSessionMerge(client, sessionId, error);
+  },
+};
+
+const extractDocument: JobHandler = {
+  async run(job, client) {
+    const { updatedFields } = await processItemDocument(client, requirePayloadString(job, 'document_id'));
+    return { updatedFields };
+  },
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  transcribe,
+  analyze_transcript: analyzeTranscript,
+  merge,
+  extract_document: extractDocument,
+};
@@ -0,0 +1,211 @@
+/**
+ * Durable job queue backed by the `jobs` table
+ *
+ * Work that used to be fired inline from the Mux webhook (transcription, transcript
+ * analysis, merge) and document extraction are enqueued here and drained by the worker
+ * in ./worker.ts.
+ * Failed attempts are retried with exponential backoff and dead-lettered after
+ * `max_attempts`; jobs stuck in `running` (worker timed out) are reclaimed.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Json, JobsTable } from '@/lib/db/schema';
+
+export type Job = JobsTable['Row'];
+
+export const JOB_TYPES = ['transcribe', 'analyze_transcript', 'merge', 'extract_document'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const BACKOFF_BASE_MS = 30 * 1000;
+export const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+/** Running jobs locked longer than this are assumed lost and claimed again */
+export const JOB_LOCK_TIMEOUT_SECONDS = 10 * 60;
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Idempotency key for a job acting on one asset, e.g. `transcribe:asset:<id>`
+ */
+export function assetJobKey(type: JobType, assetId: string): string {
+  return `${type}:asset:${assetId}`;
+}
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts: 30s, 1m, 2m, 4m... capped at 30m
+ */
+export function computeBackoffMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(BACKOFF_BASE_MS * 2 ** exponent, BACKOFF_MAX_MS);
+}
+
+/**
+ * The update applied when an attempt fails: retry later, or dead-letter once attempts run out
+ */
+export function failureUpdate(job: Pick<Job, 'attempts' | 'max_attempts'>, error: string, now = Date.now()): JobsTable['Update'] {
+  if (job.attempts >= job.max_attempts) {
+    return {
+      status: 'dead',
+      last_error: error,
+      locked_at: null,
+      locked_by: null,
+      completed_at: new Date(now).toISOString(),
+    };
+  }
+  return {
+    status: 'queued',
+    last_error: error,
+    locked_at: null,
+    locked_by: null,
+    run_at: new Date(now + computeBackoffMs(job.attempts)).toISOString(),
+  };
+}
+
+export interface EnqueueJobInput {
+  type: JobType;
+  payload: Record<string, Json | undefined>;
+  idempotencyKey?: string;
+  userId?: string | null;
+  assetId?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+  /** Reset a finished (succeeded or dead) job with the same key so it runs again */
+  requeue?: boolean;
+}
+
+/**
+ * Adds a job to the queue. With an idempotency key, enqueuing the same work twice returns
+ * the existing job; pass `requeue` to run a finished job again.
+ */
+export async function enqueueJob(client: SupabaseClient, input: EnqueueJobInput): Promise<Job> {
+  const row: JobsTable['Insert'] = {
+    type: input.type,
+    payload: input.payload,
+    idempotency_key: input.idempotencyKey ?? null,
+    user_id: input.userId ?? null,
+    asset_id: input.assetId ?? null,
+    max_attempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_at: (input.runAt ?? new Date()).toISOString(),
+  };
+
+  if (!input.idempotencyKey) {
+    const { data, error } = await client.from('jobs').insert(row).select('*').single();
+    if (error) throw new Error(`Failed to enqueue ${input.type} job: ${error.message}`);
+    return data as Job;
+  }
+
+  const { error: upsertError } = await client
+    .from('jobs')
+    .upsert(row, { onConflict: 'idempotency_key', ignoreDuplicates: true });
+  if (upsertError) throw new Error(`Failed to enqueue ${input.type} job: ${upsertError.message}`);
+
+  const { data: existing, error } = await client
+    .from('jobs')
+    .select('*')
+    .eq('idempotency_key', input.idempotencyKey)
+    .single();
+  if (error) throw new Error(`Failed to load ${input.type} job: ${error.message}`);
+
+  const job = existing as Job;
+  if (input.requeue && (job.status === 'succeeded' || job.status === 'dead')) {
+    return resetJob(client, job, row);
+  }
+  return job;
+}
+
+async function resetJob(client: SupabaseClient, job: Job, row: JobsTable['Insert']): Promise<Job> {
+  const { data, error } = await client
+    .from('jobs')
+    .update({
+      payload: row.payload,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: row.max_attempts,
+      run_at: row.run_at,
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      result: null,
+      completed_at: null,
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to requeue job ${job.id}: ${error.message}`);
+  // Someone else requeued it first; theirs is just as good
+  return (data as Job | null) ?? job;
+}
+
+export async function claimJobs(
+  client: SupabaseClient,
+  workerId: string,
+  options: { limit?: number; types?: JobType[] } = {}
+): Promise<Job[]> {
+  const { data, error } = await client.rpc('claim_jobs', {
+    p_worker: workerId,
+    p_limit: options.limit ?? 5,
+    p_types: options.types ?? null,
+    p_lock_timeout_seconds: JOB_LOCK_TIMEOUT_SECONDS,
+  });
+  if (error) throw new Error(`Failed to claim jobs: ${error.message}`);
+  return (data || []) as Job[];
+}
+
+export async function markJobSucceeded(client: SupabaseClient, job: Job, result: Json | null): Promise<void> {
+  const { error } = await client
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by);
+  if (error) throw new Error(`Failed to mark job ${job.id} succeeded: ${error.message}`);
+}
+
+/**
+ * Records a failed attempt. Returns the job's new status (`queued` for a retry, or `dead`).
+ */
+export async function markJobFailed(client: SupabaseClient, job: Job, errorMessage: string): Promise<'queued' | 'dead'> {
+  const update = failureUpdate(job, errorMessage);
+  const { error } = await client
+    .from('jobs')
+    .update(update)
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by);
+  if (error) throw new Error(`Failed to record failure for job ${job.id}: ${error.message}`);
+  return update.status === 'dead' ? 'dead' : 'queued';
+}
+
+export async function listAssetJobs(client: SupabaseClient, assetId: string): Promise<Job[]> {
+  const { data, error } = await client
+    .from('jobs')
+    .select('*')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+  return (data || []) as Job[];
+}
+
+/**
+ * Asks the worker route to drain the queue now instead of waiting for the next scheduled run.
+ * Fire-and-forget: queued jobs are durable, so a lost kick only delays them.
+ */
+export function kickJobWorker(): void {
+  if (process.env.JOB_WORKER_KICK === 'false') return;
+
+  fetch(`${process.env.NEXT_PUBLIC_SITE_URL}/api/jobs/worker`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${process.env.API_SECRET_KEY || ''}` },
+  }).catch((error) => {
+    console.warn('[Jobs] Could not kick job worker:', error);
+  });
+}
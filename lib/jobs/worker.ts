@@ -0,0 +1,94 @@
+/**
+ * Drains the job queue: claims due jobs, runs their handlers and records the outcome
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Json } from '@/lib/db/schema';
+import { claimJobs, Job, JobType, isJobType, markJobFailed, markJobSucceeded } from './index';
+import { JOB_HANDLERS } from './handlers';
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  /** Jobs claimed per round */
+  batchSize?: number;
+  types?: JobType[];
+  /** Stop claiming new jobs after this long so the caller's own timeout is respected */
+  maxRuntimeMs?: number;
+}
+
+export interface JobOutcome {
+  id: string;
+  type: string;
+  attempt: number;
+  status: 'succeeded' | 'queued' | 'dead';
+  error?: string;
+}
+
+export interface JobWorkerSummary {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+  jobs: JobOutcome[];
+}
+
+export async function runJobWorker(
+  client: SupabaseClient,
+  options: JobWorkerOptions = {}
+): Promise<JobWorkerSummary> {
+  const workerId = options.workerId ?? `worker_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  const deadline = Date.now() + (options.maxRuntimeMs ?? 4 * 60 * 1000);
+  const outcomes: JobOutcome[] = [];
+
+  while (Date.now() < deadline) {
+    const jobs = await claimJobs(client, workerId, { limit: options.batchSize ?? 5, types: options.types });
+    if (jobs.length === 0) break;
+
+    // One at a time: each job is a long LLM or transcription call
+    for (const job of jobs) {
+      outcomes.push(await runJob(client, job));
+    }
+  }
+
+  return {
+    workerId,
+    processed: outcomes.length,
+    succeeded: outcomes.filter((outcome) => outcome.status === 'succeeded').length,
+    retried: outcomes.filter((outcome) => outcome.status === 'queued').length,
+    dead: outcomes.filter((outcome) => outcome.status === 'dead').length,
+    jobs: outcomes,
+  };
+}
+
+async function runJob(client: SupabaseClient, job: Job): Promise<JobOutcome> {
+  const outcome = { id: job.id, type: job.type, attempt: job.attempts };
+
+  try {
+    // A job reclaimed after its worker died may already have used its last attempt
+    if (job.attempts > job.max_attempts) {
+      throw new Error(job.last_error ?? 'Attempts exhausted before the job could finish');
+    }
+    if (!isJobType(job.type)) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+
+    console.log(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+    const result = await JOB_HANDLERS[job.type].run(job, client);
+    await markJobSucceeded(client, job, (result ?? null) as Json | null);
+    console.log(`[Jobs] ${job.type} job ${job.id} succeeded`);
+    return { ...outcome, status: 'succeeded' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = await markJobFailed(client, job, message);
+    console.error(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), ${status === 'dead' ? 'dead-lettered' : 'will retry'}:`, message);
+
+    if (status === 'dead' && isJobType(job.type)) {
+      try {
+        await JOB_HANDLERS[job.type].onDead?.(job, client, message);
+      } catch (deadError) {
+        console.error(`[Jobs] Dead-letter hook for job ${job.id} failed:`, deadError);
+      }
+    }
+    return { ...outcome, status, error: message };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { describeMuxWebhookAction, getMuxWebhookIds, MuxWebhookPayload } from '../webhook';
+
+function makeEvent(type: string, data: Partial<MuxWebhookPayload['data']>): MuxWebhookPayload {
+  return { type, id: 'event-1', created_at: '2025-06-05T10:00:00.000Z', data } as MuxWebhookPayload;
+}
+
+describe('getMuxWebhookIds', () => {
+  it('reads the upload from data.id and the asset from data.asset_id on upload.asset_created', () => {
+    const ids = getMuxWebhookIds(makeEvent('video.upload.asset_created', { id: 'upload-1', asset_id: 'mux-1' }));
+    expect(ids.muxUploadId).toBe('upload-1');
+    expect(ids.muxAssetId).toBe('mux-1');
+  });
+
+  it('reads the asset from data.id on asset.ready', () => {
+    const ids = getMuxWebhookIds(makeEvent('video.asset.ready', {
+      id: 'mux-1',
+      upload_id: 'upload-1',
+      metadata: { correlation_id: 'corr-1' },
+    }));
+    expect(ids).toEqual({ muxAssetId: 'mux-1', muxUploadId: 'upload-1', correlationId: 'corr-1' });
+  });
+
+  it('reads the asset from data.asset_id on static rendition events', () => {
+    const ids = getMuxWebhookIds(makeEvent('video.asset.static_rendition.ready', { id: 'rendition-1', asset_id: 'mux-1' }));
+    expect(ids.muxAssetId).toBe('mux-1');
+    expect(ids.muxUploadId).toBeNull();
+  });
+});
+
+describe('describeMuxWebhookAction', () => {
+  it('describes handled event types', () => {
+    expect(describeMuxWebhookAction('video.asset.ready')).toMatch(/ready/);
+    expect(describeMuxWebhookAction('video.static_rendition.ready')).toMatch(/transcription/);
+  });
+
+  it('reports other event types as stored only', () => {
+    expect(describeMuxWebhookAction('video.asset.errored')).toMatch(/No action/);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Replays stored Mux webhook events
+ *
+ * Every event the webhook receives is kept in `webhook_events`, including events whose
+ * signature failed to verify. Replaying runs them through the same handler as the
+ * webhook route, which is how events missed during an outage or a misconfigured
+ * MUX_WEBHOOK_SECRET are recovered.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/db/schema';
+import { describeMuxWebhookAction, handleMuxWebhookEvent, MuxWebhookPayload } from './webhook';
+
+export type StoredWebhookEvent = Database['public']['Tables']['webhook_events']['Row'];
+
+export const MAX_REPLAY_EVENTS = 500;
+
+export interface WebhookReplayFilters {
+  /** Our asset ID; matches events linked to the asset or to its Mux asset */
+  assetId?: string;
+  muxAssetId?: string;
+  eventType?: string;
+  unprocessedOnly?: boolean;
+  /** Also replay events whose signature did not verify */
+  includeUnverified?: boolean;
+  /** ISO timestamps bounding when the event was received */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface WebhookReplayOutcome {
+  id: StoredWebhookEvent['id'];
+  eventId: string;
+  eventType: string;
+  receivedAt: string;
+  muxAssetId: string | null;
+  signatureVerified: boolean;
+  wasProcessed: boolean;
+  action: string;
+  /** Processed flag after the replay; absent on a dry run */
+  processed?: boolean;
+  error?: string;
+}
+
+export interface WebhookReplaySummary {
+  dryRun: boolean;
+  matched: number;
+  replayed: number;
+  processed: number;
+  failed: number;
+  events: WebhookReplayOutcome[];
+}
+
+/**
+ * Loads the stored events matching the filters, oldest first so that events replay in
+ * the order Mux sent them (upload linked before asset ready before static rendition)
+ */
+export async function findWebhookEvents(
+  client: SupabaseClient,
+  filters: WebhookReplayFilters
+): Promise<StoredWebhookEvent[]> {
+  let query = client.from('webhook_events').select('*');
+
+  if (filters.assetId) {
+    const { data: asset, error } = await client
+      .from('assets')
+      .select('id, mux_asset_id')
+      .eq('id', filters.assetId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load asset: ${error.message}`);
+
+    query = asset?.mux_asset_id
+      ? query.or(`asset_id.eq.${filters.assetId},mux_asset_id.eq.${asset.mux_asset_id},mux_upload_id.eq.${asset.mux_asset_id}`)
+      : query.eq('asset_id', filters.assetId);
+  }
+  if (filters.muxAssetId) query = query.eq('mux_asset_id', filters.muxAssetId);
+  if (filters.eventType) query = query.eq('event_type', filters.eventType);
+  if (filters.unprocessedOnly) query = query.eq('processed', false);
+  if (!filters.includeUnverified) query = query.eq('signature_verified', true);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(Math.min(filters.limit ?? 100, MAX_REPLAY_EVENTS));
+
+  if (error) throw new Error(`Failed to load webhook events: ${error.message}`);
+  return (data || []) as StoredWebhookEvent[];
+}
+
+function describeEvent(event: StoredWebhookEvent): WebhookReplayOutcome {
+  return {
+    id: event.id,
+    eventId: event.event_id,
+    eventType: event.event_type,
+    receivedAt: event.created_at,
+    muxAssetId: event.mux_asset_id,
+    signatureVerified: event.signature_verified,
+    wasProcessed: event.processed,
+    action: describeMuxWebhookAction(event.event_type),
+  };
+}
+
+/**
+ * Replays the matching events one at a time. With `dryRun`, only reports which events
+ * would be replayed and what handling each would do.
+ */
+export async function replayWebhookEvents(
+  client: SupabaseClient,
+  filters: WebhookReplayFilters,
+  options: { dryRun?: boolean } = {}
+): Promise<WebhookReplaySummary> {
+  const events = await findWebhookEvents(client, filters);
+  const dryRun = !!options.dryRun;
+
+  if (dryRun) {
+    return { dryRun, matched: events.length, replayed: 0, processed: 0, failed: 0, events: events.map(describeEvent) };
+  }
+
+  const outcomes: WebhookReplayOutcome[] = [];
+  for (const event of events) {
+    outcomes.push(await replayEvent(client, event));
+  }
+
+  return {
+    dryRun,
+    matched: events.length,
+    replayed: outcomes.length,
+    processed: outcomes.filter((outcome) => outcome.processed).length,
+    failed: outcomes.filter((outcome) => outcome.error).length,
+    events: outcomes,
+  };
+}
+
+async function replayEvent(client: SupabaseClient, event: StoredWebhookEvent): Promise<WebhookReplayOutcome> {
+  const outcome = describeEvent(event);
+  let processingError: string | null = null;
+
+  console.log(`[Webhook Replay] Replaying ${event.event_type} event ${event.event_id}`);
+  try {
+    await handleMuxWebhookEvent(client, event.payload as unknown as MuxWebhookPayload, { recordProcessed: true });
+  } catch (error) {
+    processingError = error instanceof Error ? error.message : String(error);
+    console.error(`[Webhook Replay] Event ${event.event_id} failed:`, error);
+  }
+
+  const { data: updated, error: updateError } = await client
+    .from('webhook_events')
+    .update({
+      replay_count: (event.replay_count ?? 0) + 1,
+      last_replayed_at: new Date().toISOString(),
+      processing_error: processingError,
+    })
+    .eq('id', event.id)
+    .select('processed')
+    .single();
+
+  if (updateError) {
+    console.error(`[Webhook Replay] Could not record replay of event ${event.event_id}:`, updateError);
+  }
+
+  return {
+    ...outcome,
+    processed: updated?.processed ?? false,
+    ...(processingError ? { error: processingError } : {}),
+  };
+}
@@ -0,0 +1,436 @@
+/**
+ * Mux webhook event handling
+ *
+ * Shared by the webhook route, which receives events from Mux, and by the replay tool
+ * (./replay.ts), which re-runs events stored in `webhook_events`. Handling is keyed on
+ * database state, so running an event twice does not duplicate work.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MuxWebhookEvent } from '@/types/mux';
+import {
+  attachScratchItemsToMuxAsset,
+  findSessionForAsset,
+  linkSessionMuxAsset,
+  triggerSessionMerge
+} from '@/lib/sessions';
+import { assetJobKey, enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { recordUsage } from '@/lib/usage';
+
+export type MuxWebhookPayload = MuxWebhookEvent & {
+  data: {
+    id?: string;
+    upload_id?: string;
+    asset_id?: string;
+    type?: string;
+    static_renditions?: { name: string; status: string }[];
+    metadata?: { correlation_id?: string; [key: string]: string | number | boolean | null | undefined };
+    name?: string;
+    status?: string;
+    playback_ids?: { id: string; policy: 'signed' | 'public' }[];
+    duration?: number;
+    aspect_ratio?: string;
+    max_stored_resolution?: string;
+  }
+};
+
+export interface MuxWebhookIds {
+  muxAssetId: string | null;
+  muxUploadId: string | null;
+  correlationId: string | null;
+}
+
+export interface HandleMuxWebhookOptions {
+  /** Whether `webhook_events` exists, so handled events can be marked processed */
+  recordProcessed: boolean;
+}
+
+export function isStaticRenditionEvent(type: string): boolean {
+  return type === 'video.static_rendition.ready' || type === 'video.asset.static_rendition.ready';
+}
+
+/**
+ * Extracts the Mux IDs an event refers to. Static rendition events carry the asset in
+ * `data.asset_id`; `video.upload.asset_created` carries the upload in `data.id` and the
+ * asset it created in `data.asset_id`.
+ */
+export function getMuxWebhookIds(event: MuxWebhookPayload): MuxWebhookIds {
+  const isUploadEvent = event.type === 'video.upload.asset_created';
+  const muxAssetId = isStaticRenditionEvent(event.type) || isUploadEvent
+    ? event.data?.asset_id || null
+    : event.data?.id || event.data?.asset_id || null;
+
+  const muxUploadId = event.data?.upload_id || (isUploadEvent ? event.data?.id : null) || null;
+
+  return {
+    muxAssetId,
+    muxUploadId,
+    correlationId: event.data?.metadata?.correlation_id || null,
+  };
+}
+
+/**
+ * What handling an event of this type does, for replay dry runs
+ */
+export function describeMuxWebhookAction(type: string): string {
+  if (type === 'video.upload.asset_created') {
+    return 'Link the upload to its Mux asset on the asset record and recording session';
+  }
+  if (type === 'video.asset.ready') {
+    return 'Mark the asset ready with playback info, attach scratch items and trigger the session merge';
+  }
+  if (isStaticRenditionEvent(type)) {
+    return 'Queue transcription, or the merge if the transcript is already complete';
+  }
+  return 'No action (event type is only stored)';
+}
+
+async function markEventProcessed(client: SupabaseClient, eventId: string, assetId: string | null) {
+  await client
+    .from('webhook_events')
+    .update({ processed: true, processed_at: new Date().toISOString(), asset_id: assetId })
+    .eq('event_id', eventId);
+}
+
+/**
+ * Acts on a Mux webhook event. Failures are logged and leave the event unprocessed so it
+ * can be replayed later.
+ */
+export async function handleMuxWebhookEvent(
+  client: SupabaseClient,
+  event: MuxWebhookPayload,
+  options: HandleMuxWebhookOptions
+): Promise<void> {
+  const { muxAssetId } = getMuxWebhookIds(event);
+
+  if (event.type === 'video.upload.asset_created') {
+    await handleUploadAssetCreated(client, event, options);
+  } else if (event.type === 'video.asset.ready' && muxAssetId) {
+    await handleAssetReady(client, event, muxAssetId, options);
+  } else if (isStaticRenditionEvent(event.type) && muxAssetId) {
+    await handleStaticRenditionReady(client, event, muxAssetId, options);
+  } else {
+    console.log(`Ignoring Mux event type: ${event.type} for primary action.`);
+  }
+}
+
+/**
+ * Links the Upload ID to the final Asset ID. The asset record was created with the
+ * Upload ID in `mux_asset_id`; this event carries the upload in `data.id` and the
+ * asset in `data.asset_id`.
+ */
+async function handleUploadAssetCreated(
+  client: SupabaseClient,
+  event: MuxWebhookPayload,
+  options: HandleMuxWebhookOptions
+) {
+  const uploadId = event.data?.id;
+  const actualAssetId = event.data?.asset_id;
+
+  if (!uploadId || !actualAssetId) {
+    console.warn(`[video.upload.asset_created] Missing upload_id or asset_id in event data. Skipping update.`);
+    return;
+  }
+
+  console.log(`Processing video.upload.asset_created for Upload ID: ${uploadId}. Actual Asset ID: ${actualAssetId}`);
+
+  const { data: assetToUpdate, error: findError } = await client
+    .from('assets')
+    .select('id, mux_asset_id')
+    .eq('mux_asset_id', uploadId)
+    .limit(1)
+    .single();
+
+  if (findError) {
+    console.error(`Error finding asset record using Upload ID ${uploadId} for update:`, findError);
+    return;
+  }
+  if (!assetToUpdate) {
+    console.warn(`Asset record not found using Upload ID ${uploadId}. It might have been created differently or already updated.`);
+    return;
+  }
+
+  console.log(`Found asset ${assetToUpdate.id} with current mux_asset_id ${assetToUpdate.mux_asset_id}. Updating with actual Asset ID ${actualAssetId}.`);
+  const { error: updateError } = await client
+    .from('assets')
+    .update({
+      mux_asset_id: actualAssetId,
+      last_updated: new Date().toISOString()
+    })
+    .eq('id', assetToUpdate.id);
+
+  if (updateError) {
+    console.error(`Error updating asset ${assetToUpdate.id} with actual Mux Asset ID ${actualAssetId}:`, updateError);
+    return;
+  }
+  console.log(`Successfully updated asset ${assetToUpdate.id} with actual Mux Asset ID ${actualAssetId}.`);
+
+  // Record the asset on the recording session created for this upload, if any
+  try {
+    const session = await linkSessionMuxAsset(client, uploadId, actualAssetId);
+    if (session) {
+      console.log(`Linked session ${session.id} to Mux Asset ID ${actualAssetId}.`);
+    }
+  } catch (sessionError) {
+    console.error(`Error linking session for Upload ID ${uploadId}:`, sessionError);
+  }
+
+  if (options.recordProcessed) {
+    try {
+      await markEventProcessed(client, event.id, assetToUpdate.id);
+      console.log(`Marked video.upload.asset_created webhook event ${event.id} as processed.`);
+    } catch (markError) {
+      console.error(`Error marking video.upload.asset_created webhook ${event.id} as processed:`, markError);
+    }
+  }
+}
+
+/**
+ * Stores playback info, marks Mux processing complete and hands the recording's scratch
+ * items to the merge. Transcription is triggered by the static rendition event instead.
+ */
+async function handleAssetReady(
+  client: SupabaseClient,
+  event: MuxWebhookPayload,
+  muxAssetId: string,
+  options: HandleMuxWebhookOptions
+) {
+  console.log(`Processing video.asset.ready for Mux Asset ID: ${muxAssetId}`);
+
+  const playbackId = event.data.playback_ids?.[0]?.id;
+  const streamUrl = playbackId ? `https://stream.mux.com/${playbackId}.m3u8` : null;
+
+  try {
+    const { error: updateError } = await client
+      .from('assets')
+      .update({
+        mux_playback_id: playbackId,
+        mux_duration: event.data.duration,
+        mux_aspect_ratio: event.data.aspect_ratio,
+        mux_max_resolution: event.data.max_stored_resolution,
+        mux_processing_status: 'ready',
+        media_url: streamUrl,
+        last_updated: new Date().toISOString()
+      })
+      .eq('mux_asset_id', muxAssetId);
+
+    if (updateError) {
+      console.error(`Error updating asset ${muxAssetId} with ready status and playback info:`, updateError);
+      return;
+    }
+    console.log(`Successfully updated asset ${muxAssetId} with ready status and playback info.`);
+
+    const { data: asset, error: assetFetchError } = await client
+      .from('assets')
+      .select('id, user_id')
+      .eq('mux_asset_id', muxAssetId)
+      .single();
+
+    if (assetFetchError || !asset) {
+      console.error(`Error fetching asset details for Mux asset ${muxAssetId}:`, assetFetchError);
+    } else {
+      // Keyed on the Mux asset so replays of this event are only metered once
+      await recordUsage(client, {
+        userId: asset.user_id,
+        kind: 'video',
+        operation: 'mux_upload',
+        provider: 'mux',
+        durationSeconds: event.data.duration,
+        assetId: asset.id,
+        dedupeKey: `video:mux:${muxAssetId}`,
+      });
+
+      const session = await findSessionForAsset(client, asset.id);
+
+      if (session) {
+        // Scratch items carry their session, so link exactly this recording's items
+        await attachScratchItemsToMuxAsset(client, session, muxAssetId);
+        console.log(`Attached scratch items of session ${session.id} to Mux asset ID ${muxAssetId}`);
+
+        const merge = await triggerSessionMerge(client, session.id);
+        if (!merge.triggered) {
+          console.log(`Merge for session ${session.id} deferred: ${merge.reason}`);
+        }
+      } else {
+        await claimUnassignedScratchItems(client, muxAssetId, asset.user_id);
+      }
+    }
+
+    if (options.recordProcessed) {
+      await markEventProcessed(client, event.id, asset?.id || null);
+      console.log(`Marked video.asset.ready webhook event ${event.id} as processed.`);
+    }
+  } catch (error) {
+    console.error(`Exception during asset update for video.asset.ready (Asset ID: ${muxAssetId}):`, error);
+  }
+}
+
+/**
+ * Recorded without a session: claim scratch items that have no Mux asset yet
+ */
+async function claimUnassignedScratchItems(client: SupabaseClient, muxAssetId: string, userId: string) {
+  console.log(`Updating scratch items for user ${userId} with Mux asset ID ${muxAssetId}`);
+
+  const { data: scratchItemsToUpdate, error: scratchFetchError } = await client
+    .from('scratch_items')
+    .select('*')
+    .is('mux_asset_id', null);
+
+  if (scratchFetchError) {
+    console.error(`Error fetching scratch items to update for Mux asset ${muxAssetId}:`, scratchFetchError);
+    return;
+  }
+  if (!scratchItemsToUpdate || scratchItemsToUpdate.length === 0) {
+    console.log(`No scratch items found to update for Mux asset ${muxAssetId}`);
+    return;
+  }
+
+  console.log(`Found ${scratchItemsToUpdate.length} scratch items to update with Mux asset ID ${muxAssetId}`);
+  const { error: scratchUpdateError } = await client
+    .from('scratch_items')
+    .update({
+      mux_asset_id: muxAssetId,
+      user_id: userId
+    })
+    .is('mux_asset_id', null);
+
+  if (scratchUpdateError) {
+    console.error(`Error updating scratch items with Mux asset ID ${muxAssetId}:`, scratchUpdateError);
+  } else {
+    console.log(`Successfully updated scratch items with Mux asset ID ${muxAssetId} and user ID ${userId}`);
+  }
+}
+
+/**
+ * The audio rendition is ready: queue transcription, or the merge if the transcript is
+ * already complete.
+ */
+async function handleStaticRenditionReady(
+  client: SupabaseClient,
+  event: MuxWebhookPayload,
+  muxAssetId: string,
+  options: HandleMuxWebhookOptions
+) {
+  console.log(`Processing static rendition ready event for Mux Asset ID: ${muxAssetId}`);
+
+  try {
+    const { data: asset, error: assetError } = await client
+      .from('assets')
+      .select('id, user_id, mux_asset_id, transcript_processing_status')
+      .eq('mux_asset_id', muxAssetId)
+      .single();
+
+    if (assetError || !asset) {
+      console.error(`Error fetching asset for static rendition event (Mux Asset ID: ${muxAssetId}):`, assetError);
+      return;
+    }
+
+    const transcriptionStatus = asset.transcript_processing_status || null;
+    console.log(`Current transcription status for asset ${asset.id}: ${transcriptionStatus || 'null'}`);
+
+    if (transcriptionStatus === 'completed') {
+      console.log(`Transcription already completed for asset ${asset.id}, checking if we need to merge with scratch items...`);
+      await queueMergeForCompletedTranscript(client, asset, muxAssetId);
+    } else if (transcriptionStatus === 'pending' || transcriptionStatus === 'processing') {
+      console.log(`Transcription already ${transcriptionStatus} for asset ${asset.id}, skipping duplicate trigger.`);
+    } else {
+      console.log(`Asset ${asset.id} audio rendition ready. Updating status and triggering transcription.`);
+
+      const renditionId = event.data?.id;
+      const renditionName = event.data?.name;
+
+      if (!renditionId) {
+        console.error(`Missing rendition ID in static_rendition.ready event payload for asset ${asset.id}. Cannot proceed.`);
+        if (options.recordProcessed) {
+          try {
+            await markEventProcessed(client, event.id, asset.id);
+            console.log(`Marked static_rendition.ready webhook event ${event.id} as processed (missing rendition ID).`);
+          } catch (markError) {
+            console.error(`Error marking static_rendition.ready webhook ${event.id} as processed after missing rendition ID:`, markError);
+          }
+        }
+        return;
+      }
+
+      const pendingAudioUrl = `pending:${muxAssetId}/${renditionId}/${renditionName}`;
+      console.log(`Constructed pending audio URL: ${pendingAudioUrl}`);
+
+      // Store the pending URL before queueing so the transcription job can resolve it
+      const { error: updateError } = await client
+        .from('assets')
+        .update({
+          transcript_processing_status: 'pending',
+          mux_audio_url: pendingAudioUrl,
+          last_updated: new Date().toISOString()
+        })
+        .eq('id', asset.id);
+
+      if (updateError) {
+        console.error(`Error setting transcript status to 'pending' for asset ${asset.id} via static_rendition.ready:`, updateError);
+      } else {
+        console.log(`Set transcript status to 'pending' for asset ${asset.id} via static_rendition.ready.`);
+
+        // Queue transcription; the job worker retries it with backoff if it fails
+        const job = await enqueueJob(client, {
+          type: 'transcribe',
+          payload: { asset_id: asset.id },
+          idempotencyKey: assetJobKey('transcribe', asset.id),
+          userId: asset.user_id,
+          assetId: asset.id
+        });
+        console.log(`Queued transcription job ${job.id} (${job.status}) for asset ${asset.id} from static_rendition.ready`);
+        kickJobWorker();
+      }
+    }
+
+    if (options.recordProcessed) {
+      try {
+        await markEventProcessed(client, event.id, asset.id);
+        console.log(`Marked static_rendition.ready webhook event ${event.id} as processed.`);
+      } catch (markError) {
+        console.error(`Error marking static_rendition.ready webhook ${event.id} as processed:`, markError);
+      }
+    }
+  } catch (error) {
+    console.error(`Exception during static_rendition.ready processing for Mux Asset ID: ${muxAssetId}:`, error);
+  }
+}
+
+async function queueMergeForCompletedTranscript(
+  client: SupabaseClient,
+  asset: { id: string; user_id: string },
+  muxAssetId: string
+) {
+  const session = await findSessionForAsset(client, asset.id);
+
+  if (session) {
+    const merge = await triggerSessionMerge(client, session.id);
+    console.log(merge.triggered
+      ? `Merge for session ${session.id} ran from static rendition event`
+      : `Merge for session ${session.id} deferred: ${merge.reason}`);
+    return;
+  }
+
+  const { data: scratchItems, error: scratchError } = await client
+    .from('scratch_items')
+    .select('*')
+    .eq('mux_asset_id', muxAssetId);
+
+  if (scratchError) {
+    console.error(`Error checking for scratch items for asset ${asset.id}:`, scratchError);
+  } else if (scratchItems && scratchItems.length > 0) {
+    console.log(`Found ${scratchItems.length} scratch items for asset ${asset.id}, triggering merge...`);
+
+    // Queue the merge; the job worker retries it if it fails
+    const job = await enqueueJob(client, {
+      type: 'merge',
+      payload: { asset_id: asset.id },
+      idempotencyKey: assetJobKey('merge', asset.id),
+      userId: asset.user_id,
+      assetId: asset.id
+    });
+    console.log(`Queued merge job ${job.id} (${job.status}) for asset ${asset.id}`);
+    kickJobWorker();
+  } else {
+    console.log(`No scratch items found for asset ${asset.id}, skipping merge. Query used: mux_asset_id=${muxAssetId}`);
+  }
+}
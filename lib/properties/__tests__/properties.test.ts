@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { calculatePropertyTotals, createProperty, pickActiveProperty, Property, PropertyError } from '../index';
+
+function property(id: string, created_at: string): Property {
+  return {
+    id,
+    household_id: 'household-1',
+    name: id,
+    address: null,
+    insurer: null,
+    policy_number: null,
+    coverage_limit: null,
+    policy_renews_on: null,
+    created_by: null,
+    created_at,
+    updated_at: created_at,
+  };
+}
+
+const home = property('home', '2025-01-01T00:00:00.000Z');
+const storage = property('storage', '2025-03-01T00:00:00.000Z');
+
+describe('pickActiveProperty', () => {
+  it('keeps the stored property while it is in the household, otherwise takes the oldest', () => {
+    expect(pickActiveProperty([storage, home], 'storage')?.id).toBe('storage');
+    expect(pickActiveProperty([storage, home], 'elsewhere')?.id).toBe('home');
+    expect(pickActiveProperty([], null)).toBeNull();
+  });
+});
+
+describe('calculatePropertyTotals', () => {
+  it('totals each property separately and includes empty ones', () => {
+    const assets = [
+      { media_type: 'item', estimated_value: 1200, property_id: 'home' },
+      { media_type: 'item', estimated_value: 300, property_id: 'home' },
+      { media_type: 'video', estimated_value: null, property_id: 'home' },
+      { media_type: 'item', estimated_value: 50, property_id: 'cabin' },
+    ];
+    const totals = calculatePropertyTotals([home, storage], assets);
+    expect(totals.home).toMatchObject({ totalItems: 2, totalValue: 1500 });
+    expect(totals.storage).toMatchObject({ totalItems: 0, totalValue: 0 });
+    expect(totals).not.toHaveProperty('cabin');
+  });
+});
+
+describe('createProperty', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('requires a name', async () => {
+    await expect(createProperty(client, 'user-1', 'household-1', { name: '   ' }))
+      .rejects.toBeInstanceOf(PropertyError);
+  });
+});
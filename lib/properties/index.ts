@@ -0,0 +1,197 @@
+/**
+ * Properties: the homes, rentals and storage units a household keeps an inventory for
+ *
+ * Rooms belong to a property (room names are unique per property), and so does every item and
+ * recording through `assets.property_id`. Items found in a recording start in the recording's
+ * property; putting an item in a room of another property moves it there. Each property can
+ * carry the address and contents policy an insurer will ask about.
+ *
+ * Every household starts with one property (created by a trigger on `public.households`) and
+ * must keep at least one. The dashboard shows one property at a time, stored as
+ * `users.active_property_id` and used for new recordings.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PropertiesTable } from '@/lib/db/schema';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
+import { calculateTotals, DEFAULT_DEPRECIATION_RULES, DepreciationRules, InventoryTotals, ValuedAsset } from '@/lib/valuation';
+
+export type Property = PropertiesTable['Row'];
+
+/** The fields a member can set on a property */
+export type PropertyDetails = Pick<
+  PropertiesTable['Insert'],
+  'name' | 'address' | 'insurer' | 'policy_number' | 'coverage_limit' | 'policy_renews_on'
+>;
+
+/**
+ * Raised when a property cannot be changed as requested; `status` is the HTTP status to return
+ */
+export class PropertyError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'PropertyError';
+  }
+}
+
+/** Postgres raises check_violation from the last-property trigger */
+const CHECK_VIOLATION = '23514';
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * The property to show: the stored active property while it is in the household, otherwise
+ * the household's oldest. Mirrors `public.default_property_id`.
+ */
+export function pickActiveProperty(properties: Property[], activePropertyId: string | null | undefined): Property | null {
+  const active = properties.find((property) => property.id === activePropertyId);
+  if (active) return active;
+  return [...properties].sort((a, b) => a.created_at.localeCompare(b.created_at))[0] ?? null;
+}
+
+/**
+ * Totals per property id, counted like the dashboard totals. Properties without items get
+ * zero totals.
+ */
+export function calculatePropertyTotals(
+  properties: Pick<Property, 'id'>[],
+  assets: Array<ValuedAsset & { media_type: string; property_id?: string | null }>,
+  rules: DepreciationRules = DEFAULT_DEPRECIATION_RULES,
+  now = Date.now()
+): Record<string, InventoryTotals> {
+  const totals: Record<string, InventoryTotals> = {};
+  for (const property of properties) {
+    totals[property.id] = calculateTotals(assets.filter((asset) => asset.property_id === property.id), rules, now);
+  }
+  return totals;
+}
+
+/**
+ * A household's properties, by name
+ */
+export async function listProperties(client: SupabaseClient, householdId: string): Promise<Property[]> {
+  const { data, error } = await client
+    .from('properties')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+  if (error) throw new Error(`Failed to load properties: ${error.message}`);
+  return (data || []) as Property[];
+}
+
+/**
+ * The property the user is working in within a household, with the household's others
+ */
+export async function resolveActiveProperty(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string
+): Promise<{ active: Property | null; properties: Property[] }> {
+  const [properties, { data: profile, error }] = await Promise.all([
+    listProperties(client, householdId),
+    client.from('users').select('active_property_id').eq('id', userId).maybeSingle(),
+  ]);
+  if (error) throw new Error(`Failed to load user profile: ${error.message}`);
+  return { active: pickActiveProperty(properties, profile?.active_property_id), properties };
+}
+
+async function loadProperty(client: SupabaseClient, userId: string, propertyId: string, requireEdit: boolean): Promise<Property> {
+  const { data, error } = await client.from('properties').select('*').eq('id', propertyId).maybeSingle();
+  if (error) throw new Error(`Failed to load property: ${error.message}`);
+  const property = data as Property | null;
+  const role = property ? await getHouseholdRole(client, userId, property.household_id) : null;
+  if (!property || !role) throw new PropertyError('Property not found', 404);
+  if (requireEdit && !canEditHousehold(role)) {
+    throw new PropertyError('Only household owners and editors can change properties', 403);
+  }
+  return property;
+}
+
+/**
+ * Switches to a property, and to its household if the user was working in another one
+ */
+export async function setActiveProperty(client: SupabaseClient, userId: string, propertyId: string): Promise<Property> {
+  const property = await loadProperty(client, userId, propertyId, false);
+  const { error } = await client
+    .from('users')
+    .update({ active_property_id: property.id, active_household_id: property.household_id })
+    .eq('id', userId);
+  if (error) throw new Error(`Failed to switch property: ${error.message}`);
+  return property;
+}
+
+function normalizeDetails<T extends Partial<PropertyDetails>>(details: T): T {
+  const normalized = { ...details };
+  if (normalized.name !== undefined) {
+    normalized.name = normalized.name.trim();
+    if (!normalized.name) throw new PropertyError('Property name is required');
+  }
+  for (const key of ['address', 'insurer', 'policy_number'] as const) {
+    if (normalized[key] !== undefined) normalized[key] = normalized[key]?.trim() || null;
+  }
+  return normalized;
+}
+
+function writeError(error: { code?: string; message: string }, action: string): Error {
+  if (error.code === UNIQUE_VIOLATION) return new PropertyError('A property with this name already exists', 409);
+  return new Error(`${action}: ${error.message}`);
+}
+
+/**
+ * Adds a property to a household; owners and editors only
+ */
+export async function createProperty(
+  client: SupabaseClient,
+  userId: string,
+  householdId: string,
+  details: PropertyDetails
+): Promise<Property> {
+  const input = normalizeDetails(details);
+  if (!canEditHousehold(await getHouseholdRole(client, userId, householdId))) {
+    throw new PropertyError('Only household owners and editors can add properties', 403);
+  }
+  const { data, error } = await client
+    .from('properties')
+    .insert({ ...input, household_id: householdId, created_by: userId })
+    .select('*')
+    .single();
+  if (error) throw writeError(error, 'Failed to create property');
+  return data as Property;
+}
+
+export async function updateProperty(
+  client: SupabaseClient,
+  userId: string,
+  propertyId: string,
+  details: Partial<PropertyDetails>
+): Promise<Property> {
+  const input = normalizeDetails(details);
+  await loadProperty(client, userId, propertyId, true);
+  const { data, error } = await client
+    .from('properties')
+    .update(input)
+    .eq('id', propertyId)
+    .select('*')
+    .single();
+  if (error) throw writeError(error, 'Failed to update property');
+  return data as Property;
+}
+
+/**
+ * Deletes an empty property with its rooms. Items are never deleted with a property: move or
+ * delete them first.
+ */
+export async function deleteProperty(client: SupabaseClient, userId: string, propertyId: string): Promise<void> {
+  await loadProperty(client, userId, propertyId, true);
+
+  const { count, error: countError } = await client
+    .from('assets')
+    .select('id', { count: 'exact', head: true })
+    .eq('property_id', propertyId);
+  if (countError) throw new Error(`Failed to count property items: ${countError.message}`);
+  if (count) {
+    throw new PropertyError(`This property still has ${count} item${count === 1 ? '' : 's'}; move or delete them first`, 409);
+  }
+
+  const { error } = await client.from('properties').delete().eq('id', propertyId);
+  if (error?.code === CHECK_VIOLATION) throw new PropertyError('A household must keep at least one property', 409);
+  if (error) throw new Error(`Failed to delete property: ${error.message}`);
+}
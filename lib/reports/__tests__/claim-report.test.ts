@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+    extractRoomName,
+    extractTagNames,
+    renderClaimReportPdf,
+    ClaimReportData,
+} from '../claim-report';
+
+describe('claim report', () => {
+    it('extracts room names from object and array joins', () => {
+        expect(extractRoomName({ rooms: { name: 'Kitchen' } })).toBe('Kitchen');
+        expect(extractRoomName([{ rooms: { name: 'Garage' } }])).toBe('Garage');
+        expect(extractRoomName([])).toBeNull();
+        expect(extractRoomName(null)).toBeNull();
+    });
+
+    it('extracts tag names and skips empty links', () => {
+        expect(extractTagNames([{ tags: { name: 'Electronics' } }, { tags: null }])).toEqual(['Electronics']);
+        expect(extractTagNames(undefined)).toEqual([]);
+    });
+
+    it('renders a paginated PDF without thumbnails', async () => {
+        const items = Array.from({ length: 30 }, (_, i) => ({
+            id: `item-${i}`,
+            name: `Item ${i} “quoted”`,
+            description: 'A fairly long description that should wrap across more than one line in the rendered report output.',
+            estimated_value: 100 + i,
+            media_type: 'item' as const,
+            created_at: '2025-06-01T00:00:00.000Z',
+            tags: ['Electronics'],
+            thumbnailUrl: null,
+        }));
+        const report: ClaimReportData = {
+            userId: 'user-1',
+            userEmail: 'owner@example.com',
+            generatedAt: '2025-06-02T00:00:00.000Z',
+            rooms: [{ name: 'Living Room', items, total: items.reduce((sum, item) => sum + item.estimated_value, 0) }],
+            sourceMedia: [],
+            totalItems: items.length,
+            grandTotal: items.reduce((sum, item) => sum + item.estimated_value, 0),
+        };
+
+        const bytes = await renderClaimReportPdf(report);
+        const pdf = await PDFDocument.load(bytes);
+
+        expect(Buffer.from(bytes.slice(0, 5)).toString()).toBe('%PDF-');
+        expect(pdf.getPageCount()).toBeGreaterThan(1);
+    });
+
+    it('keeps an item with a very long description on one page', async () => {
+        const item = {
+            id: 'item-1',
+            name: 'Antique desk',
+            description: 'Carved walnut writing desk with brass fittings. '.repeat(400),
+            estimated_value: 2500,
+            media_type: 'item' as const,
+            created_at: '2025-06-01T00:00:00.000Z',
+            tags: [],
+            thumbnailUrl: null,
+        };
+        const report: ClaimReportData = {
+            userId: 'user-1',
+            userEmail: null,
+            generatedAt: '2025-06-02T00:00:00.000Z',
+            rooms: [{ name: 'Study', items: [item], total: 2500 }],
+            sourceMedia: [],
+            totalItems: 1,
+            grandTotal: 2500,
+        };
+
+        const pdf = await PDFDocument.load(await renderClaimReportPdf(report));
+        expect(pdf.getPageCount()).toBe(1);
+    });
+
+    it('wraps a long tag list and keeps the item on one page', async () => {
+        const item = {
+            id: 'item-1',
+            name: 'Stereo',
+            description: null,
+            estimated_value: 800,
+            media_type: 'item' as const,
+            created_at: '2025-06-01T00:00:00.000Z',
+            tags: Array.from({ length: 400 }, (_, i) => `Tag number ${i}`),
+            thumbnailUrl: null,
+        };
+        const report: ClaimReportData = {
+            userId: 'user-1',
+            userEmail: null,
+            property: { name: 'Home', address: '1 Main St', insurer: 'Acme Mutual', policy_number: 'HO-123' },
+            generatedAt: '2025-06-02T00:00:00.000Z',
+            rooms: [{ name: 'Den', items: [item], total: 800 }],
+            sourceMedia: [],
+            totalItems: 1,
+            grandTotal: 800,
+        };
+
+        const pdf = await PDFDocument.load(await renderClaimReportPdf(report));
+        expect(pdf.getPageCount()).toBe(1);
+    });
+});
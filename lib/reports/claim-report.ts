@@ -0,0 +1,527 @@
+/**
+ * Insurance claim report generation
+ *
+ * Builds a PDF document from the inventory of the property the user is working in: items
+ * grouped by room, with per-item details, Mux thumbnails at the item timestamp, and room and
+ * grand totals.
+ * The report closes with the state of the audit log, quoting its head hash so the report
+ * can be matched to the exported ledger.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import sharp from 'sharp';
+import { createMuxPlaybackJWT, getMuxThumbnailUrl } from '@/lib/mux';
+import { formatCurrency } from '@/utils/format';
+import { fetchMedia } from '@/utils/server/fetch-media';
+import { AuditChainVerification, loadAuditChain, verifyAuditChain } from '@/lib/audit';
+import { HouseholdError, resolveActiveHousehold } from '@/lib/households';
+import { Property, resolveActiveProperty } from '@/lib/properties';
+
+const UNASSIGNED_ROOM = 'Unassigned';
+// Thumbnails are signed and fetched a few at a time rather than one after another
+const THUMBNAIL_CONCURRENCY = 6;
+
+export interface ClaimReportItem {
+  id: string;
+  name: string;
+  description: string | null;
+  estimated_value: number | null;
+  media_type: 'image' | 'video' | 'item';
+  created_at: string;
+  tags: string[];
+  thumbnailUrl: string | null;
+}
+
+export interface ClaimReportRoom {
+  name: string;
+  items: ClaimReportItem[];
+  total: number;
+}
+
+export interface ClaimReportSourceMedia {
+  id: string;
+  name: string;
+  media_type: 'image' | 'video' | 'item';
+  created_at: string;
+  duration: number | null;
+}
+
+export type ClaimReportProperty = Pick<Property, 'name' | 'address' | 'insurer' | 'policy_number'>;
+
+export interface ClaimReportData {
+  userId: string;
+  userEmail: string | null;
+  /** The property the report covers */
+  property?: ClaimReportProperty | null;
+  generatedAt: string;
+  rooms: ClaimReportRoom[];
+  sourceMedia: ClaimReportSourceMedia[];
+  totalItems: number;
+  grandTotal: number;
+  /** Verification of the audit log at report time; null if it could not be loaded */
+  audit?: AuditChainVerification | null;
+}
+
+interface ClaimReportAssetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  estimated_value: number | null;
+  media_type: 'image' | 'video' | 'item';
+  media_url: string | null;
+  created_at: string;
+  mux_playback_id: string | null;
+  mux_duration: number | null;
+  item_timestamp: number | null;
+  thumbnail_url: string | null;
+  is_source_video: boolean | null;
+  asset_rooms: unknown;
+  asset_tags: unknown;
+}
+
+/**
+ * Resolve the single room from a Supabase `asset_rooms(rooms(*))` join, which can be
+ * returned either as an object or as a one-element array.
+ */
+export function extractRoomName(assetRooms: unknown): string | null {
+  const link = Array.isArray(assetRooms) ? assetRooms[0] : assetRooms;
+  if (link && typeof link === 'object' && 'rooms' in link) {
+    const room = (link as { rooms: { name?: string } | null }).rooms;
+    return room?.name ?? null;
+  }
+  return null;
+}
+
+/**
+ * Resolve tag names from a Supabase `asset_tags(tags(*))` join
+ */
+export function extractTagNames(assetTags: unknown): string[] {
+  if (!Array.isArray(assetTags)) return [];
+  return assetTags
+    .map((link: { tags?: { name?: string } | null }) => link?.tags?.name)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Builds the thumbnail URL for an asset. Items use their detection crop when available,
+ * otherwise a signed Mux thumbnail at `item_timestamp`; images use their stored media URL.
+ */
+async function resolveThumbnailUrl(row: ClaimReportAssetRow, userId: string): Promise<string | null> {
+  if (row.media_type === 'item' && row.thumbnail_url) {
+    return row.thumbnail_url;
+  }
+
+  if (row.media_type === 'item' && row.mux_playback_id) {
+    try {
+      const token = await createMuxPlaybackJWT(row.mux_playback_id, userId, 't', row.item_timestamp ?? 0);
+      return getMuxThumbnailUrl(row.mux_playback_id, token);
+    } catch (error) {
+      console.warn(`[Claim Report] Could not sign thumbnail for asset ${row.id}:`, error);
+      return null;
+    }
+  }
+
+  if (row.media_type === 'image' && row.media_url) {
+    return row.media_url.startsWith('http')
+      ? row.media_url
+      : `https://${process.env.NEXT_PUBLIC_AWS_BUCKET_NAME}.s3.${process.env.NEXT_PUBLIC_AWS_REGION}.amazonaws.com/${row.media_url}`;
+  }
+
+  return null;
+}
+
+/**
+ * Runs `task` over `values` with at most `limit` in flight, keeping the results in order
+ */
+async function mapWithConcurrency<T, R>(values: T[], limit: number, task: (value: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(values.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, values.length) }, async () => {
+    while (next < values.length) {
+      const index = next++;
+      results[index] = await task(values[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Loads everything needed for a claim report on the user's active property, whoever in the
+ * household added its items. Throws a 404 HouseholdError when the user has no property.
+ * The client is expected to already be scoped to the user (RLS) or be a service client.
+ */
+export async function fetchClaimReportData(
+  client: SupabaseClient,
+  userId: string,
+  options: { userEmail?: string | null; includeThumbnails?: boolean } = {}
+): Promise<ClaimReportData> {
+  const { active: household } = await resolveActiveHousehold(client, userId);
+  const { active: property } = household ? await resolveActiveProperty(client, userId, household.id) : { active: null };
+  if (!household || !property) {
+    throw new HouseholdError('You are not a member of any household', 404);
+  }
+
+  const { data, error } = await client
+    .from('assets')
+    .select(`
+      id, name, description, estimated_value, media_type, media_url, created_at,
+      mux_playback_id, mux_duration, item_timestamp, thumbnail_url, is_source_video,
+      asset_rooms(
+        rooms(*)
+      ),
+      asset_tags(
+        tags(*)
+      )
+    `)
+    .eq('property_id', property.id)
+    .eq('review_status', 'accepted')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load assets for claim report: ${error.message}`);
+  }
+
+  const rows = (data || []) as ClaimReportAssetRow[];
+  const includeThumbnails = options.includeThumbnails ?? true;
+  const thumbnailUrls = includeThumbnails
+    ? await mapWithConcurrency(rows, THUMBNAIL_CONCURRENCY, (row) => (
+      row.media_type === 'video' ? Promise.resolve(null) : resolveThumbnailUrl(row, userId)
+    ))
+    : [];
+  const roomsByName = new Map<string, ClaimReportRoom>();
+  const sourceMedia: ClaimReportSourceMedia[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    if (row.media_type === 'video') {
+      sourceMedia.push({
+        id: row.id,
+        name: row.name,
+        media_type: row.media_type,
+        created_at: row.created_at,
+        duration: row.mux_duration,
+      });
+      continue;
+    }
+
+    const roomName = extractRoomName(row.asset_rooms) ?? UNASSIGNED_ROOM;
+    const room = roomsByName.get(roomName) ?? { name: roomName, items: [], total: 0 };
+
+    room.items.push({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      estimated_value: row.estimated_value,
+      media_type: row.media_type,
+      created_at: row.created_at,
+      tags: extractTagNames(row.asset_tags),
+      thumbnailUrl: thumbnailUrls[index] ?? null,
+    });
+    room.total += typeof row.estimated_value === 'number' ? row.estimated_value : 0;
+    roomsByName.set(roomName, room);
+
+    // Uploaded photos are source media as well as inventory entries
+    if (row.media_type === 'image') {
+      sourceMedia.push({
+        id: row.id,
+        name: row.name,
+        media_type: row.media_type,
+        created_at: row.created_at,
+        duration: null,
+      });
+    }
+  }
+
+  // Alphabetical rooms, with unassigned items last
+  const rooms = Array.from(roomsByName.values()).sort((a, b) => {
+    if (a.name === UNASSIGNED_ROOM) return 1;
+    if (b.name === UNASSIGNED_ROOM) return -1;
+    return a.name.localeCompare(b.name);
+  });
+
+  let audit: AuditChainVerification | null = null;
+  try {
+    audit = verifyAuditChain(await loadAuditChain(client, userId));
+  } catch (auditError) {
+    console.warn('[Claim Report] Could not load the audit log:', auditError);
+  }
+
+  return {
+    userId,
+    userEmail: options.userEmail ?? null,
+    property: {
+      name: property.name,
+      address: property.address,
+      insurer: property.insurer,
+      policy_number: property.policy_number,
+    },
+    generatedAt: new Date().toISOString(),
+    audit,
+    rooms,
+    sourceMedia,
+    totalItems: rooms.reduce((count, room) => count + room.items.length, 0),
+    grandTotal: rooms.reduce((sum, room) => sum + room.total, 0),
+  };
+}
+
+// --- PDF rendering ---
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const THUMB_WIDTH = 96;
+const THUMB_HEIGHT = 72;
+// An item row has to fit on one page; longer descriptions are cut (the spreadsheet export has them in full)
+const MAX_DESCRIPTION_LINES = 30;
+const MAX_TAG_LINES = 10;
+// Photos are embedded from the original upload, which can be a large camera file
+const THUMB_SOURCE_MAX_BYTES = 25 * 1024 * 1024;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.85, 0.85, 0.85);
+
+/**
+ * Standard PDF fonts only cover WinAnsi, so strip anything they cannot encode
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = toWinAnsi(text).split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+    } else {
+      if (current) lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Keeps the first `max` lines, ending the last one with an ellipsis when text was cut
+ */
+function capLines(lines: string[], max: number, font: PDFFont, size: number, maxWidth: number): string[] {
+  if (lines.length <= max) return lines;
+  const kept = lines.slice(0, max);
+  const words = kept[max - 1].split(' ');
+  while (words.length > 1 && font.widthOfTextAtSize(`${words.join(' ')}...`, size) > maxWidth) words.pop();
+  kept[max - 1] = `${words.join(' ')}...`;
+  return kept;
+}
+
+async function loadThumbnail(pdf: PDFDocument, url: string): Promise<PDFImage | null> {
+  try {
+    // Item thumbnails are editable, so only Mux and the media bucket are fetched, with limits
+    const image = await fetchMedia(url, { maxBytes: THUMB_SOURCE_MAX_BYTES });
+    // Mux serves webp; normalise everything to a small JPEG that pdf-lib can embed
+    const jpeg = await sharp(image)
+      .resize(THUMB_WIDTH * 2, THUMB_HEIGHT * 2, { fit: 'cover' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return await pdf.embedJpg(jpeg);
+  } catch (error) {
+    console.warn(`[Claim Report] Could not embed thumbnail from ${url.split('?')[0]}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Renders claim report data to a PDF
+ * @returns The PDF file bytes
+ */
+export async function renderClaimReportPdf(report: ClaimReportData): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle('Padlox Home Inventory Claim Report');
+  pdf.setProducer('Padlox');
+  pdf.setCreationDate(new Date(report.generatedAt));
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  // Fetched up front, a few at a time; embedding order does not matter to the PDF
+  const thumbnailUrls = Array.from(new Set(
+    report.rooms.flatMap((room) => room.items.map((item) => item.thumbnailUrl)).filter((url): url is string => !!url)
+  ));
+  const thumbnails = new Map<string, PDFImage | null>(
+    (await mapWithConcurrency(thumbnailUrls, THUMBNAIL_CONCURRENCY, (url) => loadThumbnail(pdf, url)))
+      .map((image, index) => [thumbnailUrls[index], image])
+  );
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const drawLine = (text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number } = {}) => {
+    const size = options.size ?? 10;
+    ensureSpace(size + 4);
+    page.drawText(toWinAnsi(text), {
+      x: options.x ?? MARGIN,
+      y: y - size,
+      size,
+      font: options.bold ? bold : font,
+      color: options.color ?? TEXT_COLOR,
+    });
+    y -= size + 4;
+  };
+
+  const drawRightAligned = (text: string, size: number, useBold = false) => {
+    const f = useBold ? bold : font;
+    const safe = toWinAnsi(text);
+    page.drawText(safe, {
+      x: PAGE_WIDTH - MARGIN - f.widthOfTextAtSize(safe, size),
+      y: y - size,
+      size,
+      font: f,
+      color: TEXT_COLOR,
+    });
+  };
+
+  const drawRule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+    y -= 6;
+  };
+
+  // Header
+  drawLine('Home Inventory Claim Report', { size: 18, bold: true });
+  if (report.userEmail) drawLine(`Policyholder: ${report.userEmail}`, { color: MUTED_COLOR });
+  if (report.property) {
+    const { name, address, insurer, policy_number: policyNumber } = report.property;
+    drawLine(`Property: ${address ? `${name}, ${address}` : name}`, { color: MUTED_COLOR });
+    if (insurer || policyNumber) {
+      drawLine(`Policy: ${[insurer, policyNumber].filter(Boolean).join(', ')}`, { color: MUTED_COLOR });
+    }
+  }
+  drawLine(`Generated: ${new Date(report.generatedAt).toUTCString()}`, { color: MUTED_COLOR });
+  drawLine(`${report.totalItems} items across ${report.rooms.length} rooms`, { color: MUTED_COLOR });
+  y -= 8;
+
+  for (const room of report.rooms) {
+    ensureSpace(40);
+    drawRightAligned(formatCurrency(room.total), 13, true);
+    drawLine(room.name, { size: 13, bold: true });
+    drawRule();
+
+    for (const item of room.items) {
+      const textX = MARGIN + THUMB_WIDTH + 12;
+      const textWidth = contentWidth - THUMB_WIDTH - 12 - 90;
+      const descriptionLines = item.description
+        ? capLines(wrapText(item.description, font, 9, textWidth), MAX_DESCRIPTION_LINES, font, 9, textWidth)
+        : [];
+      const tagLines = item.tags.length
+        ? capLines(wrapText(`Tags: ${item.tags.join(', ')}`, font, 8, textWidth), MAX_TAG_LINES, font, 8, textWidth)
+        : [];
+      // Matches the line heights drawLine advances by, so the row never breaks across pages
+      const textHeight = 15 + descriptionLines.length * 13 + tagLines.length * 12;
+      const rowHeight = Math.max(THUMB_HEIGHT, textHeight) + 10;
+
+      ensureSpace(rowHeight);
+      const rowTop = y;
+
+      const thumbnail = item.thumbnailUrl ? thumbnails.get(item.thumbnailUrl) : null;
+      if (thumbnail) {
+        page.drawImage(thumbnail, { x: MARGIN, y: rowTop - THUMB_HEIGHT, width: THUMB_WIDTH, height: THUMB_HEIGHT });
+      } else {
+        page.drawRectangle({
+          x: MARGIN,
+          y: rowTop - THUMB_HEIGHT,
+          width: THUMB_WIDTH,
+          height: THUMB_HEIGHT,
+          borderColor: RULE_COLOR,
+          borderWidth: 0.5,
+        });
+      }
+
+      drawRightAligned(item.estimated_value != null ? formatCurrency(item.estimated_value) : 'No estimate', 10, true);
+      drawLine(item.name, { size: 11, bold: true, x: textX });
+      for (const line of descriptionLines) {
+        drawLine(line, { size: 9, x: textX });
+      }
+      for (const line of tagLines) {
+        drawLine(line, { size: 8, color: MUTED_COLOR, x: textX });
+      }
+
+      y = Math.min(y, rowTop - rowHeight);
+    }
+
+    drawRule();
+    y -= 10;
+  }
+
+  // Grand total
+  ensureSpace(30);
+  drawRightAligned(formatCurrency(report.grandTotal), 14, true);
+  drawLine('Total Estimated Value', { size: 14, bold: true });
+  y -= 12;
+
+  // Source media listing
+  if (report.sourceMedia.length) {
+    ensureSpace(40);
+    drawLine('Source Media', { size: 13, bold: true });
+    drawRule();
+    for (const media of report.sourceMedia) {
+      const kind = media.media_type === 'video' ? 'Video' : 'Photo';
+      const duration = media.duration ? `, ${Math.round(media.duration)}s` : '';
+      drawLine(`${kind}: ${media.name} (${new Date(media.created_at).toISOString().slice(0, 10)}${duration})`, { size: 9 });
+    }
+  }
+
+  // Audit ledger, so the values above can be checked against their change history
+  if (report.audit) {
+    const audit = report.audit;
+    ensureSpace(80);
+    y -= 12;
+    drawLine('Audit Ledger', { size: 13, bold: true });
+    drawRule();
+    drawLine(
+      audit.valid
+        ? `${audit.entryCount} recorded changes; hash chain verified intact.`
+        : `${audit.entryCount} recorded changes; hash chain BROKEN at entry ${audit.firstInvalidSeq}.`,
+      { size: 9, bold: !audit.valid }
+    );
+    drawLine(`Head entry ${audit.headSeq}, hash ${audit.headHash}`, { size: 8 });
+    drawLine(`Verified ${new Date(audit.verifiedAt).toUTCString()}. The full ledger is exported as padlox-audit-log-<date>.json.`, {
+      size: 8,
+      color: MUTED_COLOR,
+    });
+  }
+
+  // Page numbers
+  const pages = pdf.getPages();
+  pages.forEach((p, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    p.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return pdf.save();
+}
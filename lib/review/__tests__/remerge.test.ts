@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { describeUpdate, ExistingItem, isTouched, planRemerge, ProposedItem, ProposedSnapshot } from '../remerge';
+
+const snapshot: ProposedSnapshot = {
+  name: 'Akai MPK Mini',
+  description: 'Compact MIDI keyboard',
+  estimated_value: 100,
+  category: 'electronics',
+  item_timestamp: 12,
+  room: 'Office',
+  tags: ['Electronics'],
+};
+
+function proposal(overrides: Partial<ProposedItem> = {}): ProposedItem {
+  return { ...snapshot, detection_ids: [], ...overrides };
+}
+
+function existingItem(proposed: ProposedSnapshot | null, overrides: Partial<ExistingItem> = {}): ExistingItem {
+  const values = proposed ?? snapshot;
+  return {
+    id: 'item-1',
+    name: values.name,
+    description: values.description,
+    estimated_value: values.estimated_value,
+    category: values.category,
+    item_timestamp: values.item_timestamp,
+    room: values.room,
+    tags: values.tags,
+    review_status: 'pending',
+    ai_provenance: proposed ? { source: 'merge_with_scratch', proposed } : null,
+    ...overrides,
+  };
+}
+
+
+describe('planRemerge', () => {
+  it('leaves items alone when the model proposes the same thing again', () => {
+    const plan = planRemerge([existingItem(snapshot)], [proposal()]);
+    expect(plan.created).toEqual([]);
+    expect(plan.updated).toEqual([]);
+    expect(plan.unchanged.map(({ existing }) => existing.id)).toEqual(['item-1']);
+    expect(plan.vanished).toEqual([]);
+  });
+
+  it('applies new values to fields nobody edited and keeps the ones a person changed', () => {
+    const edited = existingItem(snapshot, { name: 'My MIDI Keyboard', room: 'Studio' });
+    const plan = planRemerge([edited], [proposal({ estimated_value: 120, room: 'Bedroom', item_timestamp: 13 })]);
+
+    expect(plan.updated).toHaveLength(1);
+    const [update] = plan.updated;
+    expect(update.updates).toEqual({ estimated_value: 120, item_timestamp: 13 });
+    expect(update.replaceRoom).toBe(false);
+    expect(update.preserved).toEqual(['name', 'room']);
+    expect(describeUpdate(update).fields).toEqual([
+      { field: 'estimated_value', before: 100, after: 120 },
+      { field: 'item_timestamp', before: 12, after: 13 },
+    ]);
+  });
+
+  it('replaces tags and room the model picked when nobody changed them', () => {
+    const plan = planRemerge([existingItem(snapshot)], [proposal({ tags: ['Music'], room: 'Studio' })]);
+    expect(plan.updated[0].replaceTags).toBe(true);
+    expect(plan.updated[0].replaceRoom).toBe(true);
+  });
+
+  it('matches on a shared detection even when the name changed', () => {
+    const item = existingItem(snapshot, {
+      ai_provenance: { source: 'merge_with_scratch', proposed: snapshot, detection_ids: ['d1'] },
+    });
+    const plan = planRemerge([item], [proposal({ name: 'Walnut Bookshelf', detection_ids: ['d1'] })]);
+    expect(plan.created).toEqual([]);
+    expect(plan.updated[0].updates.name).toBe('Walnut Bookshelf');
+  });
+
+  it('adds new items and removes only untouched proposals that vanished', () => {
+    const untouched = existingItem(snapshot, { id: 'pending' });
+    const accepted = existingItem(snapshot, { id: 'accepted', review_status: 'accepted' });
+    const lamp = proposal({ name: 'Brass Floor Lamp', item_timestamp: 90 });
+    const plan = planRemerge([untouched, accepted], [lamp]);
+
+    expect(plan.created).toEqual([lamp]);
+    expect(plan.vanished.map(({ existing, remove }) => [existing.id, remove])).toEqual([
+      ['pending', true],
+      ['accepted', false],
+    ]);
+  });
+
+  it('never changes accepted items, whose values a person reviewed', () => {
+    const accepted = existingItem(snapshot, { review_status: 'accepted' });
+    const plan = planRemerge([accepted], [proposal({ name: 'Akai MPK Mini mk3', estimated_value: 150, room: 'Studio', tags: ['Music'] })]);
+    expect(plan.updated).toEqual([]);
+    expect(plan.unchanged.map(({ existing }) => existing.id)).toEqual(['item-1']);
+    expect(isTouched(accepted)).toBe(true);
+  });
+
+  it('never updates rejected items', () => {
+    const rejected = existingItem(snapshot, { review_status: 'rejected' });
+    const plan = planRemerge([rejected], [proposal({ estimated_value: 500 })]);
+    expect(plan.updated).toEqual([]);
+    expect(plan.created).toEqual([]);
+  });
+});
+
+describe('isTouched', () => {
+  it('treats items without a snapshot as edited', () => {
+    expect(isTouched(existingItem(null))).toBe(true);
+    expect(isTouched(existingItem(snapshot))).toBe(false);
+    expect(isTouched(existingItem(snapshot, { tags: [] }))).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { buildReviewUpdate, mergeItems, mergeProvenance, ReviewError } from '../index';
+
+describe('buildReviewUpdate', () => {
+  it('attributes a changed value to the reviewer', () => {
+    expect(buildReviewUpdate({ estimated_value: 400 }, { name: ' Record Player ', estimated_value: 250 })).toEqual({
+      name: 'Record Player',
+      estimated_value: 250,
+      value_source: 'user_edit',
+    });
+  });
+
+  it('keeps the AI value source when the value is unchanged', () => {
+    expect(buildReviewUpdate({ estimated_value: 400 }, { estimated_value: 400, description: '  ' })).toEqual({
+      estimated_value: 400,
+      description: null,
+    });
+  });
+
+  it('requires a name', () => {
+    expect(() => buildReviewUpdate({ estimated_value: null }, { name: ' ' })).toThrow(ReviewError);
+  });
+});
+
+describe('mergeProvenance', () => {
+  it('records the merged items and their detections on the surviving item', () => {
+    const merged = mergeProvenance(
+      { source: 'merge_with_scratch', model: 'openai:gpt', detection_ids: ['d1'] },
+      [
+        { id: 'a', name: 'Akai MPK Mini', ai_provenance: { source: 'merge_with_scratch', detection_ids: ['d2', 'd1'] } },
+        { id: 'b', name: 'MIDI Keyboard', ai_provenance: null },
+      ]
+    );
+    expect(merged.model).toBe('openai:gpt');
+    expect(merged.detection_ids).toEqual(['d1', 'd2']);
+    expect(merged.merged_from).toEqual([{ id: 'a', name: 'Akai MPK Mini' }, { id: 'b', name: 'MIDI Keyboard' }]);
+  });
+});
+
+describe('mergeItems', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('needs something to merge other than the target', async () => {
+    await expect(mergeItems(client, 'user-1', 'item-1', ['item-1'])).rejects.toBeInstanceOf(ReviewError);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Review queue for AI-generated items
+ *
+ * The merge pipeline writes the items it finds in a recording as proposals
+ * (`review_status = 'pending'`) with the model's confidence and provenance. Proposals are
+ * not part of the inventory: they are left out of totals, reports, exports, share links and
+ * search until a household owner or editor accepts them, optionally editing them first.
+ * A proposal can also be merged into another item (a duplicate of something already
+ * proposed or in the inventory) or rejected. Rejected proposals are kept, not deleted, so
+ * the decision is remembered and audited.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReviewStatus } from '@/lib/db/schema';
+import { canEditHousehold, getHouseholdRole } from '@/lib/households';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import { loadCarriedSightings } from '@/lib/items/sightings';
+import type { ProposedSnapshot, RemergeField } from './remerge';
+
+export * from './remerge';
+
+/** Where an AI-generated item came from, stored in `assets.ai_provenance` */
+export interface ItemProvenance {
+  source: 'merge_with_scratch' | 'analyze_transcript';
+  model?: string;
+  /** Frame detections (scratch items) the model tied the item to */
+  detection_ids?: string[];
+  suggested_room?: string | null;
+  suggested_tags?: string[];
+  /** Set on the surviving item when a reviewer merges duplicates into it */
+  merged_from?: Array<{ id: string; name: string | null }>;
+  /** Set on a proposal a reviewer merged into another item */
+  merged_into?: string;
+  /** Set on items created by splitting another item, and on the item that was split */
+  split_from?: { id: string; name: string | null };
+  split_into?: Array<{ id: string; name: string | null }>;
+  /** What the model last proposed, so a re-merge can tell which fields a person edited */
+  proposed?: ProposedSnapshot;
+  /** The fields the last re-merge of the recording changed */
+  remerged?: { at: string; fields: Array<RemergeField | 'room' | 'tags'> };
+}
+
+/** Fields a reviewer can correct before accepting */
+export interface ReviewEdits {
+  name?: string;
+  description?: string | null;
+  estimated_value?: number | null;
+  category?: string | null;
+  item_timestamp?: number | null;
+}
+
+export interface PendingItem {
+  id: string;
+  name: string | null;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  created_at: string;
+  source_video_id: string | null;
+  item_timestamp: number | null;
+  mux_playback_id: string | null;
+  thumbnail_url: string | null;
+  ai_confidence: number | null;
+  ai_provenance: ItemProvenance | null;
+  room: string | null;
+  tags: string[];
+}
+
+/**
+ * Raised when a review action is not allowed; `status` is the HTTP status to return
+ */
+export class ReviewError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/** Postgres error codes raised by accept_review_items and merge_review_items */
+const CHECK_VIOLATION = '23514';
+const NO_DATA_FOUND = 'P0002';
+
+/**
+ * Maps the errors accept_review_items and merge_review_items raise to ReviewError
+ */
+function reviewRpcError(error: { code?: string; message: string }, fallback: string): Error {
+  if (error.code === NO_DATA_FOUND) return new ReviewError('Item not found', 404);
+  if (error.code === CHECK_VIOLATION) return new ReviewError(error.message, 409);
+  return new Error(`${fallback}: ${error.message}`);
+}
+
+interface ReviewedAssetRow {
+  id: string;
+  name: string | null;
+  household_id: string;
+  property_id: string;
+  review_status: ReviewStatus;
+  estimated_value: number | null;
+  source_video_id: string | null;
+  item_timestamp: number | null;
+  ai_provenance: ItemProvenance | null;
+}
+
+/**
+ * The column updates for a reviewer's edits. A changed value is the reviewer's own estimate,
+ * as in the asset modal.
+ */
+export function buildReviewUpdate(
+  current: Pick<ReviewedAssetRow, 'estimated_value'>,
+  edits: ReviewEdits
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  if (edits.name !== undefined) {
+    const name = edits.name.trim();
+    if (!name) throw new ReviewError('Item name is required');
+    update.name = name;
+  }
+  if (edits.description !== undefined) update.description = edits.description?.trim() || null;
+  if (edits.category !== undefined) update.category = edits.category;
+  if (edits.item_timestamp !== undefined) update.item_timestamp = edits.item_timestamp;
+  if (edits.estimated_value !== undefined) {
+    update.estimated_value = edits.estimated_value;
+    if (edits.estimated_value !== (current.estimated_value ?? null)) update.value_source = 'user_edit';
+  }
+  return update;
+}
+
+/**
+ * The surviving item's provenance after merging `sources` into it
+ */
+export function mergeProvenance(
+  target: ItemProvenance | null,
+  sources: Array<Pick<ReviewedAssetRow, 'id' | 'name' | 'ai_provenance'>>
+): ItemProvenance {
+  const merged: ItemProvenance = target ? { ...target } : { source: 'merge_with_scratch' };
+  const mergedFrom = [...(merged.merged_from ?? [])];
+  const detectionIds = new Set(merged.detection_ids ?? []);
+  for (const source of sources) {
+    mergedFrom.push({ id: source.id, name: source.name });
+    for (const id of source.ai_provenance?.detection_ids ?? []) detectionIds.add(id);
+  }
+  merged.merged_from = mergedFrom;
+  if (detectionIds.size > 0) merged.detection_ids = Array.from(detectionIds);
+  return merged;
+}
+
+/**
+ * Proposals waiting for review in a property, grouped by recording and in the order they
+ * appear in it
+ */
+export async function listPendingItems(client: SupabaseClient, propertyId: string): Promise<PendingItem[]> {
+  const { data, error } = await client
+    .from('assets')
+    .select(`
+      id, name, description, estimated_value, category, created_at, source_video_id, item_timestamp,
+      mux_playback_id, thumbnail_url, ai_confidence, ai_provenance,
+      asset_rooms(
+        rooms(name)
+      ),
+      asset_tags(
+        tags(name)
+      )
+    `)
+    .eq('property_id', propertyId)
+    .eq('review_status', 'pending')
+    .order('source_video_id', { ascending: true })
+    .order('item_timestamp', { ascending: true });
+  if (error) throw new Error(`Failed to load items awaiting review: ${error.message}`);
+
+  return (data || []).map(({ asset_rooms, asset_tags, ...item }) => ({
+    ...item,
+    ai_confidence: item.ai_confidence != null ? Number(item.ai_confidence) : null,
+    room: extractRoomName(asset_rooms),
+    tags: extractTagNames(asset_tags),
+  })) as PendingItem[];
+}
+
+/**
+ * Loads the items being reviewed and checks the user can edit every household they are in
+ */
+async function loadForReview(client: SupabaseClient, userId: string, itemIds: string[]): Promise<ReviewedAssetRow[]> {
+  const ids = Array.from(new Set(itemIds));
+  const { data, error } = await client
+    .from('assets')
+    .select('id, name, household_id, property_id, review_status, estimated_value, source_video_id, item_timestamp, ai_provenance')
+    .in('id', ids)
+    .eq('media_type', 'item');
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+  const rows = (data || []) as ReviewedAssetRow[];
+  if (rows.length !== ids.length) throw new ReviewError('Item not found', 404);
+
+  for (const householdId of new Set(rows.map((row) => row.household_id))) {
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) throw new ReviewError('Item not found', 404);
+    if (!canEditHousehold(role)) throw new ReviewError('Only household owners and editors can review items', 403);
+  }
+  return rows;
+}
+
+function reviewed(userId: string, status: ReviewStatus) {
+  return { review_status: status, reviewed_by: userId, reviewed_at: new Date().toISOString() };
+}
+
+/**
+ * Accepts proposals into the inventory, applying the reviewer's edits to each. Rejected
+ * proposals can be accepted later to undo the rejection. All of them are accepted in one
+ * transaction (`public.accept_review_items`).
+ */
+export async function acceptItems(
+  client: SupabaseClient,
+  userId: string,
+  items: Array<{ id: string } & ReviewEdits>
+): Promise<string[]> {
+  const rows = await loadForReview(client, userId, items.map((item) => item.id));
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  if (rows.some((row) => row.review_status === 'accepted')) {
+    throw new ReviewError('Some of these items are already in the inventory', 409);
+  }
+
+  const { error } = await client.rpc('accept_review_items', {
+    // Only read for service clients; a user's session always acts as auth.uid()
+    p_user_id: userId,
+    p_items: items.map(({ id, ...edits }) => ({ id, ...buildReviewUpdate(byId.get(id)!, edits) })),
+  });
+  if (error) throw reviewRpcError(error, 'Failed to accept items');
+  return items.map((item) => item.id);
+}
+
+/**
+ * Dismisses proposals. They stay out of the inventory but are kept for the audit trail.
+ */
+export async function rejectItems(client: SupabaseClient, userId: string, itemIds: string[]): Promise<string[]> {
+  const rows = await loadForReview(client, userId, itemIds);
+  if (rows.some((row) => row.review_status !== 'pending')) {
+    throw new ReviewError('Only items awaiting review can be rejected', 409);
+  }
+  const { error } = await client
+    .from('assets')
+    .update(reviewed(userId, 'rejected'))
+    .in('id', rows.map((row) => row.id));
+  if (error) throw new Error(`Failed to reject items: ${error.message}`);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Merges duplicate proposals into one item: the target (a proposal or an item already in the
+ * inventory) is accepted with the reviewer's edits and gains the duplicates' tags and
+ * sightings; the duplicates are rejected and point at it. The writes happen in one
+ * transaction (`public.merge_review_items`).
+ */
+export async function mergeItems(
+  client: SupabaseClient,
+  userId: string,
+  targetId: string,
+  itemIds: string[],
+  edits: ReviewEdits = {}
+): Promise<{ targetId: string; mergedIds: string[] }> {
+  const sourceIds = Array.from(new Set(itemIds)).filter((id) => id !== targetId);
+  if (sourceIds.length === 0) throw new ReviewError('Choose at least one item to merge');
+
+  const rows = await loadForReview(client, userId, [targetId, ...sourceIds]);
+  const target = rows.find((row) => row.id === targetId)!;
+  const sources = rows.filter((row) => row.id !== targetId);
+  if (target.review_status === 'rejected') throw new ReviewError('Cannot merge into a rejected item', 409);
+  if (sources.some((row) => row.review_status !== 'pending')) {
+    throw new ReviewError('Only items awaiting review can be merged into another item', 409);
+  }
+  if (sources.some((row) => row.household_id !== target.household_id)) {
+    throw new ReviewError('Items can only be merged within a household');
+  }
+
+  const sightings = await loadCarriedSightings(client, target, sources);
+
+  const { error } = await client.rpc('merge_review_items', {
+    // Only read for service clients, as with accept_review_items
+    p_user_id: userId,
+    p_target_id: targetId,
+    p_source_ids: sourceIds,
+    p_edits: buildReviewUpdate(target, edits),
+    p_target_provenance: mergeProvenance(target.ai_provenance, sources),
+    p_source_provenance: Object.fromEntries(sources.map((source) => [
+      source.id,
+      { ...(source.ai_provenance ?? { source: 'merge_with_scratch' }), merged_into: targetId },
+    ])),
+    p_sightings: sightings,
+  });
+  if (error) throw reviewRpcError(error, 'Failed to merge items');
+
+  return { targetId, mergedIds: sourceIds };
+}
@@ -0,0 +1,214 @@
+/**
+ * Re-running the merge for a recording
+ *
+ * A recording can be merged again after its transcript is corrected or with a better model.
+ * Rather than inserting a second set of items, the new proposals are matched to the items
+ * already created from the recording and only the differences are applied. Each item keeps
+ * a snapshot of what the model last proposed (`ai_provenance.proposed`); a field whose
+ * current value differs from the snapshot was edited by a person and is left alone, as are
+ * the room and tags once someone changed them. Rejected items stay rejected.
+ */
+import { ReviewStatus } from '@/lib/db/schema';
+import { trigramSimilarity } from '@/lib/search/snippets';
+import type { ItemProvenance } from './index';
+
+export const REMERGE_FIELDS = ['name', 'description', 'estimated_value', 'category', 'item_timestamp'] as const;
+export type RemergeField = typeof REMERGE_FIELDS[number];
+
+/** What the model proposed for an item, as stored in `ai_provenance.proposed` */
+export interface ProposedSnapshot {
+  name: string;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  item_timestamp: number | null;
+  room: string | null;
+  tags: string[];
+}
+
+export interface ProposedItem extends ProposedSnapshot {
+  detection_ids: string[];
+}
+
+export interface ExistingItem {
+  id: string;
+  name: string | null;
+  description: string | null;
+  estimated_value: number | null;
+  category: string | null;
+  item_timestamp: number | null;
+  review_status: ReviewStatus;
+  ai_provenance: ItemProvenance | null;
+  room: string | null;
+  tags: string[];
+}
+
+export interface RemergeUpdate {
+  existing: ExistingItem;
+  proposed: ProposedItem;
+  /** Column values to write; only fields nobody edited */
+  updates: Partial<Record<RemergeField, string | number | null>>;
+  /** Fields the model proposed differently but a person had edited */
+  preserved: Array<RemergeField | 'room' | 'tags'>;
+  replaceRoom: boolean;
+  replaceTags: boolean;
+}
+
+export interface RemergePlan {
+  created: ProposedItem[];
+  updated: RemergeUpdate[];
+  /** Matched items with nothing to apply, including rejected ones */
+  unchanged: Array<{ existing: ExistingItem; proposed: ProposedItem }>;
+  vanished: Array<{ existing: ExistingItem; remove: boolean }>;
+}
+
+/** The summary returned to callers of the merge */
+export interface RemergeDiff {
+  created: Array<{ id: string; name: string | null }>;
+  changed: Array<{
+    id: string;
+    name: string | null;
+    fields: Array<{ field: RemergeField | 'room' | 'tags'; before: unknown; after: unknown }>;
+    preserved: Array<RemergeField | 'room' | 'tags'>;
+  }>;
+  unchanged: Array<{ id: string; name: string | null }>;
+  /** Items the model no longer found; untouched proposals are removed, anything else is kept */
+  vanished: Array<{ id: string; name: string | null; reviewStatus: ReviewStatus; removed: boolean }>;
+}
+
+/** Minimum score for a new proposal to be treated as the same item as an existing one */
+export const REMERGE_MATCH_THRESHOLD = 0.5;
+/** Proposals further apart than this in the recording get no credit for their timing */
+const TIMESTAMP_WINDOW_SECONDS = 10;
+
+/**
+ * How likely a new proposal is the same item as an existing one: a shared frame detection is
+ * conclusive; otherwise the name similarity, helped by being mentioned at about the same time
+ */
+export function matchScore(existing: ExistingItem, proposed: ProposedItem): number {
+  const detections = new Set(existing.ai_provenance?.detection_ids ?? []);
+  if (proposed.detection_ids.some((id) => detections.has(id))) return 2;
+
+  const previousName = existing.ai_provenance?.proposed?.name ?? existing.name ?? '';
+  const name = Math.max(
+    trigramSimilarity(previousName.toLowerCase(), proposed.name.toLowerCase()),
+    trigramSimilarity((existing.name ?? '').toLowerCase(), proposed.name.toLowerCase())
+  );
+  let timing = 0;
+  if (existing.item_timestamp != null && proposed.item_timestamp != null) {
+    const apart = Math.abs(Number(existing.item_timestamp) - proposed.item_timestamp);
+    timing = Math.max(0, 1 - apart / TIMESTAMP_WINDOW_SECONDS);
+  }
+  return name * 0.7 + timing * 0.3;
+}
+
+function sameValue(field: RemergeField, a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return (a ?? null) === (b ?? null);
+  if (field === 'estimated_value' || field === 'item_timestamp') return Number(a) === Number(b);
+  return a === b;
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+}
+
+/**
+ * Whether a person has changed or vouched for an item since the model proposed it. Accepted
+ * items count as touched, since someone reviewed their values, and so do items created
+ * before snapshots were kept.
+ */
+export function isTouched(item: ExistingItem): boolean {
+  const snapshot = item.ai_provenance?.proposed;
+  if (!snapshot || item.review_status !== 'pending') return true;
+  return REMERGE_FIELDS.some((field) => !sameValue(field, item[field], snapshot[field]))
+    || (item.room ?? null) !== (snapshot.room ?? null)
+    || !sameTags(item.tags, snapshot.tags);
+}
+
+function planUpdate(existing: ExistingItem, proposed: ProposedItem): RemergeUpdate {
+  // Only proposals still awaiting review take the model's new values; once an item counts in
+  // the inventory, every difference is kept as it is
+  const snapshot = existing.review_status === 'pending' ? existing.ai_provenance?.proposed : undefined;
+  const updates: RemergeUpdate['updates'] = {};
+  const preserved: RemergeUpdate['preserved'] = [];
+
+  for (const field of REMERGE_FIELDS) {
+    if (sameValue(field, existing[field], proposed[field])) continue;
+    if (snapshot && sameValue(field, existing[field], snapshot[field])) {
+      updates[field] = proposed[field];
+    } else {
+      preserved.push(field);
+    }
+  }
+
+  const roomChanged = (existing.room ?? null) !== (proposed.room ?? null);
+  const replaceRoom = roomChanged && !!snapshot && (existing.room ?? null) === (snapshot.room ?? null);
+  if (roomChanged && !replaceRoom) preserved.push('room');
+
+  const tagsChanged = !sameTags(existing.tags, proposed.tags);
+  const replaceTags = tagsChanged && !!snapshot && sameTags(existing.tags, snapshot.tags);
+  if (tagsChanged && !replaceTags) preserved.push('tags');
+
+  return { existing, proposed, updates, preserved, replaceRoom, replaceTags };
+}
+
+/**
+ * Matches a new set of proposals for a recording to the items already created from it,
+ * best match first, and works out what to insert, update and remove
+ */
+export function planRemerge(existing: ExistingItem[], proposed: ProposedItem[]): RemergePlan {
+  const pairs: Array<{ existingIndex: number; proposedIndex: number; score: number }> = [];
+  existing.forEach((item, existingIndex) => {
+    proposed.forEach((candidate, proposedIndex) => {
+      const score = matchScore(item, candidate);
+      if (score >= REMERGE_MATCH_THRESHOLD) pairs.push({ existingIndex, proposedIndex, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matchedExisting = new Map<number, number>();
+  const matchedProposed = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedExisting.has(pair.existingIndex) || matchedProposed.has(pair.proposedIndex)) continue;
+    matchedExisting.set(pair.existingIndex, pair.proposedIndex);
+    matchedProposed.add(pair.proposedIndex);
+  }
+
+  const plan: RemergePlan = { created: [], updated: [], unchanged: [], vanished: [] };
+  existing.forEach((item, index) => {
+    const proposedIndex = matchedExisting.get(index);
+    if (proposedIndex === undefined) {
+      plan.vanished.push({ existing: item, remove: item.review_status === 'pending' && !isTouched(item) });
+      return;
+    }
+    const update = planUpdate(item, proposed[proposedIndex]);
+    // A rejected item is remembered as rejected, whatever the model now says about it
+    const hasChanges = item.review_status !== 'rejected'
+      && (Object.keys(update.updates).length > 0 || update.replaceRoom || update.replaceTags);
+    if (hasChanges) {
+      plan.updated.push(update);
+    } else {
+      plan.unchanged.push({ existing: item, proposed: proposed[proposedIndex] });
+    }
+  });
+  plan.created = proposed.filter((_, index) => !matchedProposed.has(index));
+  return plan;
+}
+
+/**
+ * The before and after of each change an update applies
+ */
+export function describeUpdate(update: RemergeUpdate): RemergeDiff['changed'][number] {
+  const { existing, proposed } = update;
+  const fields: RemergeDiff['changed'][number]['fields'] = REMERGE_FIELDS
+    .filter((field) => field in update.updates)
+    .map((field) => ({ field, before: existing[field], after: update.updates[field] }));
+  if (update.replaceRoom) fields.push({ field: 'room', before: existing.room, after: proposed.room });
+  if (update.replaceTags) fields.push({ field: 'tags', before: existing.tags, after: proposed.tags });
+  return {
+    id: existing.id,
+    name: (update.updates.name as string | undefined) ?? existing.name,
+    fields,
+    preserved: update.preserved,
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findTranscriptHits,
+  highlightSnippet,
+  matchesTerm,
+  searchTerms,
+  snippetParts,
+  trigramSimilarity,
+} from '../snippets';
+
+function transcript(words: Array<[string, number]>) {
+  return {
+    results: {
+      channels: [{
+        alternatives: [{
+          transcript: words.map(([word]) => word).join(' '),
+          confidence: 1,
+          words: words.map(([word, start]) => ({
+            word: word.toLowerCase().replace(/[^a-z]/g, ''),
+            punctuated_word: word,
+            start,
+            end: start + 0.4,
+            confidence: 1,
+          })),
+        }],
+      }],
+    },
+  };
+}
+
+describe('searchTerms', () => {
+  it('keeps distinct words and drops operators and single letters', () => {
+    expect(searchTerms('Leather  sofa -or "a sofa"')).toEqual(['leather', 'sofa']);
+  });
+});
+
+describe('matchesTerm', () => {
+  it('matches prefixes and close misspellings like pg_trgm', () => {
+    expect(trigramSimilarity('sofa', 'sofa')).toBe(1);
+    expect(matchesTerm('Lamps', ['lamp'])).toBe(true);
+    expect(matchesTerm('television', ['televsion'])).toBe(true);
+    expect(matchesTerm('camp', ['lamp'])).toBe(false);
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('highlights matches in short text', () => {
+    const snippet = highlightSnippet('Brown leather sofa', ['sofa']);
+    expect(snippet).toEqual({ text: 'Brown leather sofa', highlights: [[14, 18]] });
+    expect(snippetParts(snippet!)).toEqual([
+      { text: 'Brown leather ', highlight: false },
+      { text: 'sofa', highlight: true },
+    ]);
+  });
+
+  it('cuts long text around the first match', () => {
+    const text = `${'words before the match '.repeat(10)}a vintage record player${' and after'.repeat(20)}`;
+    const snippet = highlightSnippet(text, ['record'], 80)!;
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const [[from, to]] = snippet.highlights;
+    expect(snippet.text.slice(from, to)).toBe('record');
+  });
+
+  it('returns null without a match', () => {
+    expect(highlightSnippet('Brown leather sofa', ['guitar'])).toBeNull();
+  });
+});
+
+describe('findTranscriptHits', () => {
+  const spoken = transcript([
+    ['This', 1.02], ['is', 1.3], ['my', 1.5], ['guitar,', 1.84], ['a', 2.3], ['Fender.', 2.5],
+    ['The', 4.0], ['guitar', 4.3], ['case', 4.8], ['is', 5.1], ['here.', 5.3],
+    ['Another', 30.0], ['guitar', 30.47],
+  ]);
+
+  it('returns item_timestamp-style offsets with the surrounding words', () => {
+    const hits = findTranscriptHits(spoken, ['guitar']);
+    expect(hits.map((hit) => hit.timestamp)).toEqual([1.8, 30.4]);
+    const [from, to] = hits[0].snippet.highlights[0];
+    expect(hits[0].snippet.text.slice(from, to)).toBe('guitar,');
+  });
+
+  it('ignores transcripts without word timings', () => {
+    expect(findTranscriptHits(null, ['guitar'])).toEqual([]);
+    expect(findTranscriptHits({ results: { channels: [] } }, ['guitar'])).toEqual([]);
+  });
+});
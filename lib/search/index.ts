@@ -0,0 +1,153 @@
+/**
+ * Inventory search over item names, descriptions, tags, rooms and transcripts
+ *
+ * `public.search_inventory` ranks a property's accepted assets in Postgres (full-text rank plus
+ * pg_trgm similarity, so misspellings still match); this module loads the matched assets and
+ * adds highlighted snippets. Recordings whose transcript matched get the offsets of each
+ * mention, so the dashboard can start the player where the words were spoken.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import {
+  findTranscriptHits,
+  highlightSnippet,
+  matchesTerm,
+  SearchField,
+  SearchSnippet,
+  searchTerms,
+  TranscriptHit,
+} from './snippets';
+
+export * from './snippets';
+
+export const SEARCH_DEFAULT_LIMIT = 25;
+export const SEARCH_MAX_LIMIT = 100;
+
+export interface SearchResult {
+  assetId: string;
+  mediaType: 'image' | 'video' | 'item';
+  name: string | null;
+  rank: number;
+  matchedFields: SearchField[];
+  /** The name with matched words highlighted */
+  title: SearchSnippet | null;
+  /** An excerpt of the description around the match */
+  snippet: SearchSnippet | null;
+  /** Tag and room names that matched */
+  matchedLabels: string[];
+  /** Recordings only: where the query was spoken */
+  transcriptHits: TranscriptHit[];
+  sourceVideoId: string | null;
+  itemTimestamp: number | null;
+}
+
+interface SearchRow {
+  asset_id: string;
+  rank: number;
+  matched_fields: SearchField[];
+}
+
+interface SearchAssetRow {
+  id: string;
+  name: string | null;
+  description: string | null;
+  media_type: SearchResult['mediaType'];
+  source_video_id: string | null;
+  item_timestamp: number | null;
+  asset_tags: unknown;
+  asset_rooms: unknown;
+}
+
+/**
+ * Ranked matches for `query` within a property. The caller is responsible for checking the
+ * user can see the property.
+ */
+export async function searchInventory(
+  client: SupabaseClient,
+  propertyId: string,
+  query: string,
+  limit = SEARCH_DEFAULT_LIMIT
+): Promise<SearchResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const { data, error } = await client.rpc('search_inventory', {
+    p_property_id: propertyId,
+    p_query: trimmed,
+    p_limit: Math.min(Math.max(limit, 1), SEARCH_MAX_LIMIT),
+  });
+  if (error) throw new Error(`Failed to search inventory: ${error.message}`);
+  const rows = (data || []) as SearchRow[];
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((row) => row.asset_id);
+  const transcriptIds = rows.filter((row) => row.matched_fields.includes('transcript')).map((row) => row.asset_id);
+  const [{ data: assets, error: assetsError }, transcripts] = await Promise.all([
+    client
+      .from('assets')
+      .select(`
+        id, name, description, media_type, source_video_id, item_timestamp,
+        asset_tags(
+          tags(name)
+        ),
+        asset_rooms(
+          rooms(name)
+        )
+      `)
+      .in('id', ids),
+    loadTranscripts(client, transcriptIds),
+  ]);
+  if (assetsError) throw new Error(`Failed to load search results: ${assetsError.message}`);
+
+  const terms = searchTerms(trimmed);
+  const byId = new Map(((assets || []) as SearchAssetRow[]).map((asset) => [asset.id, asset]));
+  const results: SearchResult[] = [];
+  for (const row of rows) {
+    const asset = byId.get(row.asset_id);
+    if (!asset) continue;
+    const room = extractRoomName(asset.asset_rooms);
+    const labels = [...extractTagNames(asset.asset_tags), ...(room ? [room] : [])];
+    const transcript = transcripts.get(asset.id);
+    results.push({
+      assetId: asset.id,
+      mediaType: asset.media_type,
+      name: asset.name,
+      rank: row.rank,
+      matchedFields: row.matched_fields,
+      title: asset.name ? highlightSnippet(asset.name, terms, asset.name.length) : null,
+      snippet: asset.description ? highlightSnippet(asset.description, terms) : null,
+      matchedLabels: labels.filter((label) => searchTerms(label).some((word) => matchesTerm(word, terms))),
+      transcriptHits: transcript ? transcriptHits(transcript, terms) : [],
+      sourceVideoId: asset.source_video_id,
+      itemTimestamp: asset.item_timestamp,
+    });
+  }
+  return results;
+}
+
+async function loadTranscripts(
+  client: SupabaseClient,
+  ids: string[]
+): Promise<Map<string, { transcript: unknown; transcript_text: string | null }>> {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await client
+    .from('assets')
+    .select('id, transcript, transcript_text')
+    .in('id', ids);
+  if (error) throw new Error(`Failed to load transcripts: ${error.message}`);
+  return new Map((data || []).map((row) => [row.id as string, row]));
+}
+
+/**
+ * Mentions with offsets from the word timings; transcripts stored without them fall back
+ * to a text excerpt without an offset
+ */
+function transcriptHits(
+  transcript: { transcript: unknown; transcript_text: string | null },
+  terms: string[]
+): TranscriptHit[] {
+  const hits = findTranscriptHits(transcript.transcript, terms);
+  if (hits.length > 0 || !transcript.transcript_text) return hits;
+  const snippet = highlightSnippet(transcript.transcript_text, terms);
+  return snippet ? [{ timestamp: null, snippet }] : [];
+}
@@ -0,0 +1,165 @@
+/**
+ * Search term matching, highlighted snippets and transcript offsets
+ *
+ * Kept free of server-only imports so the dashboard can render results with `snippetParts`.
+ * Fuzzy matching mirrors pg_trgm: words are compared by the share of their three-letter
+ * sequences, so the highlighted words line up with what `search_inventory` matched.
+ */
+import type { TranscriptData } from '@/types/mux';
+
+export type SearchField = 'name' | 'description' | 'tag' | 'room' | 'transcript';
+
+/** A short excerpt with the [start, end) ranges of matched words */
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+/** A spoken mention in a recording; `timestamp` is seconds, like `item_timestamp` */
+export interface TranscriptHit {
+  timestamp: number | null;
+  snippet: SearchSnippet;
+}
+
+/** Below pg_trgm's default word similarity, so close misspellings are still highlighted */
+export const FUZZY_THRESHOLD = 0.4;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+const TRANSCRIPT_CONTEXT_WORDS = 8;
+/** Mentions closer together than this are one hit */
+const TRANSCRIPT_MERGE_SECONDS = 10;
+const MAX_TRANSCRIPT_HITS = 5;
+
+const WORD = /[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*/gu;
+
+/**
+ * The distinct lowercase words of a query, ignoring punctuation, search operators and
+ * one-letter words
+ */
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(WORD) ?? [];
+  return Array.from(new Set(words.filter((word) => word.length >= 2 && word !== 'or')));
+}
+
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word.toLowerCase()} `;
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * pg_trgm `similarity` of two words: shared trigrams over all trigrams
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const trigram of left) {
+    if (right.has(trigram)) shared++;
+  }
+  const total = left.size + right.size - shared;
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Whether a word matches one of the terms: as a prefix ("lamp" finds "lamps") or by
+ * trigram similarity ("sopha" finds "sofa")
+ */
+export function matchesTerm(word: string, terms: string[]): boolean {
+  const normalized = word.toLowerCase();
+  return terms.some((term) =>
+    normalized.startsWith(term) || trigramSimilarity(normalized, term) >= FUZZY_THRESHOLD
+  );
+}
+
+function matchedRanges(text: string, terms: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD)) {
+    if (matchesTerm(match[0], terms)) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * An excerpt of `text` around its first matched word, or null when nothing matches. Short
+ * text is returned whole; longer text is cut at word boundaries and marked with ellipses.
+ */
+export function highlightSnippet(text: string, terms: string[], maxLength = SNIPPET_LENGTH): SearchSnippet | null {
+  const ranges = matchedRanges(text, terms);
+  if (ranges.length === 0) return null;
+  if (text.length <= maxLength) return { text, highlights: ranges };
+
+  let start = Math.max(0, ranges[0][0] - SNIPPET_LEAD);
+  let end = Math.min(text.length, start + maxLength);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < ranges[0][0] ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > ranges[0][1] ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  };
+}
+
+/**
+ * Where the terms are spoken in a Deepgram transcript, with the surrounding words. Mentions
+ * within a few seconds of each other are reported once; timestamps are rounded down to a
+ * tenth of a second so playback starts just before the word.
+ */
+export function findTranscriptHits(transcript: unknown, terms: string[], maxHits = MAX_TRANSCRIPT_HITS): TranscriptHit[] {
+  const words = (transcript as TranscriptData | null)?.results?.channels?.[0]?.alternatives?.[0]?.words;
+  if (!Array.isArray(words) || terms.length === 0) return [];
+
+  const hits: TranscriptHit[] = [];
+  let lastStart = -Infinity;
+  for (let i = 0; i < words.length && hits.length < maxHits; i++) {
+    if (!matchesTerm(words[i].word, terms)) continue;
+    if (words[i].start - lastStart < TRANSCRIPT_MERGE_SECONDS) continue;
+    lastStart = words[i].start;
+
+    const from = Math.max(0, i - TRANSCRIPT_CONTEXT_WORDS);
+    const to = Math.min(words.length, i + TRANSCRIPT_CONTEXT_WORDS + 1);
+    let text = from > 0 ? '…' : '';
+    const highlights: Array<[number, number]> = [];
+    for (let j = from; j < to; j++) {
+      const spoken = words[j].punctuated_word || words[j].word;
+      if (j > from) text += ' ';
+      if (matchesTerm(words[j].word, terms)) highlights.push([text.length, text.length + spoken.length]);
+      text += spoken;
+    }
+    if (to < words.length) text += '…';
+
+    hits.push({ timestamp: Math.floor(words[i].start * 10) / 10, snippet: { text, highlights } });
+  }
+  return hits;
+}
+
+/**
+ * Splits a snippet into plain and highlighted parts for rendering
+ */
+export function snippetParts(snippet: SearchSnippet): Array<{ text: string; highlight: boolean }> {
+  const parts: Array<{ text: string; highlight: boolean }> = [];
+  let position = 0;
+  for (const [from, to] of snippet.highlights) {
+    if (from > position) parts.push({ text: snippet.text.slice(position, from), highlight: false });
+    parts.push({ text: snippet.text.slice(from, to), highlight: true });
+    position = to;
+  }
+  if (position < snippet.text.length) parts.push({ text: snippet.text.slice(position), highlight: false });
+  return parts;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  FRAME_TOKEN_TTL_SECONDS,
+  FrameTokenError,
+  getBearerToken,
+  getFrameLimits,
+  issueFrameToken,
+  verifyFrameToken,
+} from '../frame-token';
+
+const CLAIMS = { userId: 'user-1', sessionId: '6f1c1d4e-8a0b-4c57-9f3e-2b7a0d4c9e11' };
+const NOW = Date.parse('2025-06-08T12:00:00.000Z');
+
+describe('frame tokens', () => {
+  const originalSecret = process.env.FRAME_TOKEN_SECRET;
+
+  beforeEach(() => {
+    process.env.FRAME_TOKEN_SECRET = 'test-frame-secret';
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) delete process.env.FRAME_TOKEN_SECRET;
+    else process.env.FRAME_TOKEN_SECRET = originalSecret;
+  });
+
+  it('round-trips the user and session', () => {
+    const { token, expiresAt } = issueFrameToken(CLAIMS, NOW);
+    expect(verifyFrameToken(token, NOW + 1000)).toEqual(CLAIMS);
+    expect(Date.parse(expiresAt)).toBe(NOW + FRAME_TOKEN_TTL_SECONDS * 1000);
+  });
+
+  it('rejects expired tokens', () => {
+    const { token } = issueFrameToken(CLAIMS, NOW);
+    expect(() => verifyFrameToken(token, NOW + (FRAME_TOKEN_TTL_SECONDS + 1) * 1000)).toThrow(FrameTokenError);
+  });
+
+  it('rejects tokens signed with another key', () => {
+    const { token } = issueFrameToken(CLAIMS, NOW);
+    process.env.FRAME_TOKEN_SECRET = 'another-secret';
+    expect(() => verifyFrameToken(token, NOW)).toThrow(FrameTokenError);
+  });
+
+  it('rejects a missing token', () => {
+    expect(() => verifyFrameToken(null, NOW)).toThrow('Missing frame token');
+  });
+});
+
+describe('getBearerToken', () => {
+  it('reads the bearer token from the Authorization header', () => {
+    const request = new Request('http://localhost/api/frame', { headers: { Authorization: 'Bearer abc' } });
+    expect(getBearerToken(request)).toBe('abc');
+    expect(getBearerToken(new Request('http://localhost/api/frame'))).toBeNull();
+  });
+});
+
+describe('getFrameLimits', () => {
+  it('ignores invalid overrides', () => {
+    process.env.FRAME_MAX_PER_SESSION = 'lots';
+    expect(getFrameLimits().maxFramesPerSession).toBe(1800);
+    delete process.env.FRAME_MAX_PER_SESSION;
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canTransition,
+  getMergeReadiness,
+  isSessionId,
+  isSessionStale,
+  RecordingSession,
+  SESSION_HEARTBEAT_TIMEOUT_MS,
+} from '../index';
+
+function makeSession(overrides: Partial<RecordingSession> = {}): RecordingSession {
+  return {
+    id: '6f1c1d4e-8a0b-4c57-9f3e-2b7a0d4c9e11',
+    user_id: 'user-1',
+    status: 'completed',
+    mux_upload_id: 'upload-1',
+    mux_asset_id: 'mux-asset-1',
+    asset_id: 'asset-1',
+    scratch_done: true,
+    started_at: '2025-06-03T10:00:00.000Z',
+    last_heartbeat_at: '2025-06-03T10:05:00.000Z',
+    completed_at: '2025-06-03T10:06:00.000Z',
+    aborted_at: null,
+    abort_reason: null,
+    merge_started_at: null,
+    merged_at: null,
+    merge_error: null,
+    frame_count: 0,
+    frame_bytes: 0,
+    created_at: '2025-06-03T09:59:00.000Z',
+    updated_at: '2025-06-03T10:06:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('session transitions', () => {
+  it('follows the recording lifecycle', () => {
+    expect(canTransition('created', 'recording')).toBe(true);
+    expect(canTransition('recording', 'completed')).toBe(true);
+    expect(canTransition('completed', 'merging')).toBe(true);
+    expect(canTransition('merging', 'merged')).toBe(true);
+  });
+
+  it('allows aborting only before completion', () => {
+    expect(canTransition('created', 'aborted')).toBe(true);
+    expect(canTransition('recording', 'aborted')).toBe(true);
+    expect(canTransition('completed', 'aborted')).toBe(false);
+    expect(canTransition('merged', 'aborted')).toBe(false);
+  });
+
+  it('lets a failed merge be retried but never reopens finished sessions', () => {
+    expect(canTransition('failed', 'merging')).toBe(true);
+    expect(canTransition('merged', 'merging')).toBe(false);
+    expect(canTransition('aborted', 'recording')).toBe(false);
+    expect(canTransition('created', 'completed')).toBe(false);
+  });
+});
+
+describe('isSessionStale', () => {
+  const lastHeartbeat = new Date('2025-06-03T10:05:00.000Z').getTime();
+
+  it('flags active sessions past the heartbeat timeout', () => {
+    const session = makeSession({ status: 'recording' });
+    expect(isSessionStale(session, lastHeartbeat + SESSION_HEARTBEAT_TIMEOUT_MS - 1)).toBe(false);
+    expect(isSessionStale(session, lastHeartbeat + SESSION_HEARTBEAT_TIMEOUT_MS + 1)).toBe(true);
+  });
+
+  it('falls back to creation time when no heartbeat was sent', () => {
+    const session = makeSession({ status: 'created', started_at: null, last_heartbeat_at: null });
+    const created = new Date(session.created_at).getTime();
+    expect(isSessionStale(session, created + SESSION_HEARTBEAT_TIMEOUT_MS + 1)).toBe(true);
+  });
+
+  it('never flags sessions that are no longer recording', () => {
+    expect(isSessionStale(makeSession({ status: 'completed' }), lastHeartbeat + 10 * SESSION_HEARTBEAT_TIMEOUT_MS)).toBe(false);
+  });
+});
+
+describe('getMergeReadiness', () => {
+  const readyVideo = { mux_processing_status: 'ready', transcript_processing_status: 'completed' };
+
+  it('is ready once the session is completed and the video is finished', () => {
+    expect(getMergeReadiness(makeSession(), readyVideo)).toEqual({ ready: true });
+  });
+
+  it('merges without a transcript when transcription failed', () => {
+    expect(getMergeReadiness(makeSession(), { ...readyVideo, transcript_processing_status: 'error' }).ready).toBe(true);
+  });
+
+  it('waits for the client to complete the session', () => {
+    const readiness = getMergeReadiness(makeSession({ status: 'recording' }), readyVideo);
+    expect(readiness).toEqual({ ready: false, reason: 'session is recording' });
+    expect(getMergeReadiness(makeSession({ scratch_done: false }), readyVideo).ready).toBe(false);
+  });
+
+  it('waits for Mux and transcription', () => {
+    expect(getMergeReadiness(makeSession(), null).ready).toBe(false);
+    expect(getMergeReadiness(makeSession(), { ...readyVideo, mux_processing_status: 'preparing' }).ready).toBe(false);
+    expect(getMergeReadiness(makeSession(), { ...readyVideo, transcript_processing_status: 'processing' }).ready).toBe(false);
+  });
+
+  it('does not merge twice', () => {
+    expect(getMergeReadiness(makeSession({ status: 'merging' }), readyVideo).ready).toBe(false);
+    expect(getMergeReadiness(makeSession({ status: 'merged' }), readyVideo).ready).toBe(false);
+  });
+});
+
+describe('isSessionId', () => {
+  it('accepts server-issued UUIDs only', () => {
+    expect(isSessionId('6f1c1d4e-8a0b-4c57-9f3e-2b7a0d4c9e11')).toBe(true);
+    expect(isSessionId('manual_1717400000000')).toBe(false);
+    expect(isSessionId(null)).toBe(false);
+  });
+});
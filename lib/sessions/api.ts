@@ -0,0 +1,59 @@
+/**
+ * Shared request handling for the /api/session/* lifecycle routes
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { withAuth, resolveRequestScope } from '@/lib/api/auth';
+import { badRequestResponse, errorResponse, notFoundResponse } from '@/lib/api/response';
+import { parseJsonBody, validateInput, ValidationError } from '@/lib/api/validation';
+import { getSession, RecordingSession, SessionStateError } from './index';
+
+const SessionActionSchema = z.object({
+  sessionId: z.string().uuid({ message: 'sessionId must be a UUID' }),
+}).passthrough();
+
+export interface SessionActionContext {
+  session: RecordingSession;
+  supabase: SupabaseClient;
+  userId: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Wraps a lifecycle route: authenticates, loads the caller's session named by `sessionId`
+ * in the JSON body, and maps invalid transitions to 409 responses.
+ */
+export function withSessionAction(
+  logPrefix: string,
+  handler: (context: SessionActionContext) => Promise<Response>
+) {
+  return withAuth(async (request: Request) => {
+    try {
+      const scope = await resolveRequestScope(request);
+      if (!scope) {
+        return badRequestResponse('user_id query parameter is required when using an API key');
+      }
+
+      const body = await validateInput(await parseJsonBody(request), SessionActionSchema);
+      const session = await getSession(scope.supabase, body.sessionId, scope.userId);
+      if (!session) {
+        return notFoundResponse('Session not found');
+      }
+
+      return await handler({ session, supabase: scope.supabase, userId: scope.userId, body });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return badRequestResponse(error.message, error.details);
+      }
+      if (error instanceof SessionStateError) {
+        return errorResponse(error.message, 409, { status: error.status });
+      }
+      console.error(`[${logPrefix}] Error:`, error);
+      return errorResponse(
+        'Failed to update session',
+        500,
+        { details: error instanceof Error ? error.message : 'Unknown error' }
+      );
+    }
+  });
+}
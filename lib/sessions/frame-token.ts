@@ -0,0 +1,139 @@
+/**
+ * Frame upload tokens and per-session frame limits
+ *
+ * /api/frame is called by the camera every couple of seconds and runs the vision model
+ * with the service-role client, so it cannot trust IDs from the query string. When a
+ * recording starts the server issues a short-lived HS256 token scoped to the user and
+ * session; heartbeats hand out a fresh one. Each accepted frame is then counted against
+ * the session's frame and byte limits by `record_session_frame`.
+ */
+import jwt from 'jsonwebtoken';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const FRAME_TOKEN_AUDIENCE = 'padlox:frame';
+
+/** Long enough to survive a missed heartbeat or two, short enough to be useless if leaked */
+export const FRAME_TOKEN_TTL_SECONDS = 5 * 60;
+
+export interface FrameTokenClaims {
+  userId: string;
+  sessionId: string;
+}
+
+export interface IssuedFrameToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Raised when a frame token is missing, malformed, expired or signed with another key
+ */
+export class FrameTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameTokenError';
+  }
+}
+
+function getFrameTokenSecret(): string {
+  const secret = process.env.FRAME_TOKEN_SECRET || process.env.API_SECRET_KEY;
+  if (!secret) {
+    throw new Error('FRAME_TOKEN_SECRET (or API_SECRET_KEY) must be set to issue frame tokens');
+  }
+  return secret;
+}
+
+export function issueFrameToken(claims: FrameTokenClaims, now = Date.now()): IssuedFrameToken {
+  const issuedAt = Math.floor(now / 1000);
+  const expiresAt = issuedAt + FRAME_TOKEN_TTL_SECONDS;
+  const token = jwt.sign(
+    { sid: claims.sessionId, iat: issuedAt, exp: expiresAt },
+    getFrameTokenSecret(),
+    { algorithm: 'HS256', audience: FRAME_TOKEN_AUDIENCE, subject: claims.userId }
+  );
+  return { token, expiresAt: new Date(expiresAt * 1000).toISOString() };
+}
+
+export function verifyFrameToken(token: string | null | undefined, now = Date.now()): FrameTokenClaims {
+  if (!token) throw new FrameTokenError('Missing frame token');
+
+  let payload: string | jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, getFrameTokenSecret(), {
+      algorithms: ['HS256'],
+      audience: FRAME_TOKEN_AUDIENCE,
+      clockTimestamp: Math.floor(now / 1000),
+    });
+  } catch (error) {
+    throw new FrameTokenError(error instanceof Error ? error.message : 'Invalid frame token');
+  }
+
+  if (typeof payload === 'string' || typeof payload.sub !== 'string' || typeof payload.sid !== 'string') {
+    throw new FrameTokenError('Frame token is missing its user or session');
+  }
+  return { userId: payload.sub, sessionId: payload.sid };
+}
+
+/**
+ * Reads the token from `Authorization: Bearer <token>`
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.substring(7) : null;
+}
+
+export interface FrameLimits {
+  maxFramesPerSession: number;
+  maxBytesPerSession: number;
+  maxFrameBytes: number;
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Defaults allow an hour of recording at one frame every two seconds
+ */
+export function getFrameLimits(): FrameLimits {
+  return {
+    maxFramesPerSession: positiveIntFromEnv('FRAME_MAX_PER_SESSION', 1800),
+    maxBytesPerSession: positiveIntFromEnv('FRAME_MAX_BYTES_PER_SESSION', 250 * 1024 * 1024),
+    maxFrameBytes: positiveIntFromEnv('FRAME_MAX_BYTES', 2 * 1024 * 1024),
+  };
+}
+
+export type FrameRejection = 'session_not_found' | 'not_recording' | 'frame_limit' | 'byte_limit';
+
+export type FrameAccounting =
+  | { accepted: true; frameCount: number; frameBytes: number }
+  | { accepted: false; reason: FrameRejection; frameCount: number; frameBytes: number };
+
+/**
+ * Counts a frame against its session, atomically. Call with the service-role client.
+ */
+export async function recordSessionFrame(
+  client: SupabaseClient,
+  claims: FrameTokenClaims,
+  bytes: number,
+  limits: FrameLimits = getFrameLimits()
+): Promise<FrameAccounting> {
+  const { data, error } = await client.rpc('record_session_frame', {
+    p_session_id: claims.sessionId,
+    p_user_id: claims.userId,
+    p_bytes: bytes,
+    p_max_frames: limits.maxFramesPerSession,
+    p_max_bytes: limits.maxBytesPerSession,
+  });
+  if (error) throw new Error(`Failed to record frame: ${error.message}`);
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) throw new Error('record_session_frame returned no result');
+
+  const frameCount = Number(row.frame_count);
+  const frameBytes = Number(row.frame_bytes);
+  return row.accepted
+    ? { accepted: true, frameCount, frameBytes }
+    : { accepted: false, reason: (row.reason ?? 'session_not_found') as FrameRejection, frameCount, frameBytes };
+}
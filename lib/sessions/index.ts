@@ -0,0 +1,327 @@
+/**
+ * Recording sessions
+ *
+ * A session is created when the camera starts a streaming recording and tracks it through
+ * upload, frame analysis and merge. The merge of transcript and scratch items is queued once,
+ * when the client has completed the session and Mux has finished the video (asset ready
+ * and transcription settled), whichever happens last.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SessionsTable, SessionStatus } from '@/lib/db/schema';
+import { enqueueJob, kickJobWorker } from '@/lib/jobs';
+
+export type RecordingSession = SessionsTable['Row'];
+
+/**
+ * Allowed status transitions. `failed` can go back to `merging` so a merge can be retried.
+ */
+export const SESSION_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  created: ['recording', 'aborted'],
+  recording: ['completed', 'aborted'],
+  completed: ['merging'],
+  merging: ['merged', 'failed'],
+  failed: ['merging'],
+  merged: [],
+  aborted: [],
+};
+
+/** Statuses in which the client is still expected to send heartbeats */
+export const ACTIVE_SESSION_STATUSES: SessionStatus[] = ['created', 'recording'];
+
+/** Active sessions without a heartbeat for this long are treated as abandoned */
+export const SESSION_HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Raised when a session is not in a state that allows the requested operation
+ */
+export class SessionStateError extends Error {
+  status: SessionStatus;
+
+  constructor(message: string, status: SessionStatus) {
+    super(message);
+    this.name = 'SessionStateError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a value looks like a server-issued session ID (older clients send `manual_<ts>`)
+ */
+export function isSessionId(value: string | null | undefined): value is string {
+  return !!value && UUID_PATTERN.test(value);
+}
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return SESSION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether an active session has stopped sending heartbeats
+ */
+export function isSessionStale(session: RecordingSession, now = Date.now()): boolean {
+  if (!ACTIVE_SESSION_STATUSES.includes(session.status)) return false;
+  const lastSeen = session.last_heartbeat_at ?? session.started_at ?? session.created_at;
+  return now - new Date(lastSeen).getTime() > SESSION_HEARTBEAT_TIMEOUT_MS;
+}
+
+export async function getSession(
+  client: SupabaseClient,
+  sessionId: string,
+  userId?: string
+): Promise<RecordingSession | null> {
+  let query = client.from('sessions').select('*').eq('id', sessionId);
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw new Error(`Failed to load session: ${error.message}`);
+  return data as RecordingSession | null;
+}
+
+export async function findSessionForAsset(
+  client: SupabaseClient,
+  assetId: string
+): Promise<RecordingSession | null> {
+  const { data, error } = await client
+    .from('sessions')
+    .select('*')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load session for asset: ${error.message}`);
+  return data as RecordingSession | null;
+}
+
+/**
+ * Moves a session to a new status. The update is conditional on the status we read,
+ * so two callers racing for the same transition cannot both win.
+ */
+export async function transitionSession(
+  client: SupabaseClient,
+  session: RecordingSession,
+  to: SessionStatus,
+  patch: SessionsTable['Update'] = {}
+): Promise<RecordingSession> {
+  if (!canTransition(session.status, to)) {
+    throw new SessionStateError(`Cannot move session from ${session.status} to ${to}`, session.status);
+  }
+
+  const { data, error } = await client
+    .from('sessions')
+    .update({ ...patch, status: to })
+    .eq('id', session.id)
+    .eq('status', session.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to update session: ${error.message}`);
+  if (!data) {
+    throw new SessionStateError(`Session ${session.id} changed status concurrently`, session.status);
+  }
+  return data as RecordingSession;
+}
+
+export async function recordHeartbeat(
+  client: SupabaseClient,
+  session: RecordingSession
+): Promise<RecordingSession> {
+  if (!ACTIVE_SESSION_STATUSES.includes(session.status)) {
+    throw new SessionStateError(`Session is ${session.status} and no longer accepts heartbeats`, session.status);
+  }
+
+  const { data, error } = await client
+    .from('sessions')
+    .update({ last_heartbeat_at: new Date().toISOString() })
+    .eq('id', session.id)
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to record heartbeat: ${error.message}`);
+  return data as RecordingSession;
+}
+
+/**
+ * Aborts the user's sessions that stopped sending heartbeats (closed tab, crashed browser)
+ * so they do not linger as `recording`. Returns the number of sessions aborted.
+ */
+export async function abortStaleSessions(client: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await client
+    .from('sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ACTIVE_SESSION_STATUSES);
+
+  if (error) throw new Error(`Failed to load active sessions: ${error.message}`);
+
+  let aborted = 0;
+  for (const session of (data || []) as RecordingSession[]) {
+    if (!isSessionStale(session)) continue;
+    try {
+      await transitionSession(client, session, 'aborted', {
+        aborted_at: new Date().toISOString(),
+        abort_reason: 'heartbeat timeout',
+      });
+      aborted++;
+    } catch (transitionError) {
+      if (!(transitionError instanceof SessionStateError)) throw transitionError;
+    }
+  }
+  return aborted;
+}
+
+/**
+ * Records the Mux asset created from a session's upload (video.upload.asset_created)
+ */
+export async function linkSessionMuxAsset(
+  client: SupabaseClient,
+  muxUploadId: string,
+  muxAssetId: string
+): Promise<RecordingSession | null> {
+  const { data, error } = await client
+    .from('sessions')
+    .update({ mux_asset_id: muxAssetId })
+    .eq('mux_upload_id', muxUploadId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to link session to Mux asset: ${error.message}`);
+  return data as RecordingSession | null;
+}
+
+/**
+ * Points the session's scratch items at the final Mux asset so the merge can find them
+ */
+export async function attachScratchItemsToMuxAsset(
+  client: SupabaseClient,
+  session: RecordingSession,
+  muxAssetId: string
+): Promise<void> {
+  const { error } = await client
+    .from('scratch_items')
+    .update({ mux_asset_id: muxAssetId, user_id: session.user_id })
+    .eq('session_id', session.id);
+
+  if (error) throw new Error(`Failed to attach scratch items to Mux asset: ${error.message}`);
+}
+
+export interface SessionVideoState {
+  mux_processing_status: string | null;
+  transcript_processing_status: string | null;
+}
+
+export interface MergeReadiness {
+  ready: boolean;
+  reason?: string;
+}
+
+/**
+ * A session can be merged once the client completed it and Mux has finished the video:
+ * the asset is ready and transcription has either completed or failed (in which case
+ * the merge uses scratch items only).
+ */
+export function getMergeReadiness(
+  session: RecordingSession,
+  video: SessionVideoState | null
+): MergeReadiness {
+  if (session.status !== 'completed' && session.status !== 'failed') {
+    return { ready: false, reason: `session is ${session.status}` };
+  }
+  if (!session.scratch_done) {
+    return { ready: false, reason: 'frame analysis is still running' };
+  }
+  if (!video) {
+    return { ready: false, reason: 'session has no video asset' };
+  }
+  if (video.mux_processing_status !== 'ready') {
+    return { ready: false, reason: 'video is not ready on Mux' };
+  }
+  if (video.transcript_processing_status !== 'completed' && video.transcript_processing_status !== 'error') {
+    return { ready: false, reason: 'transcription has not finished' };
+  }
+  return { ready: true };
+}
+
+export interface SessionMergeResult {
+  triggered: boolean;
+  session: RecordingSession | null;
+  reason?: string;
+  jobId?: string;
+}
+
+/**
+ * Queues the merge for a session if it is ready and nobody else has started it.
+ * Safe to call from every event that might complete readiness (session complete,
+ * asset ready, transcription finished); only the first ready caller queues the merge.
+ * The merge job moves the session on to `merged` or `failed`.
+ */
+export async function triggerSessionMerge(
+  client: SupabaseClient,
+  sessionId: string
+): Promise<SessionMergeResult> {
+  const session = await getSession(client, sessionId);
+  if (!session) {
+    return { triggered: false, session: null, reason: 'session not found' };
+  }
+
+  let video: (SessionVideoState & { id: string; user_id: string }) | null = null;
+  if (session.asset_id) {
+    const { data, error } = await client
+      .from('assets')
+      .select('id, user_id, mux_processing_status, transcript_processing_status')
+      .eq('id', session.asset_id)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load session video: ${error.message}`);
+    video = data;
+  }
+
+  const readiness = getMergeReadiness(session, video);
+  if (!readiness.ready || !video) {
+    return { triggered: false, session, reason: readiness.reason };
+  }
+
+  let merging: RecordingSession;
+  try {
+    merging = await transitionSession(client, session, 'merging', {
+      merge_started_at: new Date().toISOString(),
+      merge_error: null,
+    });
+  } catch (error) {
+    if (error instanceof SessionStateError) {
+      return { triggered: false, session, reason: 'merge already started' };
+    }
+    throw error;
+  }
+
+  const job = await enqueueJob(client, {
+    type: 'merge',
+    payload: { asset_id: video.id, session_id: session.id },
+    idempotencyKey: `merge:session:${session.id}`,
+    userId: video.user_id,
+    assetId: video.id,
+    // A session only reaches `merging` again after a failed merge, so run it again
+    requeue: true,
+  });
+  kickJobWorker();
+  return { triggered: true, session: merging, jobId: job.id };
+}
+
+/**
+ * Called by the merge job when it succeeds
+ */
+export async function completeSessionMerge(client: SupabaseClient, sessionId: string): Promise<void> {
+  const session = await getSession(client, sessionId);
+  if (session?.status !== 'merging') return;
+  await transitionSession(client, session, 'merged', { merged_at: new Date().toISOString() });
+}
+
+/**
+ * Called by the merge job once it has run out of retries
+ */
+export async function failSessionMerge(client: SupabaseClient, sessionId: string, message: string): Promise<void> {
+  const session = await getSession(client, sessionId);
+  if (session?.status !== 'merging') return;
+  await transitionSession(client, session, 'failed', { merge_error: message });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildShareUrl,
+  createShareLink,
+  describeShareRequester,
+  generateShareToken,
+  getShareLinkStatus,
+  hashShareToken,
+  ShareLinkError,
+} from '../index';
+
+const now = new Date('2025-06-12T12:00:00.000Z');
+
+describe('share tokens', () => {
+  it('generates unguessable tokens and stores only their hash', () => {
+    const first = generateShareToken();
+    const second = generateShareToken();
+    expect(first.token).not.toBe(second.token);
+    expect(first.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first.tokenHash).toBe(hashShareToken(first.token));
+    expect(first.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('builds the public URL from the request origin', () => {
+    expect(buildShareUrl('https://padlox.io/', 'abc')).toBe('https://padlox.io/share/abc');
+  });
+});
+
+describe('getShareLinkStatus', () => {
+  it('treats revocation as final and expiry as exclusive', () => {
+    expect(getShareLinkStatus({ expires_at: '2025-06-13T00:00:00.000Z', revoked_at: null }, now)).toBe('active');
+    expect(getShareLinkStatus({ expires_at: now.toISOString(), revoked_at: null }, now)).toBe('expired');
+    expect(getShareLinkStatus({ expires_at: '2025-06-13T00:00:00.000Z', revoked_at: '2025-06-12T00:00:00.000Z' }, now)).toBe('revoked');
+  });
+});
+
+describe('createShareLink', () => {
+  // Invalid requests are refused before the database is touched
+  const client = {} as SupabaseClient;
+
+  it('rejects links scoped to both a room and a tag', async () => {
+    await expect(createShareLink(client, 'user-1', { roomId: 'room-1', tagId: 'tag-1' }, now))
+      .rejects.toBeInstanceOf(ShareLinkError);
+  });
+
+  it('caps how long a link can live', async () => {
+    await expect(createShareLink(client, 'user-1', { expiresInDays: 365 }, now)).rejects.toThrow(/within 90 days/);
+    await expect(createShareLink(client, 'user-1', { expiresInDays: 0 }, now)).rejects.toThrow(ShareLinkError);
+  });
+});
+
+describe('describeShareRequester', () => {
+  it('uses the first forwarded address', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Adjuster/1.0' });
+    expect(describeShareRequester(headers)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'Adjuster/1.0' });
+    expect(describeShareRequester(new Headers())).toEqual({ ipAddress: null, userAgent: null });
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Read-only share links for insurers and adjusters
+ *
+ * A household owner or editor creates a link to the household's inventory that expires, can be revoked at any time, and can be limited to
+ * one room or one tag. The link carries a random token; only its sha256 is stored, so the
+ * token is shown once at creation. Anyone holding it can open `/share/<token>` to see the
+ * items in scope with their values and thumbnails, and play the recordings they were found
+ * in through `/api/share/playback`, without a Padlox account. Each use is written to
+ * `share_link_access_log`, including attempts after the link expired or was revoked.
+ *
+ * The public side runs with a service client, so every query here filters by the link's
+ * household and scope explicitly.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createMuxTokens, getMuxThumbnailUrl } from '@/lib/mux';
+import { ShareLinkAccessOutcome, ShareLinkResource, ShareLinksTable } from '@/lib/db/schema';
+import { extractRoomName, extractTagNames } from '@/lib/reports/claim-report';
+import { canEditHousehold, getHouseholdRole, resolveActiveHousehold } from '@/lib/households';
+import {
+  calculateTotals,
+  DEFAULT_DEPRECIATION_RULES,
+  getActualCashValue,
+  getReplacementCost,
+  InventoryTotals,
+  loadDepreciationRules,
+} from '@/lib/valuation';
+
+export type ShareLink = ShareLinksTable['Row'];
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const SHARE_LINK_DEFAULT_DAYS = 14;
+export const SHARE_LINK_MAX_DAYS = 90; // Also enforced by the share_links_max_lifetime check
+
+export interface ShareScope {
+  type: 'room' | 'tag';
+  id: string;
+  name: string;
+}
+
+/** A link as listed to its owner; the token cannot be recovered */
+export interface ShareLinkSummary {
+  id: string;
+  label: string | null;
+  scope: ShareScope | null;
+  status: ShareLinkStatus;
+  expires_at: string;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  created_at: string;
+  /** Logged uses: page views and video plays, refused ones included */
+  access_count: number;
+}
+
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+export function generateShareToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashShareToken(token) };
+}
+
+export function getShareLinkStatus(link: Pick<ShareLink, 'expires_at' | 'revoked_at'>, now = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function buildShareUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/$/, '')}/share/${token}`;
+}
+
+const SHARE_LINK_SELECT = '*, rooms(id, name), tags(id, name), share_link_access_log(count)';
+
+interface ShareLinkRow extends ShareLink {
+  rooms: { id: string; name: string } | null;
+  tags: { id: string; name: string } | null;
+  share_link_access_log?: Array<{ count: number }>;
+}
+
+function toScope(row: ShareLinkRow): ShareScope | null {
+  if (row.room_id) return { type: 'room', id: row.room_id, name: row.rooms?.name ?? 'Room' };
+  if (row.tag_id) return { type: 'tag', id: row.tag_id, name: row.tags?.name ?? 'Tag' };
+  return null;
+}
+
+function toSummary(row: ShareLinkRow, now = new Date()): ShareLinkSummary {
+  return {
+    id: row.id,
+    label: row.label,
+    scope: toScope(row),
+    status: getShareLinkStatus(row, now),
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    last_accessed_at: row.last_accessed_at,
+    created_at: row.created_at,
+    access_count: row.share_link_access_log?.[0]?.count ?? 0,
+  };
+}
+
+/**
+ * Raised when a link cannot be created as requested; `status` is the HTTP status to return
+ */
+export class ShareLinkError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export interface CreateShareLinkOptions {
+  label?: string | null;
+  roomId?: string | null;
+  tagId?: string | null;
+  expiresInDays?: number;
+}
+
+/**
+ * Creates a link and returns it with its token. The token is not stored and cannot be shown
+ * again.
+ */
+export async function createShareLink(
+  client: SupabaseClient,
+  userId: string,
+  options: CreateShareLinkOptions = {},
+  now = new Date()
+): Promise<{ link: ShareLinkSummary; token: string }> {
+  if (options.roomId && options.tagId) {
+    throw new ShareLinkError('A share link can be limited to a room or a tag, not both');
+  }
+  const days = options.expiresInDays ?? SHARE_LINK_DEFAULT_DAYS;
+  if (!(days > 0) || days > SHARE_LINK_MAX_DAYS) {
+    throw new ShareLinkError(`Share links must expire within ${SHARE_LINK_MAX_DAYS} days`);
+  }
+
+  // Links share the creator's active household
+  const { active: household } = await resolveActiveHousehold(client, userId);
+  if (!household || !canEditHousehold(household.role)) {
+    throw new ShareLinkError('Only household owners and editors can create share links', 403);
+  }
+
+  // The foreign keys only check that the room or tag exists, not whose it is
+  const scopeTable = options.roomId ? 'rooms' : options.tagId ? 'tags' : null;
+  if (scopeTable) {
+    const { data: scope, error: scopeError } = await client
+      .from(scopeTable)
+      .select('id')
+      .eq('id', (options.roomId ?? options.tagId)!)
+      .eq('household_id', household.id)
+      .maybeSingle();
+    if (scopeError) throw new Error(`Failed to load ${scopeTable}: ${scopeError.message}`);
+    if (!scope) throw new ShareLinkError(`${scopeTable === 'rooms' ? 'Room' : 'Tag'} not found`, 404);
+  }
+
+  const { token, tokenHash } = generateShareToken();
+  const { data, error } = await client
+    .from('share_links')
+    .insert({
+      user_id: userId,
+      household_id: household.id,
+      token_hash: tokenHash,
+      label: options.label?.trim() || null,
+      room_id: options.roomId ?? null,
+      tag_id: options.tagId ?? null,
+      expires_at: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select(SHARE_LINK_SELECT)
+    .single();
+  if (error) throw new Error(`Failed to create share link: ${error.message}`);
+  return { link: toSummary(data as ShareLinkRow, now), token };
+}
+
+/**
+ * The links of the user's active household, whoever made them, newest first, with how often
+ * each was used. Only owners and editors can see them.
+ */
+export async function listShareLinks(client: SupabaseClient, userId: string, now = new Date()): Promise<ShareLinkSummary[]> {
+  const { active: household } = await resolveActiveHousehold(client, userId);
+  if (!household) return [];
+  if (!canEditHousehold(household.role)) {
+    throw new ShareLinkError('Only household owners and editors can manage share links', 403);
+  }
+
+  const { data, error } = await client
+    .from('share_links')
+    .select(SHARE_LINK_SELECT)
+    .eq('household_id', household.id)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load share links: ${error.message}`);
+  return ((data || []) as ShareLinkRow[]).map((row) => toSummary(row, now));
+}
+
+/**
+ * Revokes a link of a household the user can edit; revoking it again keeps the original
+ * time. Returns null if there is no such link.
+ */
+export async function revokeShareLink(
+  client: SupabaseClient,
+  userId: string,
+  linkId: string,
+  now = new Date()
+): Promise<ShareLinkSummary | null> {
+  const { data: link, error: linkError } = await client
+    .from('share_links')
+    .select('household_id')
+    .eq('id', linkId)
+    .maybeSingle();
+  if (linkError) throw new Error(`Failed to load share link: ${linkError.message}`);
+  if (!link) return null;
+  // API-key requests use the service client, so the household is checked here, not only by RLS
+  if (!canEditHousehold(await getHouseholdRole(client, userId, link.household_id))) return null;
+
+  const { error } = await client
+    .from('share_links')
+    .update({ revoked_at: now.toISOString() })
+    .eq('id', linkId)
+    .eq('household_id', link.household_id)
+    .is('revoked_at', null);
+  if (error) throw new Error(`Failed to revoke share link: ${error.message}`);
+
+  const { data, error: loadError } = await client
+    .from('share_links')
+    .select(SHARE_LINK_SELECT)
+    .eq('id', linkId)
+    .maybeSingle();
+  if (loadError) throw new Error(`Failed to load share link: ${loadError.message}`);
+  return data ? toSummary(data as ShareLinkRow, now) : null;
+}
+
+/**
+ * Looks a token up; null when no link has it. Expired and revoked links are returned with
+ * their status so the attempt can be logged.
+ */
+export async function resolveShareLink(
+  client: SupabaseClient,
+  token: string,
+  now = new Date()
+): Promise<{ link: ShareLink; scope: ShareScope | null; status: ShareLinkStatus } | null> {
+  if (!token) return null;
+  const { data, error } = await client
+    .from('share_links')
+    .select('*, rooms(id, name), tags(id, name)')
+    .eq('token_hash', hashShareToken(token))
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load share link: ${error.message}`);
+  if (!data) return null;
+  const row = data as ShareLinkRow;
+  return { link: row, scope: toScope(row), status: getShareLinkStatus(row, now) };
+}
+
+export interface ShareAccess {
+  resource: ShareLinkResource;
+  outcome: ShareLinkAccessOutcome;
+  assetId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/** Who is using a link, from the request headers */
+export function describeShareRequester(headers: Headers): { ipAddress: string | null; userAgent: string | null } {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return {
+    ipAddress: forwarded || headers.get('x-real-ip') || null,
+    userAgent: headers.get('user-agent'),
+  };
+}
+
+/**
+ * Records one use of a link. Logging failures are reported but do not block the viewer,
+ * since the owner chose to share.
+ */
+export async function logShareAccess(client: SupabaseClient, link: ShareLink, access: ShareAccess, now = new Date()) {
+  const { error } = await client.from('share_link_access_log').insert({
+    share_link_id: link.id,
+    user_id: link.user_id,
+    resource: access.resource,
+    asset_id: access.assetId ?? null,
+    outcome: access.outcome,
+    ip_address: access.ipAddress ?? null,
+    user_agent: access.userAgent ?? null,
+    accessed_at: now.toISOString(),
+  });
+  if (error) {
+    console.error(`[Share] Failed to log access to link ${link.id}:`, error.message);
+    return;
+  }
+  if (access.outcome === 'granted') {
+    const { error: updateError } = await client
+      .from('share_links')
+      .update({ last_accessed_at: now.toISOString() })
+      .eq('id', link.id);
+    if (updateError) console.error(`[Share] Failed to update link ${link.id}:`, updateError.message);
+  }
+}
+
+/**
+ * IDs of the assets in a link's room or tag, or null when the link covers the whole inventory
+ */
+async function loadScopedAssetIds(client: SupabaseClient, link: ShareLink): Promise<string[] | null> {
+  if (link.room_id) {
+    const { data, error } = await client.from('asset_rooms').select('asset_id').eq('room_id', link.room_id);
+    if (error) throw new Error(`Failed to load room assets: ${error.message}`);
+    return (data || []).map((row) => row.asset_id as string);
+  }
+  if (link.tag_id) {
+    const { data, error } = await client.from('asset_tags').select('asset_id').eq('tag_id', link.tag_id);
+    if (error) throw new Error(`Failed to load tagged assets: ${error.message}`);
+    return (data || []).map((row) => row.asset_id as string);
+  }
+  return null;
+}
+
+export interface SharedItem {
+  id: string;
+  name: string;
+  description: string | null;
+  media_type: 'image' | 'item';
+  room: string | null;
+  tags: string[];
+  category: string | null;
+  purchase_date: string | null;
+  purchase_price: number | null;
+  serial_number: string | null;
+  model_number: string | null;
+  replacement_cost: number | null;
+  actual_cash_value: number | null;
+  created_at: string;
+  thumbnail_url: string | null;
+  /** Recording the item was found in; play it through `/api/share/playback` */
+  mux_playback_id: string | null;
+  item_timestamp: number | null;
+}
+
+export interface SharedInventory {
+  label: string | null;
+  scope: ShareScope | null;
+  expires_at: string;
+  generated_at: string;
+  items: SharedItem[];
+  totals: InventoryTotals;
+}
+
+interface SharedAssetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  media_type: 'image' | 'item';
+  media_url: string | null;
+  estimated_value: number | null;
+  purchase_price: number | null;
+  purchase_date: string | null;
+  category: string | null;
+  serial_number: string | null;
+  model_number: string | null;
+  created_at: string;
+  mux_playback_id: string | null;
+  item_timestamp: number | null;
+  thumbnail_url: string | null;
+  asset_rooms: unknown;
+  asset_tags: unknown;
+}
+
+/**
+ * Mux identifies viewers by customer ID; tie playback to the link, not to the owner
+ */
+export function shareViewerId(link: Pick<ShareLink, 'id'>): string {
+  return `share:${link.id}`;
+}
+
+async function resolveSharedThumbnail(row: SharedAssetRow, link: ShareLink): Promise<string | null> {
+  if (row.thumbnail_url) return row.thumbnail_url;
+  if (row.media_type === 'item' && row.mux_playback_id) {
+    try {
+      const tokens = await createMuxTokens(row.mux_playback_id, shareViewerId(link), row.item_timestamp ?? 0);
+      return getMuxThumbnailUrl(row.mux_playback_id, tokens.thumbnail);
+    } catch (error) {
+      console.warn(`[Share] Could not sign thumbnail for asset ${row.id}:`, error);
+      return null;
+    }
+  }
+  if (row.media_type === 'image' && row.media_url) {
+    return row.media_url.startsWith('http')
+      ? row.media_url
+      : `https://${process.env.NEXT_PUBLIC_AWS_BUCKET_NAME}.s3.${process.env.NEXT_PUBLIC_AWS_REGION}.amazonaws.com/${row.media_url}`;
+  }
+  return null;
+}
+
+/**
+ * The items a link covers, with values under the owner's depreciation rules
+ */
+export async function loadSharedInventory(
+  client: SupabaseClient,
+  link: ShareLink,
+  scope: ShareScope | null,
+  now = new Date()
+): Promise<SharedInventory> {
+  const scopedIds = await loadScopedAssetIds(client, link);
+  let rows: SharedAssetRow[] = [];
+  if (scopedIds === null || scopedIds.length > 0) {
+    let query = client
+      .from('assets')
+      .select(`
+        id, name, description, media_type, media_url, estimated_value, purchase_price, purchase_date,
+        category, serial_number, model_number, created_at, mux_playback_id, item_timestamp, thumbnail_url,
+        asset_rooms(
+          rooms(*)
+        ),
+        asset_tags(
+          tags(*)
+        )
+      `)
+      .eq('household_id', link.household_id)
+      .eq('review_status', 'accepted')
+      .in('media_type', ['item', 'image'])
+      .order('created_at', { ascending: true });
+    if (scopedIds) query = query.in('id', scopedIds);
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load shared items: ${error.message}`);
+    rows = (data || []) as SharedAssetRow[];
+  }
+
+  const rules = await loadDepreciationRules(client, link.household_id).catch((rulesError) => {
+    console.warn('[Share] Could not load depreciation rules, using defaults:', rulesError);
+    return DEFAULT_DEPRECIATION_RULES;
+  });
+
+  const items = await Promise.all(rows.map(async (row): Promise<SharedItem> => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    media_type: row.media_type,
+    room: extractRoomName(row.asset_rooms),
+    tags: extractTagNames(row.asset_tags),
+    category: row.category,
+    purchase_date: row.purchase_date,
+    purchase_price: row.purchase_price,
+    serial_number: row.serial_number,
+    model_number: row.model_number,
+    replacement_cost: getReplacementCost(row),
+    actual_cash_value: getActualCashValue(row, rules, now.getTime()),
+    created_at: row.created_at,
+    thumbnail_url: await resolveSharedThumbnail(row, link),
+    mux_playback_id: row.mux_playback_id,
+    item_timestamp: row.item_timestamp,
+  })));
+
+  return {
+    label: link.label,
+    scope,
+    expires_at: link.expires_at,
+    generated_at: now.toISOString(),
+    items,
+    totals: calculateTotals(rows, rules, now.getTime()),
+  };
+}
+
+/**
+ * Signed Mux tokens for a recording in the link's scope, or null when no item in scope was
+ * found in it
+ */
+export async function createSharedPlaybackTokens(
+  client: SupabaseClient,
+  link: ShareLink,
+  assetId: string,
+  time?: number
+): Promise<{ playbackId: string; tokens: Awaited<ReturnType<typeof createMuxTokens>> } | null> {
+  const scopedIds = await loadScopedAssetIds(client, link);
+  if (scopedIds && !scopedIds.includes(assetId)) return null;
+
+  const { data: asset, error } = await client
+    .from('assets')
+    .select('id, mux_playback_id')
+    .eq('id', assetId)
+    .eq('household_id', link.household_id)
+    .eq('review_status', 'accepted')
+    .in('media_type', ['item', 'image'])
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load shared asset: ${error.message}`);
+  if (!asset?.mux_playback_id) return null;
+
+  return {
+    playbackId: asset.mux_playback_id,
+    tokens: await createMuxTokens(asset.mux_playback_id, shareViewerId(link), time),
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_USAGE_LIMITS,
+  getMonthStart,
+  getNextMonthStart,
+  resolveUsageLimits,
+  summarizeUsage,
+  usageLimitResponse,
+  usageUnits,
+  UsageTotalsRow,
+} from '../index';
+
+const ROWS: UsageTotalsRow[] = [
+  { kind: 'vision', operation: 'process_frame', events: 120, input_tokens: 90000, output_tokens: 12000, bytes: 24000000, duration_seconds: 0 },
+  { kind: 'llm', operation: 'analyze_transcript', events: 2, input_tokens: 8000, output_tokens: 1500, bytes: 0, duration_seconds: 0 },
+  { kind: 'llm', operation: 'merge_with_scratch', events: 1, input_tokens: 6000, output_tokens: 500, bytes: 0, duration_seconds: 0 },
+  { kind: 'transcription', operation: 'transcribe', events: 1, input_tokens: 0, output_tokens: 0, bytes: 0, duration_seconds: 150 },
+];
+
+describe('usageUnits', () => {
+  it('counts frames, tokens and minutes', () => {
+    expect(usageUnits('vision', ROWS[0])).toBe(120);
+    expect(usageUnits('llm', ROWS[1])).toBe(9500);
+    expect(usageUnits('transcription', ROWS[3])).toBe(2.5);
+  });
+});
+
+describe('resolveUsageLimits', () => {
+  it('applies overrides on top of the defaults', () => {
+    const limits = resolveUsageLimits([{ kind: 'llm', monthly_quota: 5000, per_minute_limit: null }]);
+    expect(limits.llm).toEqual({ monthlyQuota: 5000, perMinuteLimit: null });
+    expect(limits.vision).toEqual(DEFAULT_USAGE_LIMITS.vision);
+    expect(DEFAULT_USAGE_LIMITS.llm.monthlyQuota).toBe(2000000);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals each kind against its quota', () => {
+    const summary = summarizeUsage(ROWS, resolveUsageLimits([{ kind: 'llm', monthly_quota: 10000, per_minute_limit: 5 }]));
+
+    expect(summary.llm).toMatchObject({
+      unit: 'tokens',
+      used: 16000,
+      quota: 10000,
+      remaining: 0,
+      perMinuteLimit: 5,
+      events: 3,
+      operations: { analyze_transcript: 2, merge_with_scratch: 1 },
+    });
+    expect(summary.vision.remaining).toBe(DEFAULT_USAGE_LIMITS.vision.monthlyQuota! - 120);
+    expect(summary.video).toMatchObject({ used: 0, events: 0, operations: {} });
+  });
+});
+
+describe('month boundaries', () => {
+  it('uses UTC calendar months', () => {
+    const now = Date.parse('2025-12-31T23:30:00Z');
+    expect(getMonthStart(now).toISOString()).toBe('2025-12-01T00:00:00.000Z');
+    expect(getNextMonthStart(now).toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+});
+
+describe('usageLimitResponse', () => {
+  it('answers 429 with Retry-After', async () => {
+    const response = usageLimitResponse({
+      allowed: false,
+      kind: 'vision',
+      reason: 'rate_limit',
+      limit: 60,
+      used: 60,
+      retryAfterSeconds: 12,
+    });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(await response.json()).toMatchObject({ details: { kind: 'vision', reason: 'rate_limit' } });
+  });
+});
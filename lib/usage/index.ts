@@ -0,0 +1,313 @@
+/**
+ * Usage metering, quotas and rate limits
+ *
+ * Every billable provider call is recorded in `usage_events`: vision calls per frame, LLM
+ * calls with their token counts, Deepgram transcriptions with the audio duration and Mux
+ * uploads with the video duration. Routes that trigger provider work check
+ * `checkUsageLimit` first and answer 429 when the user is over their per-minute rate limit
+ * or monthly quota. Defaults are below; `usage_limits` overrides them per user.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { LanguageModelUsage } from 'ai';
+import { UsageEventsTable, UsageKind, UsageLimitsTable } from '@/lib/db/schema';
+import { tooManyRequestsResponse } from '@/lib/api/response';
+
+export const USAGE_KINDS: readonly UsageKind[] = ['vision', 'llm', 'transcription', 'video'];
+
+/** What the quota for each kind counts */
+export const USAGE_UNITS: Record<UsageKind, string> = {
+  vision: 'frames',
+  llm: 'tokens',
+  transcription: 'minutes',
+  video: 'minutes',
+};
+
+export interface UsageLimit {
+  /** Units per calendar month (UTC); null for no quota */
+  monthlyQuota: number | null;
+  /** Metered calls in any 60-second window; null for no rate limit */
+  perMinuteLimit: number | null;
+}
+
+export type UsageLimits = Record<UsageKind, UsageLimit>;
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  vision: { monthlyQuota: 20000, perMinuteLimit: 60 },
+  llm: { monthlyQuota: 2000000, perMinuteLimit: 30 },
+  transcription: { monthlyQuota: 600, perMinuteLimit: 10 },
+  video: { monthlyQuota: 600, perMinuteLimit: 10 },
+};
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export function isUsageKind(value: unknown): value is UsageKind {
+  return typeof value === 'string' && (USAGE_KINDS as readonly string[]).includes(value);
+}
+
+/** `USAGE_LIMITS_ENABLED=false` keeps metering but stops enforcing limits */
+export function areUsageLimitsEnabled(): boolean {
+  return process.env.USAGE_LIMITS_ENABLED !== 'false';
+}
+
+export interface UsageEventInput {
+  userId: string;
+  kind: UsageKind;
+  operation: string;
+  provider?: string | null;
+  model?: string | null;
+  inputTokens?: number;
+  outputTokens?: number;
+  bytes?: number;
+  durationSeconds?: number;
+  assetId?: string | null;
+  /** Usage with the same key is only recorded once (webhook replays, job retries) */
+  dedupeKey?: string;
+}
+
+function count(value: number | undefined): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Records a usage event. Metering never fails the work it measures, so errors are only logged.
+ */
+export async function recordUsage(client: SupabaseClient, event: UsageEventInput): Promise<void> {
+  const row: UsageEventsTable['Insert'] = {
+    user_id: event.userId,
+    kind: event.kind,
+    operation: event.operation,
+    provider: event.provider ?? null,
+    model: event.model ?? null,
+    input_tokens: Math.round(count(event.inputTokens)),
+    output_tokens: Math.round(count(event.outputTokens)),
+    bytes: Math.round(count(event.bytes)),
+    duration_seconds: count(event.durationSeconds),
+    asset_id: event.assetId ?? null,
+    dedupe_key: event.dedupeKey ?? null,
+  };
+
+  const { error } = event.dedupeKey
+    ? await client.from('usage_events').upsert(row, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+    : await client.from('usage_events').insert(row);
+  if (error) {
+    console.warn(`[Usage] Could not record ${event.kind} usage for ${event.operation}:`, error.message);
+  }
+}
+
+/**
+ * Records a model call made through `generateObjectForTask`
+ */
+export async function recordModelUsage(
+  client: SupabaseClient,
+  event: Omit<UsageEventInput, 'provider' | 'model' | 'inputTokens' | 'outputTokens'>,
+  result: { model: { provider: string; modelId: string }; usage?: LanguageModelUsage }
+): Promise<void> {
+  await recordUsage(client, {
+    ...event,
+    provider: result.model.provider,
+    model: result.model.modelId || null,
+    inputTokens: result.usage?.promptTokens,
+    outputTokens: result.usage?.completionTokens,
+  });
+}
+
+export function getMonthStart(now = Date.now()): Date {
+  const date = new Date(now);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export function getNextMonthStart(now = Date.now()): Date {
+  const date = new Date(now);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Applies a user's stored overrides on top of the defaults
+ */
+export function resolveUsageLimits(
+  overrides: Pick<UsageLimitsTable['Row'], 'kind' | 'monthly_quota' | 'per_minute_limit'>[] = []
+): UsageLimits {
+  const limits = { ...DEFAULT_USAGE_LIMITS };
+  for (const override of overrides) {
+    if (!isUsageKind(override.kind)) continue;
+    limits[override.kind] = {
+      monthlyQuota: override.monthly_quota != null ? Number(override.monthly_quota) : null,
+      perMinuteLimit: override.per_minute_limit != null ? Number(override.per_minute_limit) : null,
+    };
+  }
+  return limits;
+}
+
+export async function loadUsageLimits(client: SupabaseClient, userId: string): Promise<UsageLimits> {
+  const { data, error } = await client
+    .from('usage_limits')
+    .select('kind, monthly_quota, per_minute_limit')
+    .eq('user_id', userId);
+  if (error) throw new Error(`Failed to load usage limits: ${error.message}`);
+  return resolveUsageLimits(data || []);
+}
+
+export interface UsageTotalsRow {
+  kind: UsageKind;
+  operation: string;
+  events: number;
+  input_tokens: number;
+  output_tokens: number;
+  bytes: number;
+  duration_seconds: number;
+}
+
+export async function loadUsageTotals(
+  client: SupabaseClient,
+  userId: string,
+  since: Date,
+  until?: Date
+): Promise<UsageTotalsRow[]> {
+  const { data, error } = await client.rpc('usage_totals', {
+    p_user_id: userId,
+    p_since: since.toISOString(),
+    p_until: until?.toISOString() ?? null,
+  });
+  if (error) throw new Error(`Failed to load usage totals: ${error.message}`);
+  return (data || []) as UsageTotalsRow[];
+}
+
+/**
+ * Quota units used by a set of events of one kind (see `USAGE_UNITS`)
+ */
+export function usageUnits(kind: UsageKind, totals: Pick<UsageTotalsRow, 'events' | 'input_tokens' | 'output_tokens' | 'duration_seconds'>): number {
+  switch (kind) {
+    case 'vision':
+      return Number(totals.events);
+    case 'llm':
+      return Number(totals.input_tokens) + Number(totals.output_tokens);
+    case 'transcription':
+    case 'video':
+      return Math.round((Number(totals.duration_seconds) / 60) * 100) / 100;
+  }
+}
+
+export interface UsageKindSummary {
+  unit: string;
+  used: number;
+  quota: number | null;
+  remaining: number | null;
+  perMinuteLimit: number | null;
+  events: number;
+  inputTokens: number;
+  outputTokens: number;
+  bytes: number;
+  durationSeconds: number;
+  /** Events per pipeline step, e.g. `{ process_frame: 120 }` */
+  operations: Record<string, number>;
+}
+
+export function summarizeUsage(rows: UsageTotalsRow[], limits: UsageLimits): Record<UsageKind, UsageKindSummary> {
+  const summary = {} as Record<UsageKind, UsageKindSummary>;
+  for (const kind of USAGE_KINDS) {
+    const kindRows = rows.filter((row) => row.kind === kind);
+    const totals = kindRows.reduce(
+      (sum, row) => ({
+        events: sum.events + Number(row.events),
+        input_tokens: sum.input_tokens + Number(row.input_tokens),
+        output_tokens: sum.output_tokens + Number(row.output_tokens),
+        bytes: sum.bytes + Number(row.bytes),
+        duration_seconds: sum.duration_seconds + Number(row.duration_seconds),
+      }),
+      { events: 0, input_tokens: 0, output_tokens: 0, bytes: 0, duration_seconds: 0 }
+    );
+    const used = usageUnits(kind, totals);
+    const { monthlyQuota, perMinuteLimit } = limits[kind];
+
+    summary[kind] = {
+      unit: USAGE_UNITS[kind],
+      used,
+      quota: monthlyQuota,
+      remaining: monthlyQuota != null ? Math.max(0, monthlyQuota - used) : null,
+      perMinuteLimit,
+      events: totals.events,
+      inputTokens: totals.input_tokens,
+      outputTokens: totals.output_tokens,
+      bytes: totals.bytes,
+      durationSeconds: totals.duration_seconds,
+      operations: Object.fromEntries(kindRows.map((row) => [row.operation, Number(row.events)])),
+    };
+  }
+  return summary;
+}
+
+export type UsageCheck =
+  | { allowed: true }
+  | { allowed: false; kind: UsageKind; reason: 'rate_limit' | 'quota'; limit: number; used: number; retryAfterSeconds: number };
+
+/**
+ * Whether the user may make another metered call of this kind right now
+ */
+export async function checkUsageLimit(
+  client: SupabaseClient,
+  userId: string,
+  kind: UsageKind,
+  now = Date.now()
+): Promise<UsageCheck> {
+  if (!areUsageLimitsEnabled()) return { allowed: true };
+
+  const { perMinuteLimit, monthlyQuota } = (await loadUsageLimits(client, userId))[kind];
+
+  if (perMinuteLimit != null) {
+    const windowStart = new Date(now - RATE_WINDOW_MS).toISOString();
+    const { data: recent, error } = await client
+      .from('usage_events')
+      .select('created_at')
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .gte('created_at', windowStart)
+      .order('created_at', { ascending: true })
+      .limit(perMinuteLimit + 1);
+    if (error) throw new Error(`Failed to check rate limit: ${error.message}`);
+
+    if ((recent?.length ?? 0) >= perMinuteLimit) {
+      // The window frees up when the oldest call in it turns a minute old
+      const oldest = recent && recent.length > 0 ? Date.parse(recent[0].created_at) : now;
+      return {
+        allowed: false,
+        kind,
+        reason: 'rate_limit',
+        limit: perMinuteLimit,
+        used: recent?.length ?? 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldest + RATE_WINDOW_MS - now) / 1000)),
+      };
+    }
+  }
+
+  if (monthlyQuota != null) {
+    const rows = await loadUsageTotals(client, userId, getMonthStart(now));
+    const used = summarizeUsage(rows, DEFAULT_USAGE_LIMITS)[kind].used;
+    if (used >= monthlyQuota) {
+      return {
+        allowed: false,
+        kind,
+        reason: 'quota',
+        limit: monthlyQuota,
+        used,
+        retryAfterSeconds: Math.ceil((getNextMonthStart(now).getTime() - now) / 1000),
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * The 429 for a call refused by `checkUsageLimit`
+ */
+export function usageLimitResponse(check: Extract<UsageCheck, { allowed: false }>) {
+  const message = check.reason === 'rate_limit'
+    ? `Rate limit exceeded: at most ${check.limit} ${check.kind} calls per minute`
+    : `Monthly ${check.kind} quota of ${check.limit} ${USAGE_UNITS[check.kind]} used up`;
+  return tooManyRequestsResponse(message, check.retryAfterSeconds, {
+    kind: check.kind,
+    reason: check.reason,
+    limit: check.limit,
+    used: check.used,
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTotals,
+  DEFAULT_DEPRECIATION_RULES,
+  getActualCashValue,
+  getDepreciationFactor,
+  getReplacementCost,
+  resolveDepreciationRules,
+} from '../index';
+
+const NOW = Date.parse('2025-06-06T00:00:00.000Z');
+
+describe('getReplacementCost', () => {
+  it('prefers the estimated value and falls back to the purchase price', () => {
+    expect(getReplacementCost({ estimated_value: 500, purchase_price: 400 })).toBe(500);
+    expect(getReplacementCost({ estimated_value: null, purchase_price: 400 })).toBe(400);
+    expect(getReplacementCost({})).toBeNull();
+  });
+});
+
+describe('getDepreciationFactor', () => {
+  it('depreciates straight-line over the category useful life', () => {
+    const laptop = { category: 'electronics', purchase_date: '2023-06-06' };
+    expect(getDepreciationFactor(laptop, DEFAULT_DEPRECIATION_RULES, NOW)).toBeCloseTo(0.6, 2);
+  });
+
+  it('stops at the salvage floor', () => {
+    const oldTv = { category: 'electronics', purchase_date: '2005-01-01' };
+    expect(getDepreciationFactor(oldTv, DEFAULT_DEPRECIATION_RULES, NOW)).toBe(0.1);
+  });
+
+  it('does not depreciate without a purchase date or for non-depreciating categories', () => {
+    expect(getDepreciationFactor({ category: 'electronics' }, DEFAULT_DEPRECIATION_RULES, NOW)).toBe(1);
+    expect(getDepreciationFactor({ category: 'jewelry', purchase_date: '2000-01-01' }, DEFAULT_DEPRECIATION_RULES, NOW)).toBe(1);
+  });
+
+  it('treats unknown categories as other', () => {
+    const item = { category: 'spaceships', purchase_date: '2018-06-06' };
+    expect(getDepreciationFactor(item, DEFAULT_DEPRECIATION_RULES, NOW))
+      .toBe(getDepreciationFactor({ ...item, category: 'other' }, DEFAULT_DEPRECIATION_RULES, NOW));
+  });
+});
+
+describe('resolveDepreciationRules', () => {
+  it('applies overrides on top of the defaults', () => {
+    const rules = resolveDepreciationRules([
+      { category: 'electronics', useful_life_years: 2, salvage_percent: 0 },
+      { category: 'unknown', useful_life_years: 1, salvage_percent: 0 },
+    ]);
+    expect(rules.electronics).toEqual({ usefulLifeYears: 2, salvagePercent: 0 });
+    expect(rules.furniture).toEqual(DEFAULT_DEPRECIATION_RULES.furniture);
+    expect(getActualCashValue({ estimated_value: 1000, category: 'electronics', purchase_date: '2024-06-06' }, rules, NOW))
+      .toBeCloseTo(500, 0);
+  });
+});
+
+describe('calculateTotals', () => {
+  it('sums replacement cost and actual cash value', () => {
+    const totals = calculateTotals([
+      { media_type: 'item', estimated_value: 1000, category: 'electronics', purchase_date: '2023-06-06' },
+      { media_type: 'item', estimated_value: 200, category: 'jewelry' },
+      { media_type: 'image', estimated_value: null },
+      { media_type: 'video', estimated_value: null },
+    ], DEFAULT_DEPRECIATION_RULES, NOW);
+
+    expect(totals.totalItems).toBe(3);
+    expect(totals.totalValue).toBe(1200);
+    expect(totals.totalActualCashValue).toBeCloseTo(800, 0);
+  });
+
+  it('only counts accepted items', () => {
+    const totals = calculateTotals([
+      { media_type: 'item', estimated_value: 300, review_status: 'accepted' },
+      { media_type: 'item', estimated_value: 900, review_status: 'pending' },
+      { media_type: 'item', estimated_value: 50, review_status: 'rejected' },
+    ], DEFAULT_DEPRECIATION_RULES, NOW);
+
+    expect(totals).toMatchObject({ totalItems: 1, totalValue: 300 });
+  });
+});
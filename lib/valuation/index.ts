@@ -0,0 +1,187 @@
+/**
+ * Item valuation: replacement cost, actual cash value and depreciation
+ *
+ * `assets.estimated_value` is the replacement cost (what the item costs new today); every
+ * change to it is kept in the `valuations` table. Actual cash value (ACV) is the
+ * replacement cost depreciated straight-line from the purchase date over the useful life
+ * of the item's category, down to a salvage floor. Each household can override the default
+ * rule for a category in `depreciation_rules`.
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DepreciationRulesTable, ValuationSource, ValuationsTable } from '@/lib/db/schema';
+
+export type Valuation = ValuationsTable['Row'];
+
+export const VALUATION_SOURCES: readonly ValuationSource[] = ['ai_frame', 'ai_transcript', 'user_edit', 'receipt'];
+
+export const VALUATION_SOURCE_LABELS: Record<ValuationSource, string> = {
+  ai_frame: 'AI (video frame)',
+  ai_transcript: 'AI (narration)',
+  user_edit: 'Edited',
+  receipt: 'Receipt',
+};
+
+export const ITEM_CATEGORIES = [
+  'electronics',
+  'appliances',
+  'furniture',
+  'clothing',
+  'jewelry',
+  'art_collectibles',
+  'kitchenware',
+  'tools',
+  'sports_outdoor',
+  'books_media',
+  'other',
+] as const;
+export type ItemCategory = typeof ITEM_CATEGORIES[number];
+
+export const ITEM_CATEGORY_LABELS: Record<ItemCategory, string> = {
+  electronics: 'Electronics',
+  appliances: 'Appliances',
+  furniture: 'Furniture',
+  clothing: 'Clothing',
+  jewelry: 'Jewelry',
+  art_collectibles: 'Art & Collectibles',
+  kitchenware: 'Kitchenware',
+  tools: 'Tools',
+  sports_outdoor: 'Sports & Outdoor',
+  books_media: 'Books & Media',
+  other: 'Other',
+};
+
+export interface DepreciationRule {
+  /** Years over which the item loses value; null if it does not depreciate */
+  usefulLifeYears: number | null;
+  /** ACV never drops below this percentage of replacement cost */
+  salvagePercent: number;
+}
+
+export type DepreciationRules = Record<ItemCategory, DepreciationRule>;
+
+export const DEFAULT_DEPRECIATION_RULES: DepreciationRules = {
+  electronics: { usefulLifeYears: 5, salvagePercent: 10 },
+  appliances: { usefulLifeYears: 10, salvagePercent: 10 },
+  furniture: { usefulLifeYears: 10, salvagePercent: 20 },
+  clothing: { usefulLifeYears: 3, salvagePercent: 10 },
+  jewelry: { usefulLifeYears: null, salvagePercent: 100 },
+  art_collectibles: { usefulLifeYears: null, salvagePercent: 100 },
+  kitchenware: { usefulLifeYears: 8, salvagePercent: 15 },
+  tools: { usefulLifeYears: 10, salvagePercent: 20 },
+  sports_outdoor: { usefulLifeYears: 7, salvagePercent: 15 },
+  books_media: { usefulLifeYears: 5, salvagePercent: 10 },
+  other: { usefulLifeYears: 7, salvagePercent: 10 },
+};
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+export function isItemCategory(value: unknown): value is ItemCategory {
+  return typeof value === 'string' && (ITEM_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Applies a user's stored overrides on top of the defaults. Rows for unknown categories are ignored.
+ */
+export function resolveDepreciationRules(
+  overrides: Pick<DepreciationRulesTable['Row'], 'category' | 'useful_life_years' | 'salvage_percent'>[] = []
+): DepreciationRules {
+  const rules = { ...DEFAULT_DEPRECIATION_RULES };
+  for (const override of overrides) {
+    if (!isItemCategory(override.category)) continue;
+    rules[override.category] = {
+      usefulLifeYears: override.useful_life_years != null ? Number(override.useful_life_years) : null,
+      salvagePercent: Number(override.salvage_percent),
+    };
+  }
+  return rules;
+}
+
+export interface ValuedAsset {
+  estimated_value?: number | null;
+  purchase_price?: number | null;
+  purchase_date?: string | null;
+  category?: string | null;
+}
+
+/**
+ * What it costs to replace the item new: the current estimate, or the purchase price if there is none
+ */
+export function getReplacementCost(asset: ValuedAsset): number | null {
+  if (typeof asset.estimated_value === 'number') return asset.estimated_value;
+  if (asset.purchase_price != null) return Number(asset.purchase_price);
+  return null;
+}
+
+/**
+ * Fraction of replacement cost the item is still worth. Items without a purchase date are
+ * not depreciated, since their age is unknown.
+ */
+export function getDepreciationFactor(asset: ValuedAsset, rules: DepreciationRules, now = Date.now()): number {
+  const rule = rules[isItemCategory(asset.category) ? asset.category : 'other'];
+  if (!rule.usefulLifeYears || !asset.purchase_date) return 1;
+
+  const purchasedAt = new Date(asset.purchase_date).getTime();
+  if (isNaN(purchasedAt)) return 1;
+
+  const ageYears = Math.max(0, (now - purchasedAt) / MS_PER_YEAR);
+  const floor = Math.min(Math.max(rule.salvagePercent, 0), 100) / 100;
+  return Math.max(floor, 1 - ageYears / rule.usefulLifeYears);
+}
+
+export function getActualCashValue(asset: ValuedAsset, rules: DepreciationRules, now = Date.now()): number | null {
+  const replacementCost = getReplacementCost(asset);
+  if (replacementCost == null) return null;
+  return Math.round(replacementCost * getDepreciationFactor(asset, rules, now) * 100) / 100;
+}
+
+export interface InventoryTotals {
+  totalItems: number;
+  /** Sum of replacement costs */
+  totalValue: number;
+  totalActualCashValue: number;
+}
+
+/**
+ * Dashboard totals. Only items and photos are counted as items, but every asset's value is summed.
+ * AI proposals that are pending review or were rejected are left out.
+ */
+export function calculateTotals(
+  assets: Array<ValuedAsset & { media_type: string; review_status?: string | null }>,
+  rules: DepreciationRules = DEFAULT_DEPRECIATION_RULES,
+  now = Date.now()
+): InventoryTotals {
+  const inventory = assets.filter((asset) => (asset.review_status ?? 'accepted') === 'accepted');
+  const totalItems = inventory.filter((asset) => asset.media_type === 'item' || asset.media_type === 'image').length;
+
+  let totalValue = 0;
+  let totalActualCashValue = 0;
+  for (const asset of inventory) {
+    totalValue += getReplacementCost(asset) ?? 0;
+    totalActualCashValue += getActualCashValue(asset, rules, now) ?? 0;
+  }
+
+  return {
+    totalItems,
+    totalValue: Math.round(totalValue * 100) / 100,
+    totalActualCashValue: Math.round(totalActualCashValue * 100) / 100,
+  };
+}
+
+export async function loadDepreciationRules(client: SupabaseClient, householdId: string): Promise<DepreciationRules> {
+  const { data, error } = await client
+    .from('depreciation_rules')
+    .select('category, useful_life_years, salvage_percent')
+    .eq('household_id', householdId);
+  if (error) throw new Error(`Failed to load depreciation rules: ${error.message}`);
+  return resolveDepreciationRules(data || []);
+}
+
+export async function listValuations(client: SupabaseClient, assetId: string): Promise<Valuation[]> {
+  const { data, error } = await client
+    .from('valuations')
+    .select('*')
+    .eq('asset_id', assetId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load valuation history: ${error.message}`);
+  return (data || []) as Valuation[];
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Replays stored Mux webhook events (webhook_events) through the webhook handler, e.g. to
+ * recover events missed while MUX_WEBHOOK_SECRET was misconfigured.
+ *
+ * Run this using: node scripts/replay-mux-webhooks.js [options]
+ *   --asset <id>            Our asset ID
+ *   --mux-asset <id>        Mux asset ID
+ *   --type <event type>     e.g. video.asset.ready
+ *   --unprocessed           Only events that were never processed
+ *   --include-unverified    Also replay events whose signature did not verify
+ *   --from <date>           Received on or after this date/time
+ *   --to <date>             Received on or before this date/time
+ *   --limit <n>             Maximum events to replay (default 100)
+ *   --dry-run               List the matching events without replaying them
+ */
+
+require('dotenv').config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const hasFlag = (name) => args.includes(name);
+const argValue = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+};
+
+function toIsoDate(value, name) {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        console.error(`❌ ${name} is not a valid date: ${value}`);
+        process.exit(1);
+    }
+    return date.toISOString();
+}
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+const apiKey = process.env.API_SECRET_KEY;
+
+if (!siteUrl || !apiKey) {
+    console.error('❌ NEXT_PUBLIC_SITE_URL and API_SECRET_KEY must be set in .env.local');
+    process.exit(1);
+}
+
+const body = {
+    assetId: argValue('--asset'),
+    muxAssetId: argValue('--mux-asset'),
+    eventType: argValue('--type'),
+    unprocessedOnly: hasFlag('--unprocessed') || undefined,
+    includeUnverified: hasFlag('--include-unverified') || undefined,
+    from: toIsoDate(argValue('--from'), '--from'),
+    to: toIsoDate(argValue('--to'), '--to'),
+    limit: argValue('--limit') ? parseInt(argValue('--limit'), 10) : undefined,
+    dryRun: hasFlag('--dry-run') || undefined
+};
+
+async function main() {
+    console.log(`🔁 ${body.dryRun ? 'Dry run: finding' : 'Replaying'} Mux webhook events against ${siteUrl}\n`);
+
+    const res = await fetch(new URL('/api/mux/webhook/replay', siteUrl), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(body)
+    });
+    const summary = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+        console.error(`❌ Replay failed (${res.status}):`, JSON.stringify(summary, null, 2));
+        process.exit(1);
+    }
+
+    for (const event of summary.events) {
+        const verified = event.signatureVerified ? '' : ' [unverified]';
+        if (summary.dryRun) {
+            console.log(`• ${event.receivedAt} ${event.eventType} ${event.eventId}${verified} (processed: ${event.wasProcessed})`);
+            console.log(`    ${event.action}`);
+        } else {
+            const icon = event.error ? '❌' : event.processed ? '✅' : '⚠️';
+            console.log(`${icon} ${event.receivedAt} ${event.eventType} ${event.eventId}${verified}${event.error ? `: ${event.error}` : ''}`);
+        }
+    }
+
+    console.log(summary.dryRun
+        ? `\n${summary.matched} event(s) would be replayed. Run again without --dry-run to replay them.`
+        : `\nReplayed ${summary.replayed} event(s): ${summary.processed} processed, ${summary.failed} failed.`);
+}
+
+main().catch((error) => {
+    console.error('❌', error.message);
+    process.exit(1);
+});
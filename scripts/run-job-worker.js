@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Drains the background job queue (transcription, transcript analysis, merge) by calling
+ * the /api/jobs/worker route with the server API key.
+ *
+ * Run this using: node scripts/run-job-worker.js [--once] [--interval 30] [--types transcribe,merge]
+ *   --once       Drain the queue until nothing is due, then exit
+ *   --interval   Seconds to wait when the queue is empty (default 30)
+ *   --types      Only run these job types
+ */
+
+require('dotenv').config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const once = args.includes('--once');
+const argValue = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+};
+const intervalSec = parseInt(argValue('--interval') || '30', 10);
+const types = argValue('--types');
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+const apiKey = process.env.API_SECRET_KEY;
+
+if (!siteUrl || !apiKey) {
+    console.error('❌ NEXT_PUBLIC_SITE_URL and API_SECRET_KEY must be set in .env.local');
+    process.exit(1);
+}
+
+let stopping = false;
+process.on('SIGINT', () => {
+    console.log('\nStopping after the current batch...');
+    stopping = true;
+});
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function drainOnce() {
+    const url = new URL('/api/jobs/worker', siteUrl);
+    if (types) url.searchParams.set('types', types);
+
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}` }
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(`Worker route responded ${res.status}: ${JSON.stringify(body)}`);
+    }
+
+    for (const job of body.jobs || []) {
+        const icon = job.status === 'succeeded' ? '✅' : job.status === 'dead' ? '💀' : '🔁';
+        console.log(`${icon} ${job.type} ${job.id} (attempt ${job.attempt}) ${job.status}${job.error ? `: ${job.error}` : ''}`);
+    }
+    return body.processed || 0;
+}
+
+async function main() {
+    console.log(`🔧 Job worker started against ${siteUrl}${types ? ` (types: ${types})` : ''}`);
+
+    while (!stopping) {
+        let processed = 0;
+        try {
+            processed = await drainOnce();
+        } catch (error) {
+            console.error('❌', error.message);
+        }
+
+        if (processed === 0) {
+            if (once) break;
+            await sleep(intervalSec * 1000);
+        }
+    }
+
+    console.log('👋 Job worker stopped');
+}
+
+main();
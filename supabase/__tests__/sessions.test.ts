@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+// The parts of the Supabase schema the session migrations rely on
+const SUPABASE_STUBS = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY);
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+  $$;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+  CREATE TABLE public.assets (id UUID PRIMARY KEY DEFAULT gen_random_uuid());
+  CREATE TABLE public.scratch_items (id UUID PRIMARY KEY DEFAULT gen_random_uuid());
+  CREATE FUNCTION public.trigger_set_timestamp() RETURNS TRIGGER LANGUAGE plpgsql AS $$
+  BEGIN
+    NEW.updated_at = now();
+    RETURN NEW;
+  END;
+  $$;
+`;
+
+const MIGRATIONS = [
+  '20250603_add_recording_sessions.sql',
+  '20250608_add_session_frame_limits.sql',
+  '20250621_restrict_session_updates.sql',
+  '20250627_restrict_session_inserts.sql',
+];
+
+function migration(name: string): string {
+  return readFileSync(path.join(__dirname, '..', 'migrations', name), 'utf8');
+}
+
+describe('session migrations', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(SUPABASE_STUBS);
+    await db.query('INSERT INTO auth.users (id) VALUES ($1)', [USER_ID]);
+    await db.exec(migration(MIGRATIONS[0]));
+    // Supabase grants every table to the API roles; the migrations narrow that down
+    await db.exec('GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated, service_role');
+    for (const name of MIGRATIONS.slice(1)) await db.exec(migration(name));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.close();
+  });
+
+  async function asUser<T>(run: () => Promise<T>): Promise<T> {
+    await db.exec(`SET ROLE authenticated; SELECT set_config('request.jwt.claim.sub', '${USER_ID}', false);`);
+    try {
+      return await run();
+    } finally {
+      await db.exec('RESET ROLE');
+    }
+  }
+
+  it('lets users create a session in its initial state', async () => {
+    const { rows } = await asUser(() => db.query<{ status: string; frame_count: number; frame_bytes: number }>(
+      'INSERT INTO public.sessions (user_id) VALUES ($1) RETURNING status, frame_count, frame_bytes',
+      [USER_ID]
+    ));
+    expect(rows).toEqual([{ status: 'created', frame_count: 0, frame_bytes: 0 }]);
+  });
+
+  it('refuses sessions inserted with counters, a status or a Mux asset', async () => {
+    const inserts = [
+      'INSERT INTO public.sessions (user_id, frame_count, frame_bytes) VALUES ($1, -1000000, -1000000000)',
+      "INSERT INTO public.sessions (user_id, status) VALUES ($1, 'recording')",
+      "INSERT INTO public.sessions (user_id, mux_asset_id) VALUES ($1, 'someone-elses-asset')",
+    ];
+    for (const sql of inserts) {
+      await expect(asUser(() => db.query(sql, [USER_ID]))).rejects.toThrow(/permission denied/);
+    }
+  });
+
+  it('refuses counter resets and backward transitions on update', async () => {
+    const { rows: [session] } = await db.query<{ id: string }>(
+      "INSERT INTO public.sessions (user_id, status, frame_count) VALUES ($1, 'completed', 40) RETURNING id",
+      [USER_ID]
+    );
+    await expect(asUser(() => db.query('UPDATE public.sessions SET frame_count = 0 WHERE id = $1', [session.id])))
+      .rejects.toThrow(/permission denied/);
+    await expect(asUser(() => db.query("UPDATE public.sessions SET status = 'recording' WHERE id = $1", [session.id])))
+      .rejects.toThrow(/Cannot move session/);
+  });
+});
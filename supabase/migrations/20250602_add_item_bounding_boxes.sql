@@ -0,0 +1,28 @@
+-- Restore per-detection bounding boxes and crop images on scratch_items
+-- (dropped in 20250514_update_scratch_items.sql) and let item assets carry their crop.
+
+BEGIN;
+
+-- Normalized box within the frame: {"x": 0-1, "y": 0-1, "width": 0-1, "height": 0-1}
+ALTER TABLE "public"."scratch_items"
+  ADD COLUMN IF NOT EXISTS "bounding_box" JSONB,
+  ADD COLUMN IF NOT EXISTS "image_url" TEXT;
+
+COMMENT ON COLUMN "public"."scratch_items"."bounding_box" IS
+  'Normalized bounding box of the detection within the frame (x, y, width, height in 0-1)';
+
+COMMENT ON COLUMN "public"."scratch_items"."image_url" IS
+  'URL of the cropped thumbnail for this detection, stored in S3 under the user prefix';
+
+-- Crop thumbnail for item assets, taken from the scratch item the merge picked
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "thumbnail_url" TEXT,
+  ADD COLUMN IF NOT EXISTS "bounding_box" JSONB;
+
+COMMENT ON COLUMN "public"."assets"."thumbnail_url" IS
+  'Cropped thumbnail of the item from frame analysis; falls back to the Mux thumbnail at item_timestamp when null';
+
+COMMENT ON COLUMN "public"."assets"."bounding_box" IS
+  'Normalized bounding box of the item within the source frame at item_timestamp';
+
+COMMIT;
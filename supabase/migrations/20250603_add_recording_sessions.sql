@@ -0,0 +1,76 @@
+-- Recording sessions: one row per streaming recording, linking the Mux upload, the
+-- resulting source video asset and the scratch items produced by frame analysis.
+-- Merge runs once a session is completed and its video is ready.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "public"."sessions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "status" TEXT NOT NULL DEFAULT 'created'
+    CHECK ("status" IN ('created', 'recording', 'completed', 'merging', 'merged', 'aborted', 'failed')),
+  "mux_upload_id" TEXT,
+  "mux_asset_id" TEXT,
+  "asset_id" UUID REFERENCES "public"."assets"(id) ON DELETE SET NULL,
+  "scratch_done" BOOLEAN NOT NULL DEFAULT FALSE,
+  "started_at" TIMESTAMPTZ,
+  "last_heartbeat_at" TIMESTAMPTZ,
+  "completed_at" TIMESTAMPTZ,
+  "aborted_at" TIMESTAMPTZ,
+  "abort_reason" TEXT,
+  "merge_started_at" TIMESTAMPTZ,
+  "merged_at" TIMESTAMPTZ,
+  "merge_error" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN "public"."sessions"."status" IS
+  'Lifecycle: created -> recording -> completed -> merging -> merged; created/recording -> aborted; merging -> failed -> merging';
+
+COMMENT ON COLUMN "public"."sessions"."mux_upload_id" IS
+  'Mux direct upload ID issued for this recording';
+
+COMMENT ON COLUMN "public"."sessions"."mux_asset_id" IS
+  'Mux asset ID, set once Mux reports video.upload.asset_created';
+
+COMMENT ON COLUMN "public"."sessions"."asset_id" IS
+  'Source video asset created for this recording';
+
+COMMENT ON COLUMN "public"."sessions"."scratch_done" IS
+  'True once the client has stopped sending frames for analysis';
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON "public"."sessions" (user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_asset_id ON "public"."sessions" (asset_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_mux_upload_id ON "public"."sessions" (mux_upload_id);
+
+DROP TRIGGER IF EXISTS set_timestamp ON "public"."sessions";
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."sessions"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+ALTER TABLE "public"."sessions" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sessions"
+  ON "public"."sessions" FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own sessions"
+  ON "public"."sessions" FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sessions"
+  ON "public"."sessions" FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Scratch items belong to the session whose frames produced them
+ALTER TABLE "public"."scratch_items"
+  ADD COLUMN IF NOT EXISTS "session_id" UUID REFERENCES "public"."sessions"(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN "public"."scratch_items"."session_id" IS
+  'Recording session whose frame produced this detection';
+
+CREATE INDEX IF NOT EXISTS idx_scratch_items_session_id ON "public"."scratch_items" (session_id);
+
+COMMIT;
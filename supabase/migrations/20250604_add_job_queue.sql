@@ -0,0 +1,97 @@
+-- Durable job queue for transcription, transcript analysis and merge.
+-- Jobs are retried with exponential backoff and dead-lettered after max_attempts.
+-- A job with the same idempotency_key is only ever created once; re-running resets it.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "public"."jobs" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "type" TEXT NOT NULL,
+  "payload" JSONB NOT NULL DEFAULT '{}'::jsonb,
+  "status" TEXT NOT NULL DEFAULT 'queued'
+    CHECK ("status" IN ('queued', 'running', 'succeeded', 'dead')),
+  "idempotency_key" TEXT UNIQUE,
+  "user_id" UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  "asset_id" UUID REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "max_attempts" INTEGER NOT NULL DEFAULT 5,
+  "run_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "locked_at" TIMESTAMPTZ,
+  "locked_by" TEXT,
+  "last_error" TEXT,
+  "result" JSONB,
+  "completed_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN "public"."jobs"."type" IS
+  'Job handler: transcribe, analyze_transcript or merge';
+
+COMMENT ON COLUMN "public"."jobs"."status" IS
+  'queued -> running -> succeeded; failed attempts go back to queued with a later run_at, or to dead after max_attempts';
+
+COMMENT ON COLUMN "public"."jobs"."idempotency_key" IS
+  'Deduplicates enqueues of the same work, e.g. transcribe:asset:<id>';
+
+COMMENT ON COLUMN "public"."jobs"."run_at" IS
+  'Earliest time the job may run; pushed back by the retry backoff';
+
+COMMENT ON COLUMN "public"."jobs"."locked_at" IS
+  'When a worker claimed the job; running jobs locked for too long are reclaimed';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON "public"."jobs" (status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_asset_id ON "public"."jobs" (asset_id);
+
+DROP TRIGGER IF EXISTS set_timestamp ON "public"."jobs";
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."jobs"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+-- Jobs are written by the service role only; users can see the jobs for their assets
+ALTER TABLE "public"."jobs" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own jobs"
+  ON "public"."jobs" FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Atomically claims up to p_limit due jobs for a worker. Jobs stuck in running longer than
+-- p_lock_timeout_seconds (worker crashed or timed out) are claimed again.
+CREATE OR REPLACE FUNCTION public.claim_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_types TEXT[] DEFAULT NULL,
+  p_lock_timeout_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+BEGIN
+  RETURN QUERY
+  UPDATE public.jobs AS j
+  SET status = 'running',
+      locked_at = now(),
+      locked_by = p_worker,
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT candidate.id
+    FROM public.jobs AS candidate
+    WHERE (p_types IS NULL OR candidate.type = ANY (p_types))
+      AND (
+        (candidate.status = 'queued' AND candidate.run_at <= now())
+        OR (candidate.status = 'running' AND candidate.locked_at < now() - make_interval(secs => p_lock_timeout_seconds))
+      )
+    ORDER BY candidate.run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_jobs(TEXT, INTEGER, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(TEXT, INTEGER, TEXT[], INTEGER) TO service_role;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Webhook replay support.
+-- Events that fail signature verification are now stored (flagged unverified) instead of
+-- being dropped, so a misconfigured MUX_WEBHOOK_SECRET no longer loses them for good.
+-- Replays are counted per event and the last error is kept for inspection.
+
+BEGIN;
+
+ALTER TABLE "public"."webhook_events"
+  ADD COLUMN IF NOT EXISTS "signature_verified" BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS "replay_count" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "last_replayed_at" TIMESTAMPTZ;
+
+COMMENT ON COLUMN "public"."webhook_events"."signature_verified" IS
+  'False when the Mux-Signature header did not verify; such events are only replayed on request';
+COMMENT ON COLUMN "public"."webhook_events"."replay_count" IS
+  'Number of times the event was replayed through the webhook handler';
+
+CREATE INDEX IF NOT EXISTS "idx_webhook_events_event_type_created_at"
+  ON "public"."webhook_events" ("event_type", "created_at");
+
+COMMIT;
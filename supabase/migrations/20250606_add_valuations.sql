@@ -0,0 +1,122 @@
+-- Item valuation history and depreciation.
+-- assets.estimated_value is the replacement cost. Every change to it is recorded in
+-- valuations by a trigger, together with where the value came from (assets.value_source).
+-- Actual cash value is derived from the replacement cost, the purchase date and the
+-- depreciation rule for the item's category (defaults in lib/valuation, per-user
+-- overrides in depreciation_rules).
+
+BEGIN;
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "category" TEXT,
+  ADD COLUMN IF NOT EXISTS "purchase_date" DATE,
+  ADD COLUMN IF NOT EXISTS "purchase_price" NUMERIC(12, 2)
+    CHECK ("purchase_price" IS NULL OR "purchase_price" >= 0),
+  ADD COLUMN IF NOT EXISTS "value_source" TEXT
+    CHECK ("value_source" IS NULL OR "value_source" IN ('ai_frame', 'ai_transcript', 'user_edit', 'receipt'));
+
+COMMENT ON COLUMN "public"."assets"."estimated_value" IS
+  'Replacement cost: what it would cost to buy the item new today';
+COMMENT ON COLUMN "public"."assets"."category" IS
+  'Depreciation category, e.g. electronics or furniture (see lib/valuation)';
+COMMENT ON COLUMN "public"."assets"."value_source" IS
+  'Where the current estimated_value came from; copied into valuations on every change';
+
+CREATE TABLE IF NOT EXISTS "public"."valuations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "asset_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "source" TEXT NOT NULL
+    CHECK ("source" IN ('ai_frame', 'ai_transcript', 'user_edit', 'receipt')),
+  "value" NUMERIC(12, 2),
+  "previous_value" NUMERIC(12, 2),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE "public"."valuations" IS
+  'Append-only history of assets.estimated_value, written by the record_asset_valuation trigger';
+
+CREATE INDEX IF NOT EXISTS idx_valuations_asset_id_created_at ON "public"."valuations" (asset_id, created_at);
+
+-- Users read their history; only the trigger writes it
+ALTER TABLE "public"."valuations" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own valuations"
+  ON "public"."valuations" FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.record_asset_valuation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.estimated_value IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.estimated_value IS NOT DISTINCT FROM OLD.estimated_value THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.valuations (asset_id, user_id, source, value, previous_value)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    COALESCE(NEW.value_source, 'user_edit'),
+    NEW.estimated_value,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.estimated_value ELSE NULL END
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_asset_valuation ON "public"."assets";
+CREATE TRIGGER record_asset_valuation
+AFTER INSERT OR UPDATE OF estimated_value ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.record_asset_valuation();
+
+-- Per-user overrides of the default depreciation schedule for a category
+CREATE TABLE IF NOT EXISTS "public"."depreciation_rules" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "category" TEXT NOT NULL,
+  "useful_life_years" NUMERIC(5, 2) CHECK ("useful_life_years" IS NULL OR "useful_life_years" > 0),
+  "salvage_percent" NUMERIC(5, 2) NOT NULL DEFAULT 0
+    CHECK ("salvage_percent" >= 0 AND "salvage_percent" <= 100),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE ("user_id", "category")
+);
+
+COMMENT ON COLUMN "public"."depreciation_rules"."useful_life_years" IS
+  'Years over which the item depreciates straight-line; NULL means it does not depreciate';
+COMMENT ON COLUMN "public"."depreciation_rules"."salvage_percent" IS
+  'Floor for actual cash value as a percentage of replacement cost';
+
+DROP TRIGGER IF EXISTS set_timestamp ON "public"."depreciation_rules";
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."depreciation_rules"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+ALTER TABLE "public"."depreciation_rules" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own depreciation rules"
+  ON "public"."depreciation_rules" FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own depreciation rules"
+  ON "public"."depreciation_rules" FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own depreciation rules"
+  ON "public"."depreciation_rules" FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own depreciation rules"
+  ON "public"."depreciation_rules" FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- Proof-of-ownership documents (receipts, warranties, appraisals, manuals) attached to items.
+-- Files live in S3 under the owner's prefix; an extract_document job reads each one and
+-- copies the merchant, purchase date, price, serial and model number onto the item.
+
+BEGIN;
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "purchase_merchant" TEXT,
+  ADD COLUMN IF NOT EXISTS "serial_number" TEXT,
+  ADD COLUMN IF NOT EXISTS "model_number" TEXT;
+
+COMMENT ON COLUMN "public"."assets"."purchase_merchant" IS
+  'Where the item was bought, usually read from an attached receipt';
+
+CREATE TABLE IF NOT EXISTS "public"."item_documents" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "asset_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "kind" TEXT NOT NULL
+    CHECK ("kind" IN ('receipt', 'warranty', 'appraisal', 'manual', 'other')),
+  "file_name" TEXT NOT NULL,
+  "content_type" TEXT NOT NULL,
+  "size_bytes" INTEGER NOT NULL CHECK ("size_bytes" >= 0),
+  "s3_key" TEXT NOT NULL,
+  "extraction_status" TEXT NOT NULL DEFAULT 'pending'
+    CHECK ("extraction_status" IN ('pending', 'processing', 'completed', 'error')),
+  "extracted_fields" JSONB,
+  "extraction_error" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN "public"."item_documents"."s3_key" IS
+  'Object key in AWS_BUCKET_NAME, always prefixed with the owner''s user ID';
+COMMENT ON COLUMN "public"."item_documents"."extracted_fields" IS
+  'Fields read from the document: merchant, purchase_date, price, serial_number, model_number';
+
+CREATE INDEX IF NOT EXISTS idx_item_documents_asset_id ON "public"."item_documents" (asset_id);
+
+DROP TRIGGER IF EXISTS set_timestamp ON "public"."item_documents";
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."item_documents"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+ALTER TABLE "public"."item_documents" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own item documents"
+  ON "public"."item_documents" FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own item documents"
+  ON "public"."item_documents" FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own item documents"
+  ON "public"."item_documents" FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own item documents"
+  ON "public"."item_documents" FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN "public"."jobs"."type" IS
+  'Job handler: transcribe, analyze_transcript, merge or extract_document';
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- Per-session accounting for /api/frame.
+-- Frames are authorized by a signed token scoped to one user and session (lib/sessions/frame-token.ts).
+-- record_session_frame counts each accepted frame against the session's frame and byte limits
+-- in a single UPDATE, so concurrent uploads cannot overshoot them.
+
+BEGIN;
+
+ALTER TABLE "public"."sessions"
+  ADD COLUMN IF NOT EXISTS "frame_count" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "frame_bytes" BIGINT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN "public"."sessions"."frame_count" IS
+  'Frames accepted by /api/frame for this session';
+COMMENT ON COLUMN "public"."sessions"."frame_bytes" IS
+  'Total size in bytes of the frames accepted for this session';
+
+-- Returns one row: whether the frame was accepted and, if not, why
+-- (session_not_found, not_recording, frame_limit or byte_limit).
+CREATE OR REPLACE FUNCTION public.record_session_frame(
+  p_session_id UUID,
+  p_user_id UUID,
+  p_bytes INTEGER,
+  p_max_frames INTEGER,
+  p_max_bytes BIGINT
+)
+RETURNS TABLE (accepted BOOLEAN, reason TEXT, frame_count INTEGER, frame_bytes BIGINT)
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_session public.sessions%ROWTYPE;
+BEGIN
+  UPDATE public.sessions AS s
+  SET frame_count = s.frame_count + 1,
+      frame_bytes = s.frame_bytes + p_bytes
+  WHERE s.id = p_session_id
+    AND s.user_id = p_user_id
+    AND s.status = 'recording'
+    AND s.frame_count < p_max_frames
+    AND s.frame_bytes + p_bytes <= p_max_bytes
+  RETURNING s.* INTO v_session;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT true, NULL::TEXT, v_session.frame_count, v_session.frame_bytes;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.sessions AS s
+  WHERE s.id = p_session_id AND s.user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'session_not_found'::TEXT, 0, 0::BIGINT;
+  ELSIF v_session.status <> 'recording' THEN
+    RETURN QUERY SELECT false, 'not_recording'::TEXT, v_session.frame_count, v_session.frame_bytes;
+  ELSIF v_session.frame_count >= p_max_frames THEN
+    RETURN QUERY SELECT false, 'frame_limit'::TEXT, v_session.frame_count, v_session.frame_bytes;
+  ELSE
+    RETURN QUERY SELECT false, 'byte_limit'::TEXT, v_session.frame_count, v_session.frame_bytes;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_session_frame(UUID, UUID, INTEGER, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_session_frame(UUID, UUID, INTEGER, INTEGER, BIGINT) TO service_role;
+
+COMMIT;
@@ -0,0 +1,108 @@
+-- Usage metering, quotas and rate limits per user.
+-- Every billable provider call (vision, LLM, Deepgram, Mux) is recorded in usage_events with
+-- its token, byte and duration counts. Quotas and per-minute rate limits default to the
+-- values in lib/usage and can be overridden per user in usage_limits.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "public"."usage_events" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "kind" TEXT NOT NULL
+    CHECK ("kind" IN ('vision', 'llm', 'transcription', 'video')),
+  "operation" TEXT NOT NULL,
+  "provider" TEXT,
+  "model" TEXT,
+  "input_tokens" INTEGER NOT NULL DEFAULT 0,
+  "output_tokens" INTEGER NOT NULL DEFAULT 0,
+  "bytes" BIGINT NOT NULL DEFAULT 0,
+  "duration_seconds" NUMERIC(12, 3) NOT NULL DEFAULT 0,
+  "asset_id" UUID REFERENCES "public"."assets"(id) ON DELETE SET NULL,
+  "dedupe_key" TEXT UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN "public"."usage_events"."kind" IS
+  'What is metered: vision (frames), llm (tokens), transcription (audio seconds) or video (Mux upload seconds)';
+COMMENT ON COLUMN "public"."usage_events"."operation" IS
+  'Pipeline step that made the call, e.g. process_frame, analyze_transcript, merge_with_scratch';
+COMMENT ON COLUMN "public"."usage_events"."dedupe_key" IS
+  'Set for usage reported by retried or replayed work (webhooks, jobs) so it is counted once';
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_kind_created_at
+  ON "public"."usage_events" (user_id, kind, created_at);
+
+-- Users read their own usage; only the server records it
+ALTER TABLE "public"."usage_events" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage"
+  ON "public"."usage_events" FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Per-user overrides of the default limits. NULL means unlimited.
+CREATE TABLE IF NOT EXISTS "public"."usage_limits" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "kind" TEXT NOT NULL
+    CHECK ("kind" IN ('vision', 'llm', 'transcription', 'video')),
+  "monthly_quota" NUMERIC(14, 2) CHECK ("monthly_quota" IS NULL OR "monthly_quota" >= 0),
+  "per_minute_limit" INTEGER CHECK ("per_minute_limit" IS NULL OR "per_minute_limit" >= 0),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE ("user_id", "kind")
+);
+
+COMMENT ON COLUMN "public"."usage_limits"."monthly_quota" IS
+  'Units per calendar month (UTC): frames, tokens, or minutes of audio/video depending on kind';
+COMMENT ON COLUMN "public"."usage_limits"."per_minute_limit" IS
+  'Metered calls allowed in any 60-second window';
+
+DROP TRIGGER IF EXISTS set_timestamp ON "public"."usage_limits";
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."usage_limits"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+-- Limits are set by operators with the server API key; users can only read theirs
+ALTER TABLE "public"."usage_limits" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage limits"
+  ON "public"."usage_limits" FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Totals per kind and operation since a point in time. Runs with the caller's rights, so
+-- users only ever see their own rows.
+CREATE OR REPLACE FUNCTION public.usage_totals(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  kind TEXT,
+  operation TEXT,
+  events BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  bytes BIGINT,
+  duration_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $function$
+  SELECT
+    e.kind,
+    e.operation,
+    count(*),
+    COALESCE(sum(e.input_tokens), 0)::BIGINT,
+    COALESCE(sum(e.output_tokens), 0)::BIGINT,
+    COALESCE(sum(e.bytes), 0)::BIGINT,
+    COALESCE(sum(e.duration_seconds), 0)
+  FROM public.usage_events AS e
+  WHERE e.user_id = p_user_id
+    AND e.created_at >= p_since
+    AND (p_until IS NULL OR e.created_at < p_until)
+  GROUP BY e.kind, e.operation;
+$function$;
+
+COMMIT;
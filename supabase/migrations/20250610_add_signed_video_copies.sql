@@ -0,0 +1,20 @@
+-- C2PA-signed copies of recorded videos.
+-- Mux re-encodes the playback version, which strips any manifest, so the original MP4 is
+-- signed on the server (with capture time, device and session in com.padlox.metadata) and
+-- kept in S3. The source video asset points at that copy for later verification.
+
+BEGIN;
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "signed_copy_key" TEXT,
+  ADD COLUMN IF NOT EXISTS "signed_copy_sha256" TEXT,
+  ADD COLUMN IF NOT EXISTS "signed_copy_size" BIGINT;
+
+COMMENT ON COLUMN "public"."assets"."signed_copy_key" IS
+  'S3 key of the C2PA-signed original recording; the Mux playback version carries no manifest';
+COMMENT ON COLUMN "public"."assets"."signed_copy_sha256" IS
+  'SHA-256 of the signed copy as stored, to detect changes to the S3 object';
+COMMENT ON COLUMN "public"."assets"."signature_data" IS
+  'C2PA signature details: manifest label, signing time and the com.padlox.metadata assertion';
+
+COMMIT;
@@ -0,0 +1,310 @@
+-- Tamper-evident audit log of inventory changes.
+-- Triggers on assets, asset_rooms and asset_tags append one entry per change to an item's
+-- name, description, value or purchase details, its room, its tags, or its deletion, so
+-- every write path (dashboard, bulk actions, the AI merge route, document extraction) is
+-- covered. Entries form a hash chain per user: hash = sha256(prev_hash || payload), where
+-- payload is the canonical JSON text of the entry. Editing, removing or reordering an entry
+-- breaks the chain, which /api/audit/verify and the exported ledger make visible.
+--
+-- The actor is 'user' when the change comes with a user's JWT. Service-role writes are
+-- 'system' unless the client sends `x-padlox-actor: ai` (see createServiceSupabaseClient).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "public"."audit_log" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "seq" BIGINT NOT NULL CHECK ("seq" > 0),
+  -- No foreign key: entries outlive the assets they describe
+  "asset_id" UUID,
+  "action" TEXT NOT NULL
+    CHECK ("action" IN ('create', 'update', 'delete', 'room', 'tags')),
+  "actor" TEXT NOT NULL
+    CHECK ("actor" IN ('user', 'ai', 'system')),
+  "actor_id" UUID,
+  "changes" JSONB NOT NULL,
+  "payload" TEXT NOT NULL,
+  "prev_hash" TEXT NOT NULL,
+  "hash" TEXT NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE ("user_id", "seq")
+);
+
+COMMENT ON TABLE "public"."audit_log" IS
+  'Append-only, hash-chained log of inventory changes, written by triggers';
+COMMENT ON COLUMN "public"."audit_log"."changes" IS
+  'Changed fields as { field: { before, after } }; tags also list added or removed names';
+COMMENT ON COLUMN "public"."audit_log"."payload" IS
+  'Canonical JSON of the entry (seq, user, asset, action, actor, changes, time); this exact text is hashed';
+COMMENT ON COLUMN "public"."audit_log"."hash" IS
+  'Hex sha256 of prev_hash || payload; prev_hash of the first entry is 64 zeros';
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_asset_id ON "public"."audit_log" (asset_id, seq);
+
+-- Users read their log; only the triggers write it
+ALTER TABLE "public"."audit_log" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own audit log"
+  ON "public"."audit_log" FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Entries cannot be changed or removed, except along with the account itself
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON "public"."audit_log";
+CREATE TRIGGER prevent_audit_log_changes
+BEFORE UPDATE OR DELETE ON "public"."audit_log"
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON "public"."audit_log";
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON "public"."audit_log"
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Appends one entry to a user's chain. Entries for one user are serialised with an
+-- advisory lock so concurrent writers cannot fork the chain.
+CREATE OR REPLACE FUNCTION public.append_audit_entry(
+  p_user_id UUID,
+  p_asset_id UUID,
+  p_action TEXT,
+  p_changes JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor TEXT;
+  v_seq BIGINT;
+  v_prev_hash TEXT;
+  v_at TIMESTAMPTZ := now();
+  v_payload TEXT;
+BEGIN
+  -- Nothing to record while the account itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    v_actor := 'user';
+  ELSE
+    v_actor := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-padlox-actor';
+    IF v_actor IS NULL OR v_actor NOT IN ('ai', 'system') THEN
+      v_actor := 'system';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('audit_log:' || p_user_id::text, 0));
+
+  SELECT l.seq, l.hash INTO v_seq, v_prev_hash
+  FROM public.audit_log AS l
+  WHERE l.user_id = p_user_id
+  ORDER BY l.seq DESC
+  LIMIT 1;
+
+  v_seq := COALESCE(v_seq, 0) + 1;
+  v_prev_hash := COALESCE(v_prev_hash, repeat('0', 64));
+  v_payload := jsonb_build_object(
+    'seq', v_seq,
+    'user_id', p_user_id,
+    'asset_id', p_asset_id,
+    'action', p_action,
+    'actor', v_actor,
+    'actor_id', v_actor_id,
+    'changes', p_changes,
+    'created_at', to_char(v_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  )::text;
+
+  INSERT INTO public.audit_log (user_id, seq, asset_id, action, actor, actor_id, changes, payload, prev_hash, hash, created_at)
+  VALUES (
+    p_user_id,
+    v_seq,
+    p_asset_id,
+    p_action,
+    v_actor,
+    v_actor_id,
+    p_changes,
+    v_payload,
+    v_prev_hash,
+    encode(sha256(convert_to(v_prev_hash || v_payload, 'UTF8')), 'hex'),
+    v_at
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_audit_entry(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Name, description, value, purchase details and deletion of assets
+CREATE OR REPLACE FUNCTION public.audit_asset_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_fields TEXT[] := ARRAY['name', 'description', 'estimated_value', 'purchase_price', 'purchase_date'];
+  v_field TEXT;
+  v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  v_changes JSONB := '{}'::jsonb;
+  v_user_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE NEW.user_id END;
+  v_asset_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END;
+BEGIN
+  FOREACH v_field IN ARRAY v_fields LOOP
+    IF (v_old -> v_field) IS DISTINCT FROM (v_new -> v_field) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('before', COALESCE(v_old -> v_field, 'null'::jsonb), 'after', COALESCE(v_new -> v_field, 'null'::jsonb))
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.append_audit_entry(
+    v_user_id,
+    v_asset_id,
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    v_changes
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_asset_change ON "public"."assets";
+CREATE TRIGGER audit_asset_change
+AFTER INSERT OR DELETE OR UPDATE OF name, description, estimated_value, purchase_price, purchase_date ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_asset_change();
+
+-- Room assignments. Rows removed because their asset was deleted are skipped: the
+-- deletion is already logged.
+CREATE OR REPLACE FUNCTION public.audit_asset_room_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_asset_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.asset_id ELSE NEW.asset_id END;
+  v_user_id UUID;
+  v_before JSONB := 'null'::jsonb;
+  v_after JSONB := 'null'::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.room_id IS NOT DISTINCT FROM OLD.room_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT a.user_id INTO v_user_id FROM public.assets AS a WHERE a.id = v_asset_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_before := jsonb_build_object('id', OLD.room_id, 'name', (SELECT r.name FROM public.rooms AS r WHERE r.id = OLD.room_id));
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_after := jsonb_build_object('id', NEW.room_id, 'name', (SELECT r.name FROM public.rooms AS r WHERE r.id = NEW.room_id));
+  END IF;
+
+  PERFORM public.append_audit_entry(
+    v_user_id,
+    v_asset_id,
+    'room',
+    jsonb_build_object('room', jsonb_build_object('before', v_before, 'after', v_after))
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_asset_room_change ON "public"."asset_rooms";
+CREATE TRIGGER audit_asset_room_change
+AFTER INSERT OR UPDATE OR DELETE ON "public"."asset_rooms"
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_asset_room_change();
+
+-- Tag changes, one entry per asset per statement so bulk tagging records the full before
+-- and after tag lists. Both triggers name their transition table changed_rows.
+CREATE OR REPLACE FUNCTION public.audit_asset_tags_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_asset RECORD;
+  v_current TEXT[];
+  v_changed TEXT[];
+  v_before TEXT[];
+BEGIN
+  FOR v_asset IN
+    SELECT a.id, a.user_id
+    FROM public.assets AS a
+    WHERE a.id IN (SELECT c.asset_id FROM changed_rows AS c)
+    ORDER BY a.id
+  LOOP
+    v_current := ARRAY(
+      SELECT t.name FROM public.asset_tags AS at
+      JOIN public.tags AS t ON t.id = at.tag_id
+      WHERE at.asset_id = v_asset.id
+      ORDER BY t.name
+    );
+    v_changed := ARRAY(
+      SELECT t.name FROM changed_rows AS c
+      JOIN public.tags AS t ON t.id = c.tag_id
+      WHERE c.asset_id = v_asset.id
+      ORDER BY t.name
+    );
+    IF TG_OP = 'INSERT' THEN
+      v_before := ARRAY(SELECT unnest(v_current) EXCEPT SELECT unnest(v_changed) ORDER BY 1);
+    ELSE
+      v_before := ARRAY(SELECT unnest(v_current) UNION SELECT unnest(v_changed) ORDER BY 1);
+    END IF;
+
+    PERFORM public.append_audit_entry(
+      v_asset.user_id,
+      v_asset.id,
+      'tags',
+      jsonb_build_object('tags', jsonb_build_object(
+        'before', to_jsonb(v_before),
+        'after', to_jsonb(v_current),
+        CASE WHEN TG_OP = 'INSERT' THEN 'added' ELSE 'removed' END, to_jsonb(v_changed)
+      ))
+    );
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_asset_tags_insert ON "public"."asset_tags";
+CREATE TRIGGER audit_asset_tags_insert
+AFTER INSERT ON "public"."asset_tags"
+REFERENCING NEW TABLE AS changed_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.audit_asset_tags_change();
+
+DROP TRIGGER IF EXISTS audit_asset_tags_delete ON "public"."asset_tags";
+CREATE TRIGGER audit_asset_tags_delete
+AFTER DELETE ON "public"."asset_tags"
+REFERENCING OLD TABLE AS changed_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.audit_asset_tags_change();
+
+COMMIT;
@@ -0,0 +1,83 @@
+-- Read-only share links for insurers and adjusters.
+-- A homeowner creates a link that expires, can be revoked, and can be limited to one room or
+-- one tag. Anyone holding the link can view the items, values, thumbnails and video in scope
+-- without an account; the public routes look the link up with the service role by the sha256
+-- of its token, so the token itself is never stored. Every use of a link, including attempts
+-- after it expired or was revoked, is recorded in share_link_access_log.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "public"."share_links" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "token_hash" TEXT NOT NULL UNIQUE,
+  "label" TEXT,
+  -- Deleting the room or tag deletes the link rather than widening it to the whole inventory
+  "room_id" UUID REFERENCES "public"."rooms"(id) ON DELETE CASCADE,
+  "tag_id" UUID REFERENCES "public"."tags"(id) ON DELETE CASCADE,
+  "expires_at" TIMESTAMPTZ NOT NULL,
+  "revoked_at" TIMESTAMPTZ,
+  "last_accessed_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ("room_id" IS NULL OR "tag_id" IS NULL)
+);
+
+COMMENT ON TABLE "public"."share_links" IS
+  'Expiring, revocable read-only links to a user''s inventory, optionally limited to a room or tag';
+COMMENT ON COLUMN "public"."share_links"."token_hash" IS
+  'Hex sha256 of the link token; the token is only shown once, when the link is created';
+COMMENT ON COLUMN "public"."share_links"."label" IS
+  'Who the link is for, e.g. the adjuster or claim number';
+
+CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON "public"."share_links" (user_id, created_at);
+
+ALTER TABLE "public"."share_links" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links"
+  ON "public"."share_links" FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own share links"
+  ON "public"."share_links" FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own share links"
+  ON "public"."share_links" FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own share links"
+  ON "public"."share_links" FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS "public"."share_link_access_log" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "share_link_id" UUID NOT NULL REFERENCES "public"."share_links"(id) ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "resource" TEXT NOT NULL
+    CHECK ("resource" IN ('inventory', 'playback')),
+  -- No foreign key: the log outlives the assets that were viewed
+  "asset_id" UUID,
+  "outcome" TEXT NOT NULL
+    CHECK ("outcome" IN ('granted', 'expired', 'revoked', 'out_of_scope')),
+  "ip_address" TEXT,
+  "user_agent" TEXT,
+  "accessed_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE "public"."share_link_access_log" IS
+  'One row per use of a share link: the inventory page or a video playback, granted or refused';
+COMMENT ON COLUMN "public"."share_link_access_log"."user_id" IS
+  'Owner of the link, so owners can read the log under RLS';
+
+CREATE INDEX IF NOT EXISTS idx_share_link_access_log_link_id
+  ON "public"."share_link_access_log" (share_link_id, accessed_at);
+
+-- Owners read the log; only the server writes it
+ALTER TABLE "public"."share_link_access_log" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view access to their share links"
+  ON "public"."share_link_access_log" FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,622 @@
+-- Households: shared inventories with several members.
+-- Until now every item, tag and room belonged to one user and RLS compared auth.uid() with
+-- user_id. A household now owns the inventory and its members see it according to their role:
+--   owner  - everything an editor can do, plus managing members, invitations and the household
+--   editor - add, change and delete items, tags and rooms
+--   viewer - read only
+-- assets.user_id is kept as the member the item belongs to ("owned by"), so roommates can keep
+-- their belongings apart for separate insurance policies; tags, rooms and scratch_items keep
+-- user_id as the member who created them. Every existing user gets a personal household that
+-- takes over their inventory.
+
+BEGIN;
+
+-- ============================================================================
+-- Tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."households" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" TEXT NOT NULL CHECK (length(trim("name")) > 0),
+  "created_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE "public"."households" IS
+  'A shared inventory; assets, tags and rooms belong to exactly one household';
+
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."households"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+CREATE TABLE IF NOT EXISTS "public"."household_members" (
+  "household_id" UUID NOT NULL REFERENCES "public"."households"(id) ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  "role" TEXT NOT NULL
+    CHECK ("role" IN ('owner', 'editor', 'viewer')),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY ("household_id", "user_id")
+);
+
+COMMENT ON TABLE "public"."household_members" IS
+  'Who can use a household and how: owner, editor or viewer';
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON "public"."household_members" (user_id);
+
+CREATE TABLE IF NOT EXISTS "public"."household_invitations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "household_id" UUID NOT NULL REFERENCES "public"."households"(id) ON DELETE CASCADE,
+  "email" TEXT NOT NULL,
+  -- Ownership is granted by promoting a member, never through an invitation
+  "role" TEXT NOT NULL
+    CHECK ("role" IN ('editor', 'viewer')),
+  "token_hash" TEXT NOT NULL UNIQUE,
+  "invited_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "expires_at" TIMESTAMPTZ NOT NULL,
+  "accepted_at" TIMESTAMPTZ,
+  "accepted_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "revoked_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE "public"."household_invitations" IS
+  'Pending, accepted and revoked invitations to join a household';
+COMMENT ON COLUMN "public"."household_invitations"."token_hash" IS
+  'Hex sha256 of the invitation token; the token is only shown once, when the invitation is created';
+
+CREATE INDEX IF NOT EXISTS idx_household_invitations_household_id
+  ON "public"."household_invitations" (household_id, created_at);
+
+ALTER TABLE "public"."users"
+  ADD COLUMN IF NOT EXISTS "active_household_id" UUID REFERENCES "public"."households"(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."users"."active_household_id" IS
+  'Household shown on the dashboard and used for new items; ignored if the user is no longer a member';
+
+-- ============================================================================
+-- Membership helpers
+-- SECURITY DEFINER so RLS policies can consult household_members without recursing into its
+-- own policies.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.household_role(p_household_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT m.role
+  FROM public.household_members m
+  WHERE m.household_id = p_household_id
+    AND m.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_household_member(p_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.household_role(p_household_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_household(p_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT coalesce(public.household_role(p_household_id) IN ('owner', 'editor'), false);
+$$;
+
+-- True when the current user and p_user_id are members of at least one common household
+CREATE OR REPLACE FUNCTION public.shares_household_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.household_members mine
+    JOIN public.household_members theirs ON theirs.household_id = mine.household_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+  );
+$$;
+
+-- The household a user's new rows go to: their active household if they are still a member
+-- of it, otherwise the oldest household they own, otherwise the oldest they belong to
+CREATE OR REPLACE FUNCTION public.default_household_id(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT m.household_id
+  FROM public.household_members m
+  LEFT JOIN public.users u ON u.id = m.user_id
+  WHERE m.user_id = p_user_id
+  ORDER BY (m.household_id = u.active_household_id) DESC NULLS LAST,
+           (m.role = 'owner') DESC,
+           m.created_at
+  LIMIT 1;
+$$;
+
+-- ============================================================================
+-- Creating households
+-- ============================================================================
+
+-- Whoever creates a household owns it
+CREATE OR REPLACE FUNCTION public.add_household_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.household_members (household_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner')
+    ON CONFLICT (household_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_household_creator
+AFTER INSERT ON "public"."households"
+FOR EACH ROW
+EXECUTE FUNCTION public.add_household_creator();
+
+-- Every user starts with a household of their own
+CREATE OR REPLACE FUNCTION public.create_personal_household()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_household_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.household_members WHERE user_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.households (name, created_by)
+  VALUES ('My Home', NEW.id)
+  RETURNING id INTO v_household_id;
+
+  UPDATE public.users SET active_household_id = v_household_id
+  WHERE id = NEW.id AND active_household_id IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_personal_household
+AFTER INSERT ON "public"."users"
+FOR EACH ROW
+EXECUTE FUNCTION public.create_personal_household();
+
+-- Existing users get the same personal household
+DO $$
+DECLARE
+  v_user RECORD;
+  v_household_id UUID;
+BEGIN
+  FOR v_user IN
+    SELECT u.id FROM public.users u
+    WHERE NOT EXISTS (SELECT 1 FROM public.household_members m WHERE m.user_id = u.id)
+  LOOP
+    INSERT INTO public.households (name, created_by)
+    VALUES ('My Home', v_user.id)
+    RETURNING id INTO v_household_id;
+
+    UPDATE public.users SET active_household_id = v_household_id WHERE id = v_user.id;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- Keeping at least one owner
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.protect_last_household_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  -- Deleting the household or the owner's account cascades here; let both through
+  IF NOT EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id)
+     OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = OLD.household_id
+      AND role = 'owner'
+      AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A household must keep at least one owner'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_last_household_owner
+BEFORE UPDATE OF role OR DELETE ON "public"."household_members"
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_last_household_owner();
+
+-- When the last owner's account is deleted, the longest-standing member takes over
+CREATE OR REPLACE FUNCTION public.promote_household_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.role = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = OLD.household_id AND role = 'owner'
+  ) THEN
+    UPDATE public.household_members SET role = 'owner'
+    WHERE (household_id, user_id) = (
+      SELECT household_id, user_id FROM public.household_members
+      WHERE household_id = OLD.household_id
+      ORDER BY (role = 'editor') DESC, created_at
+      LIMIT 1
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER promote_household_owner
+AFTER DELETE ON "public"."household_members"
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_household_owner();
+
+-- ============================================================================
+-- household_id on the inventory
+-- ============================================================================
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+ALTER TABLE "public"."tags"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+ALTER TABLE "public"."rooms"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+ALTER TABLE "public"."scratch_items"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+ALTER TABLE "public"."share_links"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN "public"."assets"."user_id" IS
+  'Household member the item belongs to ("owned by"); must be a member of the household';
+COMMENT ON COLUMN "public"."assets"."household_id" IS
+  'Household whose inventory the item is in; decides who can see and edit it';
+
+UPDATE "public"."assets" SET household_id = public.default_household_id(user_id) WHERE household_id IS NULL;
+UPDATE "public"."tags" SET household_id = public.default_household_id(user_id) WHERE household_id IS NULL;
+UPDATE "public"."rooms" SET household_id = public.default_household_id(user_id) WHERE household_id IS NULL;
+UPDATE "public"."scratch_items" SET household_id = public.default_household_id(user_id)
+  WHERE household_id IS NULL AND user_id IS NOT NULL;
+UPDATE "public"."share_links" SET household_id = public.default_household_id(user_id) WHERE household_id IS NULL;
+
+ALTER TABLE "public"."assets" ALTER COLUMN "household_id" SET NOT NULL;
+ALTER TABLE "public"."tags" ALTER COLUMN "household_id" SET NOT NULL;
+ALTER TABLE "public"."rooms" ALTER COLUMN "household_id" SET NOT NULL;
+ALTER TABLE "public"."share_links" ALTER COLUMN "household_id" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_assets_household_id ON "public"."assets" (household_id);
+CREATE INDEX IF NOT EXISTS idx_tags_household_id ON "public"."tags" (household_id);
+CREATE INDEX IF NOT EXISTS idx_rooms_household_id ON "public"."rooms" (household_id);
+CREATE INDEX IF NOT EXISTS idx_scratch_items_household_id ON "public"."scratch_items" (household_id);
+
+-- Tag and room names are unique within the household rather than per user
+ALTER TABLE "public"."tags" DROP CONSTRAINT IF EXISTS tags_user_id_name_key;
+ALTER TABLE "public"."tags" ADD CONSTRAINT tags_household_id_name_key UNIQUE (household_id, name);
+ALTER TABLE "public"."rooms" DROP CONSTRAINT IF EXISTS rooms_user_id_name_key;
+ALTER TABLE "public"."rooms" ADD CONSTRAINT rooms_household_id_name_key UNIQUE (household_id, name);
+
+-- Rows written without a household_id go to the writer's current household. Items found in a
+-- video go to the video's household, whoever runs the analysis.
+CREATE OR REPLACE FUNCTION public.set_household_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.household_id IS NULL THEN
+    NEW.household_id := coalesce(public.default_household_id(auth.uid()), public.default_household_id(NEW.user_id));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_asset_household_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.household_id IS NULL AND NEW.source_video_id IS NOT NULL THEN
+    SELECT household_id INTO NEW.household_id FROM public.assets WHERE id = NEW.source_video_id;
+  END IF;
+  IF NEW.household_id IS NULL THEN
+    NEW.household_id := coalesce(public.default_household_id(auth.uid()), public.default_household_id(NEW.user_id));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assets_set_household_id
+BEFORE INSERT ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_asset_household_id();
+
+CREATE TRIGGER tags_set_household_id
+BEFORE INSERT ON "public"."tags"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_household_id();
+
+CREATE TRIGGER rooms_set_household_id
+BEFORE INSERT ON "public"."rooms"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_household_id();
+
+CREATE TRIGGER scratch_items_set_household_id
+BEFORE INSERT ON "public"."scratch_items"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_household_id();
+
+CREATE TRIGGER share_links_set_household_id
+BEFORE INSERT ON "public"."share_links"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_household_id();
+
+-- An item can only be owned by a member of its household. Checked when the owner or household
+-- changes, so items of members who have since left can still be edited.
+CREATE OR REPLACE FUNCTION public.validate_asset_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = NEW.household_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Item owner % is not a member of household %', NEW.user_id, NEW.household_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assets_validate_owner
+BEFORE INSERT ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_asset_owner();
+
+CREATE TRIGGER assets_validate_owner_change
+BEFORE UPDATE OF user_id, household_id ON "public"."assets"
+FOR EACH ROW
+WHEN (OLD.user_id IS DISTINCT FROM NEW.user_id OR OLD.household_id IS DISTINCT FROM NEW.household_id)
+EXECUTE FUNCTION public.validate_asset_owner();
+
+-- ============================================================================
+-- RLS: from per-user to per-household
+-- ============================================================================
+
+ALTER TABLE "public"."households" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."household_members" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."household_invitations" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their households"
+  ON "public"."households" FOR SELECT
+  USING (public.is_household_member(id));
+
+CREATE POLICY "Users can create households"
+  ON "public"."households" FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = created_by);
+
+CREATE POLICY "Owners can rename their households"
+  ON "public"."households" FOR UPDATE
+  USING (public.household_role(id) = 'owner')
+  WITH CHECK (public.household_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their households"
+  ON "public"."households" FOR DELETE
+  USING (public.household_role(id) = 'owner');
+
+-- Members are added by the creator trigger and by accepting an invitation on the server
+CREATE POLICY "Members can view their household's members"
+  ON "public"."household_members" FOR SELECT
+  USING (public.is_household_member(household_id));
+
+CREATE POLICY "Owners can change member roles"
+  ON "public"."household_members" FOR UPDATE
+  USING (public.household_role(household_id) = 'owner')
+  WITH CHECK (public.household_role(household_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON "public"."household_members" FOR DELETE
+  USING (
+    public.household_role(household_id) = 'owner'
+    OR (SELECT auth.uid()) = user_id
+  );
+
+CREATE POLICY "Owners can view invitations"
+  ON "public"."household_invitations" FOR SELECT
+  USING (public.household_role(household_id) = 'owner');
+
+CREATE POLICY "Owners can invite"
+  ON "public"."household_invitations" FOR INSERT
+  WITH CHECK (public.household_role(household_id) = 'owner' AND (SELECT auth.uid()) = invited_by);
+
+CREATE POLICY "Owners can revoke invitations"
+  ON "public"."household_invitations" FOR UPDATE
+  USING (public.household_role(household_id) = 'owner')
+  WITH CHECK (public.household_role(household_id) = 'owner');
+
+-- Members see each other's names and avatars
+CREATE POLICY "Household members can view each other's profiles" ON public.users
+  FOR SELECT USING (public.shares_household_with(id));
+
+-- Assets
+DROP POLICY IF EXISTS "Assets SELECT access" ON public.assets;
+DROP POLICY IF EXISTS "Users can insert their own assets" ON public.assets;
+DROP POLICY IF EXISTS "Users can update their own assets" ON public.assets;
+DROP POLICY IF EXISTS "Users can delete their own assets" ON public.assets;
+
+-- The Mux webhook looks assets up with the service role, so no mux_asset_id exception is needed
+CREATE POLICY "Assets SELECT access" ON public.assets
+  FOR SELECT USING (public.is_household_member(household_id));
+
+CREATE POLICY "Household editors can add assets" ON public.assets
+  FOR INSERT WITH CHECK (public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can update assets" ON public.assets
+  FOR UPDATE USING (public.can_edit_household(household_id))
+  WITH CHECK (public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can delete assets" ON public.assets
+  FOR DELETE USING (public.can_edit_household(household_id));
+
+-- Tags and rooms
+DROP POLICY IF EXISTS "Users can manage their own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can manage their own rooms" ON public.rooms;
+
+CREATE POLICY "Household members can view tags" ON public.tags
+  FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household editors can add tags" ON public.tags
+  FOR INSERT WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can update tags" ON public.tags
+  FOR UPDATE USING (public.can_edit_household(household_id))
+  WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can delete tags" ON public.tags
+  FOR DELETE USING (public.can_edit_household(household_id));
+
+CREATE POLICY "Household members can view rooms" ON public.rooms
+  FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household editors can add rooms" ON public.rooms
+  FOR INSERT WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can update rooms" ON public.rooms
+  FOR UPDATE USING (public.can_edit_household(household_id))
+  WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can delete rooms" ON public.rooms
+  FOR DELETE USING (public.can_edit_household(household_id));
+
+-- Tag and room assignments: the tag or room must be in the item's household
+DROP POLICY IF EXISTS "Users can manage asset_tags for owned assets and tags" ON public.asset_tags;
+DROP POLICY IF EXISTS "Users can manage asset_rooms for owned assets" ON public.asset_rooms;
+
+CREATE POLICY "Household members can view asset_tags" ON public.asset_tags
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_tags.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can tag assets" ON public.asset_tags
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      JOIN public.tags t ON t.household_id = a.household_id
+      WHERE a.id = asset_tags.asset_id
+      AND t.id = asset_tags.tag_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can untag assets" ON public.asset_tags
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_tags.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household members can view asset_rooms" ON public.asset_rooms
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_rooms.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can place assets in rooms" ON public.asset_rooms
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      JOIN public.rooms r ON r.household_id = a.household_id
+      WHERE a.id = asset_rooms.asset_id
+      AND r.id = asset_rooms.room_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can move assets between rooms" ON public.asset_rooms
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_rooms.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      JOIN public.rooms r ON r.household_id = a.household_id
+      WHERE a.id = asset_rooms.asset_id
+      AND r.id = asset_rooms.room_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can remove assets from rooms" ON public.asset_rooms
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = asset_rooms.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+-- Scratch items are still written by the server only; members can read them
+CREATE POLICY "Household members can view scratch items" ON public.scratch_items
+  FOR SELECT USING (household_id IS NOT NULL AND public.is_household_member(household_id));
+
+-- Creating a share link exposes the household's inventory, so viewers cannot
+DROP POLICY IF EXISTS "Users can create their own share links" ON "public"."share_links";
+
+CREATE POLICY "Users can create their own share links"
+  ON "public"."share_links" FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_household(household_id));
+
+COMMIT;
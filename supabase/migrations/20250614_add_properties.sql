@@ -0,0 +1,227 @@
+-- Properties: the homes, rentals and storage units a household keeps an inventory for.
+-- Rooms were unique per household, so a primary home, a rental unit and a storage unit shared
+-- one mixed list. Rooms now belong to a property, and so does every item and recording:
+-- assets.property_id is the property an item was found in, which is what its room, the merge
+-- prompt and the per-property totals go by. Every existing household gets one property, named
+-- after the household, that takes over its rooms and items.
+
+BEGIN;
+
+-- ============================================================================
+-- Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."properties" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "household_id" UUID NOT NULL REFERENCES "public"."households"(id) ON DELETE CASCADE,
+  "name" TEXT NOT NULL CHECK (length(trim("name")) > 0),
+  "address" TEXT,
+  -- Policy covering the property's contents, for claim paperwork
+  "insurer" TEXT,
+  "policy_number" TEXT,
+  "coverage_limit" NUMERIC CHECK ("coverage_limit" IS NULL OR "coverage_limit" >= 0),
+  "policy_renews_on" DATE,
+  "created_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT properties_household_id_name_key UNIQUE (household_id, name)
+);
+
+COMMENT ON TABLE "public"."properties" IS
+  'A home, rental or storage unit in a household; rooms and items belong to one property';
+COMMENT ON COLUMN "public"."properties"."coverage_limit" IS
+  'Personal property coverage limit of the policy, in the same currency as item values';
+
+CREATE INDEX IF NOT EXISTS idx_properties_household_id ON "public"."properties" (household_id, created_at);
+
+CREATE TRIGGER set_timestamp
+BEFORE UPDATE ON "public"."properties"
+FOR EACH ROW
+EXECUTE FUNCTION trigger_set_timestamp();
+
+ALTER TABLE "public"."users"
+  ADD COLUMN IF NOT EXISTS "active_property_id" UUID REFERENCES "public"."properties"(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN "public"."users"."active_property_id" IS
+  'Property shown on the dashboard and used for new recordings; ignored outside the active household';
+
+-- The property a user's new rows in a household go to: their active property if it is in that
+-- household, otherwise the household's oldest property
+CREATE OR REPLACE FUNCTION public.default_property_id(p_household_id UUID, p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT p.id
+  FROM public.properties p
+  LEFT JOIN public.users u ON u.id = p_user_id
+  WHERE p.household_id = p_household_id
+  ORDER BY (p.id = u.active_property_id) DESC NULLS LAST,
+           p.created_at
+  LIMIT 1;
+$$;
+
+-- Every household starts with one property, named after it
+CREATE OR REPLACE FUNCTION public.create_default_property()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.properties (household_id, name, created_by)
+  VALUES (NEW.id, NEW.name, NEW.created_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_property
+AFTER INSERT ON "public"."households"
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_property();
+
+INSERT INTO "public"."properties" (household_id, name, created_by)
+SELECT h.id, h.name, h.created_by
+FROM "public"."households" h
+WHERE NOT EXISTS (SELECT 1 FROM "public"."properties" p WHERE p.household_id = h.id);
+
+-- A household keeps at least one property. Deleting the household itself takes them all.
+CREATE OR REPLACE FUNCTION public.protect_last_property()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.properties
+       WHERE household_id = OLD.household_id AND id <> OLD.id
+     ) THEN
+    RAISE EXCEPTION 'A household must keep at least one property'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER protect_last_property
+BEFORE DELETE ON "public"."properties"
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_last_property();
+
+-- ============================================================================
+-- Rooms and items belong to a property
+-- ============================================================================
+
+ALTER TABLE "public"."rooms"
+  ADD COLUMN IF NOT EXISTS "property_id" UUID REFERENCES "public"."properties"(id) ON DELETE CASCADE;
+-- Items keep their property: it cannot be deleted while items are still in it
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "property_id" UUID REFERENCES "public"."properties"(id);
+
+COMMENT ON COLUMN "public"."assets"."property_id" IS
+  'Property the item or recording is in; follows the item''s room, and items found in a recording start in its property';
+
+UPDATE "public"."rooms" SET property_id = public.default_property_id(household_id, NULL) WHERE property_id IS NULL;
+UPDATE "public"."assets" SET property_id = public.default_property_id(household_id, NULL) WHERE property_id IS NULL;
+
+ALTER TABLE "public"."rooms" ALTER COLUMN "property_id" SET NOT NULL;
+ALTER TABLE "public"."assets" ALTER COLUMN "property_id" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_property_id ON "public"."rooms" (property_id);
+CREATE INDEX IF NOT EXISTS idx_assets_property_id ON "public"."assets" (property_id);
+
+-- Room names are unique within the property: every property can have a Kitchen
+ALTER TABLE "public"."rooms" DROP CONSTRAINT IF EXISTS rooms_household_id_name_key;
+ALTER TABLE "public"."rooms" ADD CONSTRAINT rooms_property_id_name_key UNIQUE (property_id, name);
+
+-- Rows written without a property_id go to the writer's current property in their household;
+-- items found in a recording go to the recording's property. The property must be in the
+-- row's household.
+CREATE OR REPLACE FUNCTION public.set_property_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_source_property_id UUID;
+BEGIN
+  -- Nested so rooms, which have no source_video_id, never evaluate it
+  IF NEW.property_id IS NULL AND TG_TABLE_NAME = 'assets' THEN
+    IF NEW.source_video_id IS NOT NULL THEN
+      SELECT property_id INTO v_source_property_id FROM public.assets WHERE id = NEW.source_video_id;
+      NEW.property_id := v_source_property_id;
+    END IF;
+  END IF;
+  IF NEW.property_id IS NULL THEN
+    NEW.property_id := coalesce(
+      public.default_property_id(NEW.household_id, auth.uid()),
+      public.default_property_id(NEW.household_id, NEW.user_id)
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.properties
+    WHERE id = NEW.property_id AND household_id = NEW.household_id
+  ) THEN
+    RAISE EXCEPTION 'Property % is not in household %', NEW.property_id, NEW.household_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after the *_set_household_id triggers, which it depends on
+CREATE TRIGGER assets_set_property_id
+BEFORE INSERT OR UPDATE OF property_id, household_id ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_property_id();
+
+CREATE TRIGGER rooms_set_property_id
+BEFORE INSERT OR UPDATE OF property_id, household_id ON "public"."rooms"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_property_id();
+
+-- Putting an item in a room of another property moves the item there
+CREATE OR REPLACE FUNCTION public.follow_room_property()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.assets a
+  SET property_id = r.property_id
+  FROM public.rooms r
+  WHERE r.id = NEW.room_id
+    AND a.id = NEW.asset_id
+    AND a.property_id IS DISTINCT FROM r.property_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER asset_rooms_follow_room_property
+AFTER INSERT OR UPDATE OF room_id ON "public"."asset_rooms"
+FOR EACH ROW
+EXECUTE FUNCTION public.follow_room_property();
+
+-- ============================================================================
+-- Row level security
+-- ============================================================================
+
+ALTER TABLE "public"."properties" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view properties" ON public.properties
+  FOR SELECT USING (public.is_household_member(household_id));
+CREATE POLICY "Household editors can add properties" ON public.properties
+  FOR INSERT WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can update properties" ON public.properties
+  FOR UPDATE USING (public.can_edit_household(household_id))
+  WITH CHECK (public.can_edit_household(household_id));
+CREATE POLICY "Household editors can delete properties" ON public.properties
+  FOR DELETE USING (public.can_edit_household(household_id));
+
+COMMIT;
@@ -0,0 +1,141 @@
+-- Server-side inventory search.
+-- Assets get a weighted full-text document over name (A), description (B) and transcript
+-- (D), plus trigram indexes so misspelled queries ("sofa" vs "sopha") still match.
+-- public.search_inventory ranks one property's assets by full-text rank and fuzzy
+-- similarity over names, descriptions, tag and room names and transcripts. Snippets and
+-- transcript offsets are built by lib/search from the returned ids.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. SEARCH DOCUMENT AND INDEXES
+-- ============================================================================
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "search_document" TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE("name", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE("description", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE("transcript_text", '')), 'D')
+  ) STORED;
+
+COMMENT ON COLUMN "public"."assets"."search_document" IS
+  'Weighted full-text document (name A, description B, transcript D) used by search_inventory';
+
+CREATE INDEX IF NOT EXISTS idx_assets_search_document
+  ON "public"."assets" USING gin ("search_document");
+
+CREATE INDEX IF NOT EXISTS idx_assets_name_trgm
+  ON "public"."assets" USING gin ("name" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_assets_description_trgm
+  ON "public"."assets" USING gin ("description" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_assets_transcript_text_trgm
+  ON "public"."assets" USING gin ("transcript_text" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_tags_name_trgm
+  ON "public"."tags" USING gin ("name" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_name_trgm
+  ON "public"."rooms" USING gin ("name" gin_trgm_ops);
+
+-- ============================================================================
+-- 2. SEARCH FUNCTION
+-- ============================================================================
+
+-- Ranked matches within one property. Runs with the caller's rights; callers pass the
+-- property they resolved for the user. Trigram matching ignores case, so the columns are
+-- compared as stored and can use their indexes. pg_trgm is in public locally and may be moved to
+-- extensions in hosted projects, so both are on the search path.
+CREATE OR REPLACE FUNCTION public.search_inventory(
+  p_property_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  asset_id UUID,
+  rank REAL,
+  matched_fields TEXT[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsq,
+      lower(btrim(p_query)) AS term
+  ),
+  labels AS (
+    SELECT at.asset_id, t.name AS label, 'tag'::TEXT AS kind
+    FROM public.asset_tags AS at
+    JOIN public.tags AS t ON t.id = at.tag_id
+    JOIN public.assets AS a ON a.id = at.asset_id
+    WHERE a.property_id = p_property_id
+    UNION ALL
+    SELECT ar.asset_id, r.name, 'room'
+    FROM public.asset_rooms AS ar
+    JOIN public.rooms AS r ON r.id = ar.room_id
+    WHERE r.property_id = p_property_id
+  ),
+  label_hits AS (
+    SELECT
+      l.asset_id,
+      max(GREATEST(
+        word_similarity(q.term, l.label),
+        CASE WHEN to_tsvector('english', l.label) @@ q.tsq THEN 1 ELSE 0 END
+      )) AS score,
+      array_agg(DISTINCT l.kind) AS kinds
+    FROM labels AS l, query AS q
+    WHERE q.term <% l.label OR to_tsvector('english', l.label) @@ q.tsq
+    GROUP BY l.asset_id
+  ),
+  scored AS (
+    SELECT
+      a.id,
+      ts_rank(a.search_document, q.tsq) AS fts_rank,
+      word_similarity(q.term, COALESCE(a.name, '')) AS name_sim,
+      word_similarity(q.term, COALESCE(a.description, '')) AS description_sim,
+      word_similarity(q.term, COALESCE(a.transcript_text, '')) AS transcript_sim,
+      to_tsvector('english', COALESCE(a.name, '')) @@ q.tsq AS name_fts,
+      to_tsvector('english', COALESCE(a.description, '')) @@ q.tsq AS description_fts,
+      to_tsvector('english', COALESCE(a.transcript_text, '')) @@ q.tsq AS transcript_fts,
+      COALESCE(lh.score, 0) AS label_score,
+      COALESCE(lh.kinds, ARRAY[]::TEXT[]) AS label_kinds
+    FROM public.assets AS a
+    CROSS JOIN query AS q
+    LEFT JOIN label_hits AS lh ON lh.asset_id = a.id
+    WHERE a.property_id = p_property_id
+      AND (
+        a.search_document @@ q.tsq
+        OR q.term <% a.name
+        OR q.term <% a.description
+        OR q.term <% a.transcript_text
+        OR lh.asset_id IS NOT NULL
+      )
+  )
+  SELECT
+    s.id,
+    (
+      s.fts_rank
+      + 0.6 * s.name_sim
+      + 0.3 * s.description_sim
+      + 0.4 * s.label_score
+      + 0.2 * s.transcript_sim
+    )::REAL,
+    array_remove(ARRAY[
+      CASE WHEN s.name_fts OR s.name_sim >= 0.6 THEN 'name' END,
+      CASE WHEN s.description_fts OR s.description_sim >= 0.6 THEN 'description' END,
+      CASE WHEN 'tag' = ANY (s.label_kinds) THEN 'tag' END,
+      CASE WHEN 'room' = ANY (s.label_kinds) THEN 'room' END,
+      CASE WHEN s.transcript_fts OR s.transcript_sim >= 0.6 THEN 'transcript' END
+    ], NULL)
+  FROM scored AS s
+  ORDER BY 2 DESC, s.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100);
+$function$;
+
+COMMENT ON FUNCTION public.search_inventory(UUID, TEXT, INTEGER) IS
+  'Ranked full-text and trigram matches over item names, descriptions, tags, rooms and transcripts in one property';
+
+COMMIT;
@@ -0,0 +1,83 @@
+-- Review queue for AI-generated items.
+-- Items the merge pipeline proposes are stored with review_status = 'pending' together with
+-- the model's confidence and where the proposal came from. They stay out of the inventory
+-- (totals, reports, exports, share links, search) until a household owner or editor accepts
+-- them. Rejected proposals are kept so a re-run does not propose them again.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. REVIEW COLUMNS
+-- ============================================================================
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "review_status" TEXT NOT NULL DEFAULT 'accepted'
+    CHECK ("review_status" IN ('pending', 'accepted', 'rejected')),
+  ADD COLUMN IF NOT EXISTS "ai_confidence" NUMERIC(4, 3)
+    CHECK ("ai_confidence" IS NULL OR ("ai_confidence" >= 0 AND "ai_confidence" <= 1)),
+  ADD COLUMN IF NOT EXISTS "ai_provenance" JSONB,
+  ADD COLUMN IF NOT EXISTS "reviewed_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "reviewed_at" TIMESTAMPTZ;
+
+COMMENT ON COLUMN "public"."assets"."review_status" IS
+  'pending: proposed by the AI and awaiting review; accepted: part of the inventory; rejected: dismissed by a reviewer';
+COMMENT ON COLUMN "public"."assets"."ai_confidence" IS
+  'Model confidence (0-1) that the proposed item is real and distinct, when it was AI-generated';
+COMMENT ON COLUMN "public"."assets"."ai_provenance" IS
+  'How an AI-generated item was proposed: pipeline step, model, detections and suggested room/tags, and merges made during review';
+
+CREATE INDEX IF NOT EXISTS idx_assets_pending_review
+  ON "public"."assets" (property_id, source_video_id)
+  WHERE review_status = 'pending';
+
+-- ============================================================================
+-- 2. AUDIT REVIEW DECISIONS
+-- ============================================================================
+
+-- Same as 20250611_add_audit_log.sql, with review_status added to the audited fields so
+-- accepting and rejecting proposals is part of the hash chain
+CREATE OR REPLACE FUNCTION public.audit_asset_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_fields TEXT[] := ARRAY['name', 'description', 'estimated_value', 'purchase_price', 'purchase_date', 'review_status'];
+  v_field TEXT;
+  v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  v_changes JSONB := '{}'::jsonb;
+  v_user_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE NEW.user_id END;
+  v_asset_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END;
+BEGIN
+  FOREACH v_field IN ARRAY v_fields LOOP
+    IF (v_old -> v_field) IS DISTINCT FROM (v_new -> v_field) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field,
+        jsonb_build_object('before', COALESCE(v_old -> v_field, 'null'::jsonb), 'after', COALESCE(v_new -> v_field, 'null'::jsonb))
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.append_audit_entry(
+    v_user_id,
+    v_asset_id,
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    v_changes
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_asset_change ON "public"."assets";
+CREATE TRIGGER audit_asset_change
+AFTER INSERT OR DELETE OR UPDATE OF name, description, estimated_value, purchase_price, purchase_date, review_status ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_asset_change();
+
+COMMIT;
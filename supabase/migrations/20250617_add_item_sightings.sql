@@ -0,0 +1,71 @@
+-- Manual merge and split of inventory items.
+-- An item points at the recording it was found in through source_video_id and
+-- item_timestamp. When duplicates are merged, the surviving item keeps every other moment
+-- the item was filmed as a sighting, so none of the footage is lost. Splitting an item that
+-- glued two things together creates new items at timestamps the user picks. Both operations
+-- are recorded in ai_provenance (merged_from / merged_into, split_from / split_into) and,
+-- through the existing triggers, in the audit log.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. SIGHTINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."item_sightings" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "asset_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "source_video_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "item_timestamp" DOUBLE PRECISION,
+  -- No foreign key: the item the sighting was taken from is usually merged away
+  "origin_asset_id" UUID,
+  "created_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE ("asset_id", "source_video_id", "item_timestamp")
+);
+
+COMMENT ON TABLE "public"."item_sightings" IS
+  'Further appearances of an item in recordings, besides its own source_video_id and item_timestamp';
+COMMENT ON COLUMN "public"."item_sightings"."origin_asset_id" IS
+  'The item this sighting belonged to before it was merged into asset_id';
+
+CREATE INDEX IF NOT EXISTS idx_item_sightings_asset_id ON "public"."item_sightings" (asset_id);
+CREATE INDEX IF NOT EXISTS idx_item_sightings_source_video_id ON "public"."item_sightings" (source_video_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE "public"."item_sightings" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view item sightings" ON "public"."item_sightings"
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_sightings.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+-- Both the item and the recording must be in a household the user can edit
+CREATE POLICY "Household editors can add item sightings" ON "public"."item_sightings"
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      JOIN public.assets v ON v.id = item_sightings.source_video_id
+      WHERE a.id = item_sightings.asset_id
+      AND v.household_id = a.household_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can remove item sightings" ON "public"."item_sightings"
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_sightings.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+COMMIT;
@@ -0,0 +1,137 @@
+-- Duplicate detection across recordings.
+-- Re-recording a room months later proposes every sofa and TV again under a new
+-- source_video_id. lib/items/duplicates compares items from different recordings of a
+-- property (name, description, room, value and a perceptual hash of the thumbnail) and
+-- offers to link likely pairs. Linking merges the newer item into the older one, so the
+-- newer recording becomes a sighting of it, and last_seen_at moves forward. Pairs a user
+-- says are different things are remembered so they are not offered again.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. THUMBNAIL HASH AND LAST SEEN
+-- ============================================================================
+
+ALTER TABLE "public"."assets"
+  ADD COLUMN IF NOT EXISTS "thumbnail_hash" TEXT
+    CHECK ("thumbnail_hash" IS NULL OR "thumbnail_hash" ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS "last_seen_at" TIMESTAMPTZ;
+
+COMMENT ON COLUMN "public"."assets"."thumbnail_hash" IS
+  'dHash (16 hex digits) of the item thumbnail, computed when duplicates are looked for';
+COMMENT ON COLUMN "public"."assets"."last_seen_at" IS
+  'When the latest recording the item appears in was made: its own or one of its sightings';
+
+-- Items start out last seen in the recording they were found in
+CREATE OR REPLACE FUNCTION public.set_item_last_seen()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.source_video_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.source_video_id IS DISTINCT FROM OLD.source_video_id) THEN
+    NEW.last_seen_at := GREATEST(
+      NEW.last_seen_at,
+      (SELECT v.created_at FROM public.assets AS v WHERE v.id = NEW.source_video_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_item_last_seen ON "public"."assets";
+CREATE TRIGGER set_item_last_seen
+BEFORE INSERT OR UPDATE OF source_video_id ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.set_item_last_seen();
+
+-- A new sighting moves last_seen_at forward when its recording is newer
+CREATE OR REPLACE FUNCTION public.bump_item_last_seen()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.assets AS a
+  SET last_seen_at = GREATEST(a.last_seen_at, v.created_at)
+  FROM public.assets AS v
+  WHERE a.id = NEW.asset_id
+    AND v.id = NEW.source_video_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_item_last_seen ON "public"."item_sightings";
+CREATE TRIGGER bump_item_last_seen
+AFTER INSERT ON "public"."item_sightings"
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_item_last_seen();
+
+UPDATE "public"."assets" AS i
+SET last_seen_at = GREATEST(
+  v.created_at,
+  (
+    SELECT max(sv.created_at)
+    FROM public.item_sightings AS s
+    JOIN public.assets AS sv ON sv.id = s.source_video_id
+    WHERE s.asset_id = i.id
+  )
+)
+FROM public.assets AS v
+WHERE v.id = i.source_video_id
+  AND i.media_type = 'item';
+
+-- ============================================================================
+-- 2. DISMISSED PAIRS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "public"."item_duplicate_dismissals" (
+  "asset_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "other_asset_id" UUID NOT NULL REFERENCES "public"."assets"(id) ON DELETE CASCADE,
+  "dismissed_by" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY ("asset_id", "other_asset_id"),
+  -- Each pair is stored once, lowest id first
+  CHECK ("asset_id" < "other_asset_id")
+);
+
+COMMENT ON TABLE "public"."item_duplicate_dismissals" IS
+  'Pairs of items a user said are different things, so duplicate detection stops offering them';
+
+CREATE INDEX IF NOT EXISTS idx_item_duplicate_dismissals_other
+  ON "public"."item_duplicate_dismissals" (other_asset_id);
+
+ALTER TABLE "public"."item_duplicate_dismissals" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view dismissed duplicates" ON "public"."item_duplicate_dismissals"
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_duplicate_dismissals.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can dismiss duplicates" ON "public"."item_duplicate_dismissals"
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      JOIN public.assets b ON b.id = item_duplicate_dismissals.other_asset_id
+      WHERE a.id = item_duplicate_dismissals.asset_id
+      AND b.household_id = a.household_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can undo dismissals" ON "public"."item_duplicate_dismissals"
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_duplicate_dismissals.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+COMMIT;
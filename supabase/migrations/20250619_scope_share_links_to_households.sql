@@ -0,0 +1,81 @@
+-- Share links belong to the household, not to whoever created them.
+-- loadSharedInventory already reads a link's household, but listing and revoking links, and
+-- their RLS policies, still keyed on the creator. Owners could not see or revoke links an
+-- editor made, and a removed member's links kept working. Owners and editors now see and
+-- revoke every link of their household, and removing a member revokes the links they made
+-- there.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own share links" ON "public"."share_links";
+DROP POLICY IF EXISTS "Users can revoke their own share links" ON "public"."share_links";
+DROP POLICY IF EXISTS "Users can delete their own share links" ON "public"."share_links";
+
+CREATE POLICY "Household editors can view share links"
+  ON "public"."share_links" FOR SELECT
+  USING (public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can revoke share links"
+  ON "public"."share_links" FOR UPDATE
+  USING (public.can_edit_household(household_id))
+  WITH CHECK (public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can delete share links"
+  ON "public"."share_links" FOR DELETE
+  USING (public.can_edit_household(household_id));
+
+DROP POLICY IF EXISTS "Users can view access to their share links" ON "public"."share_link_access_log";
+
+CREATE POLICY "Household editors can view access to share links"
+  ON "public"."share_link_access_log" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.share_links l
+      WHERE l.id = share_link_access_log.share_link_id
+      AND public.can_edit_household(l.household_id)
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_share_links_household_id ON "public"."share_links" (household_id, created_at);
+
+-- ============================================================================
+-- 2. REVOKE A REMOVED MEMBER'S LINKS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.revoke_member_share_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.share_links
+  SET revoked_at = now()
+  WHERE household_id = OLD.household_id
+    AND user_id = OLD.user_id
+    AND revoked_at IS NULL;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_member_share_links ON "public"."household_members";
+CREATE TRIGGER revoke_member_share_links
+AFTER DELETE ON "public"."household_members"
+FOR EACH ROW
+EXECUTE FUNCTION public.revoke_member_share_links();
+
+-- Links of members removed before this migration
+UPDATE "public"."share_links" AS l
+SET revoked_at = now()
+WHERE l.revoked_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.household_members m
+    WHERE m.household_id = l.household_id
+      AND m.user_id = l.user_id
+  );
+
+COMMIT;
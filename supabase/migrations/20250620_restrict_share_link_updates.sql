@@ -0,0 +1,38 @@
+-- Share links can only be revoked, not edited.
+-- The UPDATE policy lets household editors write any column through PostgREST, so a link
+-- could be un-revoked, kept alive past SHARE_LINK_MAX_DAYS or pointed at another room or
+-- token. A trigger now allows only two changes: setting revoked_at once, and the server
+-- recording last_accessed_at. Links cannot outlive 90 days from creation.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.guard_share_link_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'A revoked share link cannot be restored' USING ERRCODE = 'check_violation';
+  END IF;
+  IF (NEW.id, NEW.user_id, NEW.household_id, NEW.token_hash, NEW.label, NEW.room_id, NEW.tag_id, NEW.expires_at, NEW.created_at)
+     IS DISTINCT FROM
+     (OLD.id, OLD.user_id, OLD.household_id, OLD.token_hash, OLD.label, OLD.room_id, OLD.tag_id, OLD.expires_at, OLD.created_at) THEN
+    RAISE EXCEPTION 'Share links can only be revoked' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_share_link_update ON "public"."share_links";
+CREATE TRIGGER guard_share_link_update
+BEFORE UPDATE ON "public"."share_links"
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_share_link_update();
+
+-- Matches SHARE_LINK_MAX_DAYS in lib/share; expires_at is computed on the app server, so a
+-- few minutes of clock skew are tolerated
+ALTER TABLE "public"."share_links"
+  ADD CONSTRAINT "share_links_max_lifetime" CHECK ("expires_at" <= "created_at" + INTERVAL '90 days 5 minutes');
+
+COMMIT;
@@ -0,0 +1,66 @@
+-- Signed-in users can no longer rewrite a session's frame counters or move it backwards.
+-- "Users can update their own sessions" covered every column, so a client could reset
+-- frame_count and frame_bytes to 0, or put a completed session back to 'recording', and get
+-- past the limits record_session_frame enforces. Users now only get UPDATE on the columns the
+-- lifecycle routes write, and a trigger allows them only the forward transitions those routes
+-- make. The merge statuses and the counters stay with the service role.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. COLUMNS USERS CAN WRITE
+-- ============================================================================
+
+REVOKE UPDATE ON "public"."sessions" FROM anon, authenticated;
+GRANT UPDATE (
+  "status",
+  "scratch_done",
+  "mux_upload_id",
+  "asset_id",
+  "started_at",
+  "last_heartbeat_at",
+  "completed_at",
+  "aborted_at",
+  "abort_reason"
+) ON "public"."sessions" TO authenticated;
+
+DROP POLICY IF EXISTS "Users can update their own sessions" ON "public"."sessions";
+
+CREATE POLICY "Users can update their own sessions"
+  ON "public"."sessions" FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================================
+-- 2. TRANSITIONS USERS CAN MAKE
+-- ============================================================================
+
+-- Mirrors the client-driven part of SESSION_TRANSITIONS in lib/sessions
+CREATE OR REPLACE FUNCTION public.guard_session_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND (OLD.status, NEW.status) NOT IN (
+       ('created', 'recording'),
+       ('created', 'aborted'),
+       ('recording', 'completed'),
+       ('recording', 'aborted')
+     ) THEN
+    RAISE EXCEPTION 'Cannot move session from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_session_status ON "public"."sessions";
+CREATE TRIGGER guard_session_status
+BEFORE UPDATE OF status ON "public"."sessions"
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_session_status();
+
+COMMIT;
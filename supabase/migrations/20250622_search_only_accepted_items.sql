@@ -0,0 +1,106 @@
+-- Search only ranks accepted items.
+-- lib/search dropped pending and rejected proposals after search_inventory had already applied
+-- its LIMIT, so a page of results could come back short or empty while accepted matches
+-- ranked below the proposals. The filter now runs inside the function, before the LIMIT.
+-- Recordings and photos are always accepted, so they are still found.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. SEARCH FUNCTION
+-- ============================================================================
+
+-- Same as 20250615_add_inventory_search, with the review_status filter in the WHERE clause
+CREATE OR REPLACE FUNCTION public.search_inventory(
+  p_property_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  asset_id UUID,
+  rank REAL,
+  matched_fields TEXT[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsq,
+      lower(btrim(p_query)) AS term
+  ),
+  labels AS (
+    SELECT at.asset_id, t.name AS label, 'tag'::TEXT AS kind
+    FROM public.asset_tags AS at
+    JOIN public.tags AS t ON t.id = at.tag_id
+    JOIN public.assets AS a ON a.id = at.asset_id
+    WHERE a.property_id = p_property_id
+    UNION ALL
+    SELECT ar.asset_id, r.name, 'room'
+    FROM public.asset_rooms AS ar
+    JOIN public.rooms AS r ON r.id = ar.room_id
+    WHERE r.property_id = p_property_id
+  ),
+  label_hits AS (
+    SELECT
+      l.asset_id,
+      max(GREATEST(
+        word_similarity(q.term, l.label),
+        CASE WHEN to_tsvector('english', l.label) @@ q.tsq THEN 1 ELSE 0 END
+      )) AS score,
+      array_agg(DISTINCT l.kind) AS kinds
+    FROM labels AS l, query AS q
+    WHERE q.term <% l.label OR to_tsvector('english', l.label) @@ q.tsq
+    GROUP BY l.asset_id
+  ),
+  scored AS (
+    SELECT
+      a.id,
+      ts_rank(a.search_document, q.tsq) AS fts_rank,
+      word_similarity(q.term, COALESCE(a.name, '')) AS name_sim,
+      word_similarity(q.term, COALESCE(a.description, '')) AS description_sim,
+      word_similarity(q.term, COALESCE(a.transcript_text, '')) AS transcript_sim,
+      to_tsvector('english', COALESCE(a.name, '')) @@ q.tsq AS name_fts,
+      to_tsvector('english', COALESCE(a.description, '')) @@ q.tsq AS description_fts,
+      to_tsvector('english', COALESCE(a.transcript_text, '')) @@ q.tsq AS transcript_fts,
+      COALESCE(lh.score, 0) AS label_score,
+      COALESCE(lh.kinds, ARRAY[]::TEXT[]) AS label_kinds
+    FROM public.assets AS a
+    CROSS JOIN query AS q
+    LEFT JOIN label_hits AS lh ON lh.asset_id = a.id
+    WHERE a.property_id = p_property_id
+      AND a.review_status = 'accepted'
+      AND (
+        a.search_document @@ q.tsq
+        OR q.term <% a.name
+        OR q.term <% a.description
+        OR q.term <% a.transcript_text
+        OR lh.asset_id IS NOT NULL
+      )
+  )
+  SELECT
+    s.id,
+    (
+      s.fts_rank
+      + 0.6 * s.name_sim
+      + 0.3 * s.description_sim
+      + 0.4 * s.label_score
+      + 0.2 * s.transcript_sim
+    )::REAL,
+    array_remove(ARRAY[
+      CASE WHEN s.name_fts OR s.name_sim >= 0.6 THEN 'name' END,
+      CASE WHEN s.description_fts OR s.description_sim >= 0.6 THEN 'description' END,
+      CASE WHEN 'tag' = ANY (s.label_kinds) THEN 'tag' END,
+      CASE WHEN 'room' = ANY (s.label_kinds) THEN 'room' END,
+      CASE WHEN s.transcript_fts OR s.transcript_sim >= 0.6 THEN 'transcript' END
+    ], NULL)
+  FROM scored AS s
+  ORDER BY 2 DESC, s.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100);
+$function$;
+
+COMMENT ON FUNCTION public.search_inventory(UUID, TEXT, INTEGER) IS
+  'Ranked full-text and trigram matches over accepted item names, descriptions, tags, rooms and transcripts in one property';
+
+COMMIT;
@@ -0,0 +1,204 @@
+-- Merging and splitting items in one transaction.
+-- lib/items wrote a merge or a split as a chain of separate requests (tags, sightings, the
+-- kept item, each merged item; or the new items, their tags and room, the original). A failure
+-- halfway left duplicates merged but not rejected, or split items without their room. Each
+-- operation is now one function call, as with claim_jobs and record_session_frame. lib/items
+-- still works out the values; the functions lock the items and apply every write together.
+-- The functions run with the caller's rights, so the existing RLS policies still apply.
+--
+-- item_sightings only treated a sighting as a repeat when item_timestamp was set, since NULLs
+-- are distinct in a plain UNIQUE constraint. The constraint now treats NULLs as equal.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. SIGHTINGS WITHOUT A TIMESTAMP
+-- ============================================================================
+
+-- Keep the first of any repeated sighting without a timestamp
+DELETE FROM "public"."item_sightings" AS s
+USING "public"."item_sightings" AS kept
+WHERE s.item_timestamp IS NULL
+  AND kept.item_timestamp IS NULL
+  AND kept.asset_id = s.asset_id
+  AND kept.source_video_id = s.source_video_id
+  AND (kept.created_at, kept.id) < (s.created_at, s.id);
+
+ALTER TABLE "public"."item_sightings"
+  DROP CONSTRAINT IF EXISTS "item_sightings_asset_id_source_video_id_item_timestamp_key";
+
+ALTER TABLE "public"."item_sightings"
+  ADD CONSTRAINT "item_sightings_asset_id_source_video_id_item_timestamp_key"
+  UNIQUE NULLS NOT DISTINCT ("asset_id", "source_video_id", "item_timestamp");
+
+-- ============================================================================
+-- 2. MERGE
+-- ============================================================================
+
+-- Merges p_source_ids into p_target_id: copies their tags, adds p_sightings to the target,
+-- updates the target (accepting it if it was pending) and rejects the sources, each with its
+-- provenance from p_source_provenance (keyed by id). p_name NULL keeps the target's name.
+-- Returns how many sightings were added.
+CREATE OR REPLACE FUNCTION public.merge_inventory_items(
+  p_user_id UUID,
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_name TEXT,
+  p_description TEXT,
+  p_estimated_value NUMERIC,
+  p_value_edited BOOLEAN,
+  p_target_provenance JSONB,
+  p_source_provenance JSONB,
+  p_sightings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_locked INTEGER;
+  v_added INTEGER;
+BEGIN
+  -- A concurrent merge, split or review of the same items waits for this one
+  PERFORM 1
+  FROM public.assets AS a
+  WHERE a.id = p_target_id OR a.id = ANY (p_source_ids)
+  FOR UPDATE;
+  GET DIAGNOSTICS v_locked = ROW_COUNT;
+  IF v_locked <> cardinality(p_source_ids) + 1 THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.assets AS a
+    WHERE (a.id = p_target_id OR a.id = ANY (p_source_ids))
+      AND a.review_status = 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'Rejected items cannot be merged' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.asset_tags (asset_id, tag_id)
+  SELECT DISTINCT p_target_id, at.tag_id
+  FROM public.asset_tags AS at
+  WHERE at.asset_id = ANY (p_source_ids)
+  ON CONFLICT (asset_id, tag_id) DO NOTHING;
+
+  INSERT INTO public.item_sightings (asset_id, source_video_id, item_timestamp, origin_asset_id, created_by)
+  SELECT p_target_id, s.source_video_id, s.item_timestamp, s.origin_asset_id, p_user_id
+  FROM jsonb_to_recordset(COALESCE(p_sightings, '[]'::JSONB))
+    AS s(source_video_id UUID, item_timestamp DOUBLE PRECISION, origin_asset_id UUID)
+  ON CONFLICT (asset_id, source_video_id, item_timestamp) DO NOTHING;
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  UPDATE public.assets AS a
+  SET name = COALESCE(p_name, a.name),
+      description = p_description,
+      estimated_value = p_estimated_value,
+      value_source = CASE WHEN p_value_edited THEN 'user_edit' ELSE a.value_source END,
+      review_status = CASE WHEN a.review_status = 'pending' THEN 'accepted' ELSE a.review_status END,
+      reviewed_by = CASE WHEN a.review_status = 'pending' THEN p_user_id ELSE a.reviewed_by END,
+      reviewed_at = CASE WHEN a.review_status = 'pending' THEN now() ELSE a.reviewed_at END,
+      ai_provenance = p_target_provenance
+  WHERE a.id = p_target_id;
+
+  UPDATE public.assets AS a
+  SET review_status = 'rejected',
+      reviewed_by = p_user_id,
+      reviewed_at = now(),
+      ai_provenance = p_source_provenance -> a.id::TEXT
+  WHERE a.id = ANY (p_source_ids);
+
+  RETURN v_added;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_inventory_items(UUID, UUID, UUID[], TEXT, TEXT, NUMERIC, BOOLEAN, JSONB, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_inventory_items(UUID, UUID, UUID[], TEXT, TEXT, NUMERIC, BOOLEAN, JSONB, JSONB, JSONB) TO authenticated, service_role;
+
+-- ============================================================================
+-- 3. SPLIT
+-- ============================================================================
+
+-- Creates one item per element of p_parts (name, description, estimated_value, category,
+-- item_timestamp) in the same recording, household and property as p_item_id, with its room,
+-- tags and review status and p_provenance. The original lists the new items in split_into.
+-- Returns the new ids in the order of p_parts.
+CREATE OR REPLACE FUNCTION public.split_item(
+  p_user_id UUID,
+  p_item_id UUID,
+  p_parts JSONB,
+  p_provenance JSONB
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_item public.assets%ROWTYPE;
+  v_part RECORD;
+  v_id UUID;
+  v_ids UUID[] := ARRAY[]::UUID[];
+  v_created JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_item
+  FROM public.assets AS a
+  WHERE a.id = p_item_id AND a.media_type = 'item'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_item.review_status = 'rejected' THEN
+    RAISE EXCEPTION 'Rejected items cannot be split' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_part IN
+    SELECT p.*
+    FROM jsonb_array_elements(p_parts) WITH ORDINALITY AS e(part, position),
+      jsonb_to_record(e.part)
+        AS p(name TEXT, description TEXT, estimated_value NUMERIC, category TEXT, item_timestamp DOUBLE PRECISION)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO public.assets (
+      user_id, household_id, property_id, name, description, estimated_value, value_source, category,
+      media_type, media_url, is_source_video, source_video_id, item_timestamp, mux_asset_id, mux_playback_id,
+      review_status, reviewed_by, reviewed_at, ai_provenance
+    )
+    VALUES (
+      v_item.user_id, v_item.household_id, v_item.property_id, v_part.name, v_part.description,
+      v_part.estimated_value, CASE WHEN v_part.estimated_value IS NOT NULL THEN 'user_edit' END, v_part.category,
+      'item', '', false, v_item.source_video_id, v_part.item_timestamp, v_item.mux_asset_id, v_item.mux_playback_id,
+      v_item.review_status,
+      CASE WHEN v_item.review_status = 'accepted' THEN p_user_id END,
+      CASE WHEN v_item.review_status = 'accepted' THEN now() END,
+      p_provenance
+    )
+    RETURNING id INTO v_id;
+
+    v_ids := v_ids || v_id;
+    v_created := v_created || jsonb_build_array(jsonb_build_object('id', v_id, 'name', v_part.name));
+  END LOOP;
+
+  INSERT INTO public.asset_tags (asset_id, tag_id)
+  SELECT new_id, at.tag_id
+  FROM public.asset_tags AS at, unnest(v_ids) AS new_id
+  WHERE at.asset_id = p_item_id
+  ON CONFLICT (asset_id, tag_id) DO NOTHING;
+
+  INSERT INTO public.asset_rooms (asset_id, room_id)
+  SELECT new_id, ar.room_id
+  FROM public.asset_rooms AS ar, unnest(v_ids) AS new_id
+  WHERE ar.asset_id = p_item_id;
+
+  UPDATE public.assets AS a
+  SET ai_provenance = COALESCE(a.ai_provenance, '{"source": "merge_with_scratch"}'::JSONB)
+    || jsonb_build_object('split_into', COALESCE(a.ai_provenance -> 'split_into', '[]'::JSONB) || v_created)
+  WHERE a.id = p_item_id;
+
+  RETURN v_ids;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.split_item(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.split_item(UUID, UUID, JSONB, JSONB) TO authenticated, service_role;
+
+COMMIT;
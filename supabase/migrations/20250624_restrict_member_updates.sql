@@ -0,0 +1,11 @@
+-- Owners can only change a member's role.
+-- "Owners can change member roles" allowed UPDATE on every column of household_members, so an
+-- owner could move a membership to another household_id or hand it to another user_id. Signed-in
+-- users now only get UPDATE on role; memberships are still created and removed as before.
+
+BEGIN;
+
+REVOKE UPDATE ON "public"."household_members" FROM anon, authenticated;
+GRANT UPDATE ("role") ON "public"."household_members" TO authenticated;
+
+COMMIT;
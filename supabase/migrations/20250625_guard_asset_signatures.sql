@@ -0,0 +1,45 @@
+-- Only the server records signatures on assets.
+-- The dashboard inserted photo and video assets itself, copying is_signed and signature_data
+-- from the upload response, so a client could claim any signer identity. /api/upload now
+-- creates the asset and records the signature with the service role, as /api/sign/video does
+-- for signed copies. Signed-in users can no longer set or change the signature columns.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.guard_asset_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' AND (
+      NEW.is_signed
+      OR NEW.signature_data IS NOT NULL
+      OR NEW.signed_copy_key IS NOT NULL
+      OR NEW.signed_copy_sha256 IS NOT NULL
+      OR NEW.signed_copy_size IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Signatures are recorded by the server'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF TG_OP = 'UPDATE' AND (
+      NEW.is_signed, NEW.signature_data, NEW.signed_copy_key, NEW.signed_copy_sha256, NEW.signed_copy_size
+    ) IS DISTINCT FROM (
+      OLD.is_signed, OLD.signature_data, OLD.signed_copy_key, OLD.signed_copy_sha256, OLD.signed_copy_size
+    ) THEN
+      RAISE EXCEPTION 'Signatures are recorded by the server'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_asset_signature ON "public"."assets";
+CREATE TRIGGER guard_asset_signature
+BEFORE INSERT OR UPDATE ON "public"."assets"
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_asset_signature();
+
+COMMIT;
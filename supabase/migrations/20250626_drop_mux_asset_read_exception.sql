@@ -0,0 +1,14 @@
+-- Assets are only readable by members of their household.
+-- "Assets SELECT access" still let any signed-in user read an asset with a mux_asset_id, a
+-- leftover from when the Mux webhook read assets without the service role. Recordings and the
+-- items merged from them all carry one, so they were readable across households. The webhook
+-- uses the service role now, which bypasses RLS.
+
+BEGIN;
+
+DROP POLICY IF EXISTS "Assets SELECT access" ON public.assets;
+
+CREATE POLICY "Assets SELECT access" ON public.assets
+  FOR SELECT USING (public.is_household_member(household_id));
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Signed-in users can only create a session in its initial state.
+-- "Users can insert their own sessions" accepted every column, so a client could insert a
+-- session that was already 'recording', with negative frame_count and frame_bytes or another
+-- recording's mux_asset_id, and then get a frame token for it from /api/session/start. That
+-- got around the limits record_session_frame enforces. /api/session/create only sets
+-- user_id, so users now only get INSERT on that column and every other column takes its
+-- default. Updates are restricted in 20250621_restrict_session_updates.
+
+BEGIN;
+
+REVOKE INSERT ON "public"."sessions" FROM anon, authenticated;
+GRANT INSERT ("user_id") ON "public"."sessions" TO authenticated;
+
+COMMIT;
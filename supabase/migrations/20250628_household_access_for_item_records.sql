@@ -0,0 +1,147 @@
+-- Item documents, valuation history, depreciation rules and item history follow the household.
+-- 20250613_add_households moved assets, tags, rooms and scratch items to household access, but
+-- these tables kept "auth.uid() = user_id". Editors could not attach a receipt to an item another
+-- member added, and viewers saw none of its receipts, valuations or history. Their access now
+-- comes from the household of the item they belong to. Depreciation rules had no item, so they
+-- get a household_id of their own and apply to the whole household's inventory.
+-- The audit chain itself stays per user: each member still verifies and exports their own log.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. DEPRECIATION RULES PER HOUSEHOLD
+-- ============================================================================
+
+ALTER TABLE "public"."depreciation_rules"
+  ADD COLUMN IF NOT EXISTS "household_id" UUID REFERENCES "public"."households"(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN "public"."depreciation_rules"."user_id" IS
+  'Member who last set the rule';
+
+UPDATE "public"."depreciation_rules"
+SET household_id = public.default_household_id(user_id)
+WHERE household_id IS NULL;
+
+DELETE FROM "public"."depreciation_rules" WHERE household_id IS NULL;
+
+-- Members of one household may each have had a rule for a category; the latest one wins
+DELETE FROM "public"."depreciation_rules" AS r
+USING "public"."depreciation_rules" AS newer
+WHERE newer.household_id = r.household_id
+  AND newer.category = r.category
+  AND (newer.updated_at, newer.id) > (r.updated_at, r.id);
+
+ALTER TABLE "public"."depreciation_rules"
+  ALTER COLUMN "household_id" SET NOT NULL,
+  DROP CONSTRAINT IF EXISTS "depreciation_rules_user_id_category_key",
+  ADD CONSTRAINT "depreciation_rules_household_id_category_key" UNIQUE ("household_id", "category");
+
+DROP POLICY IF EXISTS "Users can view their own depreciation rules" ON "public"."depreciation_rules";
+DROP POLICY IF EXISTS "Users can insert their own depreciation rules" ON "public"."depreciation_rules";
+DROP POLICY IF EXISTS "Users can update their own depreciation rules" ON "public"."depreciation_rules";
+DROP POLICY IF EXISTS "Users can delete their own depreciation rules" ON "public"."depreciation_rules";
+
+CREATE POLICY "Household members can view depreciation rules"
+  ON "public"."depreciation_rules" FOR SELECT
+  USING (public.is_household_member(household_id));
+
+CREATE POLICY "Household editors can add depreciation rules"
+  ON "public"."depreciation_rules" FOR INSERT
+  WITH CHECK ((SELECT auth.uid()) = user_id AND public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can change depreciation rules"
+  ON "public"."depreciation_rules" FOR UPDATE
+  USING (public.can_edit_household(household_id))
+  WITH CHECK ((SELECT auth.uid()) = user_id AND public.can_edit_household(household_id));
+
+CREATE POLICY "Household editors can remove depreciation rules"
+  ON "public"."depreciation_rules" FOR DELETE
+  USING (public.can_edit_household(household_id));
+
+-- ============================================================================
+-- 2. VALUATION HISTORY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own valuations" ON "public"."valuations";
+
+CREATE POLICY "Household members can view valuations"
+  ON "public"."valuations" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = valuations.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+-- ============================================================================
+-- 3. ITEM DOCUMENTS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own item documents" ON "public"."item_documents";
+DROP POLICY IF EXISTS "Users can insert their own item documents" ON "public"."item_documents";
+DROP POLICY IF EXISTS "Users can update their own item documents" ON "public"."item_documents";
+DROP POLICY IF EXISTS "Users can delete their own item documents" ON "public"."item_documents";
+
+CREATE POLICY "Household members can view item documents"
+  ON "public"."item_documents" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_documents.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+-- user_id is the member who attached the document
+CREATE POLICY "Household editors can attach item documents"
+  ON "public"."item_documents" FOR INSERT
+  WITH CHECK (
+    (SELECT auth.uid()) = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_documents.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can update item documents"
+  ON "public"."item_documents" FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_documents.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+CREATE POLICY "Household editors can remove item documents"
+  ON "public"."item_documents" FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = item_documents.asset_id
+      AND public.can_edit_household(a.household_id)
+    )
+  );
+
+-- ============================================================================
+-- 4. ITEM HISTORY
+-- ============================================================================
+
+-- Members read the history of the household's items; entries for deleted items stay visible
+-- to the member whose log holds them
+DROP POLICY IF EXISTS "Users can view their own audit log" ON "public"."audit_log";
+
+CREATE POLICY "Users can view their own audit log and their household's item history"
+  ON "public"."audit_log" FOR SELECT
+  USING (
+    (SELECT auth.uid()) = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.assets a
+      WHERE a.id = audit_log.asset_id
+      AND public.is_household_member(a.household_id)
+    )
+  );
+
+COMMIT;
@@ -0,0 +1,194 @@
+-- merge_inventory_items and split_item act as the signed-in user.
+-- Both took the acting user from p_user_id and wrote it to reviewed_by and to the sightings'
+-- created_by, so a member could merge or split items in the name of someone else in the
+-- household. Callers with a user's JWT now always act as auth.uid(); p_user_id is only used
+-- when the service role calls (API-key requests acting for a user). The signatures stay the
+-- same, so the grants from 20250623_add_item_merge_split_functions still apply.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. ACTING USER
+-- ============================================================================
+
+-- The user a merge or split is recorded against: auth.uid() for JWT callers, p_user_id for
+-- the service role
+CREATE OR REPLACE FUNCTION public.item_edit_actor(p_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := CASE WHEN current_user = 'service_role' THEN p_user_id ELSE auth.uid() END;
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Items can only be edited by a signed-in user' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN v_user_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.item_edit_actor(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.item_edit_actor(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- 2. MERGE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.merge_inventory_items(
+  p_user_id UUID,
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_name TEXT,
+  p_description TEXT,
+  p_estimated_value NUMERIC,
+  p_value_edited BOOLEAN,
+  p_target_provenance JSONB,
+  p_source_provenance JSONB,
+  p_sightings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_user_id UUID := public.item_edit_actor(p_user_id);
+  v_locked INTEGER;
+  v_added INTEGER;
+BEGIN
+  -- A concurrent merge, split or review of the same items waits for this one
+  PERFORM 1
+  FROM public.assets AS a
+  WHERE a.id = p_target_id OR a.id = ANY (p_source_ids)
+  FOR UPDATE;
+  GET DIAGNOSTICS v_locked = ROW_COUNT;
+  IF v_locked <> cardinality(p_source_ids) + 1 THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.assets AS a
+    WHERE (a.id = p_target_id OR a.id = ANY (p_source_ids))
+      AND a.review_status = 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'Rejected items cannot be merged' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.asset_tags (asset_id, tag_id)
+  SELECT DISTINCT p_target_id, at.tag_id
+  FROM public.asset_tags AS at
+  WHERE at.asset_id = ANY (p_source_ids)
+  ON CONFLICT (asset_id, tag_id) DO NOTHING;
+
+  INSERT INTO public.item_sightings (asset_id, source_video_id, item_timestamp, origin_asset_id, created_by)
+  SELECT p_target_id, s.source_video_id, s.item_timestamp, s.origin_asset_id, v_user_id
+  FROM jsonb_to_recordset(COALESCE(p_sightings, '[]'::JSONB))
+    AS s(source_video_id UUID, item_timestamp DOUBLE PRECISION, origin_asset_id UUID)
+  ON CONFLICT (asset_id, source_video_id, item_timestamp) DO NOTHING;
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  UPDATE public.assets AS a
+  SET name = COALESCE(p_name, a.name),
+      description = p_description,
+      estimated_value = p_estimated_value,
+      value_source = CASE WHEN p_value_edited THEN 'user_edit' ELSE a.value_source END,
+      review_status = CASE WHEN a.review_status = 'pending' THEN 'accepted' ELSE a.review_status END,
+      reviewed_by = CASE WHEN a.review_status = 'pending' THEN v_user_id ELSE a.reviewed_by END,
+      reviewed_at = CASE WHEN a.review_status = 'pending' THEN now() ELSE a.reviewed_at END,
+      ai_provenance = p_target_provenance
+  WHERE a.id = p_target_id;
+
+  UPDATE public.assets AS a
+  SET review_status = 'rejected',
+      reviewed_by = v_user_id,
+      reviewed_at = now(),
+      ai_provenance = p_source_provenance -> a.id::TEXT
+  WHERE a.id = ANY (p_source_ids);
+
+  RETURN v_added;
+END;
+$function$;
+
+-- ============================================================================
+-- 3. SPLIT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.split_item(
+  p_user_id UUID,
+  p_item_id UUID,
+  p_parts JSONB,
+  p_provenance JSONB
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_user_id UUID := public.item_edit_actor(p_user_id);
+  v_item public.assets%ROWTYPE;
+  v_part RECORD;
+  v_id UUID;
+  v_ids UUID[] := ARRAY[]::UUID[];
+  v_created JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_item
+  FROM public.assets AS a
+  WHERE a.id = p_item_id AND a.media_type = 'item'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_item.review_status = 'rejected' THEN
+    RAISE EXCEPTION 'Rejected items cannot be split' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_part IN
+    SELECT p.*
+    FROM jsonb_array_elements(p_parts) WITH ORDINALITY AS e(part, position),
+      jsonb_to_record(e.part)
+        AS p(name TEXT, description TEXT, estimated_value NUMERIC, category TEXT, item_timestamp DOUBLE PRECISION)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO public.assets (
+      user_id, household_id, property_id, name, description, estimated_value, value_source, category,
+      media_type, media_url, is_source_video, source_video_id, item_timestamp, mux_asset_id, mux_playback_id,
+      review_status, reviewed_by, reviewed_at, ai_provenance
+    )
+    VALUES (
+      v_item.user_id, v_item.household_id, v_item.property_id, v_part.name, v_part.description,
+      v_part.estimated_value, CASE WHEN v_part.estimated_value IS NOT NULL THEN 'user_edit' END, v_part.category,
+      'item', '', false, v_item.source_video_id, v_part.item_timestamp, v_item.mux_asset_id, v_item.mux_playback_id,
+      v_item.review_status,
+      CASE WHEN v_item.review_status = 'accepted' THEN v_user_id END,
+      CASE WHEN v_item.review_status = 'accepted' THEN now() END,
+      p_provenance
+    )
+    RETURNING id INTO v_id;
+
+    v_ids := v_ids || v_id;
+    v_created := v_created || jsonb_build_array(jsonb_build_object('id', v_id, 'name', v_part.name));
+  END LOOP;
+
+  INSERT INTO public.asset_tags (asset_id, tag_id)
+  SELECT new_id, at.tag_id
+  FROM public.asset_tags AS at, unnest(v_ids) AS new_id
+  WHERE at.asset_id = p_item_id
+  ON CONFLICT (asset_id, tag_id) DO NOTHING;
+
+  INSERT INTO public.asset_rooms (asset_id, room_id)
+  SELECT new_id, ar.room_id
+  FROM public.asset_rooms AS ar, unnest(v_ids) AS new_id
+  WHERE ar.asset_id = p_item_id;
+
+  UPDATE public.assets AS a
+  SET ai_provenance = COALESCE(a.ai_provenance, '{"source": "merge_with_scratch"}'::JSONB)
+    || jsonb_build_object('split_into', COALESCE(a.ai_provenance -> 'split_into', '[]'::JSONB) || v_created)
+  WHERE a.id = p_item_id;
+
+  RETURN v_ids;
+END;
+$function$;
+
+COMMIT;
@@ -0,0 +1,161 @@
+-- Accepting and merging review proposals in one transaction.
+-- lib/review accepted proposals with one request per item, and merged them as a chain of
+-- requests (tags, sightings, the target, then each duplicate). A failure halfway left some
+-- proposals accepted and others pending, or a target that had taken the duplicates' tags and
+-- sightings while the duplicates were still waiting for review. Each action is now one function
+-- call, as with merge_inventory_items and split_item; lib/review still works out the values.
+-- The functions run with the caller's rights, so the existing RLS policies still apply, and
+-- they record the reviewer with public.item_edit_actor.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. ACCEPT
+-- ============================================================================
+
+-- Accepts each element of p_items ({ id, ...edits } as built by buildReviewUpdate: name,
+-- description, category, item_timestamp, estimated_value and value_source, each only when
+-- present). Returns how many items were accepted.
+CREATE OR REPLACE FUNCTION public.accept_review_items(
+  p_user_id UUID,
+  p_items JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_user_id UUID := public.item_edit_actor(p_user_id);
+  v_ids UUID[];
+  v_locked INTEGER;
+  v_accepted INTEGER;
+BEGIN
+  SELECT array_agg(DISTINCT (e.item ->> 'id')::UUID) INTO v_ids
+  FROM jsonb_array_elements(p_items) AS e(item);
+  IF cardinality(v_ids) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each item can only be accepted once' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A concurrent review, merge or split of the same items waits for this one
+  PERFORM 1
+  FROM public.assets AS a
+  WHERE a.id = ANY (v_ids) AND a.media_type = 'item'
+  FOR UPDATE;
+  GET DIAGNOSTICS v_locked = ROW_COUNT;
+  IF v_locked <> cardinality(v_ids) THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.assets AS a WHERE a.id = ANY (v_ids) AND a.review_status = 'accepted') THEN
+    RAISE EXCEPTION 'Some of these items are already in the inventory' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.assets AS a
+  SET name = CASE WHEN e.item ? 'name' THEN e.item ->> 'name' ELSE a.name END,
+      description = CASE WHEN e.item ? 'description' THEN e.item ->> 'description' ELSE a.description END,
+      category = CASE WHEN e.item ? 'category' THEN e.item ->> 'category' ELSE a.category END,
+      item_timestamp = CASE WHEN e.item ? 'item_timestamp'
+        THEN (e.item ->> 'item_timestamp')::DOUBLE PRECISION ELSE a.item_timestamp END,
+      estimated_value = CASE WHEN e.item ? 'estimated_value'
+        THEN (e.item ->> 'estimated_value')::NUMERIC ELSE a.estimated_value END,
+      value_source = COALESCE(e.item ->> 'value_source', a.value_source),
+      review_status = 'accepted',
+      reviewed_by = v_user_id,
+      reviewed_at = now()
+  FROM jsonb_array_elements(p_items) AS e(item)
+  WHERE a.id = (e.item ->> 'id')::UUID;
+  GET DIAGNOSTICS v_accepted = ROW_COUNT;
+
+  RETURN v_accepted;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_review_items(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_review_items(UUID, JSONB) TO authenticated, service_role;
+
+-- ============================================================================
+-- 2. MERGE
+-- ============================================================================
+
+-- Merges the pending proposals p_source_ids into p_target_id: rejects the sources, each with
+-- its provenance from p_source_provenance (keyed by id), copies their tags, adds p_sightings to
+-- the target and applies p_edits (as in accept_review_items) and p_target_provenance to it,
+-- accepting it if it was pending. Returns how many sightings were added.
+CREATE OR REPLACE FUNCTION public.merge_review_items(
+  p_user_id UUID,
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_edits JSONB,
+  p_target_provenance JSONB,
+  p_source_provenance JSONB,
+  p_sightings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+DECLARE
+  v_user_id UUID := public.item_edit_actor(p_user_id);
+  v_edits JSONB := COALESCE(p_edits, '{}'::JSONB);
+  v_locked INTEGER;
+  v_added INTEGER;
+BEGIN
+  PERFORM 1
+  FROM public.assets AS a
+  WHERE (a.id = p_target_id OR a.id = ANY (p_source_ids)) AND a.media_type = 'item'
+  FOR UPDATE;
+  GET DIAGNOSTICS v_locked = ROW_COUNT;
+  IF v_locked <> cardinality(p_source_ids) + 1 THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.assets AS a WHERE a.id = p_target_id AND a.review_status = 'rejected') THEN
+    RAISE EXCEPTION 'Cannot merge into a rejected item' USING ERRCODE = 'check_violation';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.assets AS a WHERE a.id = ANY (p_source_ids) AND a.review_status <> 'pending') THEN
+    RAISE EXCEPTION 'Only items awaiting review can be merged into another item' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.assets AS a
+  SET review_status = 'rejected',
+      reviewed_by = v_user_id,
+      reviewed_at = now(),
+      ai_provenance = p_source_provenance -> a.id::TEXT
+  WHERE a.id = ANY (p_source_ids);
+
+  INSERT INTO public.asset_tags (asset_id, tag_id)
+  SELECT DISTINCT p_target_id, at.tag_id
+  FROM public.asset_tags AS at
+  WHERE at.asset_id = ANY (p_source_ids)
+  ON CONFLICT (asset_id, tag_id) DO NOTHING;
+
+  INSERT INTO public.item_sightings (asset_id, source_video_id, item_timestamp, origin_asset_id, created_by)
+  SELECT p_target_id, s.source_video_id, s.item_timestamp, s.origin_asset_id, v_user_id
+  FROM jsonb_to_recordset(COALESCE(p_sightings, '[]'::JSONB))
+    AS s(source_video_id UUID, item_timestamp DOUBLE PRECISION, origin_asset_id UUID)
+  ON CONFLICT (asset_id, source_video_id, item_timestamp) DO NOTHING;
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  UPDATE public.assets AS a
+  SET name = CASE WHEN v_edits ? 'name' THEN v_edits ->> 'name' ELSE a.name END,
+      description = CASE WHEN v_edits ? 'description' THEN v_edits ->> 'description' ELSE a.description END,
+      category = CASE WHEN v_edits ? 'category' THEN v_edits ->> 'category' ELSE a.category END,
+      item_timestamp = CASE WHEN v_edits ? 'item_timestamp'
+        THEN (v_edits ->> 'item_timestamp')::DOUBLE PRECISION ELSE a.item_timestamp END,
+      estimated_value = CASE WHEN v_edits ? 'estimated_value'
+        THEN (v_edits ->> 'estimated_value')::NUMERIC ELSE a.estimated_value END,
+      value_source = COALESCE(v_edits ->> 'value_source', a.value_source),
+      review_status = CASE WHEN a.review_status = 'pending' THEN 'accepted' ELSE a.review_status END,
+      reviewed_by = CASE WHEN a.review_status = 'pending' THEN v_user_id ELSE a.reviewed_by END,
+      reviewed_at = CASE WHEN a.review_status = 'pending' THEN now() ELSE a.reviewed_at END,
+      ai_provenance = p_target_provenance
+  WHERE a.id = p_target_id;
+
+  RETURN v_added;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_review_items(UUID, UUID, UUID[], JSONB, JSONB, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_review_items(UUID, UUID, UUID[], JSONB, JSONB, JSONB, JSONB) TO authenticated, service_role;
+
+COMMIT;
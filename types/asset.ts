@@ -1,3 +1,5 @@
+import { ReviewStatus, ValuationSource } from '@/lib/db/schema'
+
 export interface Asset {
     id: string
     name: string
@@ -6,13 +8,17 @@ export interface Asset {
     media_url: string
     media_type: 'image' | 'video' | 'item'
     created_at: string
-    user_id: string
+    user_id: string // Household member the item belongs to
+    household_id?: string
+    property_id?: string
     client_reference_id?: string
     mux_correlation_id?: string
     last_updated?: string
     is_source_video?: boolean
     source_video_id?: string | null
     item_timestamp?: number | null
+    thumbnail_url?: string | null
+    bounding_box?: { x: number; y: number; width: number; height: number } | null
     mux_asset_id?: string | null
     mux_playback_id?: string | null
     mux_processing_status?: 'preparing' | 'processing' | 'ready' | 'error' | null
@@ -26,6 +32,22 @@ export interface Asset {
     transcript_error?: string | null
     items_generated?: boolean | null
     is_processed?: boolean | null
+    category?: string | null
+    purchase_date?: string | null
+    purchase_price?: number | null
+    value_source?: ValuationSource | null
+    purchase_merchant?: string | null
+    serial_number?: string | null
+    model_number?: string | null
+    is_signed?: boolean
+    signature_data?: any | null
+    signed_copy_key?: string | null
+    signed_copy_sha256?: string | null
+    signed_copy_size?: number | null
+    review_status?: ReviewStatus // AI-generated items are pending until reviewed
+    ai_confidence?: number | null
+    ai_provenance?: any | null
+    last_seen_at?: string | null // Latest recording the item appears in
     tags?: Array<{ id: string; name: string }> | null;
     room?: { id: string; name: string } | null;
 }
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchMedia, isAllowedMediaUrl } from '../server/fetch-media';
+
+const hosts = ['image.mux.com', 'padlox-media.s3.us-east-2.amazonaws.com'];
+
+describe('isAllowedMediaUrl', () => {
+    it('allows https URLs on the media hosts only', () => {
+        expect(isAllowedMediaUrl('https://image.mux.com/abc/thumbnail.webp?time=3', hosts)).toBe(true);
+        expect(isAllowedMediaUrl('https://padlox-media.s3.us-east-2.amazonaws.com/frames/a.jpg', hosts)).toBe(true);
+        expect(isAllowedMediaUrl('http://image.mux.com/abc/thumbnail.webp', hosts)).toBe(false);
+        expect(isAllowedMediaUrl('https://169.254.169.254/latest/meta-data', hosts)).toBe(false);
+        expect(isAllowedMediaUrl('https://image.mux.com.evil.test/a.jpg', hosts)).toBe(false);
+        expect(isAllowedMediaUrl('https://image.mux.com:8443/a.jpg', hosts)).toBe(false);
+        expect(isAllowedMediaUrl('not a url', hosts)).toBe(false);
+    });
+});
+
+describe('fetchMedia', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('never requests other hosts', async () => {
+        const fetchSpy = vi.fn();
+        vi.stubGlobal('fetch', fetchSpy);
+        await expect(fetchMedia('http://localhost:5432/')).rejects.toThrow(/Refusing/);
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('stops reading bodies over the size cap', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(2048))));
+        await expect(fetchMedia('https://image.mux.com/abc/thumbnail.webp', { maxBytes: 1024 })).rejects.toThrow(/larger/);
+        await expect(fetchMedia('https://image.mux.com/abc/thumbnail.webp', { maxBytes: 4096 })).resolves.toHaveLength(2048);
+    });
+});
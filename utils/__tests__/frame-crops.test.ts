@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { normalizeBoundingBox, toPixelRegion, cropDetection } from '../server/frame-crops';
+
+describe('frame crops', () => {
+    it('clamps boxes to the frame and rejects degenerate ones', () => {
+        expect(normalizeBoundingBox({ x: -0.1, y: 0.5, width: 0.5, height: 0.8 })).toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5 });
+        expect(normalizeBoundingBox({ x: 0.2, y: 0.2, width: 0, height: 0.3 })).toBeNull();
+        expect(normalizeBoundingBox({ x: NaN, y: 0, width: 1, height: 1 })).toBeNull();
+        expect(normalizeBoundingBox(null)).toBeNull();
+    });
+
+    it('converts normalized boxes to padded pixel regions', () => {
+        expect(toPixelRegion({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, 400, 200)).toEqual({
+            left: 90,
+            top: 45,
+            width: 220,
+            height: 110,
+        });
+    });
+
+    it('crops a detection to a JPEG', async () => {
+        const frame = await sharp({
+            create: { width: 640, height: 360, channels: 3, background: { r: 200, g: 120, b: 40 } },
+        }).jpeg().toBuffer();
+
+        const crop = await cropDetection(new Uint8Array(frame).buffer, { x: 0.1, y: 0.1, width: 0.3, height: 0.5 });
+        expect(crop).not.toBeNull();
+        const metadata = await sharp(crop!).metadata();
+        expect(metadata.format).toBe('jpeg');
+        expect(metadata.width).toBeLessThanOrEqual(384);
+    });
+
+    it('skips regions too small to be useful', async () => {
+        const frame = await sharp({
+            create: { width: 100, height: 100, channels: 3, background: { r: 0, g: 0, b: 0 } },
+        }).jpeg().toBuffer();
+
+        expect(await cropDetection(new Uint8Array(frame).buffer, { x: 0.5, y: 0.5, width: 0.05, height: 0.05 })).toBeNull();
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+    computeDHash,
+    hammingDistance,
+    isNearDuplicate,
+    rgbaToGrayscale,
+    DHASH_WIDTH,
+    DHASH_HEIGHT,
+} from '../perceptual-hash';
+
+// Horizontal gradient, optionally with noise added to every pixel
+function gradient(noise = 0, seed = 1): number[] {
+    let state = seed;
+    const random = () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647;
+    };
+    const pixels: number[] = [];
+    for (let row = 0; row < DHASH_HEIGHT; row++) {
+        for (let col = 0; col < DHASH_WIDTH; col++) {
+            pixels.push(Math.max(0, Math.min(255, 255 - col * 28 + (random() - 0.5) * noise)));
+        }
+    }
+    return pixels;
+}
+
+describe('perceptual hash', () => {
+    it('produces a 64-bit hex hash', () => {
+        const hash = computeDHash(gradient());
+        expect(hash).toMatch(/^[0-9a-f]{16}$/);
+        expect(hash).toBe('ffffffffffffffff');
+    });
+
+    it('treats slightly noisy copies as near-duplicates', () => {
+        const original = computeDHash(gradient());
+        const noisy = computeDHash(gradient(20, 7));
+        expect(isNearDuplicate(original, noisy)).toBe(true);
+    });
+
+    it('distinguishes different scenes', () => {
+        const reversed = gradient().map((value) => 255 - value);
+        expect(hammingDistance(computeDHash(gradient()), computeDHash(reversed))).toBe(64);
+        expect(isNearDuplicate(computeDHash(gradient()), computeDHash(reversed))).toBe(false);
+    });
+
+    it('converts RGBA pixels to luminance', () => {
+        expect(Array.from(rgbaToGrayscale([255, 255, 255, 255, 0, 0, 0, 255]))).toEqual([255, 0]);
+    });
+
+    it('rejects grids of the wrong size', () => {
+        expect(() => computeDHash([1, 2, 3])).toThrow();
+    });
+});
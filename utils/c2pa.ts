@@ -1,8 +1,12 @@
 // This file only contains the client-side interface to the C2PA API endpoints
+import type { CaptureMetadata, DeviceInfo } from '@/lib/c2pa/metadata'
+import type { AssetVerification } from '@/lib/c2pa/assets'
+
 export async function signMediaFile(file: File, metadata: {
     name: string;
     description: string | null;
     estimated_value: number | null;
+    capture?: CaptureMetadata;
 }): Promise<File> {
     const formData = new FormData()
     formData.append('file', file)
@@ -101,4 +105,65 @@ export async function verifyMediaFile(file: File): Promise<boolean> {
         console.error('Error verifying file:', error);
         throw error;
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Sends the original MP4 of a finished recording session to be C2PA-signed and kept as the
+ * video's signed copy. The Mux playback version is re-encoded and cannot carry the manifest.
+ */
+export async function uploadSignedRecording(file: File, capture: {
+    sessionId: string;
+    captureTime?: string | null;
+    deviceInfo?: DeviceInfo | null;
+}): Promise<{ assetId: string; sha256: string; size: number }> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('sessionId', capture.sessionId)
+    formData.append('capture', JSON.stringify({
+        captureTime: capture.captureTime ?? undefined,
+        deviceInfo: capture.deviceInfo ?? undefined
+    }))
+
+    const response = await fetch('/api/sign/video', {
+        method: 'POST',
+        body: formData,
+        credentials: 'same-origin',
+        cache: 'no-store',
+    })
+
+    if (!response.ok) {
+        let errorMessage = 'Failed to sign recording';
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.error || errorMessage;
+        } catch {
+            errorMessage = `${errorMessage}: ${response.status} ${response.statusText}`;
+        }
+        throw new Error(errorMessage);
+    }
+
+    return response.json()
+}
+
+/**
+ * Verifies the stored file behind an asset and returns the full C2PA report
+ */
+export async function fetchAssetVerification(assetId: string): Promise<AssetVerification> {
+    const response = await fetch(`/api/verify?asset_id=${encodeURIComponent(assetId)}`, {
+        credentials: 'same-origin',
+        cache: 'no-store',
+    })
+
+    if (!response.ok) {
+        let errorMessage = 'Failed to verify asset';
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.details || errorMessage;
+        } catch {
+            errorMessage = `${errorMessage}: ${response.status} ${response.statusText}`;
+        }
+        throw new Error(errorMessage);
+    }
+
+    return response.json()
+}
@@ -14,4 +14,19 @@ export function formatCurrencyCompact(value: number): string {
         compactDisplay: 'short',
         maximumFractionDigits: 0, // Consistent 0 decimal places for all values
     }).format(value);
-} 
\ No newline at end of file
+} 
+// Offset into a recording, e.g. 83.4 -> "1:23"
+export function formatTimestamp(seconds: number): string {
+    const whole = Math.max(0, Math.floor(seconds));
+    const minutes = Math.floor(whole / 60);
+    return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Reads an offset typed as "1:23" or as seconds ("83.4"); null when it is neither
+export function parseTimestamp(text: string): number | null {
+    const match = text.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const seconds = Number(match[2]);
+    if (match[1] !== undefined && seconds >= 60) return null;
+    return Number(match[1] ?? 0) * 60 + seconds;
+}
@@ -6,8 +6,10 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@/lib/db/schema';
-import { generateObject } from 'ai';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { normalizeBoundingBox, storeDetectionCrop } from '@/utils/server/frame-crops';
+import { generateObjectForTask } from '@/lib/ai/generate';
+import { isSessionId } from '@/lib/sessions';
+import { recordModelUsage } from '@/lib/usage';
 import { z } from 'zod';
 
 // Configure Supabase client
@@ -15,10 +17,6 @@ const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
 
-// Configure Gemini AI model
-const GOOGLE_AI_API_KEY = process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
-const GEMINI_MODEL = 'gemini-2.0-flash-lite';
-
 interface FrameProcessingJob {
   /** Session ID for the recording */
   session_id: string;
@@ -37,11 +35,17 @@ interface ProcessingResult {
   success: boolean;
 }
 
-// Define schema for Gemini response
+// Define schema for vision model response
 const InventoryItemSchema = z.object({
   name: z.string().describe('The name of the identified item'),
   description: z.string().optional().describe('A brief description of the item\'s visible features'),
-  estimated_value: z.number().nullable().describe('An estimated value of the item in USD (can be null if impossible to estimate)')
+  estimated_value: z.number().nullable().describe('An estimated value of the item in USD (can be null if impossible to estimate)'),
+  bounding_box: z.object({
+    x: z.number().describe('Left edge as a fraction of image width (0-1)'),
+    y: z.number().describe('Top edge as a fraction of image height (0-1)'),
+    width: z.number().describe('Box width as a fraction of image width (0-1)'),
+    height: z.number().describe('Box height as a fraction of image height (0-1)'),
+  }).nullable().optional().describe('Tight normalized bounding box around the item in the image')
 });
 
 const ResponseSchema = z.object({
@@ -58,26 +62,28 @@ export async function processFrame(job: FrameProcessingJob): Promise<ProcessingR
   try {
     console.log(`🖼️ [Processor] Processing frame for session ${job.session_id} at timestamp ${job.video_timestamp.toFixed(2)}s`);
     
-    // Convert frame data to base64 for Gemini
+    // Convert frame data to base64 for the vision model
     const base64Image = Buffer.from(job.frame_data).toString('base64');
     const imageUrl = `data:image/jpeg;base64,${base64Image}`;
     console.log(`🖼️ [Processor] Converted image to base64, length: ${base64Image.length}`);
     
-    // Verify Gemini API key is configured
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      console.error(`🖼️ [Processor] ERROR: Missing GOOGLE_GENERATIVE_AI_API_KEY environment variable`);
-      return { itemsFound: 0, success: false };
-    }
+    // Call the configured vision model chain to analyze the frame
+    const analysis = await analyzeFrame(imageUrl);
     
-    // Call Gemini to analyze the frame
-    console.log(`🖼️ [Processor] Calling Gemini API with model: ${GEMINI_MODEL}`);
-    const analysis = await analyzeFrameWithGemini(imageUrl);
+    console.log(`🖼️ [Processor] Vision analysis complete, found ${analysis.items.length} items`);
     
-    console.log(`🖼️ [Processor] Gemini analysis complete, found ${analysis.items.length} items`);
+    if (job.user_id && analysis.model) {
+      await recordModelUsage(supabase, {
+        userId: job.user_id,
+        kind: 'vision',
+        operation: 'process_frame',
+        bytes: job.frame_data.byteLength,
+      }, { model: analysis.model, usage: analysis.usage });
+    }
     
     // Store each detected item in the database
     if (analysis.items.length > 0) {
-      await storeAllItems(job.session_id, analysis.items, job.video_timestamp, job.user_id, job.mux_asset_id);
+      await storeAllItems(job.session_id, analysis.items, job.frame_data, job.video_timestamp, job.user_id, job.mux_asset_id);
       console.log(`🖼️ [Processor] Stored ${analysis.items.length} items from frame analysis`);
       return { itemsFound: analysis.items.length, success: true };
     } else {
@@ -91,26 +97,13 @@ export async function processFrame(job: FrameProcessingJob): Promise<ProcessingR
 }
 
 /**
- * Analyze a frame with Gemini AI
+ * Analyze a frame with the vision model chain from the AI registry
  * 
  * @param imageUrl Base64 data URL of the image
  * @returns Analysis result with detected items
  */
-async function analyzeFrameWithGemini(imageUrl: string) {
+async function analyzeFrame(imageUrl: string) {
   try {
-    // Initialize Google AI
-    console.log('🖼️ [Processor] Creating Google AI client');
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      console.error('🖼️ [Processor] Missing GOOGLE_GENERATIVE_AI_API_KEY environment variable');
-      throw new Error('Google AI API key not configured');
-    }
-    
-    const google = createGoogleGenerativeAI();
-    const model = google(GEMINI_MODEL);
-    
-    console.log(`🖼️ [Processor] Using Gemini model: ${GEMINI_MODEL}`);
-    
     // Format the prompt for analyzing the image
     const prompt = `Analyze this image of a room or space for a home inventory system.
       Identify household items and personal belongings that would be important for insurance purposes.
@@ -146,17 +139,19 @@ async function analyzeFrameWithGemini(imageUrl: string) {
       
       3. Provide an estimated value in USD as a number. IMPORTANT: You must provide a reasonable USD estimate for EVERY item (never return null).
       
+      4. Provide a tight bounding box around the item as fractions of the image size: x and y are the top-left corner, width and height the box size, all between 0 and 1.
+      
       Focus on accuracy over quantity. Only include items you can see clearly and identify with certainty.
       Your descriptions must be specific enough that identical items detected in different frames can be recognized as the same item.
       Concentrate on items that would be valuable for insurance documentation and that you can identify with HIGH CONFIDENCE.
       
       The image shows:`;
     
-    console.log('🖼️ [Processor] Sending request to Gemini');
+    console.log('🖼️ [Processor] Sending request to vision model');
     
     // Generate structured response using AI
-    const result = await generateObject({
-      model,
+    const result = await generateObjectForTask({
+      task: 'vision',
       schema: ResponseSchema,
       messages: [
         {
@@ -170,10 +165,10 @@ async function analyzeFrameWithGemini(imageUrl: string) {
     });
     
     // Ensure result matches our schema
-    console.log(`🖼️ [Processor] Received response from Gemini with ${result.object.items.length} items`);
-    return { items: result.object.items };
+    console.log(`🖼️ [Processor] Received response from ${result.model.provider}:${result.model.modelId} with ${result.object.items.length} items`);
+    return { items: result.object.items, model: result.model, usage: result.usage };
   } catch (error) {
-    console.error('🖼️ [Processor] Error calling Gemini:', error);
+    console.error('🖼️ [Processor] Error calling vision model:', error);
     // Return empty array if AI fails to prevent complete failure
     return { items: [] };
   }
@@ -184,6 +179,7 @@ async function analyzeFrameWithGemini(imageUrl: string) {
  * 
  * @param sessionId Session ID
  * @param items Detected items
+ * @param frameData Raw frame, used to crop each detection
  * @param videoTimestamp Timestamp in seconds
  * @param userId Optional user ID who owns this recording
  * @param muxAssetId Optional MUX asset ID of the video
@@ -191,6 +187,7 @@ async function analyzeFrameWithGemini(imageUrl: string) {
 async function storeAllItems(
   sessionId: string,
   items: z.infer<typeof InventoryItemSchema>[],
+  frameData: ArrayBuffer,
   videoTimestamp: number,
   userId?: string,
   muxAssetId?: string
@@ -215,6 +212,21 @@ async function storeAllItems(
         ? videoTimestamp 
         : 0;
         
+      // Crop the detection so merged items can show the actual object
+      const boundingBox = normalizeBoundingBox(item.bounding_box);
+      let imageUrl: string | null = null;
+      if (boundingBox && userId) {
+        try {
+          imageUrl = await storeDetectionCrop(frameData, boundingBox, userId, {
+            muxAssetId,
+            videoTimestamp: safeTimestamp,
+            itemName: item.name
+          });
+        } catch (cropError) {
+          console.warn(`🖼️ [Processor] Could not store crop for item #${i+1}:`, cropError);
+        }
+      }
+        
       // Insert with the new simplified schema including user_id and mux_asset_id
       const insertData = {
         name: item.name,
@@ -222,7 +234,10 @@ async function storeAllItems(
         video_timestamp: safeTimestamp,
         user_id: userId || null,
         mux_asset_id: muxAssetId || null,
-        estimated_value: item.estimated_value
+        session_id: isSessionId(sessionId) ? sessionId : null, // Fallback `manual_` IDs have no session row
+        estimated_value: item.estimated_value,
+        bounding_box: boundingBox ? { ...boundingBox } : null,
+        image_url: imageUrl
       };
       
       console.log(`🖼️ [Processor] Inserting item data: ${JSON.stringify({
@@ -230,6 +245,7 @@ async function storeAllItems(
         description: item.description ? item.description.substring(0, 30) + '...' : null,
         video_timestamp: safeTimestamp,
         estimated_value: item.estimated_value,
+        has_crop: !!imageUrl,
         user_id: userId ? 'provided' : null,
         mux_asset_id: muxAssetId ? muxAssetId.substring(0, 10) + '...' : null
       })}`);
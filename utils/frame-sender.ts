@@ -4,24 +4,33 @@
  */
 
 import { grabPreviewFrame } from './frame-grabber';
+import { hashImageBlob, hammingDistance, DEFAULT_SKIP_THRESHOLD } from './perceptual-hash';
 
-interface FrameSenderOptions {
+export interface FrameSenderOptions {
   /** API URL to send frames to */
   apiUrl: string;
   /** Session ID to identify the stream */
   sessionId: string;
-  /** User ID who owns the recording (optional) */
-  userId?: string;
-  /** MUX asset ID of the video (optional) */
-  muxAssetId?: string;
+  /**
+   * Returns the current frame token for the session. Tokens are short-lived and renewed by
+   * session heartbeats, so this is read again for every frame.
+   */
+  getFrameToken: () => string | null;
   /** Interval in seconds between frames (default: 2) */
   frameRateSec?: number;
   /** Target size for captured frames (default: 512px width) */
   frameSize?: number;
   /** JPEG quality (0-1) for frames (default: 0.85) */
   quality?: number;
+  /**
+   * Maximum perceptual-hash distance (0-64 bits) from the last sent frame at which a new
+   * frame is skipped as a near-duplicate (default: 6). Set to false to send every frame.
+   */
+  skipThreshold?: number | false;
   /** Optional callback when a frame is captured */
   onFrameCaptured?: (frameBlob: Blob) => void;
+  /** Optional callback when a frame is skipped as a near-duplicate */
+  onFrameSkipped?: (distance: number, timestamp: number) => void;
   /** Optional callback when an error occurs */
   onError?: (error: Error) => void;
 }
@@ -29,10 +38,12 @@ interface FrameSenderOptions {
 export class FrameSender {
   private intervalId: NodeJS.Timeout | null = null;
   private videoSource: HTMLVideoElement | MediaStream;
-  private options: Required<Omit<FrameSenderOptions, 'onFrameCaptured' | 'onError' | 'userId' | 'muxAssetId'>> & 
-    Pick<FrameSenderOptions, 'onFrameCaptured' | 'onError' | 'userId' | 'muxAssetId'>;
+  private options: Required<Omit<FrameSenderOptions, 'onFrameCaptured' | 'onFrameSkipped' | 'onError'>> & 
+    Pick<FrameSenderOptions, 'onFrameCaptured' | 'onFrameSkipped' | 'onError'>;
   private isSending = false;
   private startTime: number;
+  private lastSentHash: string | null = null;
+  private skippedCount = 0;
   
   /**
    * Create a new FrameSender instance
@@ -43,7 +54,8 @@ export class FrameSender {
       ...options,
       frameRateSec: options.frameRateSec ?? 2,
       frameSize: options.frameSize ?? 512,
-      quality: options.quality ?? 0.85
+      quality: options.quality ?? 0.85,
+      skipThreshold: options.skipThreshold ?? DEFAULT_SKIP_THRESHOLD
     };
     
     // Initialize start time to when this instance is created
@@ -52,10 +64,9 @@ export class FrameSender {
     console.log('FrameSender: Created instance with options:', {
       apiUrl: this.options.apiUrl,
       sessionId: this.options.sessionId,
-      userId: this.options.userId ?? 'not provided',
-      muxAssetId: this.options.muxAssetId ?? 'not provided',
       frameRateSec: this.options.frameRateSec,
-      frameSize: this.options.frameSize
+      frameSize: this.options.frameSize,
+      skipThreshold: this.options.skipThreshold
     });
   }
 
@@ -68,14 +79,14 @@ export class FrameSender {
       return;
     }
     
-    // Reset start time when we actually start sending
+    // Reset start time and dedup state when we actually start sending
     this.startTime = Date.now();
+    this.lastSentHash = null;
+    this.skippedCount = 0;
     
     console.log('FrameSender: Starting frame capture', {
       apiUrl: this.options.apiUrl,
       sessionId: this.options.sessionId,
-      userId: this.options.userId ?? 'not provided',
-      muxAssetId: this.options.muxAssetId ?? 'not provided',
       frameRateSec: this.options.frameRateSec,
       startTime: new Date(this.startTime).toISOString()
     });
@@ -88,7 +99,7 @@ export class FrameSender {
    * Stop sending frames
    */
   public stop(): void {
-    console.log('FrameSender: Stopping frame capture');
+    console.log(`FrameSender: Stopping frame capture (${this.skippedCount} near-duplicate frames skipped)`);
     this.isSending = false;
     this.stopInterval();
   }
@@ -128,8 +139,8 @@ export class FrameSender {
         // Get current timestamp in seconds
         const timestamp = this.getCurrentTimestamp();
         
-        // Send the frame to the API endpoint
-        await this.sendFrame(frameBlob, timestamp);
+        // Send the frame to the API endpoint unless it duplicates the last one
+        await this.sendIfChanged(frameBlob, timestamp);
       } catch (error) {
         console.error('FrameSender: Error capturing or sending frame:', error);
         this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
@@ -164,37 +175,55 @@ export class FrameSender {
       const timestamp = 0;
       
       // Send the frame to the API endpoint
-      await this.sendFrame(frameBlob, timestamp);
+      await this.sendIfChanged(frameBlob, timestamp);
     } catch (error) {
       console.error('FrameSender: Error capturing or sending initial frame:', error);
       this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
     }
   }
   
+  /**
+   * Send a frame unless it is a near-duplicate of the last frame sent
+   */
+  private async sendIfChanged(frameBlob: Blob, timestamp: number): Promise<void> {
+    if (this.options.skipThreshold === false) {
+      await this.sendFrame(frameBlob, timestamp);
+      return;
+    }
+
+    let hash: string | null = null;
+    try {
+      hash = await hashImageBlob(frameBlob);
+    } catch (error) {
+      // Hashing is an optimisation; fall back to sending the frame
+      console.warn('FrameSender: Could not hash frame, sending anyway:', error);
+    }
+
+    if (hash && this.lastSentHash) {
+      const distance = hammingDistance(hash, this.lastSentHash);
+      if (distance <= this.options.skipThreshold) {
+        this.skippedCount++;
+        console.log(`FrameSender: Skipping near-duplicate frame at ${timestamp.toFixed(2)}s (distance ${distance})`);
+        this.options.onFrameSkipped?.(distance, timestamp);
+        return;
+      }
+    }
+
+    await this.sendFrame(frameBlob, timestamp);
+    if (hash) this.lastSentHash = hash;
+  }
+
   /**
    * Send a frame to the API endpoint
    */
   private async sendFrame(frameBlob: Blob, timestamp: number): Promise<void> {
-    // Build the API URL with query parameters
-    let apiUrl = `${this.options.apiUrl}?session=${this.options.sessionId}`;
-    
-    // Add optional user ID if provided
-    if (this.options.userId) {
-      console.log(`FrameSender: Adding user_id ${this.options.userId} to request`);
-      apiUrl += `&user_id=${this.options.userId}`;
-    } else {
-      console.log(`FrameSender: No user_id available to add to request`);
-    }
-    
-    // Add optional MUX asset ID if provided
-    if (this.options.muxAssetId) {
-      console.log(`FrameSender: Adding mux_asset_id ${this.options.muxAssetId} to request`);
-      apiUrl += `&mux_asset_id=${this.options.muxAssetId}`;
-    } else {
-      console.log(`FrameSender: No mux_asset_id available to add to request`);
+    const token = this.options.getFrameToken();
+    if (!token) {
+      throw new Error('No frame token for this session; frame not sent');
     }
     
-    console.log(`FrameSender: Sending frame to ${apiUrl}, timestamp: ${timestamp.toFixed(2)}s, size: ${Math.round(frameBlob.size/1024)}KB`);
+    const apiUrl = this.options.apiUrl;
+    console.log(`FrameSender: Sending frame to ${apiUrl} for session ${this.options.sessionId}, timestamp: ${timestamp.toFixed(2)}s, size: ${Math.round(frameBlob.size/1024)}KB`);
     
     const formData = new FormData();
     formData.append('frame', frameBlob, 'frame.jpg');
@@ -203,9 +232,16 @@ export class FrameSender {
     try {
       const response = await fetch(apiUrl, {
         method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
         body: formData,
       });
       
+      // The session hit its frame limit or stopped recording; further frames would be rejected too
+      if (response.status === 429 || response.status === 409) {
+        console.warn(`FrameSender: Server stopped accepting frames (${response.status}), stopping`);
+        this.stop();
+      }
+      
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'No error text');
         throw new Error(`Failed to send frame: ${response.status} ${response.statusText} - ${errorText}`);
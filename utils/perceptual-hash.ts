@@ -0,0 +1,106 @@
+/**
+ * Perceptual hashing for video frames.
+ * Used to skip near-identical frames before they reach the vision model.
+ *
+ * Implements a difference hash (dHash): the frame is reduced to a 9x8 grayscale grid and
+ * each bit records whether a pixel is brighter than its right-hand neighbour. Similar images
+ * produce hashes with a small Hamming distance, regardless of JPEG noise or minor exposure shifts.
+ */
+
+/** Width of the grayscale grid a frame is reduced to before hashing */
+export const DHASH_WIDTH = 9;
+/** Height of the grayscale grid a frame is reduced to before hashing */
+export const DHASH_HEIGHT = 8;
+/** Number of bits in a dHash */
+export const DHASH_BITS = (DHASH_WIDTH - 1) * DHASH_HEIGHT;
+
+/**
+ * Default maximum Hamming distance (out of 64 bits) at which two frames count as duplicates
+ */
+export const DEFAULT_SKIP_THRESHOLD = 6;
+
+/**
+ * Compute a dHash from a 9x8 grayscale pixel grid (row-major, one byte per pixel)
+ *
+ * @param pixels Luminance values, length DHASH_WIDTH * DHASH_HEIGHT
+ * @returns 16-character hex string
+ */
+export function computeDHash(pixels: ArrayLike<number>): string {
+  if (pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`Expected ${DHASH_WIDTH * DHASH_HEIGHT} pixels, received ${pixels.length}`);
+  }
+
+  let hash = '';
+  for (let row = 0; row < DHASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let col = 0; col < DHASH_WIDTH - 1; col++) {
+      const left = pixels[row * DHASH_WIDTH + col];
+      const right = pixels[row * DHASH_WIDTH + col + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Cannot compare hashes of different lengths');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Whether two frames are close enough to treat as the same view
+ */
+export function isNearDuplicate(a: string, b: string, threshold: number = DEFAULT_SKIP_THRESHOLD): boolean {
+  return hammingDistance(a, b) <= threshold;
+}
+
+/**
+ * Convert RGBA pixel data (as returned by a canvas) to luminance values
+ */
+export function rgbaToGrayscale(rgba: ArrayLike<number>): Uint8Array {
+  const gray = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    // ITU-R BT.601 luma
+    gray[i] = Math.round(0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]);
+  }
+  return gray;
+}
+
+/**
+ * Compute the dHash of an image blob in the browser
+ */
+export async function hashImageBlob(blob: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = DHASH_WIDTH;
+    canvas.height = DHASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.drawImage(bitmap, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    return computeDHash(rgbaToGrayscale(data));
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,6 +1,13 @@
+import type { SignatureData } from '@/lib/c2pa/metadata'
+import type { AssetWithMuxData } from '@/types/mux'
+
 interface UploadResponse {
     url: string
     key: string
+    /** C2PA signature details, as recorded on the asset; null when the file was not signed */
+    signature: SignatureData | null
+    /** The asset created for the upload, when a placement was passed */
+    asset?: AssetWithMuxData
 }
 
 interface AssetMetadata {
@@ -9,13 +16,25 @@ interface AssetMetadata {
     estimated_value?: number | null;
 }
 
-export async function uploadToS3(file: File, metadata?: AssetMetadata): Promise<UploadResponse> {
+interface AssetPlacement {
+    household_id: string
+    property_id: string
+}
+
+/**
+ * Uploads a file to S3 through /api/upload, which signs it. With a `placement`, the server
+ * also creates the asset and records its signature.
+ */
+export async function uploadToS3(file: File, metadata?: AssetMetadata, placement?: AssetPlacement): Promise<UploadResponse> {
     const formData = new FormData()
     formData.append('file', file)
     
     if (metadata) {
         formData.append('metadata', JSON.stringify(metadata))
     }
+    if (placement) {
+        formData.append('asset', JSON.stringify(placement))
+    }
 
     try {
         const response = await fetch('/api/upload', {
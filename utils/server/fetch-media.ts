@@ -0,0 +1,64 @@
+/**
+ * Server-side fetches of stored media (thumbnails, photos).
+ *
+ * URLs like `assets.thumbnail_url` can be written by any household editor, so the server
+ * only fetches from the hosts Padlox stores media on: Mux thumbnails and the S3 media
+ * bucket (the same hosts next.config.js allows for images). Requests time out, do not follow
+ * redirects, and stop reading once the body passes a size cap.
+ */
+
+export const MEDIA_FETCH_TIMEOUT_MS = 10_000;
+export const MEDIA_FETCH_MAX_BYTES = 10 * 1024 * 1024;
+
+export function mediaHosts(): string[] {
+  const hosts = ['image.mux.com'];
+  if (process.env.NEXT_PUBLIC_AWS_BUCKET_NAME && process.env.NEXT_PUBLIC_AWS_REGION) {
+    hosts.push(`${process.env.NEXT_PUBLIC_AWS_BUCKET_NAME}.s3.${process.env.NEXT_PUBLIC_AWS_REGION}.amazonaws.com`);
+  }
+  return hosts;
+}
+
+export function isAllowedMediaUrl(url: string, hosts = mediaHosts()): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && !parsed.port && !parsed.username && hosts.includes(parsed.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Downloads media from an allowed host. Throws when the URL is not allowed, the request
+ * fails or times out, or the body is larger than `maxBytes`.
+ */
+export async function fetchMedia(
+  url: string,
+  { timeoutMs = MEDIA_FETCH_TIMEOUT_MS, maxBytes = MEDIA_FETCH_MAX_BYTES } = {}
+): Promise<Buffer> {
+  if (!isAllowedMediaUrl(url)) {
+    throw new Error('Refusing to fetch media from a host Padlox does not store media on');
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), redirect: 'error' });
+  if (!response.ok) throw new Error(`status ${response.status}`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Media is larger than ${maxBytes} bytes`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Media is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
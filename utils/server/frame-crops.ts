@@ -0,0 +1,92 @@
+/**
+ * Cropping of per-item detections out of analyzed frames.
+ * Crops are stored in S3 under the owning user's prefix.
+ */
+import sharp from 'sharp';
+import { uploadFileToS3 } from '@/lib/aws/s3';
+import type { BoundingBox } from '@/lib/db/schema';
+
+const CROP_MAX_SIZE = 384; // Longest edge of stored crops, in pixels
+const CROP_PADDING = 0.05; // Extra context around the box, as a fraction of the box size
+const MIN_CROP_PIXELS = 16; // Boxes smaller than this are treated as unusable
+
+/**
+ * Clamp a model-provided box to the frame and reject degenerate ones
+ */
+export function normalizeBoundingBox(box: BoundingBox | null | undefined): BoundingBox | null {
+  if (!box) return null;
+  const values = [box.x, box.y, box.width, box.height];
+  if (values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) return null;
+
+  const x = Math.min(Math.max(box.x, 0), 1);
+  const y = Math.min(Math.max(box.y, 0), 1);
+  const width = Math.min(Math.max(box.width, 0), 1 - x);
+  const height = Math.min(Math.max(box.height, 0), 1 - y);
+
+  if (width <= 0 || height <= 0) return null;
+  return { x, y, width, height };
+}
+
+/**
+ * Convert a normalized box to a padded pixel region within an image
+ */
+export function toPixelRegion(box: BoundingBox, imageWidth: number, imageHeight: number) {
+  const padX = box.width * CROP_PADDING;
+  const padY = box.height * CROP_PADDING;
+
+  const left = Math.max(0, Math.floor((box.x - padX) * imageWidth));
+  const top = Math.max(0, Math.floor((box.y - padY) * imageHeight));
+  const right = Math.min(imageWidth, Math.ceil((box.x + box.width + padX) * imageWidth));
+  const bottom = Math.min(imageHeight, Math.ceil((box.y + box.height + padY) * imageHeight));
+
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Crop a detection out of an encoded frame
+ *
+ * @returns JPEG bytes, or null if the region is too small to be useful
+ */
+export async function cropDetection(frameData: ArrayBuffer, box: BoundingBox): Promise<Buffer | null> {
+  const image = sharp(Buffer.from(frameData));
+  const { width, height } = await image.metadata();
+  if (!width || !height) return null;
+
+  const region = toPixelRegion(box, width, height);
+  if (region.width < MIN_CROP_PIXELS || region.height < MIN_CROP_PIXELS) return null;
+
+  return image
+    .extract(region)
+    .resize(CROP_MAX_SIZE, CROP_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
+
+/**
+ * Crop a detection and store it in S3
+ *
+ * @returns Public URL of the stored crop, or null if nothing was stored
+ */
+export async function storeDetectionCrop(
+  frameData: ArrayBuffer,
+  box: BoundingBox,
+  userId: string,
+  details: { muxAssetId?: string; videoTimestamp: number; itemName: string }
+): Promise<string | null> {
+  const crop = await cropDetection(frameData, box);
+  if (!crop) return null;
+
+  const slug = details.itemName.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40);
+  const { url } = await uploadFileToS3(
+    crop,
+    `crop-${details.videoTimestamp.toFixed(1)}s-${slug}.jpg`,
+    'image/jpeg',
+    userId,
+    {
+      'source': 'frame-analysis',
+      'video-timestamp': details.videoTimestamp.toString(),
+      ...(details.muxAssetId && { 'mux-asset-id': details.muxAssetId }),
+    }
+  );
+  return url;
+}
@@ -0,0 +1,86 @@
+/**
+ * Server-side duplicate frame detection for /api/frame.
+ *
+ * Keeps the hash of the last frame analyzed per recording session so that
+ * near-identical frames can be skipped before calling the vision model.
+ * State is per server instance; the client-side check in FrameSender does
+ * most of the work and this is a backstop.
+ */
+import sharp from 'sharp';
+import {
+  computeDHash,
+  hammingDistance,
+  DEFAULT_SKIP_THRESHOLD,
+  DHASH_WIDTH,
+  DHASH_HEIGHT,
+} from '@/utils/perceptual-hash';
+
+const SESSION_TTL_MS = 30 * 60 * 1000; // Forget sessions idle for 30 minutes
+
+interface SessionFrameState {
+  hash: string;
+  lastSeen: number;
+}
+
+const lastFrameBySession = new Map<string, SessionFrameState>();
+
+/**
+ * Maximum Hamming distance for a frame to be skipped, from FRAME_DEDUP_THRESHOLD.
+ * A negative value disables server-side deduplication.
+ */
+export function getServerSkipThreshold(): number {
+  const configured = process.env.FRAME_DEDUP_THRESHOLD;
+  const parsed = configured !== undefined ? parseInt(configured, 10) : NaN;
+  return Number.isNaN(parsed) ? DEFAULT_SKIP_THRESHOLD : parsed;
+}
+
+/**
+ * Compute the dHash of an encoded image (JPEG/PNG/WebP)
+ */
+export async function hashFrame(frameData: ArrayBuffer): Promise<string> {
+  const pixels = await sharp(Buffer.from(frameData))
+    .greyscale()
+    .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  return computeDHash(pixels);
+}
+
+function evictStaleSessions(now: number) {
+  for (const [sessionId, state] of lastFrameBySession) {
+    if (now - state.lastSeen > SESSION_TTL_MS) {
+      lastFrameBySession.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Check a frame against the last analyzed frame of its session.
+ * Frames that are not duplicates become the new reference for the session.
+ */
+export function checkDuplicateFrame(
+  sessionId: string,
+  hash: string,
+  threshold: number = getServerSkipThreshold()
+): { duplicate: boolean; distance: number | null } {
+  const now = Date.now();
+  evictStaleSessions(now);
+
+  const previous = lastFrameBySession.get(sessionId);
+  const distance = previous ? hammingDistance(previous.hash, hash) : null;
+
+  if (previous && threshold >= 0 && distance !== null && distance <= threshold) {
+    previous.lastSeen = now;
+    return { duplicate: true, distance };
+  }
+
+  lastFrameBySession.set(sessionId, { hash, lastSeen: now });
+  return { duplicate: false, distance };
+}
+
+/**
+ * Drop the stored reference frame for a session (e.g. when recording ends)
+ */
+export function clearSessionFrames(sessionId: string) {
+  lastFrameBySession.delete(sessionId);
+}
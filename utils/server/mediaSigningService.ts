@@ -1,78 +1,26 @@
-import { createC2pa, createTestSigner, ManifestBuilder } from 'c2pa-node'
-import { KMS } from '@aws-sdk/client-kms'
+import { type C2pa, createC2pa, ManifestBuilder, type ResolvedManifestStore } from 'c2pa-node'
 import fs from 'fs'
 import path from 'path'
 import os from 'os'
-
-// Initialize AWS KMS client
-const kms = new KMS({
-    region: process.env.AWS_REGION || 'us-east-2'
-})
-
-/**
- * Initialize C2PA with AWS KMS signer
- * This is a singleton that will be reused across requests
- */
-export const c2paPromise = (async () => {
-    // Check for production environment
-    const isProduction = process.env.NODE_ENV === 'production'
-
-    try {
-        if (isProduction) {
-            // For now, don't sign anything in production
-            console.log('Production environment detected - C2PA signing disabled')
-            return undefined;
-
-            // In production, we should use AWS KMS
-            // const kmsKeyId = process.env.AWS_KMS_KEY_ID
-
-            // if (!kmsKeyId) {
-            //     console.warn('AWS_KMS_KEY_ID environment variable is not set, falling back to test signer')
-            //     // Fall back to test signer if KMS key is not configured
-            //     return createC2pa({
-            //         signer: await createTestSigner({
-            //             certificatePath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pub'),
-            //             privateKeyPath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pem')
-            //         })
-            //     })
-            // }
-
-            // console.log('Using AWS KMS signer with key ID:', kmsKeyId)
-
-            // // TODO: Implement KMS signer when AWS KMS credentials are available
-            // // For now, fall back to test signer
-            // return createC2pa({
-            //     signer: await createTestSigner({
-            //         certificatePath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pub'),
-            //         privateKeyPath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pem')
-            //     })
-            // })
-        } else {
-            // In development, use test signer
-            console.log('Using test signer for development environment')
-            return createC2pa({
-                signer: await createTestSigner({
-                    certificatePath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pub'),
-                    privateKeyPath: path.join(process.cwd(), 'c2pa-test-certs', 'es256.pem')
-                })
-            })
-        }
-    } catch (error) {
-        console.error('Error initializing C2PA:', error)
-        throw error
-    }
-})()
+import {
+    buildPadloxAssertion,
+    isSignableMimeType,
+    isSignableVideoType,
+    PADLOX_APP_VERSION,
+    PADLOX_ASSERTION_LABEL,
+    SignableMetadata,
+    SignerIdentity,
+} from '@/lib/c2pa/metadata'
+import { getC2pa } from '@/lib/c2pa/server'
+import { buildUnreadableReport, buildVerificationReport, VerificationReport } from '@/lib/c2pa/verification'
 
 /**
  * Creates a C2PA manifest with metadata for the asset
  */
-function createManifest(metadata: {
-    name: string;
-    description: string | null;
-    estimated_value: number | null;
-}, mimeType: string) {
+function createManifest(metadata: SignableMetadata, mimeType: string, signedAt: string) {
+    const isVideo = isSignableVideoType(mimeType)
     return new ManifestBuilder({
-        claim_generator: 'Padlox/1.0.0',
+        claim_generator: `Padlox/${PADLOX_APP_VERSION}`,
         format: mimeType,
         title: metadata.name,
         assertions: [
@@ -82,8 +30,8 @@ function createManifest(metadata: {
                     actions: [
                         {
                             action: 'c2pa.created',
-                            when: new Date().toISOString(),
-                            softwareAgent: 'Padlox/1.0.0 (KMS Signing)',
+                            when: metadata.capture?.capture_time || signedAt,
+                            softwareAgent: `Padlox/${PADLOX_APP_VERSION}`,
                             parameters: {
                                 input: {
                                     asset: {
@@ -100,10 +48,10 @@ function createManifest(metadata: {
                 label: 'stds.schema-org.CreativeWork',
                 data: {
                     '@context': 'https://schema.org',
-                    '@type': 'ImageObject',
+                    '@type': isVideo ? 'VideoObject' : 'ImageObject',
                     'name': metadata.name,
                     'description': metadata.description || '',
-                    'dateCreated': new Date().toISOString(),
+                    'dateCreated': metadata.capture?.capture_time || signedAt,
                     'creator': {
                         '@type': 'Organization',
                         'name': 'Padlox Home Inventory',
@@ -112,144 +60,171 @@ function createManifest(metadata: {
                 },
             },
             {
-                label: 'com.padlox.metadata',
-                data: {
-                    description: metadata.description || '',
-                    estimated_value: metadata.estimated_value || 0,
-                    capture_time: new Date().toISOString(),
-                    app_version: '1.0.0',
-                    device_info: {
-                        software: 'Padlox Web App',
-                        version: '1.0.0'
-                    }
-                },
+                label: PADLOX_ASSERTION_LABEL,
+                data: buildPadloxAssertion(metadata, signedAt),
             },
         ],
     })
 }
 
+export interface SignedMedia {
+    buffer: Buffer
+    /** False when signing is disabled or the format cannot carry a manifest */
+    signed: boolean
+    signedAt: string
+    manifestLabel: string | null
+    /** The signer that produced the manifest; null when unsigned */
+    signer: SignerIdentity | null
+}
+
 /**
- * Signs a file using C2PA with AWS KMS
+ * Signs videos through temporary files: c2pa rewrites the MP4 box structure, and keeping
+ * recordings on disk avoids a second in-memory copy inside the native binding.
  */
-export async function signFile(
+async function signVideoFile(c2pa: C2pa, buffer: Buffer, mimeType: string, manifest: ManifestBuilder): Promise<Buffer> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'padlox-c2pa-'))
+    const inputPath = path.join(dir, 'input.mp4')
+    const outputPath = path.join(dir, 'signed.mp4')
+    try {
+        await fs.promises.writeFile(inputPath, buffer)
+        await c2pa.sign({
+            asset: { path: inputPath, mimeType },
+            manifest,
+            options: { embed: true, outputPath }
+        })
+        return await fs.promises.readFile(outputPath)
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true })
+    }
+}
+
+/**
+ * Signs an image or MP4 video with C2PA and reports whether a manifest was embedded
+ */
+export async function signMedia(
     buffer: Buffer,
     mimeType: string,
     fileName: string,
-    metadata: {
-        name: string;
-        description: string | null;
-        estimated_value: number | null;
-    }
-) {
-    const c2pa = await c2paPromise
+    metadata: SignableMetadata
+): Promise<SignedMedia> {
+    const signedAt = new Date().toISOString()
+    const active = await getC2pa()
 
-    // If c2pa is undefined (in production), return the original buffer
-    if (!c2pa) {
+    // C2PA_SIGNER=none: return the original buffer
+    if (!active) {
         console.log('C2PA signing is disabled - returning original buffer')
-        return buffer
+        return { buffer, signed: false, signedAt, manifestLabel: null, signer: null }
     }
+    const { c2pa, identity } = active
 
-    const isVideo = mimeType.startsWith('video/')
-
-    // Skip signing for videos, just return the original buffer
-    if (isVideo) {
-        console.log('Skipping C2PA signing for video - returning original buffer')
-        return buffer
+    // WebM and other formats cannot carry a manifest
+    if (!isSignableMimeType(mimeType)) {
+        console.log(`Skipping C2PA signing for ${mimeType} - returning original buffer`)
+        return { buffer, signed: false, signedAt, manifestLabel: null, signer: null }
     }
 
-    // For images, use buffer-based signing
-    const manifest = createManifest(metadata, mimeType)
+    const isVideo = isSignableVideoType(mimeType)
+    const manifest = createManifest(metadata, mimeType, signedAt)
     console.log('Created manifest for:', {
         name: metadata.name,
+        fileName,
         mimeType,
-        timestamp: new Date().toISOString()
+        sessionId: metadata.capture?.session_id ?? null,
+        signer: `${identity.kind}:${identity.subject}`,
+        timestamp: signedAt
     })
 
-    const { signedAsset } = await c2pa.sign({
-        asset: {
-            buffer,
-            mimeType
-        },
-        manifest,
-        options: {
-            // Ensure manifest is embedded in the file
-            embed: true
-        }
-    })
+    const signedBuffer = isVideo
+        ? await signVideoFile(c2pa, buffer, mimeType, manifest)
+        : (await c2pa.sign({
+            asset: {
+                buffer,
+                mimeType
+            },
+            manifest,
+            options: {
+                // Ensure manifest is embedded in the file
+                embed: true
+            }
+        })).signedAsset.buffer
 
     console.log('Buffer sizes:', {
         original: buffer.length,
-        signed: signedAsset.buffer.length,
-        difference: signedAsset.buffer.length - buffer.length
+        signed: signedBuffer.length,
+        difference: signedBuffer.length - buffer.length
     })
 
     // Verify the signed buffer immediately after signing
+    let manifestLabel: string | null = null
     try {
         const verifyResult = await c2pa.read({
-            buffer: signedAsset.buffer,
+            buffer: signedBuffer,
             mimeType
         })
+        manifestLabel = verifyResult?.active_manifest?.label ?? null
         console.log('Verification:', {
-            success: !!verifyResult,
-            hasManifest: !!verifyResult?.activeManifest,
-            validationStatus: verifyResult?.validationStatus || []
+            success: !!verifyResult?.active_manifest,
+            manifestLabel,
+            validationStatus: verifyResult?.validation_status || []
         })
     } catch (error) {
         console.warn('Verification check after signing failed:', error)
         // Continue anyway, as the signing might still be valid
     }
 
-    return signedAsset.buffer
+    return { buffer: signedBuffer, signed: true, signedAt, manifestLabel, signer: identity }
 }
 
 /**
- * Verifies a file using C2PA
- * Returns true if the file is verified
+ * Signs a file using C2PA with the configured signer
  */
-export async function verifyFile(buffer: Buffer, mimeType: string) {
-    try {
-        const c2pa = await c2paPromise
-
-        // If c2pa is undefined (in production), return false (not verified)
-        if (!c2pa) {
-            console.log('C2PA verification is disabled in production')
-            return false
-        }
-
-        const isVideo = mimeType.startsWith('video/')
+export async function signFile(
+    buffer: Buffer,
+    mimeType: string,
+    fileName: string,
+    metadata: SignableMetadata
+) {
+    return (await signMedia(buffer, mimeType, fileName, metadata)).buffer
+}
 
-        // Skip verification for videos, they're not signed
-        if (isVideo) {
-            console.log('Skipping C2PA verification for video - videos are not signed')
-            return false
-        }
+/**
+ * Reads the C2PA manifest store of a file and builds the verification report for it
+ */
+export async function verifyMedia(buffer: Buffer, mimeType: string): Promise<VerificationReport> {
+    // Reading manifests needs no signer, so verification works even with signing disabled
+    const active = await getC2pa().catch(() => undefined)
+    const c2pa = active?.c2pa ?? createC2pa()
+
+    // Only images and MP4 videos are signed
+    if (!isSignableMimeType(mimeType)) {
+        console.log(`Skipping C2PA verification for ${mimeType} - the format is not signed`)
+        return buildVerificationReport(null)
+    }
 
-        // For images, use buffer-based verification
-        const verifyResult = await c2pa.read({
+    let store: ResolvedManifestStore | null
+    try {
+        store = await c2pa.read({
             buffer,
             mimeType
         })
-
-        const isVerified = !!verifyResult?.activeManifest
-        console.log('Verification result:', {
-            success: isVerified,
-            hasManifest: !!verifyResult?.activeManifest,
-            validationStatus: verifyResult?.validationStatus || []
-        })
-
-        if (isVerified && verifyResult?.activeManifest) {
-            console.log('Verified manifest contents:', {
-                title: verifyResult.activeManifest.title,
-                format: verifyResult.activeManifest.format,
-                claimGenerator: verifyResult.activeManifest.claimGenerator,
-                assertionCount: verifyResult.activeManifest.assertions.length,
-                assertionLabels: verifyResult.activeManifest.assertions.map((a: any) => a.label)
-            })
-        }
-
-        return isVerified
     } catch (error) {
-        console.error('Verification failed:', error)
-        return false
+        // c2pa throws instead of reporting when the manifest cannot be parsed at all
+        const message = error instanceof Error ? error.message : String(error)
+        if (/JumbfNotFound|ManifestNotFound|no manifest/i.test(message)) {
+            store = null
+        } else {
+            console.error('Failed to read C2PA manifest:', message)
+            return buildUnreadableReport(message)
+        }
     }
+    const report = buildVerificationReport(store, active?.identity ?? null)
+
+    console.log('Verification result:', {
+        status: report.status,
+        manifest: report.active_manifest?.label ?? null,
+        claimGenerator: report.active_manifest?.claim_generator ?? null,
+        codes: report.validation_status.map((entry) => entry.code)
+    })
+
+    return report
 }